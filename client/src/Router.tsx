@@ -2,10 +2,11 @@ import { lazy, Suspense, LazyExoticComponent, ComponentType, ReactNode, useEffec
 import { Switch, Route, Router as WouterRouter, useLocation } from "wouter";
 import { useTranslation } from "react-i18next";
 import { useQuery } from "@tanstack/react-query";
-import type { SupportedLanguage } from "@shared/schema";
+import type { Permission, SupportedLanguage } from "@shared/schema";
 import { stripLanguagePrefix } from "@/lib/languageRouting";
+import { ADMIN_PAGE_PERMISSIONS } from "@/lib/adminPermissions";
 
-import { ProtectedRoute } from "@/components/ProtectedRoute";
+import { PermissionGate, ProtectedRoute } from "@/components/ProtectedRoute";
 import { AdminLayout } from "@/components/AdminLayout";
 import { AdminErrorBoundary, AdminLoadingFallback } from "@/components/AdminErrorBoundary";
 
@@ -20,6 +21,7 @@ const Channels = lazy(() => import("@/pages/Channels"));
 const ChannelPage = lazy(() => import("@/pages/ChannelPage"));
 const Tags = lazy(() => import("@/pages/Tags"));
 const Popular = lazy(() => import("@/pages/Popular"));
+const Following = lazy(() => import("@/pages/Following"));
 const Shorts = lazy(() => import("@/pages/Shorts"));
 const Donate = lazy(() => import("@/pages/Donate"));
 const Login = lazy(() => import("@/pages/Login"));
@@ -57,6 +59,9 @@ const adminPages = {
   users: lazy(() => import("@/pages/AdminUsers")),
   languages: lazy(() => import("@/pages/AdminLanguages")),
   inbox: lazy(() => import("@/pages/AdminInbox")),
+  availability: lazy(() => import("@/pages/AdminAvailability")),
+  tagMerges: lazy(() => import("@/pages/AdminTagMerges")),
+  webhooks: lazy(() => import("@/pages/AdminWebhooks")),
 };
 
 type AdminPageKey = keyof typeof adminPages;
@@ -69,7 +74,9 @@ interface AdminRouteConfig {
 const adminRoutes: AdminRouteConfig[] = [
   { path: "/admin/channels", page: "channels" },
   { path: "/admin/videos", page: "videos" },
+  { path: "/admin/availability", page: "availability" },
   { path: "/admin/categories", page: "categories" },
+  { path: "/admin/tag-merges", page: "tagMerges" },
   { path: "/admin/automation", page: "automation" },
   { path: "/admin/analytics", page: "analytics" },
   { path: "/admin/playlists", page: "playlists" },
@@ -90,17 +97,26 @@ const adminRoutes: AdminRouteConfig[] = [
   { path: "/admin/debug", page: "logs" },
   { path: "/admin/users", page: "users" },
   { path: "/admin/languages", page: "languages" },
+  { path: "/admin/webhooks", page: "webhooks" },
   { path: "/admin", page: "dashboard" },
 ];
 
-function AdminRoute({ component: Component }: { component: LazyExoticComponent<ComponentType<any>> }) {
+function AdminRoute({
+  component: Component,
+  permissions,
+}: {
+  component: LazyExoticComponent<ComponentType<any>>;
+  permissions: Permission[];
+}) {
   return (
     <ProtectedRoute>
       <AdminErrorBoundary>
         <AdminLayout>
-          <Suspense fallback={<AdminLoadingFallback />}>
-            <Component />
-          </Suspense>
+          <PermissionGate permissions={permissions}>
+            <Suspense fallback={<AdminLoadingFallback />}>
+              <Component />
+            </Suspense>
+          </PermissionGate>
         </AdminLayout>
       </AdminErrorBoundary>
     </ProtectedRoute>
@@ -147,6 +163,7 @@ function AppRoutes() {
       <Route path="/tags">{() => <LazyRoute component={Tags} />}</Route>
       <Route path="/tag/:slug">{() => <LazyRoute component={TagPage} />}</Route>
       <Route path="/popular">{() => <LazyRoute component={Popular} />}</Route>
+      <Route path="/following">{() => <LazyRoute component={Following} />}</Route>
       <Route path="/shorts">{() => <LazyRoute component={Shorts} />}</Route>
       <Route path="/about">{() => <LazyRoute component={About} />}</Route>
       <Route path="/donate">{() => <LazyRoute component={Donate} />}</Route>
@@ -160,7 +177,7 @@ function AppRoutes() {
       <Route path="/public/error-logs">{() => <LazyRoute component={PublicErrorLogs} />}</Route>
       {adminRoutes.map(({ path, page }) => (
         <Route key={path} path={path}>
-          <AdminRoute component={adminPages[page]} />
+          <AdminRoute component={adminPages[page]} permissions={ADMIN_PAGE_PERMISSIONS[path]} />
         </Route>
       ))}
       <Route component={NotFound} />
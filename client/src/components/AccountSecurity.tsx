@@ -0,0 +1,365 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
+import { Copy, Mail, ShieldAlert, ShieldCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+type AccountSecurityInfo = {
+  email: string | null;
+  emailVerified: boolean;
+  passwordSet: boolean;
+  twoFactorEnabled: boolean;
+  twoFactorRequired: boolean;
+  recoveryCodesLeft: number;
+};
+
+type Provisioning = { secret: string; otpauthUrl: string; qrCode: string };
+
+// The auth routes answer with { error } and the message is meant for the user
+async function accountRequest<T>(method: string, url: string, body?: unknown): Promise<T> {
+  const res = await fetch(url, {
+    method,
+    headers: body ? { "Content-Type": "application/json" } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: "include",
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || res.statusText);
+  return data as T;
+}
+
+function CodeInput({ value, onChange }: { value: string; onChange: (value: string) => void }) {
+  return (
+    <InputOTP maxLength={6} pattern={REGEXP_ONLY_DIGITS} value={value} onChange={onChange}>
+      <InputOTPGroup>
+        {Array.from({ length: 6 }, (_, i) => (
+          <InputOTPSlot key={i} index={i} />
+        ))}
+      </InputOTPGroup>
+    </InputOTP>
+  );
+}
+
+/** Email verification and authenticator-app two-factor auth for the signed-in user. */
+export function AccountSecurity() {
+  const { t, i18n } = useTranslation();
+  const { toast } = useToast();
+  const [email, setEmail] = useState("");
+  const [emailPassword, setEmailPassword] = useState("");
+  const [provisioning, setProvisioning] = useState<Provisioning | null>(null);
+  const [code, setCode] = useState("");
+  const [password, setPassword] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: account } = useQuery<AccountSecurityInfo>({
+    queryKey: ["/api/auth/account"],
+  });
+
+  useEffect(() => {
+    if (account) setEmail(account.email || "");
+  }, [account?.email]);
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/account"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/session"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: t("common.error", "Error"), description: error.message, variant: "destructive" });
+  };
+
+  const emailMutation = useMutation({
+    mutationFn: () =>
+      accountRequest<{ verificationSent: boolean }>("PUT", "/api/auth/email", {
+        email,
+        currentPassword: emailPassword,
+        locale: i18n.language,
+      }),
+    onSuccess: (data) => {
+      setEmailPassword("");
+      toast({
+        title: data.verificationSent
+          ? t("accountSecurity.verificationSent", "Verification email sent")
+          : t("accountSecurity.emailSaved", "Email saved"),
+      });
+      refresh();
+    },
+    onError,
+  });
+
+  const setupMutation = useMutation({
+    mutationFn: () => accountRequest<Provisioning>("POST", "/api/auth/2fa/setup"),
+    onSuccess: (data) => {
+      setCode("");
+      setProvisioning(data);
+    },
+    onError,
+  });
+
+  const enableMutation = useMutation({
+    mutationFn: () => accountRequest<{ recoveryCodes: string[] }>("POST", "/api/auth/2fa/enable", { code }),
+    onSuccess: (data) => {
+      setProvisioning(null);
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      toast({ title: t("accountSecurity.enabled", "Two-factor authentication is on") });
+      refresh();
+    },
+    onError,
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: () => accountRequest<{ recoveryCodes: string[] }>("POST", "/api/auth/2fa/recovery-codes", { code }),
+    onSuccess: (data) => {
+      setCode("");
+      setRecoveryCodes(data.recoveryCodes);
+      refresh();
+    },
+    onError,
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: () => accountRequest("POST", "/api/auth/2fa/disable", { password, code }),
+    onSuccess: () => {
+      setCode("");
+      setPassword("");
+      setRecoveryCodes(null);
+      toast({ title: t("accountSecurity.disabled", "Two-factor authentication is off") });
+      refresh();
+    },
+    onError,
+  });
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: t("accountSecurity.codesCopied", "Recovery codes copied") });
+  };
+
+  if (!account) return null;
+
+  const emailChanged = email.trim().toLowerCase() !== (account.email || "").toLowerCase();
+  // Mirrors PUT /email: only a password-protected address needs the password to change
+  const emailNeedsPassword = emailChanged && Boolean(account.email) && account.passwordSet;
+
+  return (
+    <div className="space-y-6" data-testid="account-security">
+      <div className="space-y-2">
+        <Label htmlFor="account-email" className="flex items-center gap-2">
+          {t("auth.email", "Email")}
+          {account.email && (
+            <Badge variant={account.emailVerified ? "default" : "secondary"}>
+              {account.emailVerified
+                ? t("accountSecurity.verified", "Verified")
+                : t("accountSecurity.unverified", "Not verified")}
+            </Badge>
+          )}
+        </Label>
+        <form
+          className="flex flex-col sm:flex-row gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (email.trim()) emailMutation.mutate();
+          }}
+        >
+          <div className="relative flex-1">
+            <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              id="account-email"
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="name@example.com"
+              className="pl-10"
+              data-testid="input-account-email"
+            />
+          </div>
+          {emailNeedsPassword && (
+            <Input
+              type="password"
+              value={emailPassword}
+              onChange={(e) => setEmailPassword(e.target.value)}
+              placeholder={t("auth.password", "Password")}
+              autoComplete="current-password"
+              className="sm:w-48"
+              data-testid="input-account-email-password"
+            />
+          )}
+          {emailChanged ? (
+            <Button type="submit" disabled={!email.trim() || (emailNeedsPassword && !emailPassword) || emailMutation.isPending}>
+              {t("accountSecurity.saveEmail", "Save email")}
+            </Button>
+          ) : (
+            account.email &&
+            !account.emailVerified && (
+              <Button type="submit" variant="outline" disabled={emailMutation.isPending}>
+                {t("accountSecurity.resendVerification", "Resend verification")}
+              </Button>
+            )
+          )}
+        </form>
+        <p className="text-xs text-muted-foreground">
+          {emailNeedsPassword
+            ? t(
+                "accountSecurity.emailPasswordHelp",
+                "Enter your current password to change your email. We'll let your old address know.",
+              )
+            : t("accountSecurity.emailHelp", "Password reset links are sent to this address.")}
+        </p>
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center gap-2">
+          {account.twoFactorEnabled ? (
+            <ShieldCheck className="h-5 w-5 text-primary" />
+          ) : (
+            <ShieldAlert className="h-5 w-5 text-muted-foreground" />
+          )}
+          <p className="font-medium">{t("accountSecurity.twoFactor", "Two-factor authentication")}</p>
+          <Badge variant={account.twoFactorEnabled ? "default" : "secondary"}>
+            {account.twoFactorEnabled ? t("accountSecurity.on", "On") : t("accountSecurity.off", "Off")}
+          </Badge>
+        </div>
+
+        {account.twoFactorRequired && !account.twoFactorEnabled && (
+          <Alert variant="destructive">
+            <ShieldAlert className="h-4 w-4" />
+            <AlertTitle>{t("accountSecurity.requiredTitle", "Two-factor authentication is required")}</AlertTitle>
+            <AlertDescription>
+              {t("accountSecurity.requiredDesc", "Your role requires it. The admin panel opens once you've set it up.")}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {recoveryCodes && (
+          <Alert>
+            <ShieldCheck className="h-4 w-4" />
+            <AlertTitle>{t("accountSecurity.codesTitle", "Save your recovery codes")}</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>
+                {t(
+                  "accountSecurity.codesDesc",
+                  "Each code signs you in once if you lose your authenticator. They won't be shown again.",
+                )}
+              </p>
+              <div className="grid grid-cols-2 gap-1 font-mono text-sm" data-testid="recovery-codes">
+                {recoveryCodes.map((recoveryCode) => (
+                  <span key={recoveryCode}>{recoveryCode}</span>
+                ))}
+              </div>
+              <div className="flex gap-2">
+                <Button type="button" variant="outline" size="sm" onClick={copyRecoveryCodes}>
+                  <Copy className="h-4 w-4 mr-2" />
+                  {t("accountSecurity.copyCodes", "Copy codes")}
+                </Button>
+                <Button type="button" variant="ghost" size="sm" onClick={() => setRecoveryCodes(null)}>
+                  {t("apiTokens.done", "Done")}
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!account.twoFactorEnabled && !provisioning && (
+          <div className="space-y-2">
+            <p className="text-sm text-muted-foreground">
+              {t(
+                "accountSecurity.twoFactorDesc",
+                "Ask for a code from an authenticator app such as Google Authenticator, 1Password or Aegis when you log in.",
+              )}
+            </p>
+            <Button onClick={() => setupMutation.mutate()} disabled={setupMutation.isPending} data-testid="button-setup-2fa">
+              {t("accountSecurity.setUp", "Set up two-factor authentication")}
+            </Button>
+          </div>
+        )}
+
+        {provisioning && (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (code.length === 6) enableMutation.mutate();
+            }}
+          >
+            <p className="text-sm text-muted-foreground">
+              {t("accountSecurity.scan", "Scan this code with your authenticator app, then enter the 6-digit code it shows.")}
+            </p>
+            <div className="flex flex-col sm:flex-row gap-4 items-start">
+              <img
+                src={provisioning.qrCode}
+                alt={t("accountSecurity.qrAlt", "QR code for your authenticator app")}
+                className="h-44 w-44 rounded-md bg-white"
+                data-testid="img-2fa-qr"
+              />
+              <div className="space-y-3 min-w-0">
+                <div>
+                  <p className="text-xs text-muted-foreground">
+                    {t("accountSecurity.manualEntry", "Can't scan it? Enter this key instead:")}
+                  </p>
+                  <code className="text-sm break-all">{provisioning.secret}</code>
+                </div>
+                <CodeInput value={code} onChange={setCode} />
+                <div className="flex gap-2">
+                  <Button type="submit" disabled={code.length !== 6 || enableMutation.isPending} data-testid="button-enable-2fa">
+                    {t("accountSecurity.enable", "Turn on")}
+                  </Button>
+                  <Button type="button" variant="ghost" onClick={() => setProvisioning(null)}>
+                    {t("common.cancel", "Cancel")}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </form>
+        )}
+
+        {account.twoFactorEnabled && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {t("accountSecurity.codesLeft", "{{count}} recovery codes left", { count: account.recoveryCodesLeft })}
+            </p>
+            <div className="space-y-2">
+              <Label>{t("accountSecurity.currentCode", "Code from your authenticator app")}</Label>
+              <CodeInput value={code} onChange={setCode} />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => regenerateMutation.mutate()}
+              disabled={code.length !== 6 || regenerateMutation.isPending}
+            >
+              {t("accountSecurity.regenerate", "New recovery codes")}
+            </Button>
+            {!account.twoFactorRequired && (
+              <div className="flex flex-col sm:flex-row gap-2">
+                <Input
+                  type="password"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                  placeholder={t("auth.password", "Password")}
+                  autoComplete="current-password"
+                  className="sm:max-w-xs"
+                />
+                <Button
+                  variant="destructive"
+                  onClick={() => disableMutation.mutate()}
+                  disabled={!password || code.length !== 6 || disableMutation.isPending}
+                  data-testid="button-disable-2fa"
+                >
+                  {t("accountSecurity.disable", "Turn off")}
+                </Button>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
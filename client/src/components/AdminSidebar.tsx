@@ -26,6 +26,9 @@ import {
   Globe,
   Inbox,
   Layers,
+  VideoOff,
+  GitMerge,
+  Webhook,
 } from "lucide-react";
 import { SiTiktok } from "react-icons/si";
 import { useTranslation } from "react-i18next";
@@ -33,6 +36,8 @@ import { Button } from "@/components/ui/button";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { cn } from "@/lib/utils";
+import { ADMIN_PAGE_PERMISSIONS } from "@/lib/adminPermissions";
+import { usePermissions } from "@/hooks/usePermissions";
 
 interface AdminSidebarProps {
   open?: boolean;
@@ -44,6 +49,7 @@ export function AdminSidebar({ open = false, onClose, className }: AdminSidebarP
   const [location, setLocation] = useLocation();
   const { t } = useTranslation();
   const { toast } = useToast();
+  const { can, isLoading: permissionsLoading } = usePermissions();
 
   // Close sidebar on route change (mobile)
   useEffect(() => {
@@ -53,13 +59,11 @@ export function AdminSidebar({ open = false, onClose, className }: AdminSidebarP
   }, [location]);
 
   useEffect(() => {
+    if (permissionsLoading) return;
     const common = [
-      "/api/admin/categories",
-      "/api/admin/tags",
-      "/api/admin/cache/settings",
-      "/api/admin/cache/stats",
-      "/api/admin/hero/config",
-      "/api/admin/hero/images",
+      ...(can("taxonomy.manage") ? ["/api/admin/categories", "/api/admin/tags"] : []),
+      ...(can("settings.manage") ? ["/api/admin/cache/settings", "/api/admin/cache/stats"] : []),
+      ...(can("appearance.manage") ? ["/api/admin/hero/config", "/api/admin/hero/images"] : []),
     ];
 
     common.forEach((key) => {
@@ -70,7 +74,7 @@ export function AdminSidebar({ open = false, onClose, className }: AdminSidebarP
         meta: { silenceError: true },
       });
     });
-  }, []);
+  }, [permissionsLoading]);
 
   const handleLogout = async () => {
     try {
@@ -147,6 +151,12 @@ export function AdminSidebar({ open = false, onClose, className }: AdminSidebarP
           path: "/admin/videos",
           testId: "link-videos",
         },
+        {
+          icon: VideoOff,
+          label: t("admin.unavailableVideos", "Unavailable Videos"),
+          path: "/admin/availability",
+          testId: "link-availability",
+        },
         {
           icon: FolderTree,
           label: t("admin.categories", "Categories"),
@@ -154,6 +164,12 @@ export function AdminSidebar({ open = false, onClose, className }: AdminSidebarP
           testId: "link-categories",
         },
         { icon: Tag, label: t("admin.tags", "Tags"), path: "/admin/tags", testId: "link-tags" },
+        {
+          icon: GitMerge,
+          label: t("admin.tagMerges", "Tag Merges"),
+          path: "/admin/tag-merges",
+          testId: "link-tag-merges",
+        },
         {
           icon: ListVideo,
           label: t("admin.playlists", "Playlists"),
@@ -213,6 +229,18 @@ export function AdminSidebar({ open = false, onClose, className }: AdminSidebarP
           path: "/admin/languages",
           testId: "link-languages",
         },
+        {
+          icon: Users,
+          label: t("admin.users", "Users"),
+          path: "/admin/users",
+          testId: "link-users",
+        },
+        {
+          icon: Webhook,
+          label: t("admin.webhooks.title", "Webhooks"),
+          path: "/admin/webhooks",
+          testId: "link-webhooks",
+        },
         {
           icon: Sliders,
           label: t("admin.systemSettings", "System Settings"),
@@ -229,6 +257,17 @@ export function AdminSidebar({ open = false, onClose, className }: AdminSidebarP
     },
   ];
 
+  // Links the role can't use are hidden; pages without an entry (the public site) always show
+  const visibleGroups = menuGroups
+    .map((group) => ({
+      ...group,
+      items: group.items.filter((item) => {
+        const required = ADMIN_PAGE_PERMISSIONS[item.path];
+        return !required || can(...required);
+      }),
+    }))
+    .filter((group) => group.items.length > 0);
+
   return (
     <>
       {open && (
@@ -245,7 +284,7 @@ export function AdminSidebar({ open = false, onClose, className }: AdminSidebarP
         )}
       >
         <nav className="flex-1 py-4">
-          {menuGroups.map((group, groupIndex) => (
+          {visibleGroups.map((group) => (
             <div key={group.title} className="mb-6 last:mb-0">
               <h4 className="px-4 mb-2 text-xs font-semibold text-muted-foreground uppercase tracking-wider">
                 {group.title}
@@ -3,6 +3,8 @@ import { useQuery } from "@tanstack/react-query";
 import type { AnalyticsEvent } from "@shared/schema";
 import { useLocation } from "wouter";
 import { getQueryFn } from "@/lib/queryClient";
+import { trackPageView } from "@/lib/visitorAnalytics";
+import { ConsentBanner } from "@/components/ConsentBanner";
 
 interface AnalyticsTrackerProps {
   children: React.ReactNode;
@@ -19,6 +21,11 @@ export function AnalyticsTracker({ children }: AnalyticsTrackerProps) {
     staleTime: 1000 * 60,
   });
 
+  // First-party visitor analytics covers the public site only
+  useEffect(() => {
+    if (!isAdminRoute) trackPageView(location);
+  }, [location, isAdminRoute]);
+
   const { data: events } = useQuery<AnalyticsEvent[] | null>({
     queryKey: ["/api/admin/analytics/events"],
     queryFn: getQueryFn({ on401: "returnNull" }),
@@ -152,7 +159,12 @@ export function AnalyticsTracker({ children }: AnalyticsTrackerProps) {
     });
   }, [events]);
 
-  return <>{children}</>;
+  return (
+    <>
+      {children}
+      {!isAdminRoute && <ConsentBanner />}
+    </>
+  );
 }
 
 // Extend the Window interface for TypeScript
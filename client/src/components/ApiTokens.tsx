@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { formatDistanceToNow } from "date-fns";
+import { Copy, KeyRound, Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { API_TOKEN_SCOPES, type ApiToken, type ApiTokenScope } from "@shared/schema";
+
+type TokenSummary = Omit<ApiToken, "tokenHash" | "userId">;
+
+const EXPIRY_OPTIONS = ["30", "90", "365", "never"] as const;
+
+/** Personal tokens for the /api/v1 read API. */
+export function ApiTokens() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [scopes, setScopes] = useState<ApiTokenScope[]>([...API_TOKEN_SCOPES]);
+  const [expiry, setExpiry] = useState<(typeof EXPIRY_OPTIONS)[number]>("90");
+  const [secret, setSecret] = useState<string | null>(null);
+
+  const { data: tokens = [], isLoading } = useQuery<TokenSummary[]>({
+    queryKey: ["/api/user/tokens"],
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/user/tokens"] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/tokens", {
+        name,
+        scopes,
+        expiresInDays: expiry === "never" ? null : Number(expiry),
+      });
+      return (await res.json()) as { secret: string; token: TokenSummary };
+    },
+    onSuccess: (data) => {
+      setSecret(data.secret);
+      setName("");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: t("apiTokens.createFailed", "Could not create token"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/user/tokens/${id}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const toggleScope = (scope: ApiTokenScope, checked: boolean) => {
+    setScopes((current) => (checked ? [...current, scope] : current.filter((s) => s !== scope)));
+  };
+
+  const copySecret = async () => {
+    if (!secret) return;
+    await navigator.clipboard.writeText(secret);
+    toast({ title: t("apiTokens.copied", "Token copied") });
+  };
+
+  const expiryLabels: Record<(typeof EXPIRY_OPTIONS)[number], string> = {
+    "30": t("apiTokens.expires30", "Expires in 30 days"),
+    "90": t("apiTokens.expires90", "Expires in 90 days"),
+    "365": t("apiTokens.expires365", "Expires in a year"),
+    never: t("apiTokens.neverExpires", "Never expires"),
+  };
+
+  return (
+    <div className="space-y-4" data-testid="api-tokens">
+      {secret && (
+        <Alert>
+          <KeyRound className="h-4 w-4" />
+          <AlertTitle>{t("apiTokens.secretTitle", "Copy your new token now")}</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>{t("apiTokens.secretDesc", "It won't be shown again. Send it as a Bearer token in the Authorization header.")}</p>
+            <div className="flex gap-2">
+              <Input readOnly value={secret} className="font-mono text-xs" data-testid="api-token-secret" />
+              <Button type="button" variant="outline" size="icon" onClick={copySecret} aria-label={t("apiTokens.copy", "Copy")}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setSecret(null)}>
+              {t("apiTokens.done", "Done")}
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <form
+        className="space-y-3"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (name.trim() && scopes.length) createMutation.mutate();
+        }}
+      >
+        <div className="flex flex-col sm:flex-row gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t("apiTokens.name", "Token name, e.g. partner site")}
+            maxLength={100}
+          />
+          <Select value={expiry} onValueChange={(value) => setExpiry(value as (typeof EXPIRY_OPTIONS)[number])}>
+            <SelectTrigger className="sm:w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_OPTIONS.map((option) => (
+                <SelectItem key={option} value={option}>{expiryLabels[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button type="submit" disabled={!name.trim() || !scopes.length || createMutation.isPending}>
+            <Plus className="h-4 w-4 mr-2" />
+            {t("apiTokens.create", "Create token")}
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-4">
+          {API_TOKEN_SCOPES.map((scope) => (
+            <label key={scope} className="flex items-center gap-2 text-sm">
+              <Checkbox checked={scopes.includes(scope)} onCheckedChange={(checked) => toggleScope(scope, checked === true)} />
+              <span className="font-mono">{scope}</span>
+            </label>
+          ))}
+        </div>
+      </form>
+
+      {!isLoading && tokens.length === 0 && (
+        <p className="text-muted-foreground py-6">{t("apiTokens.empty", "You don't have any API tokens yet.")}</p>
+      )}
+
+      {tokens.map((token) => {
+        const revoked = Boolean(token.revokedAt);
+        const expired = !revoked && token.expiresAt && new Date(token.expiresAt) <= new Date();
+        return (
+          <div key={token.id} className="flex items-center gap-3 rounded-md border p-3" data-testid={`api-token-${token.id}`}>
+            <KeyRound className="h-5 w-5 text-muted-foreground shrink-0" />
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex items-center gap-2">
+                <p className="font-medium truncate">{token.name}</p>
+                <code className="text-xs text-muted-foreground">{token.tokenPrefix}…</code>
+                {revoked && <Badge variant="secondary">{t("apiTokens.revoked", "Revoked")}</Badge>}
+                {expired && <Badge variant="secondary">{t("apiTokens.expired", "Expired")}</Badge>}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                {token.scopes.join(", ")}
+                {" · "}
+                {token.lastUsedAt
+                  ? `${t("apiTokens.lastUsed", "Last used")} ${formatDistanceToNow(new Date(token.lastUsedAt), { addSuffix: true })}`
+                  : t("apiTokens.neverUsed", "Never used")}
+                {token.expiresAt && !revoked && !expired && (
+                  <>{" · "}{t("apiTokens.expires", "Expires")} {formatDistanceToNow(new Date(token.expiresAt), { addSuffix: true })}</>
+                )}
+              </p>
+            </div>
+            {!revoked && (
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => revokeMutation.mutate(token.id)}
+                disabled={revokeMutation.isPending}
+                aria-label={t("apiTokens.revoke", "Revoke token")}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
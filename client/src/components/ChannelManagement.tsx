@@ -1,5 +1,5 @@
 import { useState, useMemo } from "react";
-import { Plus, RefreshCw, Trash2, ExternalLink, Youtube, Search, ArrowUpDown } from "lucide-react";
+import { Plus, RefreshCw, Trash2, ExternalLink, Youtube, Search, ArrowUpDown, Radio } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Input } from "@/components/ui/input";
@@ -19,18 +19,30 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { AddChannelDialog } from "./AddChannelDialog";
-import type { Channel } from "@shared/schema";
+import type { Channel, WebSubSubscription } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
 import { useTranslation } from "react-i18next";
 
+export type ChannelPushSubscription = Omit<WebSubSubscription, "secret">;
+
 interface ChannelManagementProps {
   channels: Channel[];
   onAdd?: (url: string, name: string) => void;
   onScrape?: (channelId: string) => void;
   onDelete?: (channelId: string) => void;
   isLoading?: boolean;
+  /** WebSub state keyed by channel id; the Push column is shown when set. */
+  pushSubscriptions?: Record<string, ChannelPushSubscription>;
+  onResubscribe?: (channelId: string) => void;
 }
 
+const PUSH_STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  subscribed: "default",
+  pending: "secondary",
+  denied: "destructive",
+  error: "destructive",
+};
+
 type SortField = "name" | "videoCount" | "lastScraped";
 type SortOrder = "asc" | "desc";
 
@@ -40,6 +52,8 @@ export function ChannelManagement({
   onScrape,
   onDelete,
   isLoading = false,
+  pushSubscriptions,
+  onResubscribe,
 }: ChannelManagementProps) {
   const { t } = useTranslation();
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -184,6 +198,9 @@ export function ChannelManagement({
                       {t("admin.lastScraped", "Last Scraped")} <ArrowUpDown className="h-3 w-3" />
                     </div>
                   </TableHead>
+                  {pushSubscriptions && (
+                    <TableHead className="whitespace-nowrap">{t("admin.pushStatus", "Push")}</TableHead>
+                  )}
                   <TableHead className="text-right">{t("common.actions", "Actions")}</TableHead>
                 </TableRow>
               </TableHeader>
@@ -244,6 +261,15 @@ export function ChannelManagement({
                           : t("common.never", "Never")}
                       </span>
                     </TableCell>
+                    {pushSubscriptions && (
+                      <TableCell>
+                        <PushStatusCell
+                          channel={channel}
+                          subscription={pushSubscriptions[channel.id]}
+                          onResubscribe={onResubscribe}
+                        />
+                      </TableCell>
+                    )}
                     <TableCell className="text-right">
                       <div className="flex items-center justify-end gap-2">
                         <Button
@@ -285,3 +311,49 @@ export function ChannelManagement({
     </div>
   );
 }
+
+function PushStatusCell({
+  channel,
+  subscription,
+  onResubscribe,
+}: {
+  channel: Channel;
+  subscription?: ChannelPushSubscription;
+  onResubscribe?: (channelId: string) => void;
+}) {
+  const { t } = useTranslation();
+  if ((channel.platform || "youtube") !== "youtube") {
+    return <span className="text-sm text-muted-foreground">—</span>;
+  }
+
+  const leaseExpiresAt = subscription?.leaseExpiresAt ? new Date(subscription.leaseExpiresAt) : null;
+  return (
+    <div className="flex items-center gap-2 whitespace-nowrap" data-testid={`push-status-${channel.id}`}>
+      <div className="space-y-0.5">
+        <Badge
+          variant={subscription ? PUSH_STATUS_VARIANTS[subscription.status] ?? "outline" : "outline"}
+          title={subscription?.lastError || undefined}
+        >
+          {subscription ? t(`admin.pushStatuses.${subscription.status}`, subscription.status) : t("admin.pushNotSubscribed", "polling")}
+        </Badge>
+        {leaseExpiresAt && subscription?.status === "subscribed" && (
+          <div className="text-xs text-muted-foreground">
+            {t("admin.pushLeaseExpires", "renews")} {formatDistanceToNow(leaseExpiresAt, { addSuffix: true })}
+          </div>
+        )}
+      </div>
+      {onResubscribe && (
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7"
+          onClick={() => onResubscribe(channel.id)}
+          title={t("admin.pushResubscribe", "Subscribe to push notifications")}
+          data-testid={`button-resubscribe-${channel.id}`}
+        >
+          <Radio className="h-4 w-4" />
+        </Button>
+      )}
+    </div>
+  );
+}
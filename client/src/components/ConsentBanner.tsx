@@ -0,0 +1,49 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useTranslation } from "react-i18next";
+import { Button } from "@/components/ui/button";
+import { getAnalyticsConsent, setAnalyticsConsent } from "@/lib/visitorAnalytics";
+
+/**
+ * Asks once whether visits may be remembered across sessions. Until the
+ * visitor answers, page views are still counted anonymously.
+ */
+export function ConsentBanner() {
+  const { t } = useTranslation();
+  const [visible, setVisible] = useState(() => getAnalyticsConsent() === "undecided");
+
+  if (!visible) return null;
+
+  const answer = (consent: "granted" | "denied") => {
+    setAnalyticsConsent(consent);
+    setVisible(false);
+  };
+
+  return (
+    <div
+      className="fixed bottom-4 right-4 z-50 bg-background/95 backdrop-blur border border-border rounded-lg shadow-lg p-4 max-w-[360px] animate-in slide-in-from-bottom-5"
+      role="dialog"
+      aria-live="polite"
+      data-testid="consent-banner"
+    >
+      <h3 className="font-semibold text-sm">{t("consent.title", "Help us improve")}</h3>
+      <p className="text-xs text-muted-foreground mt-1">
+        {t(
+          "consent.description",
+          "We count visits with our own privacy-friendly analytics. Allow us to recognise your browser on later visits? No data is shared with third parties.",
+        )}{" "}
+        <Link href="/privacy">
+          <span className="underline cursor-pointer">{t("nav.privacy", "Privacy Policy")}</span>
+        </Link>
+      </p>
+      <div className="flex gap-2 mt-3">
+        <Button size="sm" className="flex-1 h-8 text-xs" onClick={() => answer("granted")} data-testid="button-consent-accept">
+          {t("consent.accept", "Allow")}
+        </Button>
+        <Button size="sm" variant="outline" className="flex-1 h-8 text-xs" onClick={() => answer("denied")} data-testid="button-consent-decline">
+          {t("consent.decline", "Decline")}
+        </Button>
+      </div>
+    </div>
+  );
+}
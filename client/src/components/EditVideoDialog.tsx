@@ -15,6 +15,7 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import type { VideoWithLocalizedRelations, LocalizedCategory } from "@shared/schema";
+import { ViewGrowthChart } from "./ViewGrowthChart";
 import { useTranslation } from "react-i18next";
 
 interface EditVideoDialogProps {
@@ -102,6 +103,8 @@ export function EditVideoDialog({
             </div>
           </div>
 
+          <ViewGrowthChart videoId={video.id} />
+
           <div className="space-y-2">
             <Label htmlFor="title">{t("video.title", "Title")}</Label>
             <Input
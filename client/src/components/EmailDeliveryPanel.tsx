@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { formatDistanceToNow } from "date-fns";
+import { enUS, srLatn } from "date-fns/locale";
+import { Send, RotateCcw, Clock, CheckCircle2, XCircle, Loader2 } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import type { EmailOutboxEntry, EmailLocale } from "@shared/schema";
+
+type OutboxRow = Omit<EmailOutboxEntry, "htmlBody" | "textBody">;
+
+function StatusBadge({ status }: { status: string }) {
+  const { t } = useTranslation();
+  switch (status) {
+    case "sent":
+      return <Badge variant="outline" className="text-green-500 border-green-500/50"><CheckCircle2 className="h-3 w-3 mr-1" />{t("admin.emailStatusSent", "Sent")}</Badge>;
+    case "failed":
+      return <Badge variant="outline" className="text-red-500 border-red-500/50"><XCircle className="h-3 w-3 mr-1" />{t("admin.emailStatusFailed", "Failed")}</Badge>;
+    case "sending":
+      return <Badge variant="outline" className="text-blue-500 border-blue-500/50"><Loader2 className="h-3 w-3 mr-1 animate-spin" />{t("admin.emailStatusSending", "Sending")}</Badge>;
+    default:
+      return <Badge variant="outline" className="text-yellow-500 border-yellow-500/50"><Clock className="h-3 w-3 mr-1" />{t("admin.emailStatusPending", "Pending")}</Badge>;
+  }
+}
+
+export function EmailDeliveryPanel() {
+  const { t, i18n } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [testTo, setTestTo] = useState("");
+  const [testLocale, setTestLocale] = useState<EmailLocale>(i18n.language === "sr-Latn" ? "sr-Latn" : "en");
+  const dateLocale = i18n.language === "sr-Latn" ? srLatn : enUS;
+
+  const { data: outbox = [] } = useQuery<OutboxRow[]>({
+    queryKey: ["/api/admin/email-settings/outbox"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/admin/email-settings/outbox?limit=50");
+      return res.json();
+    },
+    refetchInterval: 30000,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/email-settings/test", { to: testTo, locale: testLocale });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({ title: t("admin.testEmailSent", "Test email sent"), description: testTo });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("admin.testEmailFailed", "Test email failed"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/email-settings/outbox/${id}/retry`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/email-settings/outbox"] });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("admin.sendTestEmail", "Send test email")}</CardTitle>
+          <CardDescription>
+            {t("admin.sendTestEmailDesc", "Sends immediately using the saved SMTP settings and reports any server error.")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="flex flex-col md:flex-row md:items-end gap-4">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="test-email-to">{t("admin.recipient", "Recipient")}</Label>
+              <Input
+                id="test-email-to"
+                type="email"
+                placeholder="admin@example.com"
+                value={testTo}
+                onChange={(e) => setTestTo(e.target.value)}
+                data-testid="input-test-email"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t("admin.language", "Language")}</Label>
+              <Select value={testLocale} onValueChange={(v) => setTestLocale(v as EmailLocale)}>
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="en">English</SelectItem>
+                  <SelectItem value="sr-Latn">Srpski</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <Button
+              type="button"
+              onClick={() => testMutation.mutate()}
+              disabled={!testTo || testMutation.isPending}
+              data-testid="button-send-test-email"
+            >
+              <Send className="h-4 w-4 mr-2" />
+              {testMutation.isPending ? t("admin.sending", "Sending...") : t("admin.send", "Send")}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("admin.emailOutbox", "Outbox")}</CardTitle>
+          <CardDescription>
+            {t("admin.emailOutboxDesc", "Recent notification emails. Failed deliveries are retried with increasing delays.")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {outbox.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t("admin.emailOutboxEmpty", "No emails have been queued yet.")}</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("admin.status", "Status")}</TableHead>
+                  <TableHead>{t("admin.subject", "Subject")}</TableHead>
+                  <TableHead>{t("admin.recipient", "Recipient")}</TableHead>
+                  <TableHead>{t("admin.attempts", "Attempts")}</TableHead>
+                  <TableHead>{t("admin.created", "Created")}</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {outbox.map((entry) => (
+                  <TableRow key={entry.id} data-testid={`row-outbox-${entry.id}`}>
+                    <TableCell><StatusBadge status={entry.status} /></TableCell>
+                    <TableCell className="max-w-[280px]">
+                      <div className="truncate">{entry.subject}</div>
+                      {entry.lastError && (
+                        <div className="text-xs text-red-500 truncate" title={entry.lastError}>{entry.lastError}</div>
+                      )}
+                    </TableCell>
+                    <TableCell>{entry.toAddress}</TableCell>
+                    <TableCell>{entry.attempts}/{entry.maxAttempts}</TableCell>
+                    <TableCell className="whitespace-nowrap">
+                      {formatDistanceToNow(new Date(entry.createdAt), { addSuffix: true, locale: dateLocale })}
+                    </TableCell>
+                    <TableCell>
+                      {entry.status === "failed" && (
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => retryMutation.mutate(entry.id)}
+                          disabled={retryMutation.isPending}
+                        >
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          {t("admin.retry", "Retry")}
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
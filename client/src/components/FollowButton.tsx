@@ -0,0 +1,58 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { BellPlus, BellRing } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { trackEvent } from "@/lib/visitorAnalytics";
+
+interface FollowButtonProps {
+  channelId: string;
+}
+
+interface SubscriptionStatus {
+  subscribed: boolean;
+  subscriberCount: number;
+}
+
+export function FollowButton({ channelId }: FollowButtonProps) {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryKey = ["/api/channels", channelId, "subscription"];
+
+  const { data } = useQuery<SubscriptionStatus>({ queryKey });
+
+  const mutation = useMutation({
+    mutationFn: async (subscribe: boolean) => {
+      const res = await apiRequest(subscribe ? "POST" : "DELETE", `/api/channels/${channelId}/subscription`);
+      return (await res.json()) as SubscriptionStatus;
+    },
+    onSuccess: (status, subscribe) => {
+      queryClient.setQueryData(queryKey, status);
+      if (subscribe) trackEvent("channel_follow", { channelId });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed/following"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("follow.failed", "Could not update subscription"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const subscribed = data?.subscribed ?? false;
+
+  return (
+    <Button
+      type="button"
+      variant={subscribed ? "secondary" : "default"}
+      className="gap-2"
+      disabled={!data || mutation.isPending}
+      onClick={() => mutation.mutate(!subscribed)}
+      data-testid="button-follow-channel"
+    >
+      {subscribed ? <BellRing className="h-4 w-4" /> : <BellPlus className="h-4 w-4" />}
+      {subscribed ? t("follow.following", "Following") : t("follow.follow", "Follow")}
+      {data && data.subscriberCount > 0 && (
+        <span className="text-xs opacity-75">{data.subscriberCount}</span>
+      )}
+    </Button>
+  );
+}
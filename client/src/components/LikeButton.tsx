@@ -4,6 +4,7 @@ import { Button } from "@/components/ui/button";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { trackEvent } from "@/lib/visitorAnalytics";
 
 interface LikeStatus {
   isLiked: boolean;
@@ -90,6 +91,9 @@ export function LikeButton({
 
       return { previousStatus };
     },
+    onSuccess: () => {
+      trackEvent("video_like", { videoId });
+    },
     onError: (err, variables, context) => {
       // Rollback on error
       if (context && context.previousStatus) {
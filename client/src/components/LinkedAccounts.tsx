@@ -0,0 +1,133 @@
+import { useEffect, useRef } from "react";
+import { useSearch } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Link2, Unlink } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+
+type PublicOidcProvider = { slug: string; name: string };
+
+type LinkedIdentity = {
+  id: string;
+  providerSlug: string | null;
+  providerName: string | null;
+  email: string | null;
+  lastLoginAt: string | null;
+  createdAt: string;
+};
+
+/** Sign-in providers connected to the signed-in user, with link and unlink actions. */
+export function LinkedAccounts() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const search = useSearch();
+
+  const { data: providers = [], isFetched: providersFetched } = useQuery<PublicOidcProvider[]>({
+    queryKey: ["/api/auth/oidc/providers"],
+  });
+  const { data: identities = [] } = useQuery<LinkedIdentity[]>({
+    queryKey: ["/api/auth/identities"],
+  });
+
+  // The link flow returns here with ?linked=<slug> or ?oidcError=<message>; each is announced once
+  const announced = useRef<string | null>(null);
+  useEffect(() => {
+    if (announced.current === search) return;
+    const params = new URLSearchParams(search);
+    const linked = params.get("linked");
+    const oidcError = params.get("oidcError");
+    // Wait for the providers so the toast can name the one just linked
+    if (linked && !providersFetched) return;
+    announced.current = search;
+    if (linked) {
+      const name = providers.find((provider) => provider.slug === linked)?.name ?? linked;
+      toast({
+        title: t("common.success", "Success"),
+        description: t("linkedAccounts.linked", "Your {{provider}} account is linked", { provider: name }),
+      });
+    } else if (oidcError) {
+      toast({ title: t("common.error", "Error"), description: oidcError, variant: "destructive" });
+    }
+  }, [search, providers, providersFetched, toast, t]);
+
+  const unlinkMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await fetch(`/api/auth/identities/${encodeURIComponent(id)}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      const data = await res.json().catch(() => ({}));
+      if (!res.ok) throw new Error(data.error || res.statusText);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/identities"] });
+      toast({
+        title: t("common.success", "Success"),
+        description: t("linkedAccounts.unlinked", "The account is unlinked"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("common.error", "Error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const linkedSlugs = new Set(identities.map((identity) => identity.providerSlug));
+  const linkable = providers.filter((provider) => !linkedSlugs.has(provider.slug));
+
+  if (providers.length === 0 && identities.length === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        {t("linkedAccounts.none", "No sign-in providers are set up on this site.")}
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {identities.length > 0 ? (
+        <ul className="divide-y rounded-md border" data-testid="list-linked-identities">
+          {identities.map((identity) => (
+            <li key={identity.id} className="flex items-center justify-between gap-4 p-3">
+              <div className="min-w-0">
+                <p className="font-medium">{identity.providerName ?? identity.providerSlug}</p>
+                {identity.email && <p className="text-sm text-muted-foreground truncate">{identity.email}</p>}
+              </div>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => unlinkMutation.mutate(identity.id)}
+                disabled={unlinkMutation.isPending}
+                data-testid={`button-unlink-${identity.providerSlug}`}
+              >
+                <Unlink className="h-4 w-4 mr-2" />
+                {t("linkedAccounts.unlink", "Unlink")}
+              </Button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-muted-foreground">
+          {t("linkedAccounts.empty", "No accounts are linked yet.")}
+        </p>
+      )}
+
+      {linkable.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {linkable.map((provider) => (
+            <Button key={provider.slug} variant="outline" size="sm" asChild>
+              <a
+                href={`/api/auth/oidc/${encodeURIComponent(provider.slug)}/start?link=1`}
+                data-testid={`button-link-${provider.slug}`}
+              >
+                <Link2 className="h-4 w-4 mr-2" />
+                {t("linkedAccounts.link", "Link {{provider}}", { provider: provider.name })}
+              </a>
+            </Button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,426 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Check, X, RefreshCw, Plus, Trash2 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import type { ModerationRule, ModerationRuleAction, ModerationStatus } from "@shared/schema";
+
+interface QueuedVideo {
+  id: string;
+  slug: string | null;
+  title: string;
+  description: string | null;
+  thumbnailUrl: string;
+  videoType: string;
+  channelName: string | null;
+  channelTrustLevel: string | null;
+  moderationStatus: ModerationStatus;
+  moderationReason: string | null;
+  moderatedAt: string | null;
+  createdAt: string;
+}
+
+interface ModerationQueueResponse {
+  status: ModerationStatus;
+  counts: Record<ModerationStatus, number>;
+  checkRunning: boolean;
+  videos: QueuedVideo[];
+}
+
+const QUEUE_KEY = "/api/admin/moderation";
+const RULES_KEY = ["/api/admin/moderation/rules"];
+
+/**
+ * Videos held back by moderation, with bulk approve and reject, and the
+ * keyword rules that hold or reject new videos.
+ */
+export function ModerationQueue() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<ModerationStatus>("pending_review");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const { data, isLoading } = useQuery<ModerationQueueResponse>({
+    queryKey: [QUEUE_KEY, status],
+    queryFn: async () => {
+      const response = await fetch(`${QUEUE_KEY}?status=${status}`, { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to load the moderation queue");
+      return response.json();
+    },
+  });
+  const videos = data?.videos ?? [];
+
+  const statusLabel = (value: ModerationStatus) =>
+    ({
+      pending_review: t("admin.moderation.pending", "Pending review"),
+      rejected: t("admin.moderation.rejected", "Rejected"),
+      approved: t("admin.moderation.approved", "Approved"),
+    })[value];
+
+  const bulkMutation = useMutation({
+    mutationFn: async ({ videoIds, action }: { videoIds: string[]; action: "approve" | "reject" }) => {
+      const res = await apiRequest("POST", `${QUEUE_KEY}/bulk`, { videoIds, action });
+      return res.json();
+    },
+    onSuccess: (result: { updated: number }, { action }) => {
+      setSelectedIds([]);
+      queryClient.invalidateQueries({ queryKey: [QUEUE_KEY] });
+      queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
+      toast({
+        title:
+          action === "approve"
+            ? t("admin.moderation.approvedCount", { count: result.updated, defaultValue: "{{count}} videos published" })
+            : t("admin.moderation.rejectedCount", { count: result.updated, defaultValue: "{{count}} videos rejected" }),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("admin.moderation.bulkFailed", "Could not update the videos"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const checkMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", `${QUEUE_KEY}/check`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [QUEUE_KEY] });
+      toast({ title: t("admin.moderation.checkStarted", "Moderation check started") });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("admin.moderation.checkFailed", "Could not start the check"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const toggle = (id: string) =>
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  const allSelected = videos.length > 0 && selectedIds.length === videos.length;
+
+  const act = (action: "approve" | "reject", videoIds: string[]) => {
+    if (videoIds.length > 0) bulkMutation.mutate({ videoIds, action });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4 space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>{t("admin.moderation.title", "Moderation queue")}</CardTitle>
+            <CardDescription>
+              {t(
+                "admin.moderation.description",
+                "New videos that matched a rule, were flagged by the AI or come from untrusted channels stay hidden until you publish them.",
+              )}
+            </CardDescription>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select
+              value={status}
+              onValueChange={(value) => {
+                setStatus(value as ModerationStatus);
+                setSelectedIds([]);
+              }}
+            >
+              <SelectTrigger className="w-[200px]" data-testid="select-moderation-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(["pending_review", "rejected", "approved"] as const).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {statusLabel(value)}
+                    {data ? ` (${data.counts[value]})` : ""}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              onClick={() => checkMutation.mutate()}
+              disabled={checkMutation.isPending || data?.checkRunning}
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${data?.checkRunning ? "animate-spin" : ""}`} />
+              {t("admin.moderation.check", "Check waiting videos")}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {selectedIds.length > 0 && (
+            <div className="flex flex-wrap items-center gap-2 rounded-md border p-2">
+              <span className="text-sm text-muted-foreground mr-2">
+                {t("admin.moderation.selected", { count: selectedIds.length, defaultValue: "{{count}} selected" })}
+              </span>
+              {status !== "approved" && (
+                <Button size="sm" onClick={() => act("approve", selectedIds)} disabled={bulkMutation.isPending} data-testid="button-bulk-approve">
+                  <Check className="h-4 w-4 mr-1" />
+                  {t("admin.moderation.approve", "Publish")}
+                </Button>
+              )}
+              {status !== "rejected" && (
+                <Button
+                  size="sm"
+                  variant="destructive"
+                  onClick={() => act("reject", selectedIds)}
+                  disabled={bulkMutation.isPending}
+                  data-testid="button-bulk-reject"
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  {t("admin.moderation.reject", "Reject")}
+                </Button>
+              )}
+            </div>
+          )}
+
+          {isLoading ? (
+            <div className="text-center py-8">{t("common.loading", "Loading...")}</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={() => setSelectedIds(allSelected ? [] : videos.map((v) => v.id))}
+                      aria-label={t("admin.selectAll", "Select all")}
+                    />
+                  </TableHead>
+                  <TableHead>{t("admin.video", "Video")}</TableHead>
+                  <TableHead>{t("admin.moderation.reason", "Reason")}</TableHead>
+                  <TableHead>{t("admin.moderation.added", "Added")}</TableHead>
+                  <TableHead className="text-right">{t("common.actions", "Actions")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {videos.map((video) => (
+                  <TableRow key={video.id} data-testid={`row-moderation-${video.id}`}>
+                    <TableCell>
+                      <Checkbox checked={selectedIds.includes(video.id)} onCheckedChange={() => toggle(video.id)} />
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-3">
+                        <img src={video.thumbnailUrl} alt="" className="w-20 aspect-video object-cover rounded" />
+                        <div className="min-w-0">
+                          <p className="font-medium line-clamp-1">{video.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {video.channelName || "-"} · {video.videoType}
+                          </p>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell className="max-w-[280px]">
+                      {video.moderatedAt ? (
+                        <span className="text-sm line-clamp-2">{video.moderationReason || "-"}</span>
+                      ) : (
+                        <Badge variant="secondary">{t("admin.moderation.awaitingCheck", "Awaiting check")}</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(new Date(video.createdAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      {status !== "approved" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={t("admin.moderation.approve", "Publish")}
+                          onClick={() => act("approve", [video.id])}
+                          disabled={bulkMutation.isPending}
+                          data-testid={`button-approve-${video.id}`}
+                        >
+                          <Check className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {status !== "rejected" && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title={t("admin.moderation.reject", "Reject")}
+                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          onClick={() => act("reject", [video.id])}
+                          disabled={bulkMutation.isPending}
+                          data-testid={`button-reject-${video.id}`}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {videos.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                      {t("admin.moderation.empty", "Nothing here.")}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <ModerationRules />
+    </div>
+  );
+}
+
+function ModerationRules() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [pattern, setPattern] = useState("");
+  const [isRegex, setIsRegex] = useState(false);
+  const [action, setAction] = useState<ModerationRuleAction>("review");
+  const [note, setNote] = useState("");
+
+  const { data: rules = [] } = useQuery<ModerationRule[]>({ queryKey: RULES_KEY });
+
+  const onError = (error: Error) => {
+    toast({ title: t("admin.moderation.ruleFailed", "Could not save the rule"), description: error.message, variant: "destructive" });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", RULES_KEY[0], { pattern, isRegex, action, note: note || null });
+    },
+    onSuccess: () => {
+      setPattern("");
+      setNote("");
+      queryClient.invalidateQueries({ queryKey: RULES_KEY });
+    },
+    onError,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, ...data }: { id: string; isActive?: boolean; action?: ModerationRuleAction }) => {
+      await apiRequest("PATCH", `${RULES_KEY[0]}/${id}`, data);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: RULES_KEY }),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `${RULES_KEY[0]}/${id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: RULES_KEY }),
+    onError,
+  });
+
+  const actionSelect = (value: ModerationRuleAction, onChange: (value: ModerationRuleAction) => void, testId: string) => (
+    <Select value={value} onValueChange={(v) => onChange(v as ModerationRuleAction)}>
+      <SelectTrigger className="w-[150px]" data-testid={testId}>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="review">{t("admin.moderation.actionReview", "Hold for review")}</SelectItem>
+        <SelectItem value="reject">{t("admin.moderation.actionReject", "Reject")}</SelectItem>
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>{t("admin.moderation.rules", "Keyword rules")}</CardTitle>
+        <CardDescription>
+          {t(
+            "admin.moderation.rulesDescription",
+            "Matched against the title and description of new videos from channels that aren't trusted. Words match whole words; a reject rule wins over a review rule.",
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex flex-wrap items-center gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (pattern.trim()) createMutation.mutate();
+          }}
+        >
+          <Input
+            value={pattern}
+            onChange={(e) => setPattern(e.target.value)}
+            placeholder={t("admin.moderation.patternPlaceholder", "Word, phrase or pattern")}
+            className="w-[240px]"
+            data-testid="input-rule-pattern"
+          />
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={isRegex} onCheckedChange={setIsRegex} />
+            {t("admin.moderation.regex", "Regular expression")}
+          </label>
+          {actionSelect(action, setAction, "select-rule-action")}
+          <Input
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            placeholder={t("admin.moderation.notePlaceholder", "Note (optional)")}
+            className="w-[200px]"
+          />
+          <Button type="submit" disabled={!pattern.trim() || createMutation.isPending} data-testid="button-add-rule">
+            <Plus className="h-4 w-4 mr-1" />
+            {t("admin.moderation.addRule", "Add rule")}
+          </Button>
+        </form>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("admin.moderation.pattern", "Pattern")}</TableHead>
+              <TableHead>{t("admin.moderation.action", "Action")}</TableHead>
+              <TableHead>{t("admin.moderation.active", "Active")}</TableHead>
+              <TableHead className="text-right">{t("common.actions", "Actions")}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rules.map((rule) => (
+              <TableRow key={rule.id} data-testid={`row-rule-${rule.id}`}>
+                <TableCell>
+                  <code className="text-sm">{rule.isRegex ? `/${rule.pattern}/` : rule.pattern}</code>
+                  {rule.note && <p className="text-xs text-muted-foreground">{rule.note}</p>}
+                </TableCell>
+                <TableCell>
+                  {actionSelect(
+                    rule.action as ModerationRuleAction,
+                    (value) => updateMutation.mutate({ id: rule.id, action: value }),
+                    `select-rule-action-${rule.id}`,
+                  )}
+                </TableCell>
+                <TableCell>
+                  <Switch checked={rule.isActive} onCheckedChange={(isActive) => updateMutation.mutate({ id: rule.id, isActive })} />
+                </TableCell>
+                <TableCell className="text-right">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    title={t("common.delete", "Delete")}
+                    className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                    onClick={() => deleteMutation.mutate(rule.id)}
+                    data-testid={`button-delete-rule-${rule.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </TableCell>
+              </TableRow>
+            ))}
+            {rules.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                  {t("admin.moderation.noRules", "No rules yet.")}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,4 +1,4 @@
-import { useQuery } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { Bell, Clock } from "lucide-react";
 import { Link } from "wouter";
 import { useTranslation } from "react-i18next";
@@ -11,24 +11,33 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Button } from "@/components/ui/button";
-import { apiRequest } from "@/lib/queryClient";
-import type { VideoWithLocalizedRelations } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { NotificationWithVideo } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
 import { enUS, srLatn } from "date-fns/locale";
 
+interface NotificationsResponse {
+  notifications: NotificationWithVideo[];
+  unreadCount: number;
+}
+
 export function NotificationsDropdown() {
   const { t, i18n } = useTranslation();
   const dateLocale = i18n.language === "sr-Latn" ? srLatn : enUS;
 
-  const { data: recentVideos = [] } = useQuery<VideoWithLocalizedRelations[]>({
-    queryKey: ["/api/videos/recent", 5],
-    queryFn: async () => {
-      // Fetch specifically sorted by creation time (scraped time)
-      const res = await apiRequest("GET", `/api/videos?limit=5&sort=createdAt&lang=${i18n.language}`);
-      return res.json();
-    },
+  const { data } = useQuery<NotificationsResponse>({
+    queryKey: ["/api/notifications"],
     refetchInterval: 60000, // Refresh every minute
   });
+  const notifications = data?.notifications || [];
+  const unreadCount = data?.unreadCount || 0;
+
+  const markRead = useMutation({
+    mutationFn: async (ids?: string[]) => {
+      await apiRequest("POST", "/api/notifications/read", ids ? { ids } : {});
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/notifications"] }),
+  });
 
   return (
     <DropdownMenu>
@@ -37,53 +46,83 @@ export function NotificationsDropdown() {
           size="icon"
           variant="ghost"
           className="relative hover-elevate active-elevate-2 min-h-[44px] min-w-[44px]"
+          aria-label={t("notifications.title", "Notifications")}
           data-testid="button-notifications"
         >
           <Bell className="h-5 w-5" />
-          {recentVideos.length > 0 && (
-            <span className="absolute top-2 right-2 h-2 w-2 rounded-full bg-red-600 animate-pulse" />
+          {unreadCount > 0 && (
+            <span
+              className="absolute top-1.5 right-1.5 min-w-[18px] h-[18px] px-1 rounded-full bg-red-600 text-[10px] font-semibold leading-[18px] text-white text-center"
+              data-testid="badge-notifications-unread"
+            >
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
           )}
         </Button>
       </DropdownMenuTrigger>
       <DropdownMenuContent align="end" className="w-80">
-        <DropdownMenuLabel>{t("notifications.latestVideos", "Latest Videos")}</DropdownMenuLabel>
+        <DropdownMenuLabel className="flex items-center justify-between">
+          <span>{t("notifications.title", "Notifications")}</span>
+          {unreadCount > 0 && (
+            <button
+              type="button"
+              className="text-xs font-normal text-primary hover:underline"
+              onClick={() => markRead.mutate(undefined)}
+            >
+              {t("notifications.markAllRead", "Mark all as read")}
+            </button>
+          )}
+        </DropdownMenuLabel>
         <DropdownMenuSeparator />
-        {recentVideos.length === 0 ? (
+        {notifications.length === 0 ? (
           <div className="p-4 text-center text-sm text-muted-foreground">
-            {t("notifications.empty", "No new videos")}
+            {t("notifications.emptyFollowing", "Follow channels to get notified about their new videos")}
           </div>
         ) : (
           <div className="max-h-[300px] overflow-y-auto">
-            {recentVideos.map((video) => (
-              <DropdownMenuItem key={video.id} asChild className="cursor-pointer p-2">
-                <Link href={`/video/${video.slug || video.id}`}>
+            {notifications.map((notification) => (
+              <DropdownMenuItem key={notification.id} asChild className="cursor-pointer p-2">
+                <Link
+                  href={`/video/${notification.video.slug || notification.video.id}`}
+                  onClick={() => {
+                    if (!notification.readAt) markRead.mutate([notification.id]);
+                  }}
+                >
                   <div className="flex gap-3 w-full">
                     <div className="relative w-16 h-10 flex-shrink-0 rounded overflow-hidden bg-muted">
-                      <img 
-                        src={video.thumbnailUrl} 
-                        alt={video.title}
+                      <img
+                        src={notification.video.thumbnailUrl}
+                        alt={notification.video.title}
                         className="w-full h-full object-cover"
                         loading="lazy"
                       />
                     </div>
                     <div className="flex flex-col flex-1 min-w-0">
-                      <span className="text-sm font-medium line-clamp-1">{video.title}</span>
+                      <span className={`text-sm line-clamp-1 ${notification.readAt ? "" : "font-semibold"}`}>
+                        {notification.video.title}
+                      </span>
+                      <span className="text-xs text-muted-foreground line-clamp-1">{notification.channel.name}</span>
                       <div className="flex items-center gap-1 text-xs text-muted-foreground mt-1">
                         <Clock className="h-3 w-3" />
                         <span>
-                          {formatDistanceToNow(new Date(video.createdAt), {
+                          {formatDistanceToNow(new Date(notification.createdAt), {
                             addSuffix: true,
                             locale: dateLocale,
                           })}
                         </span>
                       </div>
                     </div>
+                    {!notification.readAt && <span className="mt-1 h-2 w-2 flex-shrink-0 rounded-full bg-primary" />}
                   </div>
                 </Link>
               </DropdownMenuItem>
             ))}
           </div>
         )}
+        <DropdownMenuSeparator />
+        <DropdownMenuItem asChild className="cursor-pointer justify-center text-sm">
+          <Link href="/following">{t("notifications.viewFollowing", "Open Following feed")}</Link>
+        </DropdownMenuItem>
       </DropdownMenuContent>
     </DropdownMenu>
   );
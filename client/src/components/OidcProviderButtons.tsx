@@ -0,0 +1,38 @@
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { LogIn } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+type PublicOidcProvider = { slug: string; name: string };
+
+/** "Continue with …" buttons for the sign-in providers an admin has enabled. */
+export function OidcProviderButtons() {
+  const { t } = useTranslation();
+  const { data: providers = [] } = useQuery<PublicOidcProvider[]>({
+    queryKey: ["/api/auth/oidc/providers"],
+    staleTime: 5 * 60 * 1000,
+  });
+
+  if (providers.length === 0) return null;
+
+  return (
+    <div className="space-y-3" data-testid="oidc-providers">
+      <div className="relative">
+        <div className="absolute inset-0 flex items-center">
+          <span className="w-full border-t" />
+        </div>
+        <div className="relative flex justify-center text-xs uppercase">
+          <span className="bg-card px-2 text-muted-foreground">{t("oidc.or", "or")}</span>
+        </div>
+      </div>
+      {providers.map((provider) => (
+        <Button key={provider.slug} variant="outline" className="w-full" asChild>
+          <a href={`/api/auth/oidc/${encodeURIComponent(provider.slug)}/start`} data-testid={`button-oidc-${provider.slug}`}>
+            <LogIn className="h-4 w-4 mr-2" />
+            {t("oidc.continueWith", "Continue with {{provider}}", { provider: provider.name })}
+          </a>
+        </Button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,388 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Plus, Pencil, Trash2, PlugZap, Copy } from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { USER_ROLES, type OidcProvider, type UserRole } from "@shared/schema";
+
+type AdminOidcProvider = OidcProvider & { redirectUri: string };
+
+type ProviderForm = {
+  slug: string;
+  name: string;
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  scopes: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userinfoEndpoint: string;
+  enabled: boolean;
+  allowSignup: boolean;
+  linkByEmail: boolean;
+  roleClaim: string;
+  roleMappings: string;
+};
+
+const EMPTY_FORM: ProviderForm = {
+  slug: "",
+  name: "",
+  issuer: "",
+  clientId: "",
+  clientSecret: "",
+  scopes: "openid email profile",
+  authorizationEndpoint: "",
+  tokenEndpoint: "",
+  userinfoEndpoint: "",
+  enabled: true,
+  allowSignup: true,
+  linkByEmail: true,
+  roleClaim: "",
+  roleMappings: "",
+};
+
+function toForm(provider: AdminOidcProvider): ProviderForm {
+  return {
+    slug: provider.slug,
+    name: provider.name,
+    issuer: provider.issuer ?? "",
+    clientId: provider.clientId,
+    clientSecret: provider.clientSecret ?? "",
+    scopes: provider.scopes,
+    authorizationEndpoint: provider.authorizationEndpoint ?? "",
+    tokenEndpoint: provider.tokenEndpoint ?? "",
+    userinfoEndpoint: provider.userinfoEndpoint ?? "",
+    enabled: provider.enabled,
+    allowSignup: provider.allowSignup,
+    linkByEmail: provider.linkByEmail,
+    roleClaim: provider.roleClaim ?? "",
+    roleMappings: Object.entries(provider.roleMappings ?? {})
+      .map(([value, role]) => `${value}=${role}`)
+      .join("\n"),
+  };
+}
+
+// One "claim value=role" pair per line; unknown roles are left for the server to reject
+function parseRoleMappings(text: string): Record<string, UserRole> {
+  const mappings: Record<string, UserRole> = {};
+  for (const line of text.split("\n")) {
+    const separator = line.lastIndexOf("=");
+    if (separator <= 0) continue;
+    mappings[line.slice(0, separator).trim()] = line.slice(separator + 1).trim() as UserRole;
+  }
+  return mappings;
+}
+
+function toPayload(form: ProviderForm) {
+  return {
+    slug: form.slug,
+    name: form.name,
+    issuer: form.issuer || null,
+    clientId: form.clientId,
+    clientSecret: form.clientSecret || null,
+    scopes: form.scopes,
+    authorizationEndpoint: form.authorizationEndpoint || null,
+    tokenEndpoint: form.tokenEndpoint || null,
+    userinfoEndpoint: form.userinfoEndpoint || null,
+    enabled: form.enabled,
+    allowSignup: form.allowSignup,
+    linkByEmail: form.linkByEmail,
+    roleClaim: form.roleClaim || null,
+    roleMappings: parseRoleMappings(form.roleMappings),
+  };
+}
+
+// Route errors arrive as "400: application/json {...}" from apiRequest
+function errorMessage(error: Error): string {
+  const json = error.message.match(/\{.*\}$/s)?.[0];
+  if (json) {
+    try {
+      return JSON.parse(json).error || error.message;
+    } catch {
+      // fall through to the raw message
+    }
+  }
+  return error.message;
+}
+
+export function OidcProvidersPanel() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<AdminOidcProvider | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<ProviderForm>(EMPTY_FORM);
+
+  const { data: providers = [] } = useQuery<AdminOidcProvider[]>({
+    queryKey: ["/api/admin/oidc-providers"],
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/oidc-providers"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/auth/oidc/providers"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({ title: t("common.error", "Error"), description: errorMessage(error), variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = editing
+        ? await apiRequest("PATCH", `/api/admin/oidc-providers/${editing.id}`, toPayload(form))
+        : await apiRequest("POST", "/api/admin/oidc-providers", toPayload(form));
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setDialogOpen(false);
+      toast({ title: t("admin.oidcProviderSaved", "Sign-in provider saved") });
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("DELETE", `/api/admin/oidc-providers/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: t("admin.oidcProviderDeleted", "Sign-in provider deleted") });
+    },
+    onError,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/oidc-providers/${id}/test`);
+      return res.json() as Promise<{ endpoints: { authorizationEndpoint: string } }>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: t("admin.oidcTestPassed", "Provider reachable"),
+        description: data.endpoints.authorizationEndpoint,
+      });
+    },
+    onError,
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (provider: AdminOidcProvider) => {
+    setEditing(provider);
+    setForm(toForm(provider));
+    setDialogOpen(true);
+  };
+
+  const field = (key: keyof ProviderForm) => ({
+    value: form[key] as string,
+    onChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+      setForm((current) => ({ ...current, [key]: e.target.value })),
+  });
+
+  const toggle = (key: "enabled" | "allowSignup" | "linkByEmail") => ({
+    checked: form[key],
+    onCheckedChange: (checked: boolean) => setForm((current) => ({ ...current, [key]: checked })),
+  });
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div className="space-y-1.5">
+          <CardTitle>{t("admin.oidcProviders", "Sign-in providers")}</CardTitle>
+          <CardDescription>
+            {t(
+              "admin.oidcProvidersDesc",
+              "OpenID Connect or OAuth 2.0 providers viewers can sign in with, such as Google, GitHub or Keycloak.",
+            )}
+          </CardDescription>
+        </div>
+        <Button type="button" size="sm" onClick={openCreate} data-testid="button-add-oidc-provider">
+          <Plus className="h-4 w-4 mr-2" />
+          {t("admin.addProvider", "Add provider")}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {providers.length === 0 && (
+          <p className="text-sm text-muted-foreground">{t("admin.noOidcProviders", "No sign-in providers yet.")}</p>
+        )}
+        {providers.map((provider) => (
+          <div key={provider.id} className="rounded-md border p-4 space-y-2" data-testid={`oidc-provider-${provider.slug}`}>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{provider.name}</span>
+                <Badge variant={provider.enabled ? "default" : "secondary"}>
+                  {provider.enabled ? t("admin.enabled", "Enabled") : t("admin.disabled", "Disabled")}
+                </Badge>
+                {!provider.issuer && <Badge variant="outline">OAuth 2.0</Badge>}
+              </div>
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => testMutation.mutate(provider.id)}
+                  disabled={testMutation.isPending}
+                >
+                  <PlugZap className="h-4 w-4 mr-2" />
+                  {t("admin.test", "Test")}
+                </Button>
+                <Button type="button" variant="outline" size="sm" onClick={() => openEdit(provider)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    if (confirm(t("admin.confirmDeleteProvider", "Delete this provider? Linked accounts stop working with it."))) {
+                      deleteMutation.mutate(provider.id);
+                    }
+                  }}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>{t("admin.redirectUri", "Redirect URI")}:</span>
+              <code className="truncate">{provider.redirectUri}</code>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                className="h-6 w-6"
+                onClick={() => navigator.clipboard.writeText(provider.redirectUri)}
+              >
+                <Copy className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        ))}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? t("admin.editProvider", "Edit provider") : t("admin.addProvider", "Add provider")}
+            </DialogTitle>
+            <DialogDescription>
+              {t(
+                "admin.oidcProviderFormDesc",
+                "Set the issuer to use discovery. Providers without OpenID Connect (GitHub) need the three endpoints instead.",
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="grid gap-4 md:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="oidc-name">{t("admin.providerName", "Name")}</Label>
+              <Input id="oidc-name" placeholder="Google" {...field("name")} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidc-slug">{t("admin.providerSlug", "Slug")}</Label>
+              <Input id="oidc-slug" placeholder="google" {...field("slug")} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="oidc-issuer">{t("admin.issuer", "Issuer")}</Label>
+              <Input id="oidc-issuer" placeholder="https://accounts.google.com" {...field("issuer")} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidc-client-id">{t("admin.clientId", "Client ID")}</Label>
+              <Input id="oidc-client-id" {...field("clientId")} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidc-client-secret">{t("admin.clientSecret", "Client secret")}</Label>
+              <Input id="oidc-client-secret" type="password" {...field("clientSecret")} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="oidc-scopes">{t("admin.scopes", "Scopes")}</Label>
+              <Input id="oidc-scopes" {...field("scopes")} />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label htmlFor="oidc-authorization">{t("admin.authorizationEndpoint", "Authorization endpoint")}</Label>
+              <Input id="oidc-authorization" placeholder="https://github.com/login/oauth/authorize" {...field("authorizationEndpoint")} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidc-token">{t("admin.tokenEndpoint", "Token endpoint")}</Label>
+              <Input id="oidc-token" {...field("tokenEndpoint")} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidc-userinfo">{t("admin.userinfoEndpoint", "Userinfo endpoint")}</Label>
+              <Input id="oidc-userinfo" {...field("userinfoEndpoint")} />
+            </div>
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <Label htmlFor="oidc-enabled">{t("admin.enabled", "Enabled")}</Label>
+              <Switch id="oidc-enabled" {...toggle("enabled")} />
+            </div>
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <Label htmlFor="oidc-signup">{t("admin.allowSignup", "Create accounts on first sign-in")}</Label>
+              <Switch id="oidc-signup" {...toggle("allowSignup")} />
+            </div>
+            <div className="flex items-center justify-between rounded-md border p-3 md:col-span-2">
+              <Label htmlFor="oidc-link-email">
+                {t("admin.linkByEmail", "Link to existing users with the same verified email")}
+              </Label>
+              <Switch id="oidc-link-email" {...toggle("linkByEmail")} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidc-role-claim">{t("admin.roleClaim", "Role claim")}</Label>
+              <Input id="oidc-role-claim" placeholder="realm_access.roles" {...field("roleClaim")} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="oidc-role-mappings">{t("admin.roleMappings", "Role mappings")}</Label>
+              <Textarea
+                id="oidc-role-mappings"
+                rows={3}
+                placeholder={`nisam-editors=editor\nnisam-admins=admin`}
+                {...field("roleMappings")}
+              />
+              <p className="text-xs text-muted-foreground">
+                {t("admin.roleMappingsHelp", "One claim value=role per line. Roles: {{roles}}", {
+                  roles: USER_ROLES.join(", "),
+                })}
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+              {t("common.cancel", "Cancel")}
+            </Button>
+            <Button type="button" onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending}>
+              {saveMutation.isPending ? t("common.saving", "Saving...") : t("common.save", "Save")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -1,28 +1,25 @@
-import { useQuery } from "@tanstack/react-query";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
 import { useEffect } from "react";
-import { getQueryFn } from "@/lib/queryClient";
+import { useTranslation } from "react-i18next";
+import { ShieldOff } from "lucide-react";
+import type { Permission } from "@shared/schema";
+import { Button } from "@/components/ui/button";
+import { usePermissions } from "@/hooks/usePermissions";
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
 }
 
-interface SessionResponse {
-  isAuthenticated: boolean;
-  username: string | null;
-}
-
 export function ProtectedRoute({ children }: ProtectedRouteProps) {
   const [, setLocation] = useLocation();
-
-  const { data: session, isLoading } = useQuery<SessionResponse>({
-    queryKey: ["/api/auth/session"],
-    queryFn: getQueryFn({ on401: "returnNull" }),
-  });
+  const { session, isLoading } = usePermissions();
 
   useEffect(() => {
     if (!isLoading && !session?.isAuthenticated) {
       setLocation("/admin/login");
+    } else if (session?.twoFactorSetupRequired) {
+      // Admin routes answer 403 until the role's required second factor is set up
+      setLocation("/settings");
     }
   }, [session, isLoading, setLocation]);
 
@@ -34,12 +31,45 @@ export function ProtectedRoute({ children }: ProtectedRouteProps) {
     );
   }
 
-  if (!session?.isAuthenticated) {
+  if (!session?.isAuthenticated || session.twoFactorSetupRequired) {
     return (
       <div className="flex items-center justify-center min-h-screen">
         <div className="text-center space-y-3">
           <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto"></div>
-          <p className="text-muted-foreground">Redirecting to login...</p>
+          <p className="text-muted-foreground">
+            {session?.twoFactorSetupRequired ? "Redirecting to settings..." : "Redirecting to login..."}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+}
+
+interface PermissionGateProps {
+  children: React.ReactNode;
+  /** The page opens when the user has at least one of these */
+  permissions: Permission[];
+}
+
+/** Shows a no-access notice instead of pages the user's role can't use. */
+export function PermissionGate({ children, permissions }: PermissionGateProps) {
+  const { t } = useTranslation();
+  const { isLoading, can } = usePermissions();
+
+  if (!isLoading && !can(...permissions)) {
+    return (
+      <div className="flex items-center justify-center min-h-[60vh]" data-testid="no-access">
+        <div className="text-center space-y-3 max-w-sm">
+          <ShieldOff className="h-10 w-10 text-muted-foreground mx-auto" />
+          <h2 className="text-lg font-semibold">{t("admin.noAccessTitle", "No access")}</h2>
+          <p className="text-sm text-muted-foreground">
+            {t("admin.noAccessDesc", "Your role doesn't allow this page. Ask an administrator if you need it.")}
+          </p>
+          <Button variant="outline" asChild>
+            <Link href="/">{t("admin.browseSite", "Browse Site")}</Link>
+          </Button>
         </div>
       </div>
     );
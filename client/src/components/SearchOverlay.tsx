@@ -1,49 +1,118 @@
 import { useState, useEffect } from "react";
-import { X, Search } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { X, Search, Sparkles } from "lucide-react";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
-import { VideoCard } from "./VideoCard";
-import type { VideoWithLocalizedRelations, LocalizedCategory } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { getOptimizedThumbnail } from "@/lib/video";
+import type { HighlightSegment, SearchFacetBucket, VideoSearchResult } from "@shared/schema";
 import { useTranslation } from "react-i18next";
 
 interface SearchOverlayProps {
   open: boolean;
   onClose: () => void;
-  onSearch?: (query: string, categoryId?: string) => void;
-  results?: VideoWithLocalizedRelations[];
-  categories?: LocalizedCategory[];
-  isLoading?: boolean;
 }
 
-export function SearchOverlay({
-  open,
-  onClose,
-  onSearch,
-  results = [],
-  categories = [],
-  isLoading,
-}: SearchOverlayProps) {
-  const { t } = useTranslation();
+type FacetFilters = {
+  platform?: string;
+  videoType?: string;
+  categoryId?: string;
+  channelId?: string;
+};
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+function Highlighted({ segments }: { segments: HighlightSegment[] }) {
+  return (
+    <>
+      {segments.map((segment, i) =>
+        segment.match ? (
+          <mark key={i} className="bg-primary/30 text-foreground rounded-sm">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={i}>{segment.text}</span>
+        ),
+      )}
+    </>
+  );
+}
+
+function FacetRow({
+  label,
+  buckets,
+  selected,
+  onSelect,
+  testId,
+}: {
+  label: string;
+  buckets: SearchFacetBucket[];
+  selected?: string;
+  onSelect: (value?: string) => void;
+  testId: string;
+}) {
+  if (buckets.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-2" data-testid={`facet-${testId}`}>
+      <span className="text-xs uppercase tracking-wide text-muted-foreground mr-1">{label}</span>
+      {buckets.map((bucket) => (
+        <Badge
+          key={bucket.value}
+          variant={selected === bucket.value ? "default" : "outline"}
+          className="cursor-pointer px-3 py-1"
+          onClick={() => onSelect(selected === bucket.value ? undefined : bucket.value)}
+          data-testid={`badge-${testId}-${bucket.value}`}
+        >
+          {bucket.label} <span className="ml-1 opacity-70">{bucket.count}</span>
+        </Badge>
+      ))}
+    </div>
+  );
+}
+
+export function SearchOverlay({ open, onClose }: SearchOverlayProps) {
+  const { t, i18n } = useTranslation();
   const [query, setQuery] = useState("");
-  const [selectedCategory, setSelectedCategory] = useState<
-    string | undefined
-  >();
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+  const [filters, setFilters] = useState<FacetFilters>({});
+  const [semantic, setSemantic] = useState(false);
 
   useEffect(() => {
     if (open) {
       setQuery("");
-      setSelectedCategory(undefined);
+      setDebouncedQuery("");
+      setFilters({});
     }
   }, [open]);
 
   useEffect(() => {
-    if (query.trim() || selectedCategory) {
-      onSearch?.(query, selectedCategory);
-    }
-  }, [query, selectedCategory, onSearch]);
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data, isFetching } = useQuery<VideoSearchResult>({
+    queryKey: ["/api/search", debouncedQuery, i18n.language, filters, semantic],
+    enabled: open && debouncedQuery.length > 0,
+    staleTime: 30 * 1000,
+    queryFn: async () => {
+      const params = new URLSearchParams({ q: debouncedQuery, lang: i18n.language, limit: "30" });
+      if (semantic) params.set("mode", "semantic");
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+      const res = await apiRequest("GET", `/api/search?${params.toString()}`);
+      return res.json();
+    },
+  });
+
+  const setFilter = (key: keyof FacetFilters) => (value?: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const items = debouncedQuery ? data?.items ?? [] : [];
 
   return (
     <Dialog open={open} onOpenChange={onClose}>
@@ -67,6 +136,17 @@ export function SearchOverlay({
                   data-testid="input-search"
                 />
               </div>
+              <Button
+                variant={semantic ? "default" : "outline"}
+                className="h-12"
+                onClick={() => setSemantic((value) => !value)}
+                title={t("search.semanticHint", "Find videos about what you mean, even when the words differ")}
+                aria-pressed={semantic}
+                data-testid="button-semantic-search"
+              >
+                <Sparkles className="h-4 w-4 mr-2" />
+                {t("search.semantic", "Semantic")}
+              </Button>
               <Button
                 size="icon"
                 variant="ghost"
@@ -77,50 +157,93 @@ export function SearchOverlay({
               </Button>
             </div>
 
-            {categories.length > 0 && (
-              <div className="flex flex-wrap gap-2">
-                <Badge
-                  variant={!selectedCategory ? "default" : "outline"}
-                  className="cursor-pointer px-3 py-1"
-                  onClick={() => setSelectedCategory(undefined)}
-                  data-testid="badge-category-all"
-                >
-                  {t("common.all", "All")}
-                </Badge>
-                {categories.map((category) => (
-                  <Badge
-                    key={category.id}
-                    variant={
-                      selectedCategory === category.id ? "default" : "outline"
-                    }
-                    className="cursor-pointer px-3 py-1"
-                    onClick={() => setSelectedCategory(category.id)}
-                    data-testid={`badge-category-${category.id}`}
-                  >
-                    {category.name}
-                  </Badge>
-                ))}
+            {data && debouncedQuery && (
+              <div className="space-y-2">
+                <FacetRow
+                  label={t("search.facetPlatform", "Platform")}
+                  buckets={data.facets.platform}
+                  selected={filters.platform}
+                  onSelect={setFilter("platform")}
+                  testId="platform"
+                />
+                <FacetRow
+                  label={t("search.facetType", "Type")}
+                  buckets={data.facets.videoType}
+                  selected={filters.videoType}
+                  onSelect={setFilter("videoType")}
+                  testId="type"
+                />
+                <FacetRow
+                  label={t("search.facetCategory", "Category")}
+                  buckets={data.facets.category}
+                  selected={filters.categoryId}
+                  onSelect={setFilter("categoryId")}
+                  testId="category"
+                />
+                <FacetRow
+                  label={t("search.facetChannel", "Channel")}
+                  buckets={data.facets.channel}
+                  selected={filters.channelId}
+                  onSelect={setFilter("channelId")}
+                  testId="channel"
+                />
               </div>
             )}
           </div>
         </div>
 
         <div className="p-6">
-          {isLoading ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6" data-testid="search-skeleton">
-              {Array.from({ length: 9 }).map((_, i) => (
-                <div key={i} className="space-y-2">
-                  <Skeleton className="w-full aspect-video rounded-md" />
-                  <Skeleton className="h-4 w-5/6" />
-                  <Skeleton className="h-3 w-2/5" />
+          {isFetching && items.length === 0 ? (
+            <div className="space-y-4" data-testid="search-skeleton">
+              {Array.from({ length: 6 }).map((_, i) => (
+                <div key={i} className="flex gap-4">
+                  <Skeleton className="w-40 aspect-video rounded-md flex-shrink-0" />
+                  <div className="flex-1 space-y-2">
+                    <Skeleton className="h-4 w-5/6" />
+                    <Skeleton className="h-3 w-2/5" />
+                  </div>
                 </div>
               ))}
             </div>
-          ) : results.length > 0 ? (
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {results.map((video) => (
-                <VideoCard key={video.id} video={video} />
-              ))}
+          ) : items.length > 0 ? (
+            <div className="space-y-2">
+              <p className="text-sm text-muted-foreground" data-testid="text-result-count">
+                {t("search.resultCount", "{{count}} results", { count: data?.total ?? items.length })}
+                {semantic && data?.mode === "keyword" &&
+                  ` · ${t("search.semanticUnavailable", "semantic search is unavailable, showing keyword matches")}`}
+              </p>
+              <ul className="divide-y divide-border">
+                {items.map(({ video, highlights }) => (
+                  <li key={video.id}>
+                    <Link
+                      href={`/video/${video.slug || video.id}`}
+                      onClick={onClose}
+                      className="flex gap-4 py-3 rounded-md hover:bg-muted/50 transition-colors"
+                      data-testid={`search-result-${video.id}`}
+                    >
+                      <img
+                        src={getOptimizedThumbnail(video.thumbnailUrl)}
+                        alt=""
+                        loading="lazy"
+                        width={160}
+                        height={90}
+                        className="w-40 aspect-video object-cover rounded-md flex-shrink-0"
+                      />
+                      <div className="min-w-0 space-y-1">
+                        <h3 className="font-semibold leading-snug line-clamp-2">
+                          <Highlighted segments={highlights.title} />
+                        </h3>
+                        <p className="text-xs text-muted-foreground">{video.channel?.name}</p>
+                        {highlights.snippet.length > 0 && (
+                          <p className="text-sm text-muted-foreground line-clamp-2">
+                            <Highlighted segments={highlights.snippet} />
+                          </p>
+                        )}
+                      </div>
+                    </Link>
+                  </li>
+                ))}
+              </ul>
             </div>
           ) : (
             <div className="text-center py-12">
@@ -129,8 +252,8 @@ export function SearchOverlay({
                 className="text-lg text-muted-foreground"
                 data-testid="text-no-results"
               >
-                {query || selectedCategory
-                  ? t("search.noResults", "No videos found")
+                {debouncedQuery
+                  ? t("search.noResults", "No results for \"{{query}}\"", { query: debouncedQuery })
                   : t("search.startTyping", "Start typing to search videos")}
               </p>
             </div>
@@ -0,0 +1,124 @@
+import { useEffect, useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Search } from "lucide-react";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { VideoTranscript } from "@shared/schema";
+
+function formatTimestamp(seconds: number): string {
+  const total = Math.floor(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = String(total % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+function Highlighted({ text, query }: { text: string; query: string }) {
+  if (!query) return <>{text}</>;
+  const lower = text.toLowerCase();
+  const parts: React.ReactNode[] = [];
+  let from = 0;
+  for (let at = lower.indexOf(query, from); at !== -1; at = lower.indexOf(query, from)) {
+    parts.push(text.slice(from, at));
+    parts.push(
+      <mark key={at} className="bg-primary/30 text-foreground rounded-sm">
+        {text.slice(at, at + query.length)}
+      </mark>,
+    );
+    from = at + query.length;
+  }
+  parts.push(text.slice(from));
+  return <>{parts}</>;
+}
+
+/** Searchable transcript of a video; clicking a line seeks the player to it. */
+export function TranscriptPanel({ videoId, onSeek }: { videoId: string; onSeek: (seconds: number) => void }) {
+  const { t, i18n } = useTranslation();
+  const [languageCode, setLanguageCode] = useState<string>();
+  const [query, setQuery] = useState("");
+
+  const { data: transcripts = [] } = useQuery<VideoTranscript[]>({
+    queryKey: ["/api/videos", videoId, "transcripts"],
+  });
+
+  // Start in the reader's language, uploaded captions before speech recognition
+  useEffect(() => {
+    if (transcripts.length === 0) return;
+    const base = i18n.language.split("-")[0];
+    const inLanguage = transcripts.filter((tr) => tr.languageCode.split("-")[0] === base);
+    const preferred =
+      inLanguage.find((tr) => tr.source === "manual") ??
+      inLanguage[0] ??
+      transcripts.find((tr) => tr.source === "manual") ??
+      transcripts[0];
+    setLanguageCode(preferred.languageCode);
+  }, [transcripts, i18n.language]);
+
+  const transcript = transcripts.find((tr) => tr.languageCode === languageCode);
+  const needle = query.trim().toLowerCase();
+  const segments = useMemo(
+    () => (transcript?.segments ?? []).filter((segment) => !needle || segment.text.toLowerCase().includes(needle)),
+    [transcript, needle],
+  );
+
+  if (transcripts.length === 0) return null;
+
+  return (
+    <Card className="p-4 space-y-3" data-testid="card-transcript">
+      <div className="flex flex-wrap items-center gap-2">
+        <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground flex-1">
+          {t("video.transcript", "Transcript")}
+        </h3>
+        {transcripts.length > 1 && (
+          <Select value={languageCode} onValueChange={setLanguageCode}>
+            <SelectTrigger className="w-40 h-8" data-testid="select-transcript-language">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {transcripts.map((tr) => (
+                <SelectItem key={tr.languageCode} value={tr.languageCode}>
+                  {tr.languageCode}
+                  {tr.source === "auto" ? ` (${t("video.transcriptAuto", "auto-generated")})` : ""}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      <div className="relative">
+        <Search className="absolute left-2.5 top-2.5 h-4 w-4 text-muted-foreground" />
+        <Input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder={t("video.searchTranscript", "Search transcript...")}
+          className="pl-8"
+          data-testid="input-transcript-search"
+        />
+      </div>
+
+      <div className="max-h-80 overflow-y-auto space-y-1 pr-1">
+        {segments.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-2">{t("video.transcriptNoMatches", "No matching lines")}</p>
+        ) : (
+          segments.map((segment) => (
+            <button
+              key={segment.start}
+              type="button"
+              onClick={() => onSeek(Math.floor(segment.start))}
+              className="flex w-full gap-3 rounded-md px-2 py-1 text-left text-sm hover-elevate"
+              data-testid={`button-transcript-${Math.floor(segment.start)}`}
+            >
+              <span className="shrink-0 font-mono text-xs text-primary pt-0.5">{formatTimestamp(segment.start)}</span>
+              <span className="text-foreground/80">
+                <Highlighted text={segment.text} query={needle} />
+              </span>
+            </button>
+          ))
+        )}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,255 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { Heart, History, ListVideo, Trash2, Plus, X } from "lucide-react";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { VideoCard } from "@/components/VideoCard";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type {
+  Playlist,
+  PlaylistVisibility,
+  VideoWithLocalizedRelations,
+  WatchHistoryItem,
+} from "@shared/schema";
+
+type HistoryRow = WatchHistoryItem & { resumeSeconds: number };
+
+function formatPosition(seconds: number) {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+function LikedTab() {
+  const { t } = useTranslation();
+  const { data: liked = [], isLoading } = useQuery<VideoWithLocalizedRelations[]>({
+    queryKey: ["/api/user/library/likes"],
+  });
+
+  if (isLoading) return null;
+  if (liked.length === 0) {
+    return <p className="text-muted-foreground py-6">{t("library.noLikes", "Videos you like will show up here.")}</p>;
+  }
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4" data-testid="library-liked">
+      {liked.map((video) => (
+        <VideoCard key={video.id} video={video} variant="grid" />
+      ))}
+    </div>
+  );
+}
+
+function HistoryTab() {
+  const { t } = useTranslation();
+  const { data: history = [], isLoading } = useQuery<HistoryRow[]>({
+    queryKey: ["/api/user/library/history"],
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (videoId?: string) => {
+      await apiRequest("DELETE", videoId ? `/api/user/library/history/${videoId}` : "/api/user/library/history");
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/user/library/history"] }),
+  });
+
+  if (isLoading) return null;
+  if (history.length === 0) {
+    return <p className="text-muted-foreground py-6">{t("library.noHistory", "You haven't watched anything yet.")}</p>;
+  }
+  return (
+    <div className="space-y-3" data-testid="library-history">
+      <div className="flex justify-end">
+        <Button variant="outline" size="sm" onClick={() => removeMutation.mutate(undefined)} disabled={removeMutation.isPending}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          {t("library.clearHistory", "Clear history")}
+        </Button>
+      </div>
+      {history.map((entry) => {
+        const percent = entry.durationSeconds
+          ? Math.min(100, Math.round((entry.positionSeconds / entry.durationSeconds) * 100))
+          : 0;
+        return (
+          <div key={entry.id} className="flex items-center gap-4 rounded-md border p-3">
+            <Link href={`/video/${entry.video.slug || entry.video.id}`} className="shrink-0">
+              <img src={entry.video.thumbnailUrl} alt={entry.video.title} className="w-32 aspect-video object-cover rounded" />
+            </Link>
+            <div className="flex-1 min-w-0 space-y-2">
+              <Link href={`/video/${entry.video.slug || entry.video.id}`} className="font-medium line-clamp-2 hover:underline">
+                {entry.video.title}
+              </Link>
+              <p className="text-xs text-muted-foreground">
+                {new Date(entry.watchedAt).toLocaleString()}
+                {entry.resumeSeconds > 0 && ` · ${t("library.resumeAt", "Resume at")} ${formatPosition(entry.resumeSeconds)}`}
+              </p>
+              {percent > 0 && <Progress value={percent} className="h-1" />}
+            </div>
+            <Button
+              variant="ghost"
+              size="icon"
+              aria-label={t("library.removeFromHistory", "Remove from history")}
+              onClick={() => removeMutation.mutate(entry.videoId)}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function PlaylistsTab() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [visibility, setVisibility] = useState<PlaylistVisibility>("private");
+
+  const { data: playlists = [], isLoading } = useQuery<Playlist[]>({
+    queryKey: ["/api/user/library/playlists"],
+  });
+
+  const invalidate = () => queryClient.invalidateQueries({ queryKey: ["/api/user/library/playlists"] });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/user/library/playlists", { name, visibility });
+      return res.json();
+    },
+    onSuccess: () => {
+      setName("");
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({ title: t("library.createFailed", "Could not create playlist"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, visibility }: { id: string; visibility: PlaylistVisibility }) => {
+      await apiRequest("PATCH", `/api/playlists/${id}`, { visibility });
+    },
+    onSuccess: invalidate,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/playlists/${id}`);
+    },
+    onSuccess: invalidate,
+  });
+
+  const visibilityLabels: Record<PlaylistVisibility, string> = {
+    public: t("library.public", "Public"),
+    unlisted: t("library.unlisted", "Unlisted"),
+    private: t("library.private", "Private"),
+  };
+
+  return (
+    <div className="space-y-4" data-testid="library-playlists">
+      <form
+        className="flex flex-col sm:flex-row gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (name.trim()) createMutation.mutate();
+        }}
+      >
+        <Input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder={t("library.playlistName", "New playlist name")}
+          maxLength={120}
+        />
+        <Select value={visibility} onValueChange={(value) => setVisibility(value as PlaylistVisibility)}>
+          <SelectTrigger className="sm:w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {Object.entries(visibilityLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button type="submit" disabled={!name.trim() || createMutation.isPending}>
+          <Plus className="h-4 w-4 mr-2" />
+          {t("library.createPlaylist", "Create")}
+        </Button>
+      </form>
+
+      {!isLoading && playlists.length === 0 && (
+        <p className="text-muted-foreground py-6">{t("library.noPlaylists", "You don't have any playlists yet.")}</p>
+      )}
+
+      {playlists.map((playlist) => (
+        <div key={playlist.id} className="flex items-center gap-3 rounded-md border p-3">
+          <ListVideo className="h-5 w-5 text-muted-foreground shrink-0" />
+          <div className="flex-1 min-w-0">
+            <p className="font-medium truncate">{playlist.name}</p>
+            <Badge variant="secondary">
+              {t("library.videoCount", "{{count}} videos", { count: playlist.videoCount })}
+            </Badge>
+          </div>
+          <Select
+            value={playlist.visibility as PlaylistVisibility}
+            onValueChange={(value) => updateMutation.mutate({ id: playlist.id, visibility: value as PlaylistVisibility })}
+          >
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(visibilityLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>{label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            variant="ghost"
+            size="icon"
+            aria-label={t("library.deletePlaylist", "Delete playlist")}
+            onClick={() => deleteMutation.mutate(playlist.id)}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function UserLibrary() {
+  const { t } = useTranslation();
+  return (
+    <Tabs defaultValue="liked">
+      <TabsList>
+        <TabsTrigger value="liked" className="gap-2">
+          <Heart className="h-4 w-4" />
+          {t("library.liked", "Liked")}
+        </TabsTrigger>
+        <TabsTrigger value="history" className="gap-2">
+          <History className="h-4 w-4" />
+          {t("library.history", "History")}
+        </TabsTrigger>
+        <TabsTrigger value="playlists" className="gap-2">
+          <ListVideo className="h-4 w-4" />
+          {t("library.playlists", "Playlists")}
+        </TabsTrigger>
+      </TabsList>
+      <TabsContent value="liked"><LikedTab /></TabsContent>
+      <TabsContent value="history"><HistoryTab /></TabsContent>
+      <TabsContent value="playlists"><PlaylistsTab /></TabsContent>
+    </Tabs>
+  );
+}
@@ -13,6 +13,8 @@ import {
 import { Button } from "@/components/ui/button";
 import { apiRequest, getQueryFn } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { USER_ROLES, type UserRole } from "@shared/schema";
+import { ROLE_LABELS } from "@/lib/adminPermissions";
 
 export function UserMenu() {
   const { t } = useTranslation();
@@ -44,7 +46,8 @@ export function UserMenu() {
   };
 
   const isAuthenticated = session?.isAuthenticated;
-  const isAdmin = session?.role === "admin";
+  const isStaff = (session?.permissions?.length ?? 0) > 0;
+  const role: UserRole = USER_ROLES.includes(session?.role) ? session.role : "user";
 
   return (
     <DropdownMenu>
@@ -65,12 +68,12 @@ export function UserMenu() {
               <div className="flex flex-col space-y-1">
                 <p className="text-sm font-medium leading-none">{session.username}</p>
                 <p className="text-xs leading-none text-muted-foreground">
-                  {isAdmin ? t("auth.roleAdmin", "Administrator") : t("auth.roleUser", "User")}
+                  {t(`admin.roles.${role}`, ROLE_LABELS[role])}
                 </p>
               </div>
             </DropdownMenuLabel>
             <DropdownMenuSeparator />
-            {isAdmin && (
+            {isStaff && (
               <DropdownMenuItem asChild>
                 <Link href="/admin/dashboard" className="cursor-pointer w-full flex items-center">
                   <LayoutDashboard className="mr-2 h-4 w-4" />
@@ -0,0 +1,79 @@
+import { useTranslation } from "react-i18next";
+import { Card } from "@/components/ui/card";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import type { VideoChapter } from "@shared/schema";
+
+function formatTimestamp(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+/**
+ * Chapter markers of a video: a timeline split at each chapter (when the
+ * length is known) and the chapter list. Both seek the player.
+ */
+export function VideoChapters({
+  chapters,
+  durationSeconds,
+  onSeek,
+}: {
+  chapters: VideoChapter[];
+  durationSeconds?: number;
+  onSeek: (seconds: number) => void;
+}) {
+  const { t } = useTranslation();
+  if (chapters.length === 0) return null;
+
+  return (
+    <Card className="p-4 space-y-3" data-testid="card-chapters">
+      <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+        {t("video.chapters", "Chapters")}
+        {chapters[0].source === "ai" && (
+          <span className="ml-2 normal-case font-normal tracking-normal">{t("video.chaptersAi", "(AI-generated)")}</span>
+        )}
+      </h3>
+
+      {durationSeconds ? (
+        <div className="flex h-2 w-full gap-0.5" aria-hidden="true">
+          {chapters.map((chapter, index) => {
+            const end = chapters[index + 1]?.startSeconds ?? durationSeconds;
+            return (
+              <Tooltip key={chapter.id}>
+                <TooltipTrigger asChild>
+                  <button
+                    type="button"
+                    tabIndex={-1}
+                    onClick={() => onSeek(chapter.startSeconds)}
+                    className="h-full rounded-sm bg-muted hover:bg-primary transition-colors"
+                    style={{ flexGrow: Math.max(end - chapter.startSeconds, 1), flexBasis: 0 }}
+                  />
+                </TooltipTrigger>
+                <TooltipContent>
+                  {formatTimestamp(chapter.startSeconds)} {chapter.title}
+                </TooltipContent>
+              </Tooltip>
+            );
+          })}
+        </div>
+      ) : null}
+
+      <ol className="grid gap-1 sm:grid-cols-2">
+        {chapters.map((chapter) => (
+          <li key={chapter.id}>
+            <button
+              type="button"
+              onClick={() => onSeek(chapter.startSeconds)}
+              className="flex w-full gap-3 rounded-md px-2 py-1 text-left text-sm hover-elevate"
+              data-testid={`button-chapter-${chapter.startSeconds}`}
+            >
+              <span className="shrink-0 font-mono text-xs text-primary pt-0.5">{formatTimestamp(chapter.startSeconds)}</span>
+              <span className="text-foreground/80">{chapter.title}</span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </Card>
+  );
+}
@@ -0,0 +1,61 @@
+import { useQuery } from "@tanstack/react-query";
+import { AreaChart } from "@tremor/react";
+import { format, formatDistanceToNow } from "date-fns";
+import { useTranslation } from "react-i18next";
+import { Badge } from "@/components/ui/badge";
+
+interface ViewHistory {
+  trendingScore: number;
+  metadataRefreshedAt: string | null;
+  hiddenAt: string | null;
+  hiddenReason: string | null;
+  snapshots: { viewCount: number; capturedAt: string }[];
+}
+
+/** External view counts captured by the metadata refresh job. */
+export function ViewGrowthChart({ videoId }: { videoId: string }) {
+  const { t } = useTranslation();
+  const { data, isLoading } = useQuery<ViewHistory>({
+    queryKey: [`/api/admin/videos/${videoId}/view-history`],
+  });
+
+  if (isLoading || !data) return null;
+
+  const points = data.snapshots.map((s) => ({
+    date: format(new Date(s.capturedAt), "MMM d HH:mm"),
+    [t("video.views", "Views")]: s.viewCount,
+  }));
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+        <span>
+          {data.metadataRefreshedAt
+            ? `${t("video.metadataRefreshed", "Refreshed")} ${formatDistanceToNow(new Date(data.metadataRefreshedAt), { addSuffix: true })}`
+            : t("video.notRefreshedYet", "Not refreshed yet")}
+        </span>
+        {data.trendingScore > 0 && (
+          <Badge variant="secondary">
+            {t("video.viewsPerHour", { count: Math.round(data.trendingScore), defaultValue: "+{{count}} views/h" })}
+          </Badge>
+        )}
+        {data.hiddenAt && (
+          <Badge variant="destructive">
+            {t(`video.hiddenReasons.${data.hiddenReason}`, `Hidden: ${data.hiddenReason}`)}
+          </Badge>
+        )}
+      </div>
+      {points.length > 1 && (
+        <AreaChart
+          className="h-32"
+          data={points}
+          index="date"
+          categories={[t("video.views", "Views")]}
+          colors={["blue"]}
+          showLegend={false}
+          valueFormatter={(value) => value.toLocaleString()}
+        />
+      )}
+    </div>
+  );
+}
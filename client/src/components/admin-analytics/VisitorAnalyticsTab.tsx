@@ -1,5 +1,7 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { useTranslation } from "react-i18next";
+import type { VisitorAnalyticsReport } from "@shared/schema";
 import {
   Card,
   CardContent,
@@ -14,11 +16,17 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import {
   BarChart,
   Bar,
-  PieChart,
-  Pie,
   Cell,
   XAxis,
   YAxis,
@@ -27,36 +35,47 @@ import {
   Legend,
   ResponsiveContainer,
 } from "recharts";
-import { Users, MousePointerClick, TrendingUp, Target, Download, PlayCircle } from "lucide-react";
+import { Users, MousePointerClick, Clock, ShieldCheck, Download } from "lucide-react";
 import { Button } from "@/components/ui/button";
 
-const mockVisitorData = Array.from({ length: 7 }).map((_, i) => ({
-  day: `Day ${i + 1}`,
-  organic: Math.floor(Math.random() * 1000) + 500,
-  direct: Math.floor(Math.random() * 500) + 200,
-  social: Math.floor(Math.random() * 300) + 100,
-  referral: Math.floor(Math.random() * 200) + 50,
-}));
-
-const mockFunnelData = [
-  { step: 'Page View', users: 10000 },
-  { step: 'Video Click', users: 6500 },
-  { step: 'Watch 50%', users: 3200 },
-  { step: 'Subscribe', users: 800 },
-];
-
 const COLORS = ["#3b82f6", "#8b5cf6", "#f43f5e", "#10b981", "#f59e0b"];
+// Older weeks are mostly empty for recent cohorts; the table stays readable
+const RETENTION_WEEKS = 8;
+
+const TOOLTIP_STYLE = { backgroundColor: "hsl(var(--card))", borderColor: "hsl(var(--border))", borderRadius: "8px" };
+
+function formatDuration(seconds: number): string {
+  const rounded = Math.round(seconds);
+  const minutes = Math.floor(rounded / 60);
+  return minutes > 0 ? `${minutes}m ${rounded % 60}s` : `${rounded}s`;
+}
+
+function formatPercent(share: number): string {
+  return `${(share * 100).toFixed(1)}%`;
+}
 
 export function VisitorAnalyticsTab() {
   const { t } = useTranslation();
-  const [audience, setAudience] = useState("all");
-  const [metric, setMetric] = useState("sessions");
-
-  const handleExport = (format: 'csv' | 'pdf') => {
-    if (format === 'csv') {
-      const csvContent = "data:text/csv;charset=utf-8," + 
-        "Day,Organic,Direct,Social,Referral\n" +
-        mockVisitorData.map(row => Object.values(row).join(",")).join("\n");
+  const [days, setDays] = useState("30");
+
+  const { data: report, isLoading } = useQuery<VisitorAnalyticsReport>({
+    queryKey: [`/api/admin/analytics/visitors?days=${days}`],
+  });
+
+  const funnelLabels: Record<string, string> = {
+    visit: t("admin.visitors.funnel.visit", "Visit"),
+    video_view: t("admin.visitors.funnel.videoView", "Opened a video"),
+    engaged_watch: t("admin.visitors.funnel.engagedWatch", "Stayed 30s+"),
+    interaction: t("admin.visitors.funnel.interaction", "Liked or followed"),
+  };
+  const funnel = (report?.funnel ?? []).map((entry) => ({ ...entry, label: funnelLabels[entry.step] ?? entry.step }));
+
+  const handleExport = (format: "csv" | "pdf") => {
+    if (format === "csv") {
+      if (!report) return;
+      const csvContent = "data:text/csv;charset=utf-8," +
+        "Day,Sessions,Page Views\n" +
+        report.daily.map((row) => [row.day, row.sessions, row.pageViews].join(",")).join("\n");
       const encodedUri = encodeURI(csvContent);
       const link = document.createElement("a");
       link.setAttribute("href", encodedUri);
@@ -68,120 +87,97 @@ export function VisitorAnalyticsTab() {
     }
   };
 
+  const kpis = [
+    {
+      title: t("admin.visitors.visitors", "Visitors"),
+      value: report ? report.totals.visitors.toLocaleString() : "-",
+      hint: report
+        ? t("admin.visitors.sessionsHint", {
+            sessions: report.totals.sessions.toLocaleString(),
+            pageViews: report.totals.pageViews.toLocaleString(),
+            defaultValue: "{{sessions}} sessions, {{pageViews}} page views",
+          })
+        : "",
+      icon: <Users className="h-4 w-4 text-blue-500" />,
+    },
+    {
+      title: t("admin.visitors.bounceRate", "Bounce Rate"),
+      value: report ? formatPercent(report.totals.bounceRate) : "-",
+      hint: t("admin.visitors.bounceHint", "One page, under 10s, no interaction"),
+      icon: <MousePointerClick className="h-4 w-4 text-purple-500" />,
+    },
+    {
+      title: t("admin.visitors.avgSession", "Avg. Session"),
+      value: report ? formatDuration(report.totals.avgSessionSeconds) : "-",
+      hint: t("admin.visitors.avgSessionHint", "From first to last event"),
+      icon: <Clock className="h-4 w-4 text-emerald-500" />,
+    },
+    {
+      title: t("admin.visitors.consentRate", "Consent Rate"),
+      value: report ? formatPercent(report.totals.consentRate) : "-",
+      hint: t("admin.visitors.consentHint", "Sessions that allowed analytics"),
+      icon: <ShieldCheck className="h-4 w-4 text-rose-500" />,
+    },
+  ];
+
   return (
     <div className="space-y-6 animate-in fade-in slide-in-from-bottom-4 duration-500">
       <div className="flex flex-wrap items-center justify-between gap-4">
-        <div className="flex items-center gap-4">
-          <Select value={audience} onValueChange={setAudience}>
-            <SelectTrigger className="w-[150px]">
-              <SelectValue placeholder="Audience Segment" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="all">All Users</SelectItem>
-              <SelectItem value="new">New Visitors</SelectItem>
-              <SelectItem value="returning">Returning</SelectItem>
-              <SelectItem value="mobile">Mobile Users</SelectItem>
-            </SelectContent>
-          </Select>
-
-          <Select value={metric} onValueChange={setMetric}>
-            <SelectTrigger className="w-[150px]">
-              <SelectValue placeholder="Metric" />
-            </SelectTrigger>
-            <SelectContent>
-              <SelectItem value="sessions">Sessions</SelectItem>
-              <SelectItem value="pageviews">Page Views</SelectItem>
-              <SelectItem value="bounce_rate">Bounce Rate</SelectItem>
-            </SelectContent>
-          </Select>
-        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-[150px]">
+            <SelectValue placeholder={t("admin.visitors.range", "Date range")} />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">{t("admin.visitors.last7", "Last 7 days")}</SelectItem>
+            <SelectItem value="30">{t("admin.visitors.last30", "Last 30 days")}</SelectItem>
+            <SelectItem value="90">{t("admin.visitors.last90", "Last 90 days")}</SelectItem>
+          </SelectContent>
+        </Select>
 
         <div className="flex gap-2">
-          <Button variant="outline" size="sm" onClick={() => handleExport('csv')}>
+          <Button variant="outline" size="sm" onClick={() => handleExport("csv")} disabled={!report}>
             <Download className="h-4 w-4 mr-2" />
             Export CSV
           </Button>
-          <Button variant="outline" size="sm" onClick={() => handleExport('pdf')}>
+          <Button variant="outline" size="sm" onClick={() => handleExport("pdf")}>
             <Download className="h-4 w-4 mr-2" />
             Export PDF
           </Button>
         </div>
       </div>
 
-      {/* GA4 Style KPIs */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Active Users</CardTitle>
-            <Users className="h-4 w-4 text-blue-500" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">14,231</div>
-            <p className="text-xs text-emerald-500 flex items-center mt-1">
-              <TrendingUp className="h-3 w-3 mr-1" /> +12.5% vs last week
-            </p>
-          </CardContent>
-        </Card>
-        
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Engagement Rate</CardTitle>
-            <MousePointerClick className="h-4 w-4 text-purple-500" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">68.2%</div>
-            <p className="text-xs text-emerald-500 flex items-center mt-1">
-              <TrendingUp className="h-3 w-3 mr-1" /> +4.1% vs last week
-            </p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Goal Completions</CardTitle>
-            <Target className="h-4 w-4 text-emerald-500" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">2,845</div>
-            <p className="text-xs text-muted-foreground mt-1">Newsletter & Subscriptions</p>
-          </CardContent>
-        </Card>
-
-        <Card>
-          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-            <CardTitle className="text-sm font-medium">Session Recordings</CardTitle>
-            <PlayCircle className="h-4 w-4 text-rose-500" />
-          </CardHeader>
-          <CardContent>
-            <div className="text-2xl font-bold">124</div>
-            <p className="text-xs text-muted-foreground mt-1">New recordings available</p>
-          </CardContent>
-        </Card>
+        {kpis.map((kpi) => (
+          <Card key={kpi.title}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+              <CardTitle className="text-sm font-medium">{kpi.title}</CardTitle>
+              {kpi.icon}
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-bold">{isLoading ? "..." : kpi.value}</div>
+              <p className="text-xs text-muted-foreground mt-1">{kpi.hint}</p>
+            </CardContent>
+          </Card>
+        ))}
       </div>
 
-      {/* Advanced Analytics Charts */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         <Card>
           <CardHeader>
-            <CardTitle>Traffic Acquisition (Attribution)</CardTitle>
-            <CardDescription>Sources driving users to the platform</CardDescription>
+            <CardTitle>{t("admin.visitors.traffic", "Traffic")}</CardTitle>
+            <CardDescription>{t("admin.visitors.trafficDescription", "Sessions and page views per day")}</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="h-[300px]">
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={mockVisitorData}>
+                <BarChart data={report?.daily ?? []}>
                   <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="hsl(var(--border))" />
                   <XAxis dataKey="day" stroke="hsl(var(--muted-foreground))" fontSize={12} tickLine={false} axisLine={false} />
                   <YAxis stroke="hsl(var(--muted-foreground))" fontSize={12} tickLine={false} axisLine={false} />
-                  <Tooltip 
-                    contentStyle={{ backgroundColor: 'hsl(var(--card))', borderColor: 'hsl(var(--border))', borderRadius: '8px' }}
-                    cursor={{ fill: 'hsl(var(--muted))' }}
-                  />
+                  <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: "hsl(var(--muted))" }} />
                   <Legend />
-                  <Bar dataKey="organic" name="Organic Search" stackId="a" fill={COLORS[0]} radius={[0, 0, 4, 4]} />
-                  <Bar dataKey="direct" name="Direct" stackId="a" fill={COLORS[1]} />
-                  <Bar dataKey="social" name="Social Media" stackId="a" fill={COLORS[2]} />
-                  <Bar dataKey="referral" name="Referral" stackId="a" fill={COLORS[3]} radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="sessions" name={t("admin.visitors.sessions", "Sessions")} fill={COLORS[0]} radius={[4, 4, 0, 0]} />
+                  <Bar dataKey="pageViews" name={t("admin.visitors.pageViews", "Page Views")} fill={COLORS[1]} radius={[4, 4, 0, 0]} />
                 </BarChart>
               </ResponsiveContainer>
             </div>
@@ -190,23 +186,20 @@ export function VisitorAnalyticsTab() {
 
         <Card>
           <CardHeader>
-            <CardTitle>Conversion Funnel</CardTitle>
-            <CardDescription>User journey drop-off analysis</CardDescription>
+            <CardTitle>{t("admin.visitors.funnelTitle", "Conversion Funnel")}</CardTitle>
+            <CardDescription>{t("admin.visitors.funnelDescription", "Sessions reaching each step")}</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="h-[300px]">
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={mockFunnelData} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <BarChart data={funnel} layout="vertical" margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
                   <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="hsl(var(--border))" />
                   <XAxis type="number" stroke="hsl(var(--muted-foreground))" fontSize={12} tickLine={false} axisLine={false} />
-                  <YAxis dataKey="step" type="category" stroke="hsl(var(--foreground))" fontSize={12} tickLine={false} axisLine={false} width={100} />
-                  <Tooltip 
-                    contentStyle={{ backgroundColor: 'hsl(var(--card))', borderColor: 'hsl(var(--border))', borderRadius: '8px' }}
-                    cursor={{ fill: 'hsl(var(--muted))' }}
-                  />
-                  <Bar dataKey="users" name="Users" fill={COLORS[1]} radius={[0, 4, 4, 0]}>
-                    {mockFunnelData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={COLORS[index % COLORS.length]} />
+                  <YAxis dataKey="label" type="category" stroke="hsl(var(--foreground))" fontSize={12} tickLine={false} axisLine={false} width={120} />
+                  <Tooltip contentStyle={TOOLTIP_STYLE} cursor={{ fill: "hsl(var(--muted))" }} />
+                  <Bar dataKey="sessions" name={t("admin.visitors.sessions", "Sessions")} fill={COLORS[1]} radius={[0, 4, 4, 0]}>
+                    {funnel.map((entry, index) => (
+                      <Cell key={entry.step} fill={COLORS[index % COLORS.length]} />
                     ))}
                   </Bar>
                 </BarChart>
@@ -215,6 +208,117 @@ export function VisitorAnalyticsTab() {
           </CardContent>
         </Card>
       </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <Card className="lg:col-span-2">
+          <CardHeader>
+            <CardTitle>{t("admin.visitors.topPaths", "Top Pages")}</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("admin.visitors.path", "Path")}</TableHead>
+                  <TableHead className="text-right">{t("admin.visitors.views", "Views")}</TableHead>
+                  <TableHead className="text-right">{t("admin.visitors.avgTime", "Avg. Time")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report?.topPaths.map((row) => (
+                  <TableRow key={row.path}>
+                    <TableCell className="font-mono text-xs truncate max-w-[360px]">{row.path}</TableCell>
+                    <TableCell className="text-right">{row.views.toLocaleString()}</TableCell>
+                    <TableCell className="text-right">{formatDuration(row.avgSeconds)}</TableCell>
+                  </TableRow>
+                ))}
+                {report?.topPaths.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-center py-6 text-muted-foreground">
+                      {t("admin.visitors.noData", "No visits recorded yet")}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("admin.visitors.sources", "Sources")}</CardTitle>
+            <CardDescription>{t("admin.visitors.sourcesDescription", "UTM source or referring site")}</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {report?.sources.map((row) => (
+              <div key={row.source} className="flex items-center justify-between text-sm">
+                <span className="truncate">{row.source}</span>
+                <span className="text-muted-foreground">{row.sessions.toLocaleString()}</span>
+              </div>
+            ))}
+            {report && report.devices.length > 0 && (
+              <div className="pt-4 border-t space-y-2">
+                {report.devices.map((row) => (
+                  <div key={row.device} className="flex items-center justify-between text-sm">
+                    <span className="capitalize">{row.device}</span>
+                    <span className="text-muted-foreground">{row.sessions.toLocaleString()}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("admin.visitors.retention", "Weekly Retention")}</CardTitle>
+          <CardDescription>
+            {t("admin.visitors.retentionDescription", "Share of consenting visitors returning in the weeks after their first visit")}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("admin.visitors.cohort", "Cohort")}</TableHead>
+                <TableHead className="text-right">{t("admin.visitors.visitors", "Visitors")}</TableHead>
+                {Array.from({ length: RETENTION_WEEKS }, (_, week) => (
+                  <TableHead key={week} className="text-right">
+                    {t("admin.visitors.week", { week, defaultValue: "W{{week}}" })}
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {report?.retention.map((row) => (
+                <TableRow key={row.cohort}>
+                  <TableCell>{row.cohort}</TableCell>
+                  <TableCell className="text-right">{row.visitors.toLocaleString()}</TableCell>
+                  {Array.from({ length: RETENTION_WEEKS }, (_, week) => {
+                    const share = row.weeks[week];
+                    return (
+                      <TableCell
+                        key={week}
+                        className="text-right text-xs"
+                        style={share !== undefined ? { backgroundColor: `rgba(59, 130, 246, ${share * 0.6})` } : undefined}
+                      >
+                        {share !== undefined ? formatPercent(share) : ""}
+                      </TableCell>
+                    );
+                  })}
+                </TableRow>
+              ))}
+              {report?.retention.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={RETENTION_WEEKS + 2} className="text-center py-6 text-muted-foreground">
+                    {t("admin.visitors.noData", "No visits recorded yet")}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
     </div>
   );
 }
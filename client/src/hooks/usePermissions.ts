@@ -0,0 +1,32 @@
+import { useQuery } from "@tanstack/react-query";
+import type { Permission } from "@shared/schema";
+import { getQueryFn } from "@/lib/queryClient";
+
+export interface SessionResponse {
+  isAuthenticated: boolean;
+  username: string | null;
+  role: string | null;
+  userId: string | null;
+  permissions?: Permission[];
+  /** The role needs two-factor auth and the user hasn't enrolled yet */
+  twoFactorSetupRequired?: boolean;
+}
+
+/** The signed-in user's admin permissions, from the shared session query. */
+export function usePermissions() {
+  const { data: session, isLoading } = useQuery<SessionResponse | null>({
+    queryKey: ["/api/auth/session"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const permissions = session?.permissions ?? [];
+
+  return {
+    session,
+    isLoading,
+    permissions,
+    /** True when the user has at least one of the permissions. */
+    can: (...required: Permission[]) => required.some((permission) => permissions.includes(permission)),
+    isStaff: permissions.length > 0,
+  };
+}
@@ -0,0 +1,89 @@
+import { useEffect, useRef, type RefObject } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+
+interface UseWatchProgressOptions {
+  videoId: string | undefined;
+  /** Only logged-in users have a stored position */
+  enabled: boolean;
+  /** YouTube iframe; it must be loaded with enablejsapi=1 */
+  iframeRef: RefObject<HTMLIFrameElement>;
+  isPlaying: boolean;
+}
+
+interface WatchProgressResponse {
+  positionSeconds: number;
+  durationSeconds: number | null;
+  resumeSeconds: number;
+}
+
+const SAVE_INTERVAL_MS = 15000;
+
+/**
+ * Loads the saved resume position for a video and keeps it up to date from the
+ * YouTube player's postMessage "infoDelivery" events while it plays.
+ */
+export function useWatchProgress({ videoId, enabled, iframeRef, isPlaying }: UseWatchProgressOptions) {
+  const latest = useRef<{ position: number; duration: number | null } | null>(null);
+  const lastSaved = useRef<number | null>(null);
+
+  const { data } = useQuery<WatchProgressResponse>({
+    queryKey: ["/api/user/library/progress", videoId],
+    enabled: enabled && !!videoId,
+    staleTime: 0,
+  });
+
+  useEffect(() => {
+    if (!enabled || !videoId || !isPlaying) return;
+
+    const save = () => {
+      const current = latest.current;
+      if (!current || current.position === lastSaved.current) return;
+      lastSaved.current = current.position;
+      apiRequest("PUT", `/api/user/library/progress/${videoId}`, {
+        positionSeconds: current.position,
+        durationSeconds: current.duration,
+      }).catch(() => {});
+    };
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.source !== iframeRef.current?.contentWindow) return;
+      try {
+        const payload = typeof event.data === "string" ? JSON.parse(event.data) : event.data;
+        const info = payload?.event === "infoDelivery" ? payload.info : null;
+        if (info && typeof info.currentTime === "number") {
+          latest.current = {
+            position: Math.floor(info.currentTime),
+            duration: typeof info.duration === "number" && info.duration > 0
+              ? Math.floor(info.duration)
+              : latest.current?.duration ?? null,
+          };
+        }
+      } catch {
+        // Not a player message
+      }
+    };
+
+    // The player only starts sending updates after a "listening" handshake
+    const subscribe = () => {
+      iframeRef.current?.contentWindow?.postMessage(
+        JSON.stringify({ event: "listening", id: videoId }),
+        "*",
+      );
+    };
+    const iframe = iframeRef.current;
+    iframe?.addEventListener("load", subscribe);
+    subscribe();
+
+    window.addEventListener("message", onMessage);
+    const timer = window.setInterval(save, SAVE_INTERVAL_MS);
+    return () => {
+      iframe?.removeEventListener("load", subscribe);
+      window.removeEventListener("message", onMessage);
+      window.clearInterval(timer);
+      save();
+    };
+  }, [enabled, videoId, isPlaying, iframeRef]);
+
+  return { resumeSeconds: data?.resumeSeconds ?? 0 };
+}
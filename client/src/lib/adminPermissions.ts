@@ -0,0 +1,66 @@
+import type { Permission, UserRole } from "@shared/schema";
+
+/**
+ * Permissions that open each admin page (any one of them is enough). The
+ * router shows a no-access notice and the sidebar hides the link otherwise;
+ * keep them in step with the API routes the page calls.
+ */
+export const ADMIN_PAGE_PERMISSIONS: Record<string, Permission[]> = {
+  "/admin/channels": ["channels.manage"],
+  "/admin/videos": ["videos.manage", "videos.moderate"],
+  "/admin/availability": ["videos.moderate"],
+  "/admin/categories": ["taxonomy.manage"],
+  "/admin/tag-merges": ["taxonomy.manage"],
+  "/admin/automation": ["automation.manage"],
+  "/admin/analytics": ["analytics.view"],
+  "/admin/playlists": ["videos.manage"],
+  "/admin/seo": ["seo.manage"],
+  "/admin/seo/enhanced": ["seo.manage"],
+  "/admin/export": ["data.export"],
+  "/admin/hero": ["appearance.manage"],
+  "/admin/dashboard": ["dashboard.view"],
+  "/admin/tags": ["taxonomy.manage"],
+  "/admin/settings": ["settings.manage"],
+  "/admin/cache": ["settings.manage"],
+  "/admin/logs": ["logs.view"],
+  "/admin/about": ["appearance.manage"],
+  "/admin/tiktok": ["channels.manage"],
+  "/admin/sources": ["channels.manage"],
+  "/admin/ai-settings": ["ai.manage"],
+  "/admin/inbox": ["inbox.manage"],
+  "/admin/debug": ["logs.view"],
+  "/admin/users": ["users.manage"],
+  "/admin/languages": ["settings.manage"],
+  "/admin/webhooks": ["settings.manage"],
+  "/admin": ["dashboard.view"],
+};
+
+/** English fallbacks for the admin.roles.* translation keys */
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Administrator",
+  editor: "Editor",
+  moderator: "Moderator",
+  analyst: "Analyst",
+  viewer: "Viewer",
+  user: "User",
+};
+
+/** English fallbacks for the admin.permissions.* translation keys */
+export const PERMISSION_LABELS: Record<Permission, { label: string; description: string }> = {
+  "dashboard.view": { label: "Dashboard", description: "Open the admin panel and its dashboard" },
+  "videos.manage": { label: "Videos", description: "Edit, delete, import and re-run AI on videos; playlists" },
+  "videos.moderate": { label: "Moderation", description: "Moderation queue, keyword rules and unavailable videos" },
+  "channels.manage": { label: "Channels", description: "Sources, channels, profiles and channel recommendations" },
+  "taxonomy.manage": { label: "Categories & tags", description: "Categories, tags, tag images and tag merges" },
+  "appearance.manage": { label: "Appearance", description: "Hero slider and the about page" },
+  "seo.manage": { label: "SEO", description: "SEO settings, meta tags, redirects and A/B tests" },
+  "inbox.manage": { label: "Inbox", description: "Read and triage the suggestions inbox" },
+  "analytics.view": { label: "View analytics", description: "Visitor analytics and view history" },
+  "analytics.manage": { label: "Manage analytics", description: "Analytics settings and custom events" },
+  "logs.view": { label: "Logs", description: "Error and activity logs" },
+  "data.export": { label: "Data export", description: "Download exports of videos, channels and jobs" },
+  "automation.manage": { label: "Automation", description: "Background jobs and the scheduler" },
+  "ai.manage": { label: "AI settings", description: "Providers, models, prompts and AI usage" },
+  "settings.manage": { label: "System settings", description: "Site settings, email, cache, languages, webhooks and migrations" },
+  "users.manage": { label: "Users & roles", description: "Assign roles and edit what each role may do" },
+};
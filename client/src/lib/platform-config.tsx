@@ -1,13 +1,21 @@
 // Single source of truth for per-platform UI metadata (label, icon, accent
 // color). Keep in sync with server/shared/schema.ts SUPPORTED_PLATFORMS.
 
-import { Youtube, Instagram } from "lucide-react";
-import { SiTiktok } from "react-icons/si";
+import { Youtube, Instagram, Rss } from "lucide-react";
+import { SiTiktok, SiVimeo, SiDailymotion } from "react-icons/si";
 import type { ComponentType, SVGProps } from "react";
 
-export type PlatformKey = "youtube" | "x" | "tiktok" | "instagram";
+export type PlatformKey = "youtube" | "x" | "tiktok" | "instagram" | "vimeo" | "dailymotion" | "rss";
 
-export const PLATFORM_ORDER: readonly PlatformKey[] = ["youtube", "x", "tiktok", "instagram"] as const;
+export const PLATFORM_ORDER: readonly PlatformKey[] = [
+  "youtube",
+  "x",
+  "tiktok",
+  "instagram",
+  "vimeo",
+  "dailymotion",
+  "rss",
+] as const;
 
 type IconComponent = ComponentType<{ className?: string } & SVGProps<SVGSVGElement>>;
 
@@ -29,7 +37,7 @@ export interface PlatformConfig {
   label: string;
   icon: IconComponent;
   /** Tremor color name for charts/decorations. */
-  tremorColor: "red" | "sky" | "pink" | "fuchsia";
+  tremorColor: "red" | "sky" | "pink" | "fuchsia" | "cyan" | "blue" | "orange";
   /** Whether full management UI is wired up (false = "coming soon"). */
   managed: boolean;
 }
@@ -38,7 +46,10 @@ export const PLATFORM_CONFIG: Record<PlatformKey, PlatformConfig> = {
   youtube: { key: "youtube", label: "YouTube", icon: Youtube, tremorColor: "red", managed: true },
   x: { key: "x", label: "X", icon: XLogo, tremorColor: "sky", managed: true },
   tiktok: { key: "tiktok", label: "TikTok", icon: SiTiktok as IconComponent, tremorColor: "pink", managed: true },
-  instagram: { key: "instagram", label: "Instagram", icon: Instagram, tremorColor: "fuchsia", managed: false },
+  instagram: { key: "instagram", label: "Instagram", icon: Instagram, tremorColor: "fuchsia", managed: true },
+  vimeo: { key: "vimeo", label: "Vimeo", icon: SiVimeo as IconComponent, tremorColor: "cyan", managed: true },
+  dailymotion: { key: "dailymotion", label: "Dailymotion", icon: SiDailymotion as IconComponent, tremorColor: "blue", managed: true },
+  rss: { key: "rss", label: "RSS / Atom", icon: Rss, tremorColor: "orange", managed: true },
 };
 
 export function getPlatformLabel(key: string): string {
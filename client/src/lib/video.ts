@@ -35,3 +35,53 @@ export const getOptimizedThumbnail = (thumbnailUrl: string): string => {
   
   return getOptimizedImageUrl(url, 640);
 };
+
+type PlayableVideo = { videoId: string; videoType: string; embedUrl?: string | null };
+
+const MEDIA_FILE_RE = /\.(mp4|m4v|webm|mov|m3u8)(\?|$)/i;
+
+/**
+ * Whether the stored embed URL is a media file to play in <video> (X posts,
+ * feed enclosures) rather than a platform player page for an <iframe>.
+ */
+export const isDirectMediaUrl = (url: string | null | undefined): boolean =>
+  !!url && MEDIA_FILE_RE.test(url);
+
+/**
+ * Player URL for a video, without autoplay or start parameters. Mirrors
+ * buildEmbedUrl in server/platforms.
+ */
+export const getEmbedUrl = (video: PlayableVideo): string => {
+  switch (video.videoType) {
+    case "tiktok":
+      return video.embedUrl || `https://www.tiktok.com/embed/v2/${video.videoId}`;
+    case "vimeo":
+      return video.embedUrl || `https://player.vimeo.com/video/${video.videoId.replace(/^vimeo_/, "")}`;
+    case "dailymotion":
+      return video.embedUrl || `https://www.dailymotion.com/embed/video/${video.videoId.replace(/^dailymotion_/, "")}`;
+    case "x":
+    case "rss":
+    case "instagram_reel":
+      return video.embedUrl || "";
+    default:
+      return `https://www.youtube.com/embed/${video.videoId}`;
+  }
+};
+
+/** Canonical page for the video on its source platform (schema.org contentUrl). */
+export const getWatchUrl = (video: PlayableVideo, channelName?: string): string => {
+  switch (video.videoType) {
+    case "tiktok":
+      return `https://www.tiktok.com/@${channelName || "user"}/video/${video.videoId}`;
+    case "vimeo":
+      return `https://vimeo.com/${video.videoId.replace(/^vimeo_/, "")}`;
+    case "dailymotion":
+      return `https://www.dailymotion.com/video/${video.videoId.replace(/^dailymotion_/, "")}`;
+    case "x":
+    case "rss":
+    case "instagram_reel":
+      return video.embedUrl || "";
+    default:
+      return `https://www.youtube.com/watch?v=${video.videoId}`;
+  }
+};
@@ -0,0 +1,203 @@
+export type AnalyticsConsent = "granted" | "denied" | "undecided";
+
+type BeaconEvent =
+  | {
+      type: "pageview";
+      path: string;
+      title?: string;
+      referrer?: string;
+      utm?: { source?: string; medium?: string; campaign?: string };
+      ts: number;
+    }
+  | { type: "leave"; path: string; durationSeconds: number; ts: number }
+  | { type: "event"; name: string; properties?: Record<string, string | number | boolean>; ts: number };
+
+const CONSENT_KEY = "analytics-consent";
+const VISITOR_KEY = "analytics-visitor";
+const SESSION_KEY = "analytics-session";
+const ENDPOINT = "/api/analytics/collect";
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+const FLUSH_INTERVAL_MS = 10_000;
+const MAX_QUEUE = 20;
+
+let queue: BeaconEvent[] = [];
+// Without consent the ids live only as long as the page does
+let memoryVisitorId: string | null = null;
+let memorySession: { id: string; lastSeen: number } | null = null;
+let currentPage: { path: string; startedAt: number } | null = null;
+let initialized = false;
+
+function randomId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID().replace(/-/g, "");
+  }
+  return Math.random().toString(36).slice(2) + Date.now().toString(36);
+}
+
+function readStorage(store: Storage | undefined, key: string): string | null {
+  try {
+    return store?.getItem(key) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function writeStorage(store: Storage | undefined, key: string, value: string | null): void {
+  try {
+    if (value === null) store?.removeItem(key);
+    else store?.setItem(key, value);
+  } catch {
+    return;
+  }
+}
+
+export function getAnalyticsConsent(): AnalyticsConsent {
+  const stored = readStorage(window.localStorage, CONSENT_KEY);
+  return stored === "granted" || stored === "denied" ? stored : "undecided";
+}
+
+function trackingDisabled(): boolean {
+  return getAnalyticsConsent() === "denied" || navigator.doNotTrack === "1";
+}
+
+export function setAnalyticsConsent(consent: Exclude<AnalyticsConsent, "undecided">): void {
+  writeStorage(window.localStorage, CONSENT_KEY, consent);
+  if (consent === "denied") {
+    queue = [];
+    writeStorage(window.localStorage, VISITOR_KEY, null);
+    writeStorage(window.sessionStorage, SESSION_KEY, null);
+    return;
+  }
+  // Keep the anonymous ids so the session carries on under the stored ones
+  if (memoryVisitorId) writeStorage(window.localStorage, VISITOR_KEY, memoryVisitorId);
+  if (memorySession) writeStorage(window.sessionStorage, SESSION_KEY, JSON.stringify(memorySession));
+}
+
+function visitorId(): string {
+  if (getAnalyticsConsent() !== "granted") {
+    return (memoryVisitorId ??= randomId());
+  }
+  let id = readStorage(window.localStorage, VISITOR_KEY);
+  if (!id) {
+    id = memoryVisitorId ?? randomId();
+    writeStorage(window.localStorage, VISITOR_KEY, id);
+  }
+  memoryVisitorId = id;
+  return id;
+}
+
+/** Sessions end after 30 minutes without activity, like most analytics tools count them. */
+function sessionId(): string {
+  const now = Date.now();
+  const granted = getAnalyticsConsent() === "granted";
+  let session = memorySession;
+  if (granted) {
+    try {
+      session = JSON.parse(readStorage(window.sessionStorage, SESSION_KEY) || "null") ?? memorySession;
+    } catch {
+      session = memorySession;
+    }
+  }
+  if (!session || now - session.lastSeen > SESSION_IDLE_MS) {
+    session = { id: randomId(), lastSeen: now };
+  }
+  session.lastSeen = now;
+  memorySession = session;
+  if (granted) writeStorage(window.sessionStorage, SESSION_KEY, JSON.stringify(session));
+  return session.id;
+}
+
+function flush(useBeacon = false): void {
+  if (queue.length === 0 || trackingDisabled()) {
+    queue = [];
+    return;
+  }
+  const body = JSON.stringify({
+    visitorId: visitorId(),
+    sessionId: sessionId(),
+    consent: getAnalyticsConsent() === "granted",
+    events: queue.splice(0, queue.length),
+  });
+
+  try {
+    if (useBeacon && typeof navigator.sendBeacon === "function") {
+      navigator.sendBeacon(ENDPOINT, new Blob([body], { type: "application/json" }));
+      return;
+    }
+    fetch(ENDPOINT, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body,
+      keepalive: true,
+      credentials: "same-origin",
+    }).catch(() => {});
+  } catch {
+    return;
+  }
+}
+
+function enqueue(event: BeaconEvent): void {
+  if (trackingDisabled()) return;
+  init();
+  queue.push(event);
+  if (queue.length >= MAX_QUEUE) flush();
+}
+
+function leaveCurrentPage(): void {
+  if (!currentPage) return;
+  enqueue({
+    type: "leave",
+    path: currentPage.path,
+    durationSeconds: Math.round((Date.now() - currentPage.startedAt) / 1000),
+    ts: Date.now(),
+  });
+  currentPage = null;
+}
+
+function init(): void {
+  if (initialized || typeof window === "undefined") return;
+  initialized = true;
+  setInterval(() => flush(), FLUSH_INTERVAL_MS);
+
+  const onHide = () => {
+    const page = currentPage;
+    leaveCurrentPage();
+    flush(true);
+    // The visitor may come back to the same tab
+    if (page) currentPage = { path: page.path, startedAt: Date.now() };
+  };
+  window.addEventListener("pagehide", onHide);
+  document.addEventListener("visibilitychange", () => {
+    if (document.visibilityState === "hidden") onHide();
+  });
+}
+
+export function trackPageView(path: string): void {
+  if (trackingDisabled()) return;
+  // document.referrer only says where the first page of the visit came from;
+  // the server ignores it on later page views anyway
+  const firstView = !currentPage;
+  leaveCurrentPage();
+
+  const params = new URLSearchParams(window.location.search);
+  const utm = {
+    source: params.get("utm_source") ?? undefined,
+    medium: params.get("utm_medium") ?? undefined,
+    campaign: params.get("utm_campaign") ?? undefined,
+  };
+
+  enqueue({
+    type: "pageview",
+    path: path.slice(0, 500),
+    title: document.title.slice(0, 300) || undefined,
+    referrer: firstView && document.referrer ? document.referrer.slice(0, 1000) : undefined,
+    utm: utm.source || utm.medium || utm.campaign ? utm : undefined,
+    ts: Date.now(),
+  });
+  sessionId();
+  currentPage = { path, startedAt: Date.now() };
+}
+
+export function trackEvent(name: string, properties?: Record<string, string | number | boolean>): void {
+  enqueue({ type: "event", name, properties, ts: Date.now() });
+}
@@ -39,6 +39,7 @@ import {
 } from "@/components/ui/table";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { 
@@ -50,8 +51,14 @@ import {
   Cpu, 
   Settings2,
   Database,
-  Radio
+  Radio,
+  Sparkles,
+  FileText,
+  Gauge
 } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import type { AiBudgetStatus, AiPromptTemplateVersion, AiPromptTestResult, AiUsageReport } from "@shared/schema";
 
 const OPENAI_MODEL_PRESETS: Array<{ value: string; label: string; notes?: string }> = [
   { value: "gpt-4o-mini", label: "gpt-4o-mini", notes: "Fast, low cost" },
@@ -72,10 +79,57 @@ const aiSettingsSchema = z.object({
   ollamaApiKey: z.string().optional(),
   openrouterApiKey: z.string().optional(),
   openrouterModel: z.string().optional(),
+  embeddingModel: z.string().optional(),
+  taxonomyMode: z.enum(["open", "controlled"]).default("open"),
+  failoverProviders: z.array(z.enum(["openai", "ollama", "openrouter"])).default([]),
+  aiChapters: z.boolean().default(false),
+  aiModeration: z.boolean().default(false),
+  // Dollar amounts as typed; empty means no limit
+  dailyBudgetUsd: z.string().regex(/^(\d+(\.\d*)?)?$/, "Enter an amount in USD").default(""),
+  monthlyBudgetUsd: z.string().regex(/^(\d+(\.\d*)?)?$/, "Enter an amount in USD").default(""),
 });
 
 type AiSettings = z.infer<typeof aiSettingsSchema>;
 
+type AiConfigResponse = Omit<AiSettings, "dailyBudgetUsd" | "monthlyBudgetUsd"> & {
+  dailyBudgetUsd?: number | null;
+  monthlyBudgetUsd?: number | null;
+};
+
+const PROVIDER_LABELS: Record<AiSettings["provider"], string> = {
+  openai: "OpenAI",
+  ollama: "Ollama",
+  openrouter: "OpenRouter",
+};
+
+function toBudget(value: string): number | null {
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) && amount > 0 ? amount : null;
+}
+
+// Provider defaults, see DEFAULT_EMBEDDING_MODELS in server/ai-service.ts
+const EMBEDDING_MODEL_PLACEHOLDERS: Record<AiSettings["provider"], string> = {
+  ollama: "nomic-embed-text",
+  openai: "text-embedding-3-small",
+  openrouter: "openai/text-embedding-3-small",
+};
+
+interface EmbeddingStatus {
+  model: string;
+  embedded: number;
+  total: number;
+  backfillRunning: boolean;
+}
+
+interface PromptTemplates {
+  key: string;
+  versions: AiPromptTemplateVersion[];
+  activeId: string | null;
+  defaultBody: string;
+  variables: { name: string; description: string; required?: boolean }[];
+  languages: { code: string; name: string }[];
+}
+
 interface AiModel {
   id: string;
   provider: string;
@@ -99,7 +153,7 @@ export default function AdminAISettings() {
   const didHydrateFromServerRef = useRef(false);
 
   // Fetch AI Config
-  const { data: config, isLoading: configLoading } = useQuery<AiSettings>({
+  const { data: config, isLoading: configLoading } = useQuery<AiConfigResponse>({
     queryKey: ["/api/ai/config"],
     refetchOnWindowFocus: false,
     retry: false,
@@ -124,6 +178,13 @@ export default function AdminAISettings() {
       ollamaApiKey: "",
       openrouterApiKey: "",
       openrouterModel: "openai/gpt-4o",
+      embeddingModel: "",
+      taxonomyMode: "open",
+      failoverProviders: [],
+      aiChapters: false,
+      aiModeration: false,
+      dailyBudgetUsd: "",
+      monthlyBudgetUsd: "",
     },
   });
 
@@ -141,6 +202,13 @@ export default function AdminAISettings() {
         ollamaApiKey: config.ollamaApiKey || "",
         openrouterApiKey: config.openrouterApiKey || "",
         openrouterModel: config.openrouterModel || "openai/gpt-4o",
+        embeddingModel: config.embeddingModel || "",
+        taxonomyMode: config.taxonomyMode === "controlled" ? "controlled" : "open",
+        failoverProviders: config.failoverProviders ?? [],
+        aiChapters: config.aiChapters ?? false,
+        aiModeration: config.aiModeration ?? false,
+        dailyBudgetUsd: config.dailyBudgetUsd ? String(config.dailyBudgetUsd) : "",
+        monthlyBudgetUsd: config.monthlyBudgetUsd ? String(config.monthlyBudgetUsd) : "",
       });
       didHydrateFromServerRef.current = true;
     }
@@ -149,10 +217,16 @@ export default function AdminAISettings() {
   // Mutations
   const updateConfigMutation = useMutation({
     mutationFn: async (data: AiSettings) => {
-      await apiRequest("PATCH", "/api/ai/config", data);
+      await apiRequest("PATCH", "/api/ai/config", {
+        ...data,
+        failoverProviders: data.failoverProviders.filter((p) => p !== data.provider),
+        dailyBudgetUsd: toBudget(data.dailyBudgetUsd),
+        monthlyBudgetUsd: toBudget(data.monthlyBudgetUsd),
+      });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/ai/config"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/ai/usage"] });
       const data = form.getValues();
       form.reset(data);
       toast({
@@ -565,6 +639,170 @@ export default function AdminAISettings() {
                     </>
                   )}
 
+                  <FormField
+                    control={form.control}
+                    name="embeddingModel"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t("admin.embeddingModel", "Embedding Model")}</FormLabel>
+                        <FormControl>
+                          <Input
+                            placeholder={EMBEDDING_MODEL_PLACEHOLDERS[form.watch("provider")]}
+                            {...field}
+                            data-testid="input-embedding-model"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          {t("admin.embeddingModelDesc", "Used for related videos and semantic search. Leave empty for the provider default.")}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="taxonomyMode"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{t("admin.taxonomyMode", "Categories")}</FormLabel>
+                        <Select onValueChange={field.onChange} value={field.value}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-taxonomy-mode">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="open">{t("admin.taxonomyOpen", "AI names categories freely")}</SelectItem>
+                            <SelectItem value="controlled">{t("admin.taxonomyControlled", "AI picks from existing categories")}</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          {t("admin.taxonomyModeDesc", "In controlled mode categorization never creates categories; curate them under Categories.")}
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="aiChapters"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4">
+                        <div className="space-y-1">
+                          <FormLabel>{t("admin.aiChapters", "AI chapters")}</FormLabel>
+                          <FormDescription>
+                            {t("admin.aiChaptersDesc", "Split long videos into chapters from their transcript when the description has no timestamps.")}
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-ai-chapters" />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="aiModeration"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center justify-between gap-4">
+                        <div className="space-y-1">
+                          <FormLabel>{t("admin.aiModeration", "AI moderation")}</FormLabel>
+                          <FormDescription>
+                            {t("admin.aiModerationDesc", "Hold new videos of standard channels for review when the AI finds them unsafe or off-topic.")}
+                          </FormDescription>
+                        </div>
+                        <FormControl>
+                          <Switch checked={field.value} onCheckedChange={field.onChange} data-testid="switch-ai-moderation" />
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="failoverProviders"
+                    render={({ field }) => {
+                      const setStep = (index: number, value: string) => {
+                        const next = [...field.value];
+                        if (value === "none") next.splice(index);
+                        else next[index] = value as AiSettings["provider"];
+                        field.onChange(next);
+                      };
+                      const options = (index: number) =>
+                        (Object.keys(PROVIDER_LABELS) as AiSettings["provider"][]).filter(
+                          (p) => p !== form.watch("provider") && !field.value.slice(0, index).includes(p),
+                        );
+                      return (
+                        <FormItem>
+                          <FormLabel>{t("admin.failoverProviders", "Failover")}</FormLabel>
+                          <div className="grid grid-cols-2 gap-2">
+                            {[0, 1].map((index) => (
+                              <Select
+                                key={index}
+                                value={field.value[index] ?? "none"}
+                                onValueChange={(value) => setStep(index, value)}
+                                disabled={index > field.value.length}
+                              >
+                                <SelectTrigger data-testid={`select-failover-${index}`}>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value="none">
+                                    {index === 0 ? t("admin.failoverNone", "No failover") : t("admin.failoverStop", "Stop here")}
+                                  </SelectItem>
+                                  {options(index).map((p) => (
+                                    <SelectItem key={p} value={p}>
+                                      {index === 0 ? t("admin.failoverThen", { provider: PROVIDER_LABELS[p], defaultValue: "Then {{provider}}" }) : t("admin.failoverFinally", { provider: PROVIDER_LABELS[p], defaultValue: "Finally {{provider}}" })}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            ))}
+                          </div>
+                          <FormDescription>
+                            {t("admin.failoverProvidersDesc", "Tried in order when the provider above fails. Each needs its connection settings saved; embeddings never fail over.")}
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      );
+                    }}
+                  />
+
+                  <div className="grid grid-cols-2 gap-2">
+                    <FormField
+                      control={form.control}
+                      name="dailyBudgetUsd"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t("admin.dailyBudget", "Daily budget (USD)")}</FormLabel>
+                          <FormControl>
+                            <Input inputMode="decimal" placeholder={t("admin.noLimit", "No limit")} {...field} data-testid="input-daily-budget" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="monthlyBudgetUsd"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>{t("admin.monthlyBudget", "Monthly budget (USD)")}</FormLabel>
+                          <FormControl>
+                            <Input inputMode="decimal" placeholder={t("admin.noLimit", "No limit")} {...field} data-testid="input-monthly-budget" />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <p className="text-sm text-muted-foreground -mt-2">
+                    {t("admin.budgetDesc", "AI calls and jobs pause once a budget is spent, until the next UTC day or month.")}
+                  </p>
+
                   <div className="flex flex-col gap-2 pt-2">
                     <Button type="submit" disabled={updateConfigMutation.isPending}>
                       {updateConfigMutation.isPending ? t("common.saving", "Saving...") : t("common.saveSettings", "Save Settings")}
@@ -599,6 +837,8 @@ export default function AdminAISettings() {
 
         {/* Models Column */}
         <div className="md:col-span-2 space-y-6">
+          <AiUsageCard />
+
           {form.watch("provider") === "ollama" ? (
             <Card>
               <CardHeader className="flex flex-row items-center justify-between">
@@ -789,8 +1029,427 @@ export default function AdminAISettings() {
               </Card>
             </>
           )}
+
+          <EmbeddingsCard />
+          <PromptTemplatesCard />
         </div>
       </div>
     </div>
   );
 }
+
+const TOOLTIP_STYLE = { backgroundColor: "hsl(var(--card))", borderColor: "hsl(var(--border))", borderRadius: "8px" };
+
+function formatUsd(amount: number): string {
+  return `$${amount < 1 ? amount.toFixed(4) : amount.toFixed(2)}`;
+}
+
+function AiUsageCard() {
+  const { t } = useTranslation();
+  const [days, setDays] = useState("30");
+
+  const { data: usage } = useQuery<AiUsageReport & { budget: AiBudgetStatus }>({
+    queryKey: [`/api/ai/usage?days=${days}`],
+  });
+
+  const featureLabels: Record<string, string> = {
+    categorization: t("admin.aiFeature.categorization", "Categorization"),
+    prompt_test: t("admin.aiFeature.promptTest", "Prompt tests"),
+    summary: t("admin.aiFeature.summary", "Summaries"),
+    seo: t("admin.aiFeature.seo", "SEO metadata"),
+    translation: t("admin.aiFeature.translation", "Translation"),
+    embedding: t("admin.aiFeature.embedding", "Embeddings"),
+    chapters: t("admin.aiFeature.chapters", "Chapters"),
+    moderation: t("admin.aiFeature.moderation", "Moderation"),
+  };
+  const budget = usage?.budget;
+  const budgetLine = (spent: number, limit: number | null) =>
+    limit === null ? `${formatUsd(spent)} / ${t("admin.noLimit", "No limit")}` : `${formatUsd(spent)} / ${formatUsd(limit)}`;
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between gap-4">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            {t("admin.aiUsage", "Usage & Cost")}
+          </CardTitle>
+          <CardDescription>
+            {t("admin.aiUsageDesc", "Every AI call with its tokens, latency and estimated cost. Failed attempts count as calls but cost nothing.")}
+          </CardDescription>
+        </div>
+        <Select value={days} onValueChange={setDays}>
+          <SelectTrigger className="w-[150px]" data-testid="select-ai-usage-range">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="7">{t("admin.visitors.last7", "Last 7 days")}</SelectItem>
+            <SelectItem value="30">{t("admin.visitors.last30", "Last 30 days")}</SelectItem>
+            <SelectItem value="90">{t("admin.visitors.last90", "Last 90 days")}</SelectItem>
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {budget?.exceeded && (
+          <div className="flex items-center gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+            <Badge variant="destructive">{t("admin.aiPaused", "Paused")}</Badge>
+            {budget.exceeded === "daily"
+              ? t("admin.dailyBudgetExceeded", "The daily budget is spent. AI jobs resume at midnight UTC.")
+              : t("admin.monthlyBudgetExceeded", "The monthly budget is spent. AI jobs resume next month.")}
+          </div>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-4 text-sm">
+          <div>
+            <div className="text-muted-foreground">{t("admin.aiCost", "Cost")}</div>
+            <div className="text-2xl font-semibold" data-testid="text-ai-cost">{usage ? formatUsd(usage.totals.costUsd) : "-"}</div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">{t("admin.aiCalls", "Calls")}</div>
+            <div className="text-2xl font-semibold">{usage ? usage.totals.calls.toLocaleString() : "-"}</div>
+            {usage && usage.totals.errors > 0 && (
+              <div className="text-xs text-muted-foreground">
+                {t("admin.aiErrors", { count: usage.totals.errors, defaultValue: "{{count}} failed" })}
+              </div>
+            )}
+          </div>
+          <div>
+            <div className="text-muted-foreground">{t("admin.aiTokens", "Tokens")}</div>
+            <div className="text-2xl font-semibold">
+              {usage ? (usage.totals.promptTokens + usage.totals.completionTokens).toLocaleString() : "-"}
+            </div>
+          </div>
+          <div>
+            <div className="text-muted-foreground">{t("admin.aiLatency", "Avg. latency")}</div>
+            <div className="text-2xl font-semibold">{usage ? `${usage.totals.avgLatencyMs} ms` : "-"}</div>
+          </div>
+        </div>
+
+        <div className="grid gap-2 sm:grid-cols-2 text-sm">
+          <div className="flex justify-between rounded-md border p-3">
+            <span className="text-muted-foreground">{t("admin.spentToday", "Today (UTC)")}</span>
+            <span>{budget ? budgetLine(budget.spentTodayUsd, budget.dailyBudgetUsd) : "-"}</span>
+          </div>
+          <div className="flex justify-between rounded-md border p-3">
+            <span className="text-muted-foreground">{t("admin.spentThisMonth", "This month")}</span>
+            <span>{budget ? budgetLine(budget.spentMonthUsd, budget.monthlyBudgetUsd) : "-"}</span>
+          </div>
+        </div>
+
+        <div className="h-[200px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={usage?.daily ?? []}>
+              <CartesianGrid strokeDasharray="3 3" vertical={false} />
+              <XAxis dataKey="day" fontSize={12} />
+              <YAxis fontSize={12} tickFormatter={(value: number) => `$${value}`} />
+              <Tooltip contentStyle={TOOLTIP_STYLE} formatter={(value: number) => formatUsd(value)} />
+              <Bar dataKey="costUsd" name={t("admin.aiCost", "Cost")} fill="#3b82f6" radius={[4, 4, 0, 0]} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>{t("admin.aiFeatureColumn", "Feature")}</TableHead>
+              <TableHead className="text-right">{t("admin.aiCalls", "Calls")}</TableHead>
+              <TableHead className="text-right">{t("admin.aiTokens", "Tokens")}</TableHead>
+              <TableHead className="text-right">{t("admin.aiCost", "Cost")}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {(usage?.byFeature ?? []).map((row) => (
+              <TableRow key={row.feature}>
+                <TableCell>{featureLabels[row.feature] ?? row.feature}</TableCell>
+                <TableCell className="text-right">
+                  {row.calls.toLocaleString()}
+                  {row.errors > 0 && <span className="text-muted-foreground"> ({row.errors})</span>}
+                </TableCell>
+                <TableCell className="text-right">{(row.promptTokens + row.completionTokens).toLocaleString()}</TableCell>
+                <TableCell className="text-right">{formatUsd(row.costUsd)}</TableCell>
+              </TableRow>
+            ))}
+            {usage && usage.byFeature.length === 0 && (
+              <TableRow>
+                <TableCell colSpan={4} className="text-center text-muted-foreground">
+                  {t("admin.noAiUsage", "No AI calls in this period")}
+                </TableCell>
+              </TableRow>
+            )}
+          </TableBody>
+        </Table>
+
+        {usage && usage.byModel.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("admin.aiModelColumn", "Model")}</TableHead>
+                <TableHead className="text-right">{t("admin.aiCalls", "Calls")}</TableHead>
+                <TableHead className="text-right">{t("admin.aiLatency", "Avg. latency")}</TableHead>
+                <TableHead className="text-right">{t("admin.aiCost", "Cost")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {usage.byModel.map((row) => (
+                <TableRow key={`${row.provider}:${row.model}`}>
+                  <TableCell>
+                    <span className="font-medium">{row.model}</span>{" "}
+                    <span className="text-muted-foreground">{PROVIDER_LABELS[row.provider as AiSettings["provider"]] ?? row.provider}</span>
+                  </TableCell>
+                  <TableCell className="text-right">{row.calls.toLocaleString()}</TableCell>
+                  <TableCell className="text-right">{row.avgLatencyMs} ms</TableCell>
+                  <TableCell className="text-right">{formatUsd(row.costUsd)}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function EmbeddingsCard() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+
+  const { data: status } = useQuery<EmbeddingStatus>({
+    queryKey: ["/api/ai/embeddings"],
+    refetchInterval: (query) => (query.state.data?.backfillRunning ? 5000 : false),
+  });
+
+  const backfillMutation = useMutation({
+    mutationFn: async (full: boolean) => {
+      await apiRequest("POST", "/api/ai/embeddings/backfill", { full });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/ai/embeddings"] });
+      toast({
+        title: t("admin.embeddingBackfillStarted", "Backfill started"),
+        description: t("admin.embeddingBackfillStartedDesc", "Progress is shown under Automation."),
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: t("common.error", "Error"), description: error.message, variant: "destructive" });
+    },
+  });
+
+  const busy = backfillMutation.isPending || !!status?.backfillRunning;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Sparkles className="h-5 w-5" />
+          {t("admin.embeddings", "Embeddings")}
+        </CardTitle>
+        <CardDescription>
+          {t("admin.embeddingsDesc", "Vectors of each video's title, description and tags power related videos and semantic search. New videos are embedded hourly.")}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-muted-foreground">{status?.model ?? "-"}</span>
+          <span data-testid="text-embedding-coverage">
+            {t("admin.embeddingCoverage", {
+              embedded: status?.embedded ?? 0,
+              total: status?.total ?? 0,
+              defaultValue: "{{embedded}} of {{total}} videos embedded",
+            })}
+          </span>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" disabled={busy} onClick={() => backfillMutation.mutate(false)}>
+            {status?.backfillRunning ? t("admin.embeddingBackfillRunning", "Backfill running...") : t("admin.embedMissing", "Embed missing videos")}
+          </Button>
+          <Button variant="ghost" disabled={busy} onClick={() => backfillMutation.mutate(true)}>
+            {t("admin.reembedChanged", "Re-embed changed videos")}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+function PromptTemplatesCard() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const [body, setBody] = useState<string | null>(null);
+  const [note, setNote] = useState("");
+  const [testResults, setTestResults] = useState<AiPromptTestResult[] | null>(null);
+
+  const { data } = useQuery<PromptTemplates>({
+    queryKey: ["/api/ai/prompts/categorization"],
+  });
+
+  const active = data?.versions.find((v) => v.id === data.activeId);
+  const currentBody = active?.body ?? data?.defaultBody ?? "";
+  const draft = body ?? currentBody;
+
+  const onError = (error: Error) => {
+    toast({ title: t("common.error", "Error"), description: error.message, variant: "destructive" });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["/api/ai/prompts/categorization"] });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/ai/prompts/categorization", { body: draft, note: note || null, activate: true });
+    },
+    onSuccess: () => {
+      refresh();
+      setBody(null);
+      setNote("");
+      toast({ title: t("common.success", "Success"), description: t("admin.promptSaved", "New prompt version is active.") });
+    },
+    onError,
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/ai/prompts/categorization/${id}/activate`);
+    },
+    onSuccess: () => {
+      refresh();
+      setBody(null);
+    },
+    onError,
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/ai/prompts/categorization/reset");
+    },
+    onSuccess: () => {
+      refresh();
+      setBody(null);
+    },
+    onError,
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/ai/prompts/categorization/test", { body: draft });
+      return (await res.json()) as { results: AiPromptTestResult[] };
+    },
+    onSuccess: (result) => setTestResults(result.results),
+    onError,
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          {t("admin.categorizationPrompt", "Categorization Prompt")}
+        </CardTitle>
+        <CardDescription>
+          {t("admin.categorizationPromptDesc", {
+            languages: data?.languages.map((lang) => lang.name).join(", ") ?? "",
+            defaultValue: "Categories and tags are generated in every enabled language: {{languages}}.",
+          })}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          value={draft}
+          onChange={(e) => setBody(e.target.value)}
+          rows={12}
+          className="font-mono text-xs"
+          data-testid="textarea-prompt-template"
+        />
+        <div className="flex flex-wrap gap-2 text-xs">
+          {data?.variables.map((variable) => (
+            <Badge key={variable.name} variant={variable.required ? "default" : "outline"} title={variable.description}>
+              {`{{${variable.name}}}`}
+            </Badge>
+          ))}
+        </div>
+        <Input
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          placeholder={t("admin.promptNote", "What changed (optional)")}
+        />
+        <div className="flex flex-wrap gap-2">
+          <Button disabled={saveMutation.isPending || draft === currentBody} onClick={() => saveMutation.mutate()}>
+            {t("admin.savePromptVersion", "Save as new version")}
+          </Button>
+          <Button variant="outline" disabled={testMutation.isPending} onClick={() => testMutation.mutate()}>
+            {testMutation.isPending ? t("admin.testingPrompt", "Testing...") : t("admin.testPrompt", "Test on sample videos")}
+          </Button>
+          <Button variant="ghost" disabled={!active || resetMutation.isPending} onClick={() => resetMutation.mutate()}>
+            {t("admin.useBuiltInPrompt", "Use built-in prompt")}
+          </Button>
+        </div>
+
+        {testResults && (
+          <div className="space-y-3" data-testid="prompt-test-results">
+            {testResults.length === 0 && (
+              <p className="text-sm text-muted-foreground">{t("admin.promptTestNoVideos", "No videos to test with yet.")}</p>
+            )}
+            {testResults.map((result) => (
+              <div key={result.videoId} className="rounded-md border p-3 text-sm space-y-2">
+                <div className="font-medium">{result.title}</div>
+                {result.error ? (
+                  <p className="text-destructive">{result.error}</p>
+                ) : (
+                  Object.keys(result.categories ?? {}).map((code) => (
+                    <div key={code}>
+                      <Badge variant="secondary" className="mr-2">{code}</Badge>
+                      {[...(result.categories?.[code] ?? []), ...(result.tags?.[code] ?? []).map((tag) => `#${tag}`)].join(", ") || "-"}
+                    </div>
+                  ))
+                )}
+                <details>
+                  <summary className="cursor-pointer text-muted-foreground">{t("admin.renderedPrompt", "Prompt sent")}</summary>
+                  <pre className="mt-2 whitespace-pre-wrap text-xs">{result.prompt}</pre>
+                </details>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("admin.promptVersion", "Version")}</TableHead>
+                <TableHead>{t("admin.promptVideos", "Videos")}</TableHead>
+                <TableHead className="text-right">{t("common.action", "Action")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data?.versions.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={3} className="text-muted-foreground">
+                    {t("admin.noPromptVersions", "Using the built-in prompt.")}
+                  </TableCell>
+                </TableRow>
+              )}
+              {data?.versions.map((version) => (
+                <TableRow key={version.id}>
+                  <TableCell>
+                    <div className="font-medium">v{version.version}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {version.note ? `${version.note} · ` : ""}
+                      {formatDistanceToNow(new Date(version.createdAt), { addSuffix: true })}
+                    </div>
+                  </TableCell>
+                  <TableCell>{version.videoCount}</TableCell>
+                  <TableCell className="text-right">
+                    {version.isActive ? (
+                      <Badge>{t("common.active", "Active")}</Badge>
+                    ) : (
+                      <Button size="sm" variant="outline" onClick={() => activateMutation.mutate(version.id)}>
+                        {t("admin.activatePrompt", "Activate")}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
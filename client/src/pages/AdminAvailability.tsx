@@ -0,0 +1,231 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { VideoOff, RotateCcw, Trash2, RefreshCw } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface QuarantinedVideo {
+  id: string;
+  videoId: string;
+  slug: string | null;
+  title: string;
+  thumbnailUrl: string;
+  videoType: string;
+  channelName: string | null;
+  availability: string;
+  hiddenAt: string;
+  hiddenReason: string | null;
+  availabilityCheckedAt: string | null;
+}
+
+interface ReviewQueue {
+  region: string;
+  checkRunning: boolean;
+  byReason: Record<string, number>;
+  videos: QuarantinedVideo[];
+}
+
+const QUEUE_KEY = ["/api/admin/availability"];
+
+export default function AdminAvailability() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery<ReviewQueue>({
+    queryKey: QUEUE_KEY,
+  });
+
+  const reasonLabel = (reason: string | null) =>
+    t(`admin.availability.reasons.${reason || "unavailable"}`, {
+      defaultValue: {
+        deleted: "Deleted",
+        private: "Private",
+        unavailable: "Unavailable",
+        region_blocked: "Region blocked",
+        age_restricted: "Age restricted",
+      }[reason || "unavailable"] ?? reason,
+    });
+
+  const checkMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/availability/check");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUEUE_KEY });
+      toast({ title: t("admin.availability.checkStarted", "Availability check started") });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("admin.availability.checkFailed", "Could not start the check"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/admin/availability/videos/${id}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUEUE_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
+      toast({ title: t("admin.availability.restored", "Video restored") });
+    },
+    onError: () => {
+      toast({ title: t("admin.availability.restoreFailed", "Failed to restore video"), variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/availability/videos/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUEUE_KEY });
+      toast({ title: t("admin.availability.deleted", "Video deleted") });
+    },
+    onError: () => {
+      toast({ title: t("admin.availability.deleteFailed", "Failed to delete video"), variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <VideoOff className="h-8 w-8" />
+            {t("admin.availability.title", "Unavailable Videos")}
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {t(
+              "admin.availability.description",
+              "Videos whose embeds no longer play are hidden from the site until you restore or delete them.",
+            )}
+          </p>
+        </div>
+        <Button
+          variant="outline"
+          onClick={() => checkMutation.mutate()}
+          disabled={checkMutation.isPending || data?.checkRunning}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${data?.checkRunning ? "animate-spin" : ""}`} />
+          {data?.checkRunning
+            ? t("admin.availability.checkRunning", "Check running")
+            : t("admin.availability.checkNow", "Check now")}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("admin.availability.queue", "Review queue")}</CardTitle>
+          <CardDescription className="flex flex-wrap items-center gap-2">
+            {data && (
+              <span>
+                {t("admin.availability.region", { region: data.region, defaultValue: "Region checked: {{region}}" })}
+              </span>
+            )}
+            {data &&
+              Object.entries(data.byReason).map(([reason, count]) => (
+                <Badge key={reason} variant="secondary">
+                  {reasonLabel(reason)}: {count}
+                </Badge>
+              ))}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">{t("common.loading", "Loading...")}</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("admin.video", "Video")}</TableHead>
+                  <TableHead>{t("admin.availability.reason", "Reason")}</TableHead>
+                  <TableHead>{t("admin.availability.hidden", "Hidden")}</TableHead>
+                  <TableHead className="text-right">{t("common.actions", "Actions")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data?.videos.map((video) => (
+                  <TableRow key={video.id} data-testid={`row-quarantined-${video.id}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-3">
+                        <img src={video.thumbnailUrl} alt="" className="w-20 aspect-video object-cover rounded" />
+                        <div className="min-w-0">
+                          <p className="font-medium line-clamp-1">{video.title}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {video.channelName || "-"} · {video.videoType}
+                          </p>
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="destructive">{reasonLabel(video.hiddenReason)}</Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {formatDistanceToNow(new Date(video.hiddenAt), { addSuffix: true })}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={t("admin.availability.restore", "Restore")}
+                        onClick={() => restoreMutation.mutate(video.id)}
+                        disabled={restoreMutation.isPending}
+                        data-testid={`button-restore-${video.id}`}
+                      >
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={t("common.delete", "Delete")}
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                        onClick={() => {
+                          if (confirm(t("admin.availability.deleteConfirmation", { title: video.title, defaultValue: "Delete \"{{title}}\" permanently?" }))) {
+                            deleteMutation.mutate(video.id);
+                          }
+                        }}
+                        data-testid={`button-delete-${video.id}`}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {data?.videos.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                      {t("admin.availability.empty", "Every video plays. Nothing to review.")}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
-import { ChannelManagement } from "@/components/ChannelManagement";
+import { ChannelManagement, type ChannelPushSubscription } from "@/components/ChannelManagement";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import type { Channel, ChannelRecommendation } from "@shared/schema";
@@ -35,6 +35,13 @@ export default function AdminChannels() {
     queryKey: ["/api/channels"],
   });
 
+  const { data: websub } = useQuery<{ enabled: boolean; subscriptions: ChannelPushSubscription[] }>({
+    queryKey: ["/api/admin/sources/websub"],
+  });
+  const pushSubscriptions = websub?.enabled
+    ? Object.fromEntries(websub.subscriptions.map((s) => [s.channelId, s]))
+    : undefined;
+
   const { data: recommendations = [], isLoading: recsLoading } =
     useQuery<ChannelRecommendation[]>({
       queryKey: ["/api/admin/channel-recommendations", { status: recommendationStatus }],
@@ -90,6 +97,27 @@ export default function AdminChannels() {
     },
   });
 
+  const resubscribeMutation = useMutation({
+    mutationFn: async (channelId: string) => {
+      const res = await apiRequest("POST", `/api/admin/sources/channels/${channelId}/websub`, {});
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sources/websub"] });
+      toast({
+        title: t("admin.pushRequested", "Subscription requested"),
+        description: t("admin.pushRequestedDesc", "The hub will confirm the push subscription shortly"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("common.error", "Error"),
+        description: error.message || t("admin.pushRequestFailed", "Failed to request push subscription"),
+        variant: "destructive",
+      });
+    },
+  });
+
   const deleteChannelMutation = useMutation({
     mutationFn: async (channelId: string) => {
       return apiRequest("DELETE", `/api/channels/${channelId}`, {});
@@ -219,6 +247,8 @@ export default function AdminChannels() {
             onScrape={(id) => scrapeChannelMutation.mutate(id)}
             onDelete={(id) => deleteChannelMutation.mutate(id)}
             isLoading={scrapeChannelMutation.isPending || isLoading}
+            pushSubscriptions={pushSubscriptions}
+            onResubscribe={(id) => resubscribeMutation.mutate(id)}
           />
         </TabsContent>
 
@@ -23,6 +23,13 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import {
@@ -39,11 +46,18 @@ import {
   Trash2,
   ExternalLink,
   Eye,
+  Archive,
+  ArchiveRestore,
+  MailOpen,
+  RefreshCw,
+  Reply,
+  AlertTriangle,
 } from "lucide-react";
+import type { InboxMessage } from "@shared/schema";
 
 interface InboxItem {
   id: string;
-  type: "suggestion" | "channel_recommendation";
+  type: "suggestion" | "channel_recommendation" | "email";
   subType: string;
   subject: string;
   message: string;
@@ -53,6 +67,8 @@ interface InboxItem {
   status: string;
   rejectionReason?: string;
   reviewedAt?: string;
+  messageCount?: number;
+  unreadCount?: number;
   createdAt: string;
 }
 
@@ -63,11 +79,23 @@ interface InboxResponse {
     pendingChannels: number;
     totalSuggestions: number;
     totalChannelRecs: number;
+    unreadEmails: number;
+  };
+  mailbox: {
+    configured: boolean;
+    lastPolledAt: string | null;
+    lastError: string | null;
   };
 }
 
+interface ThreadResponse {
+  threadId: string;
+  messages: InboxMessage[];
+}
+
 function getTypeIcon(item: InboxItem) {
   if (item.type === "channel_recommendation") return <Youtube className="h-4 w-4" />;
+  if (item.type === "email") return item.status === "unread" ? <Mail className="h-4 w-4" /> : <MailOpen className="h-4 w-4" />;
   switch (item.subType) {
     case "feature": return <Lightbulb className="h-4 w-4" />;
     case "bug": return <Bug className="h-4 w-4" />;
@@ -78,6 +106,7 @@ function getTypeIcon(item: InboxItem) {
 
 function getTypeLabel(item: InboxItem, t: (key: string, fallback: string) => string) {
   if (item.type === "channel_recommendation") return t("inbox.channelRec", "Channel Recommendation");
+  if (item.type === "email") return t("inbox.emailThread", "Email");
   switch (item.subType) {
     case "feature": return t("inbox.featureSuggestion", "Feature Suggestion");
     case "bug": return t("inbox.bugReport", "Bug Report");
@@ -94,6 +123,12 @@ function getStatusBadge(status: string) {
       return <Badge variant="outline" className="text-green-500 border-green-500/50"><CheckCircle2 className="h-3 w-3 mr-1" />Approved</Badge>;
     case "rejected":
       return <Badge variant="outline" className="text-red-500 border-red-500/50"><XCircle className="h-3 w-3 mr-1" />Rejected</Badge>;
+    case "unread":
+      return <Badge variant="outline" className="text-blue-500 border-blue-500/50"><Mail className="h-3 w-3 mr-1" />Unread</Badge>;
+    case "read":
+      return <Badge variant="outline"><MailOpen className="h-3 w-3 mr-1" />Read</Badge>;
+    case "archived":
+      return <Badge variant="outline" className="text-muted-foreground"><Archive className="h-3 w-3 mr-1" />Archived</Badge>;
     default:
       return <Badge variant="outline"><MessageSquare className="h-3 w-3 mr-1" />Received</Badge>;
   }
@@ -119,15 +154,66 @@ export default function AdminInbox() {
   const [selectedItem, setSelectedItem] = useState<InboxItem | null>(null);
   const [rejectReason, setRejectReason] = useState("");
   const [channelName, setChannelName] = useState("");
+  const [emailFilter, setEmailFilter] = useState<"inbox" | "unread" | "archived">("inbox");
 
+  const statusParam = activeTab === "emails" && emailFilter !== "inbox" ? `&status=${emailFilter}` : "";
   const { data, isLoading } = useQuery<InboxResponse>({
-    queryKey: ["/api/admin/inbox", activeTab],
+    queryKey: ["/api/admin/inbox", activeTab, statusParam],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/inbox?tab=${activeTab}&limit=100${statusParam}`);
+      return res.json();
+    },
+  });
+
+  const selectedThreadId = selectedItem?.type === "email" ? selectedItem.id : null;
+  const { data: thread, isLoading: threadLoading } = useQuery<ThreadResponse>({
+    queryKey: ["/api/admin/inbox/threads", selectedThreadId],
     queryFn: async () => {
-      const res = await apiRequest("GET", `/api/admin/inbox?tab=${activeTab}&limit=100`);
+      const res = await apiRequest("GET", `/api/admin/inbox/threads/${selectedThreadId}`);
+      return res.json();
+    },
+    enabled: !!selectedThreadId,
+  });
+
+  const threadStatusMutation = useMutation({
+    mutationFn: async ({ threadId, status }: { threadId: string; status: "unread" | "read" | "archived" }) => {
+      const res = await apiRequest("PATCH", `/api/admin/inbox/threads/${threadId}`, { status });
       return res.json();
     },
+    onSuccess: (_data, { status }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/inbox"] });
+      if (status !== "read") setSelectedItem(null);
+    },
+    onError: () => {
+      toast({ title: t("common.error", "Error"), description: t("inbox.threadUpdateFailed", "Failed to update thread."), variant: "destructive" });
+    },
+  });
+
+  const pollMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/inbox/poll");
+      return res.json() as Promise<{ stored: number; recommendations: number }>;
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/inbox"] });
+      toast({
+        title: t("inbox.mailChecked", "Mailbox checked"),
+        description: t("inbox.mailCheckedDesc", "{{stored}} new messages, {{recommendations}} channel recommendations.", result),
+      });
+    },
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/inbox"] });
+      toast({ title: t("inbox.mailCheckFailed", "Failed to check mailbox"), description: error.message, variant: "destructive" });
+    },
   });
 
+  const openItem = (item: InboxItem) => {
+    setSelectedItem(item);
+    if (item.type === "email" && item.status === "unread") {
+      threadStatusMutation.mutate({ threadId: item.id, status: "read" });
+    }
+  };
+
   const approveMutation = useMutation({
     mutationFn: async ({ id, name }: { id: string; name?: string }) => {
       const res = await apiRequest("POST", `/api/admin/channel-recommendations/${id}/approve`, { name });
@@ -173,22 +259,43 @@ export default function AdminInbox() {
   });
 
   const items = data?.items || [];
-  const stats = data?.stats || { pendingChannels: 0, totalSuggestions: 0, totalChannelRecs: 0 };
+  const stats = data?.stats || { pendingChannels: 0, totalSuggestions: 0, totalChannelRecs: 0, unreadEmails: 0 };
+  const mailbox = data?.mailbox;
 
   return (
     <div className="space-y-6">
-      <div>
-        <h1 className="text-2xl font-bold flex items-center gap-2">
-          <Inbox className="h-6 w-6" />
-          {t("inbox.title", "Inbox")}
-        </h1>
-        <p className="text-muted-foreground mt-1">
-          {t("inbox.description", "Channel recommendations, feature suggestions, and contact messages from visitors.")}
-        </p>
+      <div className="flex items-start justify-between gap-4 flex-wrap">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            <Inbox className="h-6 w-6" />
+            {t("inbox.title", "Inbox")}
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {t("inbox.description", "Channel recommendations, feature suggestions, and contact messages from visitors.")}
+          </p>
+        </div>
+        {mailbox?.configured && (
+          <div className="flex flex-col items-end gap-1">
+            <Button variant="outline" size="sm" onClick={() => pollMutation.mutate()} disabled={pollMutation.isPending}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${pollMutation.isPending ? "animate-spin" : ""}`} />
+              {t("inbox.checkMail", "Check mail")}
+            </Button>
+            {mailbox.lastError ? (
+              <span className="text-xs text-red-500 flex items-center gap-1 max-w-[320px] truncate" title={mailbox.lastError}>
+                <AlertTriangle className="h-3 w-3 shrink-0" />
+                {mailbox.lastError}
+              </span>
+            ) : mailbox.lastPolledAt && (
+              <span className="text-xs text-muted-foreground">
+                {t("inbox.lastChecked", "Last checked")} {timeAgo(mailbox.lastPolledAt)}
+              </span>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Stats */}
-      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
         <Card>
           <CardContent className="pt-4 pb-4 flex items-center gap-3">
             <div className="p-2 rounded-lg bg-yellow-500/10">
@@ -222,6 +329,17 @@ export default function AdminInbox() {
             </div>
           </CardContent>
         </Card>
+        <Card>
+          <CardContent className="pt-4 pb-4 flex items-center gap-3">
+            <div className="p-2 rounded-lg bg-green-500/10">
+              <Mail className="h-5 w-5 text-green-500" />
+            </div>
+            <div>
+              <p className="text-2xl font-bold">{stats.unreadEmails}</p>
+              <p className="text-xs text-muted-foreground">{t("inbox.unreadEmails", "Unread Emails")}</p>
+            </div>
+          </CardContent>
+        </Card>
       </div>
 
       {/* Tabs */}
@@ -241,9 +359,28 @@ export default function AdminInbox() {
             <MessageSquare className="h-4 w-4" />
             {t("inbox.suggestions", "Suggestions")}
           </TabsTrigger>
+          <TabsTrigger value="emails" className="gap-1.5">
+            <Mail className="h-4 w-4" />
+            {t("inbox.emails", "Email")}
+            {stats.unreadEmails > 0 && <Badge className="ml-1 text-xs bg-green-600">{stats.unreadEmails}</Badge>}
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value={activeTab} className="mt-4">
+          {activeTab === "emails" && (
+            <div className="flex justify-end mb-3">
+              <Select value={emailFilter} onValueChange={(v) => setEmailFilter(v as typeof emailFilter)}>
+                <SelectTrigger className="w-[180px]">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="inbox">{t("inbox.filterInbox", "Inbox")}</SelectItem>
+                  <SelectItem value="unread">{t("inbox.filterUnread", "Unread only")}</SelectItem>
+                  <SelectItem value="archived">{t("inbox.filterArchived", "Archived")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
           {isLoading ? (
             <div className="space-y-3">
               {Array.from({ length: 5 }).map((_, i) => (
@@ -263,20 +400,26 @@ export default function AdminInbox() {
                 <Card
                   key={`${item.type}-${item.id}`}
                   className="cursor-pointer hover:bg-muted/50 transition-colors"
-                  onClick={() => setSelectedItem(item)}
+                  onClick={() => openItem(item)}
                 >
                   <CardContent className="py-3 px-4 flex items-start gap-3">
-                    <div className={`mt-1 p-1.5 rounded-md shrink-0 ${item.type === "channel_recommendation" ? "bg-primary/10 text-primary" : "bg-blue-500/10 text-blue-500"}`}>
+                    <div className={`mt-1 p-1.5 rounded-md shrink-0 ${item.type === "channel_recommendation" ? "bg-primary/10 text-primary" : item.type === "email" ? "bg-green-500/10 text-green-500" : "bg-blue-500/10 text-blue-500"}`}>
                       {getTypeIcon(item)}
                     </div>
                     <div className="flex-1 min-w-0">
                       <div className="flex items-center gap-2 flex-wrap">
                         <span className="text-xs text-muted-foreground">{getTypeLabel(item, t)}</span>
                         {getStatusBadge(item.status)}
+                        {item.type === "email" && (item.messageCount || 0) > 1 && (
+                          <Badge variant="secondary" className="text-xs">{item.messageCount}</Badge>
+                        )}
                       </div>
-                      <p className="font-medium text-sm mt-0.5 truncate">
+                      <p className={`text-sm mt-0.5 truncate ${item.status === "unread" ? "font-semibold" : "font-medium"}`}>
                         {item.type === "channel_recommendation" ? item.subject : item.subject || item.message.slice(0, 80)}
                       </p>
+                      {item.type === "email" && item.message && (
+                        <p className="text-xs text-muted-foreground truncate">{item.message}</p>
+                      )}
                       <div className="flex items-center gap-3 mt-1 text-xs text-muted-foreground">
                         <span>{item.sender}</span>
                         {item.email && <span className="flex items-center gap-1"><Mail className="h-3 w-3" />{item.email}</span>}
@@ -296,7 +439,7 @@ export default function AdminInbox() {
 
       {/* Detail Dialog */}
       <Dialog open={!!selectedItem} onOpenChange={() => { setSelectedItem(null); setRejectReason(""); setChannelName(""); }}>
-        <DialogContent className="sm:max-w-[550px]">
+        <DialogContent className={selectedItem?.type === "email" ? "sm:max-w-[720px]" : "sm:max-w-[550px]"}>
           {selectedItem && (
             <>
               <DialogHeader>
@@ -312,7 +455,78 @@ export default function AdminInbox() {
                   <span className="text-sm text-muted-foreground">{new Date(selectedItem.createdAt).toLocaleString()}</span>
                 </div>
 
-                {selectedItem.type === "channel_recommendation" ? (
+                {selectedItem.type === "email" ? (
+                  <>
+                    <p className="font-medium">{selectedItem.subject || t("inbox.noSubject", "(no subject)")}</p>
+                    <div className="space-y-3 max-h-[55vh] overflow-y-auto pr-1">
+                      {threadLoading ? (
+                        <div className="h-24 bg-muted rounded-md animate-pulse" />
+                      ) : (
+                        thread?.messages.map((message) => (
+                          <div key={message.id} className="rounded-md border p-3 space-y-2">
+                            <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                              <span className="truncate">
+                                <span className="font-medium text-foreground">{message.fromName || message.fromAddress}</span>
+                                {message.fromName && <> &lt;{message.fromAddress}&gt;</>}
+                              </span>
+                              <span className="shrink-0">{new Date(message.receivedAt).toLocaleString()}</span>
+                            </div>
+                            <p className="text-sm text-foreground/80 whitespace-pre-wrap break-words">{message.textBody}</p>
+                            {message.detectedUrls.length > 0 && (
+                              <div className="flex flex-wrap items-center gap-1.5 pt-1">
+                                <span className="text-xs text-muted-foreground">{t("inbox.detectedChannels", "Channel links sent to recommendations:")}</span>
+                                {message.detectedUrls.map((url) => (
+                                  <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                                    <Badge variant="outline" className="text-xs font-mono">{url.replace(/^https:\/\/(www\.)?/, "")}</Badge>
+                                  </a>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        ))
+                      )}
+                    </div>
+
+                    <div className="flex gap-2 justify-end flex-wrap">
+                      {selectedItem.email && (
+                        <a href={`mailto:${selectedItem.email}?subject=${encodeURIComponent(`Re: ${selectedItem.subject}`)}`}>
+                          <Button variant="outline" size="sm">
+                            <Reply className="h-4 w-4 mr-1" />
+                            {t("inbox.reply", "Reply")}
+                          </Button>
+                        </a>
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => threadStatusMutation.mutate({ threadId: selectedItem.id, status: "unread" })}
+                        disabled={threadStatusMutation.isPending}
+                      >
+                        <Mail className="h-4 w-4 mr-1" />
+                        {t("inbox.markUnread", "Mark unread")}
+                      </Button>
+                      {selectedItem.status === "archived" ? (
+                        <Button
+                          size="sm"
+                          onClick={() => threadStatusMutation.mutate({ threadId: selectedItem.id, status: "read" }, { onSuccess: () => setSelectedItem(null) })}
+                          disabled={threadStatusMutation.isPending}
+                        >
+                          <ArchiveRestore className="h-4 w-4 mr-1" />
+                          {t("inbox.unarchive", "Move to inbox")}
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          onClick={() => threadStatusMutation.mutate({ threadId: selectedItem.id, status: "archived" })}
+                          disabled={threadStatusMutation.isPending}
+                        >
+                          <Archive className="h-4 w-4 mr-1" />
+                          {t("inbox.archive", "Archive")}
+                        </Button>
+                      )}
+                    </div>
+                  </>
+                ) : selectedItem.type === "channel_recommendation" ? (
                   <>
                     <div className="space-y-2">
                       <label className="text-sm font-medium">{t("inbox.channelUrl", "Channel URL")}</label>
@@ -69,6 +69,7 @@ export default function AdminRegenerate() {
       let processedTotal = 0;
       let categoriesGeneratedTotal = 0;
       let tagsGeneratedTotal = 0;
+      let pausedMessage: string | null = null;
 
       while (true) {
         const response = await fetch(
@@ -84,6 +85,16 @@ export default function AdminRegenerate() {
 
         const data = await response.json();
 
+        processedTotal += data.processed || 0;
+        categoriesGeneratedTotal += data.categoriesGenerated || 0;
+        tagsGeneratedTotal += data.tagsGenerated || 0;
+
+        // The AI budget ran out; stop instead of retrying the same videos
+        if (data.paused) {
+          pausedMessage = data.error;
+          break;
+        }
+
         if (regenerationMode === "missing" && data.total > 0 && (data.processed || 0) === 0) {
           throw new Error(t("admin.regenerate.no_progress_error"));
         }
@@ -93,9 +104,6 @@ export default function AdminRegenerate() {
         }
 
         total = typeof data.total === "number" ? data.total : total;
-        processedTotal += data.processed || 0;
-        categoriesGeneratedTotal += data.categoriesGenerated || 0;
-        tagsGeneratedTotal += data.tagsGenerated || 0;
 
         if (regenerationMode === "missing") {
           offset = 0;
@@ -128,8 +136,6 @@ export default function AdminRegenerate() {
         await new Promise((resolve) => setTimeout(resolve, 500));
       }
 
-      setProgress(100);
-      setCurrentStep(t("admin.regenerate.completed"));
       setResult({
         success: true,
         processed: processedTotal,
@@ -138,6 +144,18 @@ export default function AdminRegenerate() {
         total,
       });
 
+      if (pausedMessage) {
+        setCurrentStep(t("admin.regenerate.paused", "Paused: AI budget reached"));
+        toast({
+          title: t("admin.regenerate.paused_title", "AI budget reached"),
+          description: pausedMessage,
+          variant: "destructive",
+        });
+        return;
+      }
+
+      setProgress(100);
+      setCurrentStep(t("admin.regenerate.completed"));
       toast({
         title: t("admin.regenerate.complete_title"),
         description: t("admin.regenerate.complete_desc", { count: processedTotal || 0 }),
@@ -57,6 +57,7 @@ import {
   Upload,
 } from "lucide-react";
 import { SitemapAndRobotsPanel } from "@/pages/admin-seo/SitemapAndRobotsPanel";
+import { AbTestsPanel } from "@/pages/admin-seo/AbTestsPanel";
 import { ImageUpload } from "@/components/ImageUpload";
 
 type Pagination = {
@@ -490,6 +491,7 @@ export default function AdminSEO() {
               <TabsTrigger value="meta-tags" className="min-h-[44px]">{t("admin.metaTags", "Meta Tags")}</TabsTrigger>
               <TabsTrigger value="redirects" className="min-h-[44px]">{t("admin.redirects", "Redirects")}</TabsTrigger>
               <TabsTrigger value="sitemap" className="min-h-[44px]">{t("admin.sitemapRobots", "Sitemap & Robots")}</TabsTrigger>
+              <TabsTrigger value="ab-tests" className="min-h-[44px]">{t("admin.abTests", "A/B Tests")}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="overview" className="space-y-4">
@@ -1077,6 +1079,10 @@ export default function AdminSEO() {
               </Card>
             </TabsContent>
 
+            <TabsContent value="ab-tests" className="space-y-4">
+              <AbTestsPanel />
+            </TabsContent>
+
             <TabsContent value="sitemap" className="space-y-4">
               <SitemapAndRobotsPanel
                 defaultLanguage={form.watch("defaultLanguage") || "en"}
@@ -2,7 +2,7 @@ import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { Link } from "wouter";
 import { useTranslation } from "react-i18next";
-import type { Channel } from "@shared/schema";
+import type { Channel, ChannelTrustLevel, YouTubeIngestionMode } from "@shared/schema";
 import {
   Tabs,
   TabsContent,
@@ -12,7 +12,14 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Card, Metric, Text, Flex } from "@tremor/react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Card, Metric, Text, Flex, ProgressBar, BarChart, Badge as TremorBadge } from "@tremor/react";
 import {
   Table,
   TableBody,
@@ -23,7 +30,7 @@ import {
 } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { Loader2, ExternalLink, Sparkles } from "lucide-react";
+import { Loader2, ExternalLink, Sparkles, RefreshCw, Plus } from "lucide-react";
 import {
   PLATFORM_CONFIG,
   PLATFORM_ORDER,
@@ -36,6 +43,19 @@ interface SourceStat {
   videoCount: number;
 }
 
+interface YouTubeQuotaStatus {
+  day: string;
+  keyConfigured: boolean;
+  dailyLimit: number;
+  units: number;
+  calls: number;
+  remaining: number;
+  byMethod: Record<string, number>;
+  exhausted: boolean;
+  exhaustedAt: string | null;
+  history: Array<{ day: string; units: number; calls: number; exhausted: boolean }>;
+}
+
 interface XVideoPreview {
   ok: boolean;
   tweetId: string;
@@ -72,12 +92,12 @@ export default function AdminSources() {
         <p className="text-muted-foreground mt-1">
           {t(
             "admin.sources.subtitle",
-            "Manage video sources across YouTube, X, TikTok, and Instagram.",
+            "Manage video sources across YouTube, X, TikTok, Instagram, Vimeo, Dailymotion and RSS feeds.",
           )}
         </p>
       </div>
 
-      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-4">
         {PLATFORM_ORDER.map((p) => {
           const { label, icon: Icon } = PLATFORM_CONFIG[p];
           const s = statFor(p);
@@ -97,7 +117,7 @@ export default function AdminSources() {
       </div>
 
       <Tabs value={activeTab} onValueChange={(v) => setActiveTab(v as PlatformKey)}>
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="flex flex-wrap h-auto w-full">
           {PLATFORM_ORDER.map((p) => {
             const { label, icon: Icon } = PLATFORM_CONFIG[p];
             return (
@@ -110,6 +130,7 @@ export default function AdminSources() {
         </TabsList>
 
         <TabsContent value="youtube">
+          <YouTubeQuotaCard />
           <PlatformChannels platform="youtube" />
         </TabsContent>
         <TabsContent value="x">
@@ -118,23 +139,166 @@ export default function AdminSources() {
         <TabsContent value="tiktok">
           <PlatformChannels platform="tiktok" />
         </TabsContent>
-        <TabsContent value="instagram">
-          <ComingSoonTab platform="instagram" />
-        </TabsContent>
+        {FEED_PLATFORMS.map((p) => (
+          <TabsContent key={p} value={p}>
+            <FeedSourceTab platform={p} />
+          </TabsContent>
+        ))}
       </Tabs>
     </div>
   );
 }
 
-function PlatformChannels({ platform }: { platform: "youtube" | "tiktok" }) {
+// Platforms added through the generic source form rather than a dedicated admin page
+type FeedPlatform = "instagram" | "vimeo" | "dailymotion" | "rss";
+const FEED_PLATFORMS: readonly FeedPlatform[] = ["instagram", "vimeo", "dailymotion", "rss"];
+
+// Quota days roll over at midnight Pacific; a minute's refresh is plenty
+function YouTubeQuotaCard() {
+  const { t } = useTranslation();
+  const { data: quota, isLoading } = useQuery<YouTubeQuotaStatus>({
+    queryKey: ["/api/admin/sources/youtube-quota"],
+    refetchInterval: 60_000,
+  });
+
+  if (isLoading || !quota) {
+    return (
+      <Card className="mt-4 py-8 flex justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </Card>
+    );
+  }
+
+  const pct = quota.dailyLimit > 0 ? Math.min(100, (quota.units / quota.dailyLimit) * 100) : 100;
+  const history = [...quota.history].reverse();
+
+  return (
+    <Card className="mt-4" data-testid="card-youtube-quota">
+      <Flex justifyContent="between" alignItems="start">
+        <div>
+          <Text>{t("admin.sources.quota.title", "YouTube Data API quota")}</Text>
+          <Metric>
+            {quota.units.toLocaleString()} / {quota.dailyLimit.toLocaleString()}
+          </Metric>
+          <Text className="text-xs">
+            {t("admin.sources.quota.today", "{{calls}} calls on {{day}} (Pacific time)", {
+              calls: quota.calls,
+              day: quota.day,
+            })}
+          </Text>
+        </div>
+        {!quota.keyConfigured ? (
+          <TremorBadge color="gray">{t("admin.sources.quota.noKey", "No API key — HTML scraping only")}</TremorBadge>
+        ) : quota.exhausted ? (
+          <TremorBadge color="rose">{t("admin.sources.quota.exhausted", "Exhausted — falling back to HTML")}</TremorBadge>
+        ) : (
+          <TremorBadge color="emerald">{t("admin.sources.quota.active", "API active")}</TremorBadge>
+        )}
+      </Flex>
+
+      <ProgressBar value={pct} color={quota.exhausted ? "rose" : pct > 80 ? "amber" : "indigo"} className="mt-4" />
+
+      {Object.keys(quota.byMethod).length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-4 text-sm text-muted-foreground">
+          {Object.entries(quota.byMethod).map(([method, units]) => (
+            <span key={method}>
+              <code>{method}</code>: {units.toLocaleString()}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {history.length > 1 && (
+        <BarChart
+          className="mt-4 h-40"
+          data={history}
+          index="day"
+          categories={["units"]}
+          colors={["indigo"]}
+          showLegend={false}
+        />
+      )}
+
+      {!quota.keyConfigured && (
+        <Text className="mt-3 text-xs">
+          {t("admin.sources.quota.configure", "Set a YouTube API key in System Settings to list channels through the official API.")}
+        </Text>
+      )}
+    </Card>
+  );
+}
+
+const MANAGE_PATHS: Partial<Record<PlatformKey, string>> = {
+  youtube: "/admin/channels",
+  tiktok: "/admin/tiktok",
+};
+
+function PlatformChannels({ platform }: { platform: PlatformKey }) {
   const { t } = useTranslation();
+  const { toast } = useToast();
   // Per-platform query — server-side filter avoids pulling the full channel
   // list into the client just to filter it back down.
   const { data: channels = [], isLoading } = useQuery<Channel[]>({
     queryKey: ["/api/channels", { platform }],
   });
 
-  const adminPath = platform === "tiktok" ? "/admin/tiktok" : "/admin/channels";
+  const adminPath = MANAGE_PATHS[platform];
+
+  const scrapeMutation = useMutation({
+    mutationFn: async (channelId: string): Promise<{ saved: number }> => {
+      const res = await apiRequest("POST", `/api/channels/${channelId}/scrape`);
+      return res.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: t("admin.sources.scraped", "Scrape finished"),
+        description: t("admin.sources.scrapedDesc", "{{count}} new videos", { count: data.saved }),
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sources/stats"] });
+    },
+    onError: (err: Error) => {
+      toast({
+        title: t("admin.sources.scrapeFailed", "Scrape failed"),
+        description: err?.message ?? "",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const modeMutation = useMutation({
+    mutationFn: async ({ id, ingestionMode }: { id: string; ingestionMode: YouTubeIngestionMode }) => {
+      const res = await apiRequest("PATCH", `/api/admin/sources/channels/${id}`, { ingestionMode });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+    },
+    onError: (err: Error) => {
+      toast({
+        title: t("admin.sources.modeFailed", "Could not change ingestion mode"),
+        description: err?.message ?? "",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const trustMutation = useMutation({
+    mutationFn: async ({ id, trustLevel }: { id: string; trustLevel: ChannelTrustLevel }) => {
+      const res = await apiRequest("PATCH", `/api/admin/sources/channels/${id}`, { trustLevel });
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+    },
+    onError: (err: Error) => {
+      toast({
+        title: t("admin.sources.trustFailed", "Could not change the trust level"),
+        description: err?.message ?? "",
+        variant: "destructive",
+      });
+    },
+  });
 
   return (
     <Card className="mt-4">
@@ -143,12 +307,14 @@ function PlatformChannels({ platform }: { platform: "youtube" | "tiktok" }) {
           <Text>{t("admin.sources.channelsCount", "Channels")}</Text>
           <Metric>{channels.length}</Metric>
         </div>
-        <Link href={adminPath}>
-          <Button variant="outline" size="sm" data-testid={`button-manage-${platform}`}>
-            {t("admin.sources.manage", "Manage")}
-            <ExternalLink className="w-3 h-3 ml-2" />
-          </Button>
-        </Link>
+        {adminPath && (
+          <Link href={adminPath}>
+            <Button variant="outline" size="sm" data-testid={`button-manage-${platform}`}>
+              {t("admin.sources.manage", "Manage")}
+              <ExternalLink className="w-3 h-3 ml-2" />
+            </Button>
+          </Link>
+        )}
       </Flex>
 
       {isLoading ? (
@@ -157,10 +323,9 @@ function PlatformChannels({ platform }: { platform: "youtube" | "tiktok" }) {
         </div>
       ) : channels.length === 0 ? (
         <div className="py-12 text-center text-muted-foreground">
-          {t(
-            "admin.sources.empty",
-            "No channels yet. Use the Manage button to add the first one.",
-          )}
+          {adminPath
+            ? t("admin.sources.empty", "No channels yet. Use the Manage button to add the first one.")
+            : t("admin.sources.emptyFeeds", "No channels yet. Add the first one above.")}
         </div>
       ) : (
         <>
@@ -170,6 +335,9 @@ function PlatformChannels({ platform }: { platform: "youtube" | "tiktok" }) {
                 <TableHead>{t("admin.sources.name", "Name")}</TableHead>
                 <TableHead>{t("admin.sources.url", "URL")}</TableHead>
                 <TableHead className="text-right">{t("admin.sources.videos", "Videos")}</TableHead>
+                {platform === "youtube" && <TableHead>{t("admin.sources.ingestion", "Ingestion")}</TableHead>}
+                <TableHead>{t("admin.sources.trust", "Moderation")}</TableHead>
+                {!adminPath && <TableHead />}
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -187,6 +355,55 @@ function PlatformChannels({ platform }: { platform: "youtube" | "tiktok" }) {
                     </a>
                   </TableCell>
                   <TableCell className="text-right">{c.videoCount}</TableCell>
+                  {platform === "youtube" && (
+                    <TableCell>
+                      <Select
+                        value={c.ingestionMode}
+                        onValueChange={(v) => modeMutation.mutate({ id: c.id, ingestionMode: v as YouTubeIngestionMode })}
+                      >
+                        <SelectTrigger className="w-[150px] h-8" data-testid={`select-ingestion-${c.id}`}>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="api">{t("admin.sources.modeApi", "API, HTML fallback")}</SelectItem>
+                          <SelectItem value="html">{t("admin.sources.modeHtml", "HTML only")}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <Select
+                      value={c.trustLevel}
+                      onValueChange={(v) => trustMutation.mutate({ id: c.id, trustLevel: v as ChannelTrustLevel })}
+                    >
+                      <SelectTrigger className="w-[170px] h-8" data-testid={`select-trust-${c.id}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="trusted">{t("admin.sources.trustTrusted", "Trusted, no review")}</SelectItem>
+                        <SelectItem value="standard">{t("admin.sources.trustStandard", "Rules and AI check")}</SelectItem>
+                        <SelectItem value="untrusted">{t("admin.sources.trustUntrusted", "Review every video")}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </TableCell>
+                  {!adminPath && (
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => scrapeMutation.mutate(c.id)}
+                        disabled={scrapeMutation.isPending}
+                        data-testid={`button-scrape-${c.id}`}
+                      >
+                        {scrapeMutation.isPending && scrapeMutation.variables === c.id ? (
+                          <Loader2 className="w-4 h-4 animate-spin" />
+                        ) : (
+                          <RefreshCw className="w-4 h-4" />
+                        )}
+                        <span className="ml-2">{t("admin.sources.scrape", "Scrape")}</span>
+                      </Button>
+                    </TableCell>
+                  )}
                 </TableRow>
               ))}
             </TableBody>
@@ -361,20 +578,94 @@ function XSourceTab() {
   );
 }
 
-function ComingSoonTab({ platform }: { platform: "instagram" }) {
+function FeedSourceTab({ platform }: { platform: FeedPlatform }) {
   const { t } = useTranslation();
+  const { toast } = useToast();
+  const [url, setUrl] = useState("");
   const cfg = PLATFORM_CONFIG[platform];
   const Icon = cfg.icon;
+
+  const help: Record<FeedPlatform, { text: string; placeholder: string }> = {
+    instagram: {
+      text: t(
+        "admin.sources.feed.instagramHelp",
+        "Business or creator profiles only. The server needs INSTAGRAM_ACCESS_TOKEN and INSTAGRAM_BUSINESS_ACCOUNT_ID.",
+      ),
+      placeholder: "https://www.instagram.com/username",
+    },
+    vimeo: {
+      text: t("admin.sources.feed.vimeoHelp", "A Vimeo user or channel URL. The latest uploads are imported."),
+      placeholder: "https://vimeo.com/channels/staffpicks",
+    },
+    dailymotion: {
+      text: t("admin.sources.feed.dailymotionHelp", "A Dailymotion channel URL."),
+      placeholder: "https://www.dailymotion.com/username",
+    },
+    rss: {
+      text: t(
+        "admin.sources.feed.rssHelp",
+        "Any RSS, Atom or Media RSS feed. Items without a video file or player are skipped.",
+      ),
+      placeholder: "https://example.com/videos/feed.xml",
+    },
+  };
+
+  const addMutation = useMutation({
+    mutationFn: async (channelUrl: string): Promise<Channel> => {
+      const res = await apiRequest("POST", "/api/admin/sources/channels", { platform, url: channelUrl });
+      return res.json();
+    },
+    onSuccess: (channel) => {
+      toast({
+        title: t("admin.sources.feed.added", "Channel added"),
+        description: t("admin.sources.feed.addedDesc", "{{name}} will be scraped on the next run.", { name: channel.name }),
+      });
+      setUrl("");
+      queryClient.invalidateQueries({ queryKey: ["/api/channels"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/sources/stats"] });
+    },
+    onError: (err: Error) => {
+      toast({
+        title: t("admin.sources.feed.addFailed", "Could not add channel"),
+        description: err?.message ?? "",
+        variant: "destructive",
+      });
+    },
+  });
+
   return (
-    <Card className="mt-4 py-16 text-center">
-      <Icon className="w-10 h-10 mx-auto text-muted-foreground mb-3" />
-      <Metric>{cfg.label}</Metric>
-      <Text className="mt-2 text-muted-foreground">
-        {t(
-          "admin.sources.comingSoon",
-          "Support for this source is reserved in the data model and ships in a follow-up release.",
-        )}
-      </Text>
-    </Card>
+    <>
+      <Card className="mt-4 space-y-4">
+        <div>
+          <Flex justifyContent="start" className="space-x-2 mb-2">
+            <Icon className="w-5 h-5 text-muted-foreground" />
+            <Text className="font-medium">
+              {t("admin.sources.feed.title", "Add a {{platform}} source", { platform: cfg.label })}
+            </Text>
+          </Flex>
+          <Text className="text-sm text-muted-foreground">{help[platform].text}</Text>
+        </div>
+        <form
+          className="flex space-x-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (url.trim()) addMutation.mutate(url.trim());
+          }}
+        >
+          <Input
+            placeholder={help[platform].placeholder}
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            aria-label={t("admin.sources.url", "URL")}
+            data-testid={`input-source-url-${platform}`}
+          />
+          <Button type="submit" disabled={!url.trim() || addMutation.isPending} data-testid={`button-add-source-${platform}`}>
+            {addMutation.isPending ? <Loader2 className="w-4 h-4 animate-spin mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+            {t("admin.sources.feed.add", "Add")}
+          </Button>
+        </form>
+      </Card>
+      <PlatformChannels platform={platform} />
+    </>
   );
 }
@@ -69,6 +69,8 @@ import {
   Shield
 } from "lucide-react";
 import { Label } from "@/components/ui/label";
+import { EmailDeliveryPanel } from "@/components/EmailDeliveryPanel";
+import { OidcProvidersPanel } from "@/components/OidcProvidersPanel";
 
 export default function AdminSystemSettings() {
   const { t } = useTranslation();
@@ -120,6 +122,7 @@ export default function AdminSystemSettings() {
       gtmId: "",
       ga4Id: "",
       youtubeApiKey: "",
+      youtubeQuotaDailyLimit: 10000,
       customHeadCode: "",
       customBodyStartCode: "",
       customBodyEndCode: "",
@@ -145,6 +148,7 @@ export default function AdminSystemSettings() {
         gtmId: settings.gtmId || "",
         ga4Id: settings.ga4Id || "",
         youtubeApiKey: settings.youtubeApiKey || "",
+        youtubeQuotaDailyLimit: settings.youtubeQuotaDailyLimit ?? 10000,
         customHeadCode: settings.customHeadCode || "",
         customBodyStartCode: settings.customBodyStartCode || "",
         customBodyEndCode: settings.customBodyEndCode || "",
@@ -201,6 +205,9 @@ export default function AdminSystemSettings() {
       imapPassword: "",
       imapSecure: 1,
       imapMailbox: "INBOX",
+      notificationRecipients: "",
+      notificationLocale: "en",
+      errorAlertThreshold: 25,
     },
   });
 
@@ -221,6 +228,9 @@ export default function AdminSystemSettings() {
         imapPassword: (emailSettings.imapPassword as any) || "",
         imapSecure: emailSettings.imapSecure ?? 1,
         imapMailbox: emailSettings.imapMailbox || "INBOX",
+        notificationRecipients: emailSettings.notificationRecipients || "",
+        notificationLocale: emailSettings.notificationLocale || "en",
+        errorAlertThreshold: emailSettings.errorAlertThreshold ?? 25,
       });
     }
   }, [emailSettings, emailForm]);
@@ -575,7 +585,29 @@ export default function AdminSystemSettings() {
                                 <Input type="password" placeholder="AIzaSy..." {...field} />
                               </FormControl>
                               <FormDescription>
-                                Used for channel enrichment to fetch descriptions, banners, etc. when scraping fails or provides partial data. Get one from Google Cloud Console.
+                                When set, YouTube channels are listed through the official API (uploads, durations, statistics, tags and branding) instead of HTML scraping. Get one from Google Cloud Console.
+                              </FormDescription>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                        <FormField
+                          control={form.control}
+                          name="youtubeQuotaDailyLimit"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>YouTube API Daily Quota</FormLabel>
+                              <FormControl>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  step="100"
+                                  {...field}
+                                  onChange={(e) => field.onChange(parseInt(e.target.value))}
+                                />
+                              </FormControl>
+                              <FormDescription>
+                                Units per day (reset at midnight Pacific). Once used up, channels fall back to HTML scraping until the next day.
                               </FormDescription>
                               <FormMessage />
                             </FormItem>
@@ -588,6 +620,9 @@ export default function AdminSystemSettings() {
                     </Card>
                   </form>
                 </Form>
+                <div className="mt-6">
+                  <OidcProvidersPanel />
+                </div>
               </TabsContent>
 
               {/* --- PWA Tab --- */}
@@ -904,6 +939,72 @@ export default function AdminSystemSettings() {
                                 )}
                               />
                             </div>
+
+                            <FormField
+                              control={emailForm.control}
+                              name="notificationRecipients"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>{t("admin.notificationRecipients", "Notification Recipients")}</FormLabel>
+                                  <FormControl>
+                                    <Input placeholder="admin@example.com, editor@example.com" {...field} />
+                                  </FormControl>
+                                  <FormDescription>
+                                    {t("admin.notificationRecipientsDesc", "Comma-separated addresses that receive recommendation, suggestion, failed job and error alerts")}
+                                  </FormDescription>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
+
+                            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                              <FormField
+                                control={emailForm.control}
+                                name="notificationLocale"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>{t("admin.notificationLocale", "Notification Language")}</FormLabel>
+                                    <Select value={field.value} onValueChange={field.onChange}>
+                                      <FormControl>
+                                        <SelectTrigger>
+                                          <SelectValue />
+                                        </SelectTrigger>
+                                      </FormControl>
+                                      <SelectContent>
+                                        <SelectItem value="en">English</SelectItem>
+                                        <SelectItem value="sr-Latn">Srpski</SelectItem>
+                                      </SelectContent>
+                                    </Select>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                              <FormField
+                                control={emailForm.control}
+                                name="errorAlertThreshold"
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormLabel>{t("admin.errorAlertThreshold", "Error Alert Threshold")}</FormLabel>
+                                    <FormControl>
+                                      <Input
+                                        type="number"
+                                        min={1}
+                                        value={field.value ?? ""}
+                                        onChange={(e) =>
+                                          field.onChange(
+                                            e.target.value ? Number(e.target.value) : undefined,
+                                          )
+                                        }
+                                      />
+                                    </FormControl>
+                                    <FormDescription>
+                                      {t("admin.errorAlertThresholdDesc", "Send an alert when the same error has occurred this many times")}
+                                    </FormDescription>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            </div>
                           </div>
                         ) : (
                           <div className="space-y-4">
@@ -1022,6 +1123,12 @@ export default function AdminSystemSettings() {
                     </div>
                   </form>
                 </Form>
+
+                {emailForm.watch("mode") === "smtp" && (
+                  <div className="mt-6">
+                    <EmailDeliveryPanel />
+                  </div>
+                )}
               </TabsContent>
 
               {/* --- Analytics & GTM Tab --- */}
@@ -0,0 +1,294 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { GitMerge, RefreshCw, Check, X, ArrowRight } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+
+interface TagInfo {
+  name: string;
+  names: Record<string, string>;
+  videoCount: number;
+  exists: boolean;
+}
+
+interface TagMergeProposal {
+  id: string;
+  targetName: string;
+  sourceNames: string[];
+  reason: "same_name" | "translation" | "similar";
+  score: number;
+  videoCount: number;
+  status: "pending" | "applied" | "dismissed";
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+interface TagMergeQueue {
+  pending: (TagMergeProposal & { target: TagInfo; sources: TagInfo[] })[];
+  resolved: TagMergeProposal[];
+  tagCount: number;
+}
+
+const QUEUE_KEY = ["/api/admin/tag-merges"];
+
+function TagNames({ tag }: { tag: TagInfo }) {
+  const others = Object.entries(tag.names).filter(([code]) => code !== "en");
+  if (others.length === 0) return null;
+  return (
+    <p className="text-xs text-muted-foreground">
+      {others.map(([code, name]) => `${code}: ${name}`).join(" · ")}
+    </p>
+  );
+}
+
+export default function AdminTagMerges() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  // Source names unticked per proposal; everything is merged by default
+  const [excluded, setExcluded] = useState<Record<string, string[]>>({});
+
+  const { data, isLoading } = useQuery<TagMergeQueue>({
+    queryKey: QUEUE_KEY,
+  });
+
+  const reasonLabel = (reason: TagMergeProposal["reason"]) =>
+    t(`admin.tagMerges.reasons.${reason}`, {
+      defaultValue: {
+        same_name: "Same name",
+        translation: "Translation",
+        similar: "Similar spelling",
+      }[reason],
+    });
+
+  const scanMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/admin/tag-merges/scan");
+      return (await res.json()) as { proposed: number };
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: QUEUE_KEY });
+      toast({
+        title: t("admin.tagMerges.scanned", { count: result.proposed, defaultValue: "{{count}} merges proposed" }),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("admin.tagMerges.scanFailed", "Could not scan tags"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: async ({ id, sourceNames }: { id: string; sourceNames: string[] }) => {
+      const res = await apiRequest("POST", `/api/admin/tag-merges/${id}/apply`, { sourceNames });
+      return (await res.json()) as { result: { videosRetagged: number; redirects: number } };
+    },
+    onSuccess: ({ result }) => {
+      queryClient.invalidateQueries({ queryKey: QUEUE_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/tags"] });
+      toast({
+        title: t("admin.tagMerges.applied", "Tags merged"),
+        description: t("admin.tagMerges.appliedDetails", {
+          videos: result.videosRetagged,
+          redirects: result.redirects,
+          defaultValue: "{{videos}} videos retagged, {{redirects}} redirects added",
+        }),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("admin.tagMerges.applyFailed", "Failed to merge tags"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/admin/tag-merges/${id}/dismiss`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: QUEUE_KEY });
+    },
+    onError: () => {
+      toast({ title: t("admin.tagMerges.dismissFailed", "Failed to dismiss merge"), variant: "destructive" });
+    },
+  });
+
+  const toggleSource = (id: string, name: string, checked: boolean) =>
+    setExcluded((current) => {
+      const names = current[id] ?? [];
+      return { ...current, [id]: checked ? names.filter((n) => n !== name) : [...names, name] };
+    });
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <GitMerge className="h-8 w-8" />
+            {t("admin.tagMerges.title", "Tag Merges")}
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {t(
+              "admin.tagMerges.description",
+              "Near-duplicate tags, such as plurals, spelling variants and translations. Merging retags their videos and redirects the old tag pages.",
+            )}
+          </p>
+        </div>
+        <Button variant="outline" onClick={() => scanMutation.mutate()} disabled={scanMutation.isPending}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${scanMutation.isPending ? "animate-spin" : ""}`} />
+          {t("admin.tagMerges.scan", "Scan tags")}
+        </Button>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("admin.tagMerges.pending", "Proposed merges")}</CardTitle>
+          {data && (
+            <CardDescription>
+              {t("admin.tagMerges.summary", {
+                proposals: data.pending.length,
+                tags: data.tagCount,
+                defaultValue: "{{proposals}} proposals across {{tags}} tags",
+              })}
+            </CardDescription>
+          )}
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="text-center py-8">{t("common.loading", "Loading...")}</div>
+          ) : data?.pending.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              {t("admin.tagMerges.empty", "No near-duplicate tags. Scan again after new videos are categorized.")}
+            </div>
+          ) : (
+            data?.pending.map((proposal) => {
+              const chosen = proposal.sources.filter(
+                (source) => source.exists && !(excluded[proposal.id] ?? []).includes(source.name),
+              );
+              return (
+                <div
+                  key={proposal.id}
+                  className="rounded-lg border p-4 space-y-3"
+                  data-testid={`tag-merge-${proposal.id}`}
+                >
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Badge variant="secondary">{reasonLabel(proposal.reason)}</Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {t("admin.tagMerges.score", {
+                        score: Math.round(proposal.score * 100),
+                        defaultValue: "{{score}}% match",
+                      })}
+                    </span>
+                  </div>
+                  <div className="grid gap-4 md:grid-cols-[1fr_auto_1fr] md:items-center">
+                    <div className="space-y-2">
+                      {proposal.sources.map((source) => (
+                        <label key={source.name} className="flex items-start gap-2">
+                          <Checkbox
+                            checked={chosen.includes(source)}
+                            disabled={!source.exists}
+                            onCheckedChange={(checked) => toggleSource(proposal.id, source.name, checked === true)}
+                          />
+                          <div>
+                            <p className={`font-medium ${source.exists ? "" : "line-through text-muted-foreground"}`}>
+                              {source.name}{" "}
+                              <span className="text-xs text-muted-foreground">
+                                {t("admin.tagMerges.videos", { count: source.videoCount, defaultValue: "{{count}} videos" })}
+                              </span>
+                            </p>
+                            <TagNames tag={source} />
+                          </div>
+                        </label>
+                      ))}
+                    </div>
+                    <ArrowRight className="h-5 w-5 text-muted-foreground hidden md:block" />
+                    <div>
+                      <p className="font-medium">
+                        {proposal.target.name}{" "}
+                        <span className="text-xs text-muted-foreground">
+                          {t("admin.tagMerges.videos", {
+                            count: proposal.target.videoCount,
+                            defaultValue: "{{count}} videos",
+                          })}
+                        </span>
+                      </p>
+                      <TagNames tag={proposal.target} />
+                    </div>
+                  </div>
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => dismissMutation.mutate(proposal.id)}
+                      disabled={dismissMutation.isPending}
+                      data-testid={`button-dismiss-${proposal.id}`}
+                    >
+                      <X className="h-4 w-4 mr-1" />
+                      {t("admin.tagMerges.dismiss", "Not duplicates")}
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() =>
+                        applyMutation.mutate({ id: proposal.id, sourceNames: chosen.map((source) => source.name) })
+                      }
+                      disabled={applyMutation.isPending || !proposal.target.exists || chosen.length === 0}
+                      data-testid={`button-apply-${proposal.id}`}
+                    >
+                      <Check className="h-4 w-4 mr-1" />
+                      {t("admin.tagMerges.apply", { target: proposal.target.name, defaultValue: "Merge into {{target}}" })}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </CardContent>
+      </Card>
+
+      {data && data.resolved.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>{t("admin.tagMerges.history", "Recently reviewed")}</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {data.resolved.map((proposal) => (
+              <div key={proposal.id} className="flex flex-wrap items-center gap-2 text-sm">
+                <Badge variant={proposal.status === "applied" ? "default" : "outline"}>
+                  {proposal.status === "applied"
+                    ? t("admin.tagMerges.statusApplied", "Merged")
+                    : t("admin.tagMerges.statusDismissed", "Dismissed")}
+                </Badge>
+                <span>
+                  {proposal.sourceNames.join(", ")} → {proposal.targetName}
+                </span>
+                {proposal.resolvedAt && (
+                  <span className="text-xs text-muted-foreground">
+                    {formatDistanceToNow(new Date(proposal.resolvedAt), { addSuffix: true })}
+                  </span>
+                )}
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
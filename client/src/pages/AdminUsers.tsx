@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useTranslation } from "react-i18next";
 import {
@@ -24,19 +24,27 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
-import { Users, Trash2, Shield, ShieldAlert } from "lucide-react";
+import { PERMISSION_LABELS, ROLE_LABELS } from "@/lib/adminPermissions";
+import { USER_ROLES, type Permission, type UserRole } from "@shared/schema";
+import { Users, Trash2, Shield, ShieldAlert, KeyRound, RotateCcw } from "lucide-react";
 import { format } from "date-fns";
 
 interface User {
   id: string;
   username: string;
   email: string | null;
-  role: "admin" | "user";
+  role: UserRole;
   createdAt: string;
 }
 
+interface RolesResponse {
+  permissions: Permission[];
+  roles: { role: UserRole; permissions: Permission[]; defaults: Permission[]; editable: boolean }[];
+}
+
 export default function AdminUsers() {
   const { t } = useTranslation();
   const { toast } = useToast();
@@ -47,15 +55,20 @@ export default function AdminUsers() {
   });
 
   const updateRoleMutation = useMutation({
-    mutationFn: async ({ id, role }: { id: string; role: "admin" | "user" }) => {
+    mutationFn: async ({ id, role }: { id: string; role: UserRole }) => {
       await apiRequest("PATCH", `/api/users/${id}/role`, { role });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/users"] });
       toast({ title: t("admin.userRoleUpdated", "User role updated") });
     },
-    onError: () => {
-      toast({ title: t("admin.failedToUpdateRole", "Failed to update role"), variant: "destructive" });
+    onError: (error: Error) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      toast({
+        title: t("admin.failedToUpdateRole", "Failed to update role"),
+        description: error.message,
+        variant: "destructive",
+      });
     },
   });
 
@@ -125,17 +138,20 @@ export default function AdminUsers() {
                           <TableCell>{user.email || "-"}</TableCell>
                           <TableCell>
                             <Select
-                              defaultValue={user.role}
-                              onValueChange={(value: "admin" | "user") => 
+                              value={user.role}
+                              onValueChange={(value: UserRole) =>
                                 updateRoleMutation.mutate({ id: user.id, role: value })
                               }
                             >
-                              <SelectTrigger className="w-[100px]">
+                              <SelectTrigger className="w-[140px]" data-testid={`select-role-${user.id}`}>
                                 <SelectValue />
                               </SelectTrigger>
                               <SelectContent>
-                                <SelectItem value="user">{t("admin.user", "User")}</SelectItem>
-                                <SelectItem value="admin">{t("admin.admin", "Admin")}</SelectItem>
+                                {USER_ROLES.map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {t(`admin.roles.${role}`, ROLE_LABELS[role])}
+                                  </SelectItem>
+                                ))}
                               </SelectContent>
                             </Select>
                           </TableCell>
@@ -170,6 +186,146 @@ export default function AdminUsers() {
                 )}
               </CardContent>
             </Card>
+
+      <RolePermissionsEditor />
     </div>
   );
+}
+
+/** Grid of permissions by role; the admin column is fixed. */
+function RolePermissionsEditor() {
+  const { t } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [drafts, setDrafts] = useState<Partial<Record<UserRole, Permission[]>>>({});
+
+  const { data, isLoading } = useQuery<RolesResponse>({
+    queryKey: ["/api/users/roles"],
+  });
+
+  useEffect(() => {
+    setDrafts({});
+  }, [data]);
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ role, permissions }: { role: UserRole; permissions: Permission[] }) => {
+      await apiRequest("PUT", `/api/users/roles/${role}`, { permissions });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/users/roles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/session"] });
+      toast({ title: t("admin.rolePermissionsSaved", "Role permissions saved") });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: t("admin.failedToSaveRolePermissions", "Failed to save role permissions"),
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const current = (role: RolesResponse["roles"][number]) => drafts[role.role] ?? role.permissions;
+  const isDirty = (role: RolesResponse["roles"][number]) => {
+    const draft = drafts[role.role];
+    return !!draft && (draft.length !== role.permissions.length || draft.some((p) => !role.permissions.includes(p)));
+  };
+
+  const toggle = (role: RolesResponse["roles"][number], permission: Permission, checked: boolean) => {
+    const permissions = current(role);
+    setDrafts((prev) => ({
+      ...prev,
+      [role.role]: checked ? [...permissions, permission] : permissions.filter((p) => p !== permission),
+    }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          {t("admin.rolesAndPermissions", "Roles & permissions")}
+        </CardTitle>
+        <CardDescription>
+          {t(
+            "admin.rolesAndPermissionsDesc",
+            "Choose what each role may do in the admin panel. Changes apply on the user's next request.",
+          )}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading || !data ? (
+          <div className="text-center py-8">{t("common.loading", "Loading...")}</div>
+        ) : (
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("admin.permission", "Permission")}</TableHead>
+                  {data.roles.map((role) => (
+                    <TableHead key={role.role} className="text-center">
+                      {t(`admin.roles.${role.role}`, ROLE_LABELS[role.role])}
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {data.permissions.map((permission) => (
+                  <TableRow key={permission}>
+                    <TableCell>
+                      <div className="font-medium">
+                        {t(`admin.permissions.${permission}.label`, PERMISSION_LABELS[permission].label)}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {t(`admin.permissions.${permission}.description`, PERMISSION_LABELS[permission].description)}
+                      </div>
+                    </TableCell>
+                    {data.roles.map((role) => (
+                      <TableCell key={role.role} className="text-center">
+                        <Checkbox
+                          checked={current(role).includes(permission)}
+                          disabled={!role.editable}
+                          onCheckedChange={(checked) => toggle(role, permission, checked === true)}
+                          aria-label={`${ROLE_LABELS[role.role]}: ${PERMISSION_LABELS[permission].label}`}
+                          data-testid={`checkbox-${role.role}-${permission}`}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell />
+                  {data.roles.map((role) => (
+                    <TableCell key={role.role} className="text-center">
+                      {role.editable && (
+                        <div className="flex flex-col items-center gap-1">
+                          <Button
+                            size="sm"
+                            disabled={!isDirty(role) || saveMutation.isPending}
+                            onClick={() => saveMutation.mutate({ role: role.role, permissions: current(role) })}
+                            data-testid={`button-save-role-${role.role}`}
+                          >
+                            {t("common.save", "Save")}
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={saveMutation.isPending}
+                            onClick={() => setDrafts((prev) => ({ ...prev, [role.role]: role.defaults }))}
+                            title={t("admin.resetRoleDefaults", "Reset to defaults")}
+                          >
+                            <RotateCcw className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      )}
+                    </TableCell>
+                  ))}
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
 }
\ No newline at end of file
@@ -5,7 +5,10 @@ import { AdminSidebar } from "@/components/AdminSidebar";
 import { VideoManagement } from "@/components/VideoManagement";
 import { VideoDetailModal } from "@/components/VideoDetailModal";
 import { EditVideoDialog } from "@/components/EditVideoDialog";
+import { ModerationQueue } from "@/components/ModerationQueue";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/usePermissions";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useTranslation } from "react-i18next";
 import type {
@@ -18,6 +21,9 @@ import type {
 export default function AdminVideos() {
   const { t } = useTranslation();
   const { toast } = useToast();
+  const { can } = usePermissions();
+  const canManage = can("videos.manage");
+  const canModerate = can("videos.moderate");
   const [selectedVideo, setSelectedVideo] = useState<VideoWithRelations | null>(
     null,
   );
@@ -191,6 +197,14 @@ export default function AdminVideos() {
       queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
       setSelectedVideoIds([]);
+      if (data.paused) {
+        toast({
+          title: t("admin.aiBudgetReached", "AI budget reached"),
+          description: data.errors?.[0],
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: t("admin.bulkCategorizationComplete", "Bulk categorization complete"),
         description: t("admin.bulkCategorizationDesc", { successful: data.successful, total: data.total, failed: data.failed, defaultValue: "Successfully categorized {{successful}} of {{total}} videos. Failed: {{failed}}" }),
@@ -260,6 +274,14 @@ export default function AdminVideos() {
     onSuccess: (data: any) => {
       queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
       queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+      if (data.paused) {
+        toast({
+          title: t("admin.aiBudgetReached", "AI budget reached"),
+          description: data.errors?.[0],
+          variant: "destructive",
+        });
+        return;
+      }
       toast({
         title: t("admin.categorizationComplete", "AI Categorization complete"),
         description: t("admin.categorizeMissingDesc", { successful: data.successful, total: data.total, failed: data.failed, defaultValue: "Categorized {{successful}} of {{total}} missing videos. Failed: {{failed}}" }),
@@ -313,68 +335,87 @@ export default function AdminVideos() {
   };
 
   return (
-    <>
-      <VideoManagement
-        videos={videos}
-        channels={channels}
-        categories={categories}
-        playlists={playlists}
-        selectedVideoIds={selectedVideoIds}
-        selectedChannelId={channelFilter}
-        selectedCategoryId={categoryFilter}
-        page={page}
-        pageSize={pageSize}
-        hasNextPage={hasNextPage}
-        isLoading={videosLoading || videosFetching}
-        onView={setSelectedVideo}
-        onEdit={setEditingVideo}
-        onCategorize={(id) => categorizeVideoMutation.mutate(id)}
-        onDelete={(id) => deleteVideoMutation.mutate(id)}
-        onAddToPlaylist={(videoId, playlistId) =>
-          addToPlaylistMutation.mutate({ videoId, playlistId })
-        }
-        onToggleSelect={handleToggleSelect}
-        onSelectAll={handleSelectAll}
-        onDeselectAll={handleDeselectAll}
-        onBulkCategorize={handleBulkCategorize}
-        onBulkTag={handleBulkTag}
-        onBulkDelete={handleBulkDelete}
-        onCategorizeMissing={() => categorizeMissingMutation.mutate()}
-        onChannelFilterChange={setChannelFilter}
-        onCategoryFilterChange={setCategoryFilter}
-        onPageChange={setPage}
-        onPageSizeChange={setPageSize}
-        processingVideoIds={processingVideoIds}
-        isBulkProcessing={
-          bulkCategorizeMutation.isPending ||
-          bulkTagMutation.isPending ||
-          bulkDeleteMutation.isPending
-        }
-        isCategorizeMissingProcessing={categorizeMissingMutation.isPending}
-      />
+    <Tabs defaultValue={canManage ? "videos" : "moderation"} className="w-full">
+      <TabsList>
+        {canManage && (
+          <TabsTrigger value="videos" data-testid="tab-videos">
+            {t("admin.videos", "Videos")}
+          </TabsTrigger>
+        )}
+        {canModerate && (
+          <TabsTrigger value="moderation" data-testid="tab-moderation">
+            {t("admin.moderation.tab", "Moderation")}
+          </TabsTrigger>
+        )}
+      </TabsList>
 
-      <VideoDetailModal
-        video={selectedVideo}
-        open={!!selectedVideo}
-        onClose={() => setSelectedVideo(null)}
-        onCategorize={(id) => categorizeVideoMutation.mutate(id)}
-        similarVideos={videos
-          .filter((v) => v.id !== selectedVideo?.id)
-          .slice(0, 4)}
-      />
+      <TabsContent value="moderation" className="mt-4">
+        <ModerationQueue />
+      </TabsContent>
 
-      <EditVideoDialog
-        video={editingVideo as any}
-        categories={categories as any}
-        open={!!editingVideo}
-        onClose={() => setEditingVideo(null)}
-        onSave={(data) => {
-          if (editingVideo) {
-            editVideoMutation.mutate({ id: editingVideo.id, data });
+      <TabsContent value="videos" className="mt-4">
+        <VideoManagement
+          videos={videos}
+          channels={channels}
+          categories={categories}
+          playlists={playlists}
+          selectedVideoIds={selectedVideoIds}
+          selectedChannelId={channelFilter}
+          selectedCategoryId={categoryFilter}
+          page={page}
+          pageSize={pageSize}
+          hasNextPage={hasNextPage}
+          isLoading={videosLoading || videosFetching}
+          onView={setSelectedVideo}
+          onEdit={setEditingVideo}
+          onCategorize={(id) => categorizeVideoMutation.mutate(id)}
+          onDelete={(id) => deleteVideoMutation.mutate(id)}
+          onAddToPlaylist={(videoId, playlistId) =>
+            addToPlaylistMutation.mutate({ videoId, playlistId })
           }
-        }}
-        isSaving={editVideoMutation.isPending}
-      />
-    </>
+          onToggleSelect={handleToggleSelect}
+          onSelectAll={handleSelectAll}
+          onDeselectAll={handleDeselectAll}
+          onBulkCategorize={handleBulkCategorize}
+          onBulkTag={handleBulkTag}
+          onBulkDelete={handleBulkDelete}
+          onCategorizeMissing={() => categorizeMissingMutation.mutate()}
+          onChannelFilterChange={setChannelFilter}
+          onCategoryFilterChange={setCategoryFilter}
+          onPageChange={setPage}
+          onPageSizeChange={setPageSize}
+          processingVideoIds={processingVideoIds}
+          isBulkProcessing={
+            bulkCategorizeMutation.isPending ||
+            bulkTagMutation.isPending ||
+            bulkDeleteMutation.isPending
+          }
+          isCategorizeMissingProcessing={categorizeMissingMutation.isPending}
+        />
+
+        <VideoDetailModal
+          video={selectedVideo}
+          open={!!selectedVideo}
+          onClose={() => setSelectedVideo(null)}
+          onCategorize={(id) => categorizeVideoMutation.mutate(id)}
+          similarVideos={videos
+            .filter((v) => v.id !== selectedVideo?.id)
+            .slice(0, 4)}
+        />
+
+        <EditVideoDialog
+          video={editingVideo}
+          categories={categories}
+          open={!!editingVideo}
+          onClose={() => setEditingVideo(null)}
+          onSave={(data) => {
+            if (editingVideo) {
+              editVideoMutation.mutate({ id: editingVideo.id, data });
+            }
+          }}
+          isSaving={editVideoMutation.isPending}
+        />
+      </TabsContent>
+    </Tabs>
   );
 }
@@ -0,0 +1,502 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { formatDistanceToNow } from "date-fns";
+import { enUS, srLatn } from "date-fns/locale";
+import {
+  Webhook,
+  Plus,
+  Pencil,
+  Trash2,
+  KeyRound,
+  Copy,
+  RotateCcw,
+  CheckCircle2,
+  XCircle,
+  Clock,
+  Loader2,
+} from "lucide-react";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { WEBHOOK_EVENTS, type WebhookDelivery, type WebhookEvent, type WebhookSubscription } from "@shared/schema";
+
+type DeliveryRow = WebhookDelivery & { subscriptionName: string | null };
+
+type SubscriptionForm = { name: string; url: string; events: WebhookEvent[]; enabled: boolean };
+
+const SUBSCRIPTIONS_KEY = ["/api/admin/webhooks/subscriptions"];
+const ALL = "all";
+
+const EMPTY_FORM: SubscriptionForm = { name: "", url: "", events: ["video.created"], enabled: true };
+
+function StatusBadge({ status }: { status: string }) {
+  const { t } = useTranslation();
+  switch (status) {
+    case "delivered":
+      return <Badge variant="outline" className="text-green-500 border-green-500/50"><CheckCircle2 className="h-3 w-3 mr-1" />{t("admin.webhooks.statusDelivered", "Delivered")}</Badge>;
+    case "dead":
+      return <Badge variant="outline" className="text-red-500 border-red-500/50"><XCircle className="h-3 w-3 mr-1" />{t("admin.webhooks.statusDead", "Dead")}</Badge>;
+    case "sending":
+      return <Badge variant="outline" className="text-blue-500 border-blue-500/50"><Loader2 className="h-3 w-3 mr-1 animate-spin" />{t("admin.webhooks.statusSending", "Sending")}</Badge>;
+    default:
+      return <Badge variant="outline" className="text-yellow-500 border-yellow-500/50"><Clock className="h-3 w-3 mr-1" />{t("admin.webhooks.statusPending", "Retrying")}</Badge>;
+  }
+}
+
+export default function AdminWebhooks() {
+  const { t, i18n } = useTranslation();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const dateLocale = i18n.language === "sr-Latn" ? srLatn : enUS;
+
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<WebhookSubscription | null>(null);
+  const [form, setForm] = useState<SubscriptionForm>(EMPTY_FORM);
+  const [secret, setSecret] = useState<string | null>(null);
+  const [subscriptionFilter, setSubscriptionFilter] = useState(ALL);
+  const [statusFilter, setStatusFilter] = useState(ALL);
+  const [payload, setPayload] = useState<DeliveryRow | null>(null);
+
+  const deliveriesQuery = new URLSearchParams({ limit: "100" });
+  if (subscriptionFilter !== ALL) deliveriesQuery.set("subscriptionId", subscriptionFilter);
+  if (statusFilter !== ALL) deliveriesQuery.set("status", statusFilter);
+  const deliveriesUrl = `/api/admin/webhooks/deliveries?${deliveriesQuery}`;
+
+  const { data: subscriptions = [], isLoading } = useQuery<WebhookSubscription[]>({
+    queryKey: SUBSCRIPTIONS_KEY,
+  });
+
+  const { data: deliveries = [] } = useQuery<DeliveryRow[]>({
+    queryKey: ["/api/admin/webhooks/deliveries", subscriptionFilter, statusFilter],
+    queryFn: async () => {
+      const res = await apiRequest("GET", deliveriesUrl);
+      return res.json();
+    },
+    refetchInterval: 15000,
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: t("common.error", "Error"), description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const res = editing
+        ? await apiRequest("PATCH", `/api/admin/webhooks/subscriptions/${editing.id}`, form)
+        : await apiRequest("POST", "/api/admin/webhooks/subscriptions", form);
+      return res.json() as Promise<WebhookSubscription>;
+    },
+    onSuccess: (saved) => {
+      queryClient.invalidateQueries({ queryKey: SUBSCRIPTIONS_KEY });
+      if (!editing) setSecret(saved.secret);
+      setDialogOpen(false);
+      toast({ title: t("admin.webhooks.saved", "Webhook saved") });
+    },
+    onError,
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, enabled }: { id: string; enabled: boolean }) => {
+      await apiRequest("PATCH", `/api/admin/webhooks/subscriptions/${id}`, { enabled });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SUBSCRIPTIONS_KEY }),
+    onError,
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const res = await apiRequest("POST", `/api/admin/webhooks/subscriptions/${id}/rotate-secret`);
+      return res.json() as Promise<WebhookSubscription>;
+    },
+    onSuccess: (rotated) => setSecret(rotated.secret),
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/admin/webhooks/subscriptions/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: SUBSCRIPTIONS_KEY });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks/deliveries"] });
+      toast({ title: t("admin.webhooks.deleted", "Webhook deleted") });
+    },
+    onError,
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("POST", `/api/admin/webhooks/deliveries/${id}/replay`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/webhooks/deliveries"] });
+      toast({ title: t("admin.webhooks.replayed", "Delivery queued again") });
+    },
+    onError,
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setForm(EMPTY_FORM);
+    setDialogOpen(true);
+  };
+
+  const openEdit = (subscription: WebhookSubscription) => {
+    setEditing(subscription);
+    setForm({
+      name: subscription.name,
+      url: subscription.url,
+      events: subscription.events,
+      enabled: subscription.enabled,
+    });
+    setDialogOpen(true);
+  };
+
+  const toggleEvent = (event: WebhookEvent, checked: boolean) => {
+    setForm((current) => ({
+      ...current,
+      events: checked ? [...current.events, event] : current.events.filter((e) => e !== event),
+    }));
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Webhook className="h-8 w-8" />
+            {t("admin.webhooks.title", "Webhooks")}
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            {t(
+              "admin.webhooks.description",
+              "Send signed event payloads to bots and other services when content or jobs change.",
+            )}
+          </p>
+        </div>
+        <Button onClick={openCreate} data-testid="button-add-webhook">
+          <Plus className="h-4 w-4 mr-2" />
+          {t("admin.webhooks.add", "Add webhook")}
+        </Button>
+      </div>
+
+      {secret && (
+        <Alert>
+          <KeyRound className="h-4 w-4" />
+          <AlertTitle>{t("admin.webhooks.secretTitle", "Copy the signing secret now")}</AlertTitle>
+          <AlertDescription className="space-y-2">
+            <p>
+              {t(
+                "admin.webhooks.secretDesc",
+                "It won't be shown again. Each request carries X-Nisam-Signature: sha256=HMAC(secret, timestamp + \".\" + body).",
+              )}
+            </p>
+            <div className="flex gap-2">
+              <Input readOnly value={secret} className="font-mono text-xs" data-testid="webhook-secret" />
+              <Button type="button" variant="outline" size="icon" onClick={() => navigator.clipboard.writeText(secret)}>
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+            <Button type="button" variant="ghost" size="sm" onClick={() => setSecret(null)}>
+              {t("admin.webhooks.secretDone", "Done")}
+            </Button>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t("admin.webhooks.subscriptions", "Subscriptions")}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-center py-8">{t("common.loading", "Loading...")}</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t("admin.webhooks.name", "Name")}</TableHead>
+                  <TableHead>{t("admin.webhooks.events", "Events")}</TableHead>
+                  <TableHead>{t("admin.enabled", "Enabled")}</TableHead>
+                  <TableHead className="text-right">{t("common.actions", "Actions")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {subscriptions.map((subscription) => (
+                  <TableRow key={subscription.id} data-testid={`row-webhook-${subscription.id}`}>
+                    <TableCell>
+                      <p className="font-medium">{subscription.name}</p>
+                      <p className="text-xs text-muted-foreground break-all">{subscription.url}</p>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {subscription.events.map((event) => (
+                          <Badge key={event} variant="secondary" className="font-mono text-xs">{event}</Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={subscription.enabled}
+                        onCheckedChange={(enabled) => toggleMutation.mutate({ id: subscription.id, enabled })}
+                      />
+                    </TableCell>
+                    <TableCell className="text-right space-x-1 whitespace-nowrap">
+                      <Button variant="ghost" size="icon" title={t("common.edit", "Edit")} onClick={() => openEdit(subscription)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={t("admin.webhooks.rotateSecret", "New signing secret")}
+                        onClick={() => {
+                          if (confirm(t("admin.webhooks.rotateConfirm", "Replace the signing secret? The receiver must be updated with the new one."))) {
+                            rotateMutation.mutate(subscription.id);
+                          }
+                        }}
+                      >
+                        <KeyRound className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title={t("common.delete", "Delete")}
+                        className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                        onClick={() => {
+                          if (confirm(t("admin.webhooks.deleteConfirm", { name: subscription.name, defaultValue: "Delete \"{{name}}\" and its delivery log?" }))) {
+                            deleteMutation.mutate(subscription.id);
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+                {subscriptions.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={4} className="text-center py-8 text-muted-foreground">
+                      {t("admin.webhooks.empty", "No webhooks yet.")}
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-4">
+          <div className="space-y-1.5">
+            <CardTitle>{t("admin.webhooks.deliveries", "Delivery log")}</CardTitle>
+            <CardDescription>
+              {t(
+                "admin.webhooks.deliveriesDesc",
+                "Failed deliveries are retried with exponential backoff; after the last attempt they are dead until replayed.",
+              )}
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Select value={subscriptionFilter} onValueChange={setSubscriptionFilter}>
+              <SelectTrigger className="w-[180px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t("admin.webhooks.allSubscriptions", "All webhooks")}</SelectItem>
+                {subscriptions.map((subscription) => (
+                  <SelectItem key={subscription.id} value={subscription.id}>{subscription.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-[140px]">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>{t("admin.webhooks.allStatuses", "All statuses")}</SelectItem>
+                <SelectItem value="delivered">{t("admin.webhooks.statusDelivered", "Delivered")}</SelectItem>
+                <SelectItem value="pending">{t("admin.webhooks.statusPending", "Retrying")}</SelectItem>
+                <SelectItem value="dead">{t("admin.webhooks.statusDead", "Dead")}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t("admin.webhooks.event", "Event")}</TableHead>
+                <TableHead>{t("admin.webhooks.status", "Status")}</TableHead>
+                <TableHead>{t("admin.webhooks.attempts", "Attempts")}</TableHead>
+                <TableHead>{t("admin.webhooks.created", "Created")}</TableHead>
+                <TableHead className="text-right">{t("common.actions", "Actions")}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {deliveries.map((delivery) => (
+                <TableRow key={delivery.id} data-testid={`row-delivery-${delivery.id}`}>
+                  <TableCell>
+                    <button type="button" className="font-mono text-xs hover:underline" onClick={() => setPayload(delivery)}>
+                      {delivery.event}
+                    </button>
+                    <p className="text-xs text-muted-foreground">{delivery.subscriptionName ?? "-"}</p>
+                  </TableCell>
+                  <TableCell>
+                    <StatusBadge status={delivery.status} />
+                    {delivery.lastError && (
+                      <p className="text-xs text-muted-foreground mt-1 line-clamp-2 max-w-xs" title={delivery.lastError}>
+                        {delivery.lastError}
+                      </p>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {delivery.attempts}/{delivery.maxAttempts}
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true, locale: dateLocale })}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => replayMutation.mutate(delivery.id)}
+                      disabled={replayMutation.isPending || delivery.status === "pending" || delivery.status === "sending"}
+                      data-testid={`button-replay-${delivery.id}`}
+                    >
+                      <RotateCcw className="h-4 w-4 mr-1" />
+                      {t("admin.webhooks.replay", "Replay")}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              {deliveries.length === 0 && (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                    {t("admin.webhooks.noDeliveries", "No deliveries yet.")}
+                  </TableCell>
+                </TableRow>
+              )}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>
+              {editing ? t("admin.webhooks.edit", "Edit webhook") : t("admin.webhooks.add", "Add webhook")}
+            </DialogTitle>
+            <DialogDescription>
+              {t("admin.webhooks.formDesc", "Events are POSTed as JSON to the URL.")}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-name">{t("admin.webhooks.name", "Name")}</Label>
+              <Input
+                id="webhook-name"
+                placeholder="Discord bot"
+                value={form.name}
+                onChange={(e) => setForm((current) => ({ ...current, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">URL</Label>
+              <Input
+                id="webhook-url"
+                placeholder="https://example.com/hooks/nisam"
+                value={form.url}
+                onChange={(e) => setForm((current) => ({ ...current, url: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t("admin.webhooks.events", "Events")}</Label>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {WEBHOOK_EVENTS.map((event) => (
+                  <label key={event} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={form.events.includes(event)}
+                      onCheckedChange={(checked) => toggleEvent(event, checked === true)}
+                    />
+                    <span className="font-mono text-xs">{event}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center justify-between rounded-md border p-3">
+              <Label htmlFor="webhook-enabled">{t("admin.enabled", "Enabled")}</Label>
+              <Switch
+                id="webhook-enabled"
+                checked={form.enabled}
+                onCheckedChange={(enabled) => setForm((current) => ({ ...current, enabled }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setDialogOpen(false)}>
+              {t("common.cancel", "Cancel")}
+            </Button>
+            <Button
+              type="button"
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !form.name || !form.url || form.events.length === 0}
+            >
+              {saveMutation.isPending ? t("common.saving", "Saving...") : t("common.save", "Save")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!payload} onOpenChange={(open) => !open && setPayload(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="font-mono">{payload?.event}</DialogTitle>
+            <DialogDescription>{payload?.id}</DialogDescription>
+          </DialogHeader>
+          <pre className="max-h-[60vh] overflow-auto rounded-md bg-muted p-3 text-xs">
+            {JSON.stringify(payload?.payload, null, 2)}
+          </pre>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -7,6 +7,7 @@ import { Header } from "@/components/Header";
 import { Footer } from "@/components/Footer";
 import { SEO } from "@/components/SEO";
 import { VideoGrid } from "@/components/VideoGrid";
+import { FollowButton } from "@/components/FollowButton";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { apiRequest } from "@/lib/queryClient";
@@ -230,14 +231,17 @@ export default function ChannelPage() {
                   </p>
                 )}
 
-                {channel?.url && (
-                  <div>
-                    <a href={channel.url} target="_blank" rel="noreferrer">
-                      <Button className="gap-2" type="button">
-                        <ExternalLink className="h-4 w-4" />
-                        {t("channelPage.openExternal", "Open channel")}
-                      </Button>
-                    </a>
+                {channel && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <FollowButton channelId={channel.id} />
+                    {channel.url && (
+                      <a href={channel.url} target="_blank" rel="noreferrer">
+                        <Button className="gap-2" type="button" variant="outline">
+                          <ExternalLink className="h-4 w-4" />
+                          {t("channelPage.openExternal", "Open channel")}
+                        </Button>
+                      </a>
+                    )}
                   </div>
                 )}
               </div>
@@ -0,0 +1,82 @@
+import { useEffect, useRef } from "react";
+import { Link } from "wouter";
+import { useInfiniteQuery } from "@tanstack/react-query";
+import { useTranslation } from "react-i18next";
+import { BellRing, Loader2 } from "lucide-react";
+import { Header } from "@/components/Header";
+import { Footer } from "@/components/Footer";
+import { SEO } from "@/components/SEO";
+import { VideoGrid } from "@/components/VideoGrid";
+import { Button } from "@/components/ui/button";
+import { apiRequest } from "@/lib/queryClient";
+import { useIntersectionObserver } from "@/hooks/useIntersectionObserver";
+import type { VideoWithLocalizedRelations } from "@shared/schema";
+
+const PAGE_SIZE = 24;
+
+interface FollowingPage {
+  videos: VideoWithLocalizedRelations[];
+  total: number;
+  offset: number;
+  hasMore: boolean;
+  channelCount: number;
+}
+
+export default function Following() {
+  const { t, i18n } = useTranslation();
+  const loadMoreRef = useRef<HTMLDivElement>(null);
+  const entry = useIntersectionObserver(loadMoreRef, { threshold: 0.1, rootMargin: "100px" });
+
+  const { data, fetchNextPage, hasNextPage, isFetchingNextPage, isLoading } = useInfiniteQuery<FollowingPage>({
+    queryKey: ["/api/feed/following", i18n.language],
+    queryFn: async ({ pageParam = 0 }) => {
+      const res = await apiRequest(
+        "GET",
+        `/api/feed/following?limit=${PAGE_SIZE}&offset=${pageParam}&lang=${i18n.language}`,
+      );
+      return res.json();
+    },
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.offset + lastPage.videos.length : undefined),
+    initialPageParam: 0,
+  });
+
+  useEffect(() => {
+    if (entry?.isIntersecting && hasNextPage && !isFetchingNextPage) {
+      fetchNextPage();
+    }
+  }, [entry?.isIntersecting, hasNextPage, isFetchingNextPage, fetchNextPage]);
+
+  const videos = data?.pages.flatMap((page) => page.videos) || [];
+  const followsNothing = !isLoading && (data?.pages[0]?.channelCount ?? 0) === 0;
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col">
+      <SEO title={t("following.title", "Following")} noindex />
+      <Header />
+      <main id="main-content" className="flex-1 pt-20 px-4 sm:px-8 md:px-12 pb-10 space-y-6">
+        <h1 className="text-3xl font-bold flex items-center gap-3">
+          <BellRing className="h-7 w-7" />
+          {t("following.title", "Following")}
+        </h1>
+
+        {followsNothing ? (
+          <div className="max-w-xl rounded-lg border border-border bg-muted/30 p-6 space-y-4">
+            <p className="text-muted-foreground">
+              {t("following.empty", "Follow channels to see their newest videos here.")}
+            </p>
+            <Link href="/channels">
+              <Button type="button">{t("following.browseChannels", "Browse channels")}</Button>
+            </Link>
+          </div>
+        ) : (
+          <VideoGrid videos={videos} isLoading={isLoading} />
+        )}
+
+        <div ref={loadMoreRef} className="flex justify-center py-4">
+          {isFetchingNextPage && <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}
+        </div>
+      </main>
+      <Footer />
+    </div>
+  );
+}
@@ -7,7 +7,7 @@ import { LazyCarouselRow } from "@/components/LazyCarouselRow";
 import { SearchOverlay } from "@/components/SearchOverlay";
 import { SEO } from "@/components/SEO";
 import { LikeStatusBatchProvider } from "@/components/LikeButton";
-import type { Channel, LocalizedCategory, VideoWithLocalizedRelations, SupportedLanguage, SeoSettings } from "@shared/schema";
+import type { Channel, LocalizedCategory, VideoWithLocalizedRelations, SupportedLanguage, SeoSettings, PersonalizedHomeRows } from "@shared/schema";
 import { useTranslation } from "react-i18next";
 import { apiRequest } from "@/lib/queryClient";
 import { getMaxResolutionThumbnail } from "@/lib/video";
@@ -62,6 +62,16 @@ export default function Home() {
     }
   });
 
+  // Personal rows come separately so the shared carousels above stay cacheable
+  const { data: forYou } = useQuery<PersonalizedHomeRows>({
+    queryKey: ["/api/videos/for-you", i18n.language],
+    staleTime: 60 * 1000,
+    queryFn: async () => {
+        const res = await apiRequest("GET", `/api/videos/for-you?lang=${i18n.language}`);
+        return res.json();
+    }
+  });
+
   const { data: categories = [] } = useQuery<LocalizedCategory[]>({
     queryKey: ["/api/categories", i18n.language],
     staleTime: 5 * 60 * 1000,
@@ -80,20 +90,15 @@ export default function Home() {
       .slice(0, MAX_CATEGORIES);
   }, [categories]);
 
-  const { data: searchVideos = [], isLoading: searchLoading, isFetching: searchFetching } = useQuery<VideoWithLocalizedRelations[]>({
-    queryKey: ["/api/videos?limit=100", i18n.language],
-    enabled: showSearch,
-    staleTime: 30 * 1000,
-    refetchOnWindowFocus: true,
-    queryFn: async () => {
-        const res = await apiRequest("GET", `/api/videos?limit=100&lang=${i18n.language}`);
-        return res.json();
-    }
-  });
-
   const featuredVideos = carouselData?.hero ?? [];
   const recentVideos = carouselData?.recent ?? [];
-  const trendingVideos = carouselData?.trending ?? [];
+  const sharedTrending = carouselData?.trending ?? [];
+  const trendingVideos = forYou?.personalized && forYou.trending.length > 0 && sharedTrending.length > 0
+    ? forYou.trending
+    : sharedTrending;
+  const continueWatching = forYou?.continueWatching ?? [];
+  const becauseYouWatched = forYou?.becauseYouWatched ?? null;
+  const fromChannelsYouLike = forYou?.fromChannelsYouLike ?? [];
   const popularVideos = carouselData?.popular ?? [];
   const popularSegments = carouselData?.popularSegments ?? [];
 
@@ -119,8 +124,11 @@ export default function Home() {
     trendingVideos.forEach(v => ids.push(v.id));
     popularVideos.forEach(v => ids.push(v.id));
     popularSegments.forEach((segment) => segment.videos.forEach((v) => ids.push(v.id)));
+    continueWatching.forEach(v => ids.push(v.id));
+    becauseYouWatched?.videos.forEach(v => ids.push(v.id));
+    fromChannelsYouLike.forEach(v => ids.push(v.id));
     return Array.from(new Set(ids));
-  }, [featuredVideos, recentVideos, trendingVideos, popularVideos, popularSegments]);
+  }, [featuredVideos, recentVideos, trendingVideos, popularVideos, popularSegments, continueWatching, becauseYouWatched, fromChannelsYouLike]);
 
   const { data: seoSettings } = useQuery<SeoSettings>({
     queryKey: ["/api/seo/settings"],
@@ -194,10 +202,25 @@ export default function Home() {
               badgeMode={(heroSettings?.homeHeroMode as any) || 'primary'}
             />
 
+            {continueWatching.length > 0 && (
+              <CarouselRow title={t("home.continueWatching", "Continue Watching")} videos={continueWatching} />
+            )}
+
+            {becauseYouWatched && (
+              <CarouselRow
+                title={t("home.becauseYouWatched", "Because you watched {{title}}", { title: becauseYouWatched.seed.title })}
+                videos={becauseYouWatched.videos}
+              />
+            )}
+
             {recentVideos.length > 0 && (
               <CarouselRow title={t("home.recent", "Recently Added")} videos={recentVideos} />
             )}
 
+            {fromChannelsYouLike.length > 0 && (
+              <CarouselRow title={t("home.fromChannelsYouLike", "From Channels You Like")} videos={fromChannelsYouLike} />
+            )}
+
             {trendingVideos.length > 0 && (
               <CarouselRow title={t("home.trending", "Trending")} videos={trendingVideos} />
             )}
@@ -255,9 +278,6 @@ export default function Home() {
       <SearchOverlay
         open={showSearch}
         onClose={() => setShowSearch(false)}
-        results={searchVideos}
-        categories={categories}
-        isLoading={searchLoading || searchFetching}
       />
 
       <Footer />
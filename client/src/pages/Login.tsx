@@ -1,7 +1,8 @@
-import { useState, useCallback } from "react";
-import { useLocation } from "wouter";
+import { useState, useCallback, useEffect, useRef } from "react";
+import { useSearch } from "wouter";
 import { useTranslation } from "react-i18next";
 import { useQuery } from "@tanstack/react-query";
+import { REGEXP_ONLY_DIGITS } from "input-otp";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -12,17 +13,43 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { TurnstileWidget } from "@/components/TurnstileWidget";
-import { Lock, User } from "lucide-react";
+import { OidcProviderButtons } from "@/components/OidcProviderButtons";
+import { Lock, User, ShieldCheck, KeyRound } from "lucide-react";
+
+type Mode = "login" | "twoFactor" | "forgot" | "reset";
+
+async function postJson(url: string, body: unknown) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    credentials: "include",
+    body: JSON.stringify(body),
+  });
+  const data = await response.json().catch(() => ({}));
+  return { ok: response.ok, data };
+}
 
 export default function Login() {
-  const [, setLocation] = useLocation();
-  const { t } = useTranslation();
+  const search = useSearch();
+  const { t, i18n } = useTranslation();
   const { toast } = useToast();
+  const params = new URLSearchParams(search);
+  const resetToken = params.get("reset");
+  const verifyToken = params.get("verify");
+  const oidcError = params.get("oidcError");
+
+  // A provider sign-in lands on ?twoFactor=1 when the account still owes a code
+  const [mode, setMode] = useState<Mode>(resetToken ? "reset" : params.get("twoFactor") ? "twoFactor" : "login");
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
+  const [confirmPassword, setConfirmPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [recoveryCode, setRecoveryCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
   const [turnstileToken, setTurnstileToken] = useState<string | null>(null);
 
@@ -39,133 +66,403 @@ export default function Login() {
     setTurnstileToken(null);
   }, []);
 
+  const showError = useCallback(
+    (description: string) => {
+      toast({ title: t("common.error", "Error"), description, variant: "destructive" });
+    },
+    [toast, t],
+  );
+
+  // Links from the verification email land here; a token only works once, so it's sent once
+  const verifiedToken = useRef<string | null>(null);
+  useEffect(() => {
+    if (!verifyToken || verifiedToken.current === verifyToken) return;
+    verifiedToken.current = verifyToken;
+    postJson("/api/auth/email/verify", { token: verifyToken })
+      .then(({ ok, data }) => {
+        if (ok) {
+          toast({
+            title: t("common.success", "Success"),
+            description: t("login.emailVerified", "Your email address is verified"),
+          });
+          queryClient.invalidateQueries({ queryKey: ["/api/auth/account"] });
+        } else {
+          showError(data.error || t("login.verifyFailed", "This verification link is invalid or has expired"));
+        }
+      })
+      .catch(() => showError(t("login.verifyFailed", "This verification link is invalid or has expired")));
+  }, [verifyToken, showError, toast, t]);
+
+  useEffect(() => {
+    if (oidcError) showError(oidcError);
+  }, [oidcError, showError]);
+
+  const completeLogin = async (data: { twoFactorSetupRequired?: boolean }) => {
+    await queryClient.resetQueries({ queryKey: ["/api/auth/session"] });
+
+    toast({
+      title: t("common.success", "Success"),
+      description: data.twoFactorSetupRequired
+        ? t("login.twoFactorSetupRequired", "Your role requires two-factor authentication. Set it up to open the admin panel.")
+        : t("login.success", "Successfully logged in!"),
+    });
+
+    setTimeout(() => {
+      window.location.href = data.twoFactorSetupRequired ? "/settings" : "/admin/dashboard";
+    }, 100);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
     if (turnstileConfig?.enabled && !turnstileToken) {
-      toast({
-        title: t("common.error", "Error"),
-        description: t("auth.turnstileRequired", "Please complete the security verification"),
-        variant: "destructive",
-      });
+      showError(t("auth.turnstileRequired", "Please complete the security verification"));
       return;
     }
 
     setIsLoading(true);
 
     try {
-      const response = await fetch("/api/auth/login", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        credentials: "include",
-        body: JSON.stringify({
-          username,
-          password,
-          turnstileToken: turnstileToken || undefined,
-        }),
+      const { ok, data } = await postJson("/api/auth/login", {
+        username,
+        password,
+        turnstileToken: turnstileToken || undefined,
       });
 
-      if (response.ok) {
-        await queryClient.resetQueries({ queryKey: ["/api/auth/session"] });
+      if (ok && data.twoFactorRequired) {
+        setPassword("");
+        setCode("");
+        setRecoveryCode("");
+        setUseRecoveryCode(false);
+        setMode("twoFactor");
+      } else if (ok) {
+        await completeLogin(data);
+      } else {
+        showError(data.error || t("login.invalidCredentials", "Invalid credentials"));
+      }
+    } catch (error) {
+      showError(t("login.loginError", "Login failed"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
+  const handleTwoFactor = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const { ok, data } = await postJson(
+        "/api/auth/login/2fa",
+        useRecoveryCode ? { recoveryCode } : { code },
+      );
+
+      if (ok) {
+        await completeLogin(data);
+      } else {
+        setCode("");
+        if (data.restart) setMode("login");
+        showError(data.error || t("login.invalidCode", "Invalid code"));
+      }
+    } catch (error) {
+      showError(t("login.loginError", "Login failed"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleForgot = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      const { ok, data } = await postJson("/api/auth/password/forgot", {
+        identifier: username,
+        locale: i18n.language,
+      });
+
+      if (ok) {
         toast({
-          title: t("common.success", "Success"),
-          description: t("login.success", "Successfully logged in!"),
+          title: t("login.resetRequested", "Check your email"),
+          description: t(
+            "login.resetRequestedDesc",
+            "If an account with an email address matches, we've sent it a link to reset the password.",
+          ),
         });
-
-        setTimeout(() => {
-          window.location.href = "/admin/dashboard";
-        }, 100);
+        setMode("login");
       } else {
-        const data = await response.json();
+        showError(data.error || t("login.resetFailed", "Could not reset the password"));
+      }
+    } catch (error) {
+      showError(t("login.resetFailed", "Could not reset the password"));
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (password !== confirmPassword) {
+      showError(t("register.passwordMismatch", "Passwords do not match"));
+      return;
+    }
+
+    setIsLoading(true);
+
+    try {
+      const { ok, data } = await postJson("/api/auth/password/reset", { token: resetToken, password });
+
+      if (ok) {
         toast({
-          title: t("common.error", "Error"),
-          description: data.error || t("login.invalidCredentials", "Invalid credentials"),
-          variant: "destructive",
+          title: t("common.success", "Success"),
+          description: t("login.passwordChanged", "Your password has been changed. You can log in now."),
         });
+        setPassword("");
+        setConfirmPassword("");
+        window.history.replaceState(null, "", "/login");
+        setMode("login");
+      } else {
+        showError(data.error || t("login.resetFailed", "Could not reset the password"));
       }
     } catch (error) {
-      toast({
-        title: t("common.error", "Error"),
-        description: t("login.loginError", "Login failed"),
-        variant: "destructive",
-      });
+      showError(t("login.resetFailed", "Could not reset the password"));
     } finally {
       setIsLoading(false);
     }
   };
 
+  const titles: Record<Mode, string> = {
+    login: t("login.title", "Admin Login"),
+    twoFactor: t("login.twoFactorTitle", "Two-factor authentication"),
+    forgot: t("login.forgotTitle", "Forgot your password?"),
+    reset: t("login.resetTitle", "Choose a new password"),
+  };
+
+  const descriptions: Record<Mode, string> = {
+    login: t("login.adminAccess", "Admin access"),
+    twoFactor: useRecoveryCode
+      ? t("login.recoveryCodeDesc", "Enter one of the recovery codes you saved when you turned on two-factor authentication")
+      : t("login.twoFactorDesc", "Enter the 6-digit code from your authenticator app"),
+    forgot: t("login.forgotDesc", "Enter your username or email and we'll send you a reset link"),
+    reset: t("login.resetDesc", "Use at least 8 characters with uppercase and lowercase letters and a number"),
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-background px-4">
       <Card className="w-full max-w-md">
         <CardHeader className="space-y-1">
           <div className="flex items-center justify-center mb-4">
             <div className="rounded-full bg-primary/10 p-3">
-              <Lock className="h-8 w-8 text-primary" />
+              {mode === "twoFactor" ? (
+                <ShieldCheck className="h-8 w-8 text-primary" />
+              ) : mode === "login" ? (
+                <Lock className="h-8 w-8 text-primary" />
+              ) : (
+                <KeyRound className="h-8 w-8 text-primary" />
+              )}
             </div>
           </div>
-          <CardTitle className="text-2xl font-bold text-center">
-            {t("login.title", "Admin Login")}
-          </CardTitle>
-          <CardDescription className="text-center">
-            {t("login.adminAccess", "Admin access")}
-          </CardDescription>
+          <CardTitle className="text-2xl font-bold text-center">{titles[mode]}</CardTitle>
+          <CardDescription className="text-center">{descriptions[mode]}</CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="username">{t("auth.username", "Username")}</Label>
-              <div className="relative">
-                <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="username"
-                  type="text"
-                  placeholder={t("auth.username", "Username")}
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  required
-                  autoComplete="username"
-                  className="pl-10"
-                  data-testid="input-username"
-                />
+          {mode === "login" && (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">{t("auth.username", "Username")}</Label>
+                <div className="relative">
+                  <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="username"
+                    type="text"
+                    placeholder={t("auth.username", "Username")}
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    required
+                    autoComplete="username"
+                    className="pl-10"
+                    data-testid="input-username"
+                  />
+                </div>
               </div>
-            </div>
-            <div className="space-y-2">
-              <Label htmlFor="password">{t("auth.password", "Password")}</Label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="password">{t("auth.password", "Password")}</Label>
+                  <button
+                    type="button"
+                    className="text-xs text-primary hover:underline"
+                    onClick={() => setMode("forgot")}
+                    data-testid="button-forgot-password"
+                  >
+                    {t("login.forgotPassword", "Forgot password?")}
+                  </button>
+                </div>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder={t("auth.password", "Password")}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    autoComplete="current-password"
+                    className="pl-10"
+                    data-testid="input-password"
+                  />
+                </div>
+              </div>
+
+              {turnstileConfig?.enabled && turnstileConfig.siteKey && (
+                <TurnstileWidget
+                  siteKey={turnstileConfig.siteKey}
+                  onVerify={handleTurnstileVerify}
+                  onExpire={handleTurnstileExpire}
+                  theme="dark"
+                />
+              )}
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || (turnstileConfig?.enabled && !turnstileToken)}
+                data-testid="button-login"
+              >
+                {isLoading ? t("login.loggingIn") : t("login.loginButton")}
+              </Button>
+
+              <OidcProviderButtons />
+            </form>
+          )}
+
+          {mode === "twoFactor" && (
+            <form onSubmit={handleTwoFactor} className="space-y-4">
+              {useRecoveryCode ? (
                 <Input
-                  id="password"
-                  type="password"
-                  placeholder={t("auth.password", "Password")}
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
+                  value={recoveryCode}
+                  onChange={(e) => setRecoveryCode(e.target.value)}
+                  placeholder="xxxxx-xxxxx"
+                  autoComplete="one-time-code"
                   required
-                  autoComplete="current-password"
-                  className="pl-10"
-                  data-testid="input-password"
+                  data-testid="input-recovery-code"
                 />
+              ) : (
+                <div className="flex justify-center">
+                  <InputOTP
+                    maxLength={6}
+                    pattern={REGEXP_ONLY_DIGITS}
+                    value={code}
+                    onChange={setCode}
+                    autoFocus
+                    data-testid="input-totp-code"
+                  >
+                    <InputOTPGroup>
+                      {Array.from({ length: 6 }, (_, i) => (
+                        <InputOTPSlot key={i} index={i} />
+                      ))}
+                    </InputOTPGroup>
+                  </InputOTP>
+                </div>
+              )}
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || (useRecoveryCode ? !recoveryCode.trim() : code.length !== 6)}
+                data-testid="button-verify-2fa"
+              >
+                {isLoading ? t("login.loggingIn") : t("login.verify", "Verify")}
+              </Button>
+
+              <div className="flex justify-between text-sm">
+                <button
+                  type="button"
+                  className="text-primary hover:underline"
+                  onClick={() => setUseRecoveryCode(!useRecoveryCode)}
+                >
+                  {useRecoveryCode
+                    ? t("login.useAuthenticator", "Use your authenticator app")
+                    : t("login.useRecoveryCode", "Use a recovery code")}
+                </button>
+                <button type="button" className="text-muted-foreground hover:underline" onClick={() => setMode("login")}>
+                  {t("common.cancel", "Cancel")}
+                </button>
               </div>
-            </div>
+            </form>
+          )}
+
+          {mode === "forgot" && (
+            <form onSubmit={handleForgot} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="identifier">{t("login.usernameOrEmail", "Username or email")}</Label>
+                <div className="relative">
+                  <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="identifier"
+                    type="text"
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    required
+                    autoComplete="username"
+                    className="pl-10"
+                    data-testid="input-identifier"
+                  />
+                </div>
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading} data-testid="button-send-reset">
+                {isLoading ? t("common.loading", "Loading...") : t("login.sendResetLink", "Send reset link")}
+              </Button>
+              <button
+                type="button"
+                className="w-full text-sm text-muted-foreground hover:underline"
+                onClick={() => setMode("login")}
+              >
+                {t("login.backToLogin", "Back to login")}
+              </button>
+            </form>
+          )}
 
-            {turnstileConfig?.enabled && turnstileConfig.siteKey && (
-              <TurnstileWidget
-                siteKey={turnstileConfig.siteKey}
-                onVerify={handleTurnstileVerify}
-                onExpire={handleTurnstileExpire}
-                theme="dark"
-              />
-            )}
-
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={isLoading || (turnstileConfig?.enabled && !turnstileToken)}
-              data-testid="button-login"
-            >
-              {isLoading ? t("login.loggingIn") : t("login.loginButton")}
-            </Button>
-          </form>
+          {mode === "reset" && (
+            <form onSubmit={handleReset} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-password">{t("login.newPassword", "New password")}</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="new-password"
+                    type="password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    minLength={8}
+                    autoComplete="new-password"
+                    className="pl-10"
+                    data-testid="input-new-password"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-password">{t("auth.confirmPassword", "Confirm Password")}</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="confirm-password"
+                    type="password"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                    minLength={8}
+                    autoComplete="new-password"
+                    className="pl-10"
+                  />
+                </div>
+              </div>
+              <Button type="submit" className="w-full" disabled={isLoading} data-testid="button-reset-password">
+                {isLoading ? t("common.loading", "Loading...") : t("login.setPassword", "Set new password")}
+              </Button>
+            </form>
+          )}
         </CardContent>
       </Card>
     </div>
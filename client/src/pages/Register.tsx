@@ -16,16 +16,18 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
 import { TurnstileWidget } from "@/components/TurnstileWidget";
+import { OidcProviderButtons } from "@/components/OidcProviderButtons";
 import { Lock, User, UserPlus, Mail } from "lucide-react";
 
 export default function Register() {
   const [, setLocation] = useLocation();
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const { toast } = useToast();
   const [username, setUsername] = useState("");
   const [password, setPassword] = useState("");
   const [confirmPassword, setConfirmPassword] = useState("");
   const [email, setEmail] = useState("");
+  const [verificationSentTo, setVerificationSentTo] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [turnstileToken, setTurnstileToken] = useState<string | null>(null);
 
@@ -74,11 +76,13 @@ export default function Register() {
           username,
           password,
           email,
+          locale: i18n.language,
           turnstileToken: turnstileToken || undefined,
         }),
       });
 
       if (response.ok) {
+        const data = await response.json();
         await queryClient.resetQueries({ queryKey: ["/api/auth/session"] });
 
         toast({
@@ -86,6 +90,12 @@ export default function Register() {
           description: t("register.success", "Registration successful!"),
         });
 
+        // Keep the page open long enough to read where the verification link went
+        if (data.verificationSent) {
+          setVerificationSentTo(email);
+          return;
+        }
+
         setTimeout(() => {
           setLocation("/");
         }, 500);
@@ -125,90 +135,106 @@ export default function Register() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          <form onSubmit={handleSubmit} className="space-y-4">
-            <div className="space-y-2">
-              <Label htmlFor="username">{t("auth.username", "Username")}</Label>
-              <div className="relative">
-                <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="username"
-                  type="text"
-                  placeholder={t("auth.username", "Username")}
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value)}
-                  required
-                  minLength={3}
-                  className="pl-10"
-                />
-              </div>
+          {verificationSentTo ? (
+            <div className="space-y-4 text-center">
+              <Mail className="h-10 w-10 mx-auto text-primary" />
+              <p className="text-sm text-muted-foreground">
+                {t("register.verificationSent", "We sent a verification link to {{email}}. Open it to confirm your address.", {
+                  email: verificationSentTo,
+                })}
+              </p>
+              <Button className="w-full" onClick={() => setLocation("/")}>
+                {t("register.continue", "Continue")}
+              </Button>
             </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="username">{t("auth.username", "Username")}</Label>
+                <div className="relative">
+                  <User className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="username"
+                    type="text"
+                    placeholder={t("auth.username", "Username")}
+                    value={username}
+                    onChange={(e) => setUsername(e.target.value)}
+                    required
+                    minLength={3}
+                    className="pl-10"
+                  />
+                </div>
+              </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="email">{t("auth.email", "Email")} ({t("common.optional", "Optional")})</Label>
-              <div className="relative">
-                <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="email"
-                  type="email"
-                  placeholder="name@example.com"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  className="pl-10"
-                />
+              <div className="space-y-2">
+                <Label htmlFor="email">{t("auth.email", "Email")} ({t("common.optional", "Optional")})</Label>
+                <div className="relative">
+                  <Mail className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="email"
+                    type="email"
+                    placeholder="name@example.com"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    className="pl-10"
+                  />
+                </div>
               </div>
-            </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="password">{t("auth.password", "Password")}</Label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="password"
-                  type="password"
-                  placeholder="••••••••"
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                  minLength={8}
-                  className="pl-10"
-                />
+              <div className="space-y-2">
+                <Label htmlFor="password">{t("auth.password", "Password")}</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="password"
+                    type="password"
+                    placeholder="••••••••"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    minLength={8}
+                    className="pl-10"
+                  />
+                </div>
               </div>
-            </div>
 
-            <div className="space-y-2">
-              <Label htmlFor="confirmPassword">{t("auth.confirmPassword", "Confirm Password")}</Label>
-              <div className="relative">
-                <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                <Input
-                  id="confirmPassword"
-                  type="password"
-                  placeholder="••••••••"
-                  value={confirmPassword}
-                  onChange={(e) => setConfirmPassword(e.target.value)}
-                  required
-                  minLength={8}
-                  className="pl-10"
-                />
+              <div className="space-y-2">
+                <Label htmlFor="confirmPassword">{t("auth.confirmPassword", "Confirm Password")}</Label>
+                <div className="relative">
+                  <Lock className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                  <Input
+                    id="confirmPassword"
+                    type="password"
+                    placeholder="••••••••"
+                    value={confirmPassword}
+                    onChange={(e) => setConfirmPassword(e.target.value)}
+                    required
+                    minLength={8}
+                    className="pl-10"
+                  />
+                </div>
               </div>
-            </div>
 
-            {turnstileConfig?.enabled && turnstileConfig.siteKey && (
-              <TurnstileWidget
-                siteKey={turnstileConfig.siteKey}
-                onVerify={handleTurnstileVerify}
-                onExpire={handleTurnstileExpire}
-                theme="dark"
-              />
-            )}
-
-            <Button
-              type="submit"
-              className="w-full"
-              disabled={isLoading || (turnstileConfig?.enabled && !turnstileToken)}
-            >
-              {isLoading ? t("common.loading", "Loading...") : t("register.submit", "Create Account")}
-            </Button>
-          </form>
+              {turnstileConfig?.enabled && turnstileConfig.siteKey && (
+                <TurnstileWidget
+                  siteKey={turnstileConfig.siteKey}
+                  onVerify={handleTurnstileVerify}
+                  onExpire={handleTurnstileExpire}
+                  theme="dark"
+                />
+              )}
+
+              <Button
+                type="submit"
+                className="w-full"
+                disabled={isLoading || (turnstileConfig?.enabled && !turnstileToken)}
+              >
+                {isLoading ? t("common.loading", "Loading...") : t("register.submit", "Create Account")}
+              </Button>
+
+              <OidcProviderButtons />
+            </form>
+          )}
         </CardContent>
         <CardFooter className="flex flex-col space-y-2 text-center text-sm text-muted-foreground">
           <div>
@@ -3,10 +3,14 @@ import { Header } from "@/components/Header";
 import { Footer } from "@/components/Footer";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
 import { useTranslation } from "react-i18next";
-import { User, Settings as SettingsIcon, Shield } from "lucide-react";
+import { User, Settings as SettingsIcon, Shield, ShieldCheck, Library, KeyRound, Link2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { useLocation } from "wouter";
 import { getQueryFn } from "@/lib/queryClient";
+import { UserLibrary } from "@/components/UserLibrary";
+import { ApiTokens } from "@/components/ApiTokens";
+import { AccountSecurity } from "@/components/AccountSecurity";
+import { LinkedAccounts } from "@/components/LinkedAccounts";
 
 export default function Settings() {
   const { t } = useTranslation();
@@ -65,6 +69,74 @@ export default function Settings() {
             </CardContent>
           </Card>
 
+          {session.userId && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <ShieldCheck className="h-5 w-5" />
+                  {t("accountSecurity.title", "Account security")}
+                </CardTitle>
+                <CardDescription>
+                  {t("accountSecurity.description", "Your email address and two-factor authentication")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <AccountSecurity />
+              </CardContent>
+            </Card>
+          )}
+
+          {session.userId && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Link2 className="h-5 w-5" />
+                  {t("linkedAccounts.title", "Linked accounts")}
+                </CardTitle>
+                <CardDescription>
+                  {t("linkedAccounts.description", "Sign in with an account you already have elsewhere")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <LinkedAccounts />
+              </CardContent>
+            </Card>
+          )}
+
+          {session.userId && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Library className="h-5 w-5" />
+                  {t("library.title", "My library")}
+                </CardTitle>
+                <CardDescription>
+                  {t("library.description", "Videos you liked, your watch history and your playlists")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <UserLibrary />
+              </CardContent>
+            </Card>
+          )}
+
+          {session.userId && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <KeyRound className="h-5 w-5" />
+                  {t("apiTokens.title", "API tokens")}
+                </CardTitle>
+                <CardDescription>
+                  {t("apiTokens.description", "Read-only access to videos, categories, channels and playlists through /api/v1")}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <ApiTokens />
+              </CardContent>
+            </Card>
+          )}
+
           {/* Placeholder for future settings */}
           <Card className="opacity-60">
             <CardHeader>
@@ -1,4 +1,4 @@
-import { useRoute, Link } from "wouter";
+import { useRoute, useSearch, Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { ArrowLeft, Sparkles, Eye, Play, Maximize } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -11,16 +11,26 @@ import { VideoCard } from "@/components/VideoCard";
 import { LikeButton } from "@/components/LikeButton";
 import { PageBreadcrumb } from "@/components/PageBreadcrumb";
 import { ShareButtons } from "@/components/ShareButtons";
+import { TranscriptPanel } from "@/components/TranscriptPanel";
+import { VideoChapters } from "@/components/VideoChapters";
 import { useTranslation } from "react-i18next";
-import { useEffect, useState } from "react";
-import type { VideoWithLocalizedRelations, SupportedLanguage, SeoSettings } from "@shared/schema";
-import { apiRequest } from "@/lib/queryClient";
+import { useEffect, useRef, useState } from "react";
+import type { VideoWithLocalizedRelations, SupportedLanguage, SeoSettings, VideoChapter } from "@shared/schema";
+import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { useWatchProgress } from "@/hooks/useWatchProgress";
+import type { SessionResponse } from "@/hooks/usePermissions";
+import { getEmbedUrl, getWatchUrl, isDirectMediaUrl } from "@/lib/video";
 
 export default function VideoPage() {
   const { t, i18n } = useTranslation();
   const [isPlaying, setIsPlaying] = useState(false);
+  // Set when a transcript line starts playback; wins over the saved position
+  const [startAt, setStartAt] = useState<number | null>(null);
+  const playerRef = useRef<HTMLIFrameElement>(null);
   const [, params] = useRoute("/video/:slug");
   const videoSlug = params?.slug;
+  // Key-moment links from search results and shared chapters: /video/:slug?t=95
+  const linkedStart = Math.floor(Number(new URLSearchParams(useSearch()).get("t")) || 0);
 
   // Fetch supported languages for hreflang - Moved up to avoid hook order violation
   const { data: languages = [] } = useQuery<SupportedLanguage[]>({
@@ -59,6 +69,24 @@ export default function VideoPage() {
     enabled: !!video?.id,
   });
 
+  const { data: chapters = [] } = useQuery<VideoChapter[]>({
+    queryKey: ["/api/videos", video?.id, "chapters"],
+    enabled: !!video?.id,
+  });
+
+  const { data: session } = useQuery<SessionResponse | null>({
+    queryKey: ["/api/auth/session"],
+    queryFn: getQueryFn({ on401: "returnNull" }),
+  });
+
+  const { resumeSeconds } = useWatchProgress({
+    videoId: video?.id,
+    // Progress tracking talks to the YouTube iframe API only
+    enabled: !!session?.userId && !!video && (video.videoType === "regular" || video.videoType === "youtube_short"),
+    iframeRef: playerRef,
+    isPlaying,
+  });
+
   // Track view when video is loaded
   const trackViewMutation = useMutation({
     mutationFn: async (videoId: string) => {
@@ -115,10 +143,29 @@ export default function VideoPage() {
   }
 
   // Determine embed URL based on video type
-  const isTikTok = video.videoType === "tiktok";
-  const embedUrl = isTikTok 
-    ? (video.embedUrl || `https://www.tiktok.com/embed/v2/${video.videoId}`)
-    : `https://www.youtube.com/embed/${video.videoId}?autoplay=1`;
+  const isYouTube = video.videoType === "regular" || video.videoType === "youtube_short";
+  const baseEmbedUrl = getEmbedUrl(video);
+  // X posts and feed enclosures are plain media files
+  const playsAsMedia = isDirectMediaUrl(baseEmbedUrl);
+  const startSeconds = startAt ?? (linkedStart > 0 ? linkedStart : resumeSeconds);
+  const embedUrl = isYouTube
+    ? `${baseEmbedUrl}?autoplay=1&enablejsapi=1${startSeconds > 0 ? `&start=${startSeconds}` : ""}`
+    : video.videoType === "vimeo" || video.videoType === "dailymotion"
+      ? `${baseEmbedUrl}${baseEmbedUrl.includes("?") ? "&" : "?"}autoplay=1`
+      : baseEmbedUrl;
+
+  const seekTo = (seconds: number) => {
+    if (isPlaying && playerRef.current?.contentWindow) {
+      playerRef.current.contentWindow.postMessage(
+        JSON.stringify({ event: "command", func: "seekTo", args: [seconds, true] }),
+        "*",
+      );
+    } else {
+      setStartAt(seconds);
+      setIsPlaying(true);
+    }
+    document.getElementById("video-player-container")?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
 
   const seoTitle = video.title;
   const seoDescription =
@@ -134,9 +181,7 @@ export default function VideoPage() {
     : undefined;
 
   // Video structured data (VideoObject schema)
-  const contentUrl = isTikTok
-    ? `https://www.tiktok.com/@${video.channel?.name || 'user'}/video/${video.videoId}`
-    : `https://www.youtube.com/watch?v=${video.videoId}`;
+  const contentUrl = getWatchUrl(video, video.channel?.name);
 
   // Parse duration string to seconds (supports ISO 8601 PT#M#S and HH:MM:SS / MM:SS formats)
   const parseDurationToSeconds = (dur: string | null | undefined): number | undefined => {
@@ -187,6 +232,18 @@ export default function VideoPage() {
       video.tags.length > 0 && {
         keywords: video.tags.map((tag) => tag.tagName).join(", "),
       }),
+    ...(chapters.length > 0 && {
+      hasPart: chapters.map((chapter, index) => {
+        const endOffset = chapters[index + 1]?.startSeconds ?? durationSeconds;
+        return {
+          "@type": "Clip",
+          name: chapter.title,
+          startOffset: chapter.startSeconds,
+          ...(endOffset !== undefined && { endOffset }),
+          url: `${window.location.origin}/video/${video.slug || video.id}?t=${chapter.startSeconds}`,
+        };
+      }),
+    }),
     // Speakable schema — lets voice assistants (Google Assistant) read the
     // title + description aloud. 2026 best practice for AI/voice search.
     speakable: {
@@ -248,9 +305,7 @@ export default function VideoPage() {
   const currentCanonical = `${origin}${effectivePrefix}/video/${videoSlugOrId}`;
 
   // og:video embed URL for social media video preview
-  const ogVideoUrl = isTikTok
-    ? `https://www.tiktok.com/embed/v2/${video.videoId}`
-    : `https://www.youtube.com/embed/${video.videoId}`;
+  const ogVideoUrl = baseEmbedUrl;
 
   return (
     <>
@@ -319,13 +374,26 @@ export default function VideoPage() {
                       size="lg" 
                       className="gap-2 min-w-[140px] h-16 rounded-full text-lg shadow-2xl relative z-10 transform transition-transform duration-300 group-hover/overlay:scale-110" 
                     >
-                      <Play className="h-8 w-8 fill-current ml-1" /> {t("video.watch", "Watch")}
+                      <Play className="h-8 w-8 fill-current ml-1" />{" "}
+                      {resumeSeconds > 0 ? t("video.resume", "Resume") : t("video.watch", "Watch")}
                     </Button>
                   </div>
                 </div>
               </div>
+            ) : playsAsMedia ? (
+              <video
+                src={embedUrl}
+                poster={video.thumbnailUrl}
+                title={video.title}
+                className="w-full h-full"
+                controls
+                autoPlay
+                playsInline
+                data-testid="video-player-media"
+              />
             ) : (
               <iframe
+                ref={playerRef}
                 src={embedUrl}
                 title={video.title}
                 className="w-full h-full"
@@ -427,6 +495,10 @@ export default function VideoPage() {
               </Card>
             )}
 
+            {isYouTube && <VideoChapters chapters={chapters} durationSeconds={durationSeconds} onSeek={seekTo} />}
+
+            {isYouTube && <TranscriptPanel videoId={video.id} onSeek={seekTo} />}
+
             {/* Categories */}
             {video.categories && video.categories.length > 0 && (
               <div className="space-y-2">
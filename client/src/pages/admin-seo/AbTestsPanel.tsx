@@ -0,0 +1,313 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FlaskConical, Pause, Play, Square, Trophy } from "lucide-react";
+import type { SeoAbTest, SeoAbTestResults, SeoSettings } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+
+const TESTS_KEY = ["/api/seo/enhanced/ab-tests"];
+const SETTINGS_KEY = ["/api/seo/enhanced/settings"];
+
+const ELEMENT_LABELS: Record<string, string> = {
+  title: "Title",
+  description: "Meta description",
+  og_title: "Open Graph title",
+  og_description: "Open Graph description",
+};
+
+const SOURCE_LABELS: Record<string, string> = {
+  google: "Google",
+  bing: "Bing",
+  yandex: "Yandex",
+  facebook: "Facebook",
+  twitter: "X",
+  linkedin: "LinkedIn",
+};
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "outline" | "destructive"> = {
+  running: "default",
+  draft: "outline",
+  paused: "secondary",
+  completed: "secondary",
+};
+
+const emptyDraft = {
+  name: "",
+  pageUrl: "/",
+  elementType: "title",
+  variantA: "",
+  variantB: "",
+  trafficSplit: 50,
+  startDate: "",
+  endDate: "",
+};
+
+function percent(value: number | undefined): string {
+  return `${((value ?? 0) * 100).toFixed(2)}%`;
+}
+
+function VariantStats({ label, text, stats, sources, winner }: {
+  label: string;
+  text: string;
+  stats?: SeoAbTestResults["variantA"];
+  /** Search engines and social sites being served this variant */
+  sources: string[];
+  winner: boolean;
+}) {
+  return (
+    <div className={`rounded-md border p-3 space-y-1 ${winner ? "border-emerald-500" : ""}`}>
+      <div className="flex items-center justify-between text-xs font-medium">
+        <span>{label}</span>
+        {winner && <Trophy className="h-3 w-3 text-emerald-500" />}
+      </div>
+      <p className="text-sm line-clamp-2">{text}</p>
+      <p className="text-xs text-muted-foreground">
+        {(stats?.impressions ?? 0).toLocaleString()} impressions · {(stats?.clicks ?? 0).toLocaleString()} clicks · CTR {percent(stats?.ctr)}
+      </p>
+      <p className="text-xs text-muted-foreground">Shown by: {sources.length > 0 ? sources.join(", ") : "none yet"}</p>
+    </div>
+  );
+}
+
+export function AbTestsPanel() {
+  const { toast } = useToast();
+  const [draft, setDraft] = useState(emptyDraft);
+
+  const { data: settings } = useQuery<SeoSettings>({ queryKey: SETTINGS_KEY });
+  const { data, isLoading } = useQuery<{ abTests: SeoAbTest[] }>({ queryKey: TESTS_KEY });
+
+  const toggleMutation = useMutation({
+    mutationFn: async (enableABTesting: boolean) => {
+      await apiRequest("PATCH", "/api/seo/enhanced/settings", { enableABTesting });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: SETTINGS_KEY }),
+    onError: (error: Error) => {
+      toast({ title: "Save failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/seo/enhanced/ab-tests", {
+        ...draft,
+        trafficSplit: Number(draft.trafficSplit),
+        startDate: draft.startDate ? new Date(draft.startDate).toISOString() : undefined,
+        endDate: draft.endDate ? new Date(draft.endDate).toISOString() : undefined,
+      });
+    },
+    onSuccess: () => {
+      setDraft(emptyDraft);
+      queryClient.invalidateQueries({ queryKey: TESTS_KEY });
+      toast({ title: "A/B test created" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not create the test", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action, variant }: { id: string; action: "start" | "pause" | "stop" | "promote"; variant?: "A" | "B" }) => {
+      await apiRequest("POST", `/api/seo/enhanced/ab-tests/${id}/${action}`, variant ? { variant } : {});
+      return action;
+    },
+    onSuccess: (action) => {
+      queryClient.invalidateQueries({ queryKey: TESTS_KEY });
+      if (action === "promote") {
+        queryClient.invalidateQueries({ queryKey: ["/api/seo/enhanced/meta-tags"] });
+        toast({ title: "Winner promoted", description: "The variant is now the page's meta tag override." });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Action failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const promote = (test: SeoAbTest) => {
+    const results = test.results as SeoAbTestResults | null;
+    if (results?.winner) {
+      actionMutation.mutate({ id: test.id, action: "promote" });
+      return;
+    }
+    const choice = prompt("No significant winner yet. Type A or B to promote that variant anyway:");
+    if (choice === "A" || choice === "B") {
+      actionMutation.mutate({ id: test.id, action: "promote", variant: choice });
+    }
+  };
+
+  const set = (field: keyof typeof emptyDraft) => (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) =>
+    setDraft((current) => ({ ...current, [field]: e.target.value }));
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <FlaskConical className="h-5 w-5" />
+              A/B Tests
+            </CardTitle>
+            <CardDescription>
+              Serve two titles or descriptions for a page and keep the one that brings more visitors from search and shares.
+              Every visitor keeps seeing the same variant. Each search engine and social site (Google, Bing, Yandex,
+              Facebook, X, LinkedIn) is served one variant, and people who click through from it see that variant too.
+              Impressions are people's page views of a variant; clicks are the views that came from a site showing it.
+              Impressions in search results aren't visible to the site, so CTR is the share of a variant's views that
+              search and shares brought in.
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="ab-testing-enabled" className="text-sm">Enabled</Label>
+            <Switch
+              id="ab-testing-enabled"
+              checked={!!settings?.enableABTesting}
+              disabled={toggleMutation.isPending}
+              onCheckedChange={(checked) => toggleMutation.mutate(checked)}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          <form
+            className="grid gap-3 md:grid-cols-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              createMutation.mutate();
+            }}
+          >
+            <div className="space-y-1">
+              <Label>Name</Label>
+              <Input value={draft.name} onChange={set("name")} required />
+            </div>
+            <div className="space-y-1">
+              <Label>Page path</Label>
+              <Input value={draft.pageUrl} onChange={set("pageUrl")} placeholder="/video/my-slug" required />
+            </div>
+            <div className="space-y-1">
+              <Label>Element</Label>
+              <Select value={draft.elementType} onValueChange={(elementType) => setDraft((current) => ({ ...current, elementType }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(ELEMENT_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Traffic shown variant A (%)</Label>
+              <Input type="number" min={10} max={90} value={draft.trafficSplit} onChange={set("trafficSplit")} />
+            </div>
+            <div className="space-y-1">
+              <Label>Variant A</Label>
+              <Textarea rows={2} value={draft.variantA} onChange={set("variantA")} required />
+            </div>
+            <div className="space-y-1">
+              <Label>Variant B</Label>
+              <Textarea rows={2} value={draft.variantB} onChange={set("variantB")} required />
+            </div>
+            <div className="space-y-1">
+              <Label>Starts (optional)</Label>
+              <Input type="datetime-local" value={draft.startDate} onChange={set("startDate")} />
+            </div>
+            <div className="space-y-1">
+              <Label>Ends (optional)</Label>
+              <Input type="datetime-local" value={draft.endDate} onChange={set("endDate")} />
+            </div>
+            <div className="md:col-span-2">
+              <Button type="submit" disabled={createMutation.isPending}>Create test</Button>
+            </div>
+          </form>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <div className="py-8 text-center text-muted-foreground">Loading...</div>
+      ) : data?.abTests.length === 0 ? (
+        <div className="py-8 text-center text-muted-foreground">No A/B tests yet.</div>
+      ) : (
+        data?.abTests.map((test) => {
+          const results = test.results as SeoAbTestResults | null;
+          const busy = actionMutation.isPending;
+          const sourcesFor = (variant: "A" | "B") =>
+            Object.entries(results?.sources ?? {})
+              .filter(([, served]) => served === variant)
+              .map(([source]) => SOURCE_LABELS[source] ?? source);
+          return (
+            <Card key={test.id} data-testid={`ab-test-${test.id}`}>
+              <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+                <div className="space-y-1">
+                  <CardTitle className="text-base flex items-center gap-2">
+                    {test.name}
+                    <Badge variant={STATUS_VARIANTS[test.status] ?? "outline"}>{test.status}</Badge>
+                    {results?.promoted && <Badge variant="outline">Promoted {results.promoted.variant}</Badge>}
+                  </CardTitle>
+                  <CardDescription>
+                    {ELEMENT_LABELS[test.elementType] ?? test.elementType} on <code>{test.pageUrl}</code> · {test.trafficSplit}/{100 - test.trafficSplit} split
+                    {test.startDate && ` · from ${new Date(test.startDate).toLocaleString()}`}
+                    {test.endDate && ` · until ${new Date(test.endDate).toLocaleString()}`}
+                  </CardDescription>
+                </div>
+                <div className="flex gap-1">
+                  {(test.status === "draft" || test.status === "paused") && (
+                    <Button size="sm" variant="outline" disabled={busy} onClick={() => actionMutation.mutate({ id: test.id, action: "start" })}>
+                      <Play className="h-4 w-4 mr-1" /> Start
+                    </Button>
+                  )}
+                  {test.status === "running" && (
+                    <Button size="sm" variant="outline" disabled={busy} onClick={() => actionMutation.mutate({ id: test.id, action: "pause" })}>
+                      <Pause className="h-4 w-4 mr-1" /> Pause
+                    </Button>
+                  )}
+                  {test.status !== "completed" && (
+                    <Button size="sm" variant="outline" disabled={busy} onClick={() => actionMutation.mutate({ id: test.id, action: "stop" })}>
+                      <Square className="h-4 w-4 mr-1" /> Stop
+                    </Button>
+                  )}
+                  {!results?.promoted && (
+                    <Button size="sm" disabled={busy} onClick={() => promote(test)}>
+                      <Trophy className="h-4 w-4 mr-1" /> Promote winner
+                    </Button>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <div className="grid gap-3 md:grid-cols-2">
+                  <VariantStats label="Variant A" text={test.variantA} stats={results?.variantA} sources={sourcesFor("A")} winner={results?.winner === "A"} />
+                  <VariantStats label="Variant B" text={test.variantB} stats={results?.variantB} sources={sourcesFor("B")} winner={results?.winner === "B"} />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {results?.pValue == null
+                    ? "Not enough data yet."
+                    : results.significant
+                      ? `Variant ${results.winner} wins (p = ${results.pValue}).`
+                      : `No significant difference yet (p = ${results.pValue}; needs p < 0.05 and 100 impressions per variant).`}
+                </p>
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+-- Full-text + fuzzy search for videos.
+-- A weighted tsvector per video (title > tags > channel/categories > description) lives in
+-- video_search_index and is kept current by triggers on every table that feeds it.
+-- unaccent lets "sestra" match "šestra"; pg_trgm provides the typo-tolerant fallback.
+
+CREATE EXTENSION IF NOT EXISTS unaccent;
+--> statement-breakpoint
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION immutable_unaccent(text) RETURNS text AS $$
+  SELECT public.unaccent('public.unaccent', $1)
+$$ LANGUAGE sql IMMUTABLE PARALLEL SAFE STRICT;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "video_search_index" (
+  "video_id" varchar PRIMARY KEY NOT NULL REFERENCES "videos"("id") ON DELETE CASCADE,
+  "document" tsvector NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "video_search_index_document_idx" ON "video_search_index" USING gin ("document");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "videos_title_trgm_idx" ON "videos" USING gin (immutable_unaccent(lower("title")) gin_trgm_ops);
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION refresh_video_search_document(target_video_id varchar) RETURNS void AS $$
+BEGIN
+  INSERT INTO "video_search_index" ("video_id", "document", "updated_at")
+  SELECT
+    v."id",
+    setweight(to_tsvector('simple', immutable_unaccent(coalesce(v."title", ''))), 'A') ||
+    setweight(to_tsvector('simple', immutable_unaccent(coalesce((
+      SELECT string_agg(tt."tag_name", ' ')
+      FROM "tags" t
+      JOIN "tag_translations" tt ON tt."tag_id" = t."id"
+      WHERE t."video_id" = v."id"
+    ), ''))), 'B') ||
+    setweight(to_tsvector('simple', immutable_unaccent(coalesce(c."name", '') || ' ' || coalesce((
+      SELECT string_agg(ct."name", ' ')
+      FROM "video_categories" vc
+      JOIN "category_translations" ct ON ct."category_id" = vc."category_id"
+      WHERE vc."video_id" = v."id"
+    ), ''))), 'C') ||
+    setweight(to_tsvector('simple', immutable_unaccent(coalesce(v."description", ''))), 'D'),
+    now()
+  FROM "videos" v
+  LEFT JOIN "channels" c ON c."id" = v."channel_id"
+  WHERE v."id" = target_video_id
+  ON CONFLICT ("video_id") DO UPDATE
+    SET "document" = EXCLUDED."document", "updated_at" = EXCLUDED."updated_at";
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION video_search_videos_trigger() RETURNS trigger AS $$
+BEGIN
+  PERFORM refresh_video_search_document(NEW."id");
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "videos_search_refresh" ON "videos";
+--> statement-breakpoint
+CREATE TRIGGER "videos_search_refresh"
+  AFTER INSERT OR UPDATE OF "title", "description", "channel_id" ON "videos"
+  FOR EACH ROW EXECUTE FUNCTION video_search_videos_trigger();
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION video_search_tags_trigger() RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM refresh_video_search_document(OLD."video_id");
+  ELSE
+    PERFORM refresh_video_search_document(NEW."video_id");
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "tags_search_refresh" ON "tags";
+--> statement-breakpoint
+CREATE TRIGGER "tags_search_refresh"
+  AFTER DELETE ON "tags"
+  FOR EACH ROW EXECUTE FUNCTION video_search_tags_trigger();
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "video_categories_search_refresh" ON "video_categories";
+--> statement-breakpoint
+CREATE TRIGGER "video_categories_search_refresh"
+  AFTER INSERT OR DELETE ON "video_categories"
+  FOR EACH ROW EXECUTE FUNCTION video_search_tags_trigger();
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION video_search_tag_translations_trigger() RETURNS trigger AS $$
+DECLARE
+  owner_video_id varchar;
+BEGIN
+  SELECT t."video_id" INTO owner_video_id
+  FROM "tags" t
+  WHERE t."id" = (CASE WHEN TG_OP = 'DELETE' THEN OLD."tag_id" ELSE NEW."tag_id" END);
+  IF owner_video_id IS NOT NULL THEN
+    PERFORM refresh_video_search_document(owner_video_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "tag_translations_search_refresh" ON "tag_translations";
+--> statement-breakpoint
+CREATE TRIGGER "tag_translations_search_refresh"
+  AFTER INSERT OR UPDATE OF "tag_name" OR DELETE ON "tag_translations"
+  FOR EACH ROW EXECUTE FUNCTION video_search_tag_translations_trigger();
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION video_search_channels_trigger() RETURNS trigger AS $$
+BEGIN
+  PERFORM refresh_video_search_document(v."id") FROM "videos" v WHERE v."channel_id" = NEW."id";
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "channels_search_refresh" ON "channels";
+--> statement-breakpoint
+CREATE TRIGGER "channels_search_refresh"
+  AFTER UPDATE OF "name" ON "channels"
+  FOR EACH ROW EXECUTE FUNCTION video_search_channels_trigger();
+--> statement-breakpoint
+CREATE OR REPLACE FUNCTION video_search_category_translations_trigger() RETURNS trigger AS $$
+BEGIN
+  PERFORM refresh_video_search_document(vc."video_id")
+  FROM "video_categories" vc
+  WHERE vc."category_id" = NEW."category_id";
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+--> statement-breakpoint
+DROP TRIGGER IF EXISTS "category_translations_search_refresh" ON "category_translations";
+--> statement-breakpoint
+CREATE TRIGGER "category_translations_search_refresh"
+  AFTER INSERT OR UPDATE OF "name" ON "category_translations"
+  FOR EACH ROW EXECUTE FUNCTION video_search_category_translations_trigger();
+--> statement-breakpoint
+-- Backfill only rows that are missing so repeated boots stay cheap.
+SELECT refresh_video_search_document(v."id")
+FROM "videos" v
+WHERE NOT EXISTS (SELECT 1 FROM "video_search_index" si WHERE si."video_id" = v."id");
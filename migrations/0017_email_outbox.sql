@@ -0,0 +1,27 @@
+-- Outbound email: admin notification preferences on email_settings plus an outbox
+-- that the mailer drains with retry/backoff.
+
+ALTER TABLE "email_settings" ADD COLUMN IF NOT EXISTS "notification_recipients" text;
+--> statement-breakpoint
+ALTER TABLE "email_settings" ADD COLUMN IF NOT EXISTS "notification_locale" text DEFAULT 'en' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "email_settings" ADD COLUMN IF NOT EXISTS "error_alert_threshold" integer DEFAULT 25 NOT NULL;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "email_outbox" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "template" text NOT NULL,
+  "locale" text DEFAULT 'en' NOT NULL,
+  "to_address" text NOT NULL,
+  "subject" text NOT NULL,
+  "text_body" text NOT NULL,
+  "html_body" text NOT NULL,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "max_attempts" integer DEFAULT 6 NOT NULL,
+  "next_attempt_at" timestamp DEFAULT now() NOT NULL,
+  "last_error" text,
+  "sent_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "email_outbox_status_next_attempt_idx" ON "email_outbox" ("status", "next_attempt_at");
@@ -0,0 +1,35 @@
+-- IMAP ingestion: sync cursor on email_settings and a threaded inbox message store.
+
+ALTER TABLE "email_settings" ADD COLUMN IF NOT EXISTS "imap_last_uid" integer DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "email_settings" ADD COLUMN IF NOT EXISTS "imap_uid_validity" text;
+--> statement-breakpoint
+ALTER TABLE "email_settings" ADD COLUMN IF NOT EXISTS "imap_last_polled_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "email_settings" ADD COLUMN IF NOT EXISTS "imap_last_error" text;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "inbox_messages" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "message_id" text NOT NULL UNIQUE,
+  "thread_id" varchar NOT NULL,
+  "thread_subject" text DEFAULT '' NOT NULL,
+  "in_reply_to" text,
+  "references" text,
+  "from_address" text NOT NULL,
+  "from_name" text,
+  "to_address" text,
+  "subject" text DEFAULT '' NOT NULL,
+  "text_body" text DEFAULT '' NOT NULL,
+  "status" text DEFAULT 'unread' NOT NULL,
+  "mailbox" text,
+  "imap_uid" integer,
+  "detected_urls" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "received_at" timestamp DEFAULT now() NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "inbox_messages_thread_idx" ON "inbox_messages" ("thread_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "inbox_messages_status_received_idx" ON "inbox_messages" ("status", "received_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "inbox_messages_thread_subject_idx" ON "inbox_messages" ("thread_subject");
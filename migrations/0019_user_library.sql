@@ -0,0 +1,24 @@
+-- Per-user library: owned playlists with visibility, account-linked likes and watch history with resume position.
+
+ALTER TABLE "playlists" ADD COLUMN IF NOT EXISTS "owner_id" varchar REFERENCES "users"("id") ON DELETE CASCADE;
+--> statement-breakpoint
+ALTER TABLE "playlists" ADD COLUMN IF NOT EXISTS "visibility" text DEFAULT 'public' NOT NULL;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "playlists_owner_idx" ON "playlists" ("owner_id");
+--> statement-breakpoint
+ALTER TABLE "video_likes" ADD COLUMN IF NOT EXISTS "user_id" varchar REFERENCES "users"("id") ON DELETE CASCADE;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "video_likes_user_idx" ON "video_likes" ("user_id");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "watch_history" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "video_id" varchar NOT NULL REFERENCES "videos"("id") ON DELETE CASCADE,
+  "position_seconds" integer DEFAULT 0 NOT NULL,
+  "duration_seconds" integer,
+  "watched_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "watch_history_user_video_idx" ON "watch_history" ("user_id", "video_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "watch_history_user_watched_idx" ON "watch_history" ("user_id", "watched_at");
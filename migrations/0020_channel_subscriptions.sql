@@ -0,0 +1,27 @@
+-- Channel subscriptions (accounts or anonymous visitors) and "new video" notifications for subscribers.
+
+CREATE TABLE IF NOT EXISTS "channel_subscriptions" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "subscriber_key" text NOT NULL,
+  "user_id" varchar REFERENCES "users"("id") ON DELETE CASCADE,
+  "channel_id" varchar NOT NULL REFERENCES "channels"("id") ON DELETE CASCADE,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "channel_subscriptions_subscriber_channel_idx" ON "channel_subscriptions" ("subscriber_key", "channel_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "channel_subscriptions_channel_idx" ON "channel_subscriptions" ("channel_id");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "notifications" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "subscriber_key" text NOT NULL,
+  "type" text DEFAULT 'new_video' NOT NULL,
+  "channel_id" varchar NOT NULL REFERENCES "channels"("id") ON DELETE CASCADE,
+  "video_id" varchar NOT NULL REFERENCES "videos"("id") ON DELETE CASCADE,
+  "read_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "notifications_subscriber_video_idx" ON "notifications" ("subscriber_key", "type", "video_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "notifications_subscriber_created_idx" ON "notifications" ("subscriber_key", "created_at");
@@ -0,0 +1,14 @@
+-- YouTube Data API ingestion: per-channel mode, daily quota limit and quota usage per Pacific-time day.
+
+ALTER TABLE "channels" ADD COLUMN IF NOT EXISTS "ingestion_mode" text DEFAULT 'api' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "system_settings" ADD COLUMN IF NOT EXISTS "youtube_quota_daily_limit" integer DEFAULT 10000 NOT NULL;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "youtube_api_quota" (
+  "day" text PRIMARY KEY NOT NULL,
+  "units" integer DEFAULT 0 NOT NULL,
+  "calls" integer DEFAULT 0 NOT NULL,
+  "by_method" jsonb DEFAULT '{}'::jsonb NOT NULL,
+  "exhausted_at" timestamp,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
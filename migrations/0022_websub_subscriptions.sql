@@ -0,0 +1,21 @@
+-- WebSub (PubSubHubbub) push subscriptions for YouTube channels.
+
+CREATE TABLE IF NOT EXISTS "websub_subscriptions" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "channel_id" varchar NOT NULL UNIQUE REFERENCES "channels"("id") ON DELETE CASCADE,
+  "topic_url" text NOT NULL,
+  "hub_url" text NOT NULL,
+  "secret" text NOT NULL,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "lease_seconds" integer,
+  "lease_expires_at" timestamp,
+  "last_requested_at" timestamp,
+  "verified_at" timestamp,
+  "last_notification_at" timestamp,
+  "notification_count" integer DEFAULT 0 NOT NULL,
+  "last_error" text,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "websub_subscriptions_lease_expires_idx" ON "websub_subscriptions" ("lease_expires_at");
@@ -0,0 +1,25 @@
+-- Periodic metadata refresh: refresh bookkeeping, trending score and
+-- hiding of deleted/private videos, plus view-count snapshots.
+
+ALTER TABLE "videos" ADD COLUMN IF NOT EXISTS "metadata_refreshed_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN IF NOT EXISTS "next_refresh_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN IF NOT EXISTS "trending_score" double precision DEFAULT 0 NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN IF NOT EXISTS "hidden_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN IF NOT EXISTS "hidden_reason" text;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "videos_next_refresh_at_idx" ON "videos" ("next_refresh_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "videos_trending_score_idx" ON "videos" ("trending_score");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "video_view_snapshots" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "video_id" varchar NOT NULL REFERENCES "videos"("id") ON DELETE CASCADE,
+  "view_count" bigint NOT NULL,
+  "captured_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "video_view_snapshots_video_captured_idx" ON "video_view_snapshots" ("video_id", "captured_at");
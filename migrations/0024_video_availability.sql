@@ -0,0 +1,10 @@
+-- Embed availability checks: last known status per video, when it was
+-- checked, and whether an admin restored it from the quarantine queue.
+
+ALTER TABLE "videos" ADD COLUMN IF NOT EXISTS "availability" text DEFAULT 'available' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN IF NOT EXISTS "availability_checked_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN IF NOT EXISTS "availability_reviewed_at" timestamp;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "videos_availability_checked_at_idx" ON "videos" ("availability_checked_at");
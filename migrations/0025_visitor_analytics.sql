@@ -0,0 +1,47 @@
+-- First-party visitor analytics: the tables were defined without a
+-- migration, and sessions now keep their landing page and page count.
+
+CREATE TABLE IF NOT EXISTS "visitor_sessions" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "visitor_id" varchar NOT NULL,
+  "ip_hash" varchar,
+  "user_agent" text,
+  "browser" text,
+  "os" text,
+  "device" text,
+  "country" text,
+  "city" text,
+  "referrer" text,
+  "utm_source" text,
+  "utm_medium" text,
+  "utm_campaign" text,
+  "started_at" timestamp DEFAULT now() NOT NULL,
+  "ended_at" timestamp DEFAULT now() NOT NULL,
+  "duration_seconds" integer DEFAULT 0,
+  "is_bounce" boolean DEFAULT true,
+  "consent_granted" boolean DEFAULT false
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "visitor_sessions_started_at_idx" ON "visitor_sessions" ("started_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "visitor_sessions_visitor_id_idx" ON "visitor_sessions" ("visitor_id");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "page_views" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "session_id" varchar NOT NULL,
+  "visitor_id" varchar NOT NULL,
+  "path" text NOT NULL,
+  "title" text,
+  "duration_seconds" integer DEFAULT 0,
+  "timestamp" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "page_views_session_id_idx" ON "page_views" ("session_id");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "page_views_timestamp_idx" ON "page_views" ("timestamp");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "page_views_path_idx" ON "page_views" ("path");
+--> statement-breakpoint
+ALTER TABLE "visitor_sessions" ADD COLUMN IF NOT EXISTS "landing_path" text;
+--> statement-breakpoint
+ALTER TABLE "visitor_sessions" ADD COLUMN IF NOT EXISTS "page_view_count" integer DEFAULT 0 NOT NULL;
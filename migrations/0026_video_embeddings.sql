@@ -0,0 +1,20 @@
+-- Embedding vectors for related videos and semantic search.
+-- The vector column has no fixed dimension so the embedding model can change
+-- without a migration; rows are only compared within one model, with exact
+-- scans over that model's rows. The settings column goes first so it is added
+-- even where the pgvector extension isn't available.
+
+ALTER TABLE "ai_settings" ADD COLUMN IF NOT EXISTS "embedding_model" text;
+--> statement-breakpoint
+CREATE EXTENSION IF NOT EXISTS vector;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "video_embeddings" (
+  "video_id" varchar PRIMARY KEY NOT NULL REFERENCES "videos"("id") ON DELETE CASCADE,
+  "model" text NOT NULL,
+  "dimensions" integer NOT NULL,
+  "content_hash" varchar(64) NOT NULL,
+  "embedding" vector NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "video_embeddings_model_idx" ON "video_embeddings" ("model");
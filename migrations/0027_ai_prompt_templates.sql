@@ -0,0 +1,17 @@
+-- Versioned AI prompt templates. Saving a template adds a version instead of
+-- overwriting; videos remember which version categorized them.
+
+CREATE TABLE IF NOT EXISTS "ai_prompt_templates" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "key" text NOT NULL,
+  "version" integer NOT NULL,
+  "body" text NOT NULL,
+  "note" text,
+  "is_active" boolean DEFAULT false NOT NULL,
+  "created_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "ai_prompt_templates_key_version_idx" ON "ai_prompt_templates" ("key", "version");
+--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN IF NOT EXISTS "categorization_prompt_id" varchar;
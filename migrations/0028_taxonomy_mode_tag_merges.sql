@@ -0,0 +1,24 @@
+-- Controlled taxonomy mode and review of near-duplicate tag merges.
+-- A tag name is shared by every video that has the tag (one tags row per
+-- video), so it can no longer be unique per language.
+
+ALTER TABLE "ai_settings" ADD COLUMN IF NOT EXISTS "taxonomy_mode" text DEFAULT 'open' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "tag_translations" DROP CONSTRAINT IF EXISTS "tag_translations_name_lang_unique";
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tag_translations_name_lang_idx" ON "tag_translations" ("tag_name", "language_code");
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "tag_merge_proposals" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "target_name" text NOT NULL,
+  "source_names" jsonb NOT NULL,
+  "reason" text NOT NULL,
+  "score" double precision NOT NULL,
+  "video_count" integer DEFAULT 0 NOT NULL,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "resolved_by" varchar REFERENCES "users"("id") ON DELETE SET NULL,
+  "resolved_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "tag_merge_proposals_status_idx" ON "tag_merge_proposals" ("status");
@@ -0,0 +1,23 @@
+-- AI usage metering, spending budgets and the provider failover chain.
+
+ALTER TABLE "ai_settings" ADD COLUMN IF NOT EXISTS "failover_providers" jsonb DEFAULT '[]'::jsonb NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "ai_settings" ADD COLUMN IF NOT EXISTS "daily_budget_usd" double precision;
+--> statement-breakpoint
+ALTER TABLE "ai_settings" ADD COLUMN IF NOT EXISTS "monthly_budget_usd" double precision;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "ai_usage_events" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "feature" text NOT NULL,
+  "provider" text NOT NULL,
+  "model" text NOT NULL,
+  "prompt_tokens" integer DEFAULT 0 NOT NULL,
+  "completion_tokens" integer DEFAULT 0 NOT NULL,
+  "latency_ms" integer DEFAULT 0 NOT NULL,
+  "cost_usd" double precision DEFAULT 0 NOT NULL,
+  "outcome" text NOT NULL,
+  "error" text,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "ai_usage_events_created_at_idx" ON "ai_usage_events" ("created_at");
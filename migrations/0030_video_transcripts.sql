@@ -0,0 +1,16 @@
+-- Caption transcripts per video and language, and when each video's tracks were last looked up.
+
+ALTER TABLE "videos" ADD COLUMN IF NOT EXISTS "transcript_checked_at" timestamp;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "video_transcripts" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "video_id" varchar NOT NULL REFERENCES "videos"("id") ON DELETE CASCADE,
+  "language_code" text NOT NULL,
+  "source" text NOT NULL,
+  "segments" jsonb NOT NULL,
+  "text" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "video_transcripts_video_language_idx" ON "video_transcripts" ("video_id", "language_code");
@@ -0,0 +1,16 @@
+-- Video chapters from description timestamps or AI segmentation of the transcript.
+
+ALTER TABLE "videos" ADD COLUMN IF NOT EXISTS "chapters_checked_at" timestamp;
+--> statement-breakpoint
+ALTER TABLE "ai_settings" ADD COLUMN IF NOT EXISTS "ai_chapters" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "video_chapters" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "video_id" varchar NOT NULL REFERENCES "videos"("id") ON DELETE CASCADE,
+  "start_seconds" integer NOT NULL,
+  "title" text NOT NULL,
+  "source" text NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "video_chapters_video_start_idx" ON "video_chapters" ("video_id", "start_seconds");
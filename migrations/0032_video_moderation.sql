@@ -0,0 +1,24 @@
+-- Moderation of ingested videos: keyword rules, an AI safety check and channel trust levels.
+-- Existing videos stay approved.
+
+ALTER TABLE "videos" ADD COLUMN IF NOT EXISTS "moderation_status" text DEFAULT 'approved' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN IF NOT EXISTS "moderation_reason" text;
+--> statement-breakpoint
+ALTER TABLE "videos" ADD COLUMN IF NOT EXISTS "moderated_at" timestamp;
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "videos_moderation_status_idx" ON "videos" ("moderation_status");
+--> statement-breakpoint
+ALTER TABLE "channels" ADD COLUMN IF NOT EXISTS "trust_level" text DEFAULT 'standard' NOT NULL;
+--> statement-breakpoint
+ALTER TABLE "ai_settings" ADD COLUMN IF NOT EXISTS "ai_moderation" boolean DEFAULT false NOT NULL;
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "moderation_rules" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "pattern" text NOT NULL,
+  "is_regex" boolean DEFAULT false NOT NULL,
+  "action" text DEFAULT 'review' NOT NULL,
+  "note" text,
+  "is_active" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
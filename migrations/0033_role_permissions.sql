@@ -0,0 +1,8 @@
+-- Role-based access to the admin panel. Roles without a row use the
+-- defaults in shared/schema.ts (DEFAULT_ROLE_PERMISSIONS).
+
+CREATE TABLE IF NOT EXISTS "role_permissions" (
+  "role" text PRIMARY KEY NOT NULL,
+  "permissions" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
@@ -0,0 +1,17 @@
+-- Personal API tokens for the /api/v1 read API. Only a SHA-256 hash of each
+-- secret is stored.
+
+CREATE TABLE IF NOT EXISTS "api_tokens" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "name" text NOT NULL,
+  "token_prefix" text NOT NULL,
+  "token_hash" text NOT NULL UNIQUE,
+  "scopes" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "last_used_at" timestamp,
+  "expires_at" timestamp,
+  "revoked_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "api_tokens_user_id_idx" ON "api_tokens" ("user_id");
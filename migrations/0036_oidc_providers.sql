@@ -0,0 +1,35 @@
+-- OpenID Connect sign-in providers and the identities that link users to them.
+
+CREATE TABLE IF NOT EXISTS "oidc_providers" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "slug" text NOT NULL UNIQUE,
+  "name" text NOT NULL,
+  "issuer" text,
+  "client_id" text NOT NULL,
+  "client_secret" text,
+  "scopes" text DEFAULT 'openid email profile' NOT NULL,
+  "authorization_endpoint" text,
+  "token_endpoint" text,
+  "userinfo_endpoint" text,
+  "enabled" boolean DEFAULT true NOT NULL,
+  "allow_signup" boolean DEFAULT true NOT NULL,
+  "link_by_email" boolean DEFAULT true NOT NULL,
+  "role_claim" text,
+  "role_mappings" jsonb DEFAULT '{}'::jsonb NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "user_identities" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "user_id" varchar NOT NULL REFERENCES "users"("id") ON DELETE CASCADE,
+  "provider_id" varchar NOT NULL REFERENCES "oidc_providers"("id") ON DELETE CASCADE,
+  "subject" text NOT NULL,
+  "email" text,
+  "last_login_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "user_identities_provider_subject_idx" ON "user_identities" ("provider_id", "subject");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "user_identities_user_id_idx" ON "user_identities" ("user_id");
@@ -0,0 +1,31 @@
+-- Outgoing webhook subscriptions and their delivery log.
+
+CREATE TABLE IF NOT EXISTS "webhook_subscriptions" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "name" text NOT NULL,
+  "url" text NOT NULL,
+  "secret" text NOT NULL,
+  "events" jsonb DEFAULT '[]'::jsonb NOT NULL,
+  "enabled" boolean DEFAULT true NOT NULL,
+  "created_at" timestamp DEFAULT now() NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "webhook_deliveries" (
+  "id" varchar PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+  "subscription_id" varchar NOT NULL REFERENCES "webhook_subscriptions"("id") ON DELETE CASCADE,
+  "event" text NOT NULL,
+  "payload" jsonb NOT NULL,
+  "status" text DEFAULT 'pending' NOT NULL,
+  "attempts" integer DEFAULT 0 NOT NULL,
+  "max_attempts" integer DEFAULT 8 NOT NULL,
+  "next_attempt_at" timestamp DEFAULT now() NOT NULL,
+  "last_status_code" integer,
+  "last_error" text,
+  "delivered_at" timestamp,
+  "created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_status_next_attempt_idx" ON "webhook_deliveries" ("status", "next_attempt_at");
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "webhook_deliveries_subscription_created_idx" ON "webhook_deliveries" ("subscription_id", "created_at");
@@ -0,0 +1,4 @@
+-- Lets a password reset log the account out everywhere: sessions that signed
+-- in before this time are dropped on their next request.
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "sessions_revoked_at" timestamp;
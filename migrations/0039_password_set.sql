@@ -0,0 +1,4 @@
+-- Accounts created through a sign-in provider get a random password nobody
+-- knows; they can add an email without one and set a password by reset link.
+
+ALTER TABLE "users" ADD COLUMN IF NOT EXISTS "password_set" boolean NOT NULL DEFAULT true;
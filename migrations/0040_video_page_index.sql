@@ -0,0 +1,5 @@
+-- Keyset pagination of the public API compares created_at truncated to the
+-- millisecond (the cursor's precision), then id.
+
+CREATE INDEX IF NOT EXISTS "videos_created_at_ms_id_idx"
+  ON "videos" (date_trunc('milliseconds', "created_at") DESC, "id" DESC);
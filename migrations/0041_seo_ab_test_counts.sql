@@ -0,0 +1,10 @@
+-- Impressions and clicks per SEO A/B test variant, counted as page views happen.
+
+CREATE TABLE IF NOT EXISTS "seo_ab_test_counts" (
+  "test_id" varchar NOT NULL REFERENCES "seo_ab_tests"("id") ON DELETE CASCADE,
+  "variant" text NOT NULL,
+  "impressions" integer DEFAULT 0 NOT NULL,
+  "clicks" integer DEFAULT 0 NOT NULL,
+  "updated_at" timestamp DEFAULT now() NOT NULL,
+  PRIMARY KEY ("test_id", "variant")
+);
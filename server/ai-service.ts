@@ -3,15 +3,34 @@ import pRetry, { AbortError } from "p-retry";
 import { z } from "zod";
 import { translateContent } from "./services/translation-service.js";
 import { db } from "./db.js";
-import { aiSettings } from "../shared/schema.js";
+import { aiSettings, AI_PROVIDERS, type AiFeature, type AiProvider, type TaxonomyMode } from "../shared/schema.js";
 import { recordError } from "./error-log-service.js";
+import { AiBudgetExceededError } from "./errors/custom-errors.js";
+import { assertAiBudget, estimateTokens, recordAiUsage, type AiCallUsage } from "./services/ai-usage.js";
+import {
+  buildCategorizationPrompt,
+  buildCategorizationSchema,
+  getCategorizationLanguages,
+  getCuratedCategories,
+  matchCuratedCategories,
+  outputField,
+  resolvePromptTemplate,
+  type CategorizationLanguage,
+} from "./services/prompt-templates.js";
+
+// Used when no embedding model is set in Admin → AI Settings
+export const DEFAULT_EMBEDDING_MODELS = {
+  ollama: "nomic-embed-text",
+  openai: "text-embedding-3-small",
+  openrouter: "openai/text-embedding-3-small",
+} as const;
 
 export async function getAiConfig() {
   try {
     const settings = await db.select().from(aiSettings).limit(1);
     const config = settings[0];
 
-    const provider = (config?.provider || "ollama") as "ollama" | "openai" | "openrouter";
+    const provider = (config?.provider || "ollama") as AiProvider;
 
     const rawOllamaUrl = (config?.ollamaUrl || "http://localhost:11434").trim();
     const ollamaUrl = (() => {
@@ -25,7 +44,7 @@ export async function getAiConfig() {
       }
     })().replace(/\/$/, "");
 
-    const openaiBaseUrlRaw = (config?.openaiBaseUrl || "https://api.openai.com/v1").trim();
+    const openaiBaseUrlRaw = (config?.openaiBaseUrl || process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").trim();
     const openaiBaseUrl = (() => {
       if (!openaiBaseUrlRaw) return "https://api.openai.com/v1";
       if (!/^https?:\/\//i.test(openaiBaseUrlRaw)) return "https://api.openai.com/v1";
@@ -39,6 +58,13 @@ export async function getAiConfig() {
 
     return {
       provider,
+      embeddingModel: config?.embeddingModel?.trim() || DEFAULT_EMBEDDING_MODELS[provider],
+      taxonomyMode: (config?.taxonomyMode === "controlled" ? "controlled" : "open") as TaxonomyMode,
+      failoverProviders: (config?.failoverProviders ?? []).filter((p): p is AiProvider => AI_PROVIDERS.includes(p)),
+      dailyBudgetUsd: config?.dailyBudgetUsd && config.dailyBudgetUsd > 0 ? config.dailyBudgetUsd : null,
+      monthlyBudgetUsd: config?.monthlyBudgetUsd && config.monthlyBudgetUsd > 0 ? config.monthlyBudgetUsd : null,
+      aiChapters: config?.aiChapters === true,
+      aiModeration: config?.aiModeration === true,
       ollama: {
         url: ollamaUrl,
         model: config?.ollamaModel || "llama3",
@@ -46,7 +72,7 @@ export async function getAiConfig() {
       },
       openai: {
         baseUrl: openaiBaseUrl,
-        model: config?.openaiModel || "gpt-4o-mini",
+        model: config?.openaiModel || process.env.OPENAI_MODEL || "gpt-4o-mini",
         apiKey: config?.openaiApiKey || process.env.OPENAI_API_KEY,
       },
       openrouter: {
@@ -66,6 +92,13 @@ export async function getAiConfig() {
     }
     return {
       provider: "ollama" as const,
+      embeddingModel: DEFAULT_EMBEDDING_MODELS.ollama,
+      taxonomyMode: "open" as TaxonomyMode,
+      failoverProviders: [] as AiProvider[],
+      dailyBudgetUsd: null as number | null,
+      monthlyBudgetUsd: null as number | null,
+      aiChapters: false,
+      aiModeration: false,
       ollama: {
         url: "http://localhost:11434",
         model: "llama3",
@@ -73,7 +106,7 @@ export async function getAiConfig() {
       },
       openai: {
         baseUrl: "https://api.openai.com/v1",
-        model: "gpt-4o-mini",
+        model: process.env.OPENAI_MODEL || "gpt-4o-mini",
         apiKey: process.env.OPENAI_API_KEY,
       },
       openrouter: {
@@ -85,6 +118,8 @@ export async function getAiConfig() {
   }
 }
 
+export type AiConfig = Awaited<ReturnType<typeof getAiConfig>>;
+
 // Remove old schema
 // const CategorizationSchema = z.object({
 //   categories: z.array(z.string()).default([]),
@@ -97,8 +132,28 @@ const SeoSchema = z.object({
   keywords: z.array(z.string()).default([]),
 });
 
+const ChaptersSchema = z.object({
+  chapters: z.array(z.object({ start: z.coerce.number().nonnegative(), title: z.string().trim().min(1) })),
+});
+
+export const SAFETY_LABELS = ["nsfw", "violence", "hate", "self_harm", "dangerous", "spam", "off_topic"] as const;
+
+const SafetySchema = z.object({
+  safe: z.boolean(),
+  labels: z.array(z.string()).default([]).transform((labels) =>
+    labels.filter((label): label is (typeof SAFETY_LABELS)[number] => (SAFETY_LABELS as readonly string[]).includes(label)),
+  ),
+  reason: z.string().default(""),
+});
+
+type ChatMessage = { role: "system" | "user"; content: string };
+type Generated = { content: string; usage: AiCallUsage };
+
 // Minimal Ollama Client
-async function ollamaGenerate(prompt: string, options: { model: string; url: string; apiKey?: string | null; format?: string; signal?: AbortSignal }) {
+async function ollamaGenerate(
+  messages: ChatMessage[],
+  options: { model: string; url: string; apiKey?: string | null; format?: string; signal?: AbortSignal },
+): Promise<Generated> {
   try {
     // Fast-fail for localhost on Vercel
     if (process.env.VERCEL === '1' && (options.url.includes('localhost') || options.url.includes('127.0.0.1'))) {
@@ -116,7 +171,7 @@ async function ollamaGenerate(prompt: string, options: { model: string; url: str
       headers,
       body: JSON.stringify({
         model: options.model,
-        messages: [{ role: "user", content: prompt }],
+        messages,
         stream: false,
         format: options.format, // "json" or undefined
         options: {
@@ -139,7 +194,14 @@ async function ollamaGenerate(prompt: string, options: { model: string; url: str
       data?.choices?.[0]?.message?.content ??
       "";
 
-    return typeof content === "string" ? content : "";
+    const text = typeof content === "string" ? content : "";
+    return {
+      content: text,
+      usage: {
+        promptTokens: data?.prompt_eval_count ?? estimateTokens(messages.map((m) => m.content).join("\n")),
+        completionTokens: data?.eval_count ?? estimateTokens(text),
+      },
+    };
   } catch (error: any) {
     if (error.cause?.code === 'ECONNREFUSED') {
        throw new Error(`Ollama connection failed (ECONNREFUSED) at ${options.url}. Is Ollama running?`);
@@ -148,10 +210,11 @@ async function ollamaGenerate(prompt: string, options: { model: string; url: str
   }
 }
 
+// OpenAI-compatible chat completions; OpenRouter reports each call's cost when asked to
 async function openaiGenerate(
-  prompt: string,
-  options: { model: string; baseUrl: string; apiKey?: string | null; signal?: AbortSignal },
-) {
+  messages: ChatMessage[],
+  options: { model: string; baseUrl: string; apiKey?: string | null; reportCost?: boolean; signal?: AbortSignal },
+): Promise<Generated> {
   if (!options.apiKey) {
     throw new Error("OpenAI API key is missing. Set it in Admin → AI Settings.");
   }
@@ -164,8 +227,9 @@ async function openaiGenerate(
     },
     body: JSON.stringify({
       model: options.model,
-      messages: [{ role: "user", content: prompt }],
+      messages,
       temperature: 0.7,
+      ...(options.reportCost ? { usage: { include: true } } : {}),
     }),
     signal: options.signal,
   });
@@ -181,31 +245,215 @@ async function openaiGenerate(
   if (typeof content !== "string") {
     throw new Error("OpenAI API response missing message content");
   }
-  return content;
+  return {
+    content,
+    usage: {
+      promptTokens: data?.usage?.prompt_tokens ?? estimateTokens(messages.map((m) => m.content).join("\n")),
+      completionTokens: data?.usage?.completion_tokens ?? estimateTokens(content),
+      costUsd: typeof data?.usage?.cost === "number" ? data.usage.cost : undefined,
+    },
+  };
 }
 
-export interface VideoCategorizationResult {
-  categories: {
-    en: string[];
-    sr: string[];
+function isVector(value: unknown): value is number[] {
+  return Array.isArray(value) && value.length > 0 && value.every((n) => typeof n === "number");
+}
+
+// Ollama's /api/embeddings takes one prompt per request
+async function ollamaEmbed(
+  texts: string[],
+  options: { model: string; url: string; apiKey?: string | null; signal?: AbortSignal },
+): Promise<{ embeddings: number[][]; usage: AiCallUsage }> {
+  if (process.env.VERCEL === '1' && (options.url.includes('localhost') || options.url.includes('127.0.0.1'))) {
+    throw new Error("Cannot connect to localhost Ollama on Vercel. Please configure a remote Ollama URL or use OpenAI.");
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (options.apiKey) {
+    headers['Authorization'] = `Bearer ${options.apiKey}`;
+  }
+
+  const embeddings: number[][] = [];
+  for (const text of texts) {
+    const response = await fetch(`${options.url}/api/embeddings`, {
+      method: "POST",
+      headers,
+      body: JSON.stringify({ model: options.model, prompt: text }),
+      signal: options.signal,
+    });
+    if (!response.ok) {
+      throw new Error(`Ollama API error: ${response.status} ${response.statusText}`);
+    }
+    const data = (await response.json()) as { embedding?: unknown };
+    if (!isVector(data?.embedding)) {
+      throw new Error(`Ollama returned no embedding; is "${options.model}" an embedding model?`);
+    }
+    embeddings.push(data.embedding);
+  }
+  return { embeddings, usage: { promptTokens: estimateTokens(texts.join("\n")), completionTokens: 0 } };
+}
+
+async function openaiEmbed(
+  texts: string[],
+  options: { model: string; baseUrl: string; apiKey?: string | null; signal?: AbortSignal },
+): Promise<{ embeddings: number[][]; usage: AiCallUsage }> {
+  if (!options.apiKey) {
+    throw new Error("OpenAI API key is missing. Set it in Admin → AI Settings.");
+  }
+
+  const res = await fetch(`${options.baseUrl}/embeddings`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${options.apiKey}`,
+    },
+    body: JSON.stringify({ model: options.model, input: texts }),
+    signal: options.signal,
+  });
+
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    const snippet = text.length > 300 ? `${text.slice(0, 300)}…` : text;
+    throw new Error(`OpenAI API error: ${res.status} ${res.statusText}${snippet ? ` - ${snippet}` : ""}`);
+  }
+
+  const data = (await res.json()) as {
+    data?: { index?: number; embedding?: unknown }[];
+    usage?: { prompt_tokens?: number; cost?: unknown };
   };
-  tags: {
-    en: string[];
-    sr: string[];
+  const items = Array.isArray(data?.data) ? [...data.data] : [];
+  if (items.length !== texts.length) {
+    throw new Error(`OpenAI API returned ${items.length} embeddings for ${texts.length} inputs`);
+  }
+  const embeddings = items
+    .sort((a, b) => (a.index ?? 0) - (b.index ?? 0))
+    .map((item): number[] => {
+      if (!isVector(item.embedding)) throw new Error("OpenAI API returned an empty embedding");
+      return item.embedding;
+    });
+  return {
+    embeddings,
+    usage: {
+      promptTokens: data?.usage?.prompt_tokens ?? estimateTokens(texts.join("\n")),
+      completionTokens: 0,
+      costUsd: typeof data?.usage?.cost === "number" ? data.usage.cost : undefined,
+    },
   };
 }
 
-const CategorizationSchema = z.object({
-  categories_en: z.array(z.string()).default([]),
-  categories_sr: z.array(z.string()).default([]),
-  tags_en: z.array(z.string()).default([]),
-  tags_sr: z.array(z.string()).default([]),
-});
+/** The configured provider, then each failover provider that has what it needs to run. */
+export function getProviderChain(config: AiConfig): AiProvider[] {
+  const isConfigured = (provider: AiProvider) => provider === "ollama" || Boolean(config[provider].apiKey);
+  return [config.provider, ...config.failoverProviders.filter((p) => p !== config.provider && isConfigured(p))].filter(
+    (provider, i, chain) => chain.indexOf(provider) === i,
+  );
+}
+
+export type GenerateTextOptions = {
+  system?: string;
+  /** Ask Ollama for JSON output; other providers follow the prompt */
+  json?: boolean;
+  /** Per provider attempt */
+  timeoutMs?: number;
+};
+
+export type GeneratedText = { content: string; provider: AiProvider; model: string };
+
+/**
+ * Runs the prompt on the configured provider and, when that call fails, on
+ * each failover provider in turn. Every attempt is metered under `feature`.
+ * Throws AiBudgetExceededError without calling anything while a budget is
+ * used up, and the last provider's error when all of them fail.
+ */
+export async function generateText(
+  feature: AiFeature,
+  prompt: string,
+  opts: GenerateTextOptions = {},
+): Promise<GeneratedText> {
+  const config = await getAiConfig();
+  await assertAiBudget(config);
+
+  const messages: ChatMessage[] = [
+    ...(opts.system ? [{ role: "system" as const, content: opts.system }] : []),
+    { role: "user", content: prompt },
+  ];
+  const chain = getProviderChain(config);
+  const failures: string[] = [];
+  let lastError: unknown;
+
+  for (const provider of chain) {
+    const model = config[provider].model;
+    const signal = opts.timeoutMs ? AbortSignal.timeout(opts.timeoutMs) : undefined;
+    const startedAt = Date.now();
+    try {
+      const { content, usage } =
+        provider === "ollama"
+          ? await ollamaGenerate(messages, { ...config.ollama, format: opts.json ? "json" : undefined, signal })
+          : await openaiGenerate(messages, { ...config[provider], reportCost: provider === "openrouter", signal });
+      await recordAiUsage({ feature, provider, model, latencyMs: Date.now() - startedAt, usage });
+      return { content, provider, model };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      await recordAiUsage({ feature, provider, model, latencyMs: Date.now() - startedAt, error: message });
+      failures.push(`${provider}: ${message}`);
+      lastError = error;
+      if (provider !== chain[chain.length - 1]) {
+        console.warn(`[ai] ${provider} failed for ${feature}, trying the next provider:`, message);
+      }
+    }
+  }
+  if (chain.length === 1) throw lastError;
+  throw new Error(`All AI providers failed. ${failures.join("; ")}`);
+}
+
+export interface VideoCategorizationResult {
+  /** Names per language code, index-aligned with "en" */
+  categories: Record<string, string[]>;
+  tags: Record<string, string[]>;
+  /** The prompt template version that was used; null for the built-in prompt or a draft */
+  promptTemplateId: string | null;
+  /**
+   * Controlled taxonomy mode: the existing categories that were chosen. The
+   * names are in `categories.en`; nothing new is created from them.
+   */
+  categoryIds?: string[];
+}
+
+// Answers in the old fixed format: categories/tags without a language, or
+// the language without its script (categories_sr for sr-Latn)
+function applyLegacyFields(result: Record<string, any>, languages: CategorizationLanguage[]) {
+  if (result.categories && !result.categories_en) result.categories_en = result.categories;
+  if (result.tags && !result.tags_en) result.tags_en = result.tags;
+  for (const lang of languages) {
+    for (const kind of ["categories", "tags"] as const) {
+      const field = outputField(kind, lang.code);
+      const legacy = outputField(kind, lang.code.split("-")[0]);
+      if (result[field] === undefined && result[legacy] !== undefined) result[field] = result[legacy];
+    }
+  }
+}
 
+async function translateNames(names: string[], languageCode: string): Promise<string[]> {
+  try {
+    const translated = await translateContent(languageCode, Object.fromEntries(names.map((v, i) => [`n${i}`, v])), "en");
+    return names
+      .map((_, i) => translated[`n${i}`])
+      .filter((v): v is string => typeof v === "string" && v.trim().length > 0)
+      .map((v) => v.trim());
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Categories and tags for every enabled language, from the active prompt
+ * template (or `opts.template`, for trying out a draft). Languages the model
+ * left out are machine-translated from English.
+ */
 export async function categorizeVideo(
   title: string,
   description: string,
-  opts?: { timeoutMs?: number },
+  opts?: { timeoutMs?: number; template?: string; feature?: AiFeature; transcript?: string },
 ): Promise<VideoCategorizationResult> {
   const limit = pLimit(1);
   const timeoutMs = opts?.timeoutMs;
@@ -215,54 +463,20 @@ export async function categorizeVideo(
       async () => {
         try {
           const config = await getAiConfig();
-          
-          const prompt = `Analyze this video and provide categories and tags in both English and Serbian.
-
-Title: ${title}
-Description: ${description || "No description"}
-
-Return a JSON object with:
-- categories_en: array of up to 5 broad categories in English
-- categories_sr: array of up to 5 broad categories in Serbian (Latin script)
-- tags_en: array of up to 10 specific descriptive tags in English
-- tags_sr: array of up to 10 specific descriptive tags in Serbian (Latin script)
-
-Example JSON:
-{
-  "categories_en": ["Technology", "Education"],
-  "categories_sr": ["Tehnologija", "Obrazovanje"],
-  "tags_en": ["AI", "Coding", "Tutorial", "Programming", "Tech", "Software", "Development", "Web", "JavaScript", "React"],
-  "tags_sr": ["Veštačka inteligencija", "Programiranje", "Tutorijal", "Kodiranje", "Tehnologija", "Softver", "Razvoj", "Veb", "JavaScript", "React"]
-}
-
-Return ONLY valid JSON. Do not include markdown formatting or explanations.`;
-
-          const signal = timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined;
-          let content = "";
-
-          if (config.provider === "openai") {
-            content = await openaiGenerate(prompt, {
-              model: config.openai.model,
-              baseUrl: config.openai.baseUrl,
-              apiKey: config.openai.apiKey,
-              signal,
-            });
-          } else if (config.provider === "openrouter") {
-            content = await openaiGenerate(prompt, {
-              model: config.openrouter.model,
-              baseUrl: config.openrouter.baseUrl,
-              apiKey: config.openrouter.apiKey,
-              signal,
-            });
-          } else {
-            content = await ollamaGenerate(prompt, {
-              model: config.ollama.model,
-              url: config.ollama.url,
-              apiKey: config.ollama.apiKey,
-              format: "json",
-              signal,
-            });
-          }
+          const languages = await getCategorizationLanguages();
+          const { body, template } =
+            opts?.template !== undefined
+              ? { body: opts.template, template: null }
+              : await resolvePromptTemplate("categorization");
+
+          const curated = config.taxonomyMode === "controlled" ? await getCuratedCategories() : undefined;
+          const prompt = buildCategorizationPrompt(
+            body,
+            { title, description, transcript: opts?.transcript },
+            languages,
+            curated,
+          );
+          const { content } = await generateText(opts?.feature ?? "categorization", prompt, { json: true, timeoutMs });
 
           let result;
           try {
@@ -273,63 +487,39 @@ Return ONLY valid JSON. Do not include markdown formatting or explanations.`;
             throw new Error(`Failed to parse JSON response: ${content.substring(0, 100)}...`);
           }
 
-          // Support legacy format fallback if model returns old format
-          if (result.categories && !result.categories_en) {
-             result.categories_en = result.categories;
-             result.categories_sr = [];
-          }
-          if (result.tags && !result.tags_en) {
-             result.tags_en = result.tags;
-             result.tags_sr = [];
-          }
-
-          const parsed = CategorizationSchema.safeParse(result);
+          applyLegacyFields(result, languages);
+          const parsed = buildCategorizationSchema(languages).safeParse(result);
           if (!parsed.success) {
              throw new Error(`Invalid JSON schema: ${parsed.error.message}`);
           }
 
-          let categoriesSr = parsed.data.categories_sr;
-          let tagsSr = parsed.data.tags_sr;
-
-          if (categoriesSr.length === 0 && parsed.data.categories_en.length > 0) {
-            try {
-              const payload = Object.fromEntries(
-                parsed.data.categories_en.map((v, i) => [`c${i}`, v]),
-              );
-              const translated = await translateContent("sr-Latn", payload, "en");
-              categoriesSr = parsed.data.categories_en
-                .map((_, i) => translated[`c${i}`])
-                .filter((v): v is string => typeof v === "string" && v.trim().length > 0)
-                .map((v) => v.trim());
-            } catch {
+          const categories: Record<string, string[]> = {};
+          const tags: Record<string, string[]> = {};
+          for (const lang of languages) {
+            tags[lang.code] = parsed.data[outputField("tags", lang.code)];
+            if (lang.code !== "en" && tags[lang.code].length === 0 && tags.en.length > 0) {
+              tags[lang.code] = await translateNames(tags.en, lang.code);
             }
-          }
-
-          if (tagsSr.length === 0 && parsed.data.tags_en.length > 0) {
-            try {
-              const payload = Object.fromEntries(
-                parsed.data.tags_en.map((v, i) => [`t${i}`, v]),
-              );
-              const translated = await translateContent("sr-Latn", payload, "en");
-              tagsSr = parsed.data.tags_en
-                .map((_, i) => translated[`t${i}`])
-                .filter((v): v is string => typeof v === "string" && v.trim().length > 0)
-                .map((v) => v.trim());
-            } catch {
+            // Curated categories already have their translations
+            if (curated && lang.code !== "en") continue;
+            categories[lang.code] = parsed.data[outputField("categories", lang.code)];
+            if (lang.code !== "en" && categories[lang.code].length === 0 && categories.en.length > 0) {
+              categories[lang.code] = await translateNames(categories.en, lang.code);
             }
           }
 
-          return {
-            categories: {
-              en: parsed.data.categories_en,
-              sr: categoriesSr
-            },
-            tags: {
-              en: parsed.data.tags_en,
-              sr: tagsSr
-            },
-          };
+          if (curated) {
+            const chosen = matchCuratedCategories(categories.en, curated);
+            return {
+              categories: { en: chosen.map((category) => category.name) },
+              tags,
+              promptTemplateId: template?.id ?? null,
+              categoryIds: chosen.map((category) => category.id),
+            };
+          }
+          return { categories, tags, promptTemplateId: template?.id ?? null };
         } catch (error: any) {
+          if (error instanceof AiBudgetExceededError) throw new AbortError(error);
           const message = typeof error?.message === "string" ? error.message : String(error);
           const isProviderUnavailable =
             message.includes("Cannot connect to localhost Ollama on Vercel") ||
@@ -382,10 +572,7 @@ export async function batchCategorizeVideos(
           } catch (error: any) {
             console.error("Batch categorization error:", error);
             // Return empty fallback on failure
-            return { 
-              categories: { en: [], sr: [] }, 
-              tags: { en: [], sr: [] } 
-            };
+            return { categories: {}, tags: {}, promptTemplateId: null };
           }
         },
         {
@@ -399,10 +586,15 @@ export async function batchCategorizeVideos(
   return await Promise.all(categorizationPromises);
 }
 
+/** The transcript excerpt as a prompt section, or nothing when the video has none. */
+function transcriptSection(transcript?: string): string {
+  return transcript ? `Transcript (excerpt):\n${transcript}\n` : "";
+}
+
 export async function generateVideoSummary(
   title: string,
   description: string,
-  opts?: { timeoutMs?: number },
+  opts?: { timeoutMs?: number; transcript?: string },
 ): Promise<string> {
   const limit = pLimit(1);
   const timeoutMs = opts?.timeoutMs;
@@ -411,43 +603,19 @@ export async function generateVideoSummary(
     pRetry(
       async () => {
         try {
-          const config = await getAiConfig();
-          
-          const prompt = `Summarize this video content in a concise, engaging paragraph (max 150 words).
+          const prompt = `Summarize this video content in a concise, engaging paragraph (max 150 words).${
+            opts?.transcript ? " Base it on what is said in the transcript." : ""
+          }
 
 Title: ${title}
 Description: ${description || "No description"}
-
+${transcriptSection(opts?.transcript)}
 Summary:`;
 
-          const signal = timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined;
-          let content = "";
-
-          if (config.provider === "openai") {
-            content = await openaiGenerate(prompt, {
-              model: config.openai.model,
-              baseUrl: config.openai.baseUrl,
-              apiKey: config.openai.apiKey,
-              signal,
-            });
-          } else if (config.provider === "openrouter") {
-            content = await openaiGenerate(prompt, {
-              model: config.openrouter.model,
-              baseUrl: config.openrouter.baseUrl,
-              apiKey: config.openrouter.apiKey,
-              signal,
-            });
-          } else {
-            content = await ollamaGenerate(prompt, {
-              model: config.ollama.model,
-              url: config.ollama.url,
-              apiKey: config.ollama.apiKey,
-              signal,
-            });
-          }
-
+          const { content } = await generateText("summary", prompt, { timeoutMs });
           return content.trim() || "No summary available.";
         } catch (error: any) {
+          if (error instanceof AiBudgetExceededError) throw new AbortError(error);
           console.error("Ollama summary error:", error);
           await recordError({
             level: "error",
@@ -476,7 +644,7 @@ export interface SeoMetadataResult {
 export async function generateSeoMetadata(
   title: string,
   description: string,
-  opts?: { timeoutMs?: number },
+  opts?: { timeoutMs?: number; transcript?: string },
 ): Promise<SeoMetadataResult> {
   const limit = pLimit(1);
   const timeoutMs = opts?.timeoutMs;
@@ -485,13 +653,11 @@ export async function generateSeoMetadata(
     pRetry(
       async () => {
         try {
-          const config = await getAiConfig();
-          
           const prompt = `Generate SEO metadata for this video.
 
 Title: ${title}
 Description: ${description || "No description"}
-
+${transcriptSection(opts?.transcript)}
 Return a JSON object with:
 - title: SEO-optimized title (max 60 chars)
 - description: SEO-optimized description (max 160 chars)
@@ -506,32 +672,7 @@ Example JSON:
 
 Return ONLY valid JSON.`;
 
-          const signal = timeoutMs ? AbortSignal.timeout(timeoutMs) : undefined;
-          let content = "";
-
-          if (config.provider === "openai") {
-            content = await openaiGenerate(prompt, {
-              model: config.openai.model,
-              baseUrl: config.openai.baseUrl,
-              apiKey: config.openai.apiKey,
-              signal,
-            });
-          } else if (config.provider === "openrouter") {
-            content = await openaiGenerate(prompt, {
-              model: config.openrouter.model,
-              baseUrl: config.openrouter.baseUrl,
-              apiKey: config.openrouter.apiKey,
-              signal,
-            });
-          } else {
-            content = await ollamaGenerate(prompt, {
-              model: config.ollama.model,
-              url: config.ollama.url,
-              apiKey: config.ollama.apiKey,
-              format: "json",
-              signal,
-            });
-          }
+          const { content } = await generateText("seo", prompt, { json: true, timeoutMs });
 
           let result;
           try {
@@ -557,6 +698,7 @@ Return ONLY valid JSON.`;
             keywords: parsed.data.keywords,
           };
         } catch (error: any) {
+          if (error instanceof AiBudgetExceededError) throw new AbortError(error);
           console.error("Ollama SEO error:", error);
           await recordError({
             level: "error",
@@ -579,3 +721,151 @@ Return ONLY valid JSON.`;
     ),
   );
 }
+
+export type GeneratedChapter = { start: number; title: string };
+
+/**
+ * Splits a video into chapters from its transcript, given as "[m:ss] text"
+ * lines. Errors are thrown to the caller; unlike summaries there is no
+ * placeholder to fall back to.
+ */
+export async function generateVideoChapters(
+  title: string,
+  transcript: string,
+  durationSeconds: number,
+  opts?: { timeoutMs?: number },
+): Promise<GeneratedChapter[]> {
+  const prompt = `Split this video into chapters, like the chapter list under a YouTube video.
+
+Title: ${title}
+Length: ${Math.round(durationSeconds / 60)} minutes
+Transcript:
+${transcript}
+
+Rules:
+- 3 to 12 chapters, each at least a minute long where possible
+- The first chapter starts at 0
+- "start" is the second where the chapter begins, taken from the transcript timestamps
+- Titles are short (2-6 words) and in the language of the transcript
+
+Example JSON:
+{
+  "chapters": [
+    { "start": 0, "title": "Introduction" },
+    { "start": 95, "title": "Preparing the dough" }
+  ]
+}
+
+Return ONLY valid JSON.`;
+
+  const { content } = await generateText("chapters", prompt, { json: true, timeoutMs: opts?.timeoutMs });
+
+  let result;
+  try {
+    const cleaned = content.replace(/```json\n?|\n?```/g, "").trim();
+    result = JSON.parse(cleaned);
+  } catch (e) {
+    throw new Error(`Failed to parse JSON response: ${content.substring(0, 100)}...`);
+  }
+
+  const parsed = ChaptersSchema.safeParse(result);
+  if (!parsed.success) {
+    throw new Error(`Invalid JSON schema: ${parsed.error.message}`);
+  }
+  return parsed.data.chapters;
+}
+
+export type SafetyClassification = z.infer<typeof SafetySchema>;
+
+/**
+ * Asks whether a video belongs on the site: unsafe content (see
+ * SAFETY_LABELS) or, when the site's topics are given, something unrelated
+ * to all of them. Errors are thrown to the caller.
+ */
+export async function classifyVideoSafety(
+  title: string,
+  description: string,
+  opts?: { topics?: string[]; timeoutMs?: number },
+): Promise<SafetyClassification> {
+  const topics = opts?.topics?.length ? opts.topics.slice(0, 50).join(", ") : "";
+  const topicLine = topics ? `Site topics: ${topics}` : "";
+  const offTopicLabel = topics ? "- off_topic: unrelated to all of the site topics" : "";
+  const prompt = `You review videos before they are published on a family-friendly video site.
+
+Title: ${title}
+Description: ${description.substring(0, 2000) || "No description"}
+${topicLine}
+
+Flag the video with every label that applies:
+- nsfw: sexual content or nudity
+- violence: graphic violence or gore
+- hate: hate speech or harassment
+- self_harm: suicide or self-harm
+- dangerous: dangerous acts, weapons or drugs
+- spam: scams, clickbait or misleading content
+${offTopicLabel}
+
+"safe" is false when any label applies. "reason" explains the labels in one sentence.
+
+Example JSON:
+{
+  "safe": false,
+  "labels": ["violence"],
+  "reason": "Shows a street fight with visible injuries."
+}
+
+Return ONLY valid JSON.`;
+
+  const { content } = await generateText("moderation", prompt, { json: true, timeoutMs: opts?.timeoutMs });
+
+  let result;
+  try {
+    const cleaned = content.replace(/```json\n?|\n?```/g, "").trim();
+    result = JSON.parse(cleaned);
+  } catch (e) {
+    throw new Error(`Failed to parse JSON response: ${content.substring(0, 100)}...`);
+  }
+
+  const parsed = SafetySchema.safeParse(result);
+  if (!parsed.success) {
+    throw new Error(`Invalid JSON schema: ${parsed.error.message}`);
+  }
+  return parsed.data;
+}
+
+export interface EmbeddingResult {
+  model: string;
+  embeddings: number[][];
+}
+
+/**
+ * Embeds each text with the configured provider's embedding model, in input
+ * order. Errors are thrown to the caller, which decides whether to fall back.
+ * There is no failover: another model's vectors can't be compared with the
+ * stored ones.
+ */
+export async function generateEmbeddings(
+  texts: string[],
+  opts?: { timeoutMs?: number },
+): Promise<EmbeddingResult> {
+  const config = await getAiConfig();
+  const model = config.embeddingModel;
+  if (texts.length === 0) return { model, embeddings: [] };
+  await assertAiBudget(config);
+
+  const provider = config.provider;
+  const signal = opts?.timeoutMs ? AbortSignal.timeout(opts.timeoutMs) : undefined;
+  const startedAt = Date.now();
+  try {
+    const { embeddings, usage } =
+      provider === "ollama"
+        ? await ollamaEmbed(texts, { ...config.ollama, model, signal })
+        : await openaiEmbed(texts, { ...config[provider], model, signal });
+    await recordAiUsage({ feature: "embedding", provider, model, latencyMs: Date.now() - startedAt, usage });
+    return { model, embeddings };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await recordAiUsage({ feature: "embedding", provider, model, latencyMs: Date.now() - startedAt, error: message });
+    throw error;
+  }
+}
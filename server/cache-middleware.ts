@@ -30,6 +30,9 @@ const PUBLIC_CACHEABLE_ROUTES = [
   "/api/playlists",
 ];
 
+// Per-visitor responses under otherwise public prefixes
+const PUBLIC_CACHE_EXCLUDE = ["/api/videos/for-you"];
+
 const PRIVATE_ADMIN_CACHE_EXCLUDE = [
   "/api/admin/error-logs",
   "/api/admin/error-logs/stream",
@@ -49,6 +52,7 @@ function shouldCache(req: Request, scope: "public" | "private"): boolean {
     if (req.session?.isAuthenticated) return false;
     if (req.path.startsWith("/api/admin")) return false;
     if (req.path.startsWith("/api/auth")) return false;
+    if (PUBLIC_CACHE_EXCLUDE.includes(req.path)) return false;
     const matchesRoute = PUBLIC_CACHEABLE_ROUTES.some(
       (route) => req.path === route || req.path.startsWith(route + "/"),
     );
@@ -0,0 +1,123 @@
+export type ChannelUrlMatch = { platform: "youtube" | "tiktok" | "x"; url: string };
+
+// First path segments on x.com that are app pages rather than profiles
+const X_RESERVED_PATHS = new Set([
+  "home",
+  "explore",
+  "search",
+  "notifications",
+  "messages",
+  "settings",
+  "compose",
+  "intent",
+  "share",
+  "hashtag",
+  "i",
+  "login",
+  "logout",
+  "signup",
+  "tos",
+  "privacy",
+]);
+
+function parseUrl(input: string): URL | null {
+  const raw = (input || "").trim();
+  if (!raw) return null;
+  const withScheme = raw.startsWith("http://") || raw.startsWith("https://") ? raw : `https://${raw}`;
+  try {
+    return new URL(withScheme);
+  } catch {
+    return null;
+  }
+}
+
+export function normalizeYouTubeChannelUrl(input: string): string | null {
+  const url = parseUrl(input);
+  if (!url) return null;
+
+  const host = url.hostname.replace(/^www\./, "").toLowerCase();
+  if (host !== "youtube.com" && host !== "m.youtube.com") return null;
+
+  const path = url.pathname.replace(/\/+$/, "");
+  if (!path || path === "/") return null;
+
+  if (
+    path.startsWith("/watch") ||
+    path.startsWith("/shorts") ||
+    path.startsWith("/playlist") ||
+    path.startsWith("/results")
+  ) {
+    return null;
+  }
+
+  const allowed =
+    path.startsWith("/@") ||
+    path.startsWith("/channel/") ||
+    path.startsWith("/c/") ||
+    path.startsWith("/user/");
+
+  if (!allowed) return null;
+
+  return `https://www.youtube.com${path}`;
+}
+
+/**
+ * Profile and video links both carry the handle (tiktok.com/@user/video/123),
+ * so either resolves to the profile.
+ */
+export function normalizeTikTokProfileUrl(input: string): string | null {
+  const url = parseUrl(input);
+  if (!url) return null;
+
+  const host = url.hostname.replace(/^(www|m)\./, "").toLowerCase();
+  if (host !== "tiktok.com") return null;
+
+  const handle = url.pathname.match(/^\/@([A-Za-z0-9_.]{2,24})(?:\/|$)/)?.[1];
+  return handle ? `https://www.tiktok.com/@${handle}` : null;
+}
+
+/**
+ * Accepts x.com and twitter.com profile or status links and returns the
+ * canonical https://x.com/<handle> form used for X channels.
+ */
+export function normalizeXProfileUrl(input: string): string | null {
+  const url = parseUrl(input);
+  if (!url) return null;
+
+  const host = url.hostname.replace(/^(www|mobile)\./, "").toLowerCase();
+  if (host !== "x.com" && host !== "twitter.com") return null;
+
+  const handle = url.pathname.match(/^\/([A-Za-z0-9_]{1,15})(?:\/|$)/)?.[1];
+  if (!handle || X_RESERVED_PATHS.has(handle.toLowerCase())) return null;
+  return `https://x.com/${handle}`;
+}
+
+export function normalizeChannelUrl(input: string): ChannelUrlMatch | null {
+  const youtube = normalizeYouTubeChannelUrl(input);
+  if (youtube) return { platform: "youtube", url: youtube };
+  const tiktok = normalizeTikTokProfileUrl(input);
+  if (tiktok) return { platform: "tiktok", url: tiktok };
+  const x = normalizeXProfileUrl(input);
+  if (x) return { platform: "x", url: x };
+  return null;
+}
+
+/**
+ * Finds YouTube, TikTok and X channel links in free text (e.g. an email body).
+ * Results are normalized and de-duplicated in order of appearance.
+ */
+export function extractChannelUrls(text: string): ChannelUrlMatch[] {
+  const candidates = (text || "").match(
+    /\b(?:https?:\/\/)?(?:(?:www|m|mobile)\.)?(?:youtube\.com|tiktok\.com|x\.com|twitter\.com)\/[^\s<>"'()\[\]]+/gi,
+  ) || [];
+
+  const seen = new Set<string>();
+  const matches: ChannelUrlMatch[] = [];
+  for (const candidate of candidates) {
+    const match = normalizeChannelUrl(candidate.replace(/[.,;:!?]+$/, ""));
+    if (!match || seen.has(match.url)) continue;
+    seen.add(match.url);
+    matches.push(match);
+  }
+  return matches;
+}
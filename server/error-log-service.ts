@@ -190,7 +190,14 @@ export async function recordError(input: ErrorEventInput) {
       })
       .returning();
 
-    errorLogBus.emit("error_event", { fingerprint, level: input.level });
+    errorLogBus.emit("error_event", {
+      fingerprint,
+      level: input.level,
+      type: input.type,
+      message: input.message,
+      module: input.module,
+      count: row?.count ?? 1,
+    });
     await maybeNotifyCritical(input, fingerprint);
     await enforceRetention();
     return row;
@@ -238,7 +245,14 @@ export async function recordError(input: ErrorEventInput) {
         });
       }
 
-      errorLogBus.emit("error_event", { fingerprint, level: input.level });
+      errorLogBus.emit("error_event", {
+        fingerprint,
+        level: input.level,
+        type: input.type,
+        message: input.message,
+        module: input.module,
+        count: memoryEvents.get(fingerprint).count,
+      });
       await maybeNotifyCritical(input, fingerprint);
       return memoryEvents.get(fingerprint);
     }
@@ -417,7 +431,23 @@ type AuditAction =
   | "auth.login.success"
   | "auth.login.failure"
   | "auth.login.error"
+  | "auth.login.2fa_required"
   | "auth.logout"
+  | "auth.2fa.setup_started"
+  | "auth.2fa.enabled"
+  | "auth.2fa.disabled"
+  | "auth.2fa.failure"
+  | "auth.2fa.recovery_codes_regenerated"
+  | "auth.password_reset.requested"
+  | "auth.password_reset.completed"
+  | "auth.password_reset.failure"
+  | "auth.email.changed"
+  | "auth.email.verification_sent"
+  | "auth.email.verified"
+  | "auth.email.verification_failure"
+  | "auth.oidc.failure"
+  | "auth.oidc.linked"
+  | "auth.oidc.unlinked"
   | "user.register"
   | "user.update"
   | "user.delete"
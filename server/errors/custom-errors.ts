@@ -144,6 +144,24 @@ export class RateLimitError extends ApplicationError {
   }
 }
 
+/**
+ * The daily or monthly AI spending budget is used up
+ */
+export class AiBudgetExceededError extends ApplicationError {
+  constructor(
+    budget: "daily" | "monthly",
+    limitUsd: number,
+    context?: Record<string, any>
+  ) {
+    super(
+      `AI ${budget} budget of $${limitUsd.toFixed(2)} is used up; AI jobs are paused until it resets or is raised`,
+      'AI_BUDGET_EXCEEDED',
+      429,
+      { ...context, budget, limitUsd }
+    );
+  }
+}
+
 /**
  * Error utilities for consistent error handling
  */
@@ -7,6 +7,7 @@ import helmet from "helmet";
 import { pool, isDbReady } from "./db.js";
 import { getHelmetConfig, createRateLimiters, csrfMiddleware } from "./middleware/security.js";
 import { corsMiddleware } from "./middleware/cors.js";
+import { dropRevokedSessions } from "./middleware/auth.js";
 import { registerRoutes } from "./routes.js";
 import publicRoutes from "./routes/public.js";
 import { scheduler } from "./scheduler.js";
@@ -204,6 +205,7 @@ if (process.env.NODE_ENV === "production" && pool) {
 }
 
 app.use(session(sessionConfig));
+app.use("/api", dropRevokedSessions);
 
 declare module "http" {
   interface IncomingMessage {
@@ -29,10 +29,14 @@ function kvDebug(message: string, ...args: any[]) {
 
 export const kvService = {
   /**
-   * Rate limiting for likes
+   * Rate limiting for likes (or any action, with its own limits)
    * Returns true if action is allowed, false if rate limited
    */
-  async checkRateLimit(userIdentifier: string, action: string): Promise<boolean> {
+  async checkRateLimit(
+    userIdentifier: string,
+    action: string,
+    { max = MAX_LIKES_PER_WINDOW, windowMs = RATE_LIMIT_WINDOW }: { max?: number; windowMs?: number } = {},
+  ): Promise<boolean> {
     const key = `ratelimit:${action}:${userIdentifier}`;
     const now = Date.now();
     
@@ -55,7 +59,7 @@ export const kvService = {
       const windowAge = now - windowStart;
       
       // Check if window has expired
-      if (windowAge > RATE_LIMIT_WINDOW) {
+      if (windowAge > windowMs) {
         // Reset window
         kvDebug(`[kv] rate limit reset`);
         await kvStore.set(key, {
@@ -66,8 +70,8 @@ export const kvService = {
       }
       
       // Check if limit exceeded
-      if (count >= MAX_LIKES_PER_WINDOW) {
-        kvDebug(`[kv] rate limit exceeded: ${count} >= ${MAX_LIKES_PER_WINDOW}`);
+      if (count >= max) {
+        kvDebug(`[kv] rate limit exceeded: ${count} >= ${max}`);
         return false;
       }
       
@@ -207,6 +211,17 @@ export const kvService = {
     }
   },
 
+  /**
+   * Clear viewing history for a user
+   */
+  async clearViewingHistory(userIdentifier: string): Promise<void> {
+    try {
+      await kvStore.delete(`history:${userIdentifier}`);
+    } catch (error) {
+      console.error('Clear history error:', error);
+    }
+  },
+
   /**
    * Get KV store statistics
    */
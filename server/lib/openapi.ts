@@ -0,0 +1,80 @@
+import { z } from "zod";
+
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Converts the zod types used by the shared API schemas to OpenAPI 3.1
+ * (JSON Schema) objects. Only the constructs those schemas use are handled;
+ * anything else becomes an unconstrained schema.
+ */
+export function zodToJsonSchema(schema: z.ZodTypeAny): JsonSchema {
+  if (schema instanceof z.ZodOptional) {
+    return zodToJsonSchema(schema.unwrap());
+  }
+  if (schema instanceof z.ZodNullable) {
+    const inner = zodToJsonSchema(schema.unwrap());
+    return typeof inner.type === "string" ? { ...inner, type: [inner.type, "null"] } : { anyOf: [inner, { type: "null" }] };
+  }
+  if (schema instanceof z.ZodDefault) {
+    return { ...zodToJsonSchema(schema._def.innerType), default: schema._def.defaultValue() };
+  }
+  if (schema instanceof z.ZodEffects) {
+    return zodToJsonSchema(schema.innerType());
+  }
+  if (schema instanceof z.ZodObject) {
+    const shape = schema.shape as Record<string, z.ZodTypeAny>;
+    const required = Object.keys(shape).filter((key) => !shape[key].isOptional());
+    return {
+      type: "object",
+      properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, zodToJsonSchema(value)])),
+      ...(required.length ? { required } : {}),
+    };
+  }
+  if (schema instanceof z.ZodArray) {
+    return { type: "array", items: zodToJsonSchema(schema.element) };
+  }
+  if (schema instanceof z.ZodEnum) {
+    return { type: "string", enum: [...schema.options] };
+  }
+  if (schema instanceof z.ZodLiteral) {
+    return { const: schema.value };
+  }
+  if (schema instanceof z.ZodUnion) {
+    return { anyOf: (schema.options as z.ZodTypeAny[]).map(zodToJsonSchema) };
+  }
+  if (schema instanceof z.ZodString) {
+    const result: JsonSchema = { type: "string" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "min") result.minLength = check.value;
+      if (check.kind === "max") result.maxLength = check.value;
+      if (check.kind === "datetime") result.format = "date-time";
+      if (check.kind === "url") result.format = "uri";
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodNumber) {
+    const result: JsonSchema = { type: "number" };
+    for (const check of schema._def.checks) {
+      if (check.kind === "int") result.type = "integer";
+      if (check.kind === "min") result.minimum = check.value;
+      if (check.kind === "max") result.maximum = check.value;
+    }
+    return result;
+  }
+  if (schema instanceof z.ZodBoolean) {
+    return { type: "boolean" };
+  }
+  return {};
+}
+
+/** Query parameters for an operation, one per key of the zod object. */
+export function zodToQueryParameters(schema: z.AnyZodObject): JsonSchema[] {
+  const shape = schema.shape as Record<string, z.ZodTypeAny>;
+  return Object.entries(shape).map(([name, value]) => ({
+    name,
+    in: "query",
+    required: !value.isOptional(),
+    schema: zodToJsonSchema(value),
+    ...(value.description ? { description: value.description } : {}),
+  }));
+}
@@ -1,4 +1,9 @@
-import type { Request, Response, NextFunction } from "express";
+import type { Request, Response, NextFunction, RequestHandler } from "express";
+import { getSessionPermissions } from "../services/permissions.js";
+import { API_RATE_LIMIT, authenticateApiToken } from "../services/api-tokens.js";
+import { kvService } from "../kv-service.js";
+import { storage } from "../storage/index.js";
+import type { ApiTokenScope, Permission } from "../../shared/schema.js";
 
 export function requireAuth(req: Request, res: Response, next: NextFunction) {
   if (req.session.isAuthenticated) {
@@ -8,14 +13,96 @@ export function requireAuth(req: Request, res: Response, next: NextFunction) {
   }
 }
 
-export function requireAdmin(req: Request, res: Response, next: NextFunction) {
-  if (req.session.isAuthenticated && req.session.role === "admin") {
+export type PermissionGuard = RequestHandler & { permissions: Permission[] };
+
+/**
+ * Requires a logged-in user whose role has at least one of the permissions.
+ * Roles that need two-factor auth are turned away until the user enrolls.
+ * The permissions are kept on the handler so route tables can be audited.
+ */
+export function requirePermission(...permissions: Permission[]): PermissionGuard {
+  const guard: RequestHandler = async (req, res, next) => {
+    if (!req.session.isAuthenticated) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    try {
+      const granted = await getSessionPermissions(req.session);
+      if (req.session.twoFactorSetupRequired) {
+        return res.status(403).json({
+          error: "Set up two-factor authentication in your settings to continue",
+          code: "TWO_FACTOR_SETUP_REQUIRED",
+        });
+      }
+      if (permissions.some((permission) => granted.includes(permission))) {
+        return next();
+      }
+      res.status(403).json({ error: "You don't have permission to do this", permissions });
+    } catch (error) {
+      next(error);
+    }
+  };
+  return Object.assign(guard, { permissions });
+}
+
+/**
+ * Logs out sessions that signed in before the user's sessions were revoked
+ * (a password reset does that). The session is regenerated, so the request
+ * carries on as a visitor.
+ */
+export async function dropRevokedSessions(req: Request, _res: Response, next: NextFunction) {
+  if (!req.session?.isAuthenticated || !req.session.userId) return next();
+  try {
+    const user = await storage.getUser(req.session.userId);
+    const revokedAt = user?.sessionsRevokedAt?.getTime();
+    if (!revokedAt || (req.session.authenticatedAt ?? 0) >= revokedAt) return next();
+    req.session.regenerate((err) => next(err));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Requires a logged-in database user. The environment-configured admin has no
+ * user record, so per-user features are not available to it.
+ */
+export function requireUser(req: Request, res: Response, next: NextFunction) {
+  if (req.session.isAuthenticated && req.session.userId) {
     next();
   } else {
-    res.status(403).json({ error: "Unauthorized: Admin access required" });
+    res.status(401).json({ error: "A user account is required" });
   }
 }
 
+/**
+ * Requires an `Authorization: Bearer` API token with the scope, rate limited
+ * per token. The token is left on `res.locals.apiToken`.
+ */
+export function requireApiToken(scope: ApiTokenScope): RequestHandler {
+  return async (req, res, next) => {
+    const header = req.headers.authorization;
+    const secret = header?.startsWith("Bearer ") ? header.slice("Bearer ".length).trim() : "";
+    try {
+      const token = secret ? await authenticateApiToken(secret) : undefined;
+      if (!token) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        return res.status(401).json({ error: "A valid API token is required" });
+      }
+      if (!token.scopes.includes(scope)) {
+        return res.status(403).json({ error: "This token doesn't have the required scope", scope });
+      }
+      const allowed = await kvService.checkRateLimit(token.id, "api", { max: API_RATE_LIMIT, windowMs: 60_000 });
+      if (!allowed) {
+        res.setHeader("Retry-After", "60");
+        return res.status(429).json({ error: "Rate limit exceeded. Please slow down.", retryAfter: 60 });
+      }
+      res.locals.apiToken = token;
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+}
+
 export function getUserIdentifier(req: Request): string {
   const fingerprint =
     req.headers["x-fingerprint"] ||
@@ -0,0 +1,141 @@
+import { ValidationError } from "../errors/custom-errors.js";
+import { fetchJson, formatDuration, hostOf, parseUrl, toIsoDate } from "./helpers.js";
+import type { PlatformAdapter, PlatformVideo } from "./types.js";
+
+const API_BASE = "https://api.dailymotion.com";
+const VIDEO_FIELDS = "id,title,description,thumbnail_720_url,duration,views_total,created_time";
+// The API caps limit at 100
+const PAGE_SIZE = 50;
+
+// First path segments on dailymotion.com that are site pages rather than users
+const RESERVED_PATHS = new Set([
+  "video", "playlist", "embed", "search", "signin", "signup", "settings", "library", "following", "us", "fr", "de",
+]);
+
+interface DailymotionVideo {
+  id: string;
+  title?: string;
+  description?: string;
+  thumbnail_720_url?: string;
+  duration?: number;
+  views_total?: number;
+  created_time?: number;
+}
+
+interface DailymotionUser {
+  id: string;
+  username?: string;
+  screenname?: string;
+  description?: string;
+  avatar_360_url?: string;
+  cover_250_url?: string;
+}
+
+interface DailymotionList<T> {
+  page: number;
+  has_more: boolean;
+  list: T[];
+}
+
+function extractVideoId(input: string): string | null {
+  const url = parseUrl(input);
+  if (!url) return null;
+  const host = hostOf(url);
+  if (host === "dai.ly") return url.pathname.match(/^\/([A-Za-z0-9]+)/)?.[1] ?? null;
+  if (host !== "dailymotion.com") return null;
+  return url.pathname.match(/^\/(?:embed\/)?video\/([A-Za-z0-9]+)/)?.[1] ?? null;
+}
+
+function extractUsername(input: string): string | null {
+  const url = parseUrl(input);
+  if (!url || hostOf(url) !== "dailymotion.com") return null;
+  const user = url.pathname.match(/^\/([A-Za-z0-9_-]+)(?:\/|$)/)?.[1];
+  return user && !RESERVED_PATHS.has(user.toLowerCase()) ? user : null;
+}
+
+function playerUrl(dailymotionId: string): string {
+  return `https://www.dailymotion.com/embed/video/${dailymotionId}`;
+}
+
+function toPlatformVideo(video: DailymotionVideo): PlatformVideo {
+  return {
+    videoId: `dailymotion_${video.id}`,
+    title: video.title || `Dailymotion ${video.id}`,
+    description: video.description || "",
+    thumbnailUrl: video.thumbnail_720_url || "",
+    duration: formatDuration(video.duration),
+    viewCount: video.views_total != null ? String(video.views_total) : undefined,
+    publishDate: toIsoDate(video.created_time),
+    videoType: "dailymotion",
+    embedUrl: playerUrl(video.id),
+  };
+}
+
+export const dailymotionAdapter: PlatformAdapter = {
+  platform: "dailymotion",
+  displayName: "Dailymotion",
+  listsChannels: true,
+
+  matchesUrl(url) {
+    const parsed = parseUrl(url);
+    if (!parsed) return false;
+    const host = hostOf(parsed);
+    return host === "dailymotion.com" || host === "dai.ly";
+  },
+
+  normalizeChannelUrl(url) {
+    const user = extractUsername(url);
+    return user ? `https://www.dailymotion.com/${user}` : null;
+  },
+
+  async fetchChannelInfo(channelUrl) {
+    const user = extractUsername(channelUrl);
+    if (!user) throw new ValidationError("Not a Dailymotion channel URL", "url");
+
+    const data = await fetchJson<DailymotionUser>(
+      "dailymotion",
+      `${API_BASE}/user/${encodeURIComponent(user)}?fields=id,username,screenname,description,avatar_360_url,cover_250_url`,
+    );
+    return {
+      name: data.screenname || data.username || user,
+      channelId: data.id,
+      description: data.description || undefined,
+      thumbnailUrl: data.avatar_360_url,
+      bannerUrl: data.cover_250_url,
+    };
+  },
+
+  // The cursor is the API's 1-based page number
+  async listVideos(channelUrl, options = {}) {
+    const user = extractUsername(channelUrl);
+    if (!user) throw new ValidationError("Not a Dailymotion channel URL", "url");
+
+    const page = options.cursor ? Number.parseInt(options.cursor, 10) : 1;
+    if (!Number.isInteger(page) || page < 1) throw new ValidationError("Invalid page cursor", "cursor");
+    const limit = Math.min(PAGE_SIZE, options.maxItems || PAGE_SIZE);
+
+    const data = await fetchJson<DailymotionList<DailymotionVideo>>(
+      "dailymotion",
+      `${API_BASE}/user/${encodeURIComponent(user)}/videos?fields=${VIDEO_FIELDS}&sort=recent&limit=${limit}&page=${page}`,
+    );
+    return {
+      videos: (data.list || []).map(toPlatformVideo),
+      nextCursor: data.has_more ? String(page + 1) : undefined,
+    };
+  },
+
+  async resolveVideo(videoUrl) {
+    const dailymotionId = extractVideoId(videoUrl);
+    if (!dailymotionId) throw new ValidationError("Not a Dailymotion video URL", "url");
+
+    const data = await fetchJson<DailymotionVideo>(
+      "dailymotion",
+      `${API_BASE}/video/${encodeURIComponent(dailymotionId)}?fields=${VIDEO_FIELDS}`,
+    );
+    return toPlatformVideo(data);
+  },
+
+  buildEmbedUrl(video) {
+    return video.embedUrl || playerUrl(video.videoId.replace(/^dailymotion_/, ""));
+  },
+};
@@ -0,0 +1,71 @@
+import { ExternalServiceError } from "../errors/custom-errors.js";
+
+const DEFAULT_TIMEOUT_MS = 15000;
+const USER_AGENT = "Mozilla/5.0 (compatible; nisam.video/1.0; +https://nisam.video)";
+
+async function request(service: string, url: string, accept: string): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      headers: { "User-Agent": USER_AGENT, Accept: accept },
+      signal: AbortSignal.timeout(DEFAULT_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new ExternalServiceError(service, error instanceof Error ? error.message : "Request failed", { url });
+  }
+  if (!response.ok) {
+    throw new ExternalServiceError(service, `HTTP ${response.status}`, { url, status: response.status });
+  }
+  return response;
+}
+
+export async function fetchJson<T>(service: string, url: string): Promise<T> {
+  const response = await request(service, url, "application/json");
+  return (await response.json()) as T;
+}
+
+export async function fetchText(service: string, url: string, accept = "*/*"): Promise<string> {
+  const response = await request(service, url, accept);
+  return response.text();
+}
+
+export function parseUrl(input: string): URL | null {
+  const raw = (input || "").trim();
+  if (!raw) return null;
+  const withScheme = /^https?:\/\//i.test(raw) ? raw : `https://${raw}`;
+  try {
+    return new URL(withScheme);
+  } catch {
+    return null;
+  }
+}
+
+export function hostOf(url: URL): string {
+  return url.hostname.replace(/^(www|m)\./, "").toLowerCase();
+}
+
+/** Seconds to the "m:ss" / "h:mm:ss" text the YouTube scraper stores. */
+export function formatDuration(totalSeconds: number | undefined | null): string | undefined {
+  if (totalSeconds == null || !Number.isFinite(totalSeconds) || totalSeconds <= 0) return undefined;
+  const seconds = Math.round(totalSeconds);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+/** Accepts plain seconds ("754") or clock text ("12:34", "1:02:03"). */
+export function parseDurationText(value: string | undefined | null): number | undefined {
+  const raw = (value || "").trim();
+  if (!raw) return undefined;
+  if (/^\d+(\.\d+)?$/.test(raw)) return Number(raw);
+  const parts = raw.split(":").map(Number);
+  if (parts.some((p) => !Number.isFinite(p))) return undefined;
+  return parts.reduce((total, part) => total * 60 + part, 0);
+}
+
+export function toIsoDate(value: string | number | undefined | null): string | undefined {
+  if (value == null || value === "") return undefined;
+  const date = typeof value === "number" ? new Date(value * 1000) : new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
@@ -0,0 +1,12 @@
+export * from "./types.js";
+export {
+  registerPlatformAdapter,
+  getPlatformAdapter,
+  requirePlatformAdapter,
+  listPlatformAdapters,
+  detectPlatformAdapter,
+  buildVideoEmbedUrl,
+  collectChannelVideos,
+  type CollectOptions,
+} from "./registry.js";
+export { parseFeed, type FeedEntry, type ParsedFeed } from "./rss.js";
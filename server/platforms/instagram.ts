@@ -0,0 +1,139 @@
+import { BusinessLogicError, ValidationError } from "../errors/custom-errors.js";
+import { fetchJson, hostOf, parseUrl, toIsoDate } from "./helpers.js";
+import type { PlatformAdapter, PlatformVideo } from "./types.js";
+
+const GRAPH_BASE = "https://graph.facebook.com/v19.0";
+const PAGE_SIZE = 25;
+const MEDIA_FIELDS = "id,caption,media_type,media_product_type,thumbnail_url,permalink,timestamp,like_count";
+
+// First path segments on instagram.com that are app pages rather than profiles
+const RESERVED_PATHS = new Set([
+  "p", "reel", "reels", "tv", "explore", "stories", "accounts", "direct", "about", "developer", "legal",
+]);
+
+interface InstagramMedia {
+  id: string;
+  caption?: string;
+  media_type?: "IMAGE" | "VIDEO" | "CAROUSEL_ALBUM";
+  media_product_type?: string;
+  thumbnail_url?: string;
+  permalink?: string;
+  timestamp?: string;
+}
+
+interface BusinessDiscovery {
+  business_discovery?: {
+    id: string;
+    username: string;
+    name?: string;
+    biography?: string;
+    profile_picture_url?: string;
+    media?: {
+      data: InstagramMedia[];
+      paging?: { cursors?: { after?: string }; next?: string };
+    };
+  };
+}
+
+function extractUsername(input: string): string | null {
+  const url = parseUrl(input);
+  if (!url || hostOf(url) !== "instagram.com") return null;
+  const user = url.pathname.match(/^\/([A-Za-z0-9_.]{1,30})(?:\/|$)/)?.[1];
+  return user && !RESERVED_PATHS.has(user.toLowerCase()) ? user : null;
+}
+
+/**
+ * Instagram has no anonymous API. Other accounts' media is read through the
+ * Graph API's Business Discovery, which needs a token for a business account
+ * we own; the target must be a business or creator profile too.
+ */
+async function discover(username: string, mediaQuery: string): Promise<NonNullable<BusinessDiscovery["business_discovery"]>> {
+  const token = process.env.INSTAGRAM_ACCESS_TOKEN;
+  const accountId = process.env.INSTAGRAM_BUSINESS_ACCOUNT_ID;
+  if (!token || !accountId) {
+    throw new BusinessLogicError("Instagram scraping needs INSTAGRAM_ACCESS_TOKEN and INSTAGRAM_BUSINESS_ACCOUNT_ID");
+  }
+
+  const fields = `business_discovery.username(${username}){id,username,name,biography,profile_picture_url${mediaQuery}}`;
+  const data = await fetchJson<BusinessDiscovery>(
+    "instagram",
+    `${GRAPH_BASE}/${encodeURIComponent(accountId)}?fields=${encodeURIComponent(fields)}&access_token=${encodeURIComponent(token)}`,
+  );
+  if (!data.business_discovery) {
+    throw new BusinessLogicError(`Instagram account @${username} is not a business or creator profile`);
+  }
+  return data.business_discovery;
+}
+
+function embedFromPermalink(permalink: string): string {
+  return `${permalink.replace(/\/?(\?.*)?$/, "/")}embed`;
+}
+
+export const instagramAdapter: PlatformAdapter = {
+  platform: "instagram",
+  displayName: "Instagram",
+  listsChannels: true,
+
+  matchesUrl(url) {
+    const parsed = parseUrl(url);
+    return parsed !== null && hostOf(parsed) === "instagram.com";
+  },
+
+  normalizeChannelUrl(url) {
+    const user = extractUsername(url);
+    return user ? `https://www.instagram.com/${user}` : null;
+  },
+
+  async fetchChannelInfo(channelUrl) {
+    const user = extractUsername(channelUrl);
+    if (!user) throw new ValidationError("Not an Instagram profile URL", "url");
+    const profile = await discover(user, "");
+    return {
+      name: profile.name || profile.username,
+      channelId: profile.username,
+      description: profile.biography,
+      thumbnailUrl: profile.profile_picture_url,
+    };
+  },
+
+  // Only video posts (reels and IGTV) are kept, so a page may hold fewer
+  // videos than PAGE_SIZE while still having a next cursor.
+  async listVideos(channelUrl, options = {}) {
+    const user = extractUsername(channelUrl);
+    if (!user) throw new ValidationError("Not an Instagram profile URL", "url");
+
+    const after = options.cursor ? `.after(${options.cursor})` : "";
+    const limit = Math.min(PAGE_SIZE, options.maxItems || PAGE_SIZE);
+    const profile = await discover(user, `,media.limit(${limit})${after}{${MEDIA_FIELDS}}`);
+
+    const videos: PlatformVideo[] = (profile.media?.data || [])
+      .filter((m) => m.media_type === "VIDEO" && m.permalink)
+      .map((m) => {
+        const caption = (m.caption || "").trim();
+        return {
+          videoId: `instagram_${m.id}`,
+          title: caption.split("\n")[0].slice(0, 120) || `@${profile.username}`,
+          description: caption,
+          thumbnailUrl: m.thumbnail_url || profile.profile_picture_url || "",
+          publishDate: toIsoDate(m.timestamp),
+          videoType: "instagram_reel",
+          embedUrl: embedFromPermalink(m.permalink!),
+        };
+      });
+
+    return {
+      videos,
+      channelInfo: {
+        name: profile.name || profile.username,
+        channelId: profile.username,
+        description: profile.biography,
+        thumbnailUrl: profile.profile_picture_url,
+      },
+      nextCursor: profile.media?.paging?.next ? profile.media.paging.cursors?.after : undefined,
+    };
+  },
+
+  buildEmbedUrl(video) {
+    return video.embedUrl || null;
+  },
+};
@@ -0,0 +1,120 @@
+import { BusinessLogicError } from "../errors/custom-errors.js";
+import { youtubeAdapter } from "./youtube.js";
+import { tiktokAdapter } from "./tiktok.js";
+import { xAdapter } from "./x.js";
+import { instagramAdapter } from "./instagram.js";
+import { vimeoAdapter } from "./vimeo.js";
+import { dailymotionAdapter } from "./dailymotion.js";
+import { rssAdapter } from "./rss.js";
+import type { SupportedPlatform, SupportedVideoType } from "../../shared/schema.js";
+import type { PlatformAdapter, PlatformChannelInfo, PlatformVideo } from "./types.js";
+
+// Upper bound on pages fetched per scrape, whatever maxItems says
+const MAX_PAGES = 10;
+
+const adapters = new Map<string, PlatformAdapter>();
+
+export function registerPlatformAdapter(adapter: PlatformAdapter): void {
+  adapters.set(adapter.platform, adapter);
+}
+
+export function getPlatformAdapter(platform: string | null | undefined): PlatformAdapter | undefined {
+  return adapters.get(platform || "youtube");
+}
+
+export function requirePlatformAdapter(platform: string | null | undefined): PlatformAdapter {
+  const adapter = getPlatformAdapter(platform);
+  if (!adapter) throw new BusinessLogicError(`No scraper is registered for platform "${platform}"`);
+  return adapter;
+}
+
+export function listPlatformAdapters(): PlatformAdapter[] {
+  return Array.from(adapters.values());
+}
+
+/** First adapter that recognizes the URL, in registration order. */
+export function detectPlatformAdapter(url: string): PlatformAdapter | undefined {
+  return listPlatformAdapters().find((adapter) => adapter.matchesUrl(url));
+}
+
+// Embeds follow the video's format, not its channel: a YouTube video found
+// through an RSS feed still plays in the YouTube player.
+const VIDEO_TYPE_PLATFORMS: Record<SupportedVideoType, SupportedPlatform> = {
+  regular: "youtube",
+  youtube_short: "youtube",
+  tiktok: "tiktok",
+  x: "x",
+  instagram_reel: "instagram",
+  vimeo: "vimeo",
+  dailymotion: "dailymotion",
+  rss: "rss",
+};
+
+export function buildVideoEmbedUrl(video: { videoId: string; videoType?: string | null; embedUrl?: string | null }): string | null {
+  const platform = VIDEO_TYPE_PLATFORMS[(video.videoType || "regular") as SupportedVideoType];
+  return getPlatformAdapter(platform)?.buildEmbedUrl(video) ?? null;
+}
+
+export interface CollectOptions {
+  existingVideoIds?: Set<string>;
+  incremental?: boolean;
+  maxItems?: number;
+}
+
+/**
+ * Walks a channel's pages until maxItems new videos are found, the source
+ * runs out, or (when incremental) a page contains a video we already have.
+ * Returned videos are always new to us.
+ */
+export async function collectChannelVideos(
+  channel: { url: string; platform?: string | null; ingestionMode?: string | null },
+  options: CollectOptions = {},
+): Promise<{ videos: PlatformVideo[]; channelInfo?: PlatformChannelInfo }> {
+  const adapter = requirePlatformAdapter(channel.platform);
+  if (!adapter.listsChannels) {
+    throw new BusinessLogicError(`${adapter.displayName} channels can't be scraped`);
+  }
+
+  const maxItems = options.maxItems ?? 60;
+  const existing = new Set(options.existingVideoIds ?? []);
+  const videos: PlatformVideo[] = [];
+  let channelInfo: PlatformChannelInfo | undefined;
+  let cursor: string | undefined;
+
+  for (let page = 0; page < MAX_PAGES && videos.length < maxItems; page++) {
+    const result = await adapter.listVideos(channel.url, {
+      cursor,
+      maxItems: maxItems - videos.length,
+      existingVideoIds: existing,
+      incremental: options.incremental,
+      mode: channel.ingestionMode ?? undefined,
+    });
+    channelInfo ??= result.channelInfo;
+
+    let reachedKnown = false;
+    for (const video of result.videos) {
+      if (existing.has(video.videoId)) {
+        reachedKnown = true;
+        continue;
+      }
+      existing.add(video.videoId);
+      videos.push(video);
+    }
+
+    if (!result.nextCursor || (options.incremental && reachedKnown)) break;
+    cursor = result.nextCursor;
+  }
+
+  return { videos: videos.slice(0, maxItems), channelInfo };
+}
+
+// Specific hosts first; RSS claims any feed-looking URL so it goes last
+[
+  youtubeAdapter,
+  tiktokAdapter,
+  xAdapter,
+  instagramAdapter,
+  vimeoAdapter,
+  dailymotionAdapter,
+  rssAdapter,
+].forEach(registerPlatformAdapter);
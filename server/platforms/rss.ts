@@ -0,0 +1,215 @@
+import { createHash } from "crypto";
+import * as cheerio from "cheerio";
+import { ValidationError } from "../errors/custom-errors.js";
+import { fetchText, formatDuration, parseDurationText, parseUrl, toIsoDate } from "./helpers.js";
+import type { PlatformAdapter, PlatformVideo } from "./types.js";
+
+const FEED_ACCEPT = "application/rss+xml, application/atom+xml, application/xml;q=0.9, text/xml;q=0.8";
+const VIDEO_FILE_RE = /\.(mp4|m4v|webm|mov|m3u8)(\?|$)/i;
+
+export interface FeedEntry {
+  id: string;
+  title: string;
+  link?: string;
+  description: string;
+  publishDate?: string;
+  thumbnailUrl?: string;
+  /** Direct video file from an enclosure or media:content. */
+  mediaUrl?: string;
+  /** Embeddable player page from media:player. */
+  playerUrl?: string;
+  durationSeconds?: number;
+  /** Set for YouTube's own Atom feeds (yt:videoId). */
+  youtubeVideoId?: string;
+}
+
+export interface ParsedFeed {
+  title: string;
+  description: string;
+  link?: string;
+  imageUrl?: string;
+  entries: FeedEntry[];
+  /** RFC 5005 "next" link for paged feeds. */
+  nextUrl?: string;
+}
+
+/**
+ * Parses RSS 2.0 and Atom, including the Media RSS (media:*), iTunes and
+ * YouTube (yt:*) extensions video feeds commonly use.
+ */
+export function parseFeed(xml: string): ParsedFeed {
+  const $ = cheerio.load(xml, { xml: true });
+  const isAtom = $("feed").length > 0 && $("rss").length === 0;
+  const root = isAtom ? $("feed").first() : $("channel").first();
+  if (root.length === 0) throw new ValidationError("Not an RSS or Atom feed");
+
+  const text = (scope: cheerio.Cheerio<any>, selector: string) =>
+    scope.children(selector).first().text().trim();
+  const attr = (scope: cheerio.Cheerio<any>, selector: string, name: string) =>
+    scope.find(selector).first().attr(name)?.trim() || undefined;
+
+  const linkHref = (scope: cheerio.Cheerio<any>, rel: string) =>
+    scope
+      .children("link, atom\\:link")
+      .filter((_, el) => ($(el).attr("rel") || "alternate") === rel)
+      .first()
+      .attr("href") || undefined;
+
+  const entries = root.children(isAtom ? "entry" : "item").toArray().map((el): FeedEntry => {
+    const item = $(el);
+    const link = isAtom ? linkHref(item, "alternate") : text(item, "link") || undefined;
+
+    // A feed may list several renditions; prefer one that is explicitly video
+    let mediaUrl: string | undefined;
+    let durationSeconds: number | undefined;
+    item.find("media\\:content, enclosure").each((_, mediaEl) => {
+      if (mediaUrl) return;
+      const media = $(mediaEl);
+      const url = media.attr("url");
+      const type = media.attr("type") || "";
+      const medium = media.attr("medium") || "";
+      if (url && (type.startsWith("video/") || medium === "video" || VIDEO_FILE_RE.test(url))) {
+        mediaUrl = url;
+        durationSeconds = parseDurationText(media.attr("duration"));
+      }
+    });
+    durationSeconds ??= parseDurationText(item.find("itunes\\:duration").first().text());
+
+    const thumbnailUrl =
+      attr(item, "media\\:thumbnail", "url") ||
+      item
+        .find("media\\:content, enclosure")
+        .filter((_, m) => ($(m).attr("medium") || "") === "image" || ($(m).attr("type") || "").startsWith("image/"))
+        .first()
+        .attr("url") ||
+      attr(item, "itunes\\:image", "href");
+
+    const description =
+      text(item, "media\\:group > media\\:description") ||
+      item.find("media\\:description").first().text().trim() ||
+      (isAtom ? text(item, "summary") || text(item, "content") : text(item, "description"));
+
+    return {
+      id: (isAtom ? text(item, "id") : text(item, "guid")) || link || mediaUrl || text(item, "title"),
+      title: text(item, "title") || item.find("media\\:title").first().text().trim(),
+      link,
+      description: stripHtml(description),
+      publishDate: toIsoDate(isAtom ? text(item, "published") || text(item, "updated") : text(item, "pubDate")),
+      thumbnailUrl,
+      mediaUrl,
+      playerUrl: attr(item, "media\\:player", "url"),
+      durationSeconds,
+      youtubeVideoId: item.find("yt\\:videoId").first().text().trim() || undefined,
+    };
+  });
+
+  return {
+    title: text(root, "title"),
+    description: stripHtml(isAtom ? text(root, "subtitle") : text(root, "description")),
+    link: isAtom ? linkHref(root, "alternate") : text(root, "link") || undefined,
+    imageUrl: isAtom
+      ? text(root, "logo") || text(root, "icon") || undefined
+      : root.children("image").children("url").first().text().trim() || attr(root, "itunes\\:image", "href"),
+    entries,
+    nextUrl: linkHref(root, "next"),
+  };
+}
+
+function stripHtml(value: string): string {
+  if (!value.includes("<")) return value;
+  return cheerio.load(value).text().replace(/\s+\n/g, "\n").trim();
+}
+
+/**
+ * Feed items get a stable id from their guid, since feeds have no numeric
+ * ids of their own. YouTube feeds keep the real video id so they dedupe
+ * against videos scraped from the channel page.
+ */
+function toPlatformVideo(entry: FeedEntry, feed: ParsedFeed): PlatformVideo | null {
+  const thumbnailUrl = entry.thumbnailUrl || feed.imageUrl || "";
+  if (entry.youtubeVideoId) {
+    return {
+      videoId: entry.youtubeVideoId,
+      title: entry.title,
+      description: entry.description,
+      thumbnailUrl: thumbnailUrl || `https://i.ytimg.com/vi/${entry.youtubeVideoId}/hqdefault.jpg`,
+      publishDate: entry.publishDate,
+      videoType: "regular",
+    };
+  }
+
+  const embedUrl = entry.mediaUrl || entry.playerUrl;
+  if (!embedUrl || !entry.title) return null;
+
+  return {
+    videoId: `rss_${createHash("sha1").update(entry.id).digest("hex").slice(0, 16)}`,
+    title: entry.title,
+    description: entry.description,
+    thumbnailUrl,
+    duration: formatDuration(entry.durationSeconds),
+    publishDate: entry.publishDate,
+    videoType: "rss",
+    embedUrl,
+  };
+}
+
+function normalizeFeedUrl(input: string): string | null {
+  const url = parseUrl(input);
+  if (!url || !/^https?:$/.test(url.protocol)) return null;
+  url.hash = "";
+  return url.toString();
+}
+
+async function loadFeed(url: string): Promise<ParsedFeed> {
+  return parseFeed(await fetchText("rss", url, FEED_ACCEPT));
+}
+
+export const rssAdapter: PlatformAdapter = {
+  platform: "rss",
+  displayName: "RSS / Atom",
+  listsChannels: true,
+
+  // Any URL can be a feed, so only claim ones that look like one; the
+  // registry asks this adapter last.
+  matchesUrl(url) {
+    const parsed = parseUrl(url);
+    if (!parsed) return false;
+    return /(\.(rss|atom|xml)$|\/(feed|rss|atom)(\/|$))/i.test(parsed.pathname) || parsed.searchParams.has("feed");
+  },
+
+  normalizeChannelUrl: normalizeFeedUrl,
+
+  async fetchChannelInfo(channelUrl) {
+    const feed = await loadFeed(channelUrl);
+    return {
+      name: feed.title || undefined,
+      channelId: feed.link || channelUrl,
+      description: feed.description || undefined,
+      thumbnailUrl: feed.imageUrl,
+    };
+  },
+
+  async listVideos(channelUrl, options = {}) {
+    const pageUrl = options.cursor ? normalizeFeedUrl(options.cursor) : channelUrl;
+    if (!pageUrl) throw new ValidationError("Invalid feed cursor", "cursor");
+
+    const feed = await loadFeed(pageUrl);
+    const videos = feed.entries
+      .map((entry) => toPlatformVideo(entry, feed))
+      .filter((v): v is PlatformVideo => v !== null);
+
+    return {
+      videos: options.maxItems ? videos.slice(0, options.maxItems) : videos,
+      channelInfo: {
+        name: feed.title || undefined,
+        description: feed.description || undefined,
+        thumbnailUrl: feed.imageUrl,
+      },
+      nextCursor: feed.nextUrl,
+    };
+  },
+
+  buildEmbedUrl(video) {
+    return video.embedUrl || null;
+  },
+};
@@ -0,0 +1,49 @@
+import { scrapeTikTokProfile, type ScrapedTikTokProfile } from "../tiktok-scraper.js";
+import { normalizeTikTokProfileUrl } from "../channel-urls.js";
+import { hostOf, parseUrl } from "./helpers.js";
+import type { PlatformAdapter, PlatformChannelInfo } from "./types.js";
+
+function toChannelInfo(profile: ScrapedTikTokProfile): PlatformChannelInfo {
+  return {
+    name: profile.displayName || profile.username,
+    channelId: profile.username,
+    thumbnailUrl: profile.avatarUrl,
+  };
+}
+
+export const tiktokAdapter: PlatformAdapter = {
+  platform: "tiktok",
+  displayName: "TikTok",
+  listsChannels: true,
+
+  matchesUrl(url) {
+    const parsed = parseUrl(url);
+    if (!parsed) return false;
+    const host = hostOf(parsed);
+    return host === "tiktok.com" || host === "vm.tiktok.com";
+  },
+
+  normalizeChannelUrl: normalizeTikTokProfileUrl,
+
+  async fetchChannelInfo(channelUrl) {
+    const { profileInfo } = await scrapeTikTokProfile(channelUrl);
+    return toChannelInfo(profileInfo);
+  },
+
+  // The profile page renders one batch of recent videos in a headless
+  // browser; there is no further page to request.
+  async listVideos(channelUrl, options = {}) {
+    const { profileInfo, videos } = await scrapeTikTokProfile(channelUrl);
+    const fresh = options.existingVideoIds
+      ? videos.filter((v) => !options.existingVideoIds!.has(v.videoId))
+      : videos;
+    return {
+      videos: options.maxItems ? fresh.slice(0, options.maxItems) : fresh,
+      channelInfo: toChannelInfo(profileInfo),
+    };
+  },
+
+  buildEmbedUrl(video) {
+    return video.embedUrl || `https://www.tiktok.com/embed/v2/${video.videoId}`;
+  },
+};
@@ -0,0 +1,66 @@
+import type { SupportedPlatform, SupportedVideoType } from "../../shared/schema.js";
+
+/**
+ * A video as listed by a platform, ready for processScrapedVideos.
+ * videoId must be unique across platforms, so non-YouTube adapters prefix it
+ * (e.g. "vimeo_123", matching the "x_<tweetId>" convention).
+ */
+export interface PlatformVideo {
+  videoId: string;
+  title: string;
+  description: string;
+  thumbnailUrl: string;
+  duration?: string;
+  viewCount?: string;
+  publishDate?: string;
+  videoType: SupportedVideoType;
+  /** Player or media URL for platforms whose embed can't be derived from videoId. */
+  embedUrl?: string | null;
+  /** Creator-supplied keywords, passed to categorization as hints. */
+  tags?: string[];
+  /** The source returned the full description, so there is nothing to enrich from the watch page. */
+  descriptionComplete?: boolean;
+}
+
+export interface PlatformChannelInfo {
+  name?: string;
+  /** The platform's own id or handle for the channel. */
+  channelId?: string;
+  description?: string;
+  thumbnailUrl?: string;
+  bannerUrl?: string;
+}
+
+export interface ListVideosOptions {
+  /** Opaque token returned as nextCursor by a previous call. */
+  cursor?: string;
+  maxItems?: number;
+  existingVideoIds?: Set<string>;
+  /** Stop at the first already-known video instead of walking the whole channel. */
+  incremental?: boolean;
+  /** The channel's ingestionMode; only YouTube has more than one. */
+  mode?: string;
+}
+
+export interface VideoPage {
+  videos: PlatformVideo[];
+  channelInfo?: PlatformChannelInfo;
+  /** Set when the source has more videos than were returned. */
+  nextCursor?: string;
+}
+
+export interface PlatformAdapter {
+  readonly platform: SupportedPlatform;
+  readonly displayName: string;
+  /** False for single-post sources like X, which can't be scraped as channels. */
+  readonly listsChannels: boolean;
+  /** Whether the URL points at this platform at all (channel or video). */
+  matchesUrl(url: string): boolean;
+  /** Canonical channel URL, or null when the URL isn't a channel on this platform. */
+  normalizeChannelUrl(url: string): string | null;
+  fetchChannelInfo(channelUrl: string): Promise<PlatformChannelInfo>;
+  listVideos(channelUrl: string, options?: ListVideosOptions): Promise<VideoPage>;
+  resolveVideo?(videoUrl: string): Promise<PlatformVideo>;
+  /** Iframe/player URL for a stored video, or null when it can't be embedded. */
+  buildEmbedUrl(video: { videoId: string; embedUrl?: string | null }): string | null;
+}
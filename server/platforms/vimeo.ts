@@ -0,0 +1,126 @@
+import { ValidationError } from "../errors/custom-errors.js";
+import { fetchJson, fetchText, formatDuration, hostOf, parseUrl, toIsoDate } from "./helpers.js";
+import { parseFeed } from "./rss.js";
+import type { PlatformAdapter, PlatformVideo } from "./types.js";
+
+// First path segments on vimeo.com that are site pages rather than users
+const RESERVED_PATHS = new Set([
+  "about", "album", "api", "blog", "categories", "features", "groups", "help", "join",
+  "log_in", "manage", "ondemand", "search", "settings", "showcase", "upgrade", "watch",
+]);
+
+interface VimeoOEmbed {
+  video_id?: number;
+  title?: string;
+  description?: string;
+  thumbnail_url?: string;
+  duration?: number;
+  upload_date?: string;
+  author_name?: string;
+}
+
+function extractVideoId(input: string): string | null {
+  const url = parseUrl(input);
+  if (!url) return null;
+  const host = hostOf(url);
+  if (host === "player.vimeo.com") return url.pathname.match(/^\/video\/(\d+)/)?.[1] ?? null;
+  if (host !== "vimeo.com") return null;
+  // vimeo.com/123, vimeo.com/channels/staffpicks/123, vimeo.com/user/123
+  return url.pathname.match(/\/(\d{5,})(?:\/|$)/)?.[1] ?? null;
+}
+
+/** vimeo.com/<user> and vimeo.com/channels/<name>, both of which publish a videos feed. */
+export function normalizeVimeoChannelUrl(input: string): string | null {
+  const url = parseUrl(input);
+  if (!url || hostOf(url) !== "vimeo.com") return null;
+
+  const channel = url.pathname.match(/^\/channels\/([A-Za-z0-9_-]+)(?:\/|$)/)?.[1];
+  if (channel) return `https://vimeo.com/channels/${channel}`;
+
+  const user = url.pathname.match(/^\/([A-Za-z][A-Za-z0-9_-]*)(?:\/|$)/)?.[1];
+  if (!user || RESERVED_PATHS.has(user.toLowerCase())) return null;
+  return `https://vimeo.com/${user}`;
+}
+
+function playerUrl(vimeoId: string): string {
+  return `https://player.vimeo.com/video/${vimeoId}`;
+}
+
+export const vimeoAdapter: PlatformAdapter = {
+  platform: "vimeo",
+  displayName: "Vimeo",
+  listsChannels: true,
+
+  matchesUrl(url) {
+    const parsed = parseUrl(url);
+    if (!parsed) return false;
+    const host = hostOf(parsed);
+    return host === "vimeo.com" || host === "player.vimeo.com";
+  },
+
+  normalizeChannelUrl: normalizeVimeoChannelUrl,
+
+  async fetchChannelInfo(channelUrl) {
+    const { channelInfo } = await vimeoAdapter.listVideos(channelUrl, { maxItems: 0 });
+    return channelInfo ?? {};
+  },
+
+  // Vimeo's public feeds are a single page of the most recent uploads; the
+  // paged API needs an OAuth app, which we don't require.
+  async listVideos(channelUrl, options = {}) {
+    const normalized = normalizeVimeoChannelUrl(channelUrl);
+    if (!normalized) throw new ValidationError("Not a Vimeo user or channel URL", "url");
+
+    const feed = parseFeed(await fetchText("vimeo", `${normalized}/videos/rss`, "application/rss+xml"));
+    const videos: PlatformVideo[] = [];
+    for (const entry of feed.entries) {
+      const vimeoId = extractVideoId(entry.link || entry.playerUrl || entry.id);
+      if (!vimeoId) continue;
+      videos.push({
+        videoId: `vimeo_${vimeoId}`,
+        title: entry.title,
+        description: entry.description,
+        thumbnailUrl: entry.thumbnailUrl || "",
+        duration: formatDuration(entry.durationSeconds),
+        publishDate: entry.publishDate,
+        videoType: "vimeo",
+        embedUrl: playerUrl(vimeoId),
+      });
+    }
+
+    return {
+      videos: options.maxItems !== undefined ? videos.slice(0, options.maxItems) : videos,
+      channelInfo: {
+        // Feed titles read "Vimeo / <name>'s videos"
+        name: feed.title.replace(/^Vimeo\s*\/\s*/i, "").replace(/[’']s videos$/i, "") || undefined,
+        channelId: normalized.replace("https://vimeo.com/", ""),
+        description: feed.description || undefined,
+        thumbnailUrl: feed.imageUrl,
+      },
+    };
+  },
+
+  async resolveVideo(videoUrl) {
+    const vimeoId = extractVideoId(videoUrl);
+    if (!vimeoId) throw new ValidationError("Not a Vimeo video URL", "url");
+
+    const data = await fetchJson<VimeoOEmbed>(
+      "vimeo",
+      `https://vimeo.com/api/oembed.json?url=${encodeURIComponent(`https://vimeo.com/${vimeoId}`)}`,
+    );
+    return {
+      videoId: `vimeo_${vimeoId}`,
+      title: data.title || `Vimeo ${vimeoId}`,
+      description: data.description || "",
+      thumbnailUrl: data.thumbnail_url || "",
+      duration: formatDuration(data.duration),
+      publishDate: toIsoDate(data.upload_date),
+      videoType: "vimeo",
+      embedUrl: playerUrl(vimeoId),
+    };
+  },
+
+  buildEmbedUrl(video) {
+    return video.embedUrl || playerUrl(video.videoId.replace(/^vimeo_/, ""));
+  },
+};
@@ -0,0 +1,54 @@
+import { resolveXVideo } from "../x-resolver.js";
+import { normalizeXProfileUrl } from "../channel-urls.js";
+import { BusinessLogicError, ValidationError } from "../errors/custom-errors.js";
+import { formatDuration, hostOf, parseUrl } from "./helpers.js";
+import type { PlatformAdapter } from "./types.js";
+
+/**
+ * X has no public timeline endpoint, so X "channels" only group posts that
+ * admins import one by one through resolveVideo.
+ */
+export const xAdapter: PlatformAdapter = {
+  platform: "x",
+  displayName: "X",
+  listsChannels: false,
+
+  matchesUrl(url) {
+    const parsed = parseUrl(url);
+    if (!parsed) return false;
+    const host = hostOf(parsed);
+    return host === "x.com" || host === "twitter.com" || host === "mobile.twitter.com";
+  },
+
+  normalizeChannelUrl: normalizeXProfileUrl,
+
+  async fetchChannelInfo(channelUrl) {
+    const normalized = normalizeXProfileUrl(channelUrl);
+    if (!normalized) throw new ValidationError("Not an X profile URL", "url");
+    const handle = normalized.split("/").pop()!;
+    return { name: `@${handle}`, channelId: handle };
+  },
+
+  async listVideos() {
+    throw new BusinessLogicError("X profiles can't be scraped; import posts individually");
+  },
+
+  async resolveVideo(videoUrl) {
+    const resolved = await resolveXVideo(videoUrl);
+    return {
+      videoId: `x_${resolved.videoId}`,
+      title: resolved.title,
+      description: resolved.description,
+      thumbnailUrl: resolved.thumbnailUrl,
+      duration: formatDuration(resolved.durationSeconds),
+      publishDate: resolved.publishDate,
+      videoType: "x",
+      embedUrl: resolved.videoUrl,
+    };
+  },
+
+  // Stored X videos carry a direct mp4 URL that the client plays in <video>
+  buildEmbedUrl(video) {
+    return video.embedUrl || null;
+  },
+};
@@ -0,0 +1,402 @@
+import { storage } from "../storage/index.js";
+import { ApplicationError, ExternalServiceError, ValidationError } from "../errors/custom-errors.js";
+import { formatDuration, hostOf, parseUrl, toIsoDate } from "./helpers.js";
+import type { ListVideosOptions, PlatformChannelInfo, PlatformVideo, VideoPage } from "./types.js";
+
+const API_BASE = "https://www.googleapis.com/youtube/v3";
+const DEFAULT_DAILY_LIMIT = 10000;
+// playlistItems.list and videos.list both cap maxResults at 50
+const PAGE_SIZE = 50;
+const REQUEST_TIMEOUT_MS = 15000;
+
+// Units charged per call (https://developers.google.com/youtube/v3/determine_quota_cost)
+export const YOUTUBE_QUOTA_COSTS = {
+  "channels.list": 1,
+  "playlistItems.list": 1,
+  "videos.list": 1,
+} as const;
+
+export type YouTubeApiMethod = keyof typeof YOUTUBE_QUOTA_COSTS;
+
+const ENDPOINTS: Record<YouTubeApiMethod, string> = {
+  "channels.list": "channels",
+  "playlistItems.list": "playlistItems",
+  "videos.list": "videos",
+};
+
+const QUOTA_REASONS = new Set(["quotaExceeded", "dailyLimitExceeded"]);
+
+/** Raised when today's budget is spent, or the API itself reports quotaExceeded. */
+export class YouTubeQuotaExceededError extends ApplicationError {
+  constructor(day: string, context?: Record<string, any>) {
+    super(`YouTube Data API quota exhausted for ${day}`, "YOUTUBE_QUOTA_EXCEEDED", 429, { ...context, day });
+  }
+}
+
+interface ApiThumbnails {
+  default?: { url: string };
+  medium?: { url: string };
+  high?: { url: string };
+  standard?: { url: string };
+  maxres?: { url: string };
+}
+
+interface ApiChannel {
+  id: string;
+  snippet?: { title?: string; description?: string; customUrl?: string; thumbnails?: ApiThumbnails };
+  contentDetails?: { relatedPlaylists?: { uploads?: string } };
+  brandingSettings?: { image?: { bannerExternalUrl?: string } };
+}
+
+interface ApiPlaylistItem {
+  contentDetails?: { videoId?: string };
+}
+
+interface ApiVideo {
+  id: string;
+  snippet?: {
+    title?: string;
+    description?: string;
+    publishedAt?: string;
+    thumbnails?: ApiThumbnails;
+    tags?: string[];
+    liveBroadcastContent?: string;
+  };
+  contentDetails?: {
+    duration?: string;
+    contentRating?: { ytRating?: string };
+    regionRestriction?: { allowed?: string[]; blocked?: string[] };
+  };
+  statistics?: { viewCount?: string };
+  status?: { uploadStatus?: string; privacyStatus?: string; embeddable?: boolean };
+}
+
+interface ApiList<T> {
+  items?: T[];
+  nextPageToken?: string;
+}
+
+interface ApiErrorBody {
+  error?: { code?: number; message?: string; errors?: Array<{ reason?: string }> };
+}
+
+/** YouTube resets quota at midnight Pacific, so usage is bucketed by that calendar day. */
+export function youtubeQuotaDay(now = new Date()): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: "America/Los_Angeles",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(now);
+}
+
+export async function getYouTubeApiKey(): Promise<string | null> {
+  const settings = await storage.getSystemSettings();
+  return settings?.youtubeApiKey?.trim() || null;
+}
+
+async function getDailyLimit(): Promise<number> {
+  const settings = await storage.getSystemSettings();
+  return settings?.youtubeQuotaDailyLimit ?? DEFAULT_DAILY_LIMIT;
+}
+
+/**
+ * One metered API call. Usage is recorded for every request that reaches
+ * Google, failed or not, because failed requests are charged too.
+ */
+async function callApi<T>(method: YouTubeApiMethod, apiKey: string, params: Record<string, string>): Promise<T> {
+  const day = youtubeQuotaDay();
+  const cost = YOUTUBE_QUOTA_COSTS[method];
+  const [usage, dailyLimit] = await Promise.all([storage.getYouTubeQuota(day), getDailyLimit()]);
+  if (usage?.exhaustedAt || (usage?.units ?? 0) + cost > dailyLimit) {
+    throw new YouTubeQuotaExceededError(day, { method });
+  }
+
+  const query = new URLSearchParams({ ...params, key: apiKey });
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE}/${ENDPOINTS[method]}?${query}`, {
+      headers: { Accept: "application/json" },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new ExternalServiceError("youtube-api", error instanceof Error ? error.message : "Request failed", { method });
+  }
+  await storage.recordYouTubeQuotaUsage(day, method, cost);
+
+  if (!response.ok) {
+    const body = (await response.json().catch(() => ({}))) as ApiErrorBody;
+    const reason = body.error?.errors?.[0]?.reason;
+    if (response.status === 403 && reason && QUOTA_REASONS.has(reason)) {
+      await storage.markYouTubeQuotaExhausted(day);
+      throw new YouTubeQuotaExceededError(day, { method, reason });
+    }
+    throw new ExternalServiceError("youtube-api", body.error?.message || `HTTP ${response.status}`, {
+      method,
+      status: response.status,
+      reason,
+    });
+  }
+  return (await response.json()) as T;
+}
+
+/** "PT1H2M3S" / "P1DT2H" to seconds; undefined for live streams ("P0D") and bad input. */
+export function parseIsoDuration(value: string | undefined): number | undefined {
+  const match = (value || "").match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/);
+  if (!match) return undefined;
+  const [, d, h, m, s] = match;
+  const seconds = Number(d || 0) * 86400 + Number(h || 0) * 3600 + Number(m || 0) * 60 + Number(s || 0);
+  return seconds > 0 ? seconds : undefined;
+}
+
+function bestThumbnail(thumbnails: ApiThumbnails | undefined): string | undefined {
+  return (
+    thumbnails?.maxres?.url ||
+    thumbnails?.standard?.url ||
+    thumbnails?.high?.url ||
+    thumbnails?.medium?.url ||
+    thumbnails?.default?.url
+  );
+}
+
+/**
+ * The API has no Shorts flag. Anything up to a minute is treated as a Short,
+ * and up to three minutes (the current Shorts limit) when the creator tagged
+ * it #shorts or the channel was added through its /shorts tab.
+ */
+function isLikelyShort(seconds: number | undefined, text: string, shortsChannel: boolean): boolean {
+  if (!seconds || seconds > 180) return false;
+  return seconds <= 60 || shortsChannel || /#shorts?\b/i.test(text);
+}
+
+type ChannelLookup = { id: string } | { forHandle: string } | { forUsername: string };
+
+/** Maps a normalized channel URL onto a channels.list filter. */
+function channelLookup(channelUrl: string): ChannelLookup {
+  const url = parseUrl(channelUrl);
+  const path = url && hostOf(url) === "youtube.com" ? url.pathname : "";
+
+  const id = path.match(/^\/channel\/(UC[A-Za-z0-9_-]{22})/)?.[1];
+  if (id) return { id };
+  const handle = path.match(/^\/@([^/]+)/)?.[1];
+  if (handle) return { forHandle: decodeURIComponent(handle) };
+  const username = path.match(/^\/user\/([^/]+)/)?.[1];
+  if (username) return { forUsername: username };
+
+  // Legacy /c/ custom URLs have no API lookup
+  throw new ValidationError("Channel URL can't be resolved through the YouTube API", "url");
+}
+
+async function fetchApiChannel(channelUrl: string, apiKey: string): Promise<ApiChannel> {
+  const data = await callApi<ApiList<ApiChannel>>("channels.list", apiKey, {
+    part: "snippet,contentDetails,brandingSettings",
+    ...channelLookup(channelUrl),
+  });
+  const channel = data.items?.[0];
+  if (!channel) throw new ExternalServiceError("youtube-api", "Channel not found", { url: channelUrl });
+  return channel;
+}
+
+function toChannelInfo(channel: ApiChannel): PlatformChannelInfo {
+  return {
+    name: channel.snippet?.title,
+    channelId: channel.id,
+    description: channel.snippet?.description || undefined,
+    thumbnailUrl: bestThumbnail(channel.snippet?.thumbnails),
+    bannerUrl: channel.brandingSettings?.image?.bannerExternalUrl,
+  };
+}
+
+export async function fetchChannelInfoViaApi(channelUrl: string, apiKey: string): Promise<PlatformChannelInfo> {
+  return toChannelInfo(await fetchApiChannel(channelUrl, apiKey));
+}
+
+function toPlatformVideo(video: ApiVideo, shortsChannel: boolean): PlatformVideo {
+  const snippet = video.snippet || {};
+  const seconds = parseIsoDuration(video.contentDetails?.duration);
+  const title = snippet.title || video.id;
+  const description = snippet.description || "";
+  return {
+    videoId: video.id,
+    title,
+    description,
+    thumbnailUrl: bestThumbnail(snippet.thumbnails) || `https://i.ytimg.com/vi/${video.id}/hqdefault.jpg`,
+    duration: formatDuration(seconds),
+    viewCount: video.statistics?.viewCount,
+    publishDate: toIsoDate(snippet.publishedAt),
+    videoType: isLikelyShort(seconds, `${title} ${description}`, shortsChannel) ? "youtube_short" : "regular",
+    tags: snippet.tags,
+    descriptionComplete: true,
+  };
+}
+
+/**
+ * Lists a channel's uploads playlist, newest first, and fills in duration,
+ * statistics and tags with one batched videos.list call per page. The
+ * cursor is "<uploadsPlaylistId>:<pageToken>" so later pages skip the
+ * channels.list lookup.
+ */
+export async function listChannelVideosViaApi(
+  channelUrl: string,
+  apiKey: string,
+  options: ListVideosOptions = {},
+): Promise<VideoPage> {
+  let playlistId: string;
+  let pageToken: string | undefined;
+  let channelInfo: PlatformChannelInfo | undefined;
+
+  if (options.cursor) {
+    const separator = options.cursor.indexOf(":");
+    if (separator <= 0) throw new ValidationError("Invalid page cursor", "cursor");
+    playlistId = options.cursor.slice(0, separator);
+    pageToken = options.cursor.slice(separator + 1);
+  } else {
+    const channel = await fetchApiChannel(channelUrl, apiKey);
+    const uploads = channel.contentDetails?.relatedPlaylists?.uploads;
+    if (!uploads) throw new ExternalServiceError("youtube-api", "Channel has no uploads playlist", { url: channelUrl });
+    playlistId = uploads;
+    channelInfo = toChannelInfo(channel);
+  }
+
+  const limit = Math.min(PAGE_SIZE, options.maxItems || PAGE_SIZE);
+  const playlist = await callApi<ApiList<ApiPlaylistItem>>("playlistItems.list", apiKey, {
+    part: "contentDetails",
+    playlistId,
+    maxResults: String(limit),
+    ...(pageToken ? { pageToken } : {}),
+  });
+
+  // Stop at the first known upload when incremental, so known videos never
+  // cost a videos.list lookup
+  const ids: string[] = [];
+  let reachedKnown = false;
+  for (const item of playlist.items || []) {
+    const videoId = item.contentDetails?.videoId;
+    if (!videoId) continue;
+    if (options.existingVideoIds?.has(videoId)) {
+      if (options.incremental) {
+        reachedKnown = true;
+        break;
+      }
+      continue;
+    }
+    ids.push(videoId);
+  }
+
+  let videos: PlatformVideo[] = [];
+  if (ids.length > 0) {
+    const details = await callApi<ApiList<ApiVideo>>("videos.list", apiKey, {
+      part: "snippet,contentDetails,statistics",
+      id: ids.join(","),
+      maxResults: String(ids.length),
+    });
+    const shortsChannel = /\/shorts(?:\/|$)/i.test(channelUrl);
+    const byId = new Map((details.items || []).map((video) => [video.id, video]));
+    // Private and deleted uploads are missing from videos.list; upcoming
+    // premieres have no duration yet and are picked up on a later run
+    videos = ids
+      .map((id) => byId.get(id))
+      .filter((video): video is ApiVideo => !!video && video.snippet?.liveBroadcastContent !== "upcoming")
+      .map((video) => toPlatformVideo(video, shortsChannel))
+      .filter((video) => !shortsChannel || video.videoType === "youtube_short");
+  }
+
+  return {
+    videos,
+    channelInfo,
+    nextCursor: playlist.nextPageToken && !reachedKnown ? `${playlistId}:${playlist.nextPageToken}` : undefined,
+  };
+}
+
+/**
+ * Current metadata for known videos, 50 ids per videos.list call. Deleted
+ * and private videos are simply absent from the result.
+ */
+export async function fetchVideosViaApi(videoIds: string[], apiKey: string): Promise<Map<string, PlatformVideo>> {
+  const found = new Map<string, PlatformVideo>();
+  for (let i = 0; i < videoIds.length; i += PAGE_SIZE) {
+    const ids = videoIds.slice(i, i + PAGE_SIZE);
+    const details = await callApi<ApiList<ApiVideo>>("videos.list", apiKey, {
+      part: "snippet,contentDetails,statistics",
+      id: ids.join(","),
+      maxResults: String(ids.length),
+    });
+    for (const video of details.items || []) {
+      found.set(video.id, toPlatformVideo(video, false));
+    }
+  }
+  return found;
+}
+
+/** What decides whether a video plays in our embed. */
+export interface YouTubeVideoStatus {
+  uploadStatus?: string;
+  privacyStatus?: string;
+  embeddable?: boolean;
+  ageRestricted: boolean;
+  regionRestriction?: { allowed?: string[]; blocked?: string[] };
+}
+
+/** Embed-relevant status per id; ids missing from the map no longer exist. */
+export async function fetchVideoStatusesViaApi(videoIds: string[], apiKey: string): Promise<Map<string, YouTubeVideoStatus>> {
+  const found = new Map<string, YouTubeVideoStatus>();
+  for (let i = 0; i < videoIds.length; i += PAGE_SIZE) {
+    const ids = videoIds.slice(i, i + PAGE_SIZE);
+    const details = await callApi<ApiList<ApiVideo>>("videos.list", apiKey, {
+      part: "status,contentDetails",
+      id: ids.join(","),
+      maxResults: String(ids.length),
+    });
+    for (const video of details.items || []) {
+      found.set(video.id, {
+        uploadStatus: video.status?.uploadStatus,
+        privacyStatus: video.status?.privacyStatus,
+        embeddable: video.status?.embeddable,
+        ageRestricted: video.contentDetails?.contentRating?.ytRating === "ytAgeRestricted",
+        regionRestriction: video.contentDetails?.regionRestriction,
+      });
+    }
+  }
+  return found;
+}
+
+export interface YouTubeQuotaStatus {
+  day: string;
+  keyConfigured: boolean;
+  dailyLimit: number;
+  units: number;
+  calls: number;
+  remaining: number;
+  byMethod: Record<string, number>;
+  exhausted: boolean;
+  exhaustedAt: Date | null;
+  history: Array<{ day: string; units: number; calls: number; exhausted: boolean }>;
+}
+
+export async function getYouTubeQuotaStatus(historyDays = 14): Promise<YouTubeQuotaStatus> {
+  const day = youtubeQuotaDay();
+  const [apiKey, dailyLimit, today, history] = await Promise.all([
+    getYouTubeApiKey(),
+    getDailyLimit(),
+    storage.getYouTubeQuota(day),
+    storage.getYouTubeQuotaHistory(historyDays),
+  ]);
+  const units = today?.units ?? 0;
+  return {
+    day,
+    keyConfigured: !!apiKey,
+    dailyLimit,
+    units,
+    calls: today?.calls ?? 0,
+    remaining: Math.max(0, dailyLimit - units),
+    byMethod: today?.byMethod ?? {},
+    exhausted: !!today?.exhaustedAt || units >= dailyLimit,
+    exhaustedAt: today?.exhaustedAt ?? null,
+    history: history.map((row) => ({
+      day: row.day,
+      units: row.units,
+      calls: row.calls,
+      exhausted: !!row.exhaustedAt,
+    })),
+  };
+}
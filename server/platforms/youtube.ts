@@ -0,0 +1,96 @@
+import { scrapeYouTubeChannel, scrapeYouTubeChannelAbout, type ScrapedChannelInfo } from "../youtube-scraper.js";
+import { scrapeYouTubeVideoPage } from "../video-scraper.js";
+import { normalizeYouTubeChannelUrl } from "../channel-urls.js";
+import { ExternalServiceError, ValidationError } from "../errors/custom-errors.js";
+import { logger } from "../lib/logger.js";
+import { hostOf, parseUrl } from "./helpers.js";
+import { fetchChannelInfoViaApi, getYouTubeApiKey, listChannelVideosViaApi } from "./youtube-api.js";
+import type { PlatformAdapter, PlatformChannelInfo } from "./types.js";
+
+const VIDEO_ID_RE = /(?:[?&]v=|youtu\.be\/|\/shorts\/|\/embed\/)([A-Za-z0-9_-]{11})/;
+
+function toChannelInfo(info: ScrapedChannelInfo): PlatformChannelInfo {
+  return {
+    name: info.channelName,
+    channelId: info.channelId,
+    description: info.description,
+    thumbnailUrl: info.thumbnailUrl,
+    bannerUrl: info.bannerUrl,
+  };
+}
+
+export const youtubeAdapter: PlatformAdapter = {
+  platform: "youtube",
+  displayName: "YouTube",
+  listsChannels: true,
+
+  matchesUrl(url) {
+    const parsed = parseUrl(url);
+    if (!parsed) return false;
+    const host = hostOf(parsed);
+    return host === "youtube.com" || host === "youtu.be" || host === "music.youtube.com";
+  },
+
+  normalizeChannelUrl: normalizeYouTubeChannelUrl,
+
+  async fetchChannelInfo(channelUrl) {
+    const apiKey = await getYouTubeApiKey();
+    if (apiKey) {
+      try {
+        return await fetchChannelInfoViaApi(channelUrl, apiKey);
+      } catch (error) {
+        logger.warn(`[youtube] API channel lookup failed, scraping instead: ${(error as Error).message}`);
+      }
+    }
+    return toChannelInfo(await scrapeYouTubeChannelAbout(channelUrl));
+  },
+
+  // In "api" mode (the default) the Data API is used while a key is set and
+  // quota lasts; any API failure, quota included, falls back to the HTML
+  // scraper. That scraper follows continuation tokens itself up to maxItems,
+  // so it never hands back a cursor.
+  async listVideos(channelUrl, options = {}) {
+    const apiKey = options.mode === "html" ? null : await getYouTubeApiKey();
+    if (apiKey) {
+      try {
+        return await listChannelVideosViaApi(channelUrl, apiKey, options);
+      } catch (error) {
+        logger.warn(`[youtube] API listing failed for ${channelUrl}, scraping instead: ${(error as Error).message}`);
+      }
+    }
+
+    const { channelInfo, videos } = await scrapeYouTubeChannel(channelUrl, {
+      existingVideoIds: options.existingVideoIds,
+      incremental: options.incremental,
+      maxItems: options.maxItems,
+    });
+    return { videos, channelInfo: toChannelInfo(channelInfo) };
+  },
+
+  async resolveVideo(videoUrl) {
+    const videoId = videoUrl.match(VIDEO_ID_RE)?.[1];
+    if (!videoId) throw new ValidationError("Not a YouTube video URL", "url");
+
+    const result = await scrapeYouTubeVideoPage(`https://www.youtube.com/watch?v=${videoId}`);
+    if (!result.success || !result.data) {
+      throw new ExternalServiceError("youtube", result.error || "Could not load video page", { videoId });
+    }
+    const data = result.data;
+    return {
+      videoId,
+      title: data.title,
+      description: data.description,
+      thumbnailUrl: data.thumbnailUrl || `https://i.ytimg.com/vi/${videoId}/hqdefault.jpg`,
+      duration: data.duration,
+      viewCount: data.viewCount,
+      publishDate: data.publishDate,
+      videoType: data.isShort ? "youtube_short" : "regular",
+      // Read from the watch page itself, so there's nothing left to enrich
+      descriptionComplete: true,
+    };
+  },
+
+  buildEmbedUrl(video) {
+    return `https://www.youtube.com/embed/${video.videoId}`;
+  },
+};
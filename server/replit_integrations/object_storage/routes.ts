@@ -1,6 +1,6 @@
 import type { Express } from "express";
 import { ObjectStorageService, ObjectNotFoundError } from "./objectStorage.js";
-import { requireAuth } from "../../middleware/auth.js";
+import { requirePermission } from "../../middleware/auth.js";
 
 /**
  * Register object storage routes for file uploads.
@@ -36,7 +36,7 @@ export function registerObjectStorageRoutes(app: Express): void {
    * IMPORTANT: The client should NOT send the file to this endpoint.
    * Send JSON metadata only, then upload the file directly to uploadURL.
    */
-  app.post("/api/uploads/request-url", requireAuth, async (req, res) => {
+  app.post("/api/uploads/request-url", requirePermission("seo.manage", "taxonomy.manage", "appearance.manage"), async (req, res) => {
     try {
       const { name, size, contentType } = req.body;
 
@@ -1,24 +1,27 @@
 import { Router } from "express";
-import { requireAuth } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
 import { storage } from "../storage/index.js";
+import { channelPayload, emitWebhookEvent } from "../services/webhooks.js";
 
-function suggestChannelNameFromUrl(url: string): string {
+function suggestChannelNameFromUrl(url: string, platform: string): string {
+  const fallback = platform === "tiktok" ? "TikTok Profile" : platform === "x" ? "X Profile" : "YouTube Channel";
   try {
     const u = new URL(url);
     const path = u.pathname.replace(/\/+$/, "");
     const parts = path.split("/").filter(Boolean);
-    const last = parts[parts.length - 1] || "YouTube Channel";
+    const last = parts[parts.length - 1] || fallback;
     if (last.startsWith("@")) return last;
+    if (platform === "x") return `@${last}`;
     if (parts[0] === "channel" && last) return `Channel ${last.slice(0, 12)}`;
     return last;
   } catch {
-    return "YouTube Channel";
+    return fallback;
   }
 }
 
 const router = Router();
 
-router.get("/channel-recommendations", requireAuth, async (req, res) => {
+router.get("/channel-recommendations", requirePermission("channels.manage"), async (req, res) => {
   try {
     const status = typeof req.query.status === "string" ? req.query.status : undefined;
     const rows = await storage.getChannelRecommendations({ status });
@@ -34,7 +37,7 @@ router.get("/channel-recommendations", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/channel-recommendations/:id/approve", requireAuth, async (req, res) => {
+router.post("/channel-recommendations/:id/approve", requirePermission("channels.manage"), async (req, res) => {
   try {
     const id = req.params.id;
     const recs = await storage.getChannelRecommendations({});
@@ -43,12 +46,16 @@ router.post("/channel-recommendations/:id/approve", requireAuth, async (req, res
 
     const name = typeof req.body?.name === "string" && req.body.name.trim()
       ? req.body.name.trim()
-      : suggestChannelNameFromUrl(target.url);
+      : suggestChannelNameFromUrl(target.url, target.platform);
 
     const channel = await storage.createChannel({
       name,
       url: target.url,
-      platform: "youtube",
+      platform: target.platform || "youtube",
+      // TikTok and X channels are keyed by handle, like the ones added from their admin pages
+      ...(target.platform === "tiktok" || target.platform === "x"
+        ? { channelId: target.url.split("/").pop()!.replace(/^@/, "") }
+        : {}),
     });
 
     const reviewedBy = (req.session as any)?.userId || null;
@@ -58,6 +65,7 @@ router.post("/channel-recommendations/:id/approve", requireAuth, async (req, res
       approvedChannelId: channel.id,
       rejectionReason: null,
     });
+    await emitWebhookEvent("channel.added", { channel: channelPayload(channel) });
 
     res.json({ recommendation: updated, channel });
   } catch (error) {
@@ -66,7 +74,7 @@ router.post("/channel-recommendations/:id/approve", requireAuth, async (req, res
   }
 });
 
-router.post("/channel-recommendations/:id/reject", requireAuth, async (req, res) => {
+router.post("/channel-recommendations/:id/reject", requirePermission("channels.manage"), async (req, res) => {
   try {
     const id = req.params.id;
     const reason = typeof req.body?.reason === "string" ? req.body.reason.trim() : null;
@@ -1,7 +1,10 @@
 import { Router, Request } from "express";
 import { storage } from "../storage.js";
 import { categorizeVideo, generateVideoSummary, generateSeoMetadata } from "../ai-service.js";
-import { requireAdmin, requireAuth } from "../middleware/auth.js";
+import { AiBudgetExceededError } from "../errors/custom-errors.js";
+import { applyCategorization } from "../services/categorization.js";
+import { getTranscriptExcerpt } from "../services/transcripts.js";
+import { requirePermission } from "../middleware/auth.js";
 import { kvService } from "../kv-service.js";
 import { generateSlug, ensureUniqueSlug } from "../utils.js";
 import { ObjectStorageService } from "../replit_integrations/object_storage/index.js";
@@ -27,7 +30,7 @@ router.use(invalidateCacheOnMutation("^http-private:"));
 
 // ... (existing code)
 
-router.post("/run-migration", requireAdmin, async (req, res) => {
+router.post("/run-migration", requirePermission("settings.manage"), async (req, res) => {
   try {
     // Check if tables already exist before attempting to create them
     const tableCheckSql = `
@@ -64,6 +67,7 @@ router.post("/run-migration", requireAdmin, async (req, res) => {
           "ollama_api_key" text,
           "openrouter_api_key" text,
           "openrouter_model" text DEFAULT 'openai/gpt-4o',
+          "embedding_model" text,
           "updated_at" timestamp DEFAULT now() NOT NULL
         );
       `;
@@ -86,6 +90,9 @@ router.post("/run-migration", requireAdmin, async (req, res) => {
         if (!existingColumns.includes('openrouter_model')) {
           await db.execute(sql`ALTER TABLE "ai_settings" ADD COLUMN "openrouter_model" text DEFAULT 'openai/gpt-4o'`);
         }
+        if (!existingColumns.includes('embedding_model')) {
+          await db.execute(sql`ALTER TABLE "ai_settings" ADD COLUMN "embedding_model" text`);
+        }
       } catch (e) {
         console.warn("Failed to alter ai_settings table:", e);
       }
@@ -168,7 +175,7 @@ function getUserIdentifier(req: Request): string {
   return req.sessionID || req.ip || "anonymous";
 }
 
-router.get("/dashboard", requireAuth, async (req, res) => {
+router.get("/dashboard", requirePermission("dashboard.view"), async (req, res) => {
   try {
     res.json({ message: "Use existing endpoints for stats" });
   } catch (error) {
@@ -177,7 +184,7 @@ router.get("/dashboard", requireAuth, async (req, res) => {
   }
 });
 
-router.get("/categories", requireAuth, async (_req, res) => {
+router.get("/categories", requirePermission("taxonomy.manage"), async (_req, res) => {
   try {
     const categories = await storage.getAllCategoriesWithTranslations();
     res.json(categories);
@@ -187,7 +194,7 @@ router.get("/categories", requireAuth, async (_req, res) => {
   }
 });
 
-router.get("/error-logs", requireAuth, async (req, res) => {
+router.get("/error-logs", requirePermission("logs.view"), async (req, res) => {
   try {
     const q = typeof req.query.q === "string" ? req.query.q : undefined;
     const level = typeof req.query.level === "string" ? req.query.level : undefined;
@@ -229,7 +236,7 @@ router.get("/error-logs", requireAuth, async (req, res) => {
   }
 });
 
-router.get("/error-logs/stream", requireAuth, async (req, res) => {
+router.get("/error-logs/stream", requirePermission("logs.view"), async (req, res) => {
   res.status(200);
   res.setHeader("Content-Type", "text/event-stream");
   res.setHeader("Cache-Control", "no-cache, no-transform");
@@ -254,7 +261,7 @@ router.get("/error-logs/stream", requireAuth, async (req, res) => {
   });
 });
 
-router.get("/error-logs/bookmarks", requireAuth, async (_req, res) => {
+router.get("/error-logs/bookmarks", requirePermission("logs.view"), async (_req, res) => {
   try {
     res.json(await listBookmarks());
   } catch (error) {
@@ -263,7 +270,7 @@ router.get("/error-logs/bookmarks", requireAuth, async (_req, res) => {
   }
 });
 
-router.post("/error-logs/bookmarks", requireAuth, async (req, res) => {
+router.post("/error-logs/bookmarks", requirePermission("logs.view"), async (req, res) => {
   try {
     const fingerprint = typeof req.body?.fingerprint === "string" ? req.body.fingerprint : null;
     if (!fingerprint) return res.status(400).json({ error: "fingerprint is required" });
@@ -275,7 +282,7 @@ router.post("/error-logs/bookmarks", requireAuth, async (req, res) => {
   }
 });
 
-router.get("/error-logs/export", requireAuth, async (req, res) => {
+router.get("/error-logs/export", requirePermission("logs.view"), async (req, res) => {
   try {
     const q = typeof req.query.q === "string" ? req.query.q : undefined;
     const level = typeof req.query.level === "string" ? req.query.level : undefined;
@@ -309,7 +316,7 @@ router.get("/error-logs/export", requireAuth, async (req, res) => {
   }
 });
 
-router.get("/ai-status", requireAuth, async (_req, res) => {
+router.get("/ai-status", requirePermission("videos.manage"), async (_req, res) => {
   try {
     const rows = await db.select().from(aiSettings).limit(1);
     const cfg = rows[0];
@@ -343,7 +350,7 @@ router.get("/ai-status", requireAuth, async (_req, res) => {
   }
 });
 
-router.post("/regenerate", requireAuth, async (req, res) => {
+router.post("/regenerate", requirePermission("videos.manage"), async (req, res) => {
   try {
     const type = (req.query.type as string) || "all";
     if (type !== "all" && type !== "categories" && type !== "tags") {
@@ -358,7 +365,7 @@ router.post("/regenerate", requireAuth, async (req, res) => {
       Math.max(1, parseInt((req.query.limit as string) || "1", 10) || 1),
     );
 
-    const allVideos = await storage.getAllVideos();
+    const allVideos = await storage.getAllVideos({ includeHidden: true });
     const mode = (req.query.mode as string) || "all";
 
     let targetVideos = allVideos;
@@ -388,9 +395,12 @@ router.post("/regenerate", requireAuth, async (req, res) => {
     let tagsGenerated = 0;
 
     const concurrencyLimit = pLimit(5); // Process 5 videos concurrently
+    // Set once the AI budget runs out; the remaining videos are left for the next run
+    let paused: AiBudgetExceededError | null = null;
 
     const tasks = batch.map((video) => 
       concurrencyLimit(async () => {
+        if (paused) return;
         try {
           const startedAt = Date.now();
 
@@ -409,103 +419,24 @@ router.post("/regenerate", requireAuth, async (req, res) => {
           const categorizeResult = await categorizeVideo(
             video.title,
             video.description || "",
-            { timeoutMs: 30000 }, // Increased timeout for AI
+            { timeoutMs: 30000, transcript: await getTranscriptExcerpt(video.id) }, // Increased timeout for AI
           );
 
-          if (shouldUpdateCategories) {
-            const categoriesEn = categorizeResult.categories.en || [];
-            const categoriesSr = categorizeResult.categories.sr || [];
-            const maxCategories = Math.max(categoriesEn.length, categoriesSr.length);
-            const categoryIds: string[] = [];
-
-            for (let i = 0; i < maxCategories; i++) {
-              const nameEn = categoriesEn[i];
-              const nameSr = categoriesSr[i];
-
-              if (!nameEn) continue;
-
-              const slug = generateSlug(nameEn);
-              let category = await storage.getLocalizedCategoryBySlug(slug, 'en');
-
-              if (!category) {
-                 const translations: { languageCode: string; name: string; slug: string; description: string | null }[] = [];
-                 translations.push({
-                   languageCode: 'en',
-                   name: nameEn,
-                   slug,
-                   description: null
-                 });
-
-                 if (nameSr) {
-                   translations.push({
-                     languageCode: 'sr-Latn',
-                     name: nameSr,
-                     slug,
-                     description: null
-                   });
-                 }
-
-                 category = await storage.createCategory({}, translations);
-              } else if (nameSr) {
-                 try {
-                    await storage.addCategoryTranslation(category.id, {
-                      categoryId: category.id,
-                      languageCode: 'sr-Latn',
-                      name: nameSr,
-                      slug,
-                      description: null
-                    }).catch(() => {}); 
-                 } catch (e) {
-                   // Ignore
-                 }
-              }
-              categoryIds.push(category.id);
-            }
-
-            if (categoryIds.length > 0) {
-              await storage.removeVideoCategories(video.id);
-              for (const categoryId of categoryIds) {
-                await storage.addVideoCategory(video.id, categoryId);
-                categoriesGenerated++;
-              }
-            }
-          }
-
-          if (shouldUpdateTags) {
-            const tagsEn = categorizeResult.tags.en || [];
-            const tagsSr = categorizeResult.tags.sr || [];
-            const maxTags = Math.max(tagsEn.length, tagsSr.length);
-
-            if (maxTags > 0) {
-              await storage.deleteTagsByVideoId(video.id);
-              
-              for (let i = 0; i < maxTags; i++) {
-                const tagEn = tagsEn[i];
-                const tagSr = tagsSr[i];
-                
-                if (!tagEn) continue;
-
-                const translations = [{
-                  languageCode: 'en',
-                  tagName: tagEn
-                }];
-
-                if (tagSr) {
-                  translations.push({
-                    languageCode: 'sr-Latn',
-                    tagName: tagSr
-                  });
-                }
-
-                await storage.createTag({ videoId: video.id }, translations);
-                tagsGenerated++;
-              }
-            }
-          }
+          const applied = await applyCategorization(video.id, categorizeResult, {
+            categories: shouldUpdateCategories,
+            tags: shouldUpdateTags,
+            replace: true,
+          });
+          categoriesGenerated += applied.categoryIds.length;
+          tagsGenerated += applied.tagCount;
 
           processed++;
           console.log(`[admin] regenerate processed video=${video.id} in ${Date.now() - startedAt}ms`);
         } catch (error: any) {
+          if (error instanceof AiBudgetExceededError) {
+            paused = error;
+            return;
+          }
           const msg = error instanceof Error ? error.message : String(error);
           console.error(`[admin] Error regenerating video ${video.id}:`, error);
           try {
@@ -530,7 +461,12 @@ router.post("/regenerate", requireAuth, async (req, res) => {
     const { cache: cacheModule } = await import("../cache.js");
     cacheModule.clear();
 
-    const done = mode === "missing" ? total === 0 : nextOffset >= total;
+    const budgetError = paused as AiBudgetExceededError | null;
+    if (budgetError && mode !== "missing") {
+      // Resume from this batch once the budget allows it
+      nextOffset = offset;
+    }
+    const done = !budgetError && (mode === "missing" ? total === 0 : nextOffset >= total);
 
     try {
       const { activityLogs } = await import("../../shared/schema.js");
@@ -553,6 +489,7 @@ router.post("/regenerate", requireAuth, async (req, res) => {
       limit,
       nextOffset,
       done,
+      ...(budgetError ? { paused: true, error: budgetError.message, code: budgetError.code } : {}),
     });
   } catch (error) {
     console.error("Regeneration error:", error);
@@ -560,40 +497,88 @@ router.post("/regenerate", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/videos/:id/generate-summary", requireAuth, async (req, res) => {
+router.post("/videos/:id/generate-summary", requirePermission("videos.manage"), async (req, res) => {
   try {
     const video = await storage.getVideo(req.params.id);
     if (!video) {
       return res.status(404).json({ error: "Video not found" });
     }
 
-    const summary = await generateVideoSummary(video.title, video.description || "");
+    const summary = await generateVideoSummary(video.title, video.description || "", {
+      transcript: await getTranscriptExcerpt(video.id),
+    });
     
     // Optionally save the summary if we add a field for it, for now just return it
     // Or append it to description? Let's just return it for the UI to handle
     res.json({ success: true, summary });
   } catch (error) {
+    if (error instanceof AiBudgetExceededError) {
+      return res.status(error.statusCode).json({ error: error.message, code: error.code });
+    }
     console.error("Generate summary error:", error);
     res.status(500).json({ error: "Failed to generate summary" });
   }
 });
 
-router.post("/videos/:id/generate-seo", requireAuth, async (req, res) => {
+router.post("/videos/:id/generate-seo", requirePermission("videos.manage"), async (req, res) => {
   try {
     const video = await storage.getVideo(req.params.id);
     if (!video) {
       return res.status(404).json({ error: "Video not found" });
     }
 
-    const seoData = await generateSeoMetadata(video.title, video.description || "");
+    const seoData = await generateSeoMetadata(video.title, video.description || "", {
+      transcript: await getTranscriptExcerpt(video.id),
+    });
     res.json({ success: true, seoData });
   } catch (error) {
+    if (error instanceof AiBudgetExceededError) {
+      return res.status(error.statusCode).json({ error: error.message, code: error.code });
+    }
     console.error("Generate SEO error:", error);
     res.status(500).json({ error: "Failed to generate SEO metadata" });
   }
 });
 
-router.post("/regenerate-slugs", requireAuth, async (req, res) => {
+// External view-count snapshots recorded by the metadata refresh job
+router.get("/videos/:id/view-history", requirePermission("analytics.view"), async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+
+    const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 30, 1), 365);
+    const since = new Date(Date.now() - days * 24 * 60 * 60 * 1000);
+    const snapshots = await storage.getVideoViewSnapshots(video.id, since);
+    res.json({
+      videoId: video.id,
+      trendingScore: video.trendingScore,
+      metadataRefreshedAt: video.metadataRefreshedAt,
+      nextRefreshAt: video.nextRefreshAt,
+      hiddenAt: video.hiddenAt,
+      hiddenReason: video.hiddenReason,
+      snapshots: snapshots.map((s) => ({ viewCount: s.viewCount, capturedAt: s.capturedAt })),
+    });
+  } catch (error) {
+    console.error("View history error:", error);
+    res.status(500).json({ error: "Failed to load view history" });
+  }
+});
+
+router.get("/analytics/visitors", requirePermission("analytics.view"), async (req, res) => {
+  try {
+    const days = Math.min(Math.max(parseInt(req.query.days as string, 10) || 30, 1), 365);
+    const until = new Date();
+    const since = new Date(until.getTime() - days * 24 * 60 * 60 * 1000);
+    res.json(await storage.getVisitorAnalyticsReport(since, until));
+  } catch (error) {
+    console.error("Visitor analytics error:", error);
+    res.status(500).json({ error: "Failed to load visitor analytics" });
+  }
+});
+
+router.post("/regenerate-slugs", requirePermission("videos.manage"), async (req, res) => {
   try {
     const offset = Math.max(0, parseInt((req.query.offset as string) || "0", 10) || 0);
     const limit = Math.min(
@@ -601,7 +586,7 @@ router.post("/regenerate-slugs", requireAuth, async (req, res) => {
       Math.max(1, parseInt((req.query.limit as string) || "200", 10) || 200),
     );
 
-    const allVideos = await storage.getAllVideos();
+    const allVideos = await storage.getAllVideos({ includeHidden: true });
     const existingSlugs: string[] = [];
     for (const video of allVideos) {
       if (video.slug) existingSlugs.push(video.slug);
@@ -663,7 +648,7 @@ router.post("/regenerate-slugs", requireAuth, async (req, res) => {
   }
 });
 
-router.get("/cache/stats", requireAuth, async (req, res) => {
+router.get("/cache/stats", requirePermission("settings.manage"), async (req, res) => {
   try {
     const { cache: cacheModule } = await import("../cache.js");
     const stats = cacheModule.getStats();
@@ -674,7 +659,7 @@ router.get("/cache/stats", requireAuth, async (req, res) => {
   }
 });
 
-router.get("/performance/summary", requireAuth, async (_req, res) => {
+router.get("/performance/summary", requirePermission("settings.manage"), async (_req, res) => {
   try {
     res.json(getPerformanceSummary());
   } catch (error) {
@@ -683,7 +668,7 @@ router.get("/performance/summary", requireAuth, async (_req, res) => {
   }
 });
 
-router.post("/cache/clear", requireAuth, async (req, res) => {
+router.post("/cache/clear", requirePermission("settings.manage"), async (req, res) => {
   try {
     const { cache: cacheModule } = await import("../cache.js");
     cacheModule.clear();
@@ -694,7 +679,7 @@ router.post("/cache/clear", requireAuth, async (req, res) => {
   }
 });
 
-router.get("/cache/settings", requireAuth, async (req, res) => {
+router.get("/cache/settings", requirePermission("settings.manage"), async (req, res) => {
   try {
     let settings = await storage.getSystemSettings();
     if (!settings) {
@@ -714,7 +699,7 @@ router.get("/cache/settings", requireAuth, async (req, res) => {
   }
 });
 
-router.put("/cache/settings", requireAuth, async (req, res) => {
+router.put("/cache/settings", requirePermission("settings.manage"), async (req, res) => {
   try {
     const {
       cacheEnabled,
@@ -747,7 +732,7 @@ router.put("/cache/settings", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/cache/redis/connect", requireAuth, async (req, res) => {
+router.post("/cache/redis/connect", requirePermission("settings.manage"), async (req, res) => {
   try {
     const { redisUrl } = req.body;
     if (!redisUrl) return res.status(400).json({ error: "Redis URL is required" });
@@ -779,7 +764,7 @@ router.post("/cache/redis/connect", requireAuth, async (req, res) => {
   }
 });
 
-router.get("/kv/stats", requireAuth, async (req, res) => {
+router.get("/kv/stats", requirePermission("settings.manage"), async (req, res) => {
   try {
     const stats = await kvService.getStats();
     res.json(stats);
@@ -789,7 +774,7 @@ router.get("/kv/stats", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/kv/flush-buffers", requireAuth, async (req, res) => {
+router.post("/kv/flush-buffers", requirePermission("settings.manage"), async (req, res) => {
   try {
     const flushed = await kvService.flushAllViewBuffers();
     res.json({
@@ -803,7 +788,7 @@ router.post("/kv/flush-buffers", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/kv/cleanup", requireAuth, async (req, res) => {
+router.post("/kv/cleanup", requirePermission("settings.manage"), async (req, res) => {
   try {
     const cleaned = await kvService.cleanupRateLimits();
     res.json({
@@ -817,7 +802,7 @@ router.post("/kv/cleanup", requireAuth, async (req, res) => {
   }
 });
 
-router.get("/tags", requireAuth, async (_req, res) => {
+router.get("/tags", requirePermission("taxonomy.manage"), async (_req, res) => {
   try {
     const allTags = await db
       .select({
@@ -846,7 +831,7 @@ router.get("/tags", requireAuth, async (_req, res) => {
   }
 });
 
-router.post("/tags/:tagName/generate-image", requireAuth, async (req, res) => {
+router.post("/tags/:tagName/generate-image", requirePermission("taxonomy.manage"), async (req, res) => {
   try {
     const { tagName } = req.params;
     const decodedTagName = decodeURIComponent(tagName);
@@ -868,7 +853,7 @@ router.post("/tags/:tagName/generate-image", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/tags/:tagName/image", requireAuth, async (req, res) => {
+router.post("/tags/:tagName/image", requirePermission("taxonomy.manage"), async (req, res) => {
   try {
     const { tagName } = req.params;
     const { imageUrl } = req.body;
@@ -899,7 +884,7 @@ router.post("/tags/:tagName/image", requireAuth, async (req, res) => {
   }
 });
 
-router.delete("/tags/:tagName/image", requireAuth, async (req, res) => {
+router.delete("/tags/:tagName/image", requirePermission("taxonomy.manage"), async (req, res) => {
   try {
     const { tagName } = req.params;
     const decodedTagName = decodeURIComponent(tagName);
@@ -912,7 +897,7 @@ router.delete("/tags/:tagName/image", requireAuth, async (req, res) => {
 });
 
 // Hero Management Routes
-router.get("/hero", requireAuth, async (_req, res) => {
+router.get("/hero", requirePermission("appearance.manage"), async (_req, res) => {
   try {
     const heroVideos = await storage.getHeroVideos();
     res.json(heroVideos);
@@ -922,7 +907,7 @@ router.get("/hero", requireAuth, async (_req, res) => {
   }
 });
 
-router.post("/hero", requireAuth, async (req, res) => {
+router.post("/hero", requirePermission("appearance.manage"), async (req, res) => {
   try {
     const heroVideos = z.array(insertHeroVideoSchema).parse(req.body);
     const updated = await storage.updateHeroVideos(heroVideos);
@@ -937,7 +922,7 @@ router.post("/hero", requireAuth, async (req, res) => {
 });
 
 // Hero Config Routes
-router.get("/hero/config", requireAuth, async (_req, res) => {
+router.get("/hero/config", requirePermission("appearance.manage"), async (_req, res) => {
   try {
     const settings = await storage.getHeroSettings();
     res.json(settings || { 
@@ -954,7 +939,7 @@ router.get("/hero/config", requireAuth, async (_req, res) => {
   }
 });
 
-router.post("/hero/config", requireAuth, async (req, res) => {
+router.post("/hero/config", requirePermission("appearance.manage"), async (req, res) => {
   try {
     const data = insertHeroSettingsSchema.partial().parse(req.body);
     const updated = await storage.updateHeroSettings(data);
@@ -970,7 +955,7 @@ router.post("/hero/config", requireAuth, async (req, res) => {
 });
 
 // Hero Images Routes
-router.get("/hero/images", requireAuth, async (_req, res) => {
+router.get("/hero/images", requirePermission("appearance.manage"), async (_req, res) => {
   try {
     const images = await storage.getHeroImages();
     res.json(images);
@@ -980,7 +965,7 @@ router.get("/hero/images", requireAuth, async (_req, res) => {
   }
 });
 
-router.post("/hero/images", requireAuth, async (req, res) => {
+router.post("/hero/images", requirePermission("appearance.manage"), async (req, res) => {
   try {
     const images = z.array(insertHeroImageSchema).parse(req.body);
     const results = await Promise.all(images.map((img) => storage.upsertHeroImage(img)));
@@ -996,7 +981,7 @@ router.post("/hero/images", requireAuth, async (req, res) => {
 });
 
 // Analytics Settings Routes
-router.get("/analytics/settings", requireAuth, async (req, res) => {
+router.get("/analytics/settings", requirePermission("analytics.view"), async (req, res) => {
   try {
     let settings = await storage.getSystemSettings();
     if (!settings) {
@@ -1015,7 +1000,7 @@ router.get("/analytics/settings", requireAuth, async (req, res) => {
   }
 });
 
-router.put("/analytics/settings", requireAuth, async (req, res) => {
+router.put("/analytics/settings", requirePermission("analytics.manage"), async (req, res) => {
   try {
     const { gtmId, ga4Id, customHeadCode, customBodyStartCode, customBodyEndCode } = req.body;
     
@@ -1036,7 +1021,7 @@ router.put("/analytics/settings", requireAuth, async (req, res) => {
 });
 
 // Analytics Events Routes
-router.get("/analytics/events", requireAuth, async (req, res) => {
+router.get("/analytics/events", requirePermission("analytics.view"), async (req, res) => {
   try {
     const events = await storage.getAnalyticsEvents();
     res.json(events);
@@ -1046,7 +1031,7 @@ router.get("/analytics/events", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/analytics/events", requireAuth, async (req, res) => {
+router.post("/analytics/events", requirePermission("analytics.manage"), async (req, res) => {
   try {
     const eventData = insertAnalyticsEventSchema.parse(req.body);
     const event = await storage.createAnalyticsEvent(eventData);
@@ -1060,7 +1045,7 @@ router.post("/analytics/events", requireAuth, async (req, res) => {
   }
 });
 
-router.put("/analytics/events/:id", requireAuth, async (req, res) => {
+router.put("/analytics/events/:id", requirePermission("analytics.manage"), async (req, res) => {
   try {
     const eventData = insertAnalyticsEventSchema.partial().parse(req.body);
     const event = await storage.updateAnalyticsEvent(req.params.id, eventData);
@@ -1077,7 +1062,7 @@ router.put("/analytics/events/:id", requireAuth, async (req, res) => {
   }
 });
 
-router.delete("/analytics/events/:id", requireAuth, async (req, res) => {
+router.delete("/analytics/events/:id", requirePermission("analytics.manage"), async (req, res) => {
   try {
     await storage.deleteAnalyticsEvent(req.params.id);
     res.json({ success: true });
@@ -1087,7 +1072,7 @@ router.delete("/analytics/events/:id", requireAuth, async (req, res) => {
   }
 });
 
-router.get("/debug/system-health", requireAuth, async (req, res) => {
+router.get("/debug/system-health", requirePermission("settings.manage"), async (req, res) => {
   try {
     // 1. DB Status
     let dbStatus = "connected";
@@ -1,17 +1,42 @@
 import { Router } from "express";
-import { requireAuth, requireAdmin } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
 import { storage } from "../storage/index.js";
 import { db } from "../db.js";
-import { aiSettings, aiModels } from "../../shared/schema.js";
+import {
+  aiSettings,
+  aiModels,
+  AI_PROMPT_KEYS,
+  AI_PROVIDERS,
+  TAXONOMY_MODES,
+  insertAiPromptTemplateSchema,
+  type AiPromptKey,
+  type AiPromptTestResult,
+} from "../../shared/schema.js";
 import { eq, desc } from "drizzle-orm";
 import { fetchRemoteOllamaModels, testOllamaConnection } from "../services/ollama.js";
 import { testOpenAIConnection } from "../services/openai.js";
+import { getEmbeddingModel } from "../services/embeddings.js";
+import { jobQueue } from "../services/job-queue.js";
+import {
+  DEFAULT_PROMPTS,
+  PROMPT_VARIABLES,
+  buildCategorizationPrompt,
+  getCategorizationLanguages,
+  getCuratedCategories,
+  resolvePromptTemplate,
+  savePromptTemplate,
+  validatePromptTemplate,
+} from "../services/prompt-templates.js";
+import { categorizeVideo, getAiConfig } from "../ai-service.js";
+import { getAiBudgetStatus, getAiUsageReport } from "../services/ai-usage.js";
+import { getTranscriptExcerpt } from "../services/transcripts.js";
+import { ApplicationError } from "../errors/custom-errors.js";
 import { z } from "zod";
 
 const router = Router();
 
 // Get AI configuration
-router.get("/config", requireAdmin, async (req, res) => {
+router.get("/config", requirePermission("ai.manage"), async (req, res) => {
   try {
     const settings = await db.select().from(aiSettings).limit(1);
     const config = settings[0] || {
@@ -50,7 +75,7 @@ router.get("/config", requireAdmin, async (req, res) => {
 });
 
 // Update AI configuration
-router.patch("/config", requireAdmin, async (req, res) => {
+router.patch("/config", requirePermission("ai.manage"), async (req, res) => {
   try {
     const schema = z.object({
       provider: z.enum(["openai", "ollama", "openrouter"]).optional(),
@@ -62,6 +87,13 @@ router.patch("/config", requireAdmin, async (req, res) => {
       ollamaApiKey: z.string().optional(),
       openrouterApiKey: z.string().optional(),
       openrouterModel: z.string().optional(),
+      embeddingModel: z.string().trim().max(200).optional(),
+      taxonomyMode: z.enum(TAXONOMY_MODES).optional(),
+      failoverProviders: z.array(z.enum(AI_PROVIDERS)).max(AI_PROVIDERS.length - 1).optional(),
+      dailyBudgetUsd: z.number().positive().nullable().optional(),
+      monthlyBudgetUsd: z.number().positive().nullable().optional(),
+      aiChapters: z.boolean().optional(),
+      aiModeration: z.boolean().optional(),
     });
     
     const data = schema.parse(req.body);
@@ -92,6 +124,9 @@ router.patch("/config", requireAdmin, async (req, res) => {
     
     res.json({ success: true });
   } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
     if (error?.code === '42P01') {
        return res.status(500).json({ error: "Database not initialized. Please run migrations." });
     }
@@ -101,7 +136,7 @@ router.patch("/config", requireAdmin, async (req, res) => {
 });
 
 // List AI models
-router.get("/models", requireAdmin, async (req, res) => {
+router.get("/models", requirePermission("ai.manage"), async (req, res) => {
   try {
     const models = await db.select().from(aiModels).orderBy(desc(aiModels.lastSyncedAt));
     res.json(models);
@@ -117,7 +152,7 @@ router.get("/models", requireAdmin, async (req, res) => {
 });
 
 // Sync Ollama models
-router.post("/ollama/sync", requireAdmin, async (req, res) => {
+router.post("/ollama/sync", requirePermission("ai.manage"), async (req, res) => {
   try {
     // Get URL from config or body
     let url = req.body.url;
@@ -187,7 +222,7 @@ router.post("/ollama/sync", requireAdmin, async (req, res) => {
 });
 
 // Toggle model status
-router.patch("/models/:id/toggle", requireAdmin, async (req, res) => {
+router.patch("/models/:id/toggle", requirePermission("ai.manage"), async (req, res) => {
   try {
     const { id } = req.params;
     const { isActive } = req.body;
@@ -203,8 +238,186 @@ router.patch("/models/:id/toggle", requireAdmin, async (req, res) => {
   }
 });
 
+// Embedding coverage for related videos and semantic search
+router.get("/embeddings", requirePermission("ai.manage"), async (_req, res) => {
+  try {
+    const model = await getEmbeddingModel();
+    const [stats, backfillRunning] = await Promise.all([
+      storage.getVideoEmbeddingStats(model),
+      jobQueue.hasActiveJob("embedding_backfill"),
+    ]);
+    res.json({ model, ...stats, backfillRunning });
+  } catch (error) {
+    console.error("Get embedding status error:", error);
+    res.status(500).json({ error: "Failed to fetch embedding status" });
+  }
+});
+
+// Embed videos without an embedding, or with `full` every video whose text changed
+router.post("/embeddings/backfill", requirePermission("ai.manage"), async (req, res) => {
+  try {
+    const { full } = z.object({ full: z.boolean().default(false) }).parse(req.body ?? {});
+    if (await jobQueue.hasActiveJob("embedding_backfill")) {
+      return res.status(409).json({ error: "An embedding backfill is already running" });
+    }
+    const jobId = await jobQueue.createJob("embedding_backfill", undefined, !full);
+    res.json({ success: true, jobId });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    console.error("Start embedding backfill error:", error);
+    res.status(500).json({ error: "Failed to start the embedding backfill" });
+  }
+});
+
+// Calls, tokens and cost over the last `days`, with budget status
+router.get("/usage", requirePermission("ai.manage"), async (req, res) => {
+  try {
+    const { days } = z
+      .object({ days: z.coerce.number().pipe(z.union([z.literal(7), z.literal(30), z.literal(90)])).default(30) })
+      .parse(req.query);
+    const config = await getAiConfig();
+    const [report, budget] = await Promise.all([getAiUsageReport(days), getAiBudgetStatus(config)]);
+    res.json({ ...report, budget });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid input", details: error.errors });
+    }
+    console.error("Get AI usage error:", error);
+    res.status(500).json({ error: "Failed to fetch AI usage" });
+  }
+});
+
+function promptKey(value: string): AiPromptKey | null {
+  return (AI_PROMPT_KEYS as readonly string[]).includes(value) ? (value as AiPromptKey) : null;
+}
+
+// Prompt versions, the built-in prompt and the variables a template may use
+router.get("/prompts/:key", requirePermission("ai.manage"), async (req, res) => {
+  const key = promptKey(req.params.key);
+  if (!key) return res.status(404).json({ error: "Unknown prompt" });
+  try {
+    const [versions, languages] = await Promise.all([
+      storage.getPromptTemplateVersions(key),
+      getCategorizationLanguages(),
+    ]);
+    res.json({
+      key,
+      versions,
+      activeId: versions.find((v) => v.isActive)?.id ?? null,
+      defaultBody: DEFAULT_PROMPTS[key],
+      variables: PROMPT_VARIABLES[key],
+      languages,
+    });
+  } catch (error) {
+    console.error("Get prompt templates error:", error);
+    res.status(500).json({ error: "Failed to fetch prompt templates" });
+  }
+});
+
+// Save a new version; earlier versions stay for the history
+router.post("/prompts/:key", requirePermission("ai.manage"), async (req, res) => {
+  const key = promptKey(req.params.key);
+  if (!key) return res.status(404).json({ error: "Unknown prompt" });
+  const parsed = insertAiPromptTemplateSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.errors });
+  }
+  try {
+    const template = await savePromptTemplate(key, parsed.data, req.session.userId ?? null);
+    res.status(201).json(template);
+  } catch (error) {
+    if (error instanceof ApplicationError && error.statusCode < 500) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Save prompt template error:", error);
+    res.status(500).json({ error: "Failed to save the prompt template" });
+  }
+});
+
+router.post("/prompts/:key/:id/activate", requirePermission("ai.manage"), async (req, res) => {
+  const key = promptKey(req.params.key);
+  if (!key) return res.status(404).json({ error: "Unknown prompt" });
+  try {
+    const template = await storage.getPromptTemplate(req.params.id);
+    if (!template || template.key !== key) {
+      return res.status(404).json({ error: "Prompt version not found" });
+    }
+    res.json(await storage.activatePromptTemplate(template.id));
+  } catch (error) {
+    console.error("Activate prompt template error:", error);
+    res.status(500).json({ error: "Failed to activate the prompt version" });
+  }
+});
+
+// Go back to the built-in prompt; saved versions are kept
+router.post("/prompts/:key/reset", requirePermission("ai.manage"), async (req, res) => {
+  const key = promptKey(req.params.key);
+  if (!key) return res.status(404).json({ error: "Unknown prompt" });
+  try {
+    await storage.deactivatePromptTemplates(key);
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Reset prompt template error:", error);
+    res.status(500).json({ error: "Failed to reset the prompt" });
+  }
+});
+
+const PROMPT_TEST_VIDEOS = 3;
+
+// Run a draft (or the active prompt) against sample videos without saving anything
+router.post("/prompts/:key/test", requirePermission("ai.manage"), async (req, res) => {
+  const key = promptKey(req.params.key);
+  if (!key) return res.status(404).json({ error: "Unknown prompt" });
+  const parsed = z
+    .object({
+      body: z.string().trim().min(1).max(20000).optional(),
+      videoIds: z.array(z.string()).max(PROMPT_TEST_VIDEOS).optional(),
+    })
+    .safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid input", details: parsed.error.errors });
+  }
+  try {
+    const body = parsed.data.body ?? (await resolvePromptTemplate(key)).body;
+    validatePromptTemplate(key, body);
+
+    const videos = parsed.data.videoIds?.length
+      ? await storage.getVideosWithRelationsByIds(parsed.data.videoIds)
+      : await storage.getRecentVideos(PROMPT_TEST_VIDEOS);
+    const languages = await getCategorizationLanguages();
+    const curated = (await getAiConfig()).taxonomyMode === "controlled" ? await getCuratedCategories() : undefined;
+
+    const results: AiPromptTestResult[] = [];
+    for (const video of videos.slice(0, PROMPT_TEST_VIDEOS)) {
+      const transcript = await getTranscriptExcerpt(video.id);
+      const prompt = buildCategorizationPrompt(body, { ...video, transcript }, languages, curated);
+      try {
+        const result = await categorizeVideo(video.title, video.description || "", {
+          template: body,
+          transcript,
+          timeoutMs: 30000,
+          feature: "prompt_test",
+        });
+        results.push({ videoId: video.id, title: video.title, prompt, categories: result.categories, tags: result.tags });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        results.push({ videoId: video.id, title: video.title, prompt, error: message });
+      }
+    }
+    res.json({ languages, results });
+  } catch (error) {
+    if (error instanceof ApplicationError && error.statusCode < 500) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Test prompt template error:", error);
+    res.status(500).json({ error: "Failed to test the prompt" });
+  }
+});
+
 // Test connection
-router.post("/test", requireAdmin, async (req, res) => {
+router.post("/test", requirePermission("ai.manage"), async (req, res) => {
   try {
     let { provider, url, apiKey } = req.body;
     
@@ -1,5 +1,6 @@
-import { Router } from "express";
+import express, { Router } from "express";
 import { storage } from "../storage/index.js";
+import { beaconBatchSchema, ingestBeaconBatch } from "../services/visitor-analytics.js";
 import { db } from "../db.js";
 import { tags, tagTranslations, channels as channelsTable, videos as videosTable } from "../../shared/schema.js";
 import { eq, sql } from "drizzle-orm";
@@ -29,6 +30,30 @@ router.get("/events", async (req, res) => {
   }
 });
 
+// First-party visitor beacon. The client batches page views, leave timings
+// and interaction events and flushes them with sendBeacon, so there is
+// nothing useful to answer with beyond 204.
+router.post("/collect", express.json({ limit: "64kb" }), async (req, res) => {
+  const parsed = beaconBatchSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid beacon payload" });
+  }
+
+  try {
+    const country = req.headers["cf-ipcountry"] ?? req.headers["x-vercel-ip-country"];
+    await ingestBeaconBatch(parsed.data, {
+      ip: req.ip,
+      userAgent: req.get("user-agent"),
+      country: typeof country === "string" && /^[A-Z]{2}$/.test(country) ? country : undefined,
+      host: req.hostname,
+    });
+    res.status(204).end();
+  } catch (error) {
+    console.error("Error ingesting visitor beacon:", error);
+    res.status(500).json({ error: "Failed to record visit" });
+  }
+});
+
 // Analytics routes
 router.get("/", async (req, res) => {
   try {
@@ -0,0 +1,360 @@
+import { Router, type Response } from "express";
+import { z } from "zod";
+import { storage } from "../storage/index.js";
+import { requireApiToken } from "../middleware/auth.js";
+import { ValidationError } from "../errors/custom-errors.js";
+import { zodToJsonSchema, zodToQueryParameters } from "../lib/openapi.js";
+import { API_RATE_LIMIT } from "../services/api-tokens.js";
+import {
+  API_TOKEN_SCOPES,
+  apiV1CategorySchema,
+  apiV1ChannelSchema,
+  apiV1ListQuerySchema,
+  apiV1PlaylistDetailSchema,
+  apiV1PlaylistSchema,
+  apiV1VideoListQuerySchema,
+  apiV1VideoSchema,
+  type ApiV1Category,
+  type ApiV1Channel,
+  type ApiV1Playlist,
+  type ApiV1Video,
+  type Channel,
+  type LocalizedCategory,
+  type Playlist,
+  type VideoWithRelations,
+} from "../../shared/schema.js";
+
+const router = Router();
+
+function siteUrl(): string {
+  return process.env.PUBLIC_BASE_URL || "https://nisam.video";
+}
+
+export function toApiVideo(video: VideoWithRelations): ApiV1Video {
+  return {
+    id: video.id,
+    slug: video.slug,
+    title: video.title,
+    description: video.description,
+    url: `${siteUrl()}/video/${video.slug || video.id}`,
+    thumbnailUrl: video.thumbnailUrl,
+    duration: video.duration,
+    publishDate: video.publishDate,
+    videoType: video.videoType as ApiV1Video["videoType"],
+    channel: {
+      id: video.channel.id,
+      name: video.channel.name,
+      platform: video.channel.platform as ApiV1Video["channel"]["platform"],
+    },
+    categories: video.categories.map((category) => ({ id: category.id, name: category.name, slug: category.slug })),
+    tags: video.tags.map((tag) => tag.tagName),
+    createdAt: video.createdAt.toISOString(),
+  };
+}
+
+function toApiCategory(category: LocalizedCategory): ApiV1Category {
+  return {
+    id: category.id,
+    name: category.name,
+    slug: category.slug,
+    description: category.description,
+    videoCount: category.videoCount,
+  };
+}
+
+function toApiChannel(channel: Channel): ApiV1Channel {
+  return {
+    id: channel.id,
+    name: channel.name,
+    platform: channel.platform as ApiV1Channel["platform"],
+    url: channel.url,
+    thumbnailUrl: channel.thumbnailUrl,
+    videoCount: channel.videoCount,
+  };
+}
+
+function toApiPlaylist(playlist: Playlist): ApiV1Playlist {
+  return {
+    id: playlist.id,
+    name: playlist.name,
+    description: playlist.description,
+    videoCount: playlist.videoCount,
+    createdAt: playlist.createdAt.toISOString(),
+  };
+}
+
+// Cursors are opaque to clients: base64url JSON of the last item's sort key
+function encodeCursor(key: string[]): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeCursor(cursor: string, length: number): string[] {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Array.isArray(key) && key.length === length && key.every((part) => typeof part === "string")) {
+      return key;
+    }
+  } catch {
+    // fall through
+  }
+  throw new ValidationError("Invalid cursor", "cursor");
+}
+
+/** Pages a list sorted by id; the cursor is the last id returned. */
+function paginateById<T extends { id: string }>(items: T[], query: { cursor?: string; limit: number }) {
+  const afterId = query.cursor ? decodeCursor(query.cursor, 1)[0] : undefined;
+  const remaining = items
+    .filter((item) => afterId === undefined || item.id > afterId)
+    .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  const page = remaining.slice(0, query.limit);
+  const nextCursor = remaining.length > query.limit ? encodeCursor([page[page.length - 1].id]) : null;
+  return { page, nextCursor };
+}
+
+/**
+ * Top-level fields requested with `fields=a,b`. The id is always returned;
+ * fields the schema doesn't have are rejected.
+ */
+function parseFields(fields: string | undefined, schema: z.AnyZodObject): string[] | undefined {
+  if (!fields) return undefined;
+  const known = Object.keys(schema.shape);
+  const requested = fields.split(",").map((field) => field.trim()).filter(Boolean);
+  const unknown = requested.filter((field) => !known.includes(field));
+  if (unknown.length) {
+    throw new ValidationError(`Unknown fields: ${unknown.join(", ")}`, "fields");
+  }
+  return Array.from(new Set(["id", ...requested]));
+}
+
+function selectFields<T extends object>(item: T, fields: string[] | undefined): Partial<T> {
+  if (!fields) return item;
+  return Object.fromEntries(Object.entries(item).filter(([key]) => fields.includes(key))) as Partial<T>;
+}
+
+function sendError(res: Response, error: unknown, label: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid query", details: error.errors });
+  }
+  if (error instanceof ValidationError) {
+    return res.status(400).json({ error: error.message, field: error.field });
+  }
+  console.error(`[api-v1] ${label} error:`, error);
+  res.status(500).json({ error: `Failed to fetch ${label}` });
+}
+
+/** Visible videos in the given order, localized. */
+async function loadVideos(ids: string[], lang: string): Promise<VideoWithRelations[]> {
+  const videos = await storage.getVideosWithRelationsByIds(ids, lang);
+  const byId = new Map(videos.filter((video) => !video.hiddenAt).map((video) => [video.id, video]));
+  return ids.map((id) => byId.get(id)).filter((video): video is VideoWithRelations => Boolean(video));
+}
+
+// Newest first; the cursor is the last video's [createdAt, id]
+router.get("/videos", requireApiToken("videos:read"), async (req, res) => {
+  try {
+    const query = apiV1VideoListQuerySchema.parse(req.query);
+    const fields = parseFields(query.fields, apiV1VideoSchema);
+    let after: { createdAt: Date; id: string } | undefined;
+    if (query.cursor) {
+      const [createdAt, id] = decodeCursor(query.cursor, 2);
+      after = { createdAt: new Date(createdAt), id };
+      if (Number.isNaN(after.createdAt.getTime())) throw new ValidationError("Invalid cursor", "cursor");
+    }
+
+    const rows = await storage.getVideoPage({
+      channelId: query.channelId,
+      categoryId: query.categoryId,
+      after,
+      limit: query.limit + 1,
+    });
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    const videos = await loadVideos(page.map((video) => video.id), query.lang);
+
+    res.json({
+      data: videos.map((video) => selectFields(toApiVideo(video), fields)),
+      nextCursor: rows.length > query.limit ? encodeCursor([last.createdAt.toISOString(), last.id]) : null,
+    });
+  } catch (error) {
+    sendError(res, error, "videos");
+  }
+});
+
+router.get("/videos/:id", requireApiToken("videos:read"), async (req, res) => {
+  try {
+    const query = apiV1ListQuerySchema.pick({ fields: true, lang: true }).parse(req.query);
+    const fields = parseFields(query.fields, apiV1VideoSchema);
+    const [video] = await loadVideos([req.params.id], query.lang);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+    res.json({ data: selectFields(toApiVideo(video), fields) });
+  } catch (error) {
+    sendError(res, error, "video");
+  }
+});
+
+router.get("/categories", requireApiToken("categories:read"), async (req, res) => {
+  try {
+    const query = apiV1ListQuerySchema.parse(req.query);
+    const fields = parseFields(query.fields, apiV1CategorySchema);
+    const categories = await storage.getAllLocalizedCategories(query.lang);
+    const { page, nextCursor } = paginateById(categories, query);
+    res.json({ data: page.map((category) => selectFields(toApiCategory(category), fields)), nextCursor });
+  } catch (error) {
+    sendError(res, error, "categories");
+  }
+});
+
+router.get("/channels", requireApiToken("channels:read"), async (req, res) => {
+  try {
+    const query = apiV1ListQuerySchema.parse(req.query);
+    const fields = parseFields(query.fields, apiV1ChannelSchema);
+    const { page, nextCursor } = paginateById(await storage.getAllChannels(), query);
+    res.json({ data: page.map((channel) => selectFields(toApiChannel(channel), fields)), nextCursor });
+  } catch (error) {
+    sendError(res, error, "channels");
+  }
+});
+
+// Only public editorial playlists; user playlists stay out of the API
+function isCurated(playlist: Playlist): boolean {
+  return !playlist.ownerId && playlist.visibility === "public";
+}
+
+router.get("/playlists", requireApiToken("playlists:read"), async (req, res) => {
+  try {
+    const query = apiV1ListQuerySchema.parse(req.query);
+    const fields = parseFields(query.fields, apiV1PlaylistSchema);
+    const playlists = (await storage.getAllPlaylists()).filter(isCurated);
+    const { page, nextCursor } = paginateById(playlists, query);
+    res.json({ data: page.map((playlist) => selectFields(toApiPlaylist(playlist), fields)), nextCursor });
+  } catch (error) {
+    sendError(res, error, "playlists");
+  }
+});
+
+router.get("/playlists/:id", requireApiToken("playlists:read"), async (req, res) => {
+  try {
+    const query = apiV1ListQuerySchema.pick({ fields: true, lang: true }).parse(req.query);
+    const fields = parseFields(query.fields, apiV1PlaylistDetailSchema);
+    const playlist = await storage.getPlaylist(req.params.id);
+    if (!playlist || !isCurated(playlist)) {
+      return res.status(404).json({ error: "Playlist not found" });
+    }
+    const entries = await storage.getPlaylistVideos(playlist.id);
+    const videos = await loadVideos(entries.map((entry) => entry.videoId), query.lang);
+    res.json({
+      data: selectFields({ ...toApiPlaylist(playlist), videos: videos.map(toApiVideo) }, fields),
+    });
+  } catch (error) {
+    sendError(res, error, "playlist");
+  }
+});
+
+const errorResponse = (description: string) => ({
+  description,
+  content: { "application/json": { schema: { $ref: "#/components/schemas/Error" } } },
+});
+
+function pageResponse(ref: string) {
+  return {
+    description: "A page of results",
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: {
+            data: { type: "array", items: { $ref: `#/components/schemas/${ref}` } },
+            nextCursor: { type: ["string", "null"], description: "Pass as `cursor` for the next page; null on the last page" },
+          },
+          required: ["data", "nextCursor"],
+        },
+      },
+    },
+  };
+}
+
+function itemResponse(ref: string) {
+  return {
+    description: "The item",
+    content: {
+      "application/json": {
+        schema: {
+          type: "object",
+          properties: { data: { $ref: `#/components/schemas/${ref}` } },
+          required: ["data"],
+        },
+      },
+    },
+  };
+}
+
+function operation(summary: string, scope: string, query: z.AnyZodObject, ok: object, withPathId = false) {
+  return {
+    summary,
+    description: `Requires the \`${scope}\` scope.`,
+    security: [{ bearerAuth: [scope] }],
+    parameters: [
+      ...(withPathId ? [{ name: "id", in: "path", required: true, schema: { type: "string" } }] : []),
+      ...zodToQueryParameters(query),
+    ],
+    responses: {
+      200: ok,
+      400: errorResponse("Invalid query, cursor or fields"),
+      401: errorResponse("Missing, unknown, revoked or expired token"),
+      403: errorResponse("The token lacks the scope"),
+      ...(withPathId ? { 404: errorResponse("Not found") } : {}),
+      429: errorResponse(`More than ${API_RATE_LIMIT} requests in a minute; see Retry-After`),
+    },
+  };
+}
+
+/** The OpenAPI 3.1 document for /api/v1, generated from the shared zod schemas. */
+export function buildOpenApiDocument() {
+  const itemQuery = apiV1ListQuerySchema.pick({ fields: true, lang: true });
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "nisam.video API",
+      version: "1.0.0",
+      description:
+        "Read access to curated videos, categories, channels and playlists. Create a token under Settings and send it as `Authorization: Bearer <token>`.",
+    },
+    servers: [{ url: `${siteUrl()}/api/v1` }],
+    paths: {
+      "/videos": { get: operation("List videos, newest first", "videos:read", apiV1VideoListQuerySchema, pageResponse("Video")) },
+      "/videos/{id}": { get: operation("Get a video", "videos:read", itemQuery, itemResponse("Video"), true) },
+      "/categories": { get: operation("List categories", "categories:read", apiV1ListQuerySchema, pageResponse("Category")) },
+      "/channels": { get: operation("List channels", "channels:read", apiV1ListQuerySchema, pageResponse("Channel")) },
+      "/playlists": { get: operation("List curated playlists", "playlists:read", apiV1ListQuerySchema, pageResponse("Playlist")) },
+      "/playlists/{id}": {
+        get: operation("Get a curated playlist with its videos", "playlists:read", itemQuery, itemResponse("PlaylistDetail"), true),
+      },
+    },
+    components: {
+      securitySchemes: {
+        bearerAuth: { type: "http", scheme: "bearer", description: `Scopes: ${API_TOKEN_SCOPES.join(", ")}` },
+      },
+      schemas: {
+        Video: zodToJsonSchema(apiV1VideoSchema),
+        Category: zodToJsonSchema(apiV1CategorySchema),
+        Channel: zodToJsonSchema(apiV1ChannelSchema),
+        Playlist: zodToJsonSchema(apiV1PlaylistSchema),
+        PlaylistDetail: zodToJsonSchema(apiV1PlaylistDetailSchema),
+        Error: {
+          type: "object",
+          properties: { error: { type: "string" } },
+          required: ["error"],
+        },
+      },
+    },
+  };
+}
+
+// Public so clients can be generated before a token exists
+router.get("/openapi.json", (_req, res) => {
+  res.json(buildOpenApiDocument());
+});
+
+export default router;
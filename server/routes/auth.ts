@@ -1,10 +1,45 @@
-import { Router } from "express";
+import { Router, type Request } from "express";
 import bcrypt from "bcrypt";
 import { storage } from "../storage/index.js";
 import { recordAuditLog } from "../error-log-service.js";
 import { verifyTurnstile } from "../middleware/turnstile.js";
+import { requireUser } from "../middleware/auth.js";
+import { mergeAnonymousActivity } from "../services/user-library.js";
+import { getSessionPermissions } from "../services/permissions.js";
+import { sendAccountEmail, sendEmailChangedNotice, verifyAccountToken } from "../services/account-tokens.js";
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  generateTotpSecret,
+  isTwoFactorEnabled,
+  isTwoFactorRequired,
+  matchTotp,
+  provisioningFor,
+  regenerateRecoveryCodes,
+  roleRequiresTwoFactor,
+  verifySecondFactor,
+} from "../services/two-factor.js";
+import {
+  completeAuthorization,
+  createAuthorizationRequest,
+  oidcRedirectUri,
+  resolveOidcUser,
+  safeEqual,
+} from "../services/oidc.js";
+import { ApplicationError, ExternalServiceError } from "../errors/custom-errors.js";
+import { getAnonymousIdentifier } from "../utils.js";
+import type { User } from "../../shared/schema.js";
 import crypto from "crypto";
 
+// How long the code step of a sign-in stays open, and how many wrong codes it takes
+const TWO_FACTOR_CHALLENGE_MS = 5 * 60 * 1000;
+const MAX_TWO_FACTOR_ATTEMPTS = 5;
+// How long a visitor has to finish signing in at an OpenID Connect provider
+const OIDC_FLOW_MS = 10 * 60 * 1000;
+
+// Replay guard for the environment admin's code; it has no user record to keep it on
+let configuredAdminLastStep: number | null = null;
+
 function normalizeCredential(value: unknown) {
   const raw = typeof value === "string" ? value : "";
   const trimmed = raw.trim();
@@ -28,15 +63,43 @@ function sanitizeForLog(value: unknown): string {
   return String(value || "");
 }
 
+function passwordPolicyError(password: string): string | null {
+  if (password.length < 8) {
+    return "Password must be at least 8 characters";
+  }
+  if (!/[A-Z]/.test(password) || !/[a-z]/.test(password) || !/[0-9]/.test(password)) {
+    return "Password must contain uppercase, lowercase, and a number";
+  }
+  return null;
+}
+
+function normalizeEmail(value: unknown): string | null {
+  const email = typeof value === "string" ? value.trim() : "";
+  return email || null;
+}
+
+function isValidEmail(email: string): boolean {
+  return email.length <= 254 && /^[^\s<>@]+@[^\s<>@]+\.[^\s<>@]+$/.test(email);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value.trim() ? value.trim() : undefined;
+}
+
+function auditContext(req: Request) {
+  return { ip: req.ip, userAgent: req.get("User-Agent") };
+}
+
 function getConfiguredAdmin() {
   const ADMIN_USERNAME = process.env.ADMIN_USERNAME;
   const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD;
+  const totpSecret = process.env.ADMIN_TOTP_SECRET?.trim() || null;
 
   if (process.env.NODE_ENV === "production") {
     if (!ADMIN_USERNAME || !ADMIN_PASSWORD) {
       return null;
     }
-    return { username: normalizeCredential(ADMIN_USERNAME), password: normalizeCredential(ADMIN_PASSWORD) };
+    return { username: normalizeCredential(ADMIN_USERNAME), password: normalizeCredential(ADMIN_PASSWORD), totpSecret };
   }
 
   if (process.env.NODE_ENV === "development") {
@@ -44,6 +107,7 @@ function getConfiguredAdmin() {
       return {
         username: normalizeCredential(ADMIN_USERNAME),
         password: normalizeCredential(ADMIN_PASSWORD),
+        totpSecret,
       };
     }
 
@@ -51,18 +115,65 @@ function getConfiguredAdmin() {
     if (!allowDevDefault) return null;
 
     console.warn("[Auth] Using default admin credentials (admin/admin) because ALLOW_DEV_DEFAULT_ADMIN=1.");
-    return { username: "admin", password: "admin" };
+    return { username: "admin", password: "admin", totpSecret };
   }
 
   return null;
 }
 
+// Regenerate session to prevent session fixation attacks
+function regenerateSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.regenerate((err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+}
+
+function saveSession(req: Request): Promise<void> {
+  return new Promise((resolve, reject) => {
+    req.session.save((err) => {
+      if (err) reject(err);
+      else resolve();
+    });
+  });
+}
+
+async function signInUser(req: Request, user: User) {
+  await regenerateSession(req);
+  req.session.isAuthenticated = true;
+  req.session.username = user.username;
+  req.session.userId = user.id;
+  req.session.role = user.role;
+  req.session.authenticatedAt = Date.now();
+  req.session.twoFactorSetupRequired = isTwoFactorRequired(user);
+  await mergeAnonymousActivity(user.id, getAnonymousIdentifier(req));
+  await saveSession(req);
+}
+
+async function signInConfiguredAdmin(req: Request, username: string) {
+  await regenerateSession(req);
+  req.session.isAuthenticated = true;
+  req.session.username = username;
+  req.session.role = "admin";
+  await saveSession(req);
+}
+
+/** Holds the sign-in at the code step; the session stays unauthenticated until then. */
+async function startTwoFactorChallenge(req: Request, pending: { userId?: string; configuredAdmin?: boolean }) {
+  await regenerateSession(req);
+  req.session.pendingTwoFactor = { ...pending, expiresAt: Date.now() + TWO_FACTOR_CHALLENGE_MS, attempts: 0 };
+  await saveSession(req);
+}
+
 const router = Router();
 
 router.post("/register", verifyTurnstile, async (req, res) => {
   try {
     const username = normalizeCredential(req.body?.username);
     const password = normalizeCredential(req.body?.password);
+    const email = normalizeEmail(req.body?.email);
 
     if (!username || !password) {
       return res.status(400).json({ error: "Username and password are required" });
@@ -72,12 +183,13 @@ router.post("/register", verifyTurnstile, async (req, res) => {
       return res.status(400).json({ error: "Username must be at least 3 characters" });
     }
 
-    if (password.length < 8) {
-      return res.status(400).json({ error: "Password must be at least 8 characters" });
+    const policyError = passwordPolicyError(password);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
     }
 
-    if (!/[A-Z]/.test(password) || !/[a-z]/.test(password) || !/[0-9]/.test(password)) {
-      return res.status(400).json({ error: "Password must contain uppercase, lowercase, and a number" });
+    if (email && !isValidEmail(email)) {
+      return res.status(400).json({ error: "Enter a valid email address" });
     }
 
     const existingUser = await storage.getUserByUsername(username);
@@ -85,44 +197,35 @@ router.post("/register", verifyTurnstile, async (req, res) => {
       return res.status(400).json({ error: "Username already exists" });
     }
 
+    // Reset links are sent by address, so one address belongs to one account
+    if (email && (await storage.getUserByEmail(email))) {
+      return res.status(400).json({ error: "Email is already in use" });
+    }
+
     const hashedPassword = await bcrypt.hash(password, 10);
 
     const newUser = await storage.createUser({
       username,
       password: hashedPassword,
       role: "user",
-      email: req.body?.email || null,
-    });
-
-    // Regenerate session to prevent session fixation attacks
-    await new Promise<void>((resolve, reject) => {
-      req.session.regenerate((err) => {
-        if (err) reject(err);
-        else resolve();
-      });
+      email,
     });
 
-    req.session.isAuthenticated = true;
-    req.session.username = newUser.username;
-    req.session.userId = newUser.id;
-    req.session.role = newUser.role;
+    await signInUser(req, newUser);
 
-    req.session.save((err) => {
-      if (err) {
-        res.status(500).json({ error: "Failed to save session" });
-      } else {
-        recordAuditLog({
-          action: "user.register",
-          userId: newUser.id,
-          username: newUser.username,
-          ip: req.ip,
-          userAgent: req.get("User-Agent"),
-          metadata: { email: newUser.email },
-        });
-        res.json({ success: true, username: newUser.username, role: newUser.role });
-      }
+    const verificationSent = await sendAccountEmail("email_verification", newUser, req.body?.locale).catch((error) => {
+      console.error("[auth] Verification email failed:", error);
+      return false;
     });
 
+    recordAuditLog({
+      action: "user.register",
+      userId: newUser.id,
+      username: newUser.username,
+      ...auditContext(req),
+      metadata: { email: newUser.email, verificationSent },
+    });
+    res.json({ success: true, username: newUser.username, role: newUser.role, verificationSent });
   } catch (error) {
     console.error("[auth] Register error:", error);
     res.status(500).json({ error: "Registration failed" });
@@ -131,7 +234,7 @@ router.post("/register", verifyTurnstile, async (req, res) => {
 
 router.post("/login", verifyTurnstile, async (req, res) => {
   const requestId = generateRequestId();
-  
+
   try {
     const username = normalizeCredential(req.body?.username);
     const password = normalizeCredential(req.body?.password);
@@ -143,81 +246,63 @@ router.post("/login", verifyTurnstile, async (req, res) => {
     // 1. Check Hardcoded Admin first (Environment variables)
     const configured = getConfiguredAdmin();
     if (configured && username === configured.username && password === configured.password) {
-      // Regenerate session to prevent session fixation attacks
-      await new Promise<void>((resolve, reject) => {
-        req.session.regenerate((err) => {
-          if (err) reject(err);
-          else resolve();
+      if (configured.totpSecret) {
+        await startTwoFactorChallenge(req, { configuredAdmin: true });
+        recordAuditLog({
+          action: "auth.login.2fa_required",
+          username,
+          ...auditContext(req),
+          metadata: { method: "admin", requestId },
         });
-      });
-
-      req.session.isAuthenticated = true;
-      req.session.username = username;
-      // @ts-ignore
-      req.session.role = "admin";
+        return res.json({ twoFactorRequired: true });
+      }
 
+      await signInConfiguredAdmin(req, username);
       recordAuditLog({
         action: "auth.login.success",
         username,
-        ip: req.ip,
-        userAgent: req.get("User-Agent"),
+        ...auditContext(req),
         metadata: { method: "admin", requestId },
       });
-
-      return req.session.save((err) => {
-        if (err) {
-          res.status(500).json({ error: "Failed to save session" });
-        } else {
-          res.json({ success: true, username, role: "admin" });
-        }
-      });
+      return res.json({ success: true, username, role: "admin" });
     }
 
     // 2. Check Database User
     const user = await storage.getUserByUsername(username);
-    if (user) {
-      const match = await bcrypt.compare(password, user.password);
-      if (match) {
-        // Regenerate session to prevent session fixation attacks
-        await new Promise<void>((resolve, reject) => {
-          req.session.regenerate((err) => {
-            if (err) reject(err);
-            else resolve();
-          });
-        });
-
-        req.session.isAuthenticated = true;
-        req.session.username = user.username;
-        // @ts-ignore
-        req.session.userId = user.id;
-        // @ts-ignore
-        req.session.role = user.role;
-
+    if (user && (await bcrypt.compare(password, user.password))) {
+      if (isTwoFactorEnabled(user)) {
+        await startTwoFactorChallenge(req, { userId: user.id });
         recordAuditLog({
-          action: "auth.login.success",
+          action: "auth.login.2fa_required",
           userId: user.id,
           username: user.username,
-          ip: req.ip,
-          userAgent: req.get("User-Agent"),
+          ...auditContext(req),
           metadata: { method: "database", requestId },
         });
-
-        return req.session.save((err) => {
-          if (err) {
-            res.status(500).json({ error: "Failed to save session" });
-          } else {
-            res.json({ success: true, username: user.username, role: user.role });
-          }
-        });
+        return res.json({ twoFactorRequired: true });
       }
+
+      await signInUser(req, user);
+      recordAuditLog({
+        action: "auth.login.success",
+        userId: user.id,
+        username: user.username,
+        ...auditContext(req),
+        metadata: { method: "database", requestId },
+      });
+      return res.json({
+        success: true,
+        username: user.username,
+        role: user.role,
+        twoFactorSetupRequired: req.session.twoFactorSetupRequired,
+      });
     }
 
     // Log failed login attempt
     recordAuditLog({
       action: "auth.login.failure",
       username: sanitizeForLog(username),
-      ip: req.ip,
-      userAgent: req.get("User-Agent"),
+      ...auditContext(req),
       metadata: { reason: "invalid_credentials", requestId },
     });
 
@@ -227,36 +312,587 @@ router.post("/login", verifyTurnstile, async (req, res) => {
     recordAuditLog({
       action: "auth.login.error",
       username: sanitizeForLog(req.body?.username),
-      ip: req.ip,
-      userAgent: req.get("User-Agent"),
+      ...auditContext(req),
       metadata: { error: error instanceof Error ? error.message : "Unknown error" },
     });
     res.status(500).json({ error: "Login failed" });
   }
 });
 
+// Second step of a sign-in: an authenticator code or a recovery code
+router.post("/login/2fa", async (req, res) => {
+  try {
+    const pending = req.session.pendingTwoFactor;
+    if (!pending || pending.expiresAt < Date.now()) {
+      delete req.session.pendingTwoFactor;
+      return res.status(401).json({ error: "Your sign-in has expired. Enter your password again." });
+    }
+
+    const code = optionalString(req.body?.code);
+    const recoveryCode = optionalString(req.body?.recoveryCode);
+    const configured = pending.configuredAdmin ? getConfiguredAdmin() : null;
+    const user = pending.userId ? await storage.getUser(pending.userId) : undefined;
+
+    let method: "totp" | "recovery" | null = null;
+    if (configured?.totpSecret && code) {
+      const step = matchTotp(configured.totpSecret, code, configuredAdminLastStep);
+      if (step !== null) {
+        configuredAdminLastStep = step;
+        method = "totp";
+      }
+    } else if (user) {
+      method = await verifySecondFactor(user, { code, recoveryCode });
+    }
+
+    if (!method) {
+      pending.attempts += 1;
+      const exhausted = pending.attempts >= MAX_TWO_FACTOR_ATTEMPTS;
+      if (exhausted) delete req.session.pendingTwoFactor;
+      recordAuditLog({
+        action: "auth.2fa.failure",
+        userId: user?.id,
+        username: user?.username || configured?.username,
+        ...auditContext(req),
+        metadata: { attempts: pending.attempts, exhausted },
+      });
+      return res.status(401).json({
+        error: exhausted ? "Too many wrong codes. Enter your password again." : "Invalid code",
+        restart: exhausted,
+      });
+    }
+
+    if (configured) {
+      await signInConfiguredAdmin(req, configured.username);
+      recordAuditLog({
+        action: "auth.login.success",
+        username: configured.username,
+        ...auditContext(req),
+        metadata: { method: "admin", secondFactor: method },
+      });
+      return res.json({ success: true, username: configured.username, role: "admin" });
+    }
+
+    await signInUser(req, user!);
+    recordAuditLog({
+      action: "auth.login.success",
+      userId: user!.id,
+      username: user!.username,
+      ...auditContext(req),
+      metadata: {
+        method: "database",
+        secondFactor: method,
+        ...(method === "recovery" ? { recoveryCodesLeft: user!.recoveryCodes.length - 1 } : {}),
+      },
+    });
+    res.json({ success: true, username: user!.username, role: user!.role });
+  } catch (error) {
+    console.error("[auth] Two-factor login error:", error);
+    res.status(500).json({ error: "Login failed" });
+  }
+});
+
 router.post("/logout", async (req, res) => {
-  const username = req.session.username;
+  const { username, userId } = req.session;
   req.session.destroy((err) => {
     if (err) {
       console.error("[auth] Logout error:", err);
       res.status(500).json({ error: "Logout failed" });
     } else {
-      console.log(`[auth] User logged out: ${username}`);
+      if (username) {
+        recordAuditLog({ action: "auth.logout", userId, username, ...auditContext(req) });
+      }
       res.json({ success: true });
     }
   });
 });
 
 router.get("/session", async (req, res) => {
-  res.json({
-    isAuthenticated: req.session.isAuthenticated || false,
-    username: req.session.username || null,
-    // @ts-ignore
-    role: req.session.role || null,
-    // @ts-ignore
-    userId: req.session.userId || null,
-  });
+  try {
+    // Resolved first so a role changed by an admin shows up straight away
+    const permissions = await getSessionPermissions(req.session);
+    res.json({
+      isAuthenticated: req.session.isAuthenticated || false,
+      username: req.session.username || null,
+      role: req.session.role || null,
+      userId: req.session.userId || null,
+      permissions,
+      twoFactorSetupRequired: req.session.twoFactorSetupRequired || false,
+    });
+  } catch (error) {
+    console.error("[auth] Session lookup failed:", error);
+    res.status(500).json({ error: "Failed to load session" });
+  }
+});
+
+// Always answers the same way so the form can't be used to find accounts
+router.post("/password/forgot", async (req, res) => {
+  try {
+    const identifier = normalizeCredential(req.body?.identifier);
+    if (!identifier) {
+      return res.status(400).json({ error: "Enter your username or email" });
+    }
+
+    const user = identifier.includes("@")
+      ? await storage.getUserByEmail(identifier)
+      : await storage.getUserByUsername(identifier);
+    const sent = user ? await sendAccountEmail("password_reset", user, req.body?.locale) : false;
+
+    recordAuditLog({
+      action: "auth.password_reset.requested",
+      userId: user?.id,
+      username: user?.username || sanitizeForLog(identifier),
+      ...auditContext(req),
+      metadata: { sent, ...(user ? {} : { reason: "unknown_account" }) },
+    });
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[auth] Password reset request error:", error);
+    res.status(500).json({ error: "Failed to request a password reset" });
+  }
+});
+
+router.post("/password/reset", async (req, res) => {
+  try {
+    const token = optionalString(req.body?.token);
+    const password = normalizeCredential(req.body?.password);
+    if (!token || !password) {
+      return res.status(400).json({ error: "Token and password are required" });
+    }
+    const policyError = passwordPolicyError(password);
+    if (policyError) {
+      return res.status(400).json({ error: policyError });
+    }
+
+    const user = await verifyAccountToken("password_reset", token);
+    if (!user) {
+      recordAuditLog({
+        action: "auth.password_reset.failure",
+        ...auditContext(req),
+        metadata: { reason: "invalid_token" },
+      });
+      return res.status(400).json({ error: "This reset link is invalid or has expired" });
+    }
+
+    // The link arrived by email, which also proves the address. Whoever else
+    // was signed in to the account is logged out.
+    await storage.updateUser(user.id, {
+      password: await bcrypt.hash(password, 10),
+      passwordSet: true,
+      emailVerifiedAt: user.emailVerifiedAt || new Date(),
+      sessionsRevokedAt: new Date(),
+    });
+    recordAuditLog({
+      action: "auth.password_reset.completed",
+      userId: user.id,
+      username: user.username,
+      ...auditContext(req),
+    });
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[auth] Password reset error:", error);
+    res.status(500).json({ error: "Failed to reset password" });
+  }
+});
+
+router.post("/email/verify", async (req, res) => {
+  try {
+    const token = optionalString(req.body?.token);
+    const user = token ? await verifyAccountToken("email_verification", token) : undefined;
+    if (!user) {
+      recordAuditLog({
+        action: "auth.email.verification_failure",
+        ...auditContext(req),
+        metadata: { reason: "invalid_token" },
+      });
+      return res.status(400).json({ error: "This verification link is invalid or has expired" });
+    }
+
+    if (!user.emailVerifiedAt) {
+      await storage.updateUser(user.id, { emailVerifiedAt: new Date() });
+      recordAuditLog({
+        action: "auth.email.verified",
+        userId: user.id,
+        username: user.username,
+        ...auditContext(req),
+        metadata: { email: user.email },
+      });
+    }
+    res.json({ success: true, email: user.email });
+  } catch (error) {
+    console.error("[auth] Email verification error:", error);
+    res.status(500).json({ error: "Failed to verify email" });
+  }
+});
+
+// Account security state for the settings page
+router.get("/account", requireUser, async (req, res) => {
+  try {
+    const user = await storage.getUser(req.session.userId!);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    res.json({
+      email: user.email,
+      emailVerified: Boolean(user.emailVerifiedAt),
+      passwordSet: user.passwordSet,
+      twoFactorEnabled: isTwoFactorEnabled(user),
+      twoFactorRequired: roleRequiresTwoFactor(user.role),
+      recoveryCodesLeft: isTwoFactorEnabled(user) ? user.recoveryCodes.length : 0,
+    });
+  } catch (error) {
+    console.error("[auth] Account lookup error:", error);
+    res.status(500).json({ error: "Failed to load account" });
+  }
+});
+
+router.put("/email", requireUser, async (req, res) => {
+  try {
+    const email = normalizeEmail(req.body?.email);
+    if (!email || !isValidEmail(email)) {
+      return res.status(400).json({ error: "Enter a valid email address" });
+    }
+    const owner = await storage.getUserByEmail(email);
+    if (owner && owner.id !== req.session.userId) {
+      return res.status(400).json({ error: "Email is already in use" });
+    }
+
+    const current = await storage.getUser(req.session.userId!);
+    if (!current) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    const unchanged = current.email?.toLowerCase() === email.toLowerCase();
+    // Reset links go to this address, so a stolen session alone mustn't be able
+    // to change it. Accounts a provider created have no address or no password
+    // yet, and adding the address is how they get one.
+    if (!unchanged && current.email && current.passwordSet) {
+      const password = normalizeCredential(req.body?.currentPassword);
+      if (!password || !(await bcrypt.compare(password, current.password))) {
+        return res.status(400).json({ error: "Incorrect password" });
+      }
+    }
+    const user = unchanged
+      ? current
+      : (await storage.updateUser(current.id, { email, emailVerifiedAt: null }))!;
+    const verificationSent = user.emailVerifiedAt
+      ? false
+      : await sendAccountEmail("email_verification", user, req.body?.locale);
+    const noticeSent = !unchanged && current.email
+      ? await sendEmailChangedNotice(user, current.email, req.body?.locale)
+      : false;
+
+    recordAuditLog({
+      action: unchanged ? "auth.email.verification_sent" : "auth.email.changed",
+      userId: user.id,
+      username: user.username,
+      ...auditContext(req),
+      metadata: { email, previousEmail: unchanged ? undefined : current.email, verificationSent, noticeSent },
+    });
+    res.json({ success: true, email: user.email, emailVerified: Boolean(user.emailVerifiedAt), verificationSent });
+  } catch (error) {
+    console.error("[auth] Email update error:", error);
+    res.status(500).json({ error: "Failed to update email" });
+  }
+});
+
+// Starts enrollment; nothing is saved until a code from the new secret confirms it
+router.post("/2fa/setup", requireUser, async (req, res) => {
+  try {
+    const user = await storage.getUser(req.session.userId!);
+    if (!user) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    if (isTwoFactorEnabled(user)) {
+      return res.status(400).json({ error: "Two-factor authentication is already on" });
+    }
+    const secret = generateTotpSecret();
+    req.session.pendingTotpSecret = secret;
+    recordAuditLog({ action: "auth.2fa.setup_started", userId: user.id, username: user.username, ...auditContext(req) });
+    res.json(provisioningFor(secret, user.username));
+  } catch (error) {
+    console.error("[auth] Two-factor setup error:", error);
+    res.status(500).json({ error: "Failed to start two-factor setup" });
+  }
+});
+
+router.post("/2fa/enable", requireUser, async (req, res) => {
+  try {
+    const secret = req.session.pendingTotpSecret;
+    const code = optionalString(req.body?.code);
+    const user = await storage.getUser(req.session.userId!);
+    if (!user || !secret) {
+      return res.status(400).json({ error: "Start two-factor setup first" });
+    }
+    const recoveryCodes = code ? await enableTwoFactor(user, secret, code) : null;
+    if (!recoveryCodes) {
+      recordAuditLog({
+        action: "auth.2fa.failure",
+        userId: user.id,
+        username: user.username,
+        ...auditContext(req),
+        metadata: { during: "enrollment" },
+      });
+      return res.status(400).json({ error: "Invalid code" });
+    }
+
+    delete req.session.pendingTotpSecret;
+    req.session.twoFactorSetupRequired = false;
+    recordAuditLog({ action: "auth.2fa.enabled", userId: user.id, username: user.username, ...auditContext(req) });
+    res.json({ success: true, recoveryCodes });
+  } catch (error) {
+    console.error("[auth] Two-factor enable error:", error);
+    res.status(500).json({ error: "Failed to enable two-factor authentication" });
+  }
+});
+
+router.post("/2fa/disable", requireUser, async (req, res) => {
+  try {
+    const user = await storage.getUser(req.session.userId!);
+    if (!user || !isTwoFactorEnabled(user)) {
+      return res.status(400).json({ error: "Two-factor authentication is not on" });
+    }
+    const password = normalizeCredential(req.body?.password);
+    const passwordOk = Boolean(password) && (await bcrypt.compare(password, user.password));
+    const method = passwordOk
+      ? await verifySecondFactor(user, { code: optionalString(req.body?.code), recoveryCode: optionalString(req.body?.recoveryCode) })
+      : null;
+    if (!method) {
+      recordAuditLog({
+        action: "auth.2fa.failure",
+        userId: user.id,
+        username: user.username,
+        ...auditContext(req),
+        metadata: { during: "disable", reason: passwordOk ? "invalid_code" : "invalid_password" },
+      });
+      return res.status(400).json({ error: passwordOk ? "Invalid code" : "Incorrect password" });
+    }
+
+    await disableTwoFactor(user.id);
+    req.session.twoFactorSetupRequired = roleRequiresTwoFactor(user.role);
+    recordAuditLog({ action: "auth.2fa.disabled", userId: user.id, username: user.username, ...auditContext(req) });
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[auth] Two-factor disable error:", error);
+    res.status(500).json({ error: "Failed to disable two-factor authentication" });
+  }
+});
+
+router.post("/2fa/recovery-codes", requireUser, async (req, res) => {
+  try {
+    const user = await storage.getUser(req.session.userId!);
+    if (!user || !isTwoFactorEnabled(user)) {
+      return res.status(400).json({ error: "Two-factor authentication is not on" });
+    }
+    const method = await verifySecondFactor(user, { code: optionalString(req.body?.code) });
+    if (!method) {
+      recordAuditLog({
+        action: "auth.2fa.failure",
+        userId: user.id,
+        username: user.username,
+        ...auditContext(req),
+        metadata: { during: "recovery_codes" },
+      });
+      return res.status(400).json({ error: "Invalid code" });
+    }
+
+    const recoveryCodes = await regenerateRecoveryCodes(user.id);
+    recordAuditLog({
+      action: "auth.2fa.recovery_codes_regenerated",
+      userId: user.id,
+      username: user.username,
+      ...auditContext(req),
+    });
+    res.json({ recoveryCodes });
+  } catch (error) {
+    console.error("[auth] Recovery code error:", error);
+    res.status(500).json({ error: "Failed to create recovery codes" });
+  }
+});
+
+// Only same-site paths, so the sign-in can't be turned into an open redirect
+function safeReturnTo(value: unknown, fallback: string): string {
+  return typeof value === "string" && value.startsWith("/") && !value.startsWith("//") && !value.startsWith("/\\")
+    ? value
+    : fallback;
+}
+
+function withQuery(path: string, params: Record<string, string>): string {
+  const url = new URL(path, "http://localhost");
+  for (const [key, value] of Object.entries(params)) url.searchParams.set(key, value);
+  return `${url.pathname}${url.search}`;
+}
+
+// Sign-in buttons on the login and register pages
+router.get("/oidc/providers", async (_req, res) => {
+  try {
+    const providers = await storage.getOidcProviders();
+    res.json(providers.filter((p) => p.enabled).map((p) => ({ slug: p.slug, name: p.name })));
+  } catch (error) {
+    console.error("[auth] OIDC provider list error:", error);
+    res.status(500).json({ error: "Failed to load sign-in providers" });
+  }
+});
+
+// Sends the browser to the provider; ?link=1 attaches the identity to the signed-in user instead
+router.get("/oidc/:slug/start", async (req, res) => {
+  const linking = req.query.link === "1";
+  const errorPath = linking ? "/settings" : "/login";
+  try {
+    const provider = await storage.getOidcProviderBySlug(req.params.slug);
+    if (!provider || !provider.enabled) {
+      return res.redirect(withQuery(errorPath, { oidcError: "This sign-in provider is not available" }));
+    }
+    if (linking && !req.session.userId) {
+      return res.redirect(withQuery("/login", { oidcError: "Log in before linking an account" }));
+    }
+
+    const redirectUri = oidcRedirectUri(provider.slug, `${req.protocol}://${req.get("host")}`);
+    const request = await createAuthorizationRequest(provider, redirectUri);
+    req.session.oidcFlow = {
+      providerId: provider.id,
+      state: request.state,
+      nonce: request.nonce,
+      codeVerifier: request.codeVerifier,
+      redirectUri,
+      linkUserId: linking ? req.session.userId : undefined,
+      returnTo: safeReturnTo(req.query.returnTo, linking ? "/settings" : "/"),
+      expiresAt: Date.now() + OIDC_FLOW_MS,
+    };
+    await saveSession(req);
+    res.redirect(request.url);
+  } catch (error) {
+    console.error("[auth] OIDC start error:", error);
+    const message =
+      error instanceof ApplicationError && !(error instanceof ExternalServiceError)
+        ? error.message
+        : "Could not reach the sign-in provider";
+    res.redirect(withQuery(errorPath, { oidcError: message }));
+  }
+});
+
+router.get("/oidc/:slug/callback", async (req, res) => {
+  const flow = req.session.oidcFlow;
+  delete req.session.oidcFlow;
+  const errorPath = flow?.linkUserId ? "/settings" : "/login";
+  const provider = await storage.getOidcProviderBySlug(req.params.slug).catch(() => undefined);
+
+  const fail = (message: string, reason: string) => {
+    recordAuditLog({
+      action: "auth.oidc.failure",
+      userId: flow?.linkUserId,
+      ...auditContext(req),
+      metadata: { provider: req.params.slug, reason },
+    });
+    res.redirect(withQuery(errorPath, { oidcError: message }));
+  };
+
+  const state = typeof req.query.state === "string" ? req.query.state : "";
+  if (!flow || !provider || flow.providerId !== provider.id || flow.expiresAt < Date.now() || !safeEqual(state, flow.state)) {
+    return fail("This sign-in has expired. Please try again.", "invalid_state");
+  }
+  if (typeof req.query.error === "string") {
+    const description = typeof req.query.error_description === "string" ? req.query.error_description : null;
+    return fail(description || `${provider.name} didn't complete the sign-in`, req.query.error);
+  }
+  if (typeof req.query.code !== "string" || !req.query.code) {
+    return fail(`${provider.name} didn't complete the sign-in`, "missing_code");
+  }
+
+  try {
+    const profile = await completeAuthorization(provider, {
+      code: req.query.code,
+      redirectUri: flow.redirectUri,
+      codeVerifier: flow.codeVerifier,
+      nonce: flow.nonce,
+    });
+    const { user, created, linked } = await resolveOidcUser(provider, profile, flow.linkUserId);
+    const metadata = { method: "oidc", provider: provider.slug, subject: profile.subject };
+
+    if (linked) {
+      recordAuditLog({ action: "auth.oidc.linked", userId: user.id, username: user.username, ...auditContext(req), metadata });
+    }
+    if (created) {
+      recordAuditLog({
+        action: "user.register",
+        userId: user.id,
+        username: user.username,
+        ...auditContext(req),
+        metadata: { ...metadata, email: user.email },
+      });
+    }
+
+    if (flow.linkUserId) {
+      await saveSession(req);
+      return res.redirect(withQuery(flow.returnTo, { linked: provider.slug }));
+    }
+
+    // The provider stands in for the password; a user who turned on two-factor auth still owes a code
+    if (isTwoFactorEnabled(user)) {
+      await startTwoFactorChallenge(req, { userId: user.id });
+      recordAuditLog({ action: "auth.login.2fa_required", userId: user.id, username: user.username, ...auditContext(req), metadata });
+      return res.redirect(withQuery("/login", { twoFactor: "1" }));
+    }
+
+    await signInUser(req, user);
+    recordAuditLog({ action: "auth.login.success", userId: user.id, username: user.username, ...auditContext(req), metadata });
+    res.redirect(req.session.twoFactorSetupRequired ? "/settings" : flow.returnTo);
+  } catch (error) {
+    if (error instanceof ApplicationError && !(error instanceof ExternalServiceError)) {
+      return fail(error.message, error.code);
+    }
+    console.error("[auth] OIDC callback error:", error);
+    fail(`Could not complete the sign-in with ${provider.name}`, "error");
+  }
+});
+
+router.get("/identities", requireUser, async (req, res) => {
+  try {
+    const [identities, providers] = await Promise.all([
+      storage.getUserIdentitiesByUser(req.session.userId!),
+      storage.getOidcProviders(),
+    ]);
+    const providersById = new Map(providers.map((p) => [p.id, p]));
+    res.json(
+      identities.map((identity) => ({
+        id: identity.id,
+        providerSlug: providersById.get(identity.providerId)?.slug ?? null,
+        providerName: providersById.get(identity.providerId)?.name ?? null,
+        email: identity.email,
+        lastLoginAt: identity.lastLoginAt,
+        createdAt: identity.createdAt,
+      })),
+    );
+  } catch (error) {
+    console.error("[auth] Identity list error:", error);
+    res.status(500).json({ error: "Failed to load linked accounts" });
+  }
+});
+
+router.delete("/identities/:id", requireUser, async (req, res) => {
+  try {
+    const user = await storage.getUser(req.session.userId!);
+    const identities = await storage.getUserIdentitiesByUser(req.session.userId!);
+    const identity = identities.find((i) => i.id === req.params.id);
+    if (!user || !identity) {
+      return res.status(404).json({ error: "Linked account not found" });
+    }
+    // Accounts created through a provider have no known password; an email lets them set one
+    if (identities.length === 1 && !user.email) {
+      return res.status(400).json({ error: "Add an email address first so you can still sign in with a password" });
+    }
+
+    await storage.deleteUserIdentity(identity.id);
+    recordAuditLog({
+      action: "auth.oidc.unlinked",
+      userId: user.id,
+      username: user.username,
+      ...auditContext(req),
+      metadata: { providerId: identity.providerId, subject: identity.subject },
+    });
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[auth] Identity unlink error:", error);
+    res.status(500).json({ error: "Failed to unlink the account" });
+  }
 });
 
 export default router;
@@ -1,7 +1,7 @@
 import { Router } from "express";
 import { z } from "zod";
 import { scheduler } from "../scheduler.js";
-import { requireAuth } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
 import { storage } from "../storage/index.js";
 import { jobQueue } from "../services/job-queue.js";
 import { db } from "../db.js";
@@ -11,10 +11,10 @@ import { desc, eq, and, sql } from "drizzle-orm";
 const router = Router();
 
 // Start a new automation job
-router.post("/jobs/start", requireAuth, async (req, res) => {
+router.post("/jobs/start", requirePermission("automation.manage"), async (req, res) => {
   try {
     const startSchema = z.object({
-      type: z.enum(["full_sync", "channel_scan", "scheduler_incremental"]).default("full_sync"),
+      type: z.enum(["full_sync", "channel_scan", "scheduler_incremental", "video_refresh", "availability_check", "embedding_backfill", "transcript_backfill", "chapter_backfill", "moderation_check"]).default("full_sync"),
       targetId: z.string().optional(),
       incremental: z.boolean().default(true),
     });
@@ -32,7 +32,7 @@ router.post("/jobs/start", requireAuth, async (req, res) => {
 });
 
 // Get recent jobs status
-router.get("/jobs", requireAuth, async (req, res) => {
+router.get("/jobs", requirePermission("automation.manage"), async (req, res) => {
   try {
     const rawLimit = parseInt(String(req.query.limit ?? ""), 10);
     const rawOffset = parseInt(String(req.query.offset ?? ""), 10);
@@ -84,7 +84,7 @@ router.get("/jobs", requireAuth, async (req, res) => {
   }
 });
 
-router.get("/jobs/active", requireAuth, async (req, res) => {
+router.get("/jobs/active", requirePermission("automation.manage"), async (req, res) => {
   try {
     const job = await storage.getActiveScrapeJob();
     res.json(job || null);
@@ -107,7 +107,7 @@ async function getJobById(jobId: string) {
   return job || null;
 }
 
-router.get("/jobs/:id/stream", requireAuth, async (req, res) => {
+router.get("/jobs/:id/stream", requirePermission("automation.manage"), async (req, res) => {
   const jobId = req.params.id;
   res.writeHead(200, {
     "Content-Type": "text/event-stream",
@@ -197,7 +197,7 @@ router.get("/jobs/:id/stream", requireAuth, async (req, res) => {
   });
 });
 
-router.get("/jobs/active/stream", requireAuth, async (req, res) => {
+router.get("/jobs/active/stream", requirePermission("automation.manage"), async (req, res) => {
   res.writeHead(200, {
     "Content-Type": "text/event-stream",
     "Cache-Control": "no-cache, no-transform",
@@ -304,10 +304,10 @@ router.get("/jobs/active/stream", requireAuth, async (req, res) => {
 });
 
 // Get automation statistics
-router.get("/stats", requireAuth, async (req, res) => {
+router.get("/stats", requirePermission("automation.manage"), async (req, res) => {
   try {
     const period = parseInt(req.query.period as string) || 30; // days
-    const allVideos = await storage.getAllVideos();
+    const allVideos = await storage.getAllVideos({ includeHidden: true });
     const allChannels = await storage.getAllChannels();
     
     const totalVideos = allVideos.length;
@@ -350,7 +350,7 @@ router.get("/stats", requireAuth, async (req, res) => {
 });
 
 // Get activity logs
-router.get("/activity", requireAuth, async (req, res) => {
+router.get("/activity", requirePermission("automation.manage"), async (req, res) => {
   try {
     const rawLimit = parseInt(String(req.query.limit ?? ""), 10);
     const rawOffset = parseInt(String(req.query.offset ?? ""), 10);
@@ -358,7 +358,7 @@ router.get("/activity", requireAuth, async (req, res) => {
     const offset = Number.isFinite(rawOffset) && rawOffset >= 0 ? rawOffset : 0;
     // This is a simplified version - in a real implementation, you'd want to store
     // actual activity logs in a database table
-    const recentVideos = await storage.getAllVideos();
+    const recentVideos = await storage.getAllVideos({ includeHidden: true });
     const recentVideosLimited = recentVideos.slice(offset, offset + limit);
 
     const activityLogs = recentVideosLimited.map((video: any, index: number) => {
@@ -382,7 +382,7 @@ router.get("/activity", requireAuth, async (req, res) => {
 });
 
 // Export automation data
-router.get("/export", requireAuth, async (req, res) => {
+router.get("/export", requirePermission("data.export"), async (req, res) => {
   try {
     const { format = "json" } = req.query;
     const exportSchema = z.object({
@@ -390,7 +390,7 @@ router.get("/export", requireAuth, async (req, res) => {
     });
     exportSchema.parse({ format });
     
-    const videos = await storage.getAllVideos();
+    const videos = await storage.getAllVideos({ includeHidden: true });
     const channels = await storage.getAllChannels();
     
     // Group videos by category and tags for analytics
@@ -465,7 +465,7 @@ router.get("/export", requireAuth, async (req, res) => {
 });
 
 // Health check endpoint
-router.get("/health", requireAuth, async (req, res) => {
+router.get("/health", requirePermission("automation.manage"), async (req, res) => {
   try {
     const activeJobs = await db.select({ count: sql<number>`count(*)` }).from(scrapeJobs).where(eq(scrapeJobs.status, "running"));
     const activeCount = activeJobs[0]?.count || 0;
@@ -482,7 +482,7 @@ router.get("/health", requireAuth, async (req, res) => {
 });
 
 // Bulk operations
-router.post("/jobs/bulk/retry", requireAuth, async (req, res) => {
+router.post("/jobs/bulk/retry", requirePermission("automation.manage"), async (req, res) => {
   try {
     const bulkSchema = z.object({
       ids: z.array(z.string()).min(1),
@@ -507,7 +507,7 @@ router.post("/jobs/bulk/retry", requireAuth, async (req, res) => {
   }
 });
 
-router.delete("/jobs/bulk", requireAuth, async (req, res) => {
+router.delete("/jobs/bulk", requirePermission("automation.manage"), async (req, res) => {
   try {
     const bulkSchema = z.object({
       ids: z.array(z.string()).min(1),
@@ -529,7 +529,7 @@ router.delete("/jobs/bulk", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/jobs/:id/pause", requireAuth, async (req, res) => {
+router.post("/jobs/:id/pause", requirePermission("automation.manage"), async (req, res) => {
   try {
     const jobId = req.params.id;
     await db.update(scrapeJobs)
@@ -542,7 +542,7 @@ router.post("/jobs/:id/pause", requireAuth, async (req, res) => {
   }
 });
 
-router.delete("/jobs/:id", requireAuth, async (req, res) => {
+router.delete("/jobs/:id", requirePermission("automation.manage"), async (req, res) => {
   try {
     const jobId = req.params.id;
     await db.update(scrapeJobs)
@@ -555,7 +555,7 @@ router.delete("/jobs/:id", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/jobs/:id/retry", requireAuth, async (req, res) => {
+router.post("/jobs/:id/retry", requirePermission("automation.manage"), async (req, res) => {
   try {
     const jobId = req.params.id;
     const [updated] = await db.update(scrapeJobs)
@@ -575,7 +575,7 @@ router.post("/jobs/:id/retry", requireAuth, async (req, res) => {
 });
 
 // Analytics endpoint
-router.get("/analytics", requireAuth, async (req, res) => {
+router.get("/analytics", requirePermission("automation.manage"), async (req, res) => {
   try {
     const rawPeriod = parseInt(String(req.query.period ?? ""), 10);
     const periodDays = Number.isFinite(rawPeriod) && rawPeriod > 0 ? Math.min(rawPeriod, 365) : 7;
@@ -620,7 +620,7 @@ router.get("/analytics", requireAuth, async (req, res) => {
 });
 
 // Scheduler settings
-router.get("/scheduler", requireAuth, async (req, res) => {
+router.get("/scheduler", requirePermission("automation.manage"), async (req, res) => {
   try {
     const settings = await storage.getSchedulerSettings();
     const status = scheduler.getStatus();
@@ -639,7 +639,7 @@ router.get("/scheduler", requireAuth, async (req, res) => {
 });
 
 // Update scheduler config
-router.post("/scheduler/config", requireAuth, async (req, res) => {
+router.post("/scheduler/config", requirePermission("automation.manage"), async (req, res) => {
   try {
     const configSchema = z.object({
       intervalHours: z.number().min(1).max(24),
@@ -0,0 +1,98 @@
+// Admin review queue for quarantined videos.
+// Mounted at /api/admin/availability — gated by requirePermission("videos.moderate").
+
+import { Router } from "express";
+import { requirePermission } from "../middleware/auth.js";
+import { storage } from "../storage/index.js";
+import { jobQueue } from "../services/job-queue.js";
+import { getAvailabilityRegion, restoreVideo } from "../services/availability.js";
+import { isModerationHold } from "../services/moderation.js";
+import { invalidateVideoContentCaches } from "../cache-invalidation.js";
+
+const router = Router();
+
+router.get("/", requirePermission("videos.moderate"), async (_req, res) => {
+  try {
+    const [allHidden, channels] = await Promise.all([storage.getHiddenVideos(), storage.getAllChannels()]);
+    // Moderation holds have their own queue (see routes/moderation.ts)
+    const hidden = allHidden.filter((video) => !isModerationHold(video));
+    const channelNames = new Map(channels.map((c) => [c.id, c.name]));
+
+    const byReason: Record<string, number> = {};
+    for (const video of hidden) {
+      const reason = video.hiddenReason || "unavailable";
+      byReason[reason] = (byReason[reason] || 0) + 1;
+    }
+
+    res.json({
+      region: getAvailabilityRegion(),
+      checkRunning: await jobQueue.hasActiveJob("availability_check"),
+      byReason,
+      videos: hidden.map((video) => ({
+        id: video.id,
+        videoId: video.videoId,
+        slug: video.slug,
+        title: video.title,
+        thumbnailUrl: video.thumbnailUrl,
+        videoType: video.videoType,
+        channelId: video.channelId,
+        channelName: channelNames.get(video.channelId) ?? null,
+        availability: video.availability,
+        hiddenAt: video.hiddenAt,
+        hiddenReason: video.hiddenReason,
+        availabilityCheckedAt: video.availabilityCheckedAt,
+      })),
+    });
+  } catch (error) {
+    console.error("[availability] queue lookup failed:", error);
+    res.status(500).json({ error: "Failed to load the review queue" });
+  }
+});
+
+router.post("/check", requirePermission("videos.moderate"), async (_req, res) => {
+  try {
+    if (await jobQueue.hasActiveJob("availability_check")) {
+      return res.status(409).json({ error: "An availability check is already running" });
+    }
+    const jobId = await jobQueue.createJob("availability_check");
+    res.json({ success: true, jobId });
+  } catch (error) {
+    console.error("[availability] check start failed:", error);
+    res.status(500).json({ error: "Failed to start the availability check" });
+  }
+});
+
+router.post("/videos/:id/restore", requirePermission("videos.moderate"), async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+    if (isModerationHold(video)) {
+      return res.status(409).json({ error: "This video is waiting for moderation" });
+    }
+    const restored = await restoreVideo(video.id);
+    invalidateVideoContentCaches();
+    res.json(restored);
+  } catch (error) {
+    console.error("[availability] restore failed:", error);
+    res.status(500).json({ error: "Failed to restore video" });
+  }
+});
+
+router.delete("/videos/:id", requirePermission("videos.moderate"), async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+    await storage.deleteVideo(video.id);
+    invalidateVideoContentCaches();
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[availability] delete failed:", error);
+    res.status(500).json({ error: "Failed to delete video" });
+  }
+});
+
+export default router;
@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { storage } from "../storage/index.js";
-import { requireAuth, requireAdmin } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
 import { insertCategoryTranslationSchema } from "../../shared/schema.js";
 import { z } from "zod";
 import { translateContent } from "../services/translation-service.js";
@@ -41,7 +41,7 @@ router.get("/:slug", async (req, res) => {
   }
 });
 
-router.get("/admin/all", requireAuth, async (req, res) => {
+router.get("/admin/all", requirePermission("taxonomy.manage"), async (req, res) => {
   try {
     const categories = await storage.getAllCategoriesWithTranslations();
     res.json(categories);
@@ -51,7 +51,7 @@ router.get("/admin/all", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/", requireAuth, async (req, res) => {
+router.post("/", requirePermission("taxonomy.manage"), async (req, res) => {
   try {
     const { name, description, translations } = req.body;
     
@@ -139,7 +139,7 @@ router.post("/", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/admin/translate-missing", requireAuth, requireAdmin, async (req, res) => {
+router.post("/admin/translate-missing", requirePermission("taxonomy.manage"), async (req, res) => {
   try {
     const body = z
       .object({
@@ -197,7 +197,7 @@ router.post("/admin/translate-missing", requireAuth, requireAdmin, async (req, r
   }
 });
 
-router.put("/:id", requireAuth, async (req, res) => {
+router.put("/:id", requirePermission("taxonomy.manage"), async (req, res) => {
   try {
     const { id } = req.params;
     const { name, description, languageCode } = req.body;
@@ -223,7 +223,7 @@ router.put("/:id", requireAuth, async (req, res) => {
   }
 });
 
-router.delete("/:id", requireAuth, async (req, res) => {
+router.delete("/:id", requirePermission("taxonomy.manage"), async (req, res) => {
   try {
     const { id } = req.params;
     await storage.deleteCategory(id);
@@ -1,45 +1,7 @@
 import { Router } from "express";
-import { storage } from "../storage/index.js";
 import { insertChannelRecommendationSchema } from "../../shared/schema.js";
-
-function normalizeYouTubeChannelUrl(input: string): string | null {
-  const raw = (input || "").trim();
-  if (!raw) return null;
-
-  const withScheme = raw.startsWith("http://") || raw.startsWith("https://") ? raw : `https://${raw}`;
-
-  let url: URL;
-  try {
-    url = new URL(withScheme);
-  } catch {
-    return null;
-  }
-
-  const host = url.hostname.replace(/^www\./, "").toLowerCase();
-  if (host !== "youtube.com" && host !== "m.youtube.com") return null;
-
-  const path = url.pathname.replace(/\/+$/, "");
-  if (!path || path === "/") return null;
-
-  if (
-    path.startsWith("/watch") ||
-    path.startsWith("/shorts") ||
-    path.startsWith("/playlist") ||
-    path.startsWith("/results")
-  ) {
-    return null;
-  }
-
-  const allowed =
-    path.startsWith("/@") ||
-    path.startsWith("/channel/") ||
-    path.startsWith("/c/") ||
-    path.startsWith("/user/");
-
-  if (!allowed) return null;
-
-  return `https://www.youtube.com${path}`;
-}
+import { submitChannelRecommendation } from "../services/channel-recommendations.js";
+import { normalizeYouTubeChannelUrl } from "../channel-urls.js";
 
 const router = Router();
 
@@ -51,7 +13,7 @@ router.post("/channel-recommendations", async (req, res) => {
       return res.status(400).json({ error: "Only YouTube channel URLs are supported" });
     }
 
-    const created = await storage.createChannelRecommendation({
+    const created = await submitChannelRecommendation({
       url: normalized,
       description: parsed.description || null,
       platform: "youtube",
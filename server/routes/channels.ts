@@ -1,10 +1,16 @@
 import { Router } from "express";
-import { requireAuth } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
 import { storage } from "../storage.js";
-import { scrapeYouTubeChannel, scrapeYouTubeChannelAbout } from "../youtube-scraper.js";
+import { scrapeYouTubeChannelAbout } from "../youtube-scraper.js";
+import { collectChannelVideos, getPlatformAdapter } from "../platforms/index.js";
 import { categorizeVideo } from "../ai-service.js";
+import { applyCategorization } from "../services/categorization.js";
+import { getTranscriptExcerpt, ingestVideoTranscripts } from "../services/transcripts.js";
 import { insertChannelSchema, videos, SUPPORTED_PLATFORMS } from "../../shared/schema.js";
-import { generateSlug } from "../utils.js";
+import { generateSlug, getUserIdentifier } from "../utils.js";
+import { kvService } from "../kv-service.js";
+import { moderateNewVideos, moderationHold, publishVideos } from "../services/moderation.js";
+import { channelPayload, emitWebhookEvent } from "../services/webhooks.js";
 import { db } from "../db.js";
 import { eq } from "drizzle-orm";
 import { kvStorage } from "../storage/kv.js";
@@ -64,11 +70,12 @@ async function asyncPool<T, R>(
 
 const router = Router();
 
-router.post("/", requireAuth, async (req, res) => {
+router.post("/", requirePermission("channels.manage"), async (req, res) => {
   try {
     const data = insertChannelSchema.parse(req.body);
     const channel = await storage.createChannel(data);
     console.log(`[channels] Created channel: ${channel.name}`);
+    await emitWebhookEvent("channel.added", { channel: channelPayload(channel) });
     res.json(channel);
   } catch (error) {
     console.error("[channels] Create error:", error);
@@ -124,7 +131,59 @@ router.get("/:id", async (req, res) => {
   }
 });
 
-router.delete("/:id", requireAuth, async (req, res) => {
+// Subscriptions work for visitors too; they are moved to the account on login
+router.get("/:id/subscription", async (req, res) => {
+  try {
+    const subscriberKey = getUserIdentifier(req);
+    const [subscriptions, subscriberCount] = await Promise.all([
+      storage.getSubscriptions(subscriberKey),
+      storage.getChannelSubscriberCount(req.params.id),
+    ]);
+    res.json({
+      subscribed: subscriptions.some((s) => s.channelId === req.params.id),
+      subscriberCount,
+    });
+  } catch (error) {
+    console.error("[channels] Subscription status error:", error);
+    res.status(500).json({ error: "Failed to get subscription status" });
+  }
+});
+
+router.post("/:id/subscription", async (req, res) => {
+  try {
+    const subscriberKey = getUserIdentifier(req);
+    const allowed = await kvService.checkRateLimit(subscriberKey, "subscribe");
+    if (!allowed) {
+      return res.status(429).json({ error: "Too many requests. Please slow down.", retryAfter: 60 });
+    }
+
+    const channel = await storage.getChannel(req.params.id);
+    if (!channel) {
+      return res.status(404).json({ error: "Channel not found" });
+    }
+
+    await storage.subscribeToChannel(subscriberKey, channel.id, req.session?.userId || null);
+    const subscriberCount = await storage.getChannelSubscriberCount(channel.id);
+    res.json({ subscribed: true, subscriberCount });
+  } catch (error) {
+    console.error("[channels] Subscribe error:", error);
+    res.status(500).json({ error: "Failed to subscribe" });
+  }
+});
+
+router.delete("/:id/subscription", async (req, res) => {
+  try {
+    const subscriberKey = getUserIdentifier(req);
+    await storage.unsubscribeFromChannel(subscriberKey, req.params.id);
+    const subscriberCount = await storage.getChannelSubscriberCount(req.params.id);
+    res.json({ subscribed: false, subscriberCount });
+  } catch (error) {
+    console.error("[channels] Unsubscribe error:", error);
+    res.status(500).json({ error: "Failed to unsubscribe" });
+  }
+});
+
+router.delete("/:id", requirePermission("channels.manage"), async (req, res) => {
   try {
     await storage.deleteChannel(req.params.id);
     console.log(`[channels] Deleted channel: ${req.params.id}`);
@@ -135,19 +194,25 @@ router.delete("/:id", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/:id/scrape", requireAuth, async (req, res) => {
+router.post("/:id/scrape", requirePermission("channels.manage"), async (req, res) => {
   try {
     const channel = await storage.getChannel(req.params.id);
     if (!channel) {
       return res.status(404).json({ error: "Channel not found" });
     }
 
-    const { channelInfo, videos: scrapedVideos } = await scrapeYouTubeChannel(
-      channel.url,
-    );
+    const adapter = getPlatformAdapter(channel.platform);
+    if (!adapter?.listsChannels) {
+      return res.status(400).json({ error: `${adapter?.displayName ?? channel.platform} channels can't be scraped` });
+    }
+
+    const existingVideoIds = new Set(await storage.getVideoIdsByChannel(channel.id));
+    const { channelInfo = {}, videos: scrapedVideos } = await collectChannelVideos(channel, {
+      existingVideoIds,
+    });
 
     const kvKey = `channel:youtube:about:${channel.id}`;
-    if (channelInfo.description || channelInfo.bannerUrl) {
+    if (channel.platform === "youtube" && (channelInfo.description || channelInfo.bannerUrl)) {
       await kvStorage.set(
         kvKey,
         {
@@ -162,7 +227,7 @@ router.post("/:id/scrape", requireAuth, async (req, res) => {
       await storage.updateChannel(channel.id, {
         channelId: channelInfo.channelId || channel.channelId,
         thumbnailUrl: channelInfo.thumbnailUrl || channel.thumbnailUrl,
-        bannerUrl: channelInfo.bannerUrl, // Store banner URL
+        bannerUrl: channelInfo.bannerUrl || channel.bannerUrl, // Store banner URL
         lastScraped: new Date(),
       } as any);
     }
@@ -199,6 +264,8 @@ router.post("/:id/scrape", requireAuth, async (req, res) => {
           viewCount: scrapedVideo.viewCount || null,
           publishDate: scrapedVideo.publishDate || null,
           videoType: scrapedVideo.videoType || "regular",
+          embedUrl: scrapedVideo.embedUrl || null,
+          ...moderationHold(channel),
         });
 
         newVideos.push(newVideo.id);
@@ -206,96 +273,27 @@ router.post("/:id/scrape", requireAuth, async (req, res) => {
       }
     }
 
+    await publishVideos(channel.id, await moderateNewVideos(newVideos, channel));
+
     console.log(`[channels] Auto-categorizing ${newVideos.length} new videos...`);
     for (const videoId of newVideos) {
       try {
         const video = await storage.getVideo(videoId);
         if (!video) continue;
 
+        try {
+          await ingestVideoTranscripts(video);
+        } catch (error) {
+          console.warn(`[channels] No transcript for ${video.title}: ${(error as Error).message}`);
+        }
+
         const result = await categorizeVideo(
           video.title,
           video.description || "",
-          { timeoutMs: 20000 },
+          { timeoutMs: 20000, transcript: await getTranscriptExcerpt(video.id) },
         );
 
-        const categoriesEn = result.categories.en || [];
-        const categoriesSr = result.categories.sr || [];
-        const maxCategories = Math.max(categoriesEn.length, categoriesSr.length);
-
-        for (let i = 0; i < maxCategories; i++) {
-          const nameEn = categoriesEn[i];
-          const nameSr = categoriesSr[i];
-          
-          if (!nameEn) continue;
-
-          const categorySlug = nameEn
-            .toLowerCase()
-            .replace(/[^a-z0-9]+/g, "-");
-            
-          let category = await storage.getLocalizedCategoryBySlug(categorySlug, 'en');
-
-          if (!category) {
-            const translations: { languageCode: string; name: string; slug: string; description: string | null }[] = [];
-            translations.push({
-              languageCode: 'en',
-              name: nameEn,
-              slug: categorySlug,
-              description: null
-            });
-
-            if (nameSr) {
-              translations.push({
-                languageCode: 'sr-Latn',
-                name: nameSr,
-                slug: categorySlug,
-                description: null
-              });
-            }
-
-            category = await storage.createCategory({}, translations);
-          } else if (nameSr) {
-             try {
-                await storage.addCategoryTranslation(category.id, {
-                  categoryId: category.id,
-                  languageCode: 'sr-Latn',
-                  name: nameSr,
-                  slug: categorySlug,
-                  description: null
-                }).catch(() => {});
-             } catch (e) {
-               // Ignore
-             }
-          }
-
-          await storage.addVideoCategory(video.id, category.id);
-        }
-
-        const tagsEn = result.tags.en || [];
-        const tagsSr = result.tags.sr || [];
-        const maxTags = Math.max(tagsEn.length, tagsSr.length);
-
-        for (let i = 0; i < maxTags; i++) {
-          const tagEn = tagsEn[i];
-          const tagSr = tagsSr[i];
-          
-          if (!tagEn) continue;
-
-          const translations = [{
-            languageCode: 'en',
-            tagName: tagEn
-          }];
-
-          if (tagSr) {
-             translations.push({
-               languageCode: 'sr-Latn',
-               tagName: tagSr
-             });
-          }
-
-          await storage.createTag({
-            videoId: video.id,
-          }, translations);
-        }
+        await applyCategorization(video.id, result);
 
         console.log(`[channels] Categorized: ${video.title}`);
       } catch (error) {
@@ -1,11 +1,13 @@
 import { Router } from "express";
-import { requireAuth } from "../middleware/auth.js";
+import { z } from "zod";
+import { requirePermission } from "../middleware/auth.js";
 import { storage } from "../storage/index.js";
-import { insertEmailSettingsSchema } from "../../shared/schema.js";
+import { insertEmailSettingsSchema, EMAIL_LOCALES } from "../../shared/schema.js";
+import { processEmailOutbox, sendTestEmail } from "../services/mailer.js";
 
 const router = Router();
 
-router.get("/", requireAuth, async (req, res) => {
+router.get("/", requirePermission("settings.manage"), async (req, res) => {
   try {
     const existing = await storage.getEmailSettings();
     const settings = existing || (await storage.updateEmailSettings({}));
@@ -20,7 +22,7 @@ router.get("/", requireAuth, async (req, res) => {
   }
 });
 
-router.patch("/", requireAuth, async (req, res) => {
+router.patch("/", requirePermission("settings.manage"), async (req, res) => {
   try {
     const parsed = insertEmailSettingsSchema.partial().parse(req.body);
     const existing = await storage.getEmailSettings();
@@ -59,5 +61,57 @@ router.patch("/", requireAuth, async (req, res) => {
   }
 });
 
+const testEmailSchema = z.object({
+  to: z.string().email(),
+  locale: z.enum(EMAIL_LOCALES).optional(),
+});
+
+router.post("/test", requirePermission("settings.manage"), async (req, res) => {
+  try {
+    const parsed = testEmailSchema.parse(req.body);
+    await sendTestEmail(parsed.to, parsed.locale, req.session?.username);
+    res.json({ success: true });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid test email request", details: error.errors });
+    }
+    console.error("[email-settings] Test send error:", error);
+    res.status(502).json({
+      error: "Failed to send test email",
+      details: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
+
+router.get("/outbox", requirePermission("settings.manage"), async (req, res) => {
+  try {
+    const status = typeof req.query.status === "string" ? req.query.status : undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const entries = await storage.getEmailOutbox({ status, limit });
+    // Bodies can be large and are already visible in the recipient's mailbox
+    res.json(entries.map(({ htmlBody, textBody, ...entry }) => entry));
+  } catch (error) {
+    console.error("[email-settings] Outbox error:", error);
+    res.status(500).json({ error: "Failed to fetch email outbox" });
+  }
+});
+
+router.post("/outbox/:id/retry", requirePermission("settings.manage"), async (req, res) => {
+  try {
+    const updated = await storage.updateEmailOutboxEntry(req.params.id, {
+      status: "pending",
+      attempts: 0,
+      nextAttemptAt: new Date(),
+      lastError: null,
+    });
+    if (!updated) return res.status(404).json({ error: "Outbox entry not found" });
+    processEmailOutbox().catch((error) => console.error("[email-settings] Outbox retry error:", error));
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[email-settings] Outbox retry error:", error);
+    res.status(500).json({ error: "Failed to retry email" });
+  }
+});
+
 export default router;
 
@@ -1,12 +1,12 @@
 import { Router } from "express";
 import { storage } from "../storage/index.js";
 import { db } from "../db.js";
-import { requireAuth } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
 import { tags } from "../../shared/schema.js";
 
 const router = Router();
 
-router.get("/:type", requireAuth, async (req, res) => {
+router.get("/:type", requirePermission("data.export"), async (req, res) => {
   try {
     const { type } = req.params;
     const format = (req.query.format as string) || "json";
@@ -16,7 +16,7 @@ router.get("/:type", requireAuth, async (req, res) => {
 
     switch (type) {
       case "videos":
-        data = await storage.getAllVideos();
+        data = await storage.getAllVideos({ includeHidden: true });
         filename = `videos-export-${new Date().toISOString().split("T")[0]}`;
         break;
       case "channels":
@@ -33,7 +33,7 @@ router.get("/:type", requireAuth, async (req, res) => {
         filename = `tags-export-${new Date().toISOString().split("T")[0]}`;
         break;
       case "analytics":
-        const videos = await storage.getAllVideos();
+        const videos = await storage.getAllVideos({ includeHidden: true });
         data = videos.map((v) => ({
           id: v.id,
           title: v.title,
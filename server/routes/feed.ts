@@ -0,0 +1,40 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage/index.js";
+import { getUserIdentifier } from "../utils.js";
+
+const router = Router();
+
+const followingQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(60).default(24),
+  offset: z.coerce.number().int().min(0).default(0),
+  lang: z.string().max(10).default("en"),
+});
+
+// Newest videos (by publish date) from the channels the visitor follows
+router.get("/following", async (req, res) => {
+  try {
+    const { limit, offset, lang } = followingQuerySchema.parse(req.query);
+    const subscriberKey = getUserIdentifier(req);
+    const [{ videos, total }, subscriptions] = await Promise.all([
+      storage.getFollowingFeed(subscriberKey, { limit, offset }, lang),
+      storage.getSubscriptions(subscriberKey),
+    ]);
+    res.json({
+      videos,
+      total,
+      limit,
+      offset,
+      hasMore: offset + videos.length < total,
+      channelCount: subscriptions.length,
+    });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid feed query", details: error.errors });
+    }
+    console.error("Following feed error:", error);
+    res.status(500).json({ error: "Failed to load following feed" });
+  }
+});
+
+export default router;
@@ -1,18 +1,25 @@
 import { Router } from "express";
-import { requireAuth } from "../middleware/auth.js";
+import { z } from "zod";
+import { requirePermission } from "../middleware/auth.js";
 import { db } from "../db.js";
-import { activityLogs, channelRecommendations } from "../../shared/schema.js";
+import { storage } from "../storage/index.js";
+import { isImapConfigured, pollImapInbox } from "../services/inbox-poller.js";
+import { activityLogs, channelRecommendations, INBOX_MESSAGE_STATUSES, type InboxMessageStatus } from "../../shared/schema.js";
 import { desc, eq, sql, and, or, like } from "drizzle-orm";
 
 const router = Router();
 
-// Get all inbox items (suggestions + channel recommendations) in one feed
-router.get("/", requireAuth, async (req, res) => {
+const updateThreadSchema = z.object({
+  status: z.enum(INBOX_MESSAGE_STATUSES),
+});
+
+// Get all inbox items (suggestions, channel recommendations, email threads) in one feed
+router.get("/", requirePermission("inbox.manage"), async (req, res) => {
   try {
     const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
     const offset = parseInt(req.query.offset as string) || 0;
-    const tab = (req.query.tab as string) || "all"; // all, suggestions, channels
-    const status = (req.query.status as string) || ""; // pending, approved, rejected, read, unread
+    const tab = (req.query.tab as string) || "all"; // all, suggestions, channels, emails
+    const status = (req.query.status as string) || ""; // pending, approved, rejected, read, unread, archived
 
     const results: any[] = [];
 
@@ -82,6 +89,30 @@ router.get("/", requireAuth, async (req, res) => {
       } catch {}
     }
 
+    // Email threads from the IMAP mailbox; archived threads only when asked for
+    if (tab === "all" || tab === "emails") {
+      const threadStatus = (INBOX_MESSAGE_STATUSES as readonly string[]).includes(status)
+        ? (status as InboxMessageStatus)
+        : undefined;
+      const threads = await storage.getInboxThreads({ status: threadStatus, limit });
+      for (const t of threads) {
+        results.push({
+          id: t.threadId,
+          type: "email",
+          subType: "email",
+          subject: t.subject,
+          message: t.snippet,
+          email: t.fromAddress,
+          sender: t.fromName || t.fromAddress,
+          ip: null,
+          status: t.archived ? "archived" : t.unreadCount > 0 ? "unread" : "read",
+          messageCount: t.messageCount,
+          unreadCount: t.unreadCount,
+          createdAt: t.lastReceivedAt,
+        });
+      }
+    }
+
     // Sort by createdAt descending
     results.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
 
@@ -92,6 +123,8 @@ router.get("/", requireAuth, async (req, res) => {
     const pendingChannels = results.filter(r => r.type === "channel_recommendation" && r.status === "pending").length;
     const totalSuggestions = results.filter(r => r.type === "suggestion").length;
     const totalChannelRecs = results.filter(r => r.type === "channel_recommendation").length;
+    const unreadEmails = (await storage.getInboxThreads({ status: "unread", limit: 200 })).length;
+    const emailSettings = await storage.getEmailSettings();
 
     res.json({
       items: paginated,
@@ -100,6 +133,12 @@ router.get("/", requireAuth, async (req, res) => {
         pendingChannels,
         totalSuggestions,
         totalChannelRecs,
+        unreadEmails,
+      },
+      mailbox: {
+        configured: isImapConfigured(emailSettings),
+        lastPolledAt: emailSettings?.imapLastPolledAt || null,
+        lastError: emailSettings?.imapLastError || null,
       },
     });
   } catch (error: any) {
@@ -108,8 +147,45 @@ router.get("/", requireAuth, async (req, res) => {
   }
 });
 
+// All messages of one email thread, oldest first
+router.get("/threads/:threadId", requirePermission("inbox.manage"), async (req, res) => {
+  try {
+    const messages = await storage.getInboxThreadMessages(req.params.threadId);
+    if (messages.length === 0) return res.status(404).json({ error: "Thread not found" });
+    res.json({ threadId: req.params.threadId, messages });
+  } catch (error: any) {
+    console.error("[inbox] Thread error:", error);
+    res.status(500).json({ error: "Failed to fetch thread" });
+  }
+});
+
+// Mark a whole thread read, unread or archived
+router.patch("/threads/:threadId", requirePermission("inbox.manage"), async (req, res) => {
+  try {
+    const { status } = updateThreadSchema.parse(req.body);
+    const updated = await storage.updateInboxThreadStatus(req.params.threadId, status);
+    if (updated === 0) return res.status(404).json({ error: "Thread not found" });
+    res.json({ success: true, updated });
+  } catch (error: any) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid status", details: error.errors });
+    }
+    console.error("[inbox] Thread update error:", error);
+    res.status(500).json({ error: "Failed to update thread" });
+  }
+});
+
+// Check the mailbox now instead of waiting for the next cron run
+router.post("/poll", requirePermission("inbox.manage"), async (_req, res) => {
+  try {
+    res.json(await pollImapInbox());
+  } catch (error: any) {
+    res.status(502).json({ error: "Failed to check mailbox", details: error?.message || String(error) });
+  }
+});
+
 // Delete a suggestion (activity log entry)
-router.delete("/suggestions/:id", requireAuth, async (req, res) => {
+router.delete("/suggestions/:id", requirePermission("inbox.manage"), async (req, res) => {
   try {
     await db.delete(activityLogs).where(eq(activityLogs.id, req.params.id));
     res.json({ success: true });
@@ -30,6 +30,16 @@ import adminChannelRecommendationsRouter from "./admin-channel-recommendations.j
 import emailSettingsRouter from "./email-settings.js";
 import suggestionsRouter from "./suggestions.js";
 import inboxRouter from "./inbox.js";
+import searchRouter from "./search.js";
+import feedRouter from "./feed.js";
+import notificationsRouter from "./notifications.js";
+import websubRouter from "./websub.js";
+import availabilityRouter from "./availability.js";
+import moderationRouter from "./moderation.js";
+import tagMergesRouter from "./tag-merges.js";
+import apiV1Router from "./api-v1.js";
+import oidcProvidersRouter from "./oidc-providers.js";
+import webhooksRouter from "./webhooks.js";
 import { createRateLimiters } from "../middleware/security.js";
 
 export function registerFeatureRoutes(app: Express): void {
@@ -40,29 +50,40 @@ export function registerFeatureRoutes(app: Express): void {
   // Auth routes with strict rate limiting
   app.use("/api/auth", auth, authRouter);
   app.use("/api/users", usersRouter);
+  app.use("/api/v1", apiV1Router);
   
   app.use("/api/channels", channelsRouter);
   app.use("/api", channelRecommendationsRouter);
   app.use("/api/tiktok-profiles", tiktokRouter);
   app.use("/api/admin/x", sensitiveAction, xRouter);
   app.use("/api/admin/sources", sensitiveAction, sourcesRouter);
+  app.use("/api/admin/availability", sensitiveAction, availabilityRouter);
+  app.use("/api/admin/moderation", sensitiveAction, moderationRouter);
+  app.use("/api/admin/tag-merges", sensitiveAction, tagMergesRouter);
   app.use("/api/admin/email-settings", emailSettingsRouter);
+  app.use("/api/admin/oidc-providers", sensitiveAction, oidcProvidersRouter);
+  app.use("/api/admin/webhooks", sensitiveAction, webhooksRouter);
   app.use("/api/admin", adminChannelRecommendationsRouter);
   
   // Admin routes with sensitive action rate limiting for mutations
   app.use("/api/admin", sensitiveAction, adminRouter);
   app.use("/api/videos", videosRouter);
+  app.use("/api/search", searchRouter);
   app.use("/api/categories", categoriesRouter);
   app.use("/api/tags", tagsRouter);
   app.use("/api/playlists", playlistsRouter);
   app.use("/api/scheduler", schedulerRouter);
   app.use("/api/automation", automationRouter);
+  app.use("/api/analytics/collect", api);
   app.use("/api/analytics", analyticsRouter);
   app.use("/api/system", systemRouter);
   app.use("/api/seo", seoRouter);
   app.use("/api/utils", utilsRouter);
   app.use("/api/shorts", shortsRouter);
   app.use("/api/user", userRouter);
+  app.use("/api/feed", feedRouter);
+  app.use("/api/notifications", notificationsRouter);
+  app.use("/api/websub", websubRouter);
   app.use("/api", logsRouter); // Mounts /client-logs and /activity-logs
   app.use("/api/suggestions", api, suggestionsRouter);
   app.use("/api/admin/inbox", inboxRouter);
@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { storage } from "../storage/index.js";
-import { requireAuth, requireAdmin } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
 import { insertSupportedLanguageSchema, insertUiTranslationSchema } from "../../shared/schema.js";
 import { z } from "zod";
 import { getAllTranslationsFlat, getMergedTranslations } from "../services/languages.js";
@@ -22,7 +22,7 @@ router.get("/languages", async (req, res) => {
 });
 
 // Upsert a language (Admin only)
-router.post("/languages", requireAuth, requireAdmin, async (req, res) => {
+router.post("/languages", requirePermission("settings.manage"), async (req, res) => {
   try {
     const data = insertSupportedLanguageSchema.parse(req.body);
     const result = await storage.upsertSupportedLanguage(data);
@@ -34,7 +34,7 @@ router.post("/languages", requireAuth, requireAdmin, async (req, res) => {
 });
 
 // Delete a language (Admin only)
-router.delete("/languages/:code", requireAuth, requireAdmin, async (req, res) => {
+router.delete("/languages/:code", requirePermission("settings.manage"), async (req, res) => {
   try {
     const { code } = req.params;
     if (code === 'en') {
@@ -64,7 +64,7 @@ router.get("/locales/:lng/:ns", async (req, res) => {
 });
 
 // Auto-translate missing keys
-router.post("/translate", requireAuth, requireAdmin, async (req, res) => {
+router.post("/translate", requirePermission("settings.manage"), async (req, res) => {
   try {
     const { targetLang, sourceLang = "en" } = req.body;
     
@@ -126,7 +126,7 @@ router.post("/translate", requireAuth, requireAdmin, async (req, res) => {
 });
 
 // Update a translation key (Admin only)
-router.post("/translations", requireAuth, requireAdmin, async (req, res) => {
+router.post("/translations", requirePermission("settings.manage"), async (req, res) => {
   try {
     const data = insertUiTranslationSchema.parse(req.body);
     const result = await storage.upsertUiTranslation(data);
@@ -138,7 +138,7 @@ router.post("/translations", requireAuth, requireAdmin, async (req, res) => {
 });
 
 // Get flat translations for admin editor (Merged File + DB)
-router.get("/translations/:lng", requireAuth, requireAdmin, async (req, res) => {
+router.get("/translations/:lng", requirePermission("settings.manage"), async (req, res) => {
     try {
         const { lng } = req.params;
         const merged = await getAllTranslationsFlat(lng);
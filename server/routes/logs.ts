@@ -1,7 +1,8 @@
 import { Router } from "express";
 import crypto from "crypto";
 import { db } from "../db.js";
-import { requireAuth } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
+import { sessionHasPermission } from "../services/permissions.js";
 import { getUserIdentifier } from "../utils.js";
 import { insertErrorEventSchema } from "../../shared/schema.js";
 import { recordError } from "../error-log-service.js";
@@ -49,7 +50,7 @@ router.get("/public/error-logs", async (req, res) => {
   // Require either a valid token OR admin authentication
   const token = process.env.PUBLIC_ERROR_LOGS_TOKEN;
   const requestToken = typeof req.query.token === "string" ? req.query.token : "";
-  const isAdmin = req.session?.isAuthenticated && req.session?.role === "admin";
+  const isAdmin = await sessionHasPermission(req.session, "logs.view");
   const hasValidToken = !!token && token.length >= 32 && requestToken.length === token.length && safeTokenEquals(requestToken, token);
 
   if (!isAdmin && !hasValidToken) {
@@ -158,7 +159,7 @@ router.post("/client-logs", async (req, res) => {
 });
 
 // Activity logs routes
-router.get("/activity-logs", requireAuth, async (req, res) => {
+router.get("/activity-logs", requirePermission("logs.view"), async (req, res) => {
   try {
     const { activityLogs: logsTable } = await import("../../shared/schema.js");
     // We need sql from drizzle-orm
@@ -0,0 +1,168 @@
+// Admin moderation queue and keyword rules.
+// Mounted at /api/admin/moderation — gated by requirePermission("videos.moderate").
+
+import { Router } from "express";
+import { z } from "zod";
+import { requirePermission } from "../middleware/auth.js";
+import { storage } from "../storage/index.js";
+import { jobQueue } from "../services/job-queue.js";
+import { applyModerationDecision, compileRule } from "../services/moderation.js";
+import { invalidateVideoContentCaches } from "../cache-invalidation.js";
+import { MODERATION_RULE_ACTIONS, MODERATION_STATUSES } from "../../shared/schema.js";
+
+const router = Router();
+
+const QUEUE_LIMIT = 200;
+
+router.get("/", requirePermission("videos.moderate"), async (req, res) => {
+  try {
+    const status = MODERATION_STATUSES.find((s) => s === req.query.status) ?? "pending_review";
+    const [queue, counts, channels] = await Promise.all([
+      storage.getVideosByModerationStatus(status, QUEUE_LIMIT),
+      storage.getModerationCounts(),
+      storage.getAllChannels(),
+    ]);
+    const channelsById = new Map(channels.map((c) => [c.id, c]));
+
+    res.json({
+      status,
+      counts,
+      checkRunning: await jobQueue.hasActiveJob("moderation_check"),
+      videos: queue.map((video) => ({
+        id: video.id,
+        videoId: video.videoId,
+        slug: video.slug,
+        title: video.title,
+        description: video.description,
+        thumbnailUrl: video.thumbnailUrl,
+        videoType: video.videoType,
+        channelId: video.channelId,
+        channelName: channelsById.get(video.channelId)?.name ?? null,
+        channelTrustLevel: channelsById.get(video.channelId)?.trustLevel ?? null,
+        moderationStatus: video.moderationStatus,
+        moderationReason: video.moderationReason,
+        moderatedAt: video.moderatedAt,
+        createdAt: video.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error("[moderation] queue lookup failed:", error);
+    res.status(500).json({ error: "Failed to load the moderation queue" });
+  }
+});
+
+const bulkSchema = z.object({
+  videoIds: z.array(z.string().min(1)).min(1).max(500),
+  action: z.enum(["approve", "reject"]),
+  reason: z.string().trim().max(500).optional(),
+});
+
+router.post("/bulk", requirePermission("videos.moderate"), async (req, res) => {
+  try {
+    const parsed = bulkSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+    }
+    const { videoIds, action, reason } = parsed.data;
+    const status = action === "approve" ? "approved" : "rejected";
+
+    let updated = 0;
+    for (const id of videoIds) {
+      const video = await storage.getVideo(id);
+      if (!video) continue;
+      await applyModerationDecision(video, { status, reason: reason || `${action === "approve" ? "Approved" : "Rejected"} by an admin` });
+      updated++;
+    }
+    invalidateVideoContentCaches();
+    res.json({ success: true, updated });
+  } catch (error) {
+    console.error("[moderation] bulk action failed:", error);
+    res.status(500).json({ error: "Failed to update videos" });
+  }
+});
+
+router.post("/check", requirePermission("videos.moderate"), async (_req, res) => {
+  try {
+    if (await jobQueue.hasActiveJob("moderation_check")) {
+      return res.status(409).json({ error: "A moderation check is already running" });
+    }
+    const jobId = await jobQueue.createJob("moderation_check");
+    res.json({ success: true, jobId });
+  } catch (error) {
+    console.error("[moderation] check start failed:", error);
+    res.status(500).json({ error: "Failed to start the moderation check" });
+  }
+});
+
+router.get("/rules", requirePermission("videos.moderate"), async (_req, res) => {
+  try {
+    res.json(await storage.getModerationRules());
+  } catch (error) {
+    console.error("[moderation] rules lookup failed:", error);
+    res.status(500).json({ error: "Failed to load moderation rules" });
+  }
+});
+
+const ruleSchema = z
+  .object({
+    pattern: z.string().trim().min(1).max(200),
+    isRegex: z.boolean().default(false),
+    action: z.enum(MODERATION_RULE_ACTIONS).default("review"),
+    note: z.string().trim().max(200).nullable().optional(),
+    isActive: z.boolean().default(true),
+  })
+  .refine(
+    (rule) => {
+      try {
+        compileRule(rule);
+        return true;
+      } catch {
+        return false;
+      }
+    },
+    { message: "Invalid regular expression", path: ["pattern"] },
+  );
+
+router.post("/rules", requirePermission("videos.moderate"), async (req, res) => {
+  try {
+    const parsed = ruleSchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid rule" });
+    }
+    const rule = await storage.createModerationRule({ ...parsed.data, note: parsed.data.note || null });
+    res.status(201).json(rule);
+  } catch (error) {
+    console.error("[moderation] rule create failed:", error);
+    res.status(500).json({ error: "Failed to create moderation rule" });
+  }
+});
+
+router.patch("/rules/:id", requirePermission("videos.moderate"), async (req, res) => {
+  try {
+    const existing = (await storage.getModerationRules()).find((rule) => rule.id === req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: "Moderation rule not found" });
+    }
+    const parsed = ruleSchema.safeParse({ ...existing, ...(req.body ?? {}) });
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid rule" });
+    }
+    const rule = await storage.updateModerationRule(existing.id, { ...parsed.data, note: parsed.data.note || null });
+    res.json(rule);
+  } catch (error) {
+    console.error("[moderation] rule update failed:", error);
+    res.status(500).json({ error: "Failed to update moderation rule" });
+  }
+});
+
+router.delete("/rules/:id", requirePermission("videos.moderate"), async (req, res) => {
+  try {
+    await storage.deleteModerationRule(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[moderation] rule delete failed:", error);
+    res.status(500).json({ error: "Failed to delete moderation rule" });
+  }
+});
+
+export default router;
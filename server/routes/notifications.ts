@@ -0,0 +1,54 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage/index.js";
+import { getUserIdentifier } from "../utils.js";
+
+const router = Router();
+
+const markReadSchema = z.object({
+  ids: z.array(z.string()).max(200).optional(),
+});
+
+router.get("/", async (req, res) => {
+  try {
+    const subscriberKey = getUserIdentifier(req);
+    const limit = Math.min(parseInt(req.query.limit as string) || 20, 100);
+    const [notifications, unreadCount] = await Promise.all([
+      storage.getNotifications(subscriberKey, { limit, unreadOnly: req.query.unread === "true" }),
+      storage.getUnreadNotificationCount(subscriberKey),
+    ]);
+    res.json({ notifications, unreadCount });
+  } catch (error) {
+    console.error("Get notifications error:", error);
+    res.status(500).json({ error: "Failed to get notifications" });
+  }
+});
+
+router.get("/unread-count", async (req, res) => {
+  try {
+    const unreadCount = await storage.getUnreadNotificationCount(getUserIdentifier(req));
+    res.json({ unreadCount });
+  } catch (error) {
+    console.error("Get unread notification count error:", error);
+    res.status(500).json({ error: "Failed to get unread count" });
+  }
+});
+
+// Without ids every notification is marked as read
+router.post("/read", async (req, res) => {
+  try {
+    const { ids } = markReadSchema.parse(req.body || {});
+    const subscriberKey = getUserIdentifier(req);
+    const updated = await storage.markNotificationsRead(subscriberKey, ids);
+    const unreadCount = await storage.getUnreadNotificationCount(subscriberKey);
+    res.json({ updated, unreadCount });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid request", details: error.errors });
+    }
+    console.error("Mark notifications read error:", error);
+    res.status(500).json({ error: "Failed to update notifications" });
+  }
+});
+
+export default router;
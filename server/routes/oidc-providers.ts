@@ -0,0 +1,161 @@
+// Admin settings for OpenID Connect sign-in providers.
+// Mounted at /api/admin/oidc-providers — gated by requirePermission("settings.manage").
+
+import { Router, type Request } from "express";
+import { z } from "zod";
+import { requirePermission } from "../middleware/auth.js";
+import { storage } from "../storage/index.js";
+import { recordAuditLog } from "../error-log-service.js";
+import { ApplicationError } from "../errors/custom-errors.js";
+import { clearOidcCache, oidcRedirectUri, resolveEndpoints } from "../services/oidc.js";
+import { oidcProviderSchema, type OidcProvider } from "../../shared/schema.js";
+
+const router = Router();
+
+const MASKED_SECRET = "********";
+
+function requestOrigin(req: Request): string {
+  return `${req.protocol}://${req.get("host")}`;
+}
+
+function toAdminProvider(provider: OidcProvider, req: Request) {
+  return {
+    ...provider,
+    clientSecret: provider.clientSecret ? MASKED_SECRET : null,
+    redirectUri: oidcRedirectUri(provider.slug, requestOrigin(req)),
+  };
+}
+
+// Discovery needs an issuer; plain OAuth 2.0 providers name their endpoints instead
+function endpointsError(data: Partial<z.infer<typeof oidcProviderSchema>>): string | null {
+  if (data.issuer) return null;
+  if (!data.authorizationEndpoint || !data.tokenEndpoint || !data.userinfoEndpoint) {
+    return "Set an issuer, or the authorization, token and userinfo endpoints";
+  }
+  return null;
+}
+
+function audit(req: Request, operation: string, provider: OidcProvider) {
+  recordAuditLog({
+    action: "admin.action",
+    userId: req.session.userId,
+    username: req.session.username,
+    ip: req.ip,
+    userAgent: req.get("User-Agent"),
+    metadata: { operation, providerId: provider.id, slug: provider.slug },
+  });
+}
+
+router.get("/", requirePermission("settings.manage"), async (req, res) => {
+  try {
+    const providers = await storage.getOidcProviders();
+    res.json(providers.map((provider) => toAdminProvider(provider, req)));
+  } catch (error) {
+    console.error("[oidc-providers] List error:", error);
+    res.status(500).json({ error: "Failed to load sign-in providers" });
+  }
+});
+
+router.post("/", requirePermission("settings.manage"), async (req, res) => {
+  try {
+    const data = oidcProviderSchema.parse(req.body ?? {});
+    const invalid = endpointsError(data);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    if (await storage.getOidcProviderBySlug(data.slug)) {
+      return res.status(400).json({ error: "Another provider uses this slug" });
+    }
+
+    const provider = await storage.createOidcProvider({
+      ...data,
+      issuer: data.issuer ?? null,
+      clientSecret: data.clientSecret || null,
+      authorizationEndpoint: data.authorizationEndpoint ?? null,
+      tokenEndpoint: data.tokenEndpoint ?? null,
+      userinfoEndpoint: data.userinfoEndpoint ?? null,
+      roleClaim: data.roleClaim || null,
+    });
+    audit(req, "oidc_provider.create", provider);
+    res.status(201).json(toAdminProvider(provider, req));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0]?.message || "Invalid provider", details: error.errors });
+    }
+    console.error("[oidc-providers] Create error:", error);
+    res.status(500).json({ error: "Failed to create the provider" });
+  }
+});
+
+router.patch("/:id", requirePermission("settings.manage"), async (req, res) => {
+  try {
+    const existing = await storage.getOidcProvider(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: "Provider not found" });
+    }
+    const data = oidcProviderSchema.partial().parse(req.body ?? {});
+    const invalid = endpointsError({ ...existing, ...data });
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    if (data.slug && data.slug !== existing.slug && (await storage.getOidcProviderBySlug(data.slug))) {
+      return res.status(400).json({ error: "Another provider uses this slug" });
+    }
+
+    const update: Record<string, unknown> = { ...data };
+    if (data.clientSecret === MASKED_SECRET) {
+      delete update.clientSecret;
+    } else if (data.clientSecret !== undefined) {
+      update.clientSecret = data.clientSecret || null;
+    }
+    if (data.roleClaim !== undefined) update.roleClaim = data.roleClaim || null;
+
+    const provider = await storage.updateOidcProvider(existing.id, update);
+    clearOidcCache();
+    audit(req, "oidc_provider.update", provider!);
+    res.json(toAdminProvider(provider!, req));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0]?.message || "Invalid provider", details: error.errors });
+    }
+    console.error("[oidc-providers] Update error:", error);
+    res.status(500).json({ error: "Failed to update the provider" });
+  }
+});
+
+router.delete("/:id", requirePermission("settings.manage"), async (req, res) => {
+  try {
+    const provider = await storage.getOidcProvider(req.params.id);
+    if (!provider) {
+      return res.status(404).json({ error: "Provider not found" });
+    }
+    // Linked identities go with it; their users keep their accounts
+    await storage.deleteOidcProvider(provider.id);
+    audit(req, "oidc_provider.delete", provider);
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[oidc-providers] Delete error:", error);
+    res.status(500).json({ error: "Failed to delete the provider" });
+  }
+});
+
+// Runs discovery so a typo in the issuer shows up before anyone tries to sign in
+router.post("/:id/test", requirePermission("settings.manage"), async (req, res) => {
+  try {
+    const provider = await storage.getOidcProvider(req.params.id);
+    if (!provider) {
+      return res.status(404).json({ error: "Provider not found" });
+    }
+    clearOidcCache();
+    const endpoints = await resolveEndpoints(provider);
+    res.json({ success: true, endpoints });
+  } catch (error) {
+    if (error instanceof ApplicationError) {
+      return res.status(400).json({ success: false, error: error.message });
+    }
+    console.error("[oidc-providers] Test error:", error);
+    res.status(500).json({ error: "Failed to test the provider" });
+  }
+});
+
+export default router;
@@ -1,16 +1,23 @@
 import { Router } from "express";
+import { z } from "zod";
 import { storage } from "../storage/index.js";
 import { requireAuth } from "../middleware/auth.js";
 import { insertPlaylistSchema } from "../../shared/schema.js";
+import { canEditPlaylist, canManagePlaylists, canViewPlaylist } from "../services/user-library.js";
 
 const router = Router();
 
+// Staff with videos.manage create editorial playlists; other accounts get a playlist of their own
 router.post("/", requireAuth, async (req, res) => {
   try {
     const data = insertPlaylistSchema.parse(req.body);
-    const playlist = await storage.createPlaylist(data);
+    const ownerId = (await canManagePlaylists(req.session)) ? null : req.session.userId || null;
+    const playlist = await storage.createPlaylist({ ...data, ownerId });
     res.json(playlist);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid playlist", details: error.errors });
+    }
     console.error("Create playlist error:", error);
     res.status(400).json({ error: "Failed to create playlist" });
   }
@@ -19,7 +26,7 @@ router.post("/", requireAuth, async (req, res) => {
 router.get("/", async (req, res) => {
   try {
     const playlists = await storage.getAllPlaylists();
-    res.json(playlists);
+    res.json(playlists.filter((p) => p.visibility === "public"));
   } catch (error) {
     console.error("Get playlists error:", error);
     res.status(500).json({ error: "Failed to fetch playlists" });
@@ -29,7 +36,8 @@ router.get("/", async (req, res) => {
 router.get("/:id", async (req, res) => {
   try {
     const playlist = await storage.getPlaylistWithVideos(req.params.id);
-    if (!playlist) {
+    // Private playlists are reported as missing rather than forbidden
+    if (!playlist || !(await canViewPlaylist(playlist, req.session))) {
       return res.status(404).json({ error: "Playlist not found" });
     }
     res.json(playlist);
@@ -41,12 +49,20 @@ router.get("/:id", async (req, res) => {
 
 router.patch("/:id", requireAuth, async (req, res) => {
   try {
-    const playlist = await storage.updatePlaylist(req.params.id, req.body);
-    if (!playlist) {
+    const existing = await storage.getPlaylist(req.params.id);
+    if (!existing || !(await canViewPlaylist(existing, req.session))) {
       return res.status(404).json({ error: "Playlist not found" });
     }
+    if (!(await canEditPlaylist(existing, req.session))) {
+      return res.status(403).json({ error: "You cannot edit this playlist" });
+    }
+    const data = insertPlaylistSchema.partial().parse(req.body);
+    const playlist = await storage.updatePlaylist(req.params.id, data);
     res.json(playlist);
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid playlist", details: error.errors });
+    }
     console.error("Update playlist error:", error);
     res.status(500).json({ error: "Failed to update playlist" });
   }
@@ -54,6 +70,14 @@ router.patch("/:id", requireAuth, async (req, res) => {
 
 router.delete("/:id", requireAuth, async (req, res) => {
   try {
+    const existing = await storage.getPlaylist(req.params.id);
+    // A private playlist someone else owns is as good as missing
+    if (!existing || !(await canViewPlaylist(existing, req.session))) {
+      return res.json({ success: true });
+    }
+    if (!(await canEditPlaylist(existing, req.session))) {
+      return res.status(403).json({ error: "You cannot delete this playlist" });
+    }
     await storage.deletePlaylist(req.params.id);
     res.json({ success: true });
   } catch (error) {
@@ -68,6 +92,13 @@ router.post("/:id/videos", requireAuth, async (req, res) => {
     if (!videoId) {
       return res.status(400).json({ error: "videoId is required" });
     }
+    const existing = await storage.getPlaylist(req.params.id);
+    if (!existing || !(await canViewPlaylist(existing, req.session))) {
+      return res.status(404).json({ error: "Playlist not found" });
+    }
+    if (!(await canEditPlaylist(existing, req.session))) {
+      return res.status(403).json({ error: "You cannot edit this playlist" });
+    }
     await storage.addVideoToPlaylist(req.params.id, videoId);
     res.json({ success: true });
   } catch (error) {
@@ -81,6 +112,13 @@ router.delete(
   requireAuth,
   async (req, res) => {
     try {
+      const existing = await storage.getPlaylist(req.params.id);
+      if (!existing || !(await canViewPlaylist(existing, req.session))) {
+        return res.status(404).json({ error: "Playlist not found" });
+      }
+      if (!(await canEditPlaylist(existing, req.session))) {
+        return res.status(403).json({ error: "You cannot edit this playlist" });
+      }
       await storage.removeVideoFromPlaylist(
         req.params.id,
         req.params.videoId,
@@ -9,7 +9,7 @@ import {
   categoryTranslations,
   tagTranslations,
 } from "../../shared/schema.js";
-import { eq } from "drizzle-orm";
+import { eq, isNull } from "drizzle-orm";
 
 function slugifyChannel(name: string, id: string): string {
   const base = (name || "")
@@ -31,6 +31,7 @@ function slugifyChannel(name: string, id: string): string {
 const router = Router();
 
 import { getCache, setCache } from "../services/redis.js";
+import { buildVideoEmbedUrl } from "../platforms/index.js";
 
 export const robotsHandler = async (_req: any, res: any) => {
   try {
@@ -74,7 +75,7 @@ export const sitemapHandler = async (_req: any, res: any) => {
     // Fetch all public URLs. Categories and tags get their slugs from
     // translations; channels build a slug from name+id the same way the client does.
     const [allVideos, allCategories, allChannels, allTags] = await Promise.all([
-      db.select({ slug: videos.slug, createdAt: videos.createdAt }).from(videos),
+      db.select({ slug: videos.slug, createdAt: videos.createdAt }).from(videos).where(isNull(videos.hiddenAt)),
       db
         .select({ slug: categoryTranslations.slug })
         .from(categoryTranslations)
@@ -210,10 +211,7 @@ router.get("/hero/random-video", async (req, res) => {
       return res.json(empty);
     }
 
-    const isTikTok = picked.videoType === "tiktok";
-    const embedUrl = isTikTok
-      ? (picked.embedUrl || `https://www.tiktok.com/embed/v2/${picked.videoId}`)
-      : `https://www.youtube.com/embed/${picked.videoId}`;
+    const embedUrl = buildVideoEmbedUrl(picked);
 
     const payload = { video: picked, embedUrl };
     cache.set(cacheKey, payload, 30000);
@@ -1,12 +1,12 @@
 import { Router } from "express";
 import { scheduler } from "../scheduler.js";
-import { requireAuth } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
 import { storage } from "../storage/index.js";
 import { logger } from "../lib/logger.js";
 
 const router = Router();
 
-router.get("/jobs", requireAuth, async (req, res) => {
+router.get("/jobs", requirePermission("automation.manage"), async (req, res) => {
   try {
     const jobs = await storage.getRecentScrapeJobs(20);
     res.json(jobs);
@@ -16,7 +16,7 @@ router.get("/jobs", requireAuth, async (req, res) => {
   }
 });
 
-router.get("/", requireAuth, async (req, res) => {
+router.get("/", requirePermission("automation.manage"), async (req, res) => {
   try {
     const settings = await scheduler.getSettings();
     const status = scheduler.getStatus();
@@ -34,7 +34,7 @@ router.get("/", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/start", requireAuth, async (req, res) => {
+router.post("/start", requirePermission("automation.manage"), async (req, res) => {
   try {
     await scheduler.start();
     const settings = await scheduler.getSettings();
@@ -45,7 +45,7 @@ router.post("/start", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/stop", requireAuth, async (req, res) => {
+router.post("/stop", requirePermission("automation.manage"), async (req, res) => {
   try {
     await scheduler.stop();
     const settings = await scheduler.getSettings();
@@ -56,7 +56,7 @@ router.post("/stop", requireAuth, async (req, res) => {
   }
 });
 
-router.patch("/", requireAuth, async (req, res) => {
+router.patch("/", requirePermission("automation.manage"), async (req, res) => {
   try {
     const { intervalHours } = req.body;
     const settings = await scheduler.updateSettings({ intervalHours });
@@ -74,7 +74,7 @@ router.patch("/", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/run-now", requireAuth, async (req, res) => {
+router.post("/run-now", requirePermission("automation.manage"), async (req, res) => {
   try {
     const batchSize = parseInt(process.env.INCREMENTAL_BATCH_SIZE || "10", 10) || 10;
     await scheduler.runScrapeJob({ 
@@ -0,0 +1,30 @@
+import { Router } from "express";
+import { z } from "zod";
+import { storage } from "../storage/index.js";
+import { videoSearchQuerySchema } from "../../shared/schema.js";
+import { semanticSearchVideos } from "../services/embeddings.js";
+import { getAnonymousIdentifier } from "../utils.js";
+
+const router = Router();
+
+router.get("/", async (req, res) => {
+  try {
+    const query = videoSearchQuerySchema.parse(req.query);
+    if (query.mode === "semantic") {
+      // Rate limited per IP, signed in or not, since each new query costs an embedding call
+      const semantic = await semanticSearchVideos(query, { clientId: getAnonymousIdentifier(req) });
+      if (semantic) return res.json(semantic);
+    }
+    // Keyword search, also when the query couldn't be embedded or the visitor is over the limit
+    const result = await storage.searchVideos(query);
+    res.json({ ...result, mode: "keyword" });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid search query", details: error.errors });
+    }
+    console.error(`Search error [params=${JSON.stringify(req.query)}]:`, error);
+    res.status(500).json({ error: "Failed to search videos" });
+  }
+});
+
+export default router;
@@ -1,17 +1,24 @@
 import { Router } from "express";
 import crypto from "crypto";
 import { storage } from "../storage/index.js";
-import { requireAdmin } from "../middleware/auth.js";
-import { insertSeoSettingsSchema } from "../../shared/schema.js";
+import { requirePermission } from "../middleware/auth.js";
+import { sessionHasPermission } from "../services/permissions.js";
+import { insertSeoSettingsSchema, SEO_AB_TEST_ELEMENTS } from "../../shared/schema.js";
 import { z } from "zod";
 import { seoSettings, seoRedirects, seoMetaTags, seoKeywords, seoAuditLogs, seoABTests, seoCompetitors, videos } from "../../shared/schema.js";
 import { eq, and, desc, asc, sql } from "drizzle-orm";
 import { db, isDbReady } from "../db.js";
 import { generateSlug } from "../utils.js";
-import { getAiConfig } from "../ai-service.js";
-import { generateOpenAICompletion } from "../services/openai.js";
-import { generateOllamaCompletion } from "../services/ollama.js";
+import { generateText } from "../ai-service.js";
+import { AiBudgetExceededError } from "../errors/custom-errors.js";
 import { clearCache, getCache, setCache } from "../services/redis.js";
+import {
+  refreshRunningSeoAbTests,
+  promoteSeoAbTestWinner,
+  setSeoAbTestStatus,
+  startSeoAbTest,
+} from "../services/seo-ab-tests.js";
+import { ApplicationError } from "../errors/custom-errors.js";
 
 const router = Router();
 
@@ -125,8 +132,8 @@ const keywordSchema = z.object({
 const abTestSchema = z.object({
   name: z.string().min(1),
   description: z.string().optional(),
-  elementType: z.enum(["title", "description", "og_title", "og_description"]),
-  pageUrl: z.string().min(1),
+  elementType: z.enum(SEO_AB_TEST_ELEMENTS),
+  pageUrl: z.string().min(1).startsWith("/", "Use the page path, e.g. /video/my-slug"),
   variantA: z.string().min(1),
   variantB: z.string().min(1),
   trafficSplit: z.number().int().min(10).max(90).optional(),
@@ -155,7 +162,7 @@ router.get("/settings", async (req, res) => {
   }
 });
 
-router.patch("/settings", requireAdmin, async (req, res) => {
+router.patch("/settings", requirePermission("seo.manage"), async (req, res) => {
   try {
     // Validate request body
     const validatedData = insertSeoSettingsSchema.partial().parse(req.body);
@@ -176,7 +183,7 @@ router.patch("/settings", requireAdmin, async (req, res) => {
 // Enhanced SEO settings routes
 router.get("/enhanced/settings", async (req, res) => {
   try {
-    const isAdmin = !!(req.session?.isAuthenticated && req.session?.role === "admin");
+    const isAdmin = await sessionHasPermission(req.session, "seo.manage");
     const settings = await storage.getSeoSettings();
     
     // Get additional settings from enhanced table
@@ -222,7 +229,7 @@ router.get("/enhanced/settings", async (req, res) => {
   }
 });
 
-router.patch("/enhanced/settings", requireAdmin, async (req, res) => {
+router.patch("/enhanced/settings", requirePermission("seo.manage"), async (req, res) => {
   try {
     const validatedData = seoSettingsSchema.parse(req.body);
     
@@ -328,7 +335,7 @@ router.get("/enhanced/meta-tags", async (req, res) => {
 });
 
 // Create meta tag
-router.post("/enhanced/meta-tags", requireAdmin, async (req, res) => {
+router.post("/enhanced/meta-tags", requirePermission("seo.manage"), async (req, res) => {
   try {
     const validatedData = metaTagSchema.parse(req.body);
     
@@ -355,7 +362,7 @@ router.post("/enhanced/meta-tags", requireAdmin, async (req, res) => {
 });
 
 // Update meta tag
-router.patch("/enhanced/meta-tags/:id", requireAdmin, async (req, res) => {
+router.patch("/enhanced/meta-tags/:id", requirePermission("seo.manage"), async (req, res) => {
   try {
     if (!isDbReady()) return res.status(503).json({ error: "Database not ready" });
     const { id } = req.params;
@@ -391,7 +398,7 @@ router.patch("/enhanced/meta-tags/:id", requireAdmin, async (req, res) => {
 });
 
 // Delete meta tag
-router.delete("/enhanced/meta-tags/:id", requireAdmin, async (req, res) => {
+router.delete("/enhanced/meta-tags/:id", requirePermission("seo.manage"), async (req, res) => {
   try {
     const { id } = req.params;
     const success = await (storage as any).deleteSeoMetaTag(id);
@@ -404,7 +411,7 @@ router.delete("/enhanced/meta-tags/:id", requireAdmin, async (req, res) => {
 });
 
 // Bulk update meta tags
-router.patch("/enhanced/meta-tags/bulk/update", requireAdmin, async (req, res) => {
+router.patch("/enhanced/meta-tags/bulk/update", requirePermission("seo.manage"), async (req, res) => {
   try {
     const { ids, updates } = req.body;
     
@@ -448,7 +455,7 @@ router.patch("/enhanced/meta-tags/bulk/update", requireAdmin, async (req, res) =
 });
 
 // Generate AI SEO suggestions
-router.post("/enhanced/meta-tags/suggest", requireAdmin, async (req, res) => {
+router.post("/enhanced/meta-tags/suggest", requirePermission("seo.manage"), async (req, res) => {
   try {
     const { url } = req.body;
     if (!url) return res.status(400).json({ error: "URL is required" });
@@ -463,34 +470,17 @@ router.post("/enhanced/meta-tags/suggest", requireAdmin, async (req, res) => {
       }
     }
 
-    const aiConfig = await getAiConfig();
     const systemPrompt = `You are an expert SEO specialist. Generate optimal meta title (max 60 chars), meta description (max 160 chars), and 5-10 comma-separated keywords based on the following page context. Output ONLY raw JSON format: {"title": "...", "description": "...", "keywords": "..."}`;
-    
-    let aiResponseText = "";
-    if (aiConfig.provider === "openai" && aiConfig.openai.apiKey) {
-      aiResponseText = await generateOpenAICompletion(
-        aiConfig.openai.baseUrl!,
-        aiConfig.openai.apiKey,
-        aiConfig.openai.model,
-        systemPrompt,
-        context
-      );
-    } else if (aiConfig.provider === "ollama") {
-      aiResponseText = await generateOllamaCompletion(
-        aiConfig.ollama.url,
-        aiConfig.ollama.model,
-        systemPrompt,
-        context
-      );
-    } else {
-      return res.status(400).json({ error: "AI provider not configured properly." });
-    }
+    const { content: aiResponseText } = await generateText("seo", context, { system: systemPrompt });
 
     // Clean markdown formatting if present
     const cleanJson = aiResponseText.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
     const parsed = JSON.parse(cleanJson);
     res.json(parsed);
   } catch (error: any) {
+    if (error instanceof AiBudgetExceededError) {
+      return res.status(error.statusCode).json({ error: error.message, code: error.code });
+    }
     console.error("Generate SEO suggestions error:", error);
     res.status(500).json({ error: "Failed to generate AI suggestions" });
   }
@@ -543,7 +533,7 @@ router.get("/enhanced/redirects", async (req, res) => {
 });
 
 // Create redirect
-router.post("/enhanced/redirects", requireAdmin, async (req, res) => {
+router.post("/enhanced/redirects", requirePermission("seo.manage"), async (req, res) => {
   try {
     const validatedData = redirectSchema.parse(req.body);
     
@@ -567,7 +557,7 @@ router.post("/enhanced/redirects", requireAdmin, async (req, res) => {
 });
 
 // Update redirect
-router.patch("/enhanced/redirects/:id", requireAdmin, async (req, res) => {
+router.patch("/enhanced/redirects/:id", requirePermission("seo.manage"), async (req, res) => {
   try {
     const { id } = req.params;
     const validatedData = redirectSchema.partial().parse(req.body);
@@ -593,7 +583,7 @@ router.patch("/enhanced/redirects/:id", requireAdmin, async (req, res) => {
 });
 
 // Delete redirect
-router.delete("/enhanced/redirects/:id", requireAdmin, async (req, res) => {
+router.delete("/enhanced/redirects/:id", requirePermission("seo.manage"), async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -663,7 +653,7 @@ router.get("/enhanced/keywords", async (req, res) => {
 });
 
 // Create keyword
-router.post("/enhanced/keywords", requireAdmin, async (req, res) => {
+router.post("/enhanced/keywords", requirePermission("seo.manage"), async (req, res) => {
   try {
     const validatedData = keywordSchema.parse(req.body);
     
@@ -690,7 +680,7 @@ router.post("/enhanced/keywords", requireAdmin, async (req, res) => {
 });
 
 // Update keyword
-router.patch("/enhanced/keywords/:id", requireAdmin, async (req, res) => {
+router.patch("/enhanced/keywords/:id", requirePermission("seo.manage"), async (req, res) => {
   try {
     const { id } = req.params;
     const validatedData = keywordSchema.partial().parse(req.body);
@@ -716,7 +706,7 @@ router.patch("/enhanced/keywords/:id", requireAdmin, async (req, res) => {
 });
 
 // Delete keyword
-router.delete("/enhanced/keywords/:id", requireAdmin, async (req, res) => {
+router.delete("/enhanced/keywords/:id", requirePermission("seo.manage"), async (req, res) => {
   try {
     const { id } = req.params;
     
@@ -773,7 +763,7 @@ router.get("/enhanced/audits", async (req, res) => {
 });
 
 // Create audit (run SEO audit)
-router.post("/enhanced/audits", requireAdmin, async (req, res) => {
+router.post("/enhanced/audits", requirePermission("seo.manage"), async (req, res) => {
   try {
     const { pageUrl } = req.body;
     
@@ -800,6 +790,8 @@ router.post("/enhanced/audits", requireAdmin, async (req, res) => {
 // Get A/B tests
 router.get("/enhanced/ab-tests", async (req, res) => {
   try {
+    // Show counts up to now rather than as of the last cron refresh
+    await refreshRunningSeoAbTests();
     const { page = 1, limit = 50, status, elementType } = req.query;
     const offset = (Number(page) - 1) * Number(limit);
     
@@ -841,7 +833,7 @@ router.get("/enhanced/ab-tests", async (req, res) => {
 });
 
 // Create A/B test
-router.post("/enhanced/ab-tests", requireAdmin, async (req, res) => {
+router.post("/enhanced/ab-tests", requirePermission("seo.manage"), async (req, res) => {
   try {
     const validatedData = abTestSchema.parse(req.body);
     
@@ -849,7 +841,10 @@ router.post("/enhanced/ab-tests", requireAdmin, async (req, res) => {
       ...validatedData,
       id: crypto.randomUUID(),
       status: "draft",
-      results: { variantA: { impressions: 0, clicks: 0, ctr: 0 }, variantB: { impressions: 0, clicks: 0, ctr: 0 } },
+      results: {
+        variantA: { impressions: 0, clicks: 0, ctr: 0 },
+        variantB: { impressions: 0, clicks: 0, ctr: 0 },
+      },
       createdAt: sql`now()`,
       updatedAt: sql`now()`,
     }).returning();
@@ -865,6 +860,43 @@ router.post("/enhanced/ab-tests", requireAdmin, async (req, res) => {
   }
 });
 
+const promoteSchema = z.object({ variant: z.enum(["A", "B"]).optional() });
+
+// Start, pause, stop or promote an A/B test
+router.post("/enhanced/ab-tests/:id/:action(start|pause|stop|promote)", requirePermission("seo.manage"), async (req, res) => {
+  try {
+    const test = await storage.getSeoAbTest(req.params.id);
+    if (!test) {
+      return res.status(404).json({ error: "A/B test not found" });
+    }
+
+    switch (req.params.action) {
+      case "start":
+        return res.json(await startSeoAbTest(test));
+      case "pause":
+        if (test.status !== "running") {
+          return res.status(400).json({ error: "Only a running test can be paused" });
+        }
+        return res.json(await setSeoAbTestStatus(test, "paused"));
+      case "stop":
+        return res.json(await setSeoAbTestStatus(test, "completed"));
+      default: {
+        const { variant } = promoteSchema.parse(req.body ?? {});
+        return res.json(await promoteSeoAbTestWinner(test, variant));
+      }
+    }
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid variant", details: error.errors });
+    }
+    if (error instanceof ApplicationError && error.statusCode < 500) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error(`A/B test ${req.params.action} error:`, error);
+    res.status(500).json({ error: `Failed to ${req.params.action} A/B test` });
+  }
+});
+
 // Get competitors
 router.get("/enhanced/competitors", async (req, res) => {
   try {
@@ -910,7 +942,7 @@ router.get("/enhanced/competitors", async (req, res) => {
 });
 
 // Create competitor
-router.post("/enhanced/competitors", requireAdmin, async (req, res) => {
+router.post("/enhanced/competitors", requirePermission("seo.manage"), async (req, res) => {
   try {
     const validatedData = competitorSchema.parse(req.body);
     
@@ -1047,7 +1079,7 @@ router.get("/enhanced/sitemap", async (req, res) => {
 });
 
 // Regenerate sitemap (clear cache)
-router.post("/enhanced/sitemap/regenerate", requireAdmin, async (req, res) => {
+router.post("/enhanced/sitemap/regenerate", requirePermission("seo.manage"), async (req, res) => {
   try {
     await clearCache("sitemap:xml:*");
     res.json({ success: true, message: "Sitemap cache cleared successfully" });
@@ -1083,7 +1115,7 @@ router.get("/enhanced/robots-txt", async (req, res) => {
 });
 
 // Update robots.txt content
-router.patch("/enhanced/robots-txt", requireAdmin, async (req, res) => {
+router.patch("/enhanced/robots-txt", requirePermission("seo.manage"), async (req, res) => {
   try {
     const { content } = req.body;
     
@@ -1,11 +1,18 @@
 // Admin source-platform aggregation routes.
-// Mounted at /api/admin/sources — gated by requireAdmin.
+// Mounted at /api/admin/sources — gated by requirePermission("channels.manage").
 
 import { Router } from "express";
 import { sql } from "drizzle-orm";
+import { z } from "zod";
 import { db } from "../db.js";
-import { requireAdmin } from "../middleware/auth.js";
-import { SUPPORTED_PLATFORMS } from "../../shared/schema.js";
+import { requirePermission } from "../middleware/auth.js";
+import { storage } from "../storage/index.js";
+import { CHANNEL_TRUST_LEVELS, SUPPORTED_PLATFORMS, YOUTUBE_INGESTION_MODES } from "../../shared/schema.js";
+import { getPlatformAdapter, listPlatformAdapters } from "../platforms/index.js";
+import { getYouTubeQuotaStatus } from "../platforms/youtube-api.js";
+import { YOUTUBE_HUB_URL, getWebSubCallbackBase, requestSubscription } from "../services/websub.js";
+import { channelPayload, emitWebhookEvent } from "../services/webhooks.js";
+import { ApplicationError } from "../errors/custom-errors.js";
 
 const router = Router();
 
@@ -15,7 +22,7 @@ interface SourceStatRow {
   videoCount: number;
 }
 
-router.get("/stats", requireAdmin, async (_req, res) => {
+router.get("/stats", requirePermission("channels.manage"), async (_req, res) => {
   try {
     // COUNT(c.id) (not DISTINCT) is enough — rows are already grouped by
     // platform, and each channel id is unique by definition.
@@ -53,4 +60,130 @@ router.get("/stats", requireAdmin, async (_req, res) => {
   }
 });
 
+// Which platforms have a scraper, and whether it can follow whole channels
+router.get("/adapters", requirePermission("channels.manage"), (_req, res) => {
+  res.json({
+    adapters: listPlatformAdapters().map((adapter) => ({
+      platform: adapter.platform,
+      displayName: adapter.displayName,
+      listsChannels: adapter.listsChannels,
+    })),
+  });
+});
+
+const addChannelSchema = z.object({
+  platform: z.enum(SUPPORTED_PLATFORMS),
+  url: z.string().min(1).max(2000),
+});
+
+// Add a channel or feed for any platform that can list channels. Metadata is
+// fetched up front so a bad URL fails here rather than on the first scrape.
+router.post("/channels", requirePermission("channels.manage"), async (req, res) => {
+  const parsed = addChannelSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request body", details: parsed.error.errors });
+  }
+
+  const adapter = getPlatformAdapter(parsed.data.platform);
+  if (!adapter?.listsChannels) {
+    return res.status(400).json({ error: `${adapter?.displayName ?? parsed.data.platform} channels can't be added` });
+  }
+  const url = adapter.normalizeChannelUrl(parsed.data.url);
+  if (!url) {
+    return res.status(400).json({ error: `Not a ${adapter.displayName} channel URL` });
+  }
+
+  try {
+    const info = await adapter.fetchChannelInfo(url);
+    const channel = await storage.createChannel({
+      name: info.name || url,
+      url,
+      channelId: info.channelId ?? null,
+      thumbnailUrl: info.thumbnailUrl ?? null,
+      bannerUrl: info.bannerUrl ?? null,
+      platform: adapter.platform,
+    });
+    await emitWebhookEvent("channel.added", { channel: channelPayload(channel) });
+    res.status(201).json(channel);
+  } catch (error) {
+    if (error instanceof ApplicationError && error.statusCode < 500) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error(`[sources] add ${adapter.platform} channel failed:`, error);
+    res.status(502).json({ error: `Could not load the ${adapter.displayName} channel` });
+  }
+});
+
+// Today's YouTube Data API usage against the configured daily limit, plus recent days
+router.get("/youtube-quota", requirePermission("channels.manage"), async (_req, res) => {
+  try {
+    res.json(await getYouTubeQuotaStatus());
+  } catch (error) {
+    console.error("[sources] youtube quota lookup failed:", error);
+    res.status(500).json({ error: "Failed to load YouTube API quota" });
+  }
+});
+
+const updateChannelSchema = z
+  .object({
+    ingestionMode: z.enum(YOUTUBE_INGESTION_MODES).optional(),
+    trustLevel: z.enum(CHANNEL_TRUST_LEVELS).optional(),
+  })
+  .refine((data) => data.ingestionMode || data.trustLevel, { message: "Nothing to update" });
+
+router.patch("/channels/:id", requirePermission("channels.manage"), async (req, res) => {
+  const parsed = updateChannelSchema.safeParse(req.body);
+  if (!parsed.success) {
+    return res.status(400).json({ error: "Invalid request body", details: parsed.error.errors });
+  }
+
+  const channel = await storage.getChannel(req.params.id);
+  if (!channel) {
+    return res.status(404).json({ error: "Channel not found" });
+  }
+  if (parsed.data.ingestionMode && channel.platform !== "youtube") {
+    return res.status(400).json({ error: "Only YouTube channels have an ingestion mode" });
+  }
+
+  const updated = await storage.updateChannel(channel.id, parsed.data);
+  if (!updated) {
+    return res.status(500).json({ error: "Failed to update channel" });
+  }
+  res.json(updated);
+});
+
+// Push (WebSub) state for every subscribed YouTube channel
+router.get("/websub", requirePermission("channels.manage"), async (_req, res) => {
+  try {
+    const subscriptions = await storage.getWebSubSubscriptions();
+    res.json({
+      enabled: getWebSubCallbackBase() !== null,
+      hubUrl: YOUTUBE_HUB_URL,
+      // The secret signs notifications; it never leaves the server
+      subscriptions: subscriptions.map(({ secret: _secret, ...subscription }) => subscription),
+    });
+  } catch (error) {
+    console.error("[sources] websub lookup failed:", error);
+    res.status(500).json({ error: "Failed to load push subscriptions" });
+  }
+});
+
+router.post("/channels/:id/websub", requirePermission("channels.manage"), async (req, res) => {
+  const channel = await storage.getChannel(req.params.id);
+  if (!channel) {
+    return res.status(404).json({ error: "Channel not found" });
+  }
+
+  try {
+    const { secret: _secret, ...subscription } = await requestSubscription(channel);
+    res.json(subscription);
+  } catch (error) {
+    if (error instanceof ApplicationError && error.statusCode < 500) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("[sources] websub subscribe failed:", error);
+    res.status(500).json({ error: "Failed to request a push subscription" });
+  }
+});
+
 export default router;
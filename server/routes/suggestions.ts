@@ -3,6 +3,7 @@ import { z } from "zod";
 import { db } from "../db.js";
 import { activityLogs } from "../../shared/schema.js";
 import { recordError } from "../error-log-service.js";
+import { notifyAdmins } from "../services/mailer.js";
 
 const router = Router();
 
@@ -30,6 +31,13 @@ router.post("/", async (req, res) => {
       ipAddress: req.ip,
     });
 
+    await notifyAdmins("suggestion_submitted", {
+      type: parsed.type,
+      subject: parsed.subject,
+      message: parsed.message,
+      email: parsed.email,
+    });
+
     res.json({ success: true });
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -1,6 +1,7 @@
 import { Router } from "express";
 import { storage } from "../storage/index.js";
-import { requireAuth, requireAdmin } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
+import { sessionHasPermission } from "../services/permissions.js";
 
 const router = Router();
 
@@ -17,7 +18,7 @@ function sanitizeSettings(settings: any, isAdmin: boolean) {
 // System settings routes
 router.get("/settings", async (req, res) => {
   try {
-    const isAdmin = !!(req.session?.isAuthenticated && req.session?.role === "admin");
+    const isAdmin = await sessionHasPermission(req.session, "settings.manage");
     const settings = await storage.getSystemSettings();
     if (settings) return res.json(sanitizeSettings(settings, isAdmin));
 
@@ -52,7 +53,7 @@ router.get("/turnstile", async (req, res) => {
   }
 });
 
-router.patch("/settings", requireAdmin, async (req, res) => {
+router.patch("/settings", requirePermission("settings.manage"), async (req, res) => {
   try {
     const updated = await storage.updateSystemSettings(req.body);
     res.json(updated);
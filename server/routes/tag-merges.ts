@@ -0,0 +1,94 @@
+// Admin review of proposed merges between near-duplicate tags.
+// Mounted at /api/admin/tag-merges — gated by requirePermission("taxonomy.manage").
+
+import { Router } from "express";
+import { z } from "zod";
+import { requirePermission } from "../middleware/auth.js";
+import { storage } from "../storage/index.js";
+import { ApplicationError } from "../errors/custom-errors.js";
+import { applyTagMerge, collectTagEntries, scanTagMerges } from "../services/tag-normalization.js";
+
+const router = Router();
+
+const RECENTLY_RESOLVED = 20;
+
+router.get("/", requirePermission("taxonomy.manage"), async (_req, res) => {
+  try {
+    const [proposals, entries] = await Promise.all([storage.getTagMergeProposals(), collectTagEntries()]);
+    const byName = new Map(entries.map((entry) => [entry.name.toLowerCase(), entry]));
+    // Current names and counts, so the admin sees what applying would touch today
+    const tagInfo = (name: string) => {
+      const entry = byName.get(name.toLowerCase());
+      return { name, names: entry?.names ?? {}, videoCount: entry?.videoCount ?? 0, exists: Boolean(entry) };
+    };
+
+    res.json({
+      pending: proposals
+        .filter((proposal) => proposal.status === "pending")
+        .map((proposal) => ({
+          ...proposal,
+          target: tagInfo(proposal.targetName),
+          sources: proposal.sourceNames.map(tagInfo),
+        })),
+      resolved: proposals
+        .filter((proposal) => proposal.status !== "pending")
+        .sort((a, b) => (b.resolvedAt?.getTime() ?? 0) - (a.resolvedAt?.getTime() ?? 0))
+        .slice(0, RECENTLY_RESOLVED),
+      tagCount: entries.length,
+    });
+  } catch (error) {
+    console.error("[tag-merges] list failed:", error);
+    res.status(500).json({ error: "Failed to load tag merges" });
+  }
+});
+
+router.post("/scan", requirePermission("taxonomy.manage"), async (_req, res) => {
+  try {
+    const proposals = await scanTagMerges();
+    res.json({ success: true, proposed: proposals.length });
+  } catch (error) {
+    console.error("[tag-merges] scan failed:", error);
+    res.status(500).json({ error: "Failed to scan tags" });
+  }
+});
+
+const applySchema = z.object({ sourceNames: z.array(z.string().min(1)).optional() });
+
+router.post("/:id/apply", requirePermission("taxonomy.manage"), async (req, res) => {
+  try {
+    const parsed = applySchema.safeParse(req.body ?? {});
+    if (!parsed.success) {
+      return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid request" });
+    }
+    const proposal = await storage.getTagMergeProposal(req.params.id);
+    if (!proposal) {
+      return res.status(404).json({ error: "Tag merge not found" });
+    }
+    const outcome = await applyTagMerge(proposal, parsed.data, req.session.userId ?? null);
+    res.json(outcome);
+  } catch (error) {
+    if (error instanceof ApplicationError && error.statusCode < 500) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("[tag-merges] apply failed:", error);
+    res.status(500).json({ error: "Failed to merge tags" });
+  }
+});
+
+router.post("/:id/dismiss", requirePermission("taxonomy.manage"), async (req, res) => {
+  try {
+    const proposal = await storage.getTagMergeProposal(req.params.id);
+    if (!proposal) {
+      return res.status(404).json({ error: "Tag merge not found" });
+    }
+    if (proposal.status !== "pending") {
+      return res.status(400).json({ error: `This merge was already ${proposal.status}` });
+    }
+    res.json(await storage.resolveTagMergeProposal(proposal.id, "dismissed", req.session.userId ?? null));
+  } catch (error) {
+    console.error("[tag-merges] dismiss failed:", error);
+    res.status(500).json({ error: "Failed to dismiss tag merge" });
+  }
+});
+
+export default router;
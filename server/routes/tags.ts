@@ -1,6 +1,6 @@
 import { Router } from "express";
 import { storage } from "../storage/index.js";
-import { requireAuth } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
 import { insertTagTranslationSchema, tags, tagImages, tagTranslations } from "../../shared/schema.js";
 import { db } from "../db.js";
 import { eq, inArray } from "drizzle-orm";
@@ -21,7 +21,7 @@ router.get("/", async (req, res) => {
   }
 });
 
-router.post("/", requireAuth, async (req, res) => {
+router.post("/", requirePermission("taxonomy.manage"), async (req, res) => {
   try {
     const { tagName, translations } = req.body;
     
@@ -83,7 +83,7 @@ router.get("/stats", async (req, res) => {
   }
 });
 
-router.delete("/:tagName", requireAuth, async (req, res) => {
+router.delete("/:tagName", requirePermission("taxonomy.manage"), async (req, res) => {
   try {
     const { tagName } = req.params;
     const tagsToDelete = await db.select({ id: tagTranslations.tagId })
@@ -111,7 +111,7 @@ router.get("/images", async (req, res) => {
   }
 });
 
-router.post("/:tagName/generate-image", requireAuth, async (req, res) => {
+router.post("/:tagName/generate-image", requirePermission("taxonomy.manage"), async (req, res) => {
   try {
     const { tagName } = req.params;
     const decodedTagName = decodeURIComponent(tagName);
@@ -150,7 +150,7 @@ router.post("/:tagName/generate-image", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/:tagName/image", requireAuth, async (req, res) => {
+router.post("/:tagName/image", requirePermission("taxonomy.manage"), async (req, res) => {
   try {
     const { tagName } = req.params;
     const { imageUrl } = req.body;
@@ -186,7 +186,7 @@ router.post("/:tagName/image", requireAuth, async (req, res) => {
   }
 });
 
-router.delete("/:tagName/image", requireAuth, async (req, res) => {
+router.delete("/:tagName/image", requirePermission("taxonomy.manage"), async (req, res) => {
   try {
     const { tagName } = req.params;
     const decodedTagName = decodeURIComponent(tagName);
@@ -200,7 +200,7 @@ router.delete("/:tagName/image", requireAuth, async (req, res) => {
   }
 });
 
-router.put("/:tagName/translate", requireAuth, async (req, res) => {
+router.put("/:tagName/translate", requirePermission("taxonomy.manage"), async (req, res) => {
   try {
     const { tagName } = req.params;
     const { languageCode, translation } = req.body;
@@ -1,10 +1,13 @@
 import { Router } from "express";
-import { requireAuth } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
 import { storage } from "../storage.js";
 import { scrapeTikTokProfile } from "../tiktok-scraper.js";
 import { categorizeVideo } from "../ai-service.js";
+import { applyCategorization } from "../services/categorization.js";
 import { insertChannelSchema, videos } from "../../shared/schema.js";
 import { generateSlug } from "../utils.js";
+import { moderateNewVideos, moderationHold, publishVideos } from "../services/moderation.js";
+import { channelPayload, emitWebhookEvent } from "../services/webhooks.js";
 import { db } from "../db.js";
 import { eq } from "drizzle-orm";
 
@@ -20,7 +23,7 @@ router.get("/", async (req, res) => {
   }
 });
 
-router.post("/", requireAuth, async (req, res) => {
+router.post("/", requirePermission("channels.manage"), async (req, res) => {
   try {
     const data = insertChannelSchema.parse({
       ...req.body,
@@ -28,6 +31,7 @@ router.post("/", requireAuth, async (req, res) => {
     });
     const profile = await storage.createChannel(data);
     console.log(`[tiktok] Created profile: ${profile.name}`);
+    await emitWebhookEvent("channel.added", { channel: channelPayload(profile) });
     res.json(profile);
   } catch (error) {
     console.error("[tiktok] Create profile error:", error);
@@ -35,7 +39,7 @@ router.post("/", requireAuth, async (req, res) => {
   }
 });
 
-router.delete("/:id", requireAuth, async (req, res) => {
+router.delete("/:id", requirePermission("channels.manage"), async (req, res) => {
   try {
     await storage.deleteChannel(req.params.id);
     console.log(`[tiktok] Deleted profile: ${req.params.id}`);
@@ -46,7 +50,7 @@ router.delete("/:id", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/:id/scrape", requireAuth, async (req, res) => {
+router.post("/:id/scrape", requirePermission("channels.manage"), async (req, res) => {
   try {
     const channel = await storage.getChannel(req.params.id);
     if (!channel) {
@@ -96,6 +100,7 @@ router.post("/:id/scrape", requireAuth, async (req, res) => {
           publishDate: scrapedVideo.publishDate || null,
           videoType: "tiktok",
           embedUrl: scrapedVideo.embedUrl,
+          ...moderationHold(channel),
         });
 
         newVideos.push(newVideo.id);
@@ -103,6 +108,8 @@ router.post("/:id/scrape", requireAuth, async (req, res) => {
       }
     }
 
+    await publishVideos(channel.id, await moderateNewVideos(newVideos, channel));
+
     console.log(`[tiktok] Auto-categorizing ${newVideos.length} new videos...`);
     for (const videoId of newVideos) {
       try {
@@ -114,84 +121,7 @@ router.post("/:id/scrape", requireAuth, async (req, res) => {
           video.description || "",
         );
 
-        const categoriesEn = result.categories.en || [];
-        const categoriesSr = result.categories.sr || [];
-        const maxCategories = Math.max(categoriesEn.length, categoriesSr.length);
-
-        for (let i = 0; i < maxCategories; i++) {
-          const nameEn = categoriesEn[i];
-          const nameSr = categoriesSr[i];
-          
-          if (!nameEn) continue;
-
-          const categorySlug = nameEn
-            .toLowerCase()
-            .replace(/[^a-z0-9]+/g, "-");
-            
-          let category = await storage.getLocalizedCategoryBySlug(categorySlug, 'en');
-
-          if (!category) {
-            const translations: { languageCode: string; name: string; slug: string; description: string | null }[] = [];
-            translations.push({
-              languageCode: 'en',
-              name: nameEn,
-              slug: categorySlug,
-              description: null
-            });
-
-            if (nameSr) {
-              translations.push({
-                languageCode: 'sr-Latn',
-                name: nameSr,
-                slug: categorySlug,
-                description: null
-              });
-            }
-
-            category = await storage.createCategory({}, translations);
-          } else if (nameSr) {
-             try {
-                await storage.addCategoryTranslation(category.id, {
-                  categoryId: category.id,
-                  languageCode: 'sr-Latn',
-                  name: nameSr,
-                  slug: categorySlug,
-                  description: null
-                }).catch(() => {});
-             } catch (e) {
-               // Ignore
-             }
-          }
-
-          await storage.addVideoCategory(video.id, category.id);
-        }
-
-        const tagsEn = result.tags.en || [];
-        const tagsSr = result.tags.sr || [];
-        const maxTags = Math.max(tagsEn.length, tagsSr.length);
-
-        for (let i = 0; i < maxTags; i++) {
-          const tagEn = tagsEn[i];
-          const tagSr = tagsSr[i];
-          
-          if (!tagEn) continue;
-
-          const translations = [{
-            languageCode: 'en',
-            tagName: tagEn
-          }];
-
-          if (tagSr) {
-             translations.push({
-               languageCode: 'sr-Latn',
-               tagName: tagSr
-             });
-          }
-
-          await storage.createTag({
-            videoId: video.id,
-          }, translations);
-        }
+        await applyCategorization(video.id, result);
 
         console.log(`[tiktok] Categorized: ${video.title}`);
       } catch (error) {
@@ -1,5 +1,5 @@
 import express, { Router } from "express";
-import { requireAuth } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
 import { put } from "@vercel/blob";
 import crypto from "crypto";
 
@@ -19,7 +19,7 @@ function getFilename(headerValue: unknown): string {
 
 router.post(
   "/blob",
-  requireAuth,
+  requirePermission("seo.manage", "taxonomy.manage", "appearance.manage"),
   express.raw({ type: () => true, limit: "25mb" }),
   async (req, res) => {
     try {
@@ -1,26 +1,38 @@
 import { Router } from "express";
+import { z } from "zod";
 import { storage } from "../storage/index.js";
 import { kvService } from "../kv-service.js";
 import { getUserIdentifier } from "../utils.js";
+import { requireUser } from "../middleware/auth.js";
+import { createApiTokenSchema, insertPlaylistSchema, watchProgressSchema } from "../../shared/schema.js";
+import { computeResumeSeconds } from "../services/user-library.js";
+import { createApiToken, revokeApiToken, summarizeToken } from "../services/api-tokens.js";
+import { ValidationError } from "../errors/custom-errors.js";
 
 const router = Router();
 
 // Viewing history route (public)
 router.get("/viewing-history", async (req, res) => {
   try {
+    // Logged-in users have a persistent history; visitors only the recent KV one
+    if (req.session?.userId) {
+      const history = await storage.getWatchHistory(req.session.userId, 20);
+      return res.json(history.map((entry) => entry.video));
+    }
+
     const userIdentifier = getUserIdentifier(req);
     const videoIds = await kvService.getViewingHistory(userIdentifier);
-    
+
     // Fetch video details for the history
     if (videoIds.length === 0) {
       return res.json([]);
     }
-    
+
     const videoDetails = await storage.getAllVideos();
     const historyVideos = videoIds
       .map(id => videoDetails.find(v => v.id === id))
       .filter(Boolean);
-    
+
     res.json(historyVideos);
   } catch (error) {
     console.error("Get viewing history error:", error);
@@ -28,4 +40,144 @@ router.get("/viewing-history", async (req, res) => {
   }
 });
 
+router.get("/library/likes", requireUser, async (req, res) => {
+  try {
+    const liked = await storage.getUserLikedVideos(req.session.userId!);
+    res.json(liked);
+  } catch (error) {
+    console.error("Get liked videos error:", error);
+    res.status(500).json({ error: "Failed to get liked videos" });
+  }
+});
+
+router.get("/library/history", requireUser, async (req, res) => {
+  try {
+    const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+    const history = await storage.getWatchHistory(req.session.userId!, limit);
+    res.json(history.map((entry) => ({ ...entry, resumeSeconds: computeResumeSeconds(entry) })));
+  } catch (error) {
+    console.error("Get watch history error:", error);
+    res.status(500).json({ error: "Failed to get watch history" });
+  }
+});
+
+router.delete("/library/history", requireUser, async (req, res) => {
+  try {
+    await storage.deleteWatchHistory(req.session.userId!);
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Clear watch history error:", error);
+    res.status(500).json({ error: "Failed to clear watch history" });
+  }
+});
+
+router.delete("/library/history/:videoId", requireUser, async (req, res) => {
+  try {
+    await storage.deleteWatchHistory(req.session.userId!, req.params.videoId);
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Remove watch history entry error:", error);
+    res.status(500).json({ error: "Failed to remove history entry" });
+  }
+});
+
+router.get("/library/progress/:videoId", requireUser, async (req, res) => {
+  try {
+    const entry = await storage.getWatchProgress(req.session.userId!, req.params.videoId);
+    res.json({
+      positionSeconds: entry?.positionSeconds ?? 0,
+      durationSeconds: entry?.durationSeconds ?? null,
+      resumeSeconds: computeResumeSeconds(entry),
+    });
+  } catch (error) {
+    console.error("Get watch progress error:", error);
+    res.status(500).json({ error: "Failed to get watch progress" });
+  }
+});
+
+router.put("/library/progress/:videoId", requireUser, async (req, res) => {
+  try {
+    const progress = watchProgressSchema.parse(req.body);
+    const video = await storage.getVideo(req.params.videoId);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+    const entry = await storage.recordWatchProgress(req.session.userId!, video.id, progress);
+    res.json({ ...entry, resumeSeconds: computeResumeSeconds(entry) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid progress", details: error.errors });
+    }
+    console.error("Save watch progress error:", error);
+    res.status(500).json({ error: "Failed to save watch progress" });
+  }
+});
+
+router.get("/library/playlists", requireUser, async (req, res) => {
+  try {
+    const playlists = await storage.getPlaylistsByOwner(req.session.userId!);
+    res.json(playlists);
+  } catch (error) {
+    console.error("Get user playlists error:", error);
+    res.status(500).json({ error: "Failed to get playlists" });
+  }
+});
+
+router.post("/library/playlists", requireUser, async (req, res) => {
+  try {
+    const data = insertPlaylistSchema.parse(req.body);
+    const playlist = await storage.createPlaylist({ ...data, ownerId: req.session.userId! });
+    res.status(201).json(playlist);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid playlist", details: error.errors });
+    }
+    console.error("Create user playlist error:", error);
+    res.status(500).json({ error: "Failed to create playlist" });
+  }
+});
+
+// API tokens for /api/v1
+router.get("/tokens", requireUser, async (req, res) => {
+  try {
+    const tokens = await storage.getApiTokensByUser(req.session.userId!);
+    res.json(tokens.map(summarizeToken));
+  } catch (error) {
+    console.error("Get API tokens error:", error);
+    res.status(500).json({ error: "Failed to get API tokens" });
+  }
+});
+
+// The secret is returned only here; afterwards only its prefix is shown
+router.post("/tokens", requireUser, async (req, res) => {
+  try {
+    const { name, scopes, expiresInDays } = createApiTokenSchema.parse(req.body);
+    const expiresAt = expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null;
+    const { secret, token } = await createApiToken(req.session.userId!, { name, scopes, expiresAt });
+    res.status(201).json({ secret, token: summarizeToken(token) });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid API token", details: error.errors });
+    }
+    if (error instanceof ValidationError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error("Create API token error:", error);
+    res.status(500).json({ error: "Failed to create API token" });
+  }
+});
+
+router.delete("/tokens/:id", requireUser, async (req, res) => {
+  try {
+    const revoked = await revokeApiToken(req.session.userId!, req.params.id);
+    if (!revoked) {
+      return res.status(404).json({ error: "API token not found" });
+    }
+    res.json({ success: true });
+  } catch (error) {
+    console.error("Revoke API token error:", error);
+    res.status(500).json({ error: "Failed to revoke API token" });
+  }
+});
+
 export default router;
@@ -1,13 +1,40 @@
-import { Router } from "express";
+import { Router, type Request } from "express";
+import { z } from "zod";
 import { storage } from "../storage/index.js";
-import { requireAdmin } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
+import {
+  getPermissionsForRole,
+  getRolePermissionMap,
+  getSessionPermissions,
+  isUserRole,
+  updateRolePermissions,
+} from "../services/permissions.js";
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSIONS, USER_ROLES, type Permission } from "../../shared/schema.js";
 
 const router = Router();
 
-router.use(requireAdmin);
+// Only admins may hand out or take away the admin role
+function isAdminSession(req: { session: { role?: string } }) {
+  return req.session.role === "admin";
+}
+
+/**
+ * The permissions a caller is trying to hand out without holding them. Admins
+ * hold everything; anyone else with users.manage can't give a role, or a
+ * second account through a role, more than they have themselves.
+ */
+async function permissionsBeyondCaller(req: Request, permissions: readonly Permission[]): Promise<Permission[]> {
+  if (isAdminSession(req)) return [];
+  const own = await getSessionPermissions(req.session);
+  return permissions.filter((permission) => !own.includes(permission));
+}
+
+async function countAdmins(): Promise<number> {
+  return (await storage.getAllUsers()).filter((user) => user.role === "admin").length;
+}
 
 // Get all users
-router.get("/", async (req, res) => {
+router.get("/", requirePermission("users.manage"), async (req, res) => {
   try {
     const users = await storage.getAllUsers();
     // Don't return passwords
@@ -25,16 +52,95 @@ router.get("/", async (req, res) => {
   }
 });
 
+// Roles with their current and default permissions
+router.get("/roles", requirePermission("users.manage"), async (_req, res) => {
+  try {
+    const current = await getRolePermissionMap();
+    res.json({
+      permissions: PERMISSIONS,
+      roles: USER_ROLES.map((role) => ({
+        role,
+        permissions: current[role],
+        defaults: DEFAULT_ROLE_PERMISSIONS[role],
+        editable: role !== "admin",
+      })),
+    });
+  } catch (error) {
+    console.error("Failed to fetch roles:", error);
+    res.status(500).json({ error: "Failed to fetch roles" });
+  }
+});
+
+const rolePermissionsSchema = z.object({
+  permissions: z.array(z.enum(PERMISSIONS)),
+});
+
+// Replace the permissions of a role
+router.put("/roles/:role", requirePermission("users.manage"), async (req, res) => {
+  const { role } = req.params;
+  if (!isUserRole(role)) {
+    return res.status(404).json({ error: "Role not found" });
+  }
+  if (role === "admin") {
+    return res.status(400).json({ error: "The admin role always has every permission" });
+  }
+  // Otherwise a role with users.manage could grant itself everything
+  if (req.session.role === role) {
+    return res.status(403).json({ error: "You can't change the permissions of your own role" });
+  }
+  const parsed = rolePermissionsSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return res.status(400).json({ error: parsed.error.errors[0]?.message || "Invalid permissions" });
+  }
+
+  try {
+    const current = await getPermissionsForRole(role);
+    const added = parsed.data.permissions.filter((permission) => !current.includes(permission));
+    const beyond = await permissionsBeyondCaller(req, added);
+    if (beyond.length > 0) {
+      return res.status(403).json({ error: `You can't grant permissions you don't have: ${beyond.join(", ")}` });
+    }
+    const permissions = await updateRolePermissions(role, parsed.data.permissions);
+    res.json({ role, permissions });
+  } catch (error) {
+    console.error("Failed to update role permissions:", error);
+    res.status(500).json({ error: "Failed to update role permissions" });
+  }
+});
+
 // Update user role
-router.patch("/:id/role", async (req, res) => {
+router.patch("/:id/role", requirePermission("users.manage"), async (req, res) => {
   const { id } = req.params;
   const { role } = req.body;
 
-  if (!role || !["admin", "user"].includes(role)) {
+  if (!isUserRole(role)) {
     return res.status(400).json({ error: "Invalid role" });
   }
 
+  // Prevent locking yourself out
+  if (req.session.userId === id) {
+    return res.status(400).json({ error: "Cannot change your own role" });
+  }
+
   try {
+    const target = await storage.getUser(id);
+    if (!target) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    if ((role === "admin" || target.role === "admin") && !isAdminSession(req)) {
+      return res.status(403).json({ error: "Only admins can grant or remove the admin role" });
+    }
+    const beyond = await permissionsBeyondCaller(req, [
+      ...(await getPermissionsForRole(role)),
+      ...(await getPermissionsForRole(target.role)),
+    ]);
+    if (beyond.length > 0) {
+      return res.status(403).json({ error: "You can't move users into or out of a role with permissions you don't have" });
+    }
+    if (target.role === "admin" && role !== "admin" && (await countAdmins()) <= 1) {
+      return res.status(400).json({ error: "Cannot remove the last admin" });
+    }
+
     const updatedUser = await storage.updateUserRole(id, role);
     if (!updatedUser) {
       return res.status(404).json({ error: "User not found" });
@@ -47,7 +153,7 @@ router.patch("/:id/role", async (req, res) => {
 });
 
 // Delete user
-router.delete("/:id", async (req, res) => {
+router.delete("/:id", requirePermission("users.manage"), async (req, res) => {
   const { id } = req.params;
 
   // Prevent deleting yourself
@@ -56,6 +162,19 @@ router.delete("/:id", async (req, res) => {
   }
 
   try {
+    const target = await storage.getUser(id);
+    if (!target) {
+      return res.status(404).json({ error: "User not found" });
+    }
+    if (target.role === "admin") {
+      if (!isAdminSession(req)) {
+        return res.status(403).json({ error: "Only admins can delete admins" });
+      }
+      if ((await countAdmins()) <= 1) {
+        return res.status(400).json({ error: "Cannot delete the last admin" });
+      }
+    }
+
     await storage.deleteUser(id);
     res.json({ success: true });
   } catch (error) {
@@ -1,10 +1,10 @@
 import { Router } from "express";
 import { storage } from "../storage/index.js";
-import { requireAuth } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
 
 const router = Router();
 
-router.post("/update-thumbnails", requireAuth, async (req, res) => {
+router.post("/update-thumbnails", requirePermission("videos.manage"), async (req, res) => {
   try {
     const count = await storage.updateAllVideoThumbnails();
     res.json({
@@ -4,10 +4,17 @@ import { generateSlug } from "../utils.js";
 import { db } from "../db.js";
 import { videos, videoLikes, videoViews, tags, videoCategories } from "../../shared/schema.js";
 import { categorizeVideo } from "../ai-service.js";
-import { requireAuth, requireAdmin } from "../middleware/auth.js";
+import { AiBudgetExceededError } from "../errors/custom-errors.js";
+import { requirePermission } from "../middleware/auth.js";
 import { kvService } from "../kv-service.js";
 import { eq, and, sql as sqlOp, inArray, isNull } from "drizzle-orm";
 import { getUserIdentifier } from "../utils.js";
+import { findSimilarVideoIds } from "../services/embeddings.js";
+import { getPersonalizedHomeRows } from "../services/personalization.js";
+import { applyCategorization } from "../services/categorization.js";
+import { getTranscriptExcerpt, ingestVideoTranscripts } from "../services/transcripts.js";
+import { extractVideoChapters } from "../services/chapters.js";
+import { isModerationHold } from "../services/moderation.js";
 import pLimit from "p-limit";
 
 const router = Router();
@@ -17,9 +24,11 @@ router.get("/", async (req, res) => {
     const { channelId, categoryId, search, limit, offset, lang, tagName, sort } = req.query;
     const limitNum = limit ? parseInt(limit as string, 10) || 20 : undefined;
     const offsetNum = offset ? parseInt(offset as string, 10) || 0 : undefined;
-    const sortValue = ["publishDate", "createdAt", "views", "popularity"].includes(sort as string)
-      ? (sort as "publishDate" | "createdAt" | "views" | "popularity")
-      : (sort === "oldest" ? "createdAt" as const : "publishDate" as const);
+    // Searches rank by relevance unless the caller asked for an explicit order
+    const defaultSort = search ? "relevance" as const : "publishDate" as const;
+    const sortValue = ["publishDate", "createdAt", "views", "popularity", "relevance"].includes(sort as string)
+      ? (sort as "publishDate" | "createdAt" | "views" | "popularity" | "relevance")
+      : (sort === "oldest" ? "createdAt" as const : defaultSort);
     const filters = {
       channelId: channelId as string | undefined,
       categoryId: categoryId as string | undefined,
@@ -119,6 +128,22 @@ router.get("/carousels", async (req, res) => {
   res.json(response);
 });
 
+// Rows built from the visitor's own history. Kept apart from /carousels so
+// that response stays the same for everyone and can be cached publicly.
+router.get("/for-you", async (req, res) => {
+  const lang = (req.query.lang as string) || "en";
+  const rawLimit = parseInt(req.query.limit as string, 10);
+  const limit = Number.isFinite(rawLimit) && rawLimit > 0 ? Math.min(rawLimit, 30) : 10;
+
+  const rows = await getPersonalizedHomeRows(
+    { userIdentifier: getUserIdentifier(req), userId: req.session?.userId },
+    { lang, limit },
+  );
+  res.setHeader("Cache-Control", "private, no-store");
+  res.setHeader("Vary", "Cookie");
+  res.json(rows);
+});
+
 router.get("/:idOrSlug", async (req, res) => {
   try {
     const { idOrSlug } = req.params;
@@ -127,9 +152,14 @@ router.get("/:idOrSlug", async (req, res) => {
     if (!video) {
       video = await storage.getVideoWithRelations(idOrSlug, lang);
     }
-    if (!video) {
+    // Never published: waiting for moderation or rejected
+    if (!video || isModerationHold(video)) {
       return res.status(404).json({ error: "Video not found" });
     }
+    // Deleted or private at the source; there is nothing left to embed
+    if (video.hiddenAt) {
+      return res.status(410).json({ error: "This video is no longer available", reason: video.hiddenReason });
+    }
     res.json(video);
   } catch (error) {
     console.error("Get video error:", error);
@@ -147,6 +177,13 @@ router.get("/:id/similar", async (req, res) => {
       return res.status(404).json({ error: "Video not found" });
     }
 
+    // Nearest neighbours by embedding when they are available
+    const similarIds = await findSimilarVideoIds(video.id, 12);
+    if (similarIds) {
+      return res.json(await storage.getVideosWithRelationsByIds(similarIds, lang));
+    }
+
+    // Otherwise score candidates on shared categories, tags and channel
     // 1. Get candidates from same category
     let candidates: any[] = [];
     if (video.categories && video.categories.length > 0) {
@@ -210,7 +247,7 @@ router.get("/:id/similar", async (req, res) => {
   }
 });
 
-router.patch("/:id", requireAuth, async (req, res) => {
+router.patch("/:id", requirePermission("videos.manage"), async (req, res) => {
   try {
     const { title, description, categoryIds, tags: tagNames } = req.body;
     const video = await storage.getVideo(req.params.id);
@@ -219,9 +256,13 @@ router.patch("/:id", requireAuth, async (req, res) => {
       return res.status(404).json({ error: "Video not found" });
     }
 
-    const updates: { title?: string; description?: string } = {};
+    const updates: { title?: string; description?: string; chaptersCheckedAt?: null } = {};
     if (title !== undefined) updates.title = title;
-    if (description !== undefined) updates.description = description;
+    if (description !== undefined) {
+      updates.description = description;
+      // Its timestamps may have changed; the chapter job reads them again
+      if (description !== video.description) updates.chaptersCheckedAt = null;
+    }
 
     if (Object.keys(updates).length > 0) {
       await storage.updateVideo(req.params.id, updates);
@@ -255,7 +296,7 @@ router.patch("/:id", requireAuth, async (req, res) => {
   }
 });
 
-router.delete("/:id", requireAuth, async (req, res) => {
+router.delete("/:id", requirePermission("videos.manage"), async (req, res) => {
   try {
     await storage.deleteVideo(req.params.id);
     res.json({ success: true });
@@ -265,98 +306,82 @@ router.delete("/:id", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/:id/categorize", requireAuth, async (req, res) => {
+router.get("/:id/transcripts", async (req, res) => {
   try {
     const video = await storage.getVideo(req.params.id);
-    if (!video) {
+    if (!video || video.hiddenAt) {
       return res.status(404).json({ error: "Video not found" });
     }
+    res.json(await storage.getVideoTranscripts(video.id));
+  } catch (error) {
+    console.error("Get transcripts error:", error);
+    res.status(500).json({ error: "Failed to fetch transcripts" });
+  }
+});
 
-    const result = await categorizeVideo(video.title, video.description || "");
-    await storage.removeVideoCategories(video.id);
-    await storage.deleteTagsByVideoId(video.id);
-
-    const categoriesEn = result.categories.en || [];
-    const categoriesSr = result.categories.sr || [];
-    const maxCategories = Math.max(categoriesEn.length, categoriesSr.length);
-
-    let primaryCategoryId: string | null = null;
-
-    for (let i = 0; i < maxCategories; i++) {
-      const nameEn = categoriesEn[i];
-      const nameSr = categoriesSr[i];
-      
-      if (!nameEn) continue;
-
-      const slug = generateSlug(nameEn);
-      let category = await storage.getLocalizedCategoryBySlug(slug, "en");
-
-      if (!category) {
-        const translations: { languageCode: string; name: string; slug: string; description: string }[] = [];
-        translations.push({
-          languageCode: "en",
-          name: nameEn,
-          slug,
-          description: ""
-        });
-
-        if (nameSr) {
-          translations.push({
-            languageCode: "sr-Latn",
-            name: nameSr,
-            slug,
-            description: ""
-          });
-        }
-
-        category = await storage.createCategory({ videoCount: 0 }, translations);
-      } else if (nameSr) {
-         try {
-            await storage.addCategoryTranslation(category.id, {
-              categoryId: category.id,
-              languageCode: "sr-Latn",
-              name: nameSr,
-              slug,
-              description: ""
-            }).catch(() => {});
-         } catch (e) {
-           // Ignore
-         }
-      }
-
-      await storage.addVideoCategory(video.id, category.id);
-      if (!primaryCategoryId) primaryCategoryId = category.id;
+router.post("/:id/transcripts/fetch", requirePermission("videos.manage"), async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
     }
+    const transcripts = await ingestVideoTranscripts(video);
+    res.json({ success: true, transcripts });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : "Failed to fetch transcripts";
+    console.error("Fetch transcripts error:", error);
+    res.status(502).json({ error: message });
+  }
+});
 
-    await storage.updateVideo(video.id, { primaryCategoryId });
-
-    const tagsEn = result.tags.en || [];
-    const tagsSr = result.tags.sr || [];
-    const maxTags = Math.max(tagsEn.length, tagsSr.length);
-
-    for (let i = 0; i < maxTags; i++) {
-      const tagEn = tagsEn[i];
-      const tagSr = tagsSr[i];
-      
-      if (!tagEn) continue;
-
-      const translations = [{
-        languageCode: "en",
-        tagName: tagEn
-      }];
+router.get("/:id/chapters", async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video || video.hiddenAt) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+    res.json(await storage.getVideoChapters(video.id));
+  } catch (error) {
+    console.error("Get chapters error:", error);
+    res.status(500).json({ error: "Failed to fetch chapters" });
+  }
+});
 
-      if (tagSr) {
-        translations.push({
-          languageCode: "sr-Latn",
-          tagName: tagSr
-        });
-      }
+router.post("/:id/chapters/extract", requirePermission("videos.manage"), async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
+    }
+    const ai = typeof req.body?.ai === "boolean" ? req.body.ai : undefined;
+    const chapters = await extractVideoChapters(video, { ai });
+    res.json({ success: true, chapters });
+  } catch (error) {
+    if (error instanceof AiBudgetExceededError) {
+      return res.status(error.statusCode).json({ error: error.message, code: error.code });
+    }
+    console.error("Extract chapters error:", error);
+    res.status(500).json({ error: "Failed to extract chapters" });
+  }
+});
 
-      await storage.createTag({ videoId: video.id }, translations);
+router.post("/:id/categorize", requirePermission("videos.manage"), async (req, res) => {
+  try {
+    const video = await storage.getVideo(req.params.id);
+    if (!video) {
+      return res.status(404).json({ error: "Video not found" });
     }
 
+    const result = await categorizeVideo(video.title, video.description || "", {
+      transcript: await getTranscriptExcerpt(video.id),
+    });
+    await applyCategorization(video.id, result, { replace: true });
+
     res.json({ success: true, result });
   } catch (error) {
+    if (error instanceof AiBudgetExceededError) {
+      return res.status(error.statusCode).json({ error: error.message, code: error.code });
+    }
     const message = error instanceof Error ? error.message : "Failed to categorize video";
     if (
       message.includes("Cannot connect to localhost Ollama") ||
@@ -373,7 +398,7 @@ router.post("/:id/categorize", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/bulk/categorize-missing", requireAuth, async (req, res) => {
+router.post("/bulk/categorize-missing", requirePermission("videos.manage"), async (req, res) => {
   try {
     const limitRaw = req.body?.limit;
     const limitNum = Math.max(1, Math.min(200, parseInt(String(limitRaw ?? "60"), 10) || 60));
@@ -391,77 +416,23 @@ router.post("/bulk/categorize-missing", requireAuth, async (req, res) => {
       successful: 0,
       failed: 0,
       errors: [] as string[],
+      paused: false,
     };
 
     for (const row of missingRows) {
       try {
-        const result = await categorizeVideo(row.title, row.description || "");
-        await storage.removeVideoCategories(row.id);
-        await storage.deleteTagsByVideoId(row.id);
-
-        const categoriesEn = result.categories.en || [];
-        const categoriesSr = result.categories.sr || [];
-        const maxCategories = Math.max(categoriesEn.length, categoriesSr.length);
-
-        let primaryCategoryId: string | null = null;
-
-        for (let i = 0; i < maxCategories; i++) {
-          const nameEn = categoriesEn[i];
-          const nameSr = categoriesSr[i];
-
-          if (!nameEn) continue;
-          const slug = generateSlug(nameEn);
-          let category = await storage.getLocalizedCategoryBySlug(slug, "en");
-
-          if (!category) {
-            const translations: any[] = [
-              { languageCode: "en", name: nameEn, slug, description: "" },
-            ];
-            if (nameSr) {
-              translations.push({
-                languageCode: "sr-Latn",
-                name: nameSr,
-                slug,
-                description: "",
-              });
-            }
-            category = await storage.createCategory({ videoCount: 0 }, translations);
-          } else if (nameSr) {
-            await storage
-              .addCategoryTranslation(category.id, {
-                categoryId: category.id,
-                languageCode: "sr-Latn",
-                name: nameSr,
-                slug,
-                description: "",
-              })
-              .catch(() => {});
-          }
-
-          await storage.addVideoCategory(row.id, category.id);
-          if (!primaryCategoryId) primaryCategoryId = category.id;
-        }
-
-        await storage.updateVideo(row.id, { primaryCategoryId });
-
-        const tagsEn = result.tags.en || [];
-        const tagsSr = result.tags.sr || [];
-        const maxTags = Math.max(tagsEn.length, tagsSr.length);
-
-        for (let i = 0; i < maxTags; i++) {
-          const tagEn = tagsEn[i];
-          const tagSr = tagsSr[i];
-
-          if (!tagEn) continue;
-          const translations: any[] = [{ languageCode: "en", tagName: tagEn }];
-          if (tagSr) {
-            translations.push({ languageCode: "sr-Latn", tagName: tagSr });
-          }
-          await storage.createTag({ videoId: row.id }, translations);
-        }
+        const result = await categorizeVideo(row.title, row.description || "", {
+          transcript: await getTranscriptExcerpt(row.id),
+        });
+        await applyCategorization(row.id, result, { replace: true });
 
         results.successful++;
       } catch (error) {
+        if (error instanceof AiBudgetExceededError) {
+          results.paused = true;
+          results.errors.push(error.message);
+          break;
+        }
         results.failed++;
         const message = error instanceof Error ? error.message : "Unknown error";
         results.errors.push(`Failed to categorize video ${row.id}: ${message}`);
@@ -479,18 +450,19 @@ router.post("/bulk/categorize-missing", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/bulk/categorize", requireAuth, async (req, res) => {
+router.post("/bulk/categorize", requirePermission("videos.manage"), async (req, res) => {
   try {
     const { videoIds } = req.body;
     if (!Array.isArray(videoIds) || videoIds.length === 0) {
       return res.status(400).json({ error: "videoIds array is required" });
     }
 
-    const results = { total: videoIds.length, successful: 0, failed: 0, errors: [] as string[] };
+    const results = { total: videoIds.length, successful: 0, failed: 0, errors: [] as string[], paused: false };
     const limit = pLimit(5); // Process 5 videos concurrently
 
     const tasks = videoIds.map((videoId) => 
       limit(async () => {
+        if (results.paused) return;
         try {
           const video = await storage.getVideo(videoId);
           if (!video) {
@@ -499,75 +471,18 @@ router.post("/bulk/categorize", requireAuth, async (req, res) => {
             return;
           }
 
-          const result = await categorizeVideo(video.title, video.description || "");
-          await storage.removeVideoCategories(video.id);
-          await storage.deleteTagsByVideoId(video.id);
-
-          const categoriesEn = result.categories.en || [];
-          const categoriesSr = result.categories.sr || [];
-          const maxCategories = Math.max(categoriesEn.length, categoriesSr.length);
-
-          let primaryCategoryId: string | null = null;
-
-          for (let i = 0; i < maxCategories; i++) {
-            const nameEn = categoriesEn[i];
-            const nameSr = categoriesSr[i];
-
-            if (!nameEn) continue;
-
-            const slug = generateSlug(nameEn);
-            let category = await storage.getLocalizedCategoryBySlug(slug, "en");
-
-            if (!category) {
-              const translations: any[] = [
-                { languageCode: "en", name: nameEn, slug, description: "" },
-              ];
-              if (nameSr) {
-                translations.push({
-                  languageCode: "sr-Latn",
-                  name: nameSr,
-                  slug,
-                  description: "",
-                });
-              }
-              category = await storage.createCategory({ videoCount: 0 }, translations);
-            } else if (nameSr) {
-              await storage
-                .addCategoryTranslation(category.id, {
-                  categoryId: category.id,
-                  languageCode: "sr-Latn",
-                  name: nameSr,
-                  slug,
-                  description: "",
-                })
-                .catch(() => {});
-            }
-
-            await storage.addVideoCategory(video.id, category.id);
-            if (!primaryCategoryId) primaryCategoryId = category.id;
-          }
-
-          await storage.updateVideo(video.id, { primaryCategoryId });
-
-          const tagsEn = result.tags.en || [];
-          const tagsSr = result.tags.sr || [];
-          const maxTags = Math.max(tagsEn.length, tagsSr.length);
-
-          for (let i = 0; i < maxTags; i++) {
-            const tagEn = tagsEn[i];
-            const tagSr = tagsSr[i];
-
-            if (!tagEn) continue;
-
-            const translations: any[] = [{ languageCode: "en", tagName: tagEn }];
-            if (tagSr) {
-              translations.push({ languageCode: "sr-Latn", tagName: tagSr });
-            }
-            await storage.createTag({ videoId: video.id }, translations);
-          }
+          const result = await categorizeVideo(video.title, video.description || "", {
+            transcript: await getTranscriptExcerpt(video.id),
+          });
+          await applyCategorization(video.id, result, { replace: true });
 
           results.successful++;
         } catch (error) {
+          if (error instanceof AiBudgetExceededError) {
+            if (!results.paused) results.errors.push(error.message);
+            results.paused = true;
+            return;
+          }
           results.failed++;
           const message = error instanceof Error ? error.message : "Unknown error";
           results.errors.push(`Failed to categorize video ${videoId}: ${message}`);
@@ -584,7 +499,7 @@ router.post("/bulk/categorize", requireAuth, async (req, res) => {
   }
 });
 
-router.post("/bulk/tag", requireAuth, async (req, res) => {
+router.post("/bulk/tag", requirePermission("videos.manage"), async (req, res) => {
   try {
     const { videoIds, tags: tagNames } = req.body;
     if (!Array.isArray(videoIds) || videoIds.length === 0) {
@@ -631,7 +546,7 @@ router.post("/bulk/tag", requireAuth, async (req, res) => {
   }
 });
 
-router.delete("/bulk", requireAuth, async (req, res) => {
+router.delete("/bulk", requirePermission("videos.manage"), async (req, res) => {
   try {
     const { videoIds } = req.body;
     if (!Array.isArray(videoIds) || videoIds.length === 0) {
@@ -677,7 +592,7 @@ router.post("/:id/like", async (req, res) => {
       return res.status(400).json({ error: "Already liked" });
     }
 
-    await db.insert(videoLikes).values({ videoId, userIdentifier });
+    await db.insert(videoLikes).values({ videoId, userIdentifier, userId: req.session?.userId || null });
     await db.update(videos).set({ likesCount: sqlOp`${videos.likesCount} + 1` }).where(eq(videos.id, videoId));
 
     const [updatedVideo] = await db.select().from(videos).where(eq(videos.id, videoId)).limit(1);
@@ -741,6 +656,9 @@ router.post("/:id/view", async (req, res) => {
 
     await kvService.bufferView(videoId, userIdentifier);
     await db.insert(videoViews).values({ videoId, userIdentifier });
+    if (req.session?.userId) {
+      await storage.recordWatchProgress(req.session.userId, videoId);
+    }
 
     res.json({ success: true });
   } catch (error) {
@@ -786,7 +704,7 @@ router.post("/batch/like-status", async (req, res) => {
   }
 });
 
-router.post("/scrape", requireAdmin, async (req, res) => {
+router.post("/scrape", requirePermission("videos.manage"), async (req, res) => {
   try {
     const { url } = req.body;
     if (!url) {
@@ -884,7 +802,7 @@ router.post("/scrape", requireAdmin, async (req, res) => {
   }
 });
 
-router.post("/scrape-batch", requireAdmin, async (req, res) => {
+router.post("/scrape-batch", requirePermission("videos.manage"), async (req, res) => {
   try {
     const { urls } = req.body;
     if (!urls || !Array.isArray(urls)) {
@@ -980,7 +898,7 @@ router.post("/scrape-batch", requireAdmin, async (req, res) => {
 
 // Enrich video descriptions by scraping full YouTube video pages
 // This fixes truncated descriptions from channel-level scraping
-router.post("/enrich-descriptions", requireAuth, async (req, res) => {
+router.post("/enrich-descriptions", requirePermission("videos.manage"), async (req, res) => {
   try {
     const { limit = 50 } = req.body || {};
     const cappedLimit = Math.min(Number(limit) || 50, 200);
@@ -0,0 +1,151 @@
+// Admin settings for outgoing webhooks and their delivery log.
+// Mounted at /api/admin/webhooks — gated by requirePermission("settings.manage").
+
+import { Router, type Request } from "express";
+import { z } from "zod";
+import { requirePermission } from "../middleware/auth.js";
+import { storage } from "../storage/index.js";
+import { recordAuditLog } from "../error-log-service.js";
+import { generateWebhookSecret, replayWebhookDelivery } from "../services/webhooks.js";
+import { webhookSubscriptionSchema, type WebhookSubscription } from "../../shared/schema.js";
+
+const router = Router();
+
+const MASKED_SECRET = "********";
+const DELIVERY_STATUSES = ["pending", "sending", "delivered", "dead"] as const;
+
+const deliveryFiltersSchema = z.object({
+  subscriptionId: z.string().optional(),
+  status: z.enum(DELIVERY_STATUSES).optional(),
+  event: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+// The secret is only shown when it is created or rotated
+function toAdminSubscription(subscription: WebhookSubscription) {
+  return { ...subscription, secret: MASKED_SECRET };
+}
+
+function audit(req: Request, operation: string, metadata: Record<string, unknown>) {
+  recordAuditLog({
+    action: "admin.action",
+    userId: req.session.userId,
+    username: req.session.username,
+    ip: req.ip,
+    userAgent: req.get("User-Agent"),
+    metadata: { operation, ...metadata },
+  });
+}
+
+router.get("/subscriptions", requirePermission("settings.manage"), async (_req, res) => {
+  try {
+    const subscriptions = await storage.getWebhookSubscriptions();
+    res.json(subscriptions.map(toAdminSubscription));
+  } catch (error) {
+    console.error("[webhooks] List error:", error);
+    res.status(500).json({ error: "Failed to load webhooks" });
+  }
+});
+
+router.post("/subscriptions", requirePermission("settings.manage"), async (req, res) => {
+  try {
+    const data = webhookSubscriptionSchema.parse(req.body ?? {});
+    const subscription = await storage.createWebhookSubscription({ ...data, secret: generateWebhookSecret() });
+    audit(req, "webhook.create", { subscriptionId: subscription.id, url: subscription.url });
+    res.status(201).json(subscription);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0]?.message || "Invalid webhook", details: error.errors });
+    }
+    console.error("[webhooks] Create error:", error);
+    res.status(500).json({ error: "Failed to create the webhook" });
+  }
+});
+
+router.patch("/subscriptions/:id", requirePermission("settings.manage"), async (req, res) => {
+  try {
+    const existing = await storage.getWebhookSubscription(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    const data = webhookSubscriptionSchema.partial().parse(req.body ?? {});
+    const subscription = await storage.updateWebhookSubscription(existing.id, data);
+    audit(req, "webhook.update", { subscriptionId: existing.id });
+    res.json(toAdminSubscription(subscription!));
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: error.errors[0]?.message || "Invalid webhook", details: error.errors });
+    }
+    console.error("[webhooks] Update error:", error);
+    res.status(500).json({ error: "Failed to update the webhook" });
+  }
+});
+
+router.delete("/subscriptions/:id", requirePermission("settings.manage"), async (req, res) => {
+  try {
+    const subscription = await storage.getWebhookSubscription(req.params.id);
+    if (!subscription) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    // Its delivery log goes with it
+    await storage.deleteWebhookSubscription(subscription.id);
+    audit(req, "webhook.delete", { subscriptionId: subscription.id, url: subscription.url });
+    res.json({ success: true });
+  } catch (error) {
+    console.error("[webhooks] Delete error:", error);
+    res.status(500).json({ error: "Failed to delete the webhook" });
+  }
+});
+
+router.post("/subscriptions/:id/rotate-secret", requirePermission("settings.manage"), async (req, res) => {
+  try {
+    const existing = await storage.getWebhookSubscription(req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: "Webhook not found" });
+    }
+    const subscription = await storage.updateWebhookSubscription(existing.id, { secret: generateWebhookSecret() });
+    audit(req, "webhook.rotate_secret", { subscriptionId: existing.id });
+    res.json(subscription);
+  } catch (error) {
+    console.error("[webhooks] Rotate secret error:", error);
+    res.status(500).json({ error: "Failed to rotate the secret" });
+  }
+});
+
+router.get("/deliveries", requirePermission("settings.manage"), async (req, res) => {
+  try {
+    const filters = deliveryFiltersSchema.parse(req.query);
+    const [deliveries, subscriptions] = await Promise.all([
+      storage.getWebhookDeliveries(filters),
+      storage.getWebhookSubscriptions(),
+    ]);
+    const names = new Map(subscriptions.map((subscription) => [subscription.id, subscription.name]));
+    res.json(
+      deliveries.map((delivery) => ({ ...delivery, subscriptionName: names.get(delivery.subscriptionId) ?? null })),
+    );
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid filters", details: error.errors });
+    }
+    console.error("[webhooks] Deliveries error:", error);
+    res.status(500).json({ error: "Failed to load deliveries" });
+  }
+});
+
+// Sends the same payload again as a new delivery; works for dead and delivered ones alike
+router.post("/deliveries/:id/replay", requirePermission("settings.manage"), async (req, res) => {
+  try {
+    const delivery = await storage.getWebhookDelivery(req.params.id);
+    if (!delivery) {
+      return res.status(404).json({ error: "Delivery not found" });
+    }
+    const replayed = await replayWebhookDelivery(delivery);
+    audit(req, "webhook.replay", { deliveryId: delivery.id, replayId: replayed.id, event: delivery.event });
+    res.status(201).json(replayed);
+  } catch (error) {
+    console.error("[webhooks] Replay error:", error);
+    res.status(500).json({ error: "Failed to replay the delivery" });
+  }
+});
+
+export default router;
@@ -0,0 +1,48 @@
+// WebSub (PubSubHubbub) callback for YouTube push notifications.
+// Mounted at /api/websub — public: the hub authenticates with the per-subscription secret.
+
+import express, { Router } from "express";
+import { ingestPushedVideos, receiveNotification, verifyIntent } from "../services/websub.js";
+
+const router = Router();
+
+// Signatures are computed over the exact bytes, so the Atom body stays raw
+const rawBody = express.raw({ limit: "1mb", type: () => true });
+
+// Intent verification: echo hub.challenge for subscriptions we requested
+router.get("/youtube/:id", async (req, res) => {
+  try {
+    const result = await verifyIntent(req.params.id, req.query as Record<string, unknown>);
+    if (!result.ok) {
+      return res.status(404).send("Unknown subscription");
+    }
+    res.type("text/plain").send(result.body);
+  } catch (error) {
+    console.error("[websub] verification failed:", error);
+    res.status(500).send("Verification failed");
+  }
+});
+
+// Content distribution. The hub only needs a quick 2xx; the watch pages are
+// fetched after responding.
+router.post("/youtube/:id", rawBody, async (req, res) => {
+  try {
+    const body = Buffer.isBuffer(req.body) ? req.body : Buffer.from(typeof req.body === "string" ? req.body : "");
+    const notification = await receiveNotification(req.params.id, body, req.get("x-hub-signature"));
+    if (!notification) {
+      return res.status(410).send("Unknown subscription");
+    }
+    res.status(204).end();
+
+    if (notification.accepted && notification.videoIds.length > 0) {
+      ingestPushedVideos(notification.channelId!, notification.videoIds).catch((error) => {
+        console.error("[websub] ingesting pushed videos failed:", error);
+      });
+    }
+  } catch (error) {
+    console.error("[websub] notification failed:", error);
+    res.status(500).send("Notification failed");
+  }
+});
+
+export default router;
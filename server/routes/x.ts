@@ -1,15 +1,17 @@
 // Admin routes for adding single X (Twitter) videos by URL.
-// Mounted at /api/admin/x — gated by requireAdmin.
+// Mounted at /api/admin/x — gated by requirePermission("channels.manage").
 
 import { Router } from "express";
 import { z } from "zod";
-import { requireAdmin } from "../middleware/auth.js";
+import { requirePermission } from "../middleware/auth.js";
 import { storage } from "../storage/index.js";
 import { db } from "../db.js";
 import { activityLogs, type InsertChannel, type InsertVideo } from "../../shared/schema.js";
 import { resolveXVideo, extractTweetId } from "../x-resolver.js";
 import { generateSlug } from "../utils.js";
 import { categorizeVideo } from "../ai-service.js";
+import { applyCategorization } from "../services/categorization.js";
+import { notifyFollowers } from "../services/subscriptions.js";
 
 const router = Router();
 
@@ -64,7 +66,7 @@ function previewResponse(resolved: Awaited<ReturnType<typeof resolveXVideo>>) {
 
 // Resolve a tweet URL and return metadata without persisting anything.
 // Used by the admin "Add X video" form to preview before committing.
-router.post("/preview", requireAdmin, async (req, res) => {
+router.post("/preview", requirePermission("channels.manage"), async (req, res) => {
   const parsed = previewSchema.safeParse(req.body);
   if (!parsed.success) {
     return res.status(400).json({ error: "Invalid request body" });
@@ -87,34 +89,7 @@ async function categorizeXVideoInBackground(videoId: string, videoDbId: string)
     const video = await storage.getVideo(videoDbId);
     if (!video) return;
     const result = await categorizeVideo(video.title, video.description || "", { timeoutMs: 20000 });
-    const categoriesEn = result.categories.en || [];
-    const categoriesSr = result.categories.sr || [];
-    const max = Math.max(categoriesEn.length, categoriesSr.length);
-    for (let i = 0; i < max; i++) {
-      const nameEn = categoriesEn[i];
-      if (!nameEn) continue;
-      const nameSr = categoriesSr[i];
-      const categorySlug = nameEn.toLowerCase().replace(/[^a-z0-9]+/g, "-");
-      let category = await storage.getLocalizedCategoryBySlug(categorySlug, "en");
-      if (!category) {
-        const translations: Array<{ languageCode: string; name: string; slug: string; description: string | null }> = [
-          { languageCode: "en", name: nameEn, slug: categorySlug, description: null },
-        ];
-        if (nameSr) {
-          translations.push({ languageCode: "sr-Latn", name: nameSr, slug: categorySlug, description: null });
-        }
-        category = await storage.createCategory({}, translations);
-      } else if (nameSr) {
-        await storage.addCategoryTranslation(category.id, {
-          categoryId: category.id,
-          languageCode: "sr-Latn",
-          name: nameSr,
-          slug: categorySlug,
-          description: null,
-        }).catch(() => undefined);
-      }
-      await storage.addVideoCategory(videoDbId, category.id);
-    }
+    await applyCategorization(videoDbId, result, { tags: false });
     console.log(`[x.import] categorized tweet ${videoId} -> video ${videoDbId}`);
   } catch (error) {
     console.error(`[x.import] categorization failed for video ${videoDbId}:`, error);
@@ -123,7 +98,7 @@ async function categorizeXVideoInBackground(videoId: string, videoDbId: string)
 
 // Resolve and persist a single X video.
 // Upserts a channel for the author so videos are grouped by X handle.
-router.post("/videos", requireAdmin, async (req, res) => {
+router.post("/videos", requirePermission("channels.manage"), async (req, res) => {
   const parsed = createVideoSchema.safeParse(req.body);
   if (!parsed.success) {
     return res.status(400).json({ error: "Invalid request body" });
@@ -213,6 +188,8 @@ router.post("/videos", requireAdmin, async (req, res) => {
     return res.status(500).json({ error: "Failed to create video record." });
   }
 
+  await notifyFollowers(channel.id, [video.id]);
+
   // Audit trail — matches the pattern at server/routes/admin.ts.
   try {
     await db.insert(activityLogs).values({
@@ -236,7 +213,7 @@ router.post("/videos", requireAdmin, async (req, res) => {
 });
 
 // Quick URL validation (no network call) for the admin form's onChange.
-router.post("/validate-url", requireAdmin, async (req, res) => {
+router.post("/validate-url", requirePermission("channels.manage"), async (req, res) => {
   const parsed = previewSchema.safeParse(req.body);
   if (!parsed.success) {
     return res.status(400).json({ ok: false, error: "Invalid request body" });
@@ -1,12 +1,14 @@
 import * as cron from "node-cron";
 import pRetry from "p-retry";
 import { CronExpressionParser } from "cron-parser";
-import { scrapeYouTubeChannel } from "./youtube-scraper.js";
-import { scrapeTikTokProfile } from "./tiktok-scraper.js";
 import { storage } from "./storage.js";
 import { processScrapedVideos } from "./video-ingestion.js";
+import { collectChannelVideos, getPlatformAdapter } from "./platforms/index.js";
 import { appendScrapeJobLog } from "./scrape-job-logs.js";
 import { logger } from "./lib/logger.js";
+import { notifyAdmins } from "./services/mailer.js";
+import { emitScrapeJobEvent } from "./services/webhooks.js";
+import { WEBSUB_POLL_FALLBACK_HOURS, getPushActiveChannelIds } from "./services/websub.js";
 
 function sleep(ms: number) {
   return new Promise<void>((resolve) => setTimeout(resolve, ms));
@@ -98,6 +100,10 @@ class SchedulerService {
       const settings = await this.getSettings();
       const intervalHours = settings?.intervalHours || 6;
       const cutoffMs = Date.now() - intervalHours * 60 * 60 * 1000;
+      // Channels with a live WebSub lease get new videos pushed; polling them
+      // is only a fallback in case notifications go missing
+      const pushChannelIds = await getPushActiveChannelIds();
+      const pushCutoffMs = Date.now() - Math.max(intervalHours, WEBSUB_POLL_FALLBACK_HOURS) * 60 * 60 * 1000;
       const maxBatchSize = Math.max(
         1,
         Math.min(
@@ -116,9 +122,11 @@ class SchedulerService {
       // Get all channels, then process incrementally based on lastScraped
       const allChannels = await storage.getAllChannels();
       const channelsNeedingScrape = allChannels
+        // X channels only group individually imported posts
+        .filter((channel) => getPlatformAdapter(channel.platform)?.listsChannels)
         .filter((channel) => {
           const last = channel.lastScraped ? new Date(channel.lastScraped).getTime() : 0;
-          return !last || last < cutoffMs;
+          return !last || last < (pushChannelIds.has(channel.id) ? pushCutoffMs : cutoffMs);
         })
         .sort((a, b) => {
           const aLast = a.lastScraped ? new Date(a.lastScraped).getTime() : 0;
@@ -193,35 +201,23 @@ class SchedulerService {
         } catch {}
 
         try {
-          const platform = channel.platform === "tiktok" ? "tiktok" : "youtube";
+          const platform = channel.platform;
           const existingVideoIdsList = await storage.getVideoIdsByChannel(channel.id);
-          const existingVideoIds =
-            platform === "youtube"
-              ? new Set(existingVideoIdsList)
-              : undefined;
+          const existingVideoIds = new Set(existingVideoIdsList);
           const existingVideoCount = existingVideoIdsList.length;
 
           await pRetry(
             async () => {
-              logger.info(`[Scheduler] Scraping ${channel.platform || 'youtube'} channel: ${channel.name}`);
+              logger.info(`[Scheduler] Scraping ${platform} channel: ${channel.name}`);
               
               let savedCount = 0;
               let videosFound = 0;
 
-              // Use shared video ingestion utility for both platforms
-              let scrapedVideos: any[];
-
-              if (platform === "tiktok") {
-                const result = await scrapeTikTokProfile(channel.url);
-                scrapedVideos = result.videos;
-              } else {
-                const { videos: ytVideos } = await scrapeYouTubeChannel(channel.url, {
-                  existingVideoIds,
-                  incremental: true,
-                  maxItems: 60,
-                });
-                scrapedVideos = ytVideos;
-              }
+              const { videos: scrapedVideos } = await collectChannelVideos(channel, {
+                existingVideoIds,
+                incremental: true,
+                maxItems: 60,
+              });
 
               videosFound = scrapedVideos.length;
 
@@ -307,8 +303,9 @@ class SchedulerService {
         `[Scheduler] Scrape job completed. Scraped ${scrapedCount}/${batch.length} channels in batch. Errors: ${errorCount}. Remaining due: ${Math.max(0, channelsNeedingScrape.length - batch.length)}`,
       );
 
+      const batchFailed = errorCount === batch.length && batch.length > 0;
       await storage.updateScrapeJob(job.id, {
-        status: errorCount === batch.length && batch.length > 0 ? "failed" : "completed",
+        status: batchFailed ? "failed" : "completed",
         transitioning: false,
         processedChannels: attemptedCount,
         processedItems: attemptedCount,
@@ -320,6 +317,14 @@ class SchedulerService {
         errorMessage: errorCount > 0 ? `errors:${errorCount}` : null,
         completedAt: new Date(),
       });
+      if (batchFailed) {
+        await notifyAdmins("scrape_job_failed", {
+          jobId: job.id,
+          jobType: job.type,
+          error: `All ${errorCount} channels in the batch failed`,
+        });
+      }
+      await emitScrapeJobEvent(job.id, batchFailed ? "scrape_job.failed" : "scrape_job.completed");
       try {
         await appendScrapeJobLog(job.id, {
           level: "info",
@@ -350,6 +355,12 @@ class SchedulerService {
             errorMessage: (error as any)?.message || "failed",
             completedAt: new Date(),
           });
+          await notifyAdmins("scrape_job_failed", {
+            jobId: activeJob.id,
+            jobType: activeJob.type,
+            error: (error as any)?.message || "failed",
+          });
+          await emitScrapeJobEvent(activeJob.id, "scrape_job.failed");
         }
       } catch {}
     } finally {
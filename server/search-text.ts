@@ -0,0 +1,185 @@
+import type { HighlightSegment } from "../shared/schema.js";
+
+const SNIPPET_LENGTH = 180;
+
+/**
+ * Lowercases and strips diacritics so "Šestra" and "sestra" compare equal.
+ * Mirrors immutable_unaccent(lower(...)) on the Postgres side.
+ */
+export function normalizeSearchText(text: string): string {
+  return text
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/g, "d")
+    .replace(/Đ/g, "D")
+    .toLowerCase();
+}
+
+export function tokenizeSearchQuery(query: string): string[] {
+  return Array.from(
+    new Set(
+      normalizeSearchText(query)
+        .split(/[^\p{L}\p{N}]+/u)
+        .filter((t) => t.length > 1),
+    ),
+  );
+}
+
+function trigrams(value: string): Set<string> {
+  const padded = `  ${value} `;
+  const grams = new Set<string>();
+  for (let i = 0; i < padded.length - 2; i++) grams.add(padded.slice(i, i + 3));
+  return grams;
+}
+
+/**
+ * Trigram similarity in [0, 1], same definition as pg_trgm's similarity().
+ */
+export function trigramSimilarity(a: string, b: string): number {
+  const ga = trigrams(normalizeSearchText(a));
+  const gb = trigrams(normalizeSearchText(b));
+  if (ga.size === 0 || gb.size === 0) return 0;
+  let shared = 0;
+  ga.forEach((g) => {
+    if (gb.has(g)) shared++;
+  });
+  return shared / (ga.size + gb.size - shared);
+}
+
+/**
+ * Splits text into matched / unmatched segments for every query token.
+ * Matching is diacritic-insensitive but the original characters are preserved.
+ */
+export function highlightText(text: string, tokens: string[]): HighlightSegment[] {
+  if (!text) return [];
+  if (tokens.length === 0) return [{ text, match: false }];
+
+  // NFD stripping can change string length, so build an index map back to the original
+  const indexMap: number[] = [];
+  let normalized = "";
+  for (let i = 0; i < text.length; i++) {
+    const n = normalizeSearchText(text[i]);
+    for (let j = 0; j < n.length; j++) indexMap.push(i);
+    normalized += n;
+  }
+  indexMap.push(text.length);
+
+  const ranges: [number, number][] = [];
+  for (const token of tokens) {
+    let from = normalized.indexOf(token);
+    while (from !== -1) {
+      ranges.push([indexMap[from], indexMap[from + token.length]]);
+      from = normalized.indexOf(token, from + token.length);
+    }
+  }
+  if (ranges.length === 0) return [{ text, match: false }];
+
+  ranges.sort((a, b) => a[0] - b[0]);
+  const merged: [number, number][] = [];
+  for (const range of ranges) {
+    const last = merged[merged.length - 1];
+    if (last && range[0] <= last[1]) last[1] = Math.max(last[1], range[1]);
+    else merged.push([...range]);
+  }
+
+  const segments: HighlightSegment[] = [];
+  let cursor = 0;
+  for (const [start, end] of merged) {
+    if (start > cursor) segments.push({ text: text.slice(cursor, start), match: false });
+    segments.push({ text: text.slice(start, end), match: true });
+    cursor = end;
+  }
+  if (cursor < text.length) segments.push({ text: text.slice(cursor), match: false });
+  return segments;
+}
+
+/**
+ * Picks a window of the description around the first matched token.
+ */
+export function buildSnippet(text: string | null | undefined, tokens: string[]): HighlightSegment[] {
+  if (!text) return [];
+  const normalized = normalizeSearchText(text);
+  const firstHit = tokens
+    .map((t) => normalized.indexOf(t))
+    .filter((i) => i >= 0)
+    .sort((a, b) => a - b)[0];
+
+  let start = 0;
+  if (firstHit !== undefined && firstHit > SNIPPET_LENGTH / 3) {
+    start = text.lastIndexOf(" ", firstHit - SNIPPET_LENGTH / 3) + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  let window = text.slice(start, end).trim();
+  if (start > 0) window = `…${window}`;
+  if (end < text.length) window = `${window}…`;
+  return highlightText(window, tokens);
+}
+
+export type SearchDocumentFields = {
+  title: string;
+  tags: string[];
+  channel: string;
+  categories: string[];
+  description: string | null;
+};
+
+const FIELD_WEIGHTS = { title: 1, tags: 0.4, channel: 0.2, description: 0.1 };
+const FUZZY_THRESHOLD = 0.45;
+
+/**
+ * Closest title word per query token, averaged. Approximates pg_trgm's
+ * word_similarity() so typos like "sestar" still find "šestra".
+ */
+export function titleWordSimilarity(title: string, tokens: string[]): number {
+  const words = tokenizeSearchQuery(title);
+  if (words.length === 0 || tokens.length === 0) return 0;
+  const total = tokens.reduce(
+    (sum, token) => sum + Math.max(...words.map((w) => trigramSimilarity(w, token))),
+    0,
+  );
+  return total / tokens.length;
+}
+
+/**
+ * Builds a prefix-matching to_tsquery() expression ("sest:* & bra:*").
+ * Tokens only contain letters and digits, so no tsquery syntax can leak in.
+ */
+export function buildPrefixTsQuery(query: string): string {
+  return tokenizeSearchQuery(query)
+    .map((t) => `${t}:*`)
+    .join(" & ");
+}
+
+/**
+ * In-memory relevance score using the same weighting as the tsvector
+ * (title > tags > channel/categories > description). Returns 0 for no match.
+ */
+export function scoreSearchDocument(doc: SearchDocumentFields, query: string): number {
+  const tokens = tokenizeSearchQuery(query);
+  if (tokens.length === 0) return 0;
+
+  const fields = {
+    title: normalizeSearchText(doc.title),
+    tags: normalizeSearchText(doc.tags.join(" ")),
+    channel: normalizeSearchText(`${doc.channel} ${doc.categories.join(" ")}`),
+    description: normalizeSearchText(doc.description || ""),
+  };
+
+  let score = 0;
+  let matchedTokens = 0;
+  for (const token of tokens) {
+    let tokenScore = 0;
+    for (const [field, weight] of Object.entries(FIELD_WEIGHTS) as [keyof typeof fields, number][]) {
+      if (fields[field].includes(token)) tokenScore = Math.max(tokenScore, weight);
+    }
+    if (tokenScore > 0) matchedTokens++;
+    score += tokenScore;
+  }
+
+  // Every token must match (AND semantics, like the tsquery) unless the title is a fuzzy hit
+  const similarity = titleWordSimilarity(doc.title, tokens);
+  if (matchedTokens < tokens.length) {
+    return similarity >= FUZZY_THRESHOLD ? similarity * 0.5 : 0;
+  }
+  return score + similarity * 0.5;
+}
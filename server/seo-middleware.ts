@@ -2,9 +2,19 @@ import { Request, Response, NextFunction } from "express";
 import fs from "fs";
 import { storage } from "./storage/index.js";
 import { generateSlug } from "./utils.js";
-import { db } from "./db.js";
-import { seoMetaTags } from "../shared/schema.js";
-import { eq, and } from "drizzle-orm";
+import { pickTranscript } from "./services/transcripts.js";
+import { chapterClips, videoDurationSeconds } from "./services/chapters.js";
+import { isModerationHold } from "./services/moderation.js";
+import {
+  assignSeoAbVariant,
+  getRunningSeoAbTests,
+  recordSeoAbView,
+  seoAbVariantValue,
+  seoAbVisitor,
+} from "./services/seo-ab-tests.js";
+
+/** Transcript characters put in a video's structured data */
+const SEO_TRANSCRIPT_CHARS = 5000;
 
 // Cache template in memory to avoid reading disk on every request
 let cachedTemplate: string | null = null;
@@ -16,6 +26,15 @@ export async function seoMiddleware(req: Request, res: Response, next: NextFunct
   }
 
   try {
+    // Redirects from the SEO settings and from merged tags
+    const redirect = await storage.getActiveSeoRedirect(req.path);
+    if (redirect && redirect.toUrl !== req.path) {
+      void storage.recordSeoRedirectHit(redirect.id);
+      const queryStart = req.originalUrl.indexOf("?");
+      const query = queryStart >= 0 ? req.originalUrl.slice(queryStart) : "";
+      return res.redirect(redirect.type === "temporary" ? 302 : 301, `${redirect.toUrl}${query}`);
+    }
+
     if (!cachedTemplate) {
       if (!fs.existsSync(indexPath)) {
         return next();
@@ -45,9 +64,12 @@ export async function seoMiddleware(req: Request, res: Response, next: NextFunct
       const slugOrId = videoMatch[1];
       const video = await storage.getVideoBySlug(slugOrId) || await storage.getVideo(slugOrId);
 
-      if (video) {
+      // Videos held by moderation get the generic page, not their title and description
+      if (video && !isModerationHold(video)) {
         title = `${video.title} | nisam.video`;
-        const rawDesc = video.description || "";
+        const transcript = pickTranscript(await storage.getVideoTranscripts(video.id));
+        // Many videos have no description; what is said in them describes them best
+        const rawDesc = video.description || transcript?.text || "";
         description = rawDesc.replace(/<[^>]*>?/gm, '').substring(0, 160).trim();
         if (rawDesc.length > 160) description += "...";
 
@@ -69,6 +91,22 @@ export async function seoMiddleware(req: Request, res: Response, next: NextFunct
         if (video.duration) {
           videoObject["duration"] = video.duration;
         }
+        if (transcript) {
+          videoObject["transcript"] = transcript.text.slice(0, SEO_TRANSCRIPT_CHARS);
+        }
+
+        // Key moments: our own chapters, or else let search engines find
+        // them and link into the page with ?t=
+        const chapters = await storage.getVideoChapters(video.id);
+        if (chapters.length > 0) {
+          videoObject["hasPart"] = chapterClips(chapters, canonicalUrl, videoDurationSeconds(video.duration));
+        } else {
+          videoObject["potentialAction"] = {
+            "@type": "SeekToAction",
+            "target": `${canonicalUrl}?t={seek_to_second_number}`,
+            "startOffset-input": "required name=seek_to_second_number",
+          };
+        }
 
         structuredData = JSON.stringify({
           "@context": "https://schema.org",
@@ -293,26 +331,48 @@ export async function seoMiddleware(req: Request, res: Response, next: NextFunct
     }
 
     // ── Check Database Overrides ──────────────────────────────────────────
-    try {
-      const [customMeta] = await db.select().from(seoMetaTags).where(
-        and(
-          eq(seoMetaTags.pageUrl, req.path),
-          eq(seoMetaTags.isActive, true)
-        )
-      ).limit(1);
-
-      if (customMeta) {
-        if (customMeta.title) title = customMeta.title;
-        if (customMeta.description) description = customMeta.description;
-        if (customMeta.keywords) keywords = customMeta.keywords;
-        if (customMeta.ogTitle) title = customMeta.ogTitle; // Or keep separate if you want to use ogTitle specifically for OG
-        if (customMeta.ogImage) image = customMeta.ogImage;
-        if (customMeta.canonicalUrl) canonicalUrl = customMeta.canonicalUrl;
-        if (customMeta.schemaMarkup) structuredData = JSON.stringify(customMeta.schemaMarkup);
+    let ogTitle: string | null = null;
+    let ogDescription: string | null = null;
+    const customMeta = await storage.getSeoMetaTag(req.path);
+    if (customMeta) {
+      if (customMeta.title) title = customMeta.title;
+      if (customMeta.description) description = customMeta.description;
+      if (customMeta.keywords) keywords = customMeta.keywords;
+      if (customMeta.ogTitle) ogTitle = customMeta.ogTitle;
+      if (customMeta.ogDescription) ogDescription = customMeta.ogDescription;
+      if (customMeta.ogImage) image = customMeta.ogImage;
+      if (customMeta.canonicalUrl) canonicalUrl = customMeta.canonicalUrl;
+      if (customMeta.schemaMarkup) structuredData = JSON.stringify(customMeta.schemaMarkup);
+    }
+
+    // ── A/B Tests ─────────────────────────────────────────────────────────
+    // Each visitor is bucketed by a hash, so it keeps seeing the same
+    // variant. Crawlers are bucketed by the site they index for, and people
+    // arriving from that site share its bucket: they see the text they
+    // clicked on, and count as a click for it (see seoAbVisitor).
+    let abTested = false;
+    if (settings?.enableABTesting) {
+      const tests = await getRunningSeoAbTests(req.path);
+      if (tests.length > 0) {
+        const visitor = seoAbVisitor({ ip: req.ip, userAgent: req.get("user-agent"), referrer: req.get("referer") });
+        for (const test of tests) {
+          const variant = assignSeoAbVariant(test, visitor.key);
+          const value = seoAbVariantValue(test, variant);
+          if (test.elementType === "title") title = value;
+          else if (test.elementType === "description") description = value;
+          else if (test.elementType === "og_title") ogTitle = value;
+          else if (test.elementType === "og_description") ogDescription = value;
+          if (req.method === "GET") {
+            recordSeoAbView(test.id, variant, visitor).catch((error) =>
+              console.error("SEO A/B count error:", error),
+            );
+          }
+        }
+        abTested = true;
       }
-    } catch (e) {
-      // Ignore if table doesn't exist
     }
+    ogTitle ??= title;
+    ogDescription ??= description;
 
     // ── Build meta tag HTML ────────────────────────────────────────────────
     const e = (val: string) => val ? val.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;") : "";
@@ -324,8 +384,8 @@ export async function seoMiddleware(req: Request, res: Response, next: NextFunct
       <link rel="canonical" href="${e(canonicalUrl)}">
 
       <!-- Open Graph -->
-      <meta property="og:title" content="${e(title)}">
-      <meta property="og:description" content="${e(description)}">
+      <meta property="og:title" content="${e(ogTitle)}">
+      <meta property="og:description" content="${e(ogDescription)}">
       <meta property="og:image" content="${e(image)}">
       <meta property="og:image:width" content="1280">
       <meta property="og:image:height" content="720">
@@ -338,12 +398,12 @@ export async function seoMiddleware(req: Request, res: Response, next: NextFunct
       <!-- Twitter -->
       <meta name="twitter:card" content="summary_large_image">
       <meta name="twitter:site" content="${e(twitterHandle)}">
-      <meta name="twitter:title" content="${e(title)}">
-      <meta name="twitter:description" content="${e(description)}">
+      <meta name="twitter:title" content="${e(ogTitle)}">
+      <meta name="twitter:description" content="${e(ogDescription)}">
       <meta name="twitter:image" content="${e(image)}">
       <meta name="twitter:image:alt" content="${e(title)}">
 
-      ${structuredData ? `<script type="application/ld+json">${structuredData}</script>` : ''}
+      ${structuredData ? `<script type="application/ld+json">${structuredData.replace(/</g, "\\u003c")}</script>` : ''}
     `;
 
     // Remove existing <title> and <meta name="description"> to avoid duplicates
@@ -354,6 +414,8 @@ export async function seoMiddleware(req: Request, res: Response, next: NextFunct
     // Inject new tags before </head>
     html = html.replace(/<\/head>/i, `${metaTags}</head>`);
 
+    // A shared cache would serve one bucket's variant to everyone
+    if (abTested) res.setHeader("Cache-Control", "private, no-cache");
     res.send(html);
   } catch (error) {
     console.error("SEO Middleware Error:", error);
@@ -0,0 +1,113 @@
+import crypto from "crypto";
+import { storage } from "../storage/index.js";
+import { logger } from "../lib/logger.js";
+import { isSmtpConfigured, queueEmail } from "./mailer.js";
+import type { User } from "../../shared/schema.js";
+
+export type AccountTokenPurpose = "password_reset" | "email_verification";
+
+export const TOKEN_TTL_MS: Record<AccountTokenPurpose, number> = {
+  password_reset: 60 * 60 * 1000,
+  email_verification: 48 * 60 * 60 * 1000,
+};
+
+type TokenPayload = { p: AccountTokenPurpose; u: string; e: number; s: string };
+
+// Falls back to a per-process key like the session secret does in development
+const fallbackKey = crypto.randomBytes(32).toString("hex");
+
+function signingKey(): string {
+  const secret = process.env.SESSION_SECRET?.trim();
+  return secret && secret.length >= 32 ? secret : fallbackKey;
+}
+
+function sign(data: string): string {
+  return crypto.createHmac("sha256", signingKey()).update(data).digest("base64url");
+}
+
+/**
+ * Binds a token to the state it changes: a reset token stops working once the
+ * password changes (so it is single-use), a verification token once the email
+ * does.
+ */
+function stateStamp(purpose: AccountTokenPurpose, user: User): string {
+  const state = purpose === "password_reset" ? user.password : (user.email || "").toLowerCase();
+  return crypto.createHash("sha256").update(`${purpose}:${state}`).digest("base64url").slice(0, 16);
+}
+
+/** A signed, expiring token for a reset or verification link. Nothing is stored. */
+export function createAccountToken(purpose: AccountTokenPurpose, user: User, now = Date.now()): string {
+  const payload: TokenPayload = { p: purpose, u: user.id, e: now + TOKEN_TTL_MS[purpose], s: stateStamp(purpose, user) };
+  const body = Buffer.from(JSON.stringify(payload)).toString("base64url");
+  return `${body}.${sign(body)}`;
+}
+
+/** The user the token was issued to, or undefined when it is forged, expired or already used. */
+export async function verifyAccountToken(
+  purpose: AccountTokenPurpose,
+  token: string,
+  now = Date.now(),
+): Promise<User | undefined> {
+  const [body, signature] = token.split(".");
+  if (!body || !signature) return undefined;
+  const expected = Buffer.from(sign(body));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return undefined;
+
+  let payload: TokenPayload;
+  try {
+    payload = JSON.parse(Buffer.from(body, "base64url").toString("utf8"));
+  } catch {
+    return undefined;
+  }
+  if (payload.p !== purpose || typeof payload.e !== "number" || payload.e < now) return undefined;
+
+  const user = await storage.getUser(payload.u);
+  if (!user || stateStamp(purpose, user) !== payload.s) return undefined;
+  return user;
+}
+
+/**
+ * Queues the reset or verification email for the user's address. Returns
+ * false when there is no address or SMTP isn't configured.
+ */
+export async function sendAccountEmail(
+  purpose: AccountTokenPurpose,
+  user: User,
+  locale?: string | null,
+): Promise<boolean> {
+  if (!user.email) return false;
+  const settings = await storage.getEmailSettings();
+  if (!isSmtpConfigured(settings)) {
+    logger.warn(`[account] SMTP is not configured; ${purpose} email for ${user.username} was not sent`);
+    return false;
+  }
+
+  const token = createAccountToken(purpose, user);
+  if (purpose === "password_reset") {
+    await queueEmail(
+      "password_reset",
+      { username: user.username, token, expiresInMinutes: TOKEN_TTL_MS.password_reset / 60000 },
+      { to: [user.email], locale },
+    );
+  } else {
+    await queueEmail("email_verification", { username: user.username, token }, { to: [user.email], locale });
+  }
+  return true;
+}
+
+/** Tells the previous address that the account's email was changed, in case it wasn't the owner. */
+export async function sendEmailChangedNotice(
+  user: User,
+  previousEmail: string,
+  locale?: string | null,
+): Promise<boolean> {
+  if (!user.email) return false;
+  const settings = await storage.getEmailSettings();
+  if (!isSmtpConfigured(settings)) {
+    logger.warn(`[account] SMTP is not configured; email change notice for ${user.username} was not sent`);
+    return false;
+  }
+  await queueEmail("email_changed", { username: user.username, newEmail: user.email }, { to: [previousEmail], locale });
+  return true;
+}
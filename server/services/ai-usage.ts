@@ -0,0 +1,118 @@
+import { storage } from "../storage/index.js";
+import { logger } from "../lib/logger.js";
+import { AiBudgetExceededError } from "../errors/custom-errors.js";
+import type { AiBudgetStatus, AiFeature, AiProvider, AiUsageReport } from "../../shared/schema.js";
+
+/**
+ * List prices in USD per million tokens. A model is priced by its longest
+ * matching prefix, so dated snapshots (gpt-4o-mini-2024-07-18) are covered.
+ * OpenRouter reports the actual cost of each call, which wins over this
+ * table; self-hosted Ollama models cost nothing.
+ */
+export const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "o3": { input: 2, output: 8 },
+  "o3-mini": { input: 1.1, output: 4.4 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "text-embedding-ada-002": { input: 0.1, output: 0 },
+};
+
+export type AiCallUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  /** Cost the provider reported for the call */
+  costUsd?: number;
+};
+
+/** Rough token count for providers that don't report one (about 4 characters per token). */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+export function estimateAiCost(provider: AiProvider, model: string, usage: AiCallUsage): number {
+  if (typeof usage.costUsd === "number") return usage.costUsd;
+  if (provider === "ollama") return 0;
+  // OpenRouter names models "vendor/model"
+  const name = model.toLowerCase().split("/").pop() ?? "";
+  const key = Object.keys(MODEL_PRICES)
+    .filter((prefix) => name === prefix || name.startsWith(`${prefix}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return 0;
+  const price = MODEL_PRICES[key];
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+export type AiUsageRecord = {
+  feature: AiFeature;
+  provider: AiProvider;
+  model: string;
+  latencyMs: number;
+} & ({ usage: AiCallUsage; error?: undefined } | { usage?: undefined; error: string });
+
+/** Stores one provider call. Metering never fails the AI call it measures. */
+export async function recordAiUsage(record: AiUsageRecord): Promise<void> {
+  const usage = record.usage ?? { promptTokens: 0, completionTokens: 0 };
+  try {
+    await storage.recordAiUsageEvent({
+      feature: record.feature,
+      provider: record.provider,
+      model: record.model,
+      promptTokens: usage.promptTokens,
+      completionTokens: usage.completionTokens,
+      latencyMs: Math.round(record.latencyMs),
+      costUsd: record.error ? 0 : estimateAiCost(record.provider, record.model, usage),
+      outcome: record.error ? "error" : "success",
+      error: record.error ? record.error.slice(0, 500) : null,
+    });
+  } catch (error) {
+    logger.warn(`[ai-usage] Could not record ${record.feature} call: ${(error as Error).message}`);
+  }
+}
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function startOfUtcMonth(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+}
+
+export type AiBudgets = { dailyBudgetUsd: number | null; monthlyBudgetUsd: number | null };
+
+export async function getAiBudgetStatus(budgets: AiBudgets, now = new Date()): Promise<AiBudgetStatus> {
+  const [spentTodayUsd, spentMonthUsd] = await Promise.all([
+    storage.getAiSpend(startOfUtcDay(now)),
+    storage.getAiSpend(startOfUtcMonth(now)),
+  ]);
+  const { dailyBudgetUsd, monthlyBudgetUsd } = budgets;
+  const exceeded =
+    monthlyBudgetUsd !== null && spentMonthUsd >= monthlyBudgetUsd
+      ? "monthly"
+      : dailyBudgetUsd !== null && spentTodayUsd >= dailyBudgetUsd
+        ? "daily"
+        : null;
+  return { dailyBudgetUsd, monthlyBudgetUsd, spentTodayUsd, spentMonthUsd, exceeded };
+}
+
+/** Throws AiBudgetExceededError when a budget is used up; free when no budget is set. */
+export async function assertAiBudget(budgets: AiBudgets): Promise<void> {
+  if (budgets.dailyBudgetUsd === null && budgets.monthlyBudgetUsd === null) return;
+  const status = await getAiBudgetStatus(budgets);
+  if (status.exceeded === "monthly") throw new AiBudgetExceededError("monthly", status.monthlyBudgetUsd!);
+  if (status.exceeded === "daily") throw new AiBudgetExceededError("daily", status.dailyBudgetUsd!);
+}
+
+export async function getAiUsageReport(days: number, now = new Date()): Promise<AiUsageReport> {
+  const since = new Date(startOfUtcDay(now).getTime() - (days - 1) * 24 * 60 * 60 * 1000);
+  return storage.getAiUsageReport(since, now);
+}
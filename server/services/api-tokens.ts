@@ -0,0 +1,76 @@
+import crypto from "crypto";
+import { storage } from "../storage/index.js";
+import { logger } from "../lib/logger.js";
+import { ValidationError } from "../errors/custom-errors.js";
+import type { ApiToken, ApiTokenScope } from "../../shared/schema.js";
+
+export const TOKEN_PREFIX = "nsv_";
+export const MAX_ACTIVE_TOKENS = 20;
+// Requests per token per minute on /api/v1
+export const API_RATE_LIMIT = Number(process.env.API_RATE_LIMIT_PER_MINUTE) || 120;
+
+// last_used_at is written at most this often per token
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+export type ApiTokenSummary = Omit<ApiToken, "tokenHash" | "userId">;
+
+export function hashToken(secret: string): string {
+  return crypto.createHash("sha256").update(secret).digest("hex");
+}
+
+export function isTokenActive(token: ApiToken, now = new Date()): boolean {
+  return !token.revokedAt && (!token.expiresAt || token.expiresAt > now);
+}
+
+/** What the owner sees; the hash never leaves the server. */
+export function summarizeToken({ tokenHash: _hash, userId: _userId, ...summary }: ApiToken): ApiTokenSummary {
+  return summary;
+}
+
+/**
+ * Creates a token and returns its secret. The secret is shown once; only
+ * its hash is stored.
+ */
+export async function createApiToken(
+  userId: string,
+  input: { name: string; scopes: ApiTokenScope[]; expiresAt?: Date | null },
+): Promise<{ secret: string; token: ApiToken }> {
+  const active = (await storage.getApiTokensByUser(userId)).filter((token) => isTokenActive(token));
+  if (active.length >= MAX_ACTIVE_TOKENS) {
+    throw new ValidationError(`You can have at most ${MAX_ACTIVE_TOKENS} active tokens; revoke one first`);
+  }
+
+  const secret = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString("base64url")}`;
+  const token = await storage.createApiToken({
+    userId,
+    name: input.name,
+    tokenPrefix: secret.slice(0, TOKEN_PREFIX.length + 6),
+    tokenHash: hashToken(secret),
+    scopes: input.scopes,
+    expiresAt: input.expiresAt ?? null,
+  });
+  return { secret, token };
+}
+
+/** Revokes one of the user's tokens; false when it isn't theirs. */
+export async function revokeApiToken(userId: string, id: string): Promise<boolean> {
+  const token = (await storage.getApiTokensByUser(userId)).find((t) => t.id === id);
+  if (!token) return false;
+  if (!token.revokedAt) await storage.updateApiToken(id, { revokedAt: new Date() });
+  return true;
+}
+
+/** The active token for a secret, with its use recorded; undefined for unknown, revoked or expired ones. */
+export async function authenticateApiToken(secret: string): Promise<ApiToken | undefined> {
+  if (!secret.startsWith(TOKEN_PREFIX)) return undefined;
+  const token = await storage.getApiTokenByHash(hashToken(secret));
+  const now = new Date();
+  if (!token || !isTokenActive(token, now)) return undefined;
+
+  if (!token.lastUsedAt || now.getTime() - token.lastUsedAt.getTime() >= LAST_USED_RESOLUTION_MS) {
+    storage.updateApiToken(token.id, { lastUsedAt: now }).catch((error) => {
+      logger.warn(`[api-tokens] Could not record use of ${token.id}: ${(error as Error).message}`);
+    });
+  }
+  return token;
+}
@@ -0,0 +1,232 @@
+import { storage } from "../storage/index.js";
+import { logger } from "../lib/logger.js";
+import { resolveXVideo } from "../x-resolver.js";
+import { fetchVideoStatusesViaApi, getYouTubeApiKey, type YouTubeVideoStatus } from "../platforms/youtube-api.js";
+import { videoSourceUrl } from "./video-refresh.js";
+import { isModerationHold } from "./moderation.js";
+import type { Video, VideoAvailability } from "../../shared/schema.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const YOUTUBE_TYPES = new Set(["regular", "youtube_short"]);
+/** Video types we know how to probe. Instagram oEmbed needs an app token and RSS items have no embed. */
+export const AVAILABILITY_CHECK_TYPES = ["regular", "youtube_short", "tiktok", "x", "vimeo", "dailymotion"] as const;
+
+const RECHECK_AFTER_MS = 72 * HOUR_MS;
+// The Data API answers 50 videos per quota unit; everything else is one request per video
+const API_BATCH_SIZE = 500;
+const PROBE_BATCH_SIZE = 100;
+const API_CHUNK_SIZE = 50;
+const PROBE_TIMEOUT_MS = 15000;
+
+// oEmbed providers answer these for removed, private and non-embeddable videos
+const GONE_STATUSES = new Set([400, 401, 403, 404, 410]);
+
+export type AvailabilityCheckSummary = {
+  checked: number;
+  available: number;
+  quarantined: number;
+  restored: number;
+  failed: number;
+};
+
+export type AvailabilityCheckOptions = {
+  limit?: number;
+  now?: Date;
+  onProgress?: (summary: AvailabilityCheckSummary, total: number) => Promise<void> | void;
+};
+
+type Probe =
+  | { status: VideoAvailability; updates?: Partial<Video> }
+  | { status: null; error: string };
+
+/**
+ * Region restrictions are judged for the audience's country, AVAILABILITY_REGION
+ * (ISO 3166-1 alpha-2), "RS" unless configured.
+ */
+export function getAvailabilityRegion(): string {
+  return (process.env.AVAILABILITY_REGION || "RS").trim().toUpperCase();
+}
+
+/** Maps a videos.list status to what a visitor in `region` gets from our embed. */
+export function classifyYouTubeStatus(status: YouTubeVideoStatus | undefined, region: string): VideoAvailability {
+  if (!status) return "unavailable";
+  if (status.privacyStatus === "private" || status.embeddable === false) return "unavailable";
+  if (status.uploadStatus && status.uploadStatus !== "processed" && status.uploadStatus !== "uploaded") return "unavailable";
+
+  const restriction = status.regionRestriction;
+  if (restriction?.blocked?.includes(region)) return "region_blocked";
+  if (restriction?.allowed && !restriction.allowed.includes(region)) return "region_blocked";
+
+  // Age-restricted videos only play on youtube.com, after sign-in
+  if (status.ageRestricted) return "age_restricted";
+  return "available";
+}
+
+async function probeOEmbed(endpoint: string): Promise<Probe> {
+  try {
+    const response = await fetch(endpoint, { signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    if (response.ok) return { status: "available" };
+    if (GONE_STATUSES.has(response.status)) return { status: "unavailable" };
+    return { status: null, error: `oEmbed responded ${response.status}` };
+  } catch (error) {
+    return { status: null, error: (error as Error).message };
+  }
+}
+
+function oEmbedEndpoint(video: Video, tiktokUsername?: string | null): string {
+  switch (video.videoType) {
+    case "tiktok":
+      return `https://www.tiktok.com/oembed?url=${encodeURIComponent(`https://www.tiktok.com/@${tiktokUsername}/video/${video.videoId}`)}`;
+    case "vimeo":
+      return `https://vimeo.com/api/oembed.json?url=${encodeURIComponent(videoSourceUrl(video))}`;
+    case "dailymotion":
+      return `https://www.dailymotion.com/services/oembed?url=${encodeURIComponent(videoSourceUrl(video))}`;
+    default:
+      return `https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(videoSourceUrl(video))}`;
+  }
+}
+
+/**
+ * TikTok embeds are addressed by video id; a stored embedUrl that isn't the
+ * stable /embed/v2/ form was captured from a signed CDN URL and expires.
+ */
+async function probeTikTok(video: Video): Promise<Probe> {
+  const channel = await storage.getChannel(video.channelId);
+  if (!channel?.channelId) return { status: null, error: "TikTok username unknown" };
+
+  const probe = await probeOEmbed(oEmbedEndpoint(video, channel.channelId));
+  const stableEmbed = `https://www.tiktok.com/embed/v2/${video.videoId}`;
+  if (probe.status === "available" && video.embedUrl && video.embedUrl !== stableEmbed) {
+    return { status: "available", updates: { embedUrl: stableEmbed } };
+  }
+  return probe;
+}
+
+/**
+ * X videos are stored as direct mp4 URLs. When one stops answering, the post
+ * is resolved again for a fresh URL; if that fails the post is gone.
+ */
+async function probeX(video: Video): Promise<Probe> {
+  if (video.embedUrl) {
+    try {
+      const response = await fetch(video.embedUrl, { method: "HEAD", signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+      if (response.ok) return { status: "available" };
+      if (!GONE_STATUSES.has(response.status)) return { status: null, error: `mp4 responded ${response.status}` };
+    } catch (error) {
+      return { status: null, error: (error as Error).message };
+    }
+  }
+
+  try {
+    const resolved = await resolveXVideo(`https://x.com/i/status/${video.videoId.replace(/^x_/, "")}`);
+    const updates: Partial<Video> = { embedUrl: resolved.videoUrl };
+    if (resolved.thumbnailUrl) updates.thumbnailUrl = resolved.thumbnailUrl;
+    return { status: "available", updates };
+  } catch (error) {
+    logger.info(`[availability] X post ${video.videoId} no longer resolves: ${(error as Error).message}`);
+    return { status: "unavailable" };
+  }
+}
+
+function probeOne(video: Video): Promise<Probe> {
+  if (video.videoType === "tiktok") return probeTikTok(video);
+  if (video.videoType === "x") return probeX(video);
+  return probeOEmbed(oEmbedEndpoint(video));
+}
+
+async function probeYouTubeViaApi(videos: Video[], apiKey: string): Promise<Map<string, Probe>> {
+  const results = new Map<string, Probe>();
+  try {
+    const statuses = await fetchVideoStatusesViaApi(videos.map((v) => v.videoId), apiKey);
+    const region = getAvailabilityRegion();
+    for (const video of videos) {
+      results.set(video.id, { status: classifyYouTubeStatus(statuses.get(video.videoId), region) });
+    }
+  } catch (error) {
+    // Quota ran out or the API is down: oEmbed can still tell removed videos apart
+    logger.warn(`[availability] videos.list failed, probing oEmbed instead: ${(error as Error).message}`);
+    for (const video of videos) results.set(video.id, await probeOne(video));
+  }
+  return results;
+}
+
+async function applyProbe(video: Video, probe: Probe, now: Date, summary: AvailabilityCheckSummary): Promise<void> {
+  summary.checked++;
+
+  if (probe.status === null) {
+    summary.failed++;
+    logger.warn(`[availability] Could not check ${video.videoId}: ${probe.error}`);
+    await storage.updateVideo(video.id, { availabilityCheckedAt: now });
+    return;
+  }
+
+  const updates: Partial<Video> = { ...probe.updates, availability: probe.status, availabilityCheckedAt: now };
+
+  if (probe.status === "available") {
+    summary.available++;
+    // Videos held by moderation stay hidden until an admin approves them
+    if (video.hiddenAt && !isModerationHold(video)) {
+      summary.restored++;
+      logger.info(`[availability] ${video.videoId} plays again, restoring: ${video.title}`);
+      Object.assign(updates, { hiddenAt: null, hiddenReason: null });
+    }
+  } else if (!video.hiddenAt && !video.availabilityReviewedAt) {
+    summary.quarantined++;
+    logger.info(`[availability] Quarantining ${video.videoId} (${probe.status}): ${video.title}`);
+    Object.assign(updates, { hiddenAt: now, hiddenReason: probe.status });
+  }
+
+  await storage.updateVideo(video.id, updates);
+}
+
+/**
+ * Probes the embeds of videos not checked in the last three days, oldest
+ * check first. Videos that can't be played are quarantined (hidden until an
+ * admin restores them or a later check finds them playable again); ones an
+ * admin already restored keep their status but stay up.
+ */
+export async function checkVideoAvailability(options: AvailabilityCheckOptions = {}): Promise<AvailabilityCheckSummary> {
+  const now = options.now ?? new Date();
+  const apiKey = await getYouTubeApiKey();
+  const limit = options.limit ?? (apiKey ? API_BATCH_SIZE : PROBE_BATCH_SIZE);
+  const due = await storage.getVideosDueForAvailabilityCheck(
+    AVAILABILITY_CHECK_TYPES,
+    limit,
+    new Date(now.getTime() - RECHECK_AFTER_MS),
+  );
+
+  const summary: AvailabilityCheckSummary = { checked: 0, available: 0, quarantined: 0, restored: 0, failed: 0 };
+  const youtube = apiKey ? due.filter((v) => YOUTUBE_TYPES.has(v.videoType)) : [];
+  const oneByOne = due.filter((v) => !youtube.includes(v));
+
+  for (let i = 0; i < youtube.length; i += API_CHUNK_SIZE) {
+    const chunk = youtube.slice(i, i + API_CHUNK_SIZE);
+    const probes = await probeYouTubeViaApi(chunk, apiKey!);
+    for (const video of chunk) {
+      await applyProbe(video, probes.get(video.id)!, now, summary);
+    }
+    await options.onProgress?.(summary, due.length);
+  }
+
+  for (const video of oneByOne) {
+    await applyProbe(video, await probeOne(video), now, summary);
+    await options.onProgress?.(summary, due.length);
+  }
+
+  if (summary.checked > 0) {
+    logger.info(
+      `[availability] Checked ${summary.checked} videos: ${summary.quarantined} quarantined, ${summary.restored} restored, ${summary.failed} failed`,
+    );
+  }
+  return summary;
+}
+
+/** Admin override: puts a quarantined video back and keeps the checker from hiding it again. */
+export async function restoreVideo(videoId: string): Promise<Video | undefined> {
+  return storage.updateVideo(videoId, {
+    hiddenAt: null,
+    hiddenReason: null,
+    availabilityReviewedAt: new Date(),
+  });
+}
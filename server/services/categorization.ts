@@ -0,0 +1,105 @@
+import { storage } from "../storage/index.js";
+import { generateSlug } from "../utils.js";
+import type { VideoCategorizationResult } from "../ai-service.js";
+import { emitWebhookEvent, videoPayload } from "./webhooks.js";
+
+export type ApplyCategorizationOptions = {
+  categories?: boolean;
+  tags?: boolean;
+  /**
+   * Replace the video's categories (and primary category) and tags instead of
+   * adding to them. Nothing is removed when the result for that part is empty.
+   */
+  replace?: boolean;
+};
+
+/**
+ * Finds each English category by slug or creates it, with the other
+ * languages' names (same position in their lists) as translations. Existing
+ * categories get translations they were missing. Returns the category ids.
+ */
+async function resolveCategories(result: VideoCategorizationResult): Promise<string[]> {
+  const namesEn = result.categories.en || [];
+  const otherLanguages = Object.keys(result.categories).filter((code) => code !== "en");
+  const ids: string[] = [];
+
+  for (const [i, nameEn] of namesEn.entries()) {
+    if (!nameEn) continue;
+    const slug = generateSlug(nameEn);
+    const translations = otherLanguages
+      .map((languageCode) => ({ languageCode, name: result.categories[languageCode]?.[i] }))
+      .filter((t): t is { languageCode: string; name: string } => Boolean(t.name))
+      .map((t) => ({ ...t, slug, description: null }));
+
+    let category = await storage.getLocalizedCategoryBySlug(slug, "en");
+    if (!category) {
+      category = await storage.createCategory({}, [
+        { languageCode: "en", name: nameEn, slug, description: null },
+        ...translations,
+      ]);
+    } else {
+      for (const translation of translations) {
+        // Already translated into that language: keep the existing name
+        await storage
+          .addCategoryTranslation(category.id, { categoryId: category.id, ...translation })
+          .catch(() => {});
+      }
+    }
+    if (!ids.includes(category.id)) ids.push(category.id);
+  }
+  return ids;
+}
+
+/**
+ * Saves a categorizeVideo result on the video: categories and tags in every
+ * language of the result, and the prompt version that produced them. In the
+ * controlled taxonomy mode the chosen categories are linked as they are.
+ */
+export async function applyCategorization(
+  videoId: string,
+  result: VideoCategorizationResult,
+  options: ApplyCategorizationOptions = {},
+): Promise<{ categoryIds: string[]; tagCount: number }> {
+  const { categories = true, tags = true, replace = false } = options;
+  let categoryIds: string[] = [];
+  let tagCount = 0;
+
+  if (categories) {
+    categoryIds = result.categoryIds ?? (await resolveCategories(result));
+    if (replace && categoryIds.length > 0) await storage.removeVideoCategories(videoId);
+    for (const categoryId of categoryIds) {
+      await storage.addVideoCategory(videoId, categoryId);
+    }
+  }
+
+  if (tags) {
+    const tagsEn = result.tags.en || [];
+    const otherLanguages = Object.keys(result.tags).filter((code) => code !== "en");
+    if (replace && tagsEn.length > 0) await storage.deleteTagsByVideoId(videoId);
+    for (const [i, tagEn] of tagsEn.entries()) {
+      if (!tagEn) continue;
+      const translations = [
+        { languageCode: "en", tagName: tagEn },
+        ...otherLanguages
+          .map((languageCode) => ({ languageCode, tagName: result.tags[languageCode]?.[i] }))
+          .filter((t): t is { languageCode: string; tagName: string } => Boolean(t.tagName)),
+      ];
+      await storage.createTag({ videoId }, translations);
+      tagCount++;
+    }
+  }
+
+  const video = await storage.updateVideo(videoId, {
+    categorizationPromptId: result.promptTemplateId,
+    ...(replace && categoryIds.length > 0 ? { primaryCategoryId: categoryIds[0] } : {}),
+  });
+  // Held videos are announced with video.created once they go live
+  if (video && !video.hiddenAt) {
+    await emitWebhookEvent("video.categorized", {
+      video: videoPayload(video),
+      categoryIds,
+      tags: tags ? (result.tags.en || []).filter(Boolean) : [],
+    });
+  }
+  return { categoryIds, tagCount };
+}
@@ -0,0 +1,20 @@
+import { storage } from "../storage/index.js";
+import { notifyAdmins } from "./mailer.js";
+import { emitWebhookEvent, recommendationPayload } from "./webhooks.js";
+import type { ChannelRecommendation, InsertChannelRecommendation } from "../../shared/schema.js";
+
+/**
+ * Files a channel recommendation and tells admins about it by email and the
+ * recommendation.submitted webhook, whether it came from the site form or
+ * from inbound mail.
+ */
+export async function submitChannelRecommendation(data: InsertChannelRecommendation): Promise<ChannelRecommendation> {
+  const created = await storage.createChannelRecommendation(data);
+  await notifyAdmins("channel_recommendation", {
+    url: created.url,
+    platform: created.platform,
+    description: created.description,
+  });
+  await emitWebhookEvent("recommendation.submitted", { recommendation: recommendationPayload(created) });
+  return created;
+}
@@ -1,11 +1,15 @@
 import { storage } from "../storage/index.js";
-import { scrapeYouTubeChannel } from "../youtube-scraper.js";
+import { collectChannelVideos, getPlatformAdapter } from "../platforms/index.js";
 import { categorizeVideo } from "../ai-service.js";
+import { AiBudgetExceededError } from "../errors/custom-errors.js";
+import { applyCategorization } from "./categorization.js";
+import { getTranscriptExcerpt, ingestVideoTranscripts } from "./transcripts.js";
 import { db } from "../db.js";
 import { videos } from "../../shared/schema.js";
 import { eq } from "drizzle-orm";
 import { kvStorage } from "../storage/kv.js";
 import { generateSlug } from "../utils.js";
+import { moderateNewVideos, moderationHold, publishVideos } from "./moderation.js";
 
 export async function syncChannel(channelId: string) {
     const channel = await storage.getChannel(channelId);
@@ -13,12 +17,18 @@ export async function syncChannel(channelId: string) {
 
     console.log(`[Sync] Starting sync for channel: ${channel.name} (${channel.url})`);
 
-    const { channelInfo, videos: scrapedVideos } = await scrapeYouTubeChannel(
-      channel.url,
-    );
+    if (!getPlatformAdapter(channel.platform)?.listsChannels) {
+      console.log(`[Sync] Skipping ${channel.name}: ${channel.platform} channels can't be scraped`);
+      return { scraped: 0, saved: 0 };
+    }
+
+    const existingVideoIds = new Set(await storage.getVideoIdsByChannel(channel.id));
+    const { channelInfo = {}, videos: scrapedVideos } = await collectChannelVideos(channel, {
+      existingVideoIds,
+    });
 
-    const kvKey = `channel:youtube:about:${channel.id}`;
-    if (channelInfo.description || channelInfo.bannerUrl) {
+    if (channel.platform === "youtube" && (channelInfo.description || channelInfo.bannerUrl)) {
+      const kvKey = `channel:youtube:about:${channel.id}`;
       await kvStorage.set(
         kvKey,
         {
@@ -33,7 +43,7 @@ export async function syncChannel(channelId: string) {
       await storage.updateChannel(channel.id, {
         channelId: channelInfo.channelId || channel.channelId,
         thumbnailUrl: channelInfo.thumbnailUrl || channel.thumbnailUrl,
-        bannerUrl: channelInfo.bannerUrl, // Store banner URL
+        bannerUrl: channelInfo.bannerUrl || channel.bannerUrl, // Store banner URL
         lastScraped: new Date(),
       });
     }
@@ -70,6 +80,8 @@ export async function syncChannel(channelId: string) {
           viewCount: scrapedVideo.viewCount || null,
           publishDate: scrapedVideo.publishDate || null,
           videoType: scrapedVideo.videoType || "regular",
+          embedUrl: scrapedVideo.embedUrl || null,
+          ...moderationHold(channel),
         });
 
         newVideoIds.push(newVideo.id);
@@ -77,6 +89,8 @@ export async function syncChannel(channelId: string) {
       }
     }
 
+    await publishVideos(channel.id, await moderateNewVideos(newVideoIds, channel));
+
     if (newVideoIds.length > 0) {
         console.log(`[Sync] Auto-categorizing ${newVideoIds.length} new videos for ${channel.name}...`);
         
@@ -86,65 +100,25 @@ export async function syncChannel(channelId: string) {
             const video = await storage.getVideo(videoId);
             if (!video) continue;
 
+            try {
+              await ingestVideoTranscripts(video);
+            } catch (error) {
+              console.warn(`[Sync] No transcript for ${video.title}: ${(error as Error).message}`);
+            }
+
             const result = await categorizeVideo(
             video.title,
             video.description || "",
-            { timeoutMs: 20000 },
+            { timeoutMs: 20000, transcript: await getTranscriptExcerpt(video.id) },
             );
 
-            const categoriesEn = result.categories.en || [];
-            const categoriesSr = result.categories.sr || [];
-            const maxCategories = Math.max(categoriesEn.length, categoriesSr.length);
-
-            for (let i = 0; i < maxCategories; i++) {
-                const nameEn = categoriesEn[i];
-                const nameSr = categoriesSr[i];
-                
-                if (!nameEn) continue;
-
-                const categorySlug = nameEn.toLowerCase().replace(/[^a-z0-9]+/g, "-");
-                
-                let category = await storage.getLocalizedCategoryBySlug(categorySlug, 'en');
-
-                if (!category) {
-                    const translations: { languageCode: string; name: string; slug: string; description: string | null }[] = [];
-                    translations.push({
-                        languageCode: 'en',
-                        name: nameEn,
-                        slug: categorySlug,
-                        description: null
-                    });
-
-                    if (nameSr) {
-                        translations.push({
-                            languageCode: 'sr-Latn',
-                            name: nameSr,
-                            slug: categorySlug,
-                            description: null
-                        });
-                    }
-
-                    category = await storage.createCategory({}, translations);
-                } else if (nameSr) {
-                    try {
-                        await storage.addCategoryTranslation(category.id, {
-                            categoryId: category.id,
-                            languageCode: 'sr-Latn',
-                            name: nameSr,
-                            slug: categorySlug,
-                            description: null
-                        }).catch(() => {});
-                    } catch (e) {
-                        // Ignore
-                    }
-                }
-
-                await storage.addVideoCategory(video.id, category.id);
-            }
-            
-            // Handle tags similarly... (Simplified for now to save space, but ideally should be included)
+            await applyCategorization(video.id, result);
             console.log(`[Sync] Categorized: ${video.title}`);
         } catch (error) {
+            if (error instanceof AiBudgetExceededError) {
+              console.warn(`[Sync] ${error.message}; leaving the rest uncategorized`);
+              break;
+            }
             console.error(`[Sync] Failed to categorize video ${videoId}:`, error);
         }
         }
@@ -0,0 +1,211 @@
+import { storage } from "../storage/index.js";
+import { logger } from "../lib/logger.js";
+import { generateVideoChapters, getAiConfig } from "../ai-service.js";
+import { AiBudgetExceededError } from "../errors/custom-errors.js";
+import { parseDurationText } from "../platforms/helpers.js";
+import { parseIsoDuration } from "../platforms/youtube-api.js";
+import { pickTranscript } from "./transcripts.js";
+import type { ChapterSource, InsertVideoChapter, TranscriptSegment, Video, VideoChapter } from "../../shared/schema.js";
+
+/** YouTube only shows description chapters when there are at least three. */
+const MIN_CHAPTERS = 3;
+const MAX_CHAPTERS = 50;
+const MAX_TITLE_LENGTH = 100;
+/** Shorter videos are not worth an AI call */
+export const AI_CHAPTER_MIN_SECONDS = 10 * 60;
+/** Transcript characters the AI gets, in timestamped lines */
+const AI_TRANSCRIPT_CHARS = 12000;
+/** Transcript segments are merged into lines of about this many seconds */
+const AI_LINE_SECONDS = 30;
+const BACKFILL_BATCH_SIZE = 50;
+
+export type ChapterSummary = {
+  checked: number;
+  /** Videos that ended up with chapters */
+  chaptered: number;
+  failed: number;
+};
+
+export type ChapterBackfillOptions = {
+  limit?: number;
+  onProgress?: (summary: ChapterSummary, total: number) => Promise<void> | void;
+};
+
+export type ChapterExtractionOptions = {
+  /** Segment with the AI when the description has no chapters; defaults to the AI setting */
+  ai?: boolean;
+};
+
+type Chapter = { startSeconds: number; title: string };
+
+// "1:02:03", "12:34" or "0:05", not inside a longer number or URL
+const TIMESTAMP = /(?<![\d:/])((?:\d{1,2}:)?\d{1,2}:\d{2})(?![\d:])/;
+
+function timestampSeconds(value: string): number {
+  return value.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+export function formatTimestamp(totalSeconds: number): string {
+  const seconds = Math.floor(totalSeconds);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = String(seconds % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+}
+
+export function videoDurationSeconds(duration: string | null | undefined): number | undefined {
+  if (!duration) return undefined;
+  return parseIsoDuration(duration) ?? parseDurationText(duration);
+}
+
+/**
+ * Drops chapters that start out of order or past the end, and keeps the
+ * list only when it follows YouTube's rules: starting at 0:00 with at least
+ * three chapters.
+ */
+export function normalizeChapters(chapters: Chapter[], durationSeconds?: number): Chapter[] {
+  const kept: Chapter[] = [];
+  for (const chapter of chapters) {
+    const title = chapter.title.trim().slice(0, MAX_TITLE_LENGTH);
+    const startSeconds = Math.floor(chapter.startSeconds);
+    if (!title || !Number.isFinite(startSeconds)) continue;
+    if (durationSeconds && startSeconds >= durationSeconds) continue;
+    if (kept.length > 0 && startSeconds <= kept[kept.length - 1].startSeconds) continue;
+    kept.push({ startSeconds, title });
+  }
+  if (kept.length < MIN_CHAPTERS || kept[0].startSeconds !== 0) return [];
+  return kept.slice(0, MAX_CHAPTERS);
+}
+
+/**
+ * Chapters from the timestamps an uploader put in the description, one per
+ * line: "0:00 Intro", "(12:34) - Main part" or "Outro 1:02:03".
+ */
+export function parseDescriptionChapters(description: string | null | undefined, durationSeconds?: number): Chapter[] {
+  const chapters: Chapter[] = [];
+  for (const line of (description || "").split(/\r?\n/)) {
+    const match = line.match(TIMESTAMP);
+    if (!match || match.index === undefined) continue;
+    const before = line.slice(0, match.index);
+    const after = line.slice(match.index + match[0].length);
+    const title = (after.trim() ? after : before)
+      .replace(/^[\s\-–—:|•.)\]]+/, "")
+      .replace(/[\s\-–—:|•([]+$/, "")
+      .trim();
+    chapters.push({ startSeconds: timestampSeconds(match[1]), title });
+  }
+  return normalizeChapters(chapters, durationSeconds);
+}
+
+/** The transcript as "[m:ss] text" lines of about 30 seconds each, cut to fit a prompt. */
+export function timestampedTranscript(segments: TranscriptSegment[]): string {
+  const lines: string[] = [];
+  let start = -1;
+  let texts: string[] = [];
+  const flush = () => {
+    if (texts.length > 0) lines.push(`[${formatTimestamp(start)}] ${texts.join(" ")}`);
+  };
+  for (const segment of segments) {
+    if (start < 0 || segment.start - start >= AI_LINE_SECONDS) {
+      flush();
+      start = segment.start;
+      texts = [];
+    }
+    texts.push(segment.text);
+  }
+  flush();
+
+  let length = 0;
+  const kept: string[] = [];
+  for (const line of lines) {
+    length += line.length + 1;
+    if (length > AI_TRANSCRIPT_CHARS) break;
+    kept.push(line);
+  }
+  return kept.join("\n");
+}
+
+/**
+ * Stores the video's chapters: the description's timestamps when it has
+ * them, otherwise AI segments of the transcript for long videos. An AI
+ * failure leaves the video without chapters but marked as checked; a used-up
+ * budget is thrown so nothing is marked.
+ */
+export async function extractVideoChapters(
+  video: Pick<Video, "id" | "title" | "description" | "duration">,
+  options: ChapterExtractionOptions = {},
+): Promise<VideoChapter[]> {
+  const duration = videoDurationSeconds(video.duration);
+  let chapters = parseDescriptionChapters(video.description, duration);
+  let source: ChapterSource = "description";
+
+  if (chapters.length === 0 && duration && duration >= AI_CHAPTER_MIN_SECONDS) {
+    const useAi = options.ai ?? (await getAiConfig()).aiChapters;
+    const transcript = useAi ? pickTranscript(await storage.getVideoTranscripts(video.id)) : undefined;
+    if (transcript) {
+      try {
+        const generated = await generateVideoChapters(video.title, timestampedTranscript(transcript.segments), duration, {
+          timeoutMs: 60000,
+        });
+        chapters = normalizeChapters(
+          generated.map((chapter) => ({ startSeconds: chapter.start, title: chapter.title })),
+          duration,
+        );
+        source = "ai";
+      } catch (error) {
+        if (error instanceof AiBudgetExceededError) throw error;
+        logger.warn(`[chapters] AI segmentation of ${video.id} failed: ${(error as Error).message}`);
+      }
+    }
+  }
+
+  const rows: InsertVideoChapter[] = chapters.map((chapter) => ({ ...chapter, videoId: video.id, source }));
+  const saved = await storage.replaceVideoChapters(video.id, rows);
+  await storage.updateVideo(video.id, { chaptersCheckedAt: new Date() });
+  return saved;
+}
+
+/**
+ * schema.org Clips for the chapters, which search engines show as key
+ * moments. Each links to the page at its start (`?t=` seeks the player).
+ */
+export function chapterClips(chapters: Pick<VideoChapter, "startSeconds" | "title">[], pageUrl: string, durationSeconds?: number) {
+  return chapters.map((chapter, index) => {
+    const endOffset = chapters[index + 1]?.startSeconds ?? durationSeconds;
+    return {
+      "@type": "Clip",
+      "name": chapter.title,
+      "startOffset": chapter.startSeconds,
+      ...(endOffset !== undefined && { "endOffset": endOffset }),
+      "url": `${pageUrl}?t=${chapter.startSeconds}`,
+    };
+  });
+}
+
+/** Extracts chapters of new videos and of videos whose transcripts arrived since they were last checked. */
+export async function backfillChapters(options: ChapterBackfillOptions = {}): Promise<ChapterSummary> {
+  const due = await storage.getVideosDueForChapters(options.limit ?? BACKFILL_BATCH_SIZE);
+  const summary: ChapterSummary = { checked: 0, chaptered: 0, failed: 0 };
+
+  for (const video of due) {
+    summary.checked++;
+    try {
+      const saved = await extractVideoChapters(video);
+      if (saved.length > 0) summary.chaptered++;
+    } catch (error) {
+      summary.failed++;
+      if (error instanceof AiBudgetExceededError) {
+        logger.warn(`[chapters] ${error.message}; stopping`);
+        await options.onProgress?.(summary, due.length);
+        break;
+      }
+      logger.warn(`[chapters] Could not extract chapters of ${video.id}: ${(error as Error).message}`);
+    }
+    await options.onProgress?.(summary, due.length);
+  }
+
+  if (summary.checked > 0) {
+    logger.info(`[chapters] Checked ${summary.checked} videos: ${summary.chaptered} with chapters, ${summary.failed} failed`);
+  }
+  return summary;
+}
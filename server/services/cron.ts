@@ -3,16 +3,91 @@ import { storage } from "../storage/index.js";
 import { syncChannel } from "./channel-sync.js";
 import { submitSitemap } from "./indexnow.js";
 import { setCache } from "./redis.js";
+import { processEmailOutbox, registerEmailAlerts } from "./mailer.js";
+import { processWebhookDeliveries, registerWebhookEvents } from "./webhooks.js";
+import { pollImapInbox } from "./inbox-poller.js";
+import { jobQueue } from "./job-queue.js";
+import { syncSeoAbTests } from "./seo-ab-tests.js";
+import { WEBSUB_POLL_FALLBACK_HOURS, getPushActiveChannelIds, renewWebSubSubscriptions } from "./websub.js";
 
 export function startCronJobs() {
   console.log("[Cron] Starting cron jobs...");
 
-  // Sync channels every 2 hours (at minute 0)
+  registerEmailAlerts();
+  registerWebhookEvents();
+
+  // Drain the email outbox every minute (retries are scheduled via next_attempt_at)
+  cron.schedule("* * * * *", async () => {
+    try {
+      const { sent, retried, failed } = await processEmailOutbox();
+      if (sent + retried + failed > 0) {
+        console.log(`[Cron] Email outbox: ${sent} sent, ${retried} retrying, ${failed} failed.`);
+      }
+    } catch (error) {
+      console.error("[Cron] Email outbox error:", error);
+    }
+  });
+
+  // Send due webhook deliveries every minute (retries are scheduled via next_attempt_at)
+  cron.schedule("* * * * *", async () => {
+    try {
+      const { delivered, retried, dead } = await processWebhookDeliveries();
+      if (delivered + retried + dead > 0) {
+        console.log(`[Cron] Webhooks: ${delivered} delivered, ${retried} retrying, ${dead} dead.`);
+      }
+    } catch (error) {
+      console.error("[Cron] Webhook delivery error:", error);
+    }
+  });
+
+  // Pull new mail into the admin inbox every 5 minutes (no-op until IMAP is configured)
+  cron.schedule("*/5 * * * *", async () => {
+    try {
+      const { skipped, stored, recommendations } = await pollImapInbox();
+      if (!skipped && stored > 0) {
+        console.log(`[Cron] IMAP inbox: ${stored} new messages, ${recommendations} channel recommendations.`);
+      }
+    } catch (error) {
+      console.error("[Cron] IMAP poll error:", error);
+    }
+  });
+
+  // Refresh SEO A/B test results and start/complete tests on their dates every 5 minutes
+  cron.schedule("*/5 * * * *", async () => {
+    try {
+      const { started, completed } = await syncSeoAbTests();
+      if (started + completed > 0) {
+        console.log(`[Cron] SEO A/B tests: ${started} started, ${completed} completed.`);
+      }
+    } catch (error) {
+      console.error("[Cron] SEO A/B test sync error:", error);
+    }
+  });
+
+  // Subscribe new YouTube channels to WebSub and renew expiring leases hourly
+  cron.schedule("15 * * * *", async () => {
+    try {
+      const { skipped, requested, failed } = await renewWebSubSubscriptions();
+      if (!skipped && requested > 0) {
+        console.log(`[Cron] WebSub: ${requested} subscription requests sent, ${failed} failed.`);
+      }
+    } catch (error) {
+      console.error("[Cron] WebSub renewal error:", error);
+    }
+  });
+
+  // Sync channels every 2 hours (at minute 0). Channels receiving push
+  // notifications are only polled as a daily safety net.
   cron.schedule("0 */2 * * *", async () => {
     console.log("[Cron] Starting scheduled channel sync...");
     try {
-      const channels = await storage.getAllChannels();
-      console.log(`[Cron] Found ${channels.length} channels to sync.`);
+      const pushChannelIds = await getPushActiveChannelIds();
+      const fallbackCutoff = Date.now() - WEBSUB_POLL_FALLBACK_HOURS * 60 * 60 * 1000;
+      const channels = (await storage.getAllChannels()).filter((channel) => {
+        if (!pushChannelIds.has(channel.id)) return true;
+        return !channel.lastScraped || new Date(channel.lastScraped).getTime() < fallbackCutoff;
+      });
+      console.log(`[Cron] Found ${channels.length} channels to sync (${pushChannelIds.size} on push).`);
 
       // Sync one by one to avoid rate limits
       for (const channel of channels) {
@@ -30,6 +105,66 @@ export function startCronJobs() {
     }
   });
 
+  // Refresh metadata and view counts of already-ingested videos hourly
+  cron.schedule("30 * * * *", async () => {
+    try {
+      if (await jobQueue.hasActiveJob("video_refresh")) return;
+      await jobQueue.createJob("video_refresh");
+    } catch (error) {
+      console.error("[Cron] Video refresh scheduling error:", error);
+    }
+  });
+
+  // Probe embeds every 6 hours; each run takes the videos checked longest ago
+  cron.schedule("45 */6 * * *", async () => {
+    try {
+      if (await jobQueue.hasActiveJob("availability_check")) return;
+      await jobQueue.createJob("availability_check");
+    } catch (error) {
+      console.error("[Cron] Availability check scheduling error:", error);
+    }
+  });
+
+  // Embed newly ingested videos hourly
+  cron.schedule("50 * * * *", async () => {
+    try {
+      if (await jobQueue.hasActiveJob("embedding_backfill")) return;
+      await jobQueue.createJob("embedding_backfill");
+    } catch (error) {
+      console.error("[Cron] Embedding backfill scheduling error:", error);
+    }
+  });
+
+  // Fetch transcripts of newly ingested YouTube videos hourly
+  cron.schedule("40 * * * *", async () => {
+    try {
+      if (await jobQueue.hasActiveJob("transcript_backfill")) return;
+      await jobQueue.createJob("transcript_backfill");
+    } catch (error) {
+      console.error("[Cron] Transcript backfill scheduling error:", error);
+    }
+  });
+
+  // Extract chapters of new videos, and again once their transcripts arrive
+  cron.schedule("55 * * * *", async () => {
+    try {
+      if (await jobQueue.hasActiveJob("chapter_backfill")) return;
+      await jobQueue.createJob("chapter_backfill");
+    } catch (error) {
+      console.error("[Cron] Chapter backfill scheduling error:", error);
+    }
+  });
+
+  // Finish moderation checks of new videos the AI couldn't classify at ingestion
+  cron.schedule("25 * * * *", async () => {
+    try {
+      if (await jobQueue.hasActiveJob("moderation_check")) return;
+      await jobQueue.createJob("moderation_check");
+    } catch (error) {
+      console.error("[Cron] Moderation check scheduling error:", error);
+    }
+  });
+
   // Ping search engines with sitemap daily at 3:00 AM
   cron.schedule("0 3 * * *", async () => {
     console.log("[Cron] Pinging search engines with sitemap...");
@@ -0,0 +1,258 @@
+import type { EmailLocale, EmailTemplate } from "../../shared/schema.js";
+
+export type RenderedEmail = { subject: string; text: string; html: string };
+
+export type EmailTemplateData = {
+  test: { sentBy?: string | null };
+  channel_recommendation: { url: string; platform: string; description?: string | null };
+  suggestion_submitted: { type: string; subject: string; message: string; email?: string | null };
+  scrape_job_failed: { jobId: string; jobType: string; error: string };
+  error_threshold: { type: string; message: string; module?: string | null; count: number; fingerprint: string };
+  password_reset: { username: string; token: string; expiresInMinutes: number };
+  email_verification: { username: string; token: string };
+  email_changed: { username: string; newEmail: string };
+};
+
+type Block = { label: string; value: string | null | undefined } | { paragraph: string };
+
+type TemplateCopy<K extends EmailTemplate> = (data: EmailTemplateData[K]) => {
+  subject: string;
+  heading: string;
+  blocks: Block[];
+  action?: { label: string; path: string };
+};
+
+const baseUrl = () => process.env.PUBLIC_BASE_URL || "https://nisam.video";
+
+const SUGGESTION_TYPES: Record<EmailLocale, Record<string, string>> = {
+  en: { feature: "Feature request", bug: "Bug report", channel: "Channel suggestion", contact: "Contact" },
+  "sr-Latn": { feature: "Predlog funkcije", bug: "Prijava greške", channel: "Predlog kanala", contact: "Kontakt" },
+};
+
+const templates: { [K in EmailTemplate]: Record<EmailLocale, TemplateCopy<K>> } = {
+  test: {
+    en: (d) => ({
+      subject: "Test email from nisam.video",
+      heading: "SMTP is configured correctly",
+      blocks: [
+        { paragraph: "This is a test message sent from the admin email settings." },
+        { label: "Requested by", value: d.sentBy },
+      ],
+    }),
+    "sr-Latn": (d) => ({
+      subject: "Probna poruka sa nisam.video",
+      heading: "SMTP je ispravno podešen",
+      blocks: [
+        { paragraph: "Ovo je probna poruka poslata iz podešavanja e-pošte u administraciji." },
+        { label: "Zatražio", value: d.sentBy },
+      ],
+    }),
+  },
+  channel_recommendation: {
+    en: (d) => ({
+      subject: `New channel recommendation: ${d.url}`,
+      heading: "A visitor recommended a channel",
+      blocks: [
+        { label: "URL", value: d.url },
+        { label: "Platform", value: d.platform },
+        { label: "Note", value: d.description },
+      ],
+      action: { label: "Review in inbox", path: "/admin/inbox" },
+    }),
+    "sr-Latn": (d) => ({
+      subject: `Nova preporuka kanala: ${d.url}`,
+      heading: "Posetilac je preporučio kanal",
+      blocks: [
+        { label: "URL", value: d.url },
+        { label: "Platforma", value: d.platform },
+        { label: "Napomena", value: d.description },
+      ],
+      action: { label: "Pregledaj u prijemnom sandučetu", path: "/admin/inbox" },
+    }),
+  },
+  suggestion_submitted: {
+    en: (d) => ({
+      subject: `[${SUGGESTION_TYPES.en[d.type] || d.type}] ${d.subject}`,
+      heading: "New suggestion received",
+      blocks: [
+        { label: "Type", value: SUGGESTION_TYPES.en[d.type] || d.type },
+        { label: "From", value: d.email || "anonymous" },
+        { label: "Subject", value: d.subject },
+        { paragraph: d.message },
+      ],
+      action: { label: "Open inbox", path: "/admin/inbox" },
+    }),
+    "sr-Latn": (d) => ({
+      subject: `[${SUGGESTION_TYPES["sr-Latn"][d.type] || d.type}] ${d.subject}`,
+      heading: "Primljen je novi predlog",
+      blocks: [
+        { label: "Tip", value: SUGGESTION_TYPES["sr-Latn"][d.type] || d.type },
+        { label: "Od", value: d.email || "anonimno" },
+        { label: "Naslov", value: d.subject },
+        { paragraph: d.message },
+      ],
+      action: { label: "Otvori prijemno sanduče", path: "/admin/inbox" },
+    }),
+  },
+  scrape_job_failed: {
+    en: (d) => ({
+      subject: `Scrape job failed (${d.jobType})`,
+      heading: "A scrape job failed",
+      blocks: [
+        { label: "Job", value: d.jobId },
+        { label: "Type", value: d.jobType },
+        { label: "Error", value: d.error },
+      ],
+      action: { label: "Open dashboard", path: "/admin/dashboard" },
+    }),
+    "sr-Latn": (d) => ({
+      subject: `Posao preuzimanja nije uspeo (${d.jobType})`,
+      heading: "Posao preuzimanja nije uspeo",
+      blocks: [
+        { label: "Posao", value: d.jobId },
+        { label: "Tip", value: d.jobType },
+        { label: "Greška", value: d.error },
+      ],
+      action: { label: "Otvori kontrolnu tablu", path: "/admin/dashboard" },
+    }),
+  },
+  error_threshold: {
+    en: (d) => ({
+      subject: `Error seen ${d.count} times: ${d.type}`,
+      heading: "An error crossed the alert threshold",
+      blocks: [
+        { label: "Type", value: d.type },
+        { label: "Module", value: d.module },
+        { label: "Occurrences", value: String(d.count) },
+        { label: "Fingerprint", value: d.fingerprint },
+        { label: "Message", value: d.message },
+      ],
+      action: { label: "Open error logs", path: "/admin/logs" },
+    }),
+    "sr-Latn": (d) => ({
+      subject: `Greška se pojavila ${d.count} puta: ${d.type}`,
+      heading: "Greška je prešla prag upozorenja",
+      blocks: [
+        { label: "Tip", value: d.type },
+        { label: "Modul", value: d.module },
+        { label: "Broj pojavljivanja", value: String(d.count) },
+        { label: "Otisak", value: d.fingerprint },
+        { label: "Poruka", value: d.message },
+      ],
+      action: { label: "Otvori dnevnik grešaka", path: "/admin/logs" },
+    }),
+  },
+  password_reset: {
+    en: (d) => ({
+      subject: "Reset your nisam.video password",
+      heading: "Reset your password",
+      blocks: [
+        { paragraph: `Someone asked to reset the password for ${d.username}. If it was you, choose a new password with the link below. It expires in ${d.expiresInMinutes} minutes and works once.` },
+        { paragraph: "If you didn't ask for this, you can ignore this email; your password stays the same." },
+      ],
+      action: { label: "Choose a new password", path: `/login?reset=${encodeURIComponent(d.token)}` },
+    }),
+    "sr-Latn": (d) => ({
+      subject: "Promena lozinke na nisam.video",
+      heading: "Promenite lozinku",
+      blocks: [
+        { paragraph: `Zatražena je promena lozinke za nalog ${d.username}. Ako ste to bili vi, izaberite novu lozinku preko linka ispod. Link ističe za ${d.expiresInMinutes} minuta i radi jednom.` },
+        { paragraph: "Ako niste vi zatražili promenu, zanemarite ovu poruku; lozinka ostaje ista." },
+      ],
+      action: { label: "Izaberite novu lozinku", path: `/login?reset=${encodeURIComponent(d.token)}` },
+    }),
+  },
+  email_verification: {
+    en: (d) => ({
+      subject: "Confirm your email for nisam.video",
+      heading: "Confirm your email address",
+      blocks: [
+        { paragraph: `Confirm that this address belongs to ${d.username} so you can recover the account if you forget your password.` },
+      ],
+      action: { label: "Confirm email", path: `/login?verify=${encodeURIComponent(d.token)}` },
+    }),
+    "sr-Latn": (d) => ({
+      subject: "Potvrdite e-adresu za nisam.video",
+      heading: "Potvrdite e-adresu",
+      blocks: [
+        { paragraph: `Potvrdite da ova adresa pripada nalogu ${d.username} kako biste mogli da povratite nalog ako zaboravite lozinku.` },
+      ],
+      action: { label: "Potvrdi e-adresu", path: `/login?verify=${encodeURIComponent(d.token)}` },
+    }),
+  },
+  email_changed: {
+    en: (d) => ({
+      subject: "Your nisam.video email was changed",
+      heading: "Your email address was changed",
+      blocks: [
+        { paragraph: `The email address of ${d.username} was changed. Password reset links now go to the new address.` },
+        { label: "New address", value: d.newEmail },
+        { paragraph: "If you didn't make this change, reply to this email right away so we can secure the account." },
+      ],
+    }),
+    "sr-Latn": (d) => ({
+      subject: "E-adresa na nisam.video je promenjena",
+      heading: "E-adresa je promenjena",
+      blocks: [
+        { paragraph: `E-adresa naloga ${d.username} je promenjena. Linkovi za promenu lozinke sada stižu na novu adresu.` },
+        { label: "Nova adresa", value: d.newEmail },
+        { paragraph: "Ako vi niste napravili ovu promenu, odmah odgovorite na ovu poruku kako bismo zaštitili nalog." },
+      ],
+    }),
+  },
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+/**
+ * Renders a template in the requested locale. Every interpolated value is
+ * user-supplied (suggestions, recommendation notes), so the HTML part escapes
+ * everything and the subject is kept on a single line.
+ */
+export function renderEmailTemplate<K extends EmailTemplate>(
+  template: K,
+  locale: EmailLocale,
+  data: EmailTemplateData[K],
+): RenderedEmail {
+  const copy = (templates[template][locale] || templates[template].en)(data);
+  const blocks = copy.blocks.filter((b) => ("paragraph" in b ? b.paragraph : b.value));
+  const actionUrl = copy.action ? `${baseUrl()}${copy.action.path}` : null;
+
+  const text = [
+    copy.heading,
+    "",
+    ...blocks.map((b) => ("paragraph" in b ? `\n${b.paragraph}\n` : `${b.label}: ${b.value}`)),
+    ...(copy.action && actionUrl ? ["", `${copy.action.label}: ${actionUrl}`] : []),
+    "",
+    "— nisam.video",
+  ].join("\n");
+
+  const html = `<!doctype html>
+<html lang="${locale}">
+<body style="margin:0;padding:24px;background:#141414;font-family:Arial,Helvetica,sans-serif;color:#e5e5e5">
+  <div style="max-width:560px;margin:0 auto;background:#1f1f1f;border-radius:8px;padding:24px">
+    <h1 style="margin:0 0 16px;font-size:20px;color:#ffffff">${escapeHtml(copy.heading)}</h1>
+    ${blocks
+      .map((b) =>
+        "paragraph" in b
+          ? `<p style="margin:16px 0;white-space:pre-wrap;line-height:1.5">${escapeHtml(b.paragraph)}</p>`
+          : `<p style="margin:4px 0"><strong>${escapeHtml(b.label)}:</strong> ${escapeHtml(b.value || "")}</p>`,
+      )
+      .join("\n    ")}
+    ${copy.action && actionUrl
+      ? `<p style="margin:24px 0 0"><a href="${escapeHtml(actionUrl)}" style="background:#E50914;color:#ffffff;padding:10px 16px;border-radius:4px;text-decoration:none">${escapeHtml(copy.action.label)}</a></p>`
+      : ""}
+  </div>
+  <p style="text-align:center;font-size:12px;color:#808080">nisam.video</p>
+</body>
+</html>`;
+
+  return { subject: copy.subject.replace(/[\r\n]+/g, " ").slice(0, 250), text, html };
+}
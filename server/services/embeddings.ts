@@ -0,0 +1,333 @@
+import { createHash } from "crypto";
+import { storage } from "../storage/index.js";
+import { logger } from "../lib/logger.js";
+import { kvService } from "../kv-service.js";
+import { generateEmbeddings, getAiConfig } from "../ai-service.js";
+import { getAiBudgetStatus } from "./ai-usage.js";
+import { buildSnippet, highlightText, tokenizeSearchQuery } from "../search-text.js";
+import type {
+  SearchFacetBucket,
+  VideoSearchQuery,
+  VideoSearchResult,
+  VideoWithRelations,
+} from "../../shared/schema.js";
+
+// Ollama embeds one text per request, so batches stay small
+const EMBED_BATCH_SIZE = 16;
+const BACKFILL_PAGE_SIZE = 100;
+const MAX_DESCRIPTION_CHARS = 2000;
+// Requests embed at most one text; don't hold a page render on a slow provider
+const REQUEST_TIMEOUT_MS = 8000;
+// After a provider failure, requests skip embedding for a while instead of each waiting on it
+const PROVIDER_RETRY_MS = 5 * 60 * 1000;
+// Semantic search ranks this many nearest videos, then filters and paginates them
+const SEMANTIC_CANDIDATES = 200;
+// Search is public, so query embeddings are cached and each visitor may only
+// ask the provider for a few new ones a minute; cached queries don't count
+const QUERY_CACHE_SIZE = 1000;
+const QUERY_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+export const SEMANTIC_SEARCH_RATE_LIMIT = Number(process.env.SEMANTIC_SEARCH_RATE_LIMIT_PER_MINUTE) || 10;
+// Past this share of a daily or monthly AI budget, search stops embedding
+// queries so categorization and the other jobs keep what is left
+const SEARCH_BUDGET_SHARE = 0.8;
+
+let providerFailedAt = 0;
+
+type QueryEmbedding = { model: string; vector: number[]; expiresAt: number };
+
+// Map order doubles as recency: hits are moved to the end, the oldest entry is evicted first
+const queryEmbeddings = new Map<string, QueryEmbedding>();
+
+function providerRecentlyFailed(): boolean {
+  return Date.now() - providerFailedAt < PROVIDER_RETRY_MS;
+}
+
+export type EmbeddingSummary = {
+  checked: number;
+  embedded: number;
+  unchanged: number;
+  failed: number;
+  /** Set when the provider failed; the videos after that point weren't tried. */
+  error?: string;
+};
+
+export type EmbeddingBackfillOptions = {
+  /** Only videos without an embedding from the current model; otherwise changed text is re-embedded too. */
+  missingOnly?: boolean;
+  onProgress?: (summary: EmbeddingSummary, total: number) => Promise<void> | void;
+};
+
+/** Title, description and tags: the text a video is embedded from. */
+export function buildEmbeddingText(video: Pick<VideoWithRelations, "title" | "description" | "tags">): string {
+  const parts = [video.title.trim()];
+  const description = (video.description || "").trim().slice(0, MAX_DESCRIPTION_CHARS);
+  if (description) parts.push(description);
+  const tagNames = Array.from(new Set((video.tags || []).map((tag) => tag.tagName).filter(Boolean)));
+  if (tagNames.length > 0) parts.push(`Tags: ${tagNames.join(", ")}`);
+  return parts.join("\n\n");
+}
+
+function hashText(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+export async function getEmbeddingModel(): Promise<string> {
+  return (await getAiConfig()).embeddingModel;
+}
+
+/**
+ * Embeds the given videos whose text changed since they were last embedded
+ * with `model`. The first provider error ends the run, so a provider that is
+ * down isn't asked again for every remaining batch.
+ */
+export async function embedVideos(videoIds: string[], model: string, opts?: { timeoutMs?: number }): Promise<EmbeddingSummary> {
+  const summary: EmbeddingSummary = { checked: 0, embedded: 0, unchanged: 0, failed: 0 };
+  const [videos, existing] = await Promise.all([
+    storage.getVideosWithRelationsByIds(videoIds, "en"),
+    storage.getVideoEmbeddings(videoIds),
+  ]);
+  const stored = new Map(existing.map((e) => [e.videoId, e]));
+
+  const pending: { videoId: string; text: string; contentHash: string }[] = [];
+  for (const video of videos) {
+    summary.checked++;
+    const text = buildEmbeddingText(video);
+    const contentHash = hashText(text);
+    const current = stored.get(video.id);
+    if (current && current.model === model && current.contentHash === contentHash) {
+      summary.unchanged++;
+      continue;
+    }
+    pending.push({ videoId: video.id, text, contentHash });
+  }
+
+  for (let i = 0; i < pending.length; i += EMBED_BATCH_SIZE) {
+    const batch = pending.slice(i, i + EMBED_BATCH_SIZE);
+    let result;
+    try {
+      result = await generateEmbeddings(batch.map((item) => item.text), opts);
+    } catch (error) {
+      summary.failed += pending.length - i;
+      summary.error = error instanceof Error ? error.message : String(error);
+      break;
+    }
+
+    for (const [index, item] of batch.entries()) {
+      const embedding = result.embeddings[index];
+      if (!embedding?.length || result.model !== model) {
+        summary.failed++;
+        continue;
+      }
+      try {
+        await storage.upsertVideoEmbedding({
+          videoId: item.videoId,
+          model,
+          dimensions: embedding.length,
+          contentHash: item.contentHash,
+          embedding,
+        });
+        summary.embedded++;
+      } catch (error) {
+        summary.failed++;
+        logger.error(`[embeddings] Failed to save embedding for ${item.videoId}:`, error);
+      }
+    }
+  }
+  return summary;
+}
+
+/**
+ * Walks every visible video in id order and embeds the ones that need it.
+ * Stops at the first provider error; the next run picks up where it left off.
+ */
+export async function backfillVideoEmbeddings(options: EmbeddingBackfillOptions = {}): Promise<EmbeddingSummary> {
+  const missingOnly = options.missingOnly ?? true;
+  const model = await getEmbeddingModel();
+  const stats = await storage.getVideoEmbeddingStats(model);
+  const total = missingOnly ? stats.total - stats.embedded : stats.total;
+  const summary: EmbeddingSummary = { checked: 0, embedded: 0, unchanged: 0, failed: 0 };
+
+  let afterId: string | undefined;
+  while (true) {
+    const ids = await storage.getVideoIdsForEmbedding(model, { missingOnly, afterId, limit: BACKFILL_PAGE_SIZE });
+    if (ids.length === 0) break;
+    afterId = ids[ids.length - 1];
+
+    const page = await embedVideos(ids, model);
+    summary.checked += page.checked;
+    summary.embedded += page.embedded;
+    summary.unchanged += page.unchanged;
+    summary.failed += page.failed;
+    await options.onProgress?.(summary, total);
+    if (page.error) {
+      summary.error = page.error;
+      logger.warn(`[embeddings] Backfill stopped: ${page.error}`);
+      break;
+    }
+  }
+
+  logger.info(
+    `[embeddings] Backfill with ${model}: ${summary.embedded} embedded, ${summary.unchanged} unchanged, ${summary.failed} failed`,
+  );
+  return summary;
+}
+
+/**
+ * Ids of the videos nearest to this one, most similar first. A video without
+ * an embedding is embedded on the spot; null means embeddings are unavailable
+ * and the caller should use its own ranking.
+ */
+export async function findSimilarVideoIds(videoId: string, limit: number): Promise<string[] | null> {
+  try {
+    const model = await getEmbeddingModel();
+    let [own] = await storage.getVideoEmbeddings([videoId]);
+    if (!own || own.model !== model) {
+      if (providerRecentlyFailed()) return null;
+      const { error } = await embedVideos([videoId], model, { timeoutMs: REQUEST_TIMEOUT_MS });
+      if (error) {
+        providerFailedAt = Date.now();
+        throw new Error(error);
+      }
+      [own] = await storage.getVideoEmbeddings([videoId]);
+      if (!own || own.model !== model) return null;
+    }
+    const nearest = await storage.findNearestVideoEmbeddings(own.embedding, model, { limit, excludeIds: [videoId] });
+    return nearest.length > 0 ? nearest.map((n) => n.videoId) : null;
+  } catch (error) {
+    logger.warn(`[embeddings] Similar videos for ${videoId} unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+}
+
+/** Case and spacing don't change what a search means, so they share a cache entry. */
+export function normalizeSearchQuery(q: string): string {
+  return q.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+export function clearQueryEmbeddingCache(): void {
+  queryEmbeddings.clear();
+}
+
+async function searchBudgetNearlySpent(): Promise<boolean> {
+  const config = await getAiConfig();
+  const dailyBudgetUsd = config.dailyBudgetUsd ?? null;
+  const monthlyBudgetUsd = config.monthlyBudgetUsd ?? null;
+  if (dailyBudgetUsd === null && monthlyBudgetUsd === null) return false;
+  const status = await getAiBudgetStatus({ dailyBudgetUsd, monthlyBudgetUsd });
+  return (
+    (dailyBudgetUsd !== null && status.spentTodayUsd >= dailyBudgetUsd * SEARCH_BUDGET_SHARE) ||
+    (monthlyBudgetUsd !== null && status.spentMonthUsd >= monthlyBudgetUsd * SEARCH_BUDGET_SHARE)
+  );
+}
+
+/**
+ * The query's embedding from the cache or, within the visitor's rate limit
+ * and the search share of the AI budget, from the provider. Null sends the
+ * search to keyword mode.
+ */
+async function embedSearchQuery(q: string, clientId?: string): Promise<Omit<QueryEmbedding, "expiresAt"> | null> {
+  const text = normalizeSearchQuery(q);
+  const key = `${await getEmbeddingModel()}\n${text}`;
+  const cached = queryEmbeddings.get(key);
+  if (cached && cached.expiresAt > Date.now()) {
+    queryEmbeddings.delete(key);
+    queryEmbeddings.set(key, cached);
+    return cached;
+  }
+  queryEmbeddings.delete(key);
+
+  if (providerRecentlyFailed()) return null;
+  if (clientId && !(await kvService.checkRateLimit(clientId, "semantic_search", { max: SEMANTIC_SEARCH_RATE_LIMIT, windowMs: 60_000 }))) {
+    return null;
+  }
+  if (await searchBudgetNearlySpent()) return null;
+
+  let model: string;
+  let vector: number[] | undefined;
+  try {
+    const result = await generateEmbeddings([text], { timeoutMs: REQUEST_TIMEOUT_MS });
+    model = result.model;
+    vector = result.embeddings[0];
+  } catch (error) {
+    providerFailedAt = Date.now();
+    logger.warn(`[embeddings] Semantic search unavailable: ${error instanceof Error ? error.message : String(error)}`);
+    return null;
+  }
+  if (!vector?.length) return null;
+
+  queryEmbeddings.set(key, { model, vector, expiresAt: Date.now() + QUERY_CACHE_TTL_MS });
+  if (queryEmbeddings.size > QUERY_CACHE_SIZE) {
+    queryEmbeddings.delete(queryEmbeddings.keys().next().value!);
+  }
+  return { model, vector };
+}
+
+/**
+ * Ranks videos by similarity between the query and each video's embedding.
+ * Filters and facets work as in keyword search, over the nearest candidates.
+ * Returns null when the query can't be embedded, the visitor (`clientId`)
+ * ran into the rate limit or the AI budget is nearly spent.
+ */
+export async function semanticSearchVideos(
+  query: VideoSearchQuery,
+  opts: { clientId?: string } = {},
+): Promise<VideoSearchResult | null> {
+  const embedded = await embedSearchQuery(query.q, opts.clientId);
+  if (!embedded) return null;
+  const { model, vector } = embedded;
+
+  const nearest = await storage.findNearestVideoEmbeddings(vector, model, { limit: SEMANTIC_CANDIDATES });
+  const similarity = new Map(nearest.map((n) => [n.videoId, n.similarity]));
+  const candidates = await storage.getVideosWithRelationsByIds(nearest.map((n) => n.videoId), query.lang);
+
+  type FacetKey = "platform" | "videoType" | "categoryId" | "channelId";
+  const passes = (video: VideoWithRelations, exclude?: FacetKey) =>
+    (!query.platform || exclude === "platform" || (video.channel?.platform || "youtube") === query.platform) &&
+    (!query.videoType || exclude === "videoType" || video.videoType === query.videoType) &&
+    (!query.channelId || exclude === "channelId" || video.channelId === query.channelId) &&
+    (!query.categoryId || exclude === "categoryId" || video.categories.some((c) => c.id === query.categoryId));
+
+  const countBy = (exclude: FacetKey, keysOf: (video: VideoWithRelations) => { value: string; label: string }[]) => {
+    const buckets = new Map<string, SearchFacetBucket>();
+    for (const video of candidates) {
+      if (!passes(video, exclude)) continue;
+      for (const key of keysOf(video)) {
+        const bucket = buckets.get(key.value) || { ...key, count: 0 };
+        bucket.count++;
+        buckets.set(key.value, bucket);
+      }
+    }
+    return Array.from(buckets.values()).sort((a, b) => b.count - a.count).slice(0, 20);
+  };
+
+  const filtered = candidates.filter((video) => passes(video));
+  if (query.sort === "publishDate") {
+    filtered.sort((a, b) => new Date(b.publishDate || 0).getTime() - new Date(a.publishDate || 0).getTime());
+  } else if (query.sort === "views") {
+    const views = (v: VideoWithRelations) => parseInt(v.viewCount?.replace(/[^0-9]/g, "") || "0", 10);
+    filtered.sort((a, b) => views(b) - views(a));
+  }
+
+  const tokens = tokenizeSearchQuery(query.q);
+  return {
+    mode: "semantic",
+    items: filtered.slice(query.offset, query.offset + query.limit).map((video) => ({
+      video,
+      score: Math.round((similarity.get(video.id) ?? 0) * 10000) / 10000,
+      highlights: {
+        title: highlightText(video.title, tokens),
+        snippet: buildSnippet(video.description, tokens),
+      },
+    })),
+    total: filtered.length,
+    facets: {
+      platform: countBy("platform", (v) => {
+        const platform = v.channel?.platform || "youtube";
+        return [{ value: platform, label: platform }];
+      }),
+      videoType: countBy("videoType", (v) => [{ value: v.videoType, label: v.videoType }]),
+      category: countBy("categoryId", (v) => v.categories.map((c) => ({ value: c.id, label: c.name || c.id }))),
+      channel: countBy("channelId", (v) => [{ value: v.channelId, label: v.channel?.name || v.channelId }]),
+    },
+  };
+}
@@ -0,0 +1,234 @@
+import net from "net";
+import tls from "tls";
+
+export type FetchedMessage = { uid: number; raw: Buffer };
+
+export type MailboxFetchResult = {
+  uidValidity: string;
+  messages: FetchedMessage[];
+};
+
+export type MailboxFetchOptions = {
+  mailbox: string;
+  /** Highest UID already ingested; ignored when uidValidity no longer matches */
+  lastUid: number;
+  uidValidity: string | null;
+  /** Maximum messages per poll. The first sync keeps the newest ones, later polls catch up oldest-first. */
+  limit: number;
+};
+
+/**
+ * Anything that can hand the poller new messages. The poller talks to this
+ * interface only, so tests can feed raw messages without a server.
+ */
+export interface MailboxSource {
+  fetchNew(options: MailboxFetchOptions): Promise<MailboxFetchResult>;
+}
+
+export type ImapClientOptions = {
+  host: string;
+  port: number;
+  /** Implicit TLS (usually port 993). Plain connections are only meant for local servers. */
+  secure: boolean;
+  username: string;
+  password?: string | null;
+  timeoutMs?: number;
+  /** Accept self-signed certificates (local servers only) */
+  allowInvalidCertificates?: boolean;
+};
+
+export class ImapError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ImapError";
+  }
+}
+
+/** One server response; literal payloads ({n} markers) are kept as raw bytes. */
+type ImapResponse = { text: string; literals: Buffer[] };
+
+/**
+ * Minimal IMAP4rev1 session: tagged commands, untagged responses and literals.
+ * Data is buffered as bytes because literal lengths are byte counts.
+ */
+class ImapConnection {
+  private buffer = Buffer.alloc(0);
+  private responses: ImapResponse[] = [];
+  private waiters: Array<{ resolve: (response: ImapResponse) => void; reject: (err: Error) => void }> = [];
+  private failure: Error | null = null;
+  private tag = 0;
+
+  constructor(private socket: net.Socket, timeoutMs: number) {
+    socket.setTimeout(timeoutMs);
+    socket.on("data", (chunk: Buffer) => this.onData(chunk));
+    socket.on("timeout", () => this.fail(new ImapError("IMAP connection timed out")));
+    socket.on("error", (err) => this.fail(err));
+    socket.on("close", () => this.fail(new ImapError("IMAP connection closed unexpectedly")));
+  }
+
+  private onData(chunk: Buffer) {
+    this.buffer = Buffer.concat([this.buffer, chunk]);
+    let response: ImapResponse | null;
+    while ((response = this.parseResponse())) {
+      const waiter = this.waiters.shift();
+      if (waiter) waiter.resolve(response);
+      else this.responses.push(response);
+    }
+  }
+
+  private parseResponse(): ImapResponse | null {
+    let offset = 0;
+    const parts: string[] = [];
+    const literals: Buffer[] = [];
+    for (;;) {
+      const eol = this.buffer.indexOf("\r\n", offset);
+      if (eol === -1) return null;
+      const line = this.buffer.subarray(offset, eol).toString("utf8");
+      offset = eol + 2;
+      parts.push(line);
+      const literal = line.match(/\{(\d+)\}$/);
+      if (!literal) break;
+      const size = Number(literal[1]);
+      if (this.buffer.length < offset + size) return null;
+      literals.push(Buffer.from(this.buffer.subarray(offset, offset + size)));
+      offset += size;
+    }
+    this.buffer = this.buffer.subarray(offset);
+    return { text: parts.join(""), literals };
+  }
+
+  private fail(err: Error) {
+    if (this.failure) return;
+    this.failure = err;
+    for (const waiter of this.waiters.splice(0)) waiter.reject(err);
+  }
+
+  read(): Promise<ImapResponse> {
+    const queued = this.responses.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  /** Sends a command and returns its untagged responses once the tagged OK arrives. */
+  async command(line: string): Promise<ImapResponse[]> {
+    const tag = `A${++this.tag}`;
+    this.socket.write(`${tag} ${line}\r\n`);
+    const untagged: ImapResponse[] = [];
+    for (;;) {
+      const response = await this.read();
+      if (!response.text.startsWith(`${tag} `)) {
+        untagged.push(response);
+        continue;
+      }
+      const status = response.text.slice(tag.length + 1);
+      if (!/^OK\b/i.test(status)) {
+        throw new ImapError(`IMAP ${line.split(" ")[0]} failed: ${status}`);
+      }
+      return untagged;
+    }
+  }
+
+  close() {
+    this.failure = this.failure || new ImapError("IMAP connection closed");
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
+
+function quote(value: string): string {
+  if (/[\r\n]/.test(value)) throw new ImapError("IMAP arguments cannot contain line breaks");
+  return `"${value.replace(/(["\\])/g, "\\$1")}"`;
+}
+
+function connectSocket(options: ImapClientOptions, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onError = (err: Error) => reject(err);
+    const onTimeout = () => {
+      socket.destroy();
+      reject(new ImapError("IMAP connection timed out"));
+    };
+    const onConnect = () => {
+      socket.removeListener("error", onError);
+      socket.removeListener("timeout", onTimeout);
+      resolve(socket);
+    };
+    const socket: net.Socket = options.secure
+      ? tls.connect(
+          {
+            host: options.host,
+            port: options.port,
+            servername: options.host,
+            rejectUnauthorized: !options.allowInvalidCertificates,
+          },
+          onConnect,
+        )
+      : net.connect({ host: options.host, port: options.port }, onConnect);
+    socket.once("error", onError);
+    socket.setTimeout(timeoutMs);
+    socket.once("timeout", onTimeout);
+  });
+}
+
+/**
+ * Chooses which UIDs to fetch this round. UID ranges "n:*" always include the
+ * highest UID even when it is below n, so results are filtered again here.
+ */
+export function selectUidsToFetch(uids: number[], lastUid: number, limit: number): number[] {
+  const fresh = uids.filter((uid) => uid > lastUid).sort((a, b) => a - b);
+  return lastUid === 0 ? fresh.slice(-limit) : fresh.slice(0, limit);
+}
+
+/**
+ * Reads new messages from one mailbox. The mailbox is opened with EXAMINE and
+ * bodies are fetched with BODY.PEEK so the \Seen flags other mail clients rely
+ * on are left alone.
+ */
+export function createImapSource(options: ImapClientOptions): MailboxSource {
+  const timeoutMs = options.timeoutMs ?? 60000;
+
+  return {
+    async fetchNew({ mailbox, lastUid, uidValidity, limit }) {
+      const socket = await connectSocket(options, timeoutMs);
+      const conn = new ImapConnection(socket, timeoutMs);
+
+      try {
+        const greeting = await conn.read();
+        if (!/^\* (OK|PREAUTH)\b/i.test(greeting.text)) {
+          throw new ImapError(`Unexpected IMAP greeting: ${greeting.text}`);
+        }
+        if (!/^\* PREAUTH\b/i.test(greeting.text)) {
+          await conn.command(`LOGIN ${quote(options.username)} ${quote(options.password || "")}`);
+        }
+
+        const examined = await conn.command(`EXAMINE ${quote(mailbox || "INBOX")}`);
+        const currentValidity = examined
+          .map((r) => r.text.match(/\[UIDVALIDITY (\d+)\]/i)?.[1])
+          .find(Boolean) || "";
+        const sinceUid = currentValidity && currentValidity === uidValidity ? lastUid : 0;
+
+        const searched = await conn.command(`UID SEARCH UID ${sinceUid + 1}:*`);
+        const uids = searched
+          .filter((r) => /^\* SEARCH\b/i.test(r.text))
+          .flatMap((r) => r.text.replace(/^\* SEARCH/i, "").trim().split(/\s+/).filter(Boolean).map(Number));
+        const wanted = selectUidsToFetch(uids, sinceUid, limit);
+
+        const messages: FetchedMessage[] = [];
+        if (wanted.length > 0) {
+          const fetched = await conn.command(`UID FETCH ${wanted.join(",")} (UID BODY.PEEK[])`);
+          for (const response of fetched) {
+            const uid = Number(response.text.match(/\bUID (\d+)/i)?.[1]);
+            if (!/^\* \d+ FETCH\b/i.test(response.text) || !uid || !response.literals[0]) continue;
+            messages.push({ uid, raw: response.literals[0] });
+          }
+          messages.sort((a, b) => a.uid - b.uid);
+        }
+
+        await conn.command("LOGOUT").catch(() => undefined);
+        return { uidValidity: currentValidity, messages };
+      } finally {
+        conn.close();
+      }
+    },
+  };
+}
@@ -0,0 +1,212 @@
+import { createHash, randomUUID } from "crypto";
+import { storage } from "../storage/index.js";
+import { recordError } from "../error-log-service.js";
+import { logger } from "../lib/logger.js";
+import { extractChannelUrls } from "../channel-urls.js";
+import { submitChannelRecommendation } from "./channel-recommendations.js";
+import { createImapSource, type MailboxSource } from "./imap-client.js";
+import { isReplySubject, normalizeThreadSubject, parseEmail, type ParsedEmail } from "./mail-parser.js";
+import type { ChannelRecommendation, EmailSettings, InboxMessage } from "../../shared/schema.js";
+
+type SourceFactory = (settings: EmailSettings) => MailboxSource;
+
+// The first sync only imports the most recent messages instead of the whole mailbox
+const POLL_LIMIT = 50;
+const SUBJECT_THREAD_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+
+const defaultSourceFactory: SourceFactory = (settings) =>
+  createImapSource({
+    host: settings.imapHost!,
+    port: settings.imapPort || (settings.imapSecure ? 993 : 143),
+    secure: settings.imapSecure === 1,
+    username: settings.imapUsername!,
+    password: settings.imapPassword,
+  });
+
+export type InboxPollSummary = {
+  skipped: boolean;
+  fetched: number;
+  stored: number;
+  recommendations: number;
+};
+
+export type IngestResult = {
+  message: InboxMessage | undefined;
+  recommendations: ChannelRecommendation[];
+};
+
+let sourceFactory: SourceFactory = defaultSourceFactory;
+let inFlight: Promise<InboxPollSummary> | null = null;
+
+/**
+ * Replaces how mailbox sources are built from settings. Passing null restores IMAP.
+ */
+export function setMailboxSourceFactory(factory: SourceFactory | null) {
+  sourceFactory = factory || defaultSourceFactory;
+}
+
+export function isImapConfigured(settings: EmailSettings | undefined): settings is EmailSettings {
+  return Boolean(settings?.imapHost && settings.imapUsername);
+}
+
+/**
+ * Thread lookup order: References/In-Reply-To of an already stored message,
+ * then (for "Re:"-style subjects only) a recent thread with the same subject.
+ */
+async function resolveThreadId(parsed: ParsedEmail, threadSubject: string): Promise<string> {
+  const referenced = [...parsed.references, ...(parsed.inReplyTo ? [parsed.inReplyTo] : [])];
+  if (referenced.length > 0) {
+    const known = await storage.getInboxMessagesByMessageIds(referenced);
+    const byMessageId = new Map(known.map((m) => [m.messageId, m.threadId]));
+    // Prefer the closest ancestor: In-Reply-To, then the end of References
+    const match = [...referenced].reverse().map((id) => byMessageId.get(id)).find(Boolean);
+    if (match) return match;
+  }
+
+  if (threadSubject && isReplySubject(parsed.subject)) {
+    const since = new Date(Date.now() - SUBJECT_THREAD_WINDOW_MS);
+    const match = await storage.findInboxThreadBySubject(threadSubject, since);
+    if (match) return match;
+  }
+
+  return randomUUID();
+}
+
+async function loadKnownChannelUrls(): Promise<Set<string>> {
+  const [channels, recommendations] = await Promise.all([
+    storage.getAllChannels(),
+    storage.getChannelRecommendations({}),
+  ]);
+  return new Set([...channels.map((c) => c.url), ...recommendations.map((r) => r.url)]);
+}
+
+/**
+ * Stores one raw message and files a pending channel recommendation for every
+ * YouTube/TikTok/X channel link in it that isn't already a channel or a
+ * recommendation. Duplicate Message-IDs are ignored.
+ */
+export async function ingestInboxMessage(
+  raw: Buffer | string,
+  meta: { uid?: number; mailbox?: string | null } = {},
+  knownUrls?: Set<string>,
+): Promise<IngestResult> {
+  const parsed = parseEmail(raw);
+  // Some senders omit Message-ID; a content hash still makes re-polls idempotent
+  const messageId = parsed.messageId
+    || `<${createHash("sha256").update(raw).digest("hex").slice(0, 32)}@imap.local>`;
+
+  const [existing] = await storage.getInboxMessagesByMessageIds([messageId]);
+  if (existing) return { message: undefined, recommendations: [] };
+
+  const threadSubject = normalizeThreadSubject(parsed.subject);
+  const detected = extractChannelUrls(parsed.text);
+
+  const message = await storage.createInboxMessage({
+    messageId,
+    threadId: await resolveThreadId(parsed, threadSubject),
+    threadSubject,
+    inReplyTo: parsed.inReplyTo,
+    references: parsed.references.join(" ") || null,
+    fromAddress: parsed.from?.address || "unknown",
+    fromName: parsed.from?.name || null,
+    toAddress: parsed.to,
+    subject: parsed.subject,
+    textBody: parsed.text,
+    status: "unread",
+    mailbox: meta.mailbox || null,
+    imapUid: meta.uid ?? null,
+    detectedUrls: detected.map((d) => d.url),
+    receivedAt: parsed.date || new Date(),
+  });
+  if (!message) return { message: undefined, recommendations: [] };
+
+  const known = knownUrls || (detected.length > 0 ? await loadKnownChannelUrls() : new Set<string>());
+  const recommendations: ChannelRecommendation[] = [];
+  for (const match of detected) {
+    if (known.has(match.url)) continue;
+    known.add(match.url);
+    const sender = parsed.from?.name ? `${parsed.from.name} <${parsed.from.address}>` : parsed.from?.address || "unknown";
+    recommendations.push(
+      await submitChannelRecommendation({
+        url: match.url,
+        platform: match.platform,
+        description: `Email from ${sender}: ${parsed.subject}`.slice(0, 500),
+      }),
+    );
+  }
+
+  return { message, recommendations };
+}
+
+/**
+ * Pulls new mail from the configured IMAP mailbox. Progress is tracked by UID,
+ * so each message is downloaded once; a UIDVALIDITY change starts over and
+ * relies on Message-ID dedupe. Concurrent callers share the run in progress.
+ */
+export function pollImapInbox(): Promise<InboxPollSummary> {
+  if (!inFlight) {
+    inFlight = runPoll().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+async function runPoll(): Promise<InboxPollSummary> {
+  const summary: InboxPollSummary = { skipped: false, fetched: 0, stored: 0, recommendations: 0 };
+  const settings = await storage.getEmailSettings();
+  if (!isImapConfigured(settings)) return { ...summary, skipped: true };
+
+  const mailbox = settings.imapMailbox || "INBOX";
+  try {
+    const result = await sourceFactory(settings).fetchNew({
+      mailbox,
+      lastUid: settings.imapLastUid,
+      uidValidity: settings.imapUidValidity,
+      limit: POLL_LIMIT,
+    });
+    summary.fetched = result.messages.length;
+
+    const ownAddress = settings.smtpFromEmail?.toLowerCase();
+    const knownUrls = await loadKnownChannelUrls();
+    const validityChanged = result.uidValidity !== settings.imapUidValidity;
+    let lastUid = validityChanged ? 0 : settings.imapLastUid;
+
+    for (const { uid, raw } of result.messages) {
+      // Our own notifications can land in the same mailbox; they are not inbox material
+      if (ownAddress && parseEmail(raw).from?.address === ownAddress) {
+        lastUid = Math.max(lastUid, uid);
+        continue;
+      }
+      try {
+        const ingested = await ingestInboxMessage(raw, { uid, mailbox }, knownUrls);
+        if (ingested.message) summary.stored++;
+        summary.recommendations += ingested.recommendations.length;
+        lastUid = Math.max(lastUid, uid);
+      } catch (error) {
+        // Stop here so the next poll retries this UID instead of skipping it
+        logger.error(`Failed to ingest IMAP message ${uid}`, error);
+        break;
+      }
+    }
+
+    await storage.updateImapSyncState({
+      imapLastUid: lastUid,
+      imapUidValidity: result.uidValidity,
+      imapLastPolledAt: new Date(),
+      imapLastError: null,
+    });
+    return summary;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    await storage.updateImapSyncState({ imapLastPolledAt: new Date(), imapLastError: message.slice(0, 2000) });
+    await recordError({
+      level: "warn",
+      type: "imap_poll_failed",
+      message,
+      module: "inbox-poller",
+      context: { host: settings.imapHost, mailbox },
+    });
+    throw error;
+  }
+}
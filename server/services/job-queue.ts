@@ -1,12 +1,20 @@
 import { db } from "../db.js";
 import { scrapeJobs, channels, type ScrapeJob } from "../../shared/schema.js";
-import { eq, sql } from "drizzle-orm";
+import { and, eq, inArray, sql } from "drizzle-orm";
 import { recordError } from "../error-log-service.js";
 import { storage } from "../storage/index.js";
 import { invalidateChannelCaches, invalidateVideoContentCaches } from "../cache-invalidation.js";
 import { appendScrapeJobLog } from "../scrape-job-logs.js";
 import { logger } from "../lib/logger.js";
 import { workerManager, type WorkerMessage } from "../worker/worker-manager.js";
+import { notifyAdmins } from "./mailer.js";
+import { emitScrapeJobEvent } from "./webhooks.js";
+import { refreshStaleVideos } from "./video-refresh.js";
+import { checkVideoAvailability } from "./availability.js";
+import { backfillVideoEmbeddings } from "./embeddings.js";
+import { backfillTranscripts } from "./transcripts.js";
+import { backfillChapters } from "./chapters.js";
+import { moderatePendingVideos } from "./moderation.js";
 
 // Job States
 export type JobStatus = "pending" | "running" | "completed" | "failed" | "cancelled";
@@ -47,6 +55,16 @@ export class JobQueue {
     return job.id;
   }
 
+  // Whether a job of this type is already waiting or running
+  async hasActiveJob(type: string): Promise<boolean> {
+    const [job] = await db
+      .select({ id: scrapeJobs.id })
+      .from(scrapeJobs)
+      .where(and(eq(scrapeJobs.type, type), inArray(scrapeJobs.status, ["pending", "running"])))
+      .limit(1);
+    return !!job;
+  }
+
   // Process the queue
   async processQueue() {
     if (this.isProcessing) return;
@@ -111,11 +129,24 @@ export class JobQueue {
         await this.processChannelScan(job);
       } else if (job.type === "full_sync") {
         await this.processFullSync(job);
+      } else if (job.type === "video_refresh") {
+        await this.processVideoRefresh(job);
+      } else if (job.type === "availability_check") {
+        await this.processAvailabilityCheck(job);
+      } else if (job.type === "embedding_backfill") {
+        await this.processEmbeddingBackfill(job);
+      } else if (job.type === "transcript_backfill") {
+        await this.processTranscriptBackfill(job);
+      } else if (job.type === "chapter_backfill") {
+        await this.processChapterBackfill(job);
+      } else if (job.type === "moderation_check") {
+        await this.processModerationCheck(job);
       } else {
         throw new Error(`Unknown job type: ${job.type}`);
       }
 
       await this.updateJobStatus(job.id, "completed", "Job completed successfully.", false);
+      await emitScrapeJobEvent(job.id, "scrape_job.completed");
     } catch (error: any) {
       logger.error(`Job ${job.id} failed`, error);
       // Ensure we update status to failed so it's not picked up again immediately
@@ -127,6 +158,9 @@ export class JobQueue {
         message: error.message,
         context: { jobId: job.id, type: job.type }
       });
+
+      await notifyAdmins("scrape_job_failed", { jobId: job.id, jobType: job.type, error: error.message });
+      await emitScrapeJobEvent(job.id, "scrape_job.failed");
     }
   }
 
@@ -155,6 +189,81 @@ export class JobQueue {
     }
   }
 
+  // Re-fetch metadata for already-ingested videos that are due
+  private async processVideoRefresh(job: ScrapeJob) {
+    const summary = await refreshStaleVideos({
+      onProgress: ({ checked, failed }, total) => this.updateJobProgress(job.id, checked, total, checked, failed),
+    });
+    await this.log(
+      job.id,
+      `Checked ${summary.checked} videos: ${summary.updated} updated, ${summary.hidden} hidden, ${summary.failed} failed.`,
+    );
+    if (summary.updated + summary.hidden > 0) {
+      invalidateVideoContentCaches();
+    }
+  }
+
+  // Probe embeds and quarantine videos that no longer play
+  private async processAvailabilityCheck(job: ScrapeJob) {
+    const summary = await checkVideoAvailability({
+      onProgress: ({ checked, failed }, total) => this.updateJobProgress(job.id, checked, total, checked, failed),
+    });
+    await this.log(
+      job.id,
+      `Checked ${summary.checked} videos: ${summary.quarantined} quarantined, ${summary.restored} restored, ${summary.failed} failed.`,
+    );
+    if (summary.quarantined + summary.restored > 0) {
+      invalidateVideoContentCaches();
+    }
+  }
+
+  // Embed videos for related videos and semantic search; incremental runs only
+  // take videos without an embedding, full runs also re-embed changed text
+  private async processEmbeddingBackfill(job: ScrapeJob) {
+    const summary = await backfillVideoEmbeddings({
+      missingOnly: job.isIncremental,
+      onProgress: ({ checked, failed }, total) => this.updateJobProgress(job.id, checked, total, checked, failed),
+    });
+    await this.log(
+      job.id,
+      `Checked ${summary.checked} videos: ${summary.embedded} embedded, ${summary.unchanged} unchanged, ${summary.failed} failed.`,
+    );
+    if (summary.error) {
+      await this.log(job.id, `Stopped early, embedding provider failed: ${summary.error}`);
+    }
+  }
+
+  // Fetch caption transcripts for YouTube videos that were never looked up
+  private async processTranscriptBackfill(job: ScrapeJob) {
+    const summary = await backfillTranscripts({
+      onProgress: ({ checked, failed }, total) => this.updateJobProgress(job.id, checked, total, checked, failed),
+    });
+    await this.log(
+      job.id,
+      `Checked ${summary.checked} videos: ${summary.transcribed} with transcripts, ${summary.failed} failed.`,
+    );
+  }
+
+  private async processChapterBackfill(job: ScrapeJob) {
+    const summary = await backfillChapters({
+      onProgress: ({ checked, failed }, total) => this.updateJobProgress(job.id, checked, total, checked, failed),
+    });
+    await this.log(
+      job.id,
+      `Checked ${summary.checked} videos: ${summary.chaptered} with chapters, ${summary.failed} failed.`,
+    );
+  }
+
+  private async processModerationCheck(job: ScrapeJob) {
+    const summary = await moderatePendingVideos({
+      onProgress: ({ checked, failed }, total) => this.updateJobProgress(job.id, checked, total, checked, failed),
+    });
+    await this.log(
+      job.id,
+      `Checked ${summary.checked} videos: ${summary.approved} approved, ${summary.held} held for review, ${summary.failed} failed.`,
+    );
+  }
+
   private async processChannelScan(job: ScrapeJob) {
     if (!job.targetId) throw new Error("Target ID (channel ID) required for channel_scan");
     
@@ -0,0 +1,213 @@
+export type ParsedAddress = { address: string; name: string | null };
+
+export type ParsedEmail = {
+  messageId: string | null;
+  inReplyTo: string | null;
+  references: string[];
+  from: ParsedAddress | null;
+  to: string | null;
+  subject: string;
+  date: Date | null;
+  text: string;
+};
+
+type Headers = Map<string, string[]>;
+type MimePart = { headers: Headers; body: string };
+
+// Anything after this many characters is dropped; admins read the rest in their mail client
+const MAX_TEXT_LENGTH = 50_000;
+
+function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  try {
+    return new TextDecoder((charset || "utf-8").trim().toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString("utf8");
+  }
+}
+
+function decodeQuotedPrintable(value: string, underscoreIsSpace = false): Buffer {
+  const input = (underscoreIsSpace ? value.replace(/_/g, " ") : value).replace(/=\r?\n/g, "");
+  const bytes: number[] = [];
+  for (let i = 0; i < input.length; i++) {
+    const hex = input.slice(i + 1, i + 3);
+    if (input[i] === "=" && /^[0-9A-Fa-f]{2}$/.test(hex)) {
+      bytes.push(parseInt(hex, 16));
+      i += 2;
+    } else {
+      bytes.push(input.charCodeAt(i) & 0xff);
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Decodes RFC 2047 encoded words ("=?UTF-8?B?...?="). Whitespace between two
+ * adjacent encoded words is not significant and is removed first.
+ */
+export function decodeHeaderValue(value: string): string {
+  return value
+    .replace(/(\?=)\s+(?==\?)/g, "$1")
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (_match, charset: string, encoding: string, text: string) => {
+      const bytes = encoding.toUpperCase() === "B"
+        ? Buffer.from(text, "base64")
+        : decodeQuotedPrintable(text, true);
+      return decodeCharset(bytes, charset.split("*")[0]);
+    });
+}
+
+/**
+ * Splits a header block into a lowercase-keyed map. The message is handled as
+ * latin1 so byte offsets survive; raw 8-bit header values are re-read as UTF-8.
+ */
+function parseHeaders(block: string): Headers {
+  const headers: Headers = new Map();
+  const unfolded = block.replace(/\r?\n[ \t]+/g, " ");
+  for (const line of unfolded.split(/\r?\n/)) {
+    const idx = line.indexOf(":");
+    if (idx <= 0) continue;
+    const key = line.slice(0, idx).trim().toLowerCase();
+    const value = Buffer.from(line.slice(idx + 1).trim(), "latin1").toString("utf8");
+    headers.set(key, [...(headers.get(key) || []), value]);
+  }
+  return headers;
+}
+
+function splitPart(raw: string): MimePart {
+  const match = /\r?\n\r?\n/.exec(raw);
+  if (!match) return { headers: parseHeaders(raw), body: "" };
+  return {
+    headers: parseHeaders(raw.slice(0, match.index)),
+    body: raw.slice(match.index + match[0].length),
+  };
+}
+
+function header(headers: Headers, name: string): string | undefined {
+  return headers.get(name)?.[0];
+}
+
+function parseContentType(value: string | undefined): { type: string; params: Record<string, string> } {
+  const [type, ...rest] = (value || "text/plain").split(";");
+  const params: Record<string, string> = {};
+  for (const param of rest) {
+    const idx = param.indexOf("=");
+    if (idx === -1) continue;
+    params[param.slice(0, idx).trim().toLowerCase()] = param.slice(idx + 1).trim().replace(/^"(.*)"$/, "$1");
+  }
+  return { type: type.trim().toLowerCase(), params };
+}
+
+function decodeBody(part: MimePart): string {
+  const encoding = (header(part.headers, "content-transfer-encoding") || "").trim().toLowerCase();
+  const { params } = parseContentType(header(part.headers, "content-type"));
+  let bytes: Buffer;
+  if (encoding === "base64") bytes = Buffer.from(part.body.replace(/\s+/g, ""), "base64");
+  else if (encoding === "quoted-printable") bytes = decodeQuotedPrintable(part.body);
+  else bytes = Buffer.from(part.body, "latin1");
+  return decodeCharset(bytes, params.charset);
+}
+
+export function htmlToText(html: string): string {
+  return html
+    .replace(/<(script|style|head)[\s\S]*?<\/\1>/gi, "")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/(p|div|li|tr|h[1-6]|blockquote)>/gi, "\n")
+    .replace(/<a\s[^>]*href="([^"]+)"[^>]*>([\s\S]*?)<\/a>/gi, (_m, href: string, label: string) =>
+      label.includes(href) ? label : `${label} (${href})`,
+    )
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/gi, " ")
+    .replace(/&lt;/gi, "<")
+    .replace(/&gt;/gi, ">")
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/gi, "'")
+    .replace(/&#(\d+);/g, (_m, code: string) => String.fromCodePoint(Number(code)))
+    .replace(/&amp;/gi, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+/**
+ * Walks the MIME tree and returns the first text/plain and text/html bodies,
+ * skipping attachments.
+ */
+function collectBodies(part: MimePart, found: { text?: string; html?: string }, depth = 0) {
+  if (depth > 10 || (found.text && found.html)) return;
+  const { type, params } = parseContentType(header(part.headers, "content-type"));
+  const disposition = (header(part.headers, "content-disposition") || "").toLowerCase();
+
+  if (type.startsWith("multipart/") && params.boundary) {
+    const delimiter = `--${params.boundary}`;
+    const sections = part.body.split(delimiter).slice(1);
+    for (const section of sections) {
+      if (section.startsWith("--")) break;
+      collectBodies(splitPart(section.replace(/^\r?\n/, "")), found, depth + 1);
+    }
+    return;
+  }
+
+  if (disposition.startsWith("attachment")) return;
+  if (type === "text/plain" && found.text === undefined) found.text = decodeBody(part);
+  else if (type === "text/html" && found.html === undefined) found.html = decodeBody(part);
+}
+
+export function parseAddress(value: string | undefined): ParsedAddress | null {
+  if (!value) return null;
+  const decoded = decodeHeaderValue(value);
+  const angle = decoded.match(/^(.*?)<([^>]+)>/);
+  if (angle) {
+    const name = angle[1].trim().replace(/^"(.*)"$/, "$1").trim();
+    return { address: angle[2].trim().toLowerCase(), name: name || null };
+  }
+  const bare = decoded.match(/[^\s<>",;]+@[^\s<>",;]+/);
+  return bare ? { address: bare[0].toLowerCase(), name: null } : null;
+}
+
+function messageIds(value: string | undefined): string[] {
+  return (value || "").match(/<[^<>\s]+>/g) || [];
+}
+
+/**
+ * Parses a raw RFC 5322 message as fetched over IMAP. Only what the admin inbox
+ * needs is extracted: threading headers, sender, subject and a plain-text body
+ * (HTML-only messages are converted to text).
+ */
+export function parseEmail(raw: Buffer | string): ParsedEmail {
+  const part = splitPart(typeof raw === "string" ? Buffer.from(raw, "utf8").toString("latin1") : raw.toString("latin1"));
+  const bodies: { text?: string; html?: string } = {};
+  collectBodies(part, bodies);
+
+  const text = (bodies.text ?? (bodies.html ? htmlToText(bodies.html) : ""))
+    .replace(/\r\n/g, "\n")
+    .trim()
+    .slice(0, MAX_TEXT_LENGTH);
+  const dateHeader = header(part.headers, "date");
+  const date = dateHeader ? new Date(dateHeader) : null;
+
+  return {
+    messageId: messageIds(header(part.headers, "message-id"))[0] || null,
+    inReplyTo: messageIds(header(part.headers, "in-reply-to"))[0] || null,
+    references: messageIds(header(part.headers, "references")),
+    from: parseAddress(header(part.headers, "from")),
+    to: header(part.headers, "to") ? decodeHeaderValue(header(part.headers, "to")!) : null,
+    subject: decodeHeaderValue(header(part.headers, "subject") || "").replace(/\s+/g, " ").trim(),
+    date: date && !isNaN(date.getTime()) ? date : null,
+    text,
+  };
+}
+
+const REPLY_PREFIX = /^\s*(?:re|fw|fwd|odg|aw|sv|tr)(?:\[\d+\])?\s*:\s*/i;
+
+/**
+ * Subject used to group replies whose client dropped In-Reply-To/References:
+ * reply and forward prefixes (including Serbian "Odg:") are removed.
+ */
+export function normalizeThreadSubject(subject: string): string {
+  let current = subject;
+  while (REPLY_PREFIX.test(current)) current = current.replace(REPLY_PREFIX, "");
+  return current.replace(/\s+/g, " ").trim().toLowerCase();
+}
+
+export function isReplySubject(subject: string): boolean {
+  return REPLY_PREFIX.test(subject);
+}
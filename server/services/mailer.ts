@@ -0,0 +1,237 @@
+import { storage } from "../storage/index.js";
+import { errorLogBus, recordError } from "../error-log-service.js";
+import { logger } from "../lib/logger.js";
+import { createSmtpTransport, type EmailTransport } from "./smtp-transport.js";
+import { renderEmailTemplate, type EmailTemplateData } from "./email-templates.js";
+import {
+  EMAIL_LOCALES,
+  type EmailLocale,
+  type EmailOutboxEntry,
+  type EmailSettings,
+  type EmailTemplate,
+} from "../../shared/schema.js";
+
+type TransportFactory = (settings: EmailSettings) => EmailTransport;
+
+const BACKOFF_BASE_MS = 60 * 1000;
+const BACKOFF_MAX_MS = 6 * 60 * 60 * 1000;
+const OUTBOX_BATCH_SIZE = 20;
+
+const defaultTransportFactory: TransportFactory = (settings) =>
+  createSmtpTransport({
+    host: settings.smtpHost!,
+    port: settings.smtpPort || (settings.smtpSecure ? 465 : 587),
+    secure: settings.smtpSecure === 1,
+    username: settings.smtpUsername,
+    password: settings.smtpPassword,
+  });
+
+type OutboxSummary = { sent: number; retried: number; failed: number };
+
+let transportFactory: TransportFactory = defaultTransportFactory;
+let inFlight: Promise<OutboxSummary> | null = null;
+// Set when a caller joins a run that may already have claimed its batch
+let claimAgain = false;
+
+/**
+ * Replaces how transports are built from settings. Passing null restores SMTP.
+ */
+export function setEmailTransportFactory(factory: TransportFactory | null) {
+  transportFactory = factory || defaultTransportFactory;
+}
+
+export function isSmtpConfigured(settings: EmailSettings | undefined): settings is EmailSettings {
+  return Boolean(settings?.smtpHost && settings.smtpFromEmail);
+}
+
+export function parseRecipients(value: string | null | undefined): string[] {
+  return Array.from(
+    new Set(
+      (value || "")
+        .split(/[,;\s]+/)
+        .map((r) => r.trim())
+        .filter((r) => /^[^\s<>@]+@[^\s<>@]+$/.test(r)),
+    ),
+  );
+}
+
+function resolveLocale(locale: string | null | undefined): EmailLocale {
+  return (EMAIL_LOCALES as readonly string[]).includes(locale || "") ? (locale as EmailLocale) : "en";
+}
+
+/**
+ * Exponential backoff: 1m, 2m, 4m, ... capped at 6h.
+ */
+export function computeBackoffMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+}
+
+/**
+ * Renders a template and adds one outbox row per recipient. Delivery happens
+ * asynchronously in processEmailOutbox().
+ */
+export async function queueEmail<K extends EmailTemplate>(
+  template: K,
+  data: EmailTemplateData[K],
+  options: { to: string[]; locale?: string | null },
+): Promise<EmailOutboxEntry[]> {
+  const locale = resolveLocale(options.locale);
+  const rendered = renderEmailTemplate(template, locale, data);
+  const entries: EmailOutboxEntry[] = [];
+  for (const to of options.to) {
+    entries.push(
+      await storage.enqueueEmail({
+        template,
+        locale,
+        toAddress: to,
+        subject: rendered.subject,
+        textBody: rendered.text,
+        htmlBody: rendered.html,
+      }),
+    );
+  }
+  if (entries.length > 0) {
+    processEmailOutbox().catch((error) => logger.error("Email outbox processing failed", error));
+  }
+  return entries;
+}
+
+/**
+ * Queues an admin notification using the recipients and locale from email
+ * settings. Never throws: notifications must not break the request that
+ * triggered them.
+ */
+export async function notifyAdmins<K extends EmailTemplate>(template: K, data: EmailTemplateData[K]): Promise<void> {
+  try {
+    const settings = await storage.getEmailSettings();
+    if (!isSmtpConfigured(settings)) return;
+    const recipients = parseRecipients(settings.notificationRecipients);
+    if (recipients.length === 0) return;
+    await queueEmail(template, data, { to: recipients, locale: settings.notificationLocale });
+  } catch (error) {
+    logger.error(`Failed to queue ${template} notification`, error);
+  }
+}
+
+/**
+ * Claims due outbox rows and tries to deliver them. Failures are rescheduled
+ * with exponential backoff until maxAttempts, after which the row is marked
+ * "failed" and left for an admin to retry. Concurrent callers share the run
+ * that is already in progress, which claims once more before finishing so
+ * whatever they queued is sent too.
+ */
+export function processEmailOutbox(): Promise<OutboxSummary> {
+  if (inFlight) {
+    claimAgain = true;
+    return inFlight;
+  }
+  inFlight = drainOutbox().finally(() => {
+    inFlight = null;
+  });
+  return inFlight;
+}
+
+/** Claims and sends batches until nothing is due and no caller asked for another pass. */
+async function drainOutbox(): Promise<OutboxSummary> {
+  const summary = { sent: 0, retried: 0, failed: 0 };
+  const settings = await storage.getEmailSettings();
+  if (!isSmtpConfigured(settings)) return summary;
+  const transport = transportFactory(settings);
+
+  for (;;) {
+    claimAgain = false;
+    const due = await storage.claimDueEmails(OUTBOX_BATCH_SIZE);
+    if (due.length === 0 && !claimAgain) return summary;
+    await sendBatch(transport, settings, due, summary);
+  }
+}
+
+async function sendBatch(
+  transport: EmailTransport,
+  settings: EmailSettings,
+  due: EmailOutboxEntry[],
+  summary: OutboxSummary,
+): Promise<void> {
+  for (const entry of due) {
+    try {
+      await transport.send({
+        from: { email: settings.smtpFromEmail!, name: settings.smtpFromName },
+        to: [entry.toAddress],
+        subject: entry.subject,
+        text: entry.textBody,
+        html: entry.htmlBody,
+      });
+      await storage.updateEmailOutboxEntry(entry.id, {
+        status: "sent",
+        attempts: entry.attempts + 1,
+        sentAt: new Date(),
+        lastError: null,
+      });
+      summary.sent++;
+    } catch (error) {
+      const attempts = entry.attempts + 1;
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = attempts >= entry.maxAttempts;
+      await storage.updateEmailOutboxEntry(entry.id, {
+        status: exhausted ? "failed" : "pending",
+        attempts,
+        lastError: message.slice(0, 2000),
+        nextAttemptAt: new Date(Date.now() + computeBackoffMs(attempts)),
+      });
+      if (exhausted) {
+        summary.failed++;
+        await recordError({
+          level: "warn",
+          type: "email_delivery_failed",
+          message,
+          module: "mailer",
+          context: { outboxId: entry.id, template: entry.template, attempts },
+        });
+      } else {
+        summary.retried++;
+      }
+    }
+  }
+}
+
+/**
+ * Sends the test template immediately (bypassing the outbox) so the admin
+ * sees the SMTP error, if any, in the response.
+ */
+export async function sendTestEmail(to: string, locale: string | null | undefined, sentBy?: string | null) {
+  const settings = await storage.getEmailSettings();
+  if (!isSmtpConfigured(settings)) {
+    throw new Error("SMTP host and from address must be configured first");
+  }
+  const rendered = renderEmailTemplate("test", resolveLocale(locale || settings.notificationLocale), { sentBy });
+  await transportFactory(settings).send({
+    from: { email: settings.smtpFromEmail!, name: settings.smtpFromName },
+    to: [to],
+    subject: rendered.subject,
+    text: rendered.text,
+    html: rendered.html,
+  });
+}
+
+/**
+ * Emails admins once when an error fingerprint reaches the configured count.
+ * Mail delivery failures are excluded so a broken relay can't alert about itself.
+ */
+export function registerEmailAlerts() {
+  errorLogBus.on("error_event", async (event: { fingerprint: string; type: string; message: string; module?: string; count: number }) => {
+    if (event.type === "email_delivery_failed") return;
+    try {
+      const settings = await storage.getEmailSettings();
+      if (!settings || event.count !== settings.errorAlertThreshold) return;
+      await notifyAdmins("error_threshold", {
+        type: event.type,
+        message: event.message,
+        module: event.module,
+        count: event.count,
+        fingerprint: event.fingerprint,
+      });
+    } catch (error) {
+      logger.error("Failed to evaluate error alert threshold", error);
+    }
+  });
+}
@@ -0,0 +1,244 @@
+import { storage } from "../storage/index.js";
+import { logger } from "../lib/logger.js";
+import { classifyVideoSafety, getAiConfig } from "../ai-service.js";
+import { AiBudgetExceededError } from "../errors/custom-errors.js";
+import { notifyFollowers } from "./subscriptions.js";
+import { submitUrls } from "./indexnow.js";
+import { emitWebhookEvent, videoPayload } from "./webhooks.js";
+import type { Channel, InsertVideo, ModerationRule, ModerationStatus, Video } from "../../shared/schema.js";
+
+const BATCH_SIZE = 50;
+const MODERATION_HIDDEN_REASONS = new Set<string>(["pending_review", "rejected"]);
+
+export type ModerationVerdict = {
+  status: ModerationStatus;
+  reason: string | null;
+};
+
+export type ModerationSummary = {
+  checked: number;
+  approved: number;
+  /** Held for an admin or rejected */
+  held: number;
+  failed: number;
+};
+
+export type ModerationOptions = {
+  /** Run the AI classifier; defaults to the AI setting */
+  ai?: boolean;
+  /** Tell followers and search engines when the video goes live; defaults to true */
+  publish?: boolean;
+};
+
+export type ModerationBatchOptions = {
+  limit?: number;
+  onProgress?: (summary: ModerationSummary, total: number) => Promise<void> | void;
+};
+
+/**
+ * Whether moderation keeps the video off the site. This goes by the status,
+ * not hiddenReason: a video rejected while quarantined keeps its availability
+ * reason but must stay hidden when it plays again.
+ */
+export function isModerationHold(video: Pick<Video, "moderationStatus">): boolean {
+  return video.moderationStatus !== "approved";
+}
+
+/**
+ * Insert fields for a video a channel just published: trusted channels go
+ * live straight away, everything else stays hidden until moderateVideo (or
+ * an admin) approves it.
+ */
+export function moderationHold(channel: Pick<Channel, "trustLevel"> | undefined): Partial<InsertVideo> {
+  if (channel?.trustLevel === "trusted") return {};
+  return { moderationStatus: "pending_review", hiddenAt: new Date(), hiddenReason: "pending_review" };
+}
+
+/** Words and phrases match whole words, case-insensitively; regular expressions match anywhere. */
+export function compileRule(rule: Pick<ModerationRule, "pattern" | "isRegex">): RegExp {
+  if (rule.isRegex) return new RegExp(rule.pattern, "iu");
+  const escaped = rule.pattern.trim().replace(/[.*+?^${}()|[\]\\]/g, "\\$&").replace(/\s+/g, "\\s+");
+  return new RegExp(`(?<![\\p{L}\\p{N}])${escaped}(?![\\p{L}\\p{N}])`, "iu");
+}
+
+/** The first active rule matching the text; reject rules win over review rules. */
+export function matchRules(text: string, rules: ModerationRule[]): ModerationRule | undefined {
+  const matching = rules.filter((rule) => {
+    if (!rule.isActive) return false;
+    try {
+      return compileRule(rule).test(text);
+    } catch {
+      logger.warn(`[moderation] Skipping rule with an invalid pattern: ${rule.pattern}`);
+      return false;
+    }
+  });
+  return matching.find((rule) => rule.action === "reject") ?? matching[0];
+}
+
+async function siteTopics(): Promise<string[]> {
+  const categories = await storage.getAllLocalizedCategories("en");
+  return categories.map((category) => category.name);
+}
+
+/**
+ * Decides what happens to a new video. Trusted channels skip the checks;
+ * then keyword rules apply, videos of untrusted channels wait for an admin,
+ * and the AI classifier (when enabled) holds anything unsafe or off-topic.
+ * A classifier error holds the video for an admin; a used-up budget is
+ * thrown so the video is checked again later.
+ */
+export async function evaluateVideo(
+  video: Pick<Video, "title" | "description">,
+  channel: Pick<Channel, "trustLevel"> | undefined,
+  options: ModerationOptions = {},
+): Promise<ModerationVerdict> {
+  if (channel?.trustLevel === "trusted") {
+    return { status: "approved", reason: null };
+  }
+
+  const rule = matchRules(`${video.title}\n${video.description || ""}`, await storage.getModerationRules());
+  if (rule) {
+    return {
+      status: rule.action === "reject" ? "rejected" : "pending_review",
+      reason: `Matched rule "${rule.pattern}"${rule.note ? ` (${rule.note})` : ""}`,
+    };
+  }
+
+  if (channel?.trustLevel === "untrusted") {
+    return { status: "pending_review", reason: "Untrusted channel" };
+  }
+
+  if (options.ai ?? (await getAiConfig()).aiModeration) {
+    try {
+      const result = await classifyVideoSafety(video.title, video.description || "", {
+        topics: await siteTopics(),
+        timeoutMs: 30000,
+      });
+      if (!result.safe || result.labels.length > 0) {
+        const labels = result.labels.length > 0 ? result.labels.join(", ") : "unsafe";
+        return { status: "pending_review", reason: `AI: ${labels}${result.reason ? ` - ${result.reason}` : ""}` };
+      }
+    } catch (error) {
+      if (error instanceof AiBudgetExceededError) throw error;
+      return { status: "pending_review", reason: `AI check failed: ${(error as Error).message}` };
+    }
+  }
+
+  return { status: "approved", reason: null };
+}
+
+/**
+ * Stores a moderation status and keeps the video's visibility in step:
+ * approving lifts a moderation hold (but not an availability quarantine),
+ * anything else hides the video. Unless `publish` is off, followers and
+ * search engines hear about videos that go live.
+ */
+export async function applyModerationDecision(
+  video: Video,
+  verdict: ModerationVerdict,
+  { publish = true }: Pick<ModerationOptions, "publish"> = {},
+): Promise<Video | undefined> {
+  const updates: Partial<Video> = {
+    moderationStatus: verdict.status,
+    moderationReason: verdict.reason,
+    moderatedAt: new Date(),
+  };
+  const wasHeld = isModerationHold(video);
+  const hiddenByModeration = MODERATION_HIDDEN_REASONS.has(video.hiddenReason ?? "");
+  if (verdict.status === "approved") {
+    if (hiddenByModeration) Object.assign(updates, { hiddenAt: null, hiddenReason: null });
+  } else if (!video.hiddenAt || hiddenByModeration) {
+    Object.assign(updates, { hiddenAt: video.hiddenAt ?? new Date(), hiddenReason: verdict.status });
+  }
+
+  const updated = await storage.updateVideo(video.id, updates);
+  if (publish && updated && wasHeld && !updated.hiddenAt && verdict.status === "approved") {
+    await publishVideos(updated.channelId, [updated]);
+  }
+  return updated;
+}
+
+/** Notifies followers, video.created webhooks and IndexNow about videos that just became public. */
+export async function publishVideos(channelId: string, published: Video[]): Promise<void> {
+  if (published.length === 0) return;
+  await notifyFollowers(channelId, published.map((video) => video.id));
+  for (const video of published) {
+    await emitWebhookEvent("video.created", { video: videoPayload(video) });
+  }
+  const baseUrl = process.env.PUBLIC_BASE_URL || "https://nisam.video";
+  submitUrls(published.map((video) => `${baseUrl}/video/${video.slug || video.id}`));
+}
+
+/** Runs the automatic check on a held video and stores the outcome. */
+export async function moderateVideo(
+  video: Video,
+  channel: Pick<Channel, "trustLevel"> | undefined,
+  options: ModerationOptions = {},
+): Promise<Video | undefined> {
+  const verdict = await evaluateVideo(video, channel, options);
+  if (verdict.status !== "approved") {
+    logger.info(`[moderation] ${verdict.status}: ${video.title} (${verdict.reason})`);
+  }
+  return applyModerationDecision(video, verdict, options);
+}
+
+/**
+ * Checks videos a channel just published and returns the ones that are
+ * public afterwards. Videos the check couldn't finish stay held for the
+ * moderation job.
+ */
+export async function moderateNewVideos(videoIds: string[], channel: Channel | undefined): Promise<Video[]> {
+  const published: Video[] = [];
+  for (const id of videoIds) {
+    const video = await storage.getVideo(id);
+    if (!video) continue;
+    if (video.moderationStatus === "approved") {
+      if (!video.hiddenAt) published.push(video);
+      continue;
+    }
+    try {
+      const updated = await moderateVideo(video, channel, { publish: false });
+      if (updated && !updated.hiddenAt) published.push(updated);
+    } catch (error) {
+      if (error instanceof AiBudgetExceededError) {
+        logger.warn(`[moderation] ${error.message}; leaving the rest for the moderation job`);
+        break;
+      }
+      logger.warn(`[moderation] Could not check ${video.id}: ${(error as Error).message}`);
+    }
+  }
+  return published;
+}
+
+/** Runs the automatic check on held videos whose check never finished, oldest first. */
+export async function moderatePendingVideos(options: ModerationBatchOptions = {}): Promise<ModerationSummary> {
+  const due = await storage.getVideosAwaitingModeration(options.limit ?? BATCH_SIZE);
+  const summary: ModerationSummary = { checked: 0, approved: 0, held: 0, failed: 0 };
+  const channels = new Map<string, Channel | undefined>();
+
+  for (const video of due) {
+    summary.checked++;
+    try {
+      if (!channels.has(video.channelId)) channels.set(video.channelId, await storage.getChannel(video.channelId));
+      const updated = await moderateVideo(video, channels.get(video.channelId));
+      if (updated?.moderationStatus === "approved") summary.approved++;
+      else summary.held++;
+    } catch (error) {
+      summary.failed++;
+      if (error instanceof AiBudgetExceededError) {
+        logger.warn(`[moderation] ${error.message}; stopping`);
+        await options.onProgress?.(summary, due.length);
+        break;
+      }
+      logger.warn(`[moderation] Could not check ${video.id}: ${(error as Error).message}`);
+    }
+    await options.onProgress?.(summary, due.length);
+  }
+
+  if (summary.checked > 0) {
+    logger.info(
+      `[moderation] Checked ${summary.checked} videos: ${summary.approved} approved, ${summary.held} held, ${summary.failed} failed`,
+    );
+  }
+  return summary;
+}
@@ -0,0 +1,537 @@
+import crypto from "crypto";
+import bcrypt from "bcrypt";
+import { storage } from "../storage/index.js";
+import { AuthenticationError, BusinessLogicError, ExternalServiceError } from "../errors/custom-errors.js";
+import { USER_ROLES, type OidcProvider, type User, type UserRole } from "../../shared/schema.js";
+
+// Discovery documents and key sets change rarely; keys are refetched early when a token names an unknown kid
+const METADATA_TTL_MS = 60 * 60 * 1000;
+const HTTP_TIMEOUT_MS = 10_000;
+// Allowed difference between our clock and the issuer's when checking exp and iat
+const CLOCK_SKEW_SECONDS = 60;
+
+const SUPPORTED_ALGORITHMS: Record<string, { hash: string; kind: "rsa" | "pss" | "ec" }> = {
+  RS256: { hash: "sha256", kind: "rsa" },
+  RS384: { hash: "sha384", kind: "rsa" },
+  RS512: { hash: "sha512", kind: "rsa" },
+  PS256: { hash: "sha256", kind: "pss" },
+  PS384: { hash: "sha384", kind: "pss" },
+  PS512: { hash: "sha512", kind: "pss" },
+  ES256: { hash: "sha256", kind: "ec" },
+  ES384: { hash: "sha384", kind: "ec" },
+  ES512: { hash: "sha512", kind: "ec" },
+};
+
+/** The parts of an OpenID Provider's /.well-known/openid-configuration we use. */
+interface DiscoveryDocument {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+  jwks_uri?: string;
+}
+
+/** A token endpoint's answer; plain OAuth 2.0 providers leave out the ID token. */
+interface TokenResponse {
+  access_token?: string;
+  id_token?: string;
+}
+
+type Jwk = crypto.JsonWebKey & { kid?: string; use?: string; alg?: string };
+
+interface JsonWebKeySet {
+  keys: Jwk[];
+}
+
+interface IdTokenHeader {
+  alg: string;
+  kid?: string;
+}
+
+type Endpoints = {
+  issuer: string | null;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userinfoEndpoint: string | null;
+  jwksUri: string | null;
+};
+
+export type OidcClaims = Record<string, unknown>;
+
+/** Claims of an ID token that passed verifyIdToken; the rest are kept as the provider sent them. */
+export interface IdTokenClaims extends OidcClaims {
+  iss: string;
+  sub: string;
+  aud: string | string[];
+  exp: number;
+  iat?: number;
+  nonce: string;
+  azp?: string;
+}
+
+/** What we keep from a provider's answer, whether it came from an ID token, userinfo or both. */
+export type OidcProfile = {
+  subject: string;
+  email: string | null;
+  emailVerified: boolean;
+  preferredUsername: string | null;
+  claims: OidcClaims;
+};
+
+/** State held in the session between the redirect to the provider and the callback. */
+export type OidcAuthorizationRequest = {
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+};
+
+const discoveryCache = new Map<string, { value: DiscoveryDocument; expiresAt: number }>();
+const jwksCache = new Map<string, { keys: Jwk[]; expiresAt: number }>();
+
+function trimSlash(url: string): string {
+  return url.replace(/\/+$/, "");
+}
+
+function randomToken(bytes = 32): string {
+  return crypto.randomBytes(bytes).toString("base64url");
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === "string" && value ? value : undefined;
+}
+
+async function fetchJson(url: string, init: RequestInit = {}): Promise<unknown> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      ...init,
+      headers: { Accept: "application/json", "User-Agent": "nisam.video", ...(init.headers || {}) },
+      signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+    });
+  } catch (error) {
+    throw new ExternalServiceError("oidc", `Could not reach ${new URL(url).host}`, { url, error: String(error) });
+  }
+  const body: unknown = await response.json().catch(() => null);
+  if (!response.ok || !body) {
+    throw new ExternalServiceError("oidc", `${new URL(url).host} answered ${response.status}`, {
+      url,
+      error: isRecord(body) ? body.error_description || body.error : undefined,
+    });
+  }
+  return body;
+}
+
+/** fetchJson for endpoints that must answer with a JSON object. */
+async function fetchJsonObject(url: string, init: RequestInit = {}): Promise<Record<string, unknown>> {
+  const body = await fetchJson(url, init);
+  if (!isRecord(body)) {
+    throw new ExternalServiceError("oidc", `${new URL(url).host} didn't answer with a JSON object`, { url });
+  }
+  return body;
+}
+
+function parseDiscoveryDocument(body: Record<string, unknown>, issuer: string): DiscoveryDocument {
+  const { issuer: named, authorization_endpoint, token_endpoint } = body;
+  if (typeof named !== "string" || typeof authorization_endpoint !== "string" || typeof token_endpoint !== "string") {
+    throw new ExternalServiceError("oidc", `Discovery for ${issuer} is missing the issuer or its endpoints`, { issuer });
+  }
+  return {
+    issuer: named,
+    authorization_endpoint,
+    token_endpoint,
+    userinfo_endpoint: optionalString(body.userinfo_endpoint),
+    jwks_uri: optionalString(body.jwks_uri),
+  };
+}
+
+function parseJsonWebKeySet(body: Record<string, unknown>): JsonWebKeySet {
+  const keys = Array.isArray(body.keys) ? body.keys : [];
+  return { keys: keys.filter((key): key is Jwk => isRecord(key) && typeof key.kty === "string") };
+}
+
+function parseTokenResponse(body: Record<string, unknown>): TokenResponse {
+  return { access_token: optionalString(body.access_token), id_token: optionalString(body.id_token) };
+}
+
+export async function discover(issuer: string, now = Date.now()): Promise<DiscoveryDocument> {
+  const key = trimSlash(issuer);
+  const cached = discoveryCache.get(key);
+  if (cached && cached.expiresAt > now) return cached.value;
+
+  const document = parseDiscoveryDocument(await fetchJsonObject(`${key}/.well-known/openid-configuration`), key);
+  // The document must describe the issuer we asked about (OpenID Connect Discovery 4.3)
+  if (trimSlash(document.issuer) !== key) {
+    throw new ExternalServiceError("oidc", `Discovery for ${key} names a different issuer`, { issuer: document.issuer });
+  }
+  discoveryCache.set(key, { value: document, expiresAt: now + METADATA_TTL_MS });
+  return document;
+}
+
+async function getSigningKeys(jwksUri: string, forceRefresh: boolean, now = Date.now()): Promise<Jwk[]> {
+  const cached = jwksCache.get(jwksUri);
+  if (cached && cached.expiresAt > now && !forceRefresh) return cached.keys;
+  const { keys } = parseJsonWebKeySet(await fetchJsonObject(jwksUri));
+  jwksCache.set(jwksUri, { keys, expiresAt: now + METADATA_TTL_MS });
+  return keys;
+}
+
+/** Drops cached discovery documents and keys, e.g. after a provider's settings change. */
+export function clearOidcCache() {
+  discoveryCache.clear();
+  jwksCache.clear();
+}
+
+/** Discovered endpoints with the provider's own overrides on top. */
+export async function resolveEndpoints(provider: OidcProvider): Promise<Endpoints> {
+  const discovered = provider.issuer ? await discover(provider.issuer) : null;
+  const authorizationEndpoint = provider.authorizationEndpoint || discovered?.authorization_endpoint;
+  const tokenEndpoint = provider.tokenEndpoint || discovered?.token_endpoint;
+  if (!authorizationEndpoint || !tokenEndpoint) {
+    throw new BusinessLogicError(`${provider.name} needs an issuer or authorization and token endpoints`);
+  }
+  return {
+    issuer: discovered ? trimSlash(discovered.issuer) : null,
+    authorizationEndpoint,
+    tokenEndpoint,
+    userinfoEndpoint: provider.userinfoEndpoint || discovered?.userinfo_endpoint || null,
+    jwksUri: discovered?.jwks_uri || null,
+  };
+}
+
+/** Where the provider sends the browser back; register this URL with the provider. */
+export function oidcRedirectUri(slug: string, requestOrigin: string): string {
+  const base = trimSlash(process.env.PUBLIC_BASE_URL || requestOrigin);
+  return `${base}/api/auth/oidc/${encodeURIComponent(slug)}/callback`;
+}
+
+export function pkceChallenge(codeVerifier: string): string {
+  return crypto.createHash("sha256").update(codeVerifier).digest("base64url");
+}
+
+/** The provider's authorization URL with fresh state, nonce and PKCE (S256) values. */
+export async function createAuthorizationRequest(
+  provider: OidcProvider,
+  redirectUri: string,
+): Promise<OidcAuthorizationRequest> {
+  const endpoints = await resolveEndpoints(provider);
+  const state = randomToken();
+  const nonce = randomToken();
+  const codeVerifier = randomToken(48);
+
+  const url = new URL(endpoints.authorizationEndpoint);
+  url.searchParams.set("response_type", "code");
+  url.searchParams.set("client_id", provider.clientId);
+  url.searchParams.set("redirect_uri", redirectUri);
+  url.searchParams.set("scope", provider.scopes);
+  url.searchParams.set("state", state);
+  url.searchParams.set("nonce", nonce);
+  url.searchParams.set("code_challenge", pkceChallenge(codeVerifier));
+  url.searchParams.set("code_challenge_method", "S256");
+
+  return { url: url.toString(), state, nonce, codeVerifier };
+}
+
+function decodeSegment(segment: string): Record<string, unknown> {
+  let decoded: unknown;
+  try {
+    decoded = JSON.parse(Buffer.from(segment, "base64url").toString("utf8"));
+  } catch {
+    throw new AuthenticationError("The ID token is malformed");
+  }
+  if (!isRecord(decoded)) throw new AuthenticationError("The ID token is malformed");
+  return decoded;
+}
+
+function parseIdTokenHeader(segment: string): IdTokenHeader {
+  const header = decodeSegment(segment);
+  if (typeof header.alg !== "string" || !SUPPORTED_ALGORITHMS[header.alg]) {
+    throw new AuthenticationError(`ID tokens signed with ${String(header.alg)} are not accepted`);
+  }
+  return { alg: header.alg, kid: optionalString(header.kid) };
+}
+
+function verifySignature(alg: string, key: crypto.KeyObject, data: Buffer, signature: Buffer): boolean {
+  const algorithm = SUPPORTED_ALGORITHMS[alg];
+  if (algorithm.kind === "pss") {
+    return crypto.verify(algorithm.hash, data, {
+      key,
+      padding: crypto.constants.RSA_PKCS1_PSS_PADDING,
+      saltLength: crypto.constants.RSA_PSS_SALTLEN_DIGEST,
+    }, signature);
+  }
+  if (algorithm.kind === "ec") {
+    return crypto.verify(algorithm.hash, data, { key, dsaEncoding: "ieee-p1363" }, signature);
+  }
+  return crypto.verify(algorithm.hash, data, key, signature);
+}
+
+/**
+ * Checks an ID token's signature against the issuer's keys and its iss, aud,
+ * azp, exp, iat and nonce claims, and returns the claims.
+ */
+export async function verifyIdToken(
+  idToken: string,
+  options: { issuer: string; jwksUri: string; clientId: string; nonce: string },
+  now = Date.now(),
+): Promise<IdTokenClaims> {
+  const parts = idToken.split(".");
+  if (parts.length !== 3) throw new AuthenticationError("The ID token is malformed");
+  const header = parseIdTokenHeader(parts[0]);
+  const claims = decodeSegment(parts[1]);
+
+  const findKey = (keys: Jwk[]) =>
+    keys.find((jwk) => (!header.kid || jwk.kid === header.kid) && jwk.use !== "enc" && (!jwk.alg || jwk.alg === header.alg));
+  let jwk = findKey(await getSigningKeys(options.jwksUri, false, now));
+  // The issuer may have rotated its keys since we cached them
+  if (!jwk) jwk = findKey(await getSigningKeys(options.jwksUri, true, now));
+  if (!jwk) throw new AuthenticationError("The ID token was signed with an unknown key");
+
+  let key: crypto.KeyObject;
+  try {
+    key = crypto.createPublicKey({ key: jwk, format: "jwk" });
+  } catch {
+    throw new AuthenticationError("The issuer published a key we can't read");
+  }
+  const signed = Buffer.from(`${parts[0]}.${parts[1]}`);
+  if (!verifySignature(header.alg, key, signed, Buffer.from(parts[2], "base64url"))) {
+    throw new AuthenticationError("The ID token signature is invalid");
+  }
+
+  const seconds = Math.floor(now / 1000);
+  const { iss, sub, aud, exp, iat, nonce, azp } = claims;
+  const audiences = Array.isArray(aud) ? aud : [aud];
+  if (typeof iss !== "string" || trimSlash(iss) !== trimSlash(options.issuer)) {
+    throw new AuthenticationError("The ID token comes from a different issuer");
+  }
+  if (!audiences.every((value): value is string => typeof value === "string") || !audiences.includes(options.clientId)) {
+    throw new AuthenticationError("The ID token was issued to a different client");
+  }
+  if (audiences.length > 1 && azp !== undefined && azp !== options.clientId) {
+    throw new AuthenticationError("The ID token was issued to a different client");
+  }
+  if (typeof exp !== "number" || exp + CLOCK_SKEW_SECONDS < seconds) {
+    throw new AuthenticationError("The ID token has expired");
+  }
+  if (typeof iat === "number" && iat - CLOCK_SKEW_SECONDS > seconds) {
+    throw new AuthenticationError("The ID token was issued in the future");
+  }
+  if (typeof nonce !== "string" || !safeEqual(nonce, options.nonce)) {
+    throw new AuthenticationError("The ID token doesn't match this sign-in");
+  }
+  if (typeof sub !== "string" || !sub) {
+    throw new AuthenticationError("The ID token has no subject");
+  }
+  return {
+    ...claims,
+    iss,
+    sub,
+    aud: audiences,
+    exp,
+    iat: typeof iat === "number" ? iat : undefined,
+    nonce,
+    azp: optionalString(azp),
+  };
+}
+
+export function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+function profileFromClaims(claims: OidcClaims): OidcProfile {
+  // Plain OAuth 2.0 userinfo (GitHub) has a numeric id and a login instead of sub and preferred_username
+  const subject = claims.sub ?? claims.id;
+  if (subject === undefined || subject === null || subject === "") {
+    throw new AuthenticationError("The provider didn't say who signed in");
+  }
+  const email = typeof claims.email === "string" && claims.email ? claims.email : null;
+  const preferred = [claims.preferred_username, claims.login, claims.nickname].find(
+    (value): value is string => typeof value === "string" && value.length > 0,
+  );
+  return {
+    subject: String(subject),
+    email,
+    emailVerified: Boolean(email) && (claims.email_verified === true || claims.email_verified === "true"),
+    preferredUsername: preferred ?? (email ? email.split("@")[0] : null),
+    claims,
+  };
+}
+
+/**
+ * Exchanges the authorization code (with the PKCE verifier), verifies the ID
+ * token when the provider speaks OpenID Connect and merges in userinfo.
+ */
+export async function completeAuthorization(
+  provider: OidcProvider,
+  params: { code: string; redirectUri: string; codeVerifier: string; nonce: string },
+): Promise<OidcProfile> {
+  const endpoints = await resolveEndpoints(provider);
+
+  const form = new URLSearchParams({
+    grant_type: "authorization_code",
+    code: params.code,
+    redirect_uri: params.redirectUri,
+    code_verifier: params.codeVerifier,
+    client_id: provider.clientId,
+  });
+  if (provider.clientSecret) form.set("client_secret", provider.clientSecret);
+
+  const tokens = parseTokenResponse(
+    await fetchJsonObject(endpoints.tokenEndpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: form.toString(),
+    }),
+  );
+
+  let claims: OidcClaims = {};
+  if (tokens.id_token) {
+    if (!endpoints.issuer || !endpoints.jwksUri) {
+      throw new BusinessLogicError(`${provider.name} returned an ID token but has no issuer to check it against`);
+    }
+    claims = await verifyIdToken(tokens.id_token, {
+      issuer: endpoints.issuer,
+      jwksUri: endpoints.jwksUri,
+      clientId: provider.clientId,
+      nonce: params.nonce,
+    });
+  } else if (endpoints.issuer) {
+    throw new AuthenticationError(`${provider.name} didn't return an ID token`);
+  }
+
+  if (endpoints.userinfoEndpoint && tokens.access_token) {
+    const userinfo: OidcClaims = await fetchJsonObject(endpoints.userinfoEndpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+    });
+    // Userinfo must describe the same subject as the ID token (OpenID Connect Core 5.3.2)
+    if (claims.sub !== undefined && userinfo.sub !== undefined && userinfo.sub !== claims.sub) {
+      throw new AuthenticationError("The provider's user info doesn't match the ID token");
+    }
+    claims = { ...userinfo, ...claims };
+  } else if (!tokens.id_token) {
+    throw new BusinessLogicError(`${provider.name} needs a userinfo endpoint`);
+  }
+
+  return profileFromClaims(claims);
+}
+
+function readClaim(claims: OidcClaims, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) => (value && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined),
+    claims,
+  );
+}
+
+/** The most privileged role the provider's role claim maps to, or null when nothing matches. */
+export function mapRoleFromClaims(provider: Pick<OidcProvider, "roleClaim" | "roleMappings">, claims: OidcClaims): UserRole | null {
+  if (!provider.roleClaim) return null;
+  const raw = readClaim(claims, provider.roleClaim);
+  const values = (Array.isArray(raw) ? raw : [raw]).filter((v) => typeof v === "string" || typeof v === "number").map(String);
+  const mapped = values
+    .map((value) => provider.roleMappings[value])
+    .filter((role): role is UserRole => USER_ROLES.includes(role));
+  if (!mapped.length) return null;
+  // USER_ROLES runs from most to least privileged
+  return mapped.sort((a, b) => USER_ROLES.indexOf(a) - USER_ROLES.indexOf(b))[0];
+}
+
+async function availableUsername(preferred: string | null): Promise<string> {
+  const base = (preferred || "user").replace(/[^a-zA-Z0-9_.-]/g, "").slice(0, 24).padEnd(3, "0");
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const candidate = attempt === 0 ? base : `${base}${attempt + 1}`;
+    if (!(await storage.getUserByUsername(candidate))) return candidate;
+  }
+  return `${base}-${crypto.randomBytes(3).toString("hex")}`;
+}
+
+export type OidcSignInResult = { user: User; created: boolean; linked: boolean };
+
+/**
+ * Finds or creates the user for a provider identity.
+ *
+ * With `linkUserId` the identity is attached to that (signed-in) user.
+ * Otherwise a known identity signs in its user, a verified email matching an
+ * existing user links to it when the provider allows and the local account
+ * verified that address too, and anyone else gets a new account when sign-up
+ * is allowed. A role mapped from the claims is
+ * applied on every sign-in; without a match the user's role stays as it is.
+ */
+export async function resolveOidcUser(
+  provider: OidcProvider,
+  profile: OidcProfile,
+  linkUserId?: string,
+): Promise<OidcSignInResult> {
+  const existing = await storage.getUserIdentity(provider.id, profile.subject);
+  let user: User | undefined;
+  let created = false;
+  let linked = false;
+
+  if (linkUserId) {
+    if (existing && existing.userId !== linkUserId) {
+      throw new BusinessLogicError(`This ${provider.name} account is already linked to another user`);
+    }
+    user = await storage.getUser(linkUserId);
+    if (!user) throw new AuthenticationError("Sign in again to link an account");
+    linked = !existing;
+  } else if (existing) {
+    user = await storage.getUser(existing.userId);
+  }
+
+  if (!user && provider.linkByEmail && profile.email && profile.emailVerified) {
+    const match = await storage.getUserByEmail(profile.email);
+    // An unverified local address could have been registered by anyone, so
+    // linking to it would hand the provider sign-in to whoever claimed it first
+    if (match && !match.emailVerifiedAt) {
+      throw new AuthenticationError(
+        `An account with this email already exists. Log in with your password and link ${provider.name} in Settings.`,
+      );
+    }
+    user = match;
+    linked = Boolean(user);
+  }
+
+  const mappedRole = mapRoleFromClaims(provider, profile.claims);
+
+  if (!user) {
+    if (!provider.allowSignup) {
+      throw new AuthenticationError(
+        `No account is linked to this ${provider.name} sign-in. Log in with your password and link it in Settings.`,
+      );
+    }
+    const emailTaken = profile.email ? Boolean(await storage.getUserByEmail(profile.email)) : true;
+    user = await storage.createUser({
+      username: await availableUsername(profile.preferredUsername),
+      // Nobody knows this password; the user can set one with a reset link
+      password: await bcrypt.hash(crypto.randomBytes(32).toString("hex"), 10),
+      passwordSet: false,
+      email: emailTaken ? null : profile.email,
+      role: mappedRole ?? "user",
+    });
+    if (!emailTaken && profile.emailVerified) {
+      user = (await storage.updateUser(user.id, { emailVerifiedAt: new Date() })) ?? user;
+    }
+    created = true;
+  } else if (mappedRole && mappedRole !== user.role) {
+    user = (await storage.updateUserRole(user.id, mappedRole)) ?? user;
+  }
+
+  if (existing) {
+    await storage.updateUserIdentity(existing.id, { email: profile.email, lastLoginAt: new Date() });
+  } else {
+    await storage.createUserIdentity({
+      userId: user.id,
+      providerId: provider.id,
+      subject: profile.subject,
+      email: profile.email,
+      lastLoginAt: new Date(),
+    });
+  }
+
+  return { user, created, linked };
+}
@@ -0,0 +1,84 @@
+import type { SessionData } from "express-session";
+import { storage } from "../storage/index.js";
+import { ValidationError } from "../errors/custom-errors.js";
+import { isTwoFactorRequired } from "./two-factor.js";
+import {
+  DEFAULT_ROLE_PERMISSIONS,
+  PERMISSIONS,
+  USER_ROLES,
+  type Permission,
+  type UserRole,
+} from "../../shared/schema.js";
+
+type PermissionSession =
+  | Partial<Pick<SessionData, "isAuthenticated" | "userId" | "role" | "twoFactorSetupRequired">>
+  | undefined;
+
+const CACHE_TTL = 60_000;
+
+let cached: { map: Record<UserRole, Permission[]>; fetchedAt: number } | null = null;
+
+export function isUserRole(role: unknown): role is UserRole {
+  return USER_ROLES.includes(role as UserRole);
+}
+
+/** Permissions of every role: saved overrides on top of the defaults. Admin always has all of them. */
+export async function getRolePermissionMap(): Promise<Record<UserRole, Permission[]>> {
+  if (cached && Date.now() - cached.fetchedAt < CACHE_TTL) return cached.map;
+
+  const map = Object.fromEntries(
+    USER_ROLES.map((role) => [role, [...DEFAULT_ROLE_PERMISSIONS[role]]]),
+  ) as Record<UserRole, Permission[]>;
+  for (const saved of await storage.getRolePermissions()) {
+    if (!isUserRole(saved.role) || saved.role === "admin") continue;
+    map[saved.role] = PERMISSIONS.filter((permission) => saved.permissions.includes(permission));
+  }
+
+  cached = { map, fetchedAt: Date.now() };
+  return map;
+}
+
+export async function getPermissionsForRole(role: string | null | undefined): Promise<Permission[]> {
+  if (!isUserRole(role)) return [];
+  return (await getRolePermissionMap())[role];
+}
+
+export async function updateRolePermissions(role: UserRole, permissions: Permission[]): Promise<Permission[]> {
+  if (role === "admin") {
+    throw new ValidationError("The admin role always has every permission");
+  }
+  const ordered = PERMISSIONS.filter((permission) => permissions.includes(permission));
+  await storage.setRolePermissions(role, ordered);
+  cached = null;
+  return ordered;
+}
+
+/**
+ * The session's current role. Database users are looked up again so a
+ * demotion applies on their next request rather than their next login; the
+ * environment-configured admin has no user record and keeps its session role.
+ * Whether the user still owes a two-factor enrollment is refreshed alongside.
+ */
+export async function resolveSessionRole(session: PermissionSession): Promise<string | undefined> {
+  if (!session?.isAuthenticated) return undefined;
+  if (!session.userId) return session.role;
+  const user = await storage.getUser(session.userId);
+  if (user && session.role !== user.role) session.role = user.role;
+  session.twoFactorSetupRequired = user ? isTwoFactorRequired(user) : false;
+  return user?.role;
+}
+
+export async function getSessionPermissions(session: PermissionSession): Promise<Permission[]> {
+  return getPermissionsForRole(await resolveSessionRole(session));
+}
+
+/**
+ * For routes that serve everyone but show more to users with the permission.
+ * Like requirePermission, it grants nothing while the user still owes a
+ * two-factor enrollment.
+ */
+export async function sessionHasPermission(session: PermissionSession, permission: Permission): Promise<boolean> {
+  const granted = await getSessionPermissions(session);
+  if (session?.twoFactorSetupRequired) return false;
+  return granted.includes(permission);
+}
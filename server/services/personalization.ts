@@ -0,0 +1,262 @@
+import { storage } from "../storage/index.js";
+import { kvService } from "../kv-service.js";
+import { logger } from "../lib/logger.js";
+import { computeResumeSeconds } from "./user-library.js";
+import { findSimilarVideoIds } from "./embeddings.js";
+import type {
+  ContinueWatchingVideo,
+  PersonalizedHomeRows,
+  VideoWithLocalizedRelations,
+} from "../../shared/schema.js";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Older activity counts for less: a view two weeks ago weighs half a view today
+const VIEW_HALF_LIFE_DAYS = 14;
+const LIKE_HALF_LIFE_DAYS = 60;
+const LIKE_WEIGHT = 3;
+// Repeat views of one video add up, but not without limit
+const MAX_VIEWS_PER_VIDEO = 3;
+const SIGNAL_WINDOW_DAYS = 90;
+// Channels, categories and tags are taken from this many of the most engaged videos
+const PROFILE_VIDEOS = 50;
+const LIKED_CHANNELS = 3;
+// Trending keeps this position for a video from outside the visitor's channels and categories
+const EXPLORATION_SLOT = 3;
+
+export type VisitorIdentity = {
+  /** "user:<id>" when signed in, otherwise the anonymous identifier */
+  userIdentifier: string;
+  userId?: string | null;
+};
+
+/** Decayed interest in each channel, category and tag, built from the videos a visitor engaged with. */
+export type AffinityProfile = {
+  videoWeights: Map<string, number>;
+  channels: Map<string, number>;
+  categories: Map<string, number>;
+  tags: Map<string, number>;
+  /** Most recently watched first */
+  recentlyWatched: string[];
+};
+
+function decay(at: Date, halfLifeDays: number, now: Date): number {
+  const ageDays = Math.max(0, now.getTime() - at.getTime()) / DAY_MS;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+function addWeight(weights: Map<string, number>, key: string, weight: number) {
+  weights.set(key, (weights.get(key) || 0) + weight);
+}
+
+function normalized(weights: Map<string, number>, key: string): number {
+  const max = Math.max(0, ...Array.from(weights.values()));
+  return max > 0 ? (weights.get(key) || 0) / max : 0;
+}
+
+/**
+ * Collects the visitor's views and likes, the signed-in watch history and the
+ * KV viewing history of anonymous visitors into weights per video, then
+ * spreads those over the videos' channels, categories and tags.
+ */
+export async function buildAffinityProfile(
+  identity: VisitorIdentity,
+  now: Date = new Date(),
+): Promise<AffinityProfile> {
+  const videoWeights = new Map<string, number>();
+  const recentlyWatched: string[] = [];
+
+  const [signals, history, kvHistory] = await Promise.all([
+    storage.getEngagementSignals(identity.userIdentifier, new Date(now.getTime() - SIGNAL_WINDOW_DAYS * DAY_MS)),
+    identity.userId ? storage.getWatchHistory(identity.userId, PROFILE_VIDEOS) : Promise.resolve([]),
+    identity.userId ? Promise.resolve([]) : kvService.getViewingHistory(identity.userIdentifier),
+  ]);
+
+  for (const signal of signals) {
+    const views = Math.min(signal.views, MAX_VIEWS_PER_VIDEO) * decay(signal.lastEngagedAt, VIEW_HALF_LIFE_DAYS, now);
+    const like = signal.liked ? LIKE_WEIGHT * decay(signal.lastEngagedAt, LIKE_HALF_LIFE_DAYS, now) : 0;
+    addWeight(videoWeights, signal.videoId, views + like);
+  }
+  // History rows are views too; they only add weight where video_views has none
+  for (const entry of history) {
+    recentlyWatched.push(entry.videoId);
+    if (!videoWeights.has(entry.videoId)) {
+      addWeight(videoWeights, entry.videoId, decay(new Date(entry.watchedAt), VIEW_HALF_LIFE_DAYS, now));
+    }
+  }
+  // The KV history has no timestamps, only an order
+  kvHistory.forEach((videoId, index) => {
+    recentlyWatched.push(videoId);
+    if (!videoWeights.has(videoId)) addWeight(videoWeights, videoId, Math.pow(0.9, index));
+  });
+  if (recentlyWatched.length === 0) {
+    recentlyWatched.push(...signals.filter((s) => s.views > 0).map((s) => s.videoId));
+  }
+
+  const profile: AffinityProfile = {
+    videoWeights,
+    channels: new Map(),
+    categories: new Map(),
+    tags: new Map(),
+    recentlyWatched: Array.from(new Set(recentlyWatched)),
+  };
+
+  const topIds = Array.from(videoWeights.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, PROFILE_VIDEOS)
+    .map(([videoId]) => videoId);
+  for (const video of await storage.getVideosWithRelationsByIds(topIds)) {
+    const weight = videoWeights.get(video.id) || 0;
+    addWeight(profile.channels, video.channelId, weight);
+    for (const category of video.categories || []) addWeight(profile.categories, category.id, weight);
+    for (const tag of video.tags || []) addWeight(profile.tags, tag.tagName.toLowerCase(), weight / 2);
+  }
+  return profile;
+}
+
+/** 0..1: half from the channel, the rest from the best matching category and tag. */
+export function affinityScore(video: VideoWithLocalizedRelations, profile: AffinityProfile): number {
+  const channel = normalized(profile.channels, video.channelId);
+  const category = Math.max(0, ...(video.categories || []).map((c) => normalized(profile.categories, c.id)));
+  const tag = Math.max(0, ...(video.tags || []).map((t) => normalized(profile.tags, t.tagName.toLowerCase())));
+  return channel * 0.5 + category * 0.3 + tag * 0.2;
+}
+
+function isNewTo(video: VideoWithLocalizedRelations, profile: AffinityProfile): boolean {
+  return !profile.channels.has(video.channelId) && !(video.categories || []).some((c) => profile.categories.has(c.id));
+}
+
+/**
+ * Blends each video's trending position with the visitor's affinity and
+ * keeps one slot for the best trending video from a channel and categories
+ * the visitor hasn't watched, so the row doesn't narrow to what they know.
+ */
+export function personalizeTrending(
+  trending: VideoWithLocalizedRelations[],
+  profile: AffinityProfile,
+  limit: number,
+): VideoWithLocalizedRelations[] {
+  const candidates = trending.filter((video) => !profile.videoWeights.has(video.id));
+  const scored = candidates.map((video, index) => ({
+    video,
+    score: (1 - index / candidates.length) * 0.5 + affinityScore(video, profile) * 0.5,
+  }));
+  const ranked = scored.sort((a, b) => b.score - a.score).map((s) => s.video);
+
+  const explore = ranked.find((video, index) => index >= EXPLORATION_SLOT && isNewTo(video, profile));
+  if (!explore) return ranked.slice(0, limit);
+  const rest = ranked.filter((video) => video !== explore);
+  rest.splice(Math.min(EXPLORATION_SLOT, rest.length), 0, explore);
+  return rest.slice(0, limit);
+}
+
+async function continueWatching(userId: string, limit: number, lang: string): Promise<ContinueWatchingVideo[]> {
+  const history = await storage.getWatchHistory(userId, PROFILE_VIDEOS);
+  const resumable = history
+    .map((entry) => ({ videoId: entry.videoId, resumeSeconds: computeResumeSeconds(entry) }))
+    .filter((entry) => entry.resumeSeconds > 0)
+    .slice(0, limit);
+  const videos = await storage.getVideosWithRelationsByIds(resumable.map((entry) => entry.videoId), lang);
+  const byId = new Map(videos.map((video) => [video.id, video]));
+  return resumable
+    .filter((entry) => byId.has(entry.videoId) && !byId.get(entry.videoId)!.hiddenAt)
+    .map((entry) => ({ ...byId.get(entry.videoId)!, resumeSeconds: entry.resumeSeconds }));
+}
+
+async function becauseYouWatched(
+  profile: AffinityProfile,
+  limit: number,
+  lang: string,
+): Promise<PersonalizedHomeRows["becauseYouWatched"]> {
+  const [seed] = (await storage.getVideosWithRelationsByIds(profile.recentlyWatched.slice(0, 5), lang)).filter(
+    (video) => !video.hiddenAt,
+  );
+  if (!seed) return null;
+
+  const unseen = (video: VideoWithLocalizedRelations) =>
+    video.id !== seed.id && !video.hiddenAt && !profile.videoWeights.has(video.id);
+
+  // Embedding neighbours when available, otherwise the seed's category ranked by affinity
+  let videos: VideoWithLocalizedRelations[];
+  const similarIds = await findSimilarVideoIds(seed.id, limit * 2);
+  if (similarIds) {
+    videos = (await storage.getVideosWithRelationsByIds(similarIds, lang)).filter(unseen);
+  } else {
+    const categoryId = seed.categories?.[0]?.id;
+    const candidates = categoryId
+      ? await storage.getAllVideos({ categoryId, limit: limit * 4, lang })
+      : await storage.getAllVideos({ channelId: seed.channelId, limit: limit * 4, lang });
+    videos = candidates
+      .filter(unseen)
+      .sort((a, b) => affinityScore(b, profile) - affinityScore(a, profile));
+  }
+  if (videos.length === 0) return null;
+  return { seed: { id: seed.id, title: seed.title, slug: seed.slug }, videos: videos.slice(0, limit) };
+}
+
+/** Newest unseen videos from the visitor's top channels, taking turns between channels. */
+async function fromChannelsYouLike(
+  profile: AffinityProfile,
+  limit: number,
+  lang: string,
+): Promise<VideoWithLocalizedRelations[]> {
+  const channelIds = Array.from(profile.channels.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, LIKED_CHANNELS)
+    .map(([channelId]) => channelId);
+  const perChannel = await Promise.all(
+    channelIds.map(async (channelId) =>
+      (await storage.getAllVideos({ channelId, limit: limit * 2, lang, sort: "publishDate" })).filter(
+        (video) => !profile.videoWeights.has(video.id) && video.videoType !== "youtube_short" && video.videoType !== "tiktok",
+      ),
+    ),
+  );
+
+  const row: VideoWithLocalizedRelations[] = [];
+  for (let i = 0; row.length < limit && perChannel.some((videos) => i < videos.length); i++) {
+    for (const videos of perChannel) {
+      if (videos[i] && row.length < limit) row.push(videos[i]);
+    }
+  }
+  return row;
+}
+
+const EMPTY_ROWS: PersonalizedHomeRows = {
+  personalized: false,
+  continueWatching: [],
+  becauseYouWatched: null,
+  fromChannelsYouLike: [],
+  trending: [],
+};
+
+/**
+ * Home page rows for one visitor. Visitors without any history get the empty
+ * rows, and the shared carousels are all they see.
+ */
+export async function getPersonalizedHomeRows(
+  identity: VisitorIdentity,
+  options: { lang?: string; limit?: number } = {},
+): Promise<PersonalizedHomeRows> {
+  const lang = options.lang || "en";
+  const limit = options.limit || 10;
+  try {
+    const profile = await buildAffinityProfile(identity);
+    if (profile.videoWeights.size === 0) return EMPTY_ROWS;
+
+    const [resume, similar, channels, trending] = await Promise.all([
+      identity.userId ? continueWatching(identity.userId, limit, lang) : Promise.resolve([]),
+      becauseYouWatched(profile, limit, lang),
+      fromChannelsYouLike(profile, limit, lang),
+      storage.getTrendingVideos(limit * 3, lang),
+    ]);
+    return {
+      personalized: true,
+      continueWatching: resume,
+      becauseYouWatched: similar,
+      fromChannelsYouLike: channels,
+      trending: personalizeTrending(trending, profile, limit),
+    };
+  } catch (error) {
+    logger.error(`[personalization] Home rows failed for ${identity.userIdentifier}:`, error);
+    return EMPTY_ROWS;
+  }
+}
@@ -0,0 +1,165 @@
+import { z } from "zod";
+import { storage } from "../storage/index.js";
+import { ValidationError } from "../errors/custom-errors.js";
+import { generateSlug } from "../utils.js";
+import type { AiPromptKey, AiPromptTemplate } from "../../shared/schema.js";
+
+export const MAX_CATEGORIES = 5;
+export const MAX_TAGS = 10;
+
+export const DEFAULT_CATEGORIZATION_PROMPT = `Analyze this video and provide categories and tags in each of these languages: {{languages}}.
+
+Title: {{title}}
+Description: {{description}}
+Transcript: {{transcript}}
+
+{{output_format}}
+
+Return ONLY valid JSON. Do not include markdown formatting or explanations.`;
+
+export const DEFAULT_PROMPTS: Record<AiPromptKey, string> = {
+  categorization: DEFAULT_CATEGORIZATION_PROMPT,
+};
+
+/** Variables a template may use; the required ones must appear in every version. */
+export const PROMPT_VARIABLES: Record<AiPromptKey, { name: string; description: string; required?: boolean }[]> = {
+  categorization: [
+    { name: "title", description: "Video title", required: true },
+    { name: "description", description: "Video description, or \"No description\"" },
+    { name: "transcript", description: "Start of the spoken transcript, or \"No transcript\"" },
+    { name: "languages", description: "Enabled languages, e.g. \"English (en), Srpski (sr-Latn)\"" },
+    {
+      name: "output_format",
+      description: "The JSON fields to return for every enabled language, with an example; in controlled taxonomy mode also the categories to choose from",
+      required: true,
+    },
+  ],
+};
+
+const VARIABLE_PATTERN = /\{\{\s*([a-z_]+)\s*\}\}/g;
+
+export type CategorizationLanguage = { code: string; name: string };
+
+/** Active languages with English first; English names are what categories are matched on. */
+export async function getCategorizationLanguages(): Promise<CategorizationLanguage[]> {
+  const languages = (await storage.getSupportedLanguages()).filter((lang) => lang.isActive && lang.code !== "en");
+  return [{ code: "en", name: "English" }, ...languages.map((lang) => ({ code: lang.code, name: lang.name }))];
+}
+
+/** JSON field for a language, e.g. categories_en or tags_sr_latn */
+export function outputField(kind: "categories" | "tags", languageCode: string): string {
+  return `${kind}_${languageCode.toLowerCase().replace(/[^a-z0-9]+/g, "_")}`;
+}
+
+const names = z
+  .array(z.string())
+  .default([])
+  .transform((values) => values.map((value) => value.trim()).filter(Boolean));
+
+/** Categories and tags arrays for every language; missing ones default to empty. */
+export function buildCategorizationSchema(languages: CategorizationLanguage[]) {
+  const shape: Record<string, typeof names> = {};
+  for (const lang of languages) {
+    shape[outputField("categories", lang.code)] = names;
+    shape[outputField("tags", lang.code)] = names;
+  }
+  return z.object(shape);
+}
+
+export type CuratedCategory = { id: string; name: string };
+
+/** The existing categories by English name, which the controlled taxonomy mode picks from. */
+export async function getCuratedCategories(): Promise<CuratedCategory[]> {
+  const categories = await storage.getAllLocalizedCategories("en");
+  return categories.filter((category) => category.name).map((category) => ({ id: category.id, name: category.name }));
+}
+
+/** Curated categories the model named, ignoring case and accents; anything else is dropped. */
+export function matchCuratedCategories(names: string[], curated: CuratedCategory[]): CuratedCategory[] {
+  const bySlug = new Map(curated.map((category) => [generateSlug(category.name), category]));
+  const matched: CuratedCategory[] = [];
+  for (const name of names) {
+    const category = bySlug.get(generateSlug(name));
+    if (category && !matched.includes(category)) matched.push(category);
+  }
+  return matched.slice(0, MAX_CATEGORIES);
+}
+
+/**
+ * The fields to return for every language. With `curated` (controlled
+ * taxonomy mode) categories are only asked for in English, from that list.
+ */
+export function describeCategorizationOutput(languages: CategorizationLanguage[], curated?: CuratedCategory[]): string {
+  const lines = ["Return a JSON object with:"];
+  const example: Record<string, string[]> = {};
+  for (const lang of languages) {
+    const label = `${lang.name} (${lang.code})`;
+    if (!curated) {
+      lines.push(`- ${outputField("categories", lang.code)}: array of up to ${MAX_CATEGORIES} broad categories in ${label}`);
+      example[outputField("categories", lang.code)] = lang.code === "en" ? ["Technology", "Education"] : ["..."];
+    } else if (lang.code === "en") {
+      const allowed = curated.map((category) => JSON.stringify(category.name)).join(", ");
+      lines.push(
+        `- ${outputField("categories", lang.code)}: array of up to ${MAX_CATEGORIES} categories chosen only from this list, spelled exactly as listed: ${allowed || "(none)"}`,
+      );
+      example[outputField("categories", lang.code)] = curated.slice(0, 2).map((category) => category.name);
+    }
+    lines.push(`- ${outputField("tags", lang.code)}: array of up to ${MAX_TAGS} specific descriptive tags in ${label}`);
+    example[outputField("tags", lang.code)] = lang.code === "en" ? ["AI", "Coding", "Tutorial"] : ["..."];
+  }
+  lines.push(
+    curated
+      ? "List tags in the same order in every language, so the nth entries are translations of each other."
+      : "List categories and tags in the same order in every language, so the nth entries are translations of each other.",
+  );
+  return `${lines.join("\n")}\n\nExample JSON:\n${JSON.stringify(example, null, 2)}`;
+}
+
+export function renderPromptTemplate(body: string, variables: Record<string, string>): string {
+  return body.replace(VARIABLE_PATTERN, (match, name: string) => variables[name] ?? match);
+}
+
+/** The categorization prompt for one video, as sent to the model. */
+export function buildCategorizationPrompt(
+  body: string,
+  video: { title: string; description?: string | null; transcript?: string | null },
+  languages: CategorizationLanguage[],
+  curated?: CuratedCategory[],
+): string {
+  return renderPromptTemplate(body, {
+    title: video.title,
+    description: video.description || "No description",
+    transcript: video.transcript || "No transcript",
+    languages: languages.map((lang) => `${lang.name} (${lang.code})`).join(", "),
+    output_format: describeCategorizationOutput(languages, curated),
+  });
+}
+
+/** Rejects unknown variables and templates missing a required one. */
+export function validatePromptTemplate(key: AiPromptKey, body: string): void {
+  const known = PROMPT_VARIABLES[key];
+  const used = new Set(Array.from(body.matchAll(VARIABLE_PATTERN), (match) => match[1]));
+  const unknown = Array.from(used).filter((name) => !known.some((v) => v.name === name));
+  if (unknown.length > 0) {
+    throw new ValidationError(`Unknown variables: ${unknown.map((name) => `{{${name}}}`).join(", ")}`, "body");
+  }
+  const missing = known.filter((v) => v.required && !used.has(v.name));
+  if (missing.length > 0) {
+    throw new ValidationError(`The template must use ${missing.map((v) => `{{${v.name}}}`).join(", ")}`, "body");
+  }
+}
+
+/** The active version of the prompt, or the built-in one (template null) when none is active. */
+export async function resolvePromptTemplate(key: AiPromptKey): Promise<{ body: string; template: AiPromptTemplate | null }> {
+  const template = await storage.getActivePromptTemplate(key);
+  return template ? { body: template.body, template } : { body: DEFAULT_PROMPTS[key], template: null };
+}
+
+export async function savePromptTemplate(
+  key: AiPromptKey,
+  data: { body: string; note?: string | null; activate: boolean },
+  createdBy?: string | null,
+): Promise<AiPromptTemplate> {
+  validatePromptTemplate(key, data.body);
+  return storage.createPromptTemplateVersion(key, { body: data.body, note: data.note, createdBy }, data.activate);
+}
@@ -0,0 +1,308 @@
+import { createHash } from "crypto";
+import { storage } from "../storage/index.js";
+import { logger } from "../lib/logger.js";
+import { BusinessLogicError } from "../errors/custom-errors.js";
+import { parseUserAgent } from "./visitor-analytics.js";
+import type {
+  SeoAbTest,
+  SeoAbTestCount,
+  SeoAbTestElement,
+  SeoAbTestResults,
+  SeoAbTestVariant,
+  SeoAbVariantStats,
+  SeoMetaTag,
+} from "../../shared/schema.js";
+
+/** Fewer impressions than this per variant and no test is called significant, whatever the p-value. */
+export const MIN_IMPRESSIONS_PER_VARIANT = 100;
+const SIGNIFICANCE_LEVEL = 0.05;
+const RUNNING_CACHE_MS = 60 * 1000;
+
+const META_TAG_FIELDS: Record<SeoAbTestElement, keyof SeoMetaTag> = {
+  title: "title",
+  description: "description",
+  og_title: "ogTitle",
+  og_description: "ogDescription",
+};
+
+/**
+ * Sites whose crawler fetches the page and then shows its title or
+ * description to the people who click through. DuckDuckGo and Yahoo show
+ * Bing's index.
+ */
+const SEO_AB_SOURCES: { name: string; crawler: RegExp; referrer: RegExp }[] = [
+  { name: "google", crawler: /Googlebot|Google-InspectionTool|GoogleOther/i, referrer: /(^|\.)google\.[a-z.]+$/ },
+  { name: "bing", crawler: /bingbot|msnbot|BingPreview/i, referrer: /(^|\.)(bing\.com|duckduckgo\.com|search\.yahoo\.com)$/ },
+  { name: "yandex", crawler: /YandexBot|YandexMobileBot/i, referrer: /(^|\.)yandex\.[a-z.]+$/ },
+  { name: "facebook", crawler: /facebookexternalhit|facebookcatalog|meta-externalagent/i, referrer: /(^|\.)(facebook\.com|fb\.com|instagram\.com|messenger\.com)$/ },
+  { name: "twitter", crawler: /Twitterbot/i, referrer: /(^|\.)(t\.co|twitter\.com|x\.com)$/ },
+  { name: "linkedin", crawler: /LinkedInBot/i, referrer: /(^|\.)(linkedin\.com|lnkd\.in)$/ },
+];
+
+export interface SeoAbVisitor {
+  key: string;
+  bot: boolean;
+  /** The search engine or social site a person clicked through from */
+  source: string | null;
+}
+
+let runningCache: { loadedAt: number; tests: SeoAbTest[] } | null = null;
+
+export function invalidateRunningSeoAbTests(): void {
+  runningCache = null;
+}
+
+export async function getRunningSeoAbTests(pageUrl: string): Promise<SeoAbTest[]> {
+  if (!runningCache || Date.now() - runningCache.loadedAt > RUNNING_CACHE_MS) {
+    runningCache = { loadedAt: Date.now(), tests: await storage.getSeoAbTests(["running"]) };
+  }
+  return runningCache.tests.filter((test) => test.pageUrl === pageUrl);
+}
+
+export function seoAbCrawlerSource(userAgent: string | undefined): string | null {
+  if (!userAgent) return null;
+  return SEO_AB_SOURCES.find((source) => source.crawler.test(userAgent))?.name ?? null;
+}
+
+export function seoAbReferrerSource(referrer: string | undefined): string | null {
+  if (!referrer) return null;
+  let host: string;
+  try {
+    host = new URL(referrer).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+  return SEO_AB_SOURCES.find((source) => source.referrer.test(host))?.name ?? null;
+}
+
+function hashKey(value: string): string {
+  return createHash("sha256").update(value).digest("hex");
+}
+
+/**
+ * Identifies who is looking without a cookie. A crawler is keyed by the
+ * site it indexes for, so each search engine or social site shows one
+ * variant; a person who clicked through from one gets the same key and so
+ * sees the text they clicked on. Everyone else is keyed by address and
+ * browser.
+ */
+export function seoAbVisitor(visit: { ip?: string; userAgent?: string; referrer?: string }): SeoAbVisitor {
+  const ua = visit.userAgent || "";
+  const crawler = seoAbCrawlerSource(ua);
+  if (crawler) return { key: hashKey(`bot:${crawler}`), bot: true, source: null };
+  if (!ua || parseUserAgent(ua).bot) return { key: hashKey(`bot:${ua}`), bot: true, source: null };
+
+  const source = seoAbReferrerSource(visit.referrer);
+  if (source) return { key: hashKey(`bot:${source}`), bot: false, source };
+  return { key: hashKey(`${visit.ip || ""}|${ua}`), bot: false, source: null };
+}
+
+/** Same test and visitor, same variant. `trafficSplit` is the percentage shown variant A. */
+export function assignSeoAbVariant(test: Pick<SeoAbTest, "id" | "trafficSplit">, visitorKey: string): SeoAbTestVariant {
+  const bucket = parseInt(createHash("sha256").update(`${test.id}:${visitorKey}`).digest("hex").slice(0, 8), 16) % 100;
+  return bucket < test.trafficSplit ? "A" : "B";
+}
+
+/** The variant each search engine and social site is served, and so shows in its results. */
+export function seoAbSourceVariants(test: Pick<SeoAbTest, "id" | "trafficSplit">): Record<string, SeoAbTestVariant> {
+  return Object.fromEntries(
+    SEO_AB_SOURCES.map((source) => [source.name, assignSeoAbVariant(test, hashKey(`bot:${source.name}`))]),
+  );
+}
+
+export function seoAbVariantValue(test: SeoAbTest, variant: SeoAbTestVariant): string {
+  return variant === "A" ? test.variantA : test.variantB;
+}
+
+/**
+ * Counts a person's page view of the variant as an impression, and as a
+ * click too when they came from a search engine or social site, which was
+ * showing this variant. Crawler fetches aren't counted.
+ */
+export async function recordSeoAbView(testId: string, variant: SeoAbTestVariant, visitor: SeoAbVisitor): Promise<void> {
+  if (visitor.bot) return;
+  await storage.incrementSeoAbTestCounts(testId, variant, { impressions: 1, clicks: visitor.source ? 1 : 0 });
+}
+
+// Abramowitz & Stegun 7.1.26; accurate to ~1e-7, plenty for a p-value
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t) * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+function stats(impressions: number, clicks: number): SeoAbVariantStats {
+  return { impressions, clicks, ctr: impressions > 0 ? clicks / impressions : 0 };
+}
+
+/** Two-sided two-proportion z-test of B's click-through rate against A's. */
+export function computeSeoAbResults(
+  a: { impressions: number; clicks: number },
+  b: { impressions: number; clicks: number },
+): Pick<SeoAbTestResults, "variantA" | "variantB" | "zScore" | "pValue" | "significant" | "winner"> {
+  const variantA = stats(a.impressions, a.clicks);
+  const variantB = stats(b.impressions, b.clicks);
+  if (a.impressions === 0 || b.impressions === 0) {
+    return { variantA, variantB, zScore: null, pValue: null, significant: false, winner: null };
+  }
+
+  const pooled = (a.clicks + b.clicks) / (a.impressions + b.impressions);
+  const standardError = Math.sqrt(pooled * (1 - pooled) * (1 / a.impressions + 1 / b.impressions));
+  if (standardError === 0) {
+    return { variantA, variantB, zScore: 0, pValue: 1, significant: false, winner: null };
+  }
+
+  const zScore = (variantB.ctr - variantA.ctr) / standardError;
+  const pValue = 2 * (1 - normalCdf(Math.abs(zScore)));
+  const significant =
+    pValue < SIGNIFICANCE_LEVEL &&
+    a.impressions >= MIN_IMPRESSIONS_PER_VARIANT &&
+    b.impressions >= MIN_IMPRESSIONS_PER_VARIANT;
+  return {
+    variantA,
+    variantB,
+    zScore: Math.round(zScore * 1000) / 1000,
+    pValue: Math.round(pValue * 10000) / 10000,
+    significant,
+    winner: significant ? (zScore > 0 ? "B" : "A") : null,
+  };
+}
+
+/** Copies a test's counters into its results with CTR and significance. */
+export async function refreshSeoAbTestResults(test: SeoAbTest, now: Date = new Date()): Promise<SeoAbTest> {
+  const counts = await storage.getSeoAbTestCounts(test.id);
+  const variant = (name: SeoAbTestVariant): Pick<SeoAbTestCount, "impressions" | "clicks"> =>
+    counts.find((row) => row.variant === name) ?? { impressions: 0, clicks: 0 };
+  const promoted = (test.results as Partial<SeoAbTestResults> | null)?.promoted;
+  const results: SeoAbTestResults = {
+    ...computeSeoAbResults(variant("A"), variant("B")),
+    sources: seoAbSourceVariants(test),
+    updatedAt: now.toISOString(),
+    ...(promoted ? { promoted } : {}),
+  };
+  return (await storage.updateSeoAbTest(test.id, { results })) ?? test;
+}
+
+/** Refreshes the results of every running test; the cron runs this every 5 minutes. */
+export async function refreshRunningSeoAbTests(now: Date = new Date()): Promise<number> {
+  let refreshed = 0;
+  for (const test of await storage.getSeoAbTests(["running"])) {
+    try {
+      await refreshSeoAbTestResults(test, now);
+      refreshed++;
+    } catch (error) {
+      logger.error(`[seo-ab] Failed to refresh results for test ${test.id}:`, error);
+    }
+  }
+  return refreshed;
+}
+
+/**
+ * Starts drafts whose startDate has come and completes running tests past
+ * their endDate. Paused tests are left alone until an admin resumes them.
+ */
+export async function applySeoAbTestSchedule(now: Date = new Date()): Promise<{ started: number; completed: number }> {
+  const tests = await storage.getSeoAbTests(["draft", "running"]);
+  let started = 0;
+  let completed = 0;
+
+  for (const test of tests) {
+    const ended = test.endDate !== null && test.endDate <= now;
+    if (test.status === "running" && ended) {
+      await storage.updateSeoAbTest(test.id, { status: "completed" });
+      logger.info(`[seo-ab] Completed "${test.name}" on its end date`);
+      completed++;
+    } else if (test.status === "draft" && test.startDate && test.startDate <= now && !ended) {
+      if (await hasConflictingTest(test)) {
+        logger.warn(`[seo-ab] Not starting "${test.name}": another test is running on ${test.pageUrl} ${test.elementType}`);
+        continue;
+      }
+      await storage.updateSeoAbTest(test.id, { status: "running" });
+      logger.info(`[seo-ab] Started "${test.name}" on its start date`);
+      started++;
+    }
+  }
+
+  if (started + completed > 0) invalidateRunningSeoAbTests();
+  return { started, completed };
+}
+
+export async function syncSeoAbTests(now: Date = new Date()) {
+  const refreshed = await refreshRunningSeoAbTests(now);
+  const schedule = await applySeoAbTestSchedule(now);
+  return { refreshed, ...schedule };
+}
+
+async function hasConflictingTest(test: SeoAbTest): Promise<boolean> {
+  const running = await storage.getSeoAbTests(["running"]);
+  return running.some((other) => other.id !== test.id && other.pageUrl === test.pageUrl && other.elementType === test.elementType);
+}
+
+export async function startSeoAbTest(test: SeoAbTest, now: Date = new Date()): Promise<SeoAbTest | undefined> {
+  if (test.status === "completed") {
+    throw new BusinessLogicError("A completed test can't be restarted");
+  }
+  if (test.endDate && test.endDate <= now) {
+    throw new BusinessLogicError("The test's end date has already passed");
+  }
+  if (await hasConflictingTest(test)) {
+    throw new BusinessLogicError(`Another test is already running on ${test.pageUrl} (${test.elementType})`);
+  }
+  const updated = await storage.updateSeoAbTest(test.id, {
+    status: "running",
+    startDate: test.startDate && test.startDate <= now ? test.startDate : now,
+  });
+  invalidateRunningSeoAbTests();
+  return updated;
+}
+
+export async function setSeoAbTestStatus(test: SeoAbTest, status: "paused" | "completed", now: Date = new Date()) {
+  await refreshSeoAbTestResults(test, now);
+  const updated = await storage.updateSeoAbTest(test.id, {
+    status,
+    ...(status === "completed" ? { endDate: now } : {}),
+  });
+  invalidateRunningSeoAbTests();
+  return updated;
+}
+
+function pageTypeFor(pageUrl: string): SeoMetaTag["pageType"] {
+  if (pageUrl === "/") return "home";
+  if (pageUrl.startsWith("/video/")) return "video";
+  if (pageUrl.startsWith("/category/")) return "category";
+  if (pageUrl.startsWith("/tag/")) return "tag";
+  return "custom";
+}
+
+/**
+ * Writes the winning variant into the page's seo_meta_tags override and
+ * completes the test. Without an explicit choice the significant winner is
+ * used; a test without one can't be promoted.
+ */
+export async function promoteSeoAbTestWinner(test: SeoAbTest, choice?: SeoAbTestVariant, now: Date = new Date()) {
+  const fresh = await refreshSeoAbTestResults(test, now);
+  const results = fresh.results as SeoAbTestResults;
+  const variant = choice ?? results.winner ?? null;
+  if (!variant) {
+    throw new BusinessLogicError("No significant winner yet; pick the variant to promote");
+  }
+
+  const field = META_TAG_FIELDS[fresh.elementType as SeoAbTestElement];
+  if (!field) {
+    throw new BusinessLogicError(`Unsupported element type: ${fresh.elementType}`);
+  }
+  const metaTag = await storage.upsertSeoMetaTag(fresh.pageUrl, {
+    pageType: pageTypeFor(fresh.pageUrl),
+    [field]: seoAbVariantValue(fresh, variant),
+    isActive: true,
+  });
+  const updated = await storage.updateSeoAbTest(fresh.id, {
+    status: "completed",
+    endDate: fresh.endDate && fresh.endDate <= now ? fresh.endDate : now,
+    results: { ...results, promoted: { variant, at: now.toISOString() } },
+  });
+  invalidateRunningSeoAbTests();
+  logger.info(`[seo-ab] Promoted variant ${variant} of "${fresh.name}" to ${fresh.pageUrl}`);
+  return { test: updated, metaTag };
+}
@@ -0,0 +1,266 @@
+import net from "net";
+import tls from "tls";
+import os from "os";
+import { randomUUID } from "crypto";
+
+export type OutgoingEmail = {
+  from: { email: string; name?: string | null };
+  to: string[];
+  subject: string;
+  text: string;
+  html: string;
+};
+
+/**
+ * Anything that can deliver a rendered message. The mailer talks to this
+ * interface only, so tests can swap in a recording transport or point the
+ * SMTP transport at a local stand-in server.
+ */
+export interface EmailTransport {
+  send(message: OutgoingEmail): Promise<void>;
+}
+
+export type SmtpTransportOptions = {
+  host: string;
+  port: number;
+  /** 465 uses implicit TLS, any other port upgrades with STARTTLS */
+  secure: boolean;
+  username?: string | null;
+  password?: string | null;
+  timeoutMs?: number;
+  /** Accept self-signed certificates (local relays only) */
+  allowInvalidCertificates?: boolean;
+};
+
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code?: number) {
+    super(message);
+    this.name = "SmtpError";
+  }
+}
+
+type SmtpReply = { code: number; lines: string[] };
+
+/**
+ * Minimal line-oriented SMTP session: reads multi-line replies
+ * ("250-..." continued until "250 ...") and sends one command at a time.
+ */
+class SmtpConnection {
+  private buffer = "";
+  private pending: string[] = [];
+  private waiters: Array<{ resolve: (reply: SmtpReply) => void; reject: (err: Error) => void }> = [];
+  private failure: Error | null = null;
+
+  constructor(private socket: net.Socket, timeoutMs: number) {
+    this.attach(socket, timeoutMs);
+  }
+
+  private attach(socket: net.Socket, timeoutMs: number) {
+    socket.setEncoding("utf8");
+    socket.setTimeout(timeoutMs);
+    socket.on("data", (chunk: string) => this.onData(chunk));
+    socket.on("timeout", () => this.fail(new SmtpError("SMTP connection timed out")));
+    socket.on("error", (err) => this.fail(err));
+    socket.on("close", () => this.fail(new SmtpError("SMTP connection closed unexpectedly")));
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let idx: number;
+    while ((idx = this.buffer.indexOf("\r\n")) !== -1) {
+      const line = this.buffer.slice(0, idx);
+      this.buffer = this.buffer.slice(idx + 2);
+      this.pending.push(line);
+      // "250 " (space) ends a reply; "250-" continues it
+      if (/^\d{3}(?: |$)/.test(line)) {
+        const lines = this.pending;
+        this.pending = [];
+        const waiter = this.waiters.shift();
+        waiter?.resolve({ code: parseInt(line.slice(0, 3), 10), lines: lines.map((l) => l.slice(4)) });
+      }
+    }
+  }
+
+  private fail(err: Error) {
+    if (this.failure) return;
+    this.failure = err;
+    for (const waiter of this.waiters.splice(0)) waiter.reject(err);
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => this.waiters.push({ resolve, reject }));
+  }
+
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    const reply = this.read();
+    this.socket.write(`${line}\r\n`);
+    return expectReply(await reply, expected, line.split(" ")[0]);
+  }
+
+  async upgradeToTls(host: string, timeoutMs: number, rejectUnauthorized: boolean) {
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("timeout");
+    this.socket.removeAllListeners("error");
+    this.socket.removeAllListeners("close");
+    const secured = await new Promise<tls.TLSSocket>((resolve, reject) => {
+      const s = tls.connect({ socket: this.socket, servername: host, rejectUnauthorized }, () => resolve(s));
+      s.once("error", reject);
+    });
+    this.socket = secured;
+    this.attach(secured, timeoutMs);
+  }
+
+  write(data: string) {
+    this.socket.write(data);
+  }
+
+  close() {
+    this.failure = this.failure || new SmtpError("SMTP connection closed");
+    this.socket.end();
+    this.socket.destroy();
+  }
+}
+
+function expectReply(reply: SmtpReply, expected: number[], step: string): SmtpReply {
+  if (!expected.includes(reply.code)) {
+    throw new SmtpError(`SMTP ${step} failed: ${reply.code} ${reply.lines.join(" ")}`.trim(), reply.code);
+  }
+  return reply;
+}
+
+function connectSocket(options: SmtpTransportOptions, timeoutMs: number): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const onError = (err: Error) => reject(err);
+    const onTimeout = () => {
+      socket.destroy();
+      reject(new SmtpError("SMTP connection timed out"));
+    };
+    const onConnect = () => {
+      socket.removeListener("error", onError);
+      socket.removeListener("timeout", onTimeout);
+      resolve(socket);
+    };
+    const socket: net.Socket = options.secure && options.port === 465
+      ? tls.connect(
+          {
+            host: options.host,
+            port: options.port,
+            servername: options.host,
+            rejectUnauthorized: !options.allowInvalidCertificates,
+          },
+          onConnect,
+        )
+      : net.connect({ host: options.host, port: options.port }, onConnect);
+    socket.once("error", onError);
+    socket.setTimeout(timeoutMs);
+    socket.once("timeout", onTimeout);
+  });
+}
+
+/** RFC 2047 encoded-word for non-ASCII header values */
+function encodeHeader(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, " ");
+  if (/^[\x20-\x7e]*$/.test(clean)) return clean;
+  return `=?UTF-8?B?${Buffer.from(clean, "utf8").toString("base64")}?=`;
+}
+
+function formatAddress(email: string, name?: string | null): string {
+  if (!name) return `<${email}>`;
+  const encoded = encodeHeader(name);
+  return encoded === name ? `"${name.replace(/["\\]/g, "")}" <${email}>` : `${encoded} <${email}>`;
+}
+
+function base64Lines(value: string): string {
+  return (Buffer.from(value, "utf8").toString("base64").match(/.{1,76}/g) || []).join("\r\n");
+}
+
+/**
+ * Builds a multipart/alternative RFC 5322 message. Bodies are base64 encoded so
+ * Serbian diacritics survive any relay, which also means no line starts with "."
+ * and no dot-stuffing is needed.
+ */
+export function buildMimeMessage(message: OutgoingEmail, date = new Date()): string {
+  const boundary = `=_${randomUUID()}`;
+  const domain = message.from.email.split("@")[1] || "localhost";
+  const headers = [
+    `From: ${formatAddress(message.from.email, message.from.name)}`,
+    `To: ${message.to.map((to) => `<${to}>`).join(", ")}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${domain}>`,
+    "MIME-Version: 1.0",
+    `Content-Type: multipart/alternative; boundary="${boundary}"`,
+  ];
+  return [
+    ...headers,
+    "",
+    `--${boundary}`,
+    "Content-Type: text/plain; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.text),
+    `--${boundary}`,
+    "Content-Type: text/html; charset=utf-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    base64Lines(message.html),
+    `--${boundary}--`,
+    "",
+  ].join("\r\n");
+}
+
+function assertAddress(address: string) {
+  if (!/^[^\s<>@]+@[^\s<>@]+$/.test(address)) {
+    throw new SmtpError(`Invalid email address: ${address}`);
+  }
+}
+
+export function createSmtpTransport(options: SmtpTransportOptions): EmailTransport {
+  const timeoutMs = options.timeoutMs ?? 30000;
+
+  return {
+    async send(message: OutgoingEmail) {
+      assertAddress(message.from.email);
+      message.to.forEach(assertAddress);
+      if (message.to.length === 0) throw new SmtpError("No recipients");
+
+      const socket = await connectSocket(options, timeoutMs);
+      const conn = new SmtpConnection(socket, timeoutMs);
+      const hostname = os.hostname() || "localhost";
+
+      try {
+        expectReply(await conn.read(), [220], "greeting");
+        let ehlo = await conn.command(`EHLO ${hostname}`, [250]);
+
+        const implicitTls = options.secure && options.port === 465;
+        if (options.secure && !implicitTls) {
+          if (!ehlo.lines.some((l) => /^STARTTLS\b/i.test(l))) {
+            throw new SmtpError("SMTP server does not support STARTTLS");
+          }
+          await conn.command("STARTTLS", [220]);
+          await conn.upgradeToTls(options.host, timeoutMs, !options.allowInvalidCertificates);
+          ehlo = await conn.command(`EHLO ${hostname}`, [250]);
+        }
+
+        if (options.username) {
+          const auth = Buffer.from(`\0${options.username}\0${options.password || ""}`, "utf8").toString("base64");
+          await conn.command(`AUTH PLAIN ${auth}`, [235]);
+        }
+
+        await conn.command(`MAIL FROM:<${message.from.email}>`, [250]);
+        for (const to of message.to) {
+          await conn.command(`RCPT TO:<${to}>`, [250, 251]);
+        }
+        await conn.command("DATA", [354]);
+        const accepted = conn.read();
+        conn.write(`${buildMimeMessage(message)}\r\n.\r\n`);
+        expectReply(await accepted, [250], "DATA");
+
+        await conn.command("QUIT", [221]).catch(() => undefined);
+      } finally {
+        conn.close();
+      }
+    },
+  };
+}
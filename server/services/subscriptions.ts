@@ -0,0 +1,21 @@
+import { storage } from "../storage/index.js";
+import { logger } from "../lib/logger.js";
+
+/**
+ * Records a "new video" notification for everyone following the channel.
+ * Called after ingestion; failures are logged so a scrape never fails because
+ * of notifications.
+ */
+export async function notifyFollowers(channelId: string, videoIds: string[]): Promise<number> {
+  if (videoIds.length === 0) return 0;
+  try {
+    const created = await storage.createNewVideoNotifications(channelId, videoIds);
+    if (created > 0) {
+      logger.info(`Created ${created} new-video notifications for channel ${channelId}`);
+    }
+    return created;
+  } catch (error) {
+    logger.error(`Failed to notify followers of channel ${channelId}`, error);
+    return 0;
+  }
+}
@@ -0,0 +1,243 @@
+import { storage } from "../storage/index.js";
+import { generateSlug } from "../utils.js";
+import { logger } from "../lib/logger.js";
+import { BusinessLogicError } from "../errors/custom-errors.js";
+import type {
+  InsertTagMergeProposal,
+  TagMergeProposal,
+  TagMergeReason,
+  TagMergeResult,
+} from "../../shared/schema.js";
+
+// Levenshtein similarity from which two spellings count as the same tag
+const SIMILARITY_THRESHOLD = 0.85;
+// "Tech" and "Technology": a shorter name this long that starts the other one
+const MIN_PREFIX_LENGTH = 4;
+const REASON_STRENGTH: Record<TagMergeReason, number> = { same_name: 3, translation: 2, similar: 1 };
+
+/** One tag as its page shows it: the rows of every video with the same English name. */
+export type TagEntry = {
+  name: string;
+  /** Most used name per language */
+  names: Record<string, string>;
+  tagIds: string[];
+  videoCount: number;
+};
+
+/** Tag page path, the way the sitemap links it. */
+export function tagPath(name: string): string {
+  return `/tag/${encodeURIComponent(name.trim().replace(/\s+/g, "-"))}`;
+}
+
+/** Compares names without case, accents, punctuation or a plural "s". */
+export function tagKey(name: string): string {
+  const key = generateSlug(name).replace(/-/g, "");
+  return key.length > 4 && key.endsWith("s") && !key.endsWith("ss") ? key.slice(0, -1) : key;
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** Why two tags look like one, with a 0..1 score, or null when they don't. */
+export function compareTags(a: TagEntry, b: TagEntry): { reason: TagMergeReason; score: number } | null {
+  const keyA = tagKey(a.name);
+  const keyB = tagKey(b.name);
+  if (!keyA || !keyB) return null;
+  if (keyA === keyB) return { reason: "same_name", score: 1 };
+
+  const otherNames = (entry: TagEntry) =>
+    Object.entries(entry.names).filter(([code]) => code !== "en").map(([, name]) => tagKey(name));
+  if (otherNames(b).includes(keyA) || otherNames(a).includes(keyB)) return { reason: "translation", score: 1 };
+
+  const [shorter, longer] = keyA.length <= keyB.length ? [keyA, keyB] : [keyB, keyA];
+  const similarity = 1 - levenshtein(keyA, keyB) / longer.length;
+  if (similarity >= SIMILARITY_THRESHOLD) return { reason: "similar", score: similarity };
+  if (shorter.length >= MIN_PREFIX_LENGTH && longer.startsWith(shorter)) {
+    return { reason: "similar", score: shorter.length / longer.length };
+  }
+  return null;
+}
+
+/** Groups the per-video tag rows into tags by English name (ignoring case). */
+export async function collectTagEntries(): Promise<TagEntry[]> {
+  const rows = await storage.getAllTagsWithTranslations();
+  type Group = { tagIds: string[]; videoIds: Set<string>; names: Map<string, Map<string, number>> };
+  const groups = new Map<string, Group>();
+
+  for (const row of rows) {
+    const en = row.translations.find((t) => t.languageCode === "en")?.tagName?.trim();
+    if (!en) continue;
+    const key = en.toLowerCase();
+    const group: Group = groups.get(key) ?? { tagIds: [], videoIds: new Set(), names: new Map() };
+    group.tagIds.push(row.id);
+    group.videoIds.add(row.videoId);
+    for (const translation of row.translations) {
+      const counts = group.names.get(translation.languageCode) ?? new Map<string, number>();
+      counts.set(translation.tagName, (counts.get(translation.tagName) || 0) + 1);
+      group.names.set(translation.languageCode, counts);
+    }
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).map((group) => {
+    const names: Record<string, string> = {};
+    for (const [code, counts] of Array.from(group.names.entries())) {
+      names[code] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0][0];
+    }
+    return { name: names.en, names, tagIds: group.tagIds, videoCount: group.videoIds.size };
+  });
+}
+
+/** The tag the others merge into: most videos, then the longer (less abbreviated) name. */
+function pickTarget(entries: TagEntry[]): TagEntry {
+  return [...entries].sort(
+    (a, b) => b.videoCount - a.videoCount || b.name.length - a.name.length || a.name.localeCompare(b.name),
+  )[0];
+}
+
+/**
+ * Clusters near-duplicate tags. Spelling is only compared between names that
+ * start alike, so a large tag list stays quick; translations are looked up
+ * across all tags.
+ */
+export function findTagClusters(entries: TagEntry[]): InsertTagMergeProposal[] {
+  const parent = entries.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const edges: { a: number; b: number; reason: TagMergeReason; score: number }[] = [];
+  const link = (a: number, b: number) => {
+    if (a === b || find(a) === find(b)) return;
+    const match = compareTags(entries[a], entries[b]);
+    if (!match) return;
+    parent[find(a)] = find(b);
+    edges.push({ a, b, ...match });
+  };
+
+  const buckets = new Map<string, number[]>();
+  const byKey = new Map<string, number[]>();
+  entries.forEach((entry, i) => {
+    const key = tagKey(entry.name);
+    const bucket = buckets.get(key.slice(0, 2)) ?? [];
+    bucket.push(i);
+    buckets.set(key.slice(0, 2), bucket);
+    byKey.set(key, [...(byKey.get(key) ?? []), i]);
+  });
+  for (const bucket of Array.from(buckets.values())) {
+    for (let x = 0; x < bucket.length; x++) {
+      for (let y = x + 1; y < bucket.length; y++) link(bucket[x], bucket[y]);
+    }
+  }
+  entries.forEach((entry, i) => {
+    for (const [code, name] of Object.entries(entry.names)) {
+      if (code === "en") continue;
+      for (const j of byKey.get(tagKey(name)) ?? []) link(i, j);
+    }
+  });
+
+  const clusters = new Map<number, number[]>();
+  entries.forEach((_, i) => clusters.set(find(i), [...(clusters.get(find(i)) ?? []), i]));
+
+  const proposals: InsertTagMergeProposal[] = [];
+  for (const [root, members] of Array.from(clusters.entries())) {
+    if (members.length < 2) continue;
+    const clusterEdges = edges.filter((edge) => find(edge.a) === root);
+    const target = pickTarget(members.map((i) => entries[i]));
+    const sources = members.map((i) => entries[i]).filter((entry) => entry !== target);
+    proposals.push({
+      targetName: target.name,
+      sourceNames: sources.map((entry) => entry.name).sort((a, b) => a.localeCompare(b)),
+      reason: clusterEdges.reduce<TagMergeReason>(
+        (best, edge) => (REASON_STRENGTH[edge.reason] > REASON_STRENGTH[best] ? edge.reason : best),
+        "similar",
+      ),
+      score: Math.min(...clusterEdges.map((edge) => edge.score)),
+      videoCount: sources.reduce((sum, entry) => sum + entry.videoCount, 0),
+    });
+  }
+  return proposals.sort((a, b) => b.videoCount - a.videoCount);
+}
+
+/**
+ * Replaces the pending proposals with the current clusters. Clusters an admin
+ * already dismissed (same target, no new source names) aren't proposed again.
+ */
+export async function scanTagMerges(): Promise<TagMergeProposal[]> {
+  const [entries, dismissed] = await Promise.all([collectTagEntries(), storage.getTagMergeProposals("dismissed")]);
+  const proposals = findTagClusters(entries).filter(
+    (proposal) =>
+      !dismissed.some(
+        (d) =>
+          d.targetName.toLowerCase() === proposal.targetName.toLowerCase() &&
+          proposal.sourceNames.every((name) => d.sourceNames.some((s) => s.toLowerCase() === name.toLowerCase())),
+      ),
+  );
+  const saved = await storage.replacePendingTagMergeProposals(proposals);
+  logger.info(`[tag-normalization] ${entries.length} tags scanned, ${saved.length} merges proposed`);
+  return saved;
+}
+
+/**
+ * Folds the proposal's source tags (or the chosen subset) into its target:
+ * every video gets the target tag in all its languages, a source's image moves
+ * to the target when it has none, and the old tag pages redirect to the new one.
+ */
+export async function applyTagMerge(
+  proposal: TagMergeProposal,
+  options: { sourceNames?: string[] } = {},
+  resolvedBy: string | null = null,
+): Promise<{ proposal: TagMergeProposal; result: TagMergeResult }> {
+  if (proposal.status !== "pending") {
+    throw new BusinessLogicError(`This merge was already ${proposal.status}`);
+  }
+  const chosen = options.sourceNames?.length
+    ? proposal.sourceNames.filter((name) => options.sourceNames!.includes(name))
+    : proposal.sourceNames;
+
+  const entries = await collectTagEntries();
+  const byName = new Map(entries.map((entry) => [entry.name.toLowerCase(), entry]));
+  const target = byName.get(proposal.targetName.toLowerCase());
+  if (!target) {
+    throw new BusinessLogicError(`The tag "${proposal.targetName}" no longer exists; scan again`);
+  }
+  const sources = chosen
+    .map((name) => byName.get(name.toLowerCase()))
+    .filter((entry): entry is TagEntry => Boolean(entry) && entry !== target);
+  if (sources.length === 0) {
+    throw new BusinessLogicError("None of the tags to merge exist any more; scan again");
+  }
+
+  // Languages the target has no name in take the first source's
+  const targetNames = { ...target.names };
+  for (const source of sources) {
+    for (const [code, name] of Object.entries(source.names)) targetNames[code] ??= name;
+  }
+  const keptUrls = new Set(Object.values(targetNames).map(tagPath));
+  const redirects = new Map<string, string>();
+  for (const source of sources) {
+    for (const [code, name] of Object.entries(source.names)) {
+      const fromUrl = tagPath(name);
+      if (!keptUrls.has(fromUrl)) redirects.set(fromUrl, tagPath(targetNames[code] ?? targetNames.en));
+    }
+  }
+
+  const result = await storage.mergeTags({
+    sourceTagIds: sources.flatMap((source) => source.tagIds),
+    target: Object.entries(targetNames).map(([languageCode, tagName]) => ({ languageCode, tagName })),
+    sourceImageNames: Array.from(new Set(sources.flatMap((source) => Object.values(source.names)))),
+    redirects: Array.from(redirects.entries()).map(([fromUrl, toUrl]) => ({ fromUrl, toUrl })),
+  });
+  const resolved = (await storage.resolveTagMergeProposal(proposal.id, "applied", resolvedBy)) ?? proposal;
+  logger.info(
+    `[tag-normalization] Merged ${sources.map((s) => `"${s.name}"`).join(", ")} into "${target.name}": ` +
+      `${result.videosRetagged} videos retagged, ${result.redirects} redirects`,
+  );
+  return { proposal: resolved, result };
+}
@@ -0,0 +1,130 @@
+import { storage } from "../storage/index.js";
+import { logger } from "../lib/logger.js";
+import { fetchCaptionTrack, scrapeYouTubeVideoPage, type CaptionTrack } from "../video-scraper.js";
+import type { TranscriptSegment, Video, VideoTranscript } from "../../shared/schema.js";
+
+/** Video types with readable captions: YouTube's timedtext tracks. */
+export const TRANSCRIPT_VIDEO_TYPES = ["regular", "youtube_short"] as const;
+
+const MAX_TRACKS = 5;
+const BACKFILL_BATCH_SIZE = 50;
+/** Transcript characters a prompt gets, about 1,500 tokens */
+export const TRANSCRIPT_EXCERPT_CHARS = 6000;
+
+export type TranscriptSummary = {
+  checked: number;
+  /** Videos that ended up with at least one transcript */
+  transcribed: number;
+  failed: number;
+};
+
+export type TranscriptBackfillOptions = {
+  limit?: number;
+  onProgress?: (summary: TranscriptSummary, total: number) => Promise<void> | void;
+};
+
+function baseLanguage(code: string): string {
+  return code.split("-")[0].toLowerCase();
+}
+
+/**
+ * One track per wanted language, uploaded captions over speech recognition.
+ * When none of the languages has a track, the speech-recognition track (the
+ * spoken language) is taken, or else the first one listed.
+ */
+export function selectCaptionTracks(tracks: CaptionTrack[], languageCodes: string[]): CaptionTrack[] {
+  const selected: CaptionTrack[] = [];
+  for (const base of Array.from(new Set(languageCodes.map(baseLanguage)))) {
+    const candidates = tracks.filter((track) => baseLanguage(track.languageCode) === base);
+    const track = candidates.find((t) => !t.auto) ?? candidates[0];
+    if (track) selected.push(track);
+  }
+  if (selected.length === 0 && tracks.length > 0) {
+    selected.push(tracks.find((t) => t.auto) ?? tracks[0]);
+  }
+  return selected.slice(0, MAX_TRACKS);
+}
+
+export function joinTranscript(segments: TranscriptSegment[]): string {
+  return segments.map((segment) => segment.text).join(" ");
+}
+
+/** The transcript in `languageCode` if there is one, otherwise uploaded captions before speech recognition. */
+export function pickTranscript(transcripts: VideoTranscript[], languageCode = "en"): VideoTranscript | undefined {
+  const base = baseLanguage(languageCode);
+  const inLanguage = transcripts.filter((t) => baseLanguage(t.languageCode) === base);
+  return (
+    inLanguage.find((t) => t.source === "manual") ??
+    inLanguage[0] ??
+    transcripts.find((t) => t.source === "manual") ??
+    transcripts[0]
+  );
+}
+
+/** The start of the video's transcript for AI prompts, preferring English; undefined when it has none. */
+export async function getTranscriptExcerpt(videoId: string): Promise<string | undefined> {
+  const transcript = pickTranscript(await storage.getVideoTranscripts(videoId));
+  return transcript?.text.slice(0, TRANSCRIPT_EXCERPT_CHARS) || undefined;
+}
+
+/**
+ * Looks up the video's caption tracks and stores a transcript for each
+ * enabled language that has one. The video is marked as checked even when
+ * the lookup fails, so the backfill moves on; admins can fetch again.
+ */
+export async function ingestVideoTranscripts(video: Pick<Video, "id" | "videoId" | "videoType">): Promise<VideoTranscript[]> {
+  if (!(TRANSCRIPT_VIDEO_TYPES as readonly string[]).includes(video.videoType)) return [];
+
+  try {
+    const page = await scrapeYouTubeVideoPage(`https://www.youtube.com/watch?v=${video.videoId}`);
+    if (!page.success || !page.data) {
+      throw new Error(page.error || "Could not load video page");
+    }
+
+    const languages = (await storage.getSupportedLanguages()).filter((lang) => lang.isActive).map((lang) => lang.code);
+    const saved: VideoTranscript[] = [];
+    for (const track of selectCaptionTracks(page.data.captionTracks ?? [], ["en", ...languages])) {
+      try {
+        const segments = await fetchCaptionTrack(track);
+        if (segments.length === 0) continue;
+        saved.push(
+          await storage.upsertVideoTranscript({
+            videoId: video.id,
+            languageCode: track.languageCode,
+            source: track.auto ? "auto" : "manual",
+            segments,
+            text: joinTranscript(segments),
+          }),
+        );
+      } catch (error) {
+        logger.warn(`[transcripts] ${track.languageCode} captions of ${video.videoId} failed: ${(error as Error).message}`);
+      }
+    }
+    return saved;
+  } finally {
+    await storage.updateVideo(video.id, { transcriptCheckedAt: new Date() });
+  }
+}
+
+/** Fetches transcripts for YouTube videos whose caption tracks were never looked up, newest first. */
+export async function backfillTranscripts(options: TranscriptBackfillOptions = {}): Promise<TranscriptSummary> {
+  const due = await storage.getVideosDueForTranscripts(TRANSCRIPT_VIDEO_TYPES, options.limit ?? BACKFILL_BATCH_SIZE);
+  const summary: TranscriptSummary = { checked: 0, transcribed: 0, failed: 0 };
+
+  for (const video of due) {
+    summary.checked++;
+    try {
+      const saved = await ingestVideoTranscripts(video);
+      if (saved.length > 0) summary.transcribed++;
+    } catch (error) {
+      summary.failed++;
+      logger.warn(`[transcripts] Could not fetch captions of ${video.videoId}: ${(error as Error).message}`);
+    }
+    await options.onProgress?.(summary, due.length);
+  }
+
+  if (summary.checked > 0) {
+    logger.info(`[transcripts] Checked ${summary.checked} videos: ${summary.transcribed} transcribed, ${summary.failed} failed`);
+  }
+  return summary;
+}
@@ -1,7 +1,4 @@
-import { db } from "../db.js";
-import { aiSettings } from "../../shared/schema.js";
-import { generateOllamaCompletion } from "./ollama.js";
-import { generateOpenAICompletion } from "./openai.js";
+import { generateText } from "../ai-service.js";
 
 export async function translateContent(
   targetLang: string,
@@ -10,21 +7,7 @@ export async function translateContent(
 ): Promise<Record<string, string>> {
   if (Object.keys(content).length === 0) return {};
 
-  // 1. Get AI Settings
-  const settings = await db.select().from(aiSettings).limit(1);
-  const config = settings[0];
-
-  const envOpenAIKey = process.env.OPENAI_API_KEY;
-  const envOpenAIBaseUrl = process.env.OPENAI_BASE_URL;
-  const envOpenAIModel = process.env.OPENAI_MODEL;
-
-  if (!config) {
-    if (!envOpenAIKey) {
-      throw new Error("AI not configured. Please configure AI settings in the admin panel.");
-    }
-  }
-
-  // 2. Construct Prompt
+  // 1. Construct Prompt
   const systemPrompt = `You are a professional translator for a video streaming platform application (similar to YouTube/Netflix). 
 Translate the provided JSON content from ${sourceLang} to ${targetLang}.
 
@@ -37,67 +20,10 @@ Rules:
 
   const userPrompt = JSON.stringify(content, null, 2);
 
-  let rawResponse = "";
-
-  // 3. Call Provider
-  const effectiveProvider =
-    config?.provider === "ollama" && !config?.ollamaModel && envOpenAIKey
-      ? "openai"
-      : (config?.provider || (envOpenAIKey ? "openai" : "ollama"));
-
-  const tryOpenAI = async () => {
-    const apiKey = config?.openaiApiKey || envOpenAIKey;
-    if (!apiKey) throw new Error("OpenAI API key not configured.");
-    return await generateOpenAICompletion(
-      config?.openaiBaseUrl || envOpenAIBaseUrl || "https://api.openai.com/v1",
-      apiKey,
-      config?.openaiModel || envOpenAIModel || "gpt-3.5-turbo",
-      systemPrompt,
-      userPrompt,
-    );
-  };
-
-  const tryOpenRouter = async () => {
-    const apiKey = config?.openrouterApiKey;
-    if (!apiKey) throw new Error("OpenRouter API key not configured.");
-    return await generateOpenAICompletion(
-      "https://openrouter.ai/api/v1",
-      apiKey,
-      config?.openrouterModel || "openai/gpt-4o",
-      systemPrompt,
-      userPrompt,
-    );
-  };
-
-  if (effectiveProvider === "ollama") {
-    if (!config?.ollamaModel) throw new Error("Ollama model not selected.");
-
-    try {
-      rawResponse = await generateOllamaCompletion(
-        config?.ollamaUrl || "http://localhost:11434",
-        config.ollamaModel,
-        systemPrompt,
-        userPrompt,
-        config?.ollamaApiKey || undefined,
-      );
-    } catch (error: any) {
-      const canFallbackToOpenAI = Boolean(config?.openaiApiKey || envOpenAIKey);
-      if (!canFallbackToOpenAI) throw error;
-      try {
-        rawResponse = await tryOpenAI();
-      } catch (openAiError: any) {
-        const ollamaMsg = error?.message || String(error);
-        const openAiMsg = openAiError?.message || String(openAiError);
-        throw new Error(`Ollama failed (${ollamaMsg}). OpenAI fallback also failed (${openAiMsg}).`);
-      }
-    }
-  } else if (effectiveProvider === "openrouter") {
-    rawResponse = await tryOpenRouter();
-  } else {
-    rawResponse = await tryOpenAI();
-  }
+  // 2. Call the configured provider, failing over along the configured chain
+  const { content: rawResponse } = await generateText("translation", userPrompt, { system: systemPrompt, json: true });
 
-  // 4. Parse Response
+  // 3. Parse Response
   try {
     // Clean up potential markdown blocks if AI adds them (e.g. ```json ... ```)
     const jsonStr = rawResponse.replace(/^```json\s*/, "").replace(/^```/, "").replace(/\s*```$/, "").trim();
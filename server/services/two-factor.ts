@@ -0,0 +1,187 @@
+import crypto from "crypto";
+import { storage } from "../storage/index.js";
+import { qrCodeSvg } from "../lib/qr-code.js";
+import type { User } from "../../shared/schema.js";
+
+// RFC 6238 defaults, which every authenticator app supports
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+// Codes from one step either side are accepted to allow for clock drift
+const DRIFT_STEPS = 1;
+const RECOVERY_CODE_COUNT = 10;
+const ISSUER = "nisam.video";
+
+// Roles that must enroll before the admin panel opens
+export const TWO_FACTOR_REQUIRED_ROLES = ["admin"];
+
+const BASE32_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ234567";
+
+export function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = "";
+  for (const byte of buffer) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  return output;
+}
+
+export function base32Decode(input: string): Buffer {
+  const clean = input.toUpperCase().replace(/[\s=]/g, "");
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+  for (const char of clean) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) throw new Error("Invalid base32 secret");
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.randomBytes(20));
+}
+
+export function currentStep(now = Date.now()): number {
+  return Math.floor(now / 1000 / STEP_SECONDS);
+}
+
+/** The HOTP code for a time step (RFC 4226 dynamic truncation). */
+export function totpCode(secret: string, step: number): string {
+  const counter = Buffer.alloc(8);
+  counter.writeBigUInt64BE(BigInt(step));
+  const hmac = crypto.createHmac("sha1", base32Decode(secret)).update(counter).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = hmac.readUInt32BE(offset) & 0x7fffffff;
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, "0");
+}
+
+/**
+ * The step the code belongs to, or null when it doesn't match. Steps at or
+ * before `lastStep` are rejected so an observed code can't be used twice.
+ */
+export function matchTotp(secret: string, code: string, lastStep: number | null = null, now = Date.now()): number | null {
+  const normalized = code.replace(/\s/g, "");
+  if (!/^\d{6}$/.test(normalized)) return null;
+  const step = currentStep(now);
+  for (let candidate = step - DRIFT_STEPS; candidate <= step + DRIFT_STEPS; candidate++) {
+    if (lastStep !== null && candidate <= lastStep) continue;
+    const expected = Buffer.from(totpCode(secret, candidate));
+    if (crypto.timingSafeEqual(expected, Buffer.from(normalized))) return candidate;
+  }
+  return null;
+}
+
+export function otpauthUrl(secret: string, account: string): string {
+  const label = encodeURIComponent(`${ISSUER}:${account}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer: ISSUER,
+    algorithm: "SHA1",
+    digits: String(DIGITS),
+    period: String(STEP_SECONDS),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/** What the enrollment screen shows: the secret for manual entry and a scannable QR code. */
+export function provisioningFor(secret: string, account: string) {
+  const url = otpauthUrl(secret, account);
+  return {
+    secret,
+    otpauthUrl: url,
+    qrCode: `data:image/svg+xml;base64,${Buffer.from(qrCodeSvg(url)).toString("base64")}`,
+  };
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[^a-z0-9]/g, "");
+}
+
+function hashRecoveryCode(code: string): string {
+  return crypto.createHash("sha256").update(normalizeRecoveryCode(code)).digest("hex");
+}
+
+/** Fresh one-time codes in xxxxx-xxxxx form, with the hashes to store. */
+export function generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = crypto.randomBytes(5).toString("hex");
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashRecoveryCode) };
+}
+
+export function isTwoFactorEnabled(user: Pick<User, "totpEnabledAt" | "totpSecret">): boolean {
+  return Boolean(user.totpEnabledAt && user.totpSecret);
+}
+
+export function roleRequiresTwoFactor(role: string): boolean {
+  return TWO_FACTOR_REQUIRED_ROLES.includes(role);
+}
+
+/** True while the user's role requires two-factor auth and they haven't enrolled. */
+export function isTwoFactorRequired(user: Pick<User, "role" | "totpEnabledAt" | "totpSecret">): boolean {
+  return roleRequiresTwoFactor(user.role) && !isTwoFactorEnabled(user);
+}
+
+/** Confirms enrollment with a code from the new secret and returns the recovery codes to show once. */
+export async function enableTwoFactor(user: User, secret: string, code: string): Promise<string[] | null> {
+  const step = matchTotp(secret, code);
+  if (step === null) return null;
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.updateUser(user.id, {
+    totpSecret: secret,
+    totpEnabledAt: new Date(),
+    totpLastStep: step,
+    recoveryCodes: hashes,
+  });
+  return codes;
+}
+
+export async function disableTwoFactor(userId: string): Promise<void> {
+  await storage.updateUser(userId, { totpSecret: null, totpEnabledAt: null, totpLastStep: null, recoveryCodes: [] });
+}
+
+export async function regenerateRecoveryCodes(userId: string): Promise<string[]> {
+  const { codes, hashes } = generateRecoveryCodes();
+  await storage.updateUser(userId, { recoveryCodes: hashes });
+  return codes;
+}
+
+/**
+ * Checks an authenticator code or, failing that, a recovery code, and
+ * records the use: the step for codes, removal for recovery codes. The use is
+ * recorded with a conditional update, so a code replayed in parallel fails.
+ */
+export async function verifySecondFactor(
+  user: User,
+  input: { code?: string; recoveryCode?: string },
+): Promise<"totp" | "recovery" | null> {
+  if (!isTwoFactorEnabled(user)) return null;
+
+  if (input.code) {
+    const step = matchTotp(user.totpSecret!, input.code, user.totpLastStep);
+    if (step === null) return null;
+    return (await storage.consumeTotpStep(user.id, step)) ? "totp" : null;
+  }
+
+  if (input.recoveryCode) {
+    const hash = hashRecoveryCode(input.recoveryCode);
+    if (!user.recoveryCodes.includes(hash)) return null;
+    return (await storage.consumeRecoveryCode(user.id, hash)) ? "recovery" : null;
+  }
+
+  return null;
+}
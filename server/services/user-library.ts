@@ -0,0 +1,72 @@
+import type { SessionData } from "express-session";
+import { storage } from "../storage/index.js";
+import { kvService } from "../kv-service.js";
+import { logger } from "../lib/logger.js";
+import { sessionHasPermission } from "./permissions.js";
+import type { Playlist, WatchHistoryEntry } from "../../shared/schema.js";
+
+type LibrarySession =
+  | Partial<Pick<SessionData, "isAuthenticated" | "userId" | "role" | "twoFactorSetupRequired">>
+  | undefined;
+
+// Below this, starting over is friendlier than jumping a few seconds in
+const MIN_RESUME_SECONDS = 10;
+// Past this share of the video it counts as finished
+const COMPLETED_RATIO = 0.95;
+
+/** Staff who curate videos manage editorial playlists and may clean up user ones. */
+export async function canManagePlaylists(session: LibrarySession): Promise<boolean> {
+  return sessionHasPermission(session, "videos.manage");
+}
+
+function isOwner(playlist: Playlist, session: LibrarySession): boolean {
+  return Boolean(playlist.ownerId && session?.userId && playlist.ownerId === session.userId);
+}
+
+/**
+ * Public and unlisted playlists open for anyone with the link; private ones
+ * only for their owner and staff with videos.manage.
+ */
+export async function canViewPlaylist(playlist: Playlist, session: LibrarySession): Promise<boolean> {
+  if (playlist.visibility !== "private") return true;
+  return isOwner(playlist, session) || (await canManagePlaylists(session));
+}
+
+/**
+ * Editorial playlists (no owner) are managed by staff with videos.manage,
+ * user playlists by their owner. Staff may also clean up user playlists.
+ */
+export async function canEditPlaylist(playlist: Playlist, session: LibrarySession): Promise<boolean> {
+  return isOwner(playlist, session) || (await canManagePlaylists(session));
+}
+
+/**
+ * Position to resume a video from, or 0 when it was barely started or
+ * already watched to the end.
+ */
+export function computeResumeSeconds(entry: WatchHistoryEntry | undefined): number {
+  if (!entry || entry.positionSeconds < MIN_RESUME_SECONDS) return 0;
+  if (entry.durationSeconds && entry.positionSeconds >= entry.durationSeconds * COMPLETED_RATIO) return 0;
+  return entry.positionSeconds;
+}
+
+/**
+ * Moves likes, subscriptions and the KV viewing history recorded before login onto the
+ * account. Failures are logged and never block the login itself.
+ */
+export async function mergeAnonymousActivity(userId: string, anonymousIdentifier: string) {
+  try {
+    const historyVideoIds = await kvService.getViewingHistory(anonymousIdentifier);
+    const merged = await storage.mergeAnonymousActivity(userId, anonymousIdentifier, historyVideoIds);
+    if (historyVideoIds.length > 0) {
+      await kvService.clearViewingHistory(anonymousIdentifier);
+    }
+    if (merged.likes > 0 || merged.history > 0 || merged.subscriptions > 0) {
+      logger.info(`Merged anonymous activity into user ${userId}`, merged);
+    }
+    return merged;
+  } catch (error) {
+    logger.error(`Failed to merge anonymous activity for user ${userId}`, error);
+    return { likes: 0, history: 0, subscriptions: 0 };
+  }
+}
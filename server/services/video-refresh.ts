@@ -0,0 +1,238 @@
+import { storage } from "../storage/index.js";
+import { logger } from "../lib/logger.js";
+import { ExternalServiceError } from "../errors/custom-errors.js";
+import { requirePlatformAdapter, type PlatformVideo } from "../platforms/index.js";
+import { fetchVideosViaApi, getYouTubeApiKey } from "../platforms/youtube-api.js";
+import type { Video, VideoHiddenReason } from "../../shared/schema.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+const YOUTUBE_TYPES = new Set(["regular", "youtube_short"]);
+/** Video types whose source can be asked about a single video. */
+export const REFRESHABLE_VIDEO_TYPES = ["regular", "youtube_short", "vimeo", "dailymotion"] as const;
+
+// Younger videos change fastest, so they are looked at more often
+const REFRESH_TIERS = [
+  { maxAgeMs: 2 * DAY_MS, intervalMs: 3 * HOUR_MS },
+  { maxAgeMs: 7 * DAY_MS, intervalMs: 12 * HOUR_MS },
+  { maxAgeMs: 30 * DAY_MS, intervalMs: 2 * DAY_MS },
+  { maxAgeMs: Infinity, intervalMs: 7 * DAY_MS },
+];
+// A failed lookup is retried later instead of on every run
+const FAILURE_BACKOFF_MS = 6 * HOUR_MS;
+
+// With the Data API 50 videos cost one quota unit; without it every YouTube
+// video is a watch-page scrape, so runs stay small
+const API_BATCH_SIZE = 200;
+const SCRAPE_BATCH_SIZE = 25;
+const API_CHUNK_SIZE = 50;
+
+const TRENDING_WINDOW_MS = 48 * HOUR_MS;
+const MIN_TRENDING_SPAN_MS = HOUR_MS;
+// Weekly-refreshed videos still get a score from their previous snapshot
+const MAX_BASELINE_AGE_MS = 8 * DAY_MS;
+
+export type VideoRefreshSummary = {
+  checked: number;
+  updated: number;
+  hidden: number;
+  failed: number;
+};
+
+export type VideoRefreshOptions = {
+  limit?: number;
+  now?: Date;
+  onProgress?: (summary: VideoRefreshSummary, total: number) => Promise<void> | void;
+};
+
+type Lookup =
+  | { kind: "found"; video: PlatformVideo }
+  | { kind: "gone"; reason: VideoHiddenReason }
+  | { kind: "failed"; error: string };
+
+/** Digits of a stored view count ("48213", "1,234 views"), or null when there are none. */
+export function parseViewCount(value: string | null | undefined): number | null {
+  const digits = (value || "").replace(/[^0-9]/g, "");
+  return digits ? Number.parseInt(digits, 10) : null;
+}
+
+export function nextRefreshAt(video: Pick<Video, "publishDate" | "createdAt">, now: Date = new Date()): Date {
+  const published = Date.parse(video.publishDate || "");
+  const since = Number.isFinite(published) ? published : new Date(video.createdAt).getTime();
+  const age = Math.max(0, now.getTime() - since);
+  const tier = REFRESH_TIERS.find((t) => age < t.maxAgeMs)!;
+  return new Date(now.getTime() + tier.intervalMs);
+}
+
+/**
+ * External views gained per hour, measured from the oldest snapshot in the
+ * 48 hours before the latest one. Falls back to the previous snapshot for
+ * videos refreshed less often than that.
+ */
+export function computeTrendingScore(snapshots: { viewCount: number; capturedAt: Date }[]): number {
+  if (snapshots.length < 2) return 0;
+  const latest = snapshots[snapshots.length - 1];
+  const latestAt = latest.capturedAt.getTime();
+  const baseline =
+    snapshots.find((s) => {
+      const span = latestAt - s.capturedAt.getTime();
+      return span <= TRENDING_WINDOW_MS && span >= MIN_TRENDING_SPAN_MS;
+    }) ?? snapshots[snapshots.length - 2];
+
+  const span = latestAt - baseline.capturedAt.getTime();
+  if (span < MIN_TRENDING_SPAN_MS || span > MAX_BASELINE_AGE_MS) return 0;
+  return Math.max(0, latest.viewCount - baseline.viewCount) / (span / HOUR_MS);
+}
+
+/**
+ * oEmbed answers 404 for removed videos and 401/403 for private ones (and
+ * for ones that can't be embedded, which would be just as dead on our
+ * pages). Anything else means we can't tell.
+ */
+async function probeYouTubeOEmbed(videoId: string): Promise<VideoHiddenReason | null> {
+  const watchUrl = `https://www.youtube.com/watch?v=${videoId}`;
+  try {
+    const response = await fetch(`https://www.youtube.com/oembed?format=json&url=${encodeURIComponent(watchUrl)}`, {
+      signal: AbortSignal.timeout(15000),
+    });
+    if (response.status === 404) return "deleted";
+    if (response.status === 401 || response.status === 403) return "private";
+  } catch (error) {
+    logger.warn(`[video-refresh] oEmbed probe failed for ${videoId}: ${(error as Error).message}`);
+  }
+  return null;
+}
+
+async function lookupMissingYouTube(videoId: string, error: string): Promise<Lookup> {
+  const reason = await probeYouTubeOEmbed(videoId);
+  return reason ? { kind: "gone", reason } : { kind: "failed", error };
+}
+
+async function lookupYouTubeViaApi(videos: Video[], apiKey: string): Promise<Map<string, Lookup>> {
+  const results = new Map<string, Lookup>();
+  let found: Map<string, PlatformVideo>;
+  try {
+    found = await fetchVideosViaApi(videos.map((v) => v.videoId), apiKey);
+  } catch (error) {
+    for (const video of videos) results.set(video.id, { kind: "failed", error: (error as Error).message });
+    return results;
+  }
+  for (const video of videos) {
+    const current = found.get(video.videoId);
+    results.set(
+      video.id,
+      current ? { kind: "found", video: current } : await lookupMissingYouTube(video.videoId, "Missing from videos.list"),
+    );
+  }
+  return results;
+}
+
+/** Watch page of a YouTube, Vimeo or Dailymotion video. */
+export function videoSourceUrl(video: Pick<Video, "videoId" | "videoType">): string {
+  if (video.videoType === "vimeo") return `https://vimeo.com/${video.videoId.replace(/^vimeo_/, "")}`;
+  if (video.videoType === "dailymotion") return `https://www.dailymotion.com/video/${video.videoId.replace(/^dailymotion_/, "")}`;
+  return `https://www.youtube.com/watch?v=${video.videoId}`;
+}
+
+async function lookupOne(video: Video): Promise<Lookup> {
+  const isYouTube = YOUTUBE_TYPES.has(video.videoType);
+  const adapter = requirePlatformAdapter(isYouTube ? "youtube" : video.videoType);
+  try {
+    return { kind: "found", video: await adapter.resolveVideo!(videoSourceUrl(video)) };
+  } catch (error) {
+    const message = (error as Error).message;
+    if (isYouTube) return lookupMissingYouTube(video.videoId, message);
+
+    const status = error instanceof ExternalServiceError ? error.context?.status : undefined;
+    if (status === 404 || status === 410) return { kind: "gone", reason: "deleted" };
+    if (status === 401 || status === 403) return { kind: "gone", reason: "private" };
+    return { kind: "failed", error: message };
+  }
+}
+
+async function applyLookup(video: Video, lookup: Lookup, now: Date, summary: VideoRefreshSummary): Promise<void> {
+  summary.checked++;
+
+  if (lookup.kind === "failed") {
+    summary.failed++;
+    logger.warn(`[video-refresh] Could not refresh ${video.videoId}: ${lookup.error}`);
+    await storage.updateVideo(video.id, { nextRefreshAt: new Date(now.getTime() + FAILURE_BACKOFF_MS) });
+    return;
+  }
+
+  if (lookup.kind === "gone") {
+    const updates: Partial<Video> = {
+      availability: "unavailable",
+      availabilityCheckedAt: now,
+      metadataRefreshedAt: now,
+      nextRefreshAt: nextRefreshAt(video, now),
+      trendingScore: 0,
+    };
+    // Videos an admin restored from quarantine stay up
+    if (!video.availabilityReviewedAt) {
+      summary.hidden++;
+      logger.info(`[video-refresh] Hiding ${video.videoId} (${lookup.reason}): ${video.title}`);
+      Object.assign(updates, { hiddenAt: now, hiddenReason: lookup.reason, nextRefreshAt: null });
+    }
+    await storage.updateVideo(video.id, updates);
+    return;
+  }
+
+  const current = lookup.video;
+  const updates: Partial<Video> = {
+    metadataRefreshedAt: now,
+    nextRefreshAt: nextRefreshAt(video, now),
+  };
+  if (current.title) updates.title = current.title;
+  if (current.thumbnailUrl) updates.thumbnailUrl = current.thumbnailUrl;
+  if (current.duration) updates.duration = current.duration;
+
+  const views = parseViewCount(current.viewCount);
+  if (views !== null) {
+    updates.viewCount = String(current.viewCount);
+    await storage.recordVideoViewSnapshot(video.id, views, now);
+    const snapshots = await storage.getVideoViewSnapshots(video.id, new Date(now.getTime() - MAX_BASELINE_AGE_MS));
+    updates.trendingScore = computeTrendingScore(snapshots);
+  }
+
+  await storage.updateVideo(video.id, updates);
+  summary.updated++;
+}
+
+/**
+ * Re-fetches title, thumbnail, duration and view count for the videos that
+ * are due, records a view snapshot for each and recomputes its trending
+ * score. Videos whose source is gone are hidden.
+ */
+export async function refreshStaleVideos(options: VideoRefreshOptions = {}): Promise<VideoRefreshSummary> {
+  const now = options.now ?? new Date();
+  const apiKey = await getYouTubeApiKey();
+  const limit = options.limit ?? (apiKey ? API_BATCH_SIZE : SCRAPE_BATCH_SIZE);
+  const due = await storage.getVideosDueForRefresh(REFRESHABLE_VIDEO_TYPES, limit, now);
+
+  const summary: VideoRefreshSummary = { checked: 0, updated: 0, hidden: 0, failed: 0 };
+  const youtube = apiKey ? due.filter((v) => YOUTUBE_TYPES.has(v.videoType)) : [];
+  const oneByOne = due.filter((v) => !youtube.includes(v));
+
+  for (let i = 0; i < youtube.length; i += API_CHUNK_SIZE) {
+    const chunk = youtube.slice(i, i + API_CHUNK_SIZE);
+    const lookups = await lookupYouTubeViaApi(chunk, apiKey!);
+    for (const video of chunk) {
+      await applyLookup(video, lookups.get(video.id)!, now, summary);
+    }
+    await options.onProgress?.(summary, due.length);
+  }
+
+  for (const video of oneByOne) {
+    await applyLookup(video, await lookupOne(video), now, summary);
+    await options.onProgress?.(summary, due.length);
+  }
+
+  if (summary.checked > 0) {
+    logger.info(
+      `[video-refresh] Checked ${summary.checked} videos: ${summary.updated} updated, ${summary.hidden} hidden, ${summary.failed} failed`,
+    );
+  }
+  return summary;
+}
@@ -0,0 +1,223 @@
+import { createHash, randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "../storage/index.js";
+import { VISITOR_INTERACTION_EVENTS, type VisitorSession } from "../../shared/schema.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+/** Sessions shorter than this with a single page view and no interaction count as bounces. */
+const BOUNCE_SECONDS = 10;
+const MAX_EVENTS_PER_BATCH = 50;
+
+// Without ANALYTICS_SALT the hashes are only comparable until the next restart, which is fine
+const processSalt = randomBytes(16).toString("hex");
+
+const id = z.string().min(8).max(64).regex(/^[A-Za-z0-9_-]+$/);
+const path = z.string().min(1).max(500).startsWith("/");
+const ts = z.number().int().positive().optional();
+
+const beaconEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("pageview"),
+    path,
+    title: z.string().max(300).optional(),
+    referrer: z.string().max(1000).optional(),
+    utm: z
+      .object({
+        source: z.string().max(100).optional(),
+        medium: z.string().max(100).optional(),
+        campaign: z.string().max(200).optional(),
+      })
+      .optional(),
+    ts,
+  }),
+  z.object({
+    type: z.literal("leave"),
+    path,
+    durationSeconds: z.number().int().min(0).max(24 * 60 * 60),
+    ts,
+  }),
+  z.object({
+    type: z.literal("event"),
+    name: z.string().min(1).max(64),
+    properties: z.record(z.union([z.string().max(300), z.number(), z.boolean()])).optional(),
+    ts,
+  }),
+]);
+
+export const beaconBatchSchema = z.object({
+  visitorId: id,
+  sessionId: id,
+  consent: z.boolean(),
+  events: z.array(beaconEventSchema).min(1).max(MAX_EVENTS_PER_BATCH),
+});
+
+export type BeaconBatch = z.infer<typeof beaconBatchSchema>;
+
+export type BeaconContext = {
+  ip?: string;
+  userAgent?: string;
+  country?: string;
+  host?: string;
+  now?: Date;
+};
+
+export type ParsedUserAgent = {
+  browser: string;
+  os: string;
+  device: "desktop" | "mobile" | "tablet";
+  bot: boolean;
+};
+
+const BOT_PATTERN = /bot|crawler|spider|crawling|slurp|headless|lighthouse|preview|facebookexternalhit|embedly|python-requests|curl|wget/i;
+
+/** Just enough UA parsing for the browser/OS/device breakdowns; no version numbers. */
+export function parseUserAgent(ua: string): ParsedUserAgent {
+  const browser =
+    /Edg(e|A|iOS)?\//.test(ua) ? "Edge"
+    : /OPR\/|Opera/.test(ua) ? "Opera"
+    : /SamsungBrowser\//.test(ua) ? "Samsung Internet"
+    : /Firefox\/|FxiOS\//.test(ua) ? "Firefox"
+    : /Chrome\/|CriOS\//.test(ua) ? "Chrome"
+    : /Safari\//.test(ua) ? "Safari"
+    : "Other";
+
+  const os =
+    /Windows/.test(ua) ? "Windows"
+    : /iPhone|iPad|iPod/.test(ua) ? "iOS"
+    : /Android/.test(ua) ? "Android"
+    : /CrOS/.test(ua) ? "ChromeOS"
+    : /Mac OS X|Macintosh/.test(ua) ? "macOS"
+    : /Linux/.test(ua) ? "Linux"
+    : "Other";
+
+  const device =
+    /iPad|Tablet/.test(ua) || (/Android/.test(ua) && !/Mobile/.test(ua)) ? "tablet"
+    : /Mobi|iPhone|iPod|Android/.test(ua) ? "mobile"
+    : "desktop";
+
+  return { browser, os, device, bot: BOT_PATTERN.test(ua) };
+}
+
+/**
+ * Hashes the IP with a salt that rotates daily, so the same visitor can be
+ * told apart within a day but never tracked across days or reversed.
+ */
+export function hashIp(ip: string, now: Date = new Date()): string {
+  const salt = process.env.ANALYTICS_SALT || processSalt;
+  const day = now.toISOString().slice(0, 10);
+  return createHash("sha256").update(`${salt}:${day}:${ip}`).digest("hex").slice(0, 32);
+}
+
+function referrerHost(referrer: string): string | null {
+  try {
+    return new URL(referrer).hostname;
+  } catch {
+    return null;
+  }
+}
+
+// The client clock can't be trusted further than this
+function eventTime(ts: number | undefined, now: Date): Date {
+  if (!ts) return now;
+  return new Date(Math.min(Math.max(ts, now.getTime() - HOUR_MS), now.getTime()));
+}
+
+/**
+ * Stitches a beacon batch into the visitor's session: the first event opens
+ * it, later ones extend it and keep its page count, duration and bounce flag
+ * current. Without consent the session keeps only coarse, non-identifying
+ * data: no IP hash, no user agent, and the referrer reduced to its host.
+ * Returns false when the batch came from a bot and was dropped.
+ */
+export async function ingestBeaconBatch(batch: BeaconBatch, context: BeaconContext = {}): Promise<boolean> {
+  const now = context.now ?? new Date();
+  const agent = context.userAgent ? parseUserAgent(context.userAgent) : null;
+  if (agent?.bot) return false;
+
+  const events = batch.events
+    .map((event) => ({ ...event, at: eventTime(event.ts, now) }))
+    .sort((a, b) => a.at.getTime() - b.at.getTime());
+
+  let session = await storage.getVisitorSession(batch.sessionId);
+  if (session && session.visitorId !== batch.visitorId) return false;
+
+  if (!session) {
+    const landing = events.find((e): e is Extract<typeof e, { type: "pageview" }> => e.type === "pageview");
+    const host = landing?.referrer ? referrerHost(landing.referrer) : null;
+    // Navigation inside the site isn't a source
+    const external = host && host !== context.host ? landing!.referrer! : null;
+    const utm = landing?.utm;
+
+    session = await storage.createVisitorSession({
+      id: batch.sessionId,
+      visitorId: batch.visitorId,
+      ipHash: batch.consent && context.ip ? hashIp(context.ip, now) : null,
+      userAgent: batch.consent ? context.userAgent?.slice(0, 500) ?? null : null,
+      browser: agent?.browser ?? null,
+      os: agent?.os ?? null,
+      device: agent?.device ?? null,
+      country: context.country ?? null,
+      referrer: external ? (batch.consent ? external.slice(0, 1000) : `https://${host}/`) : null,
+      utmSource: utm?.source ?? null,
+      utmMedium: utm?.medium ?? null,
+      utmCampaign: utm?.campaign ?? null,
+      landingPath: landing?.path ?? null,
+      startedAt: events[0].at,
+      endedAt: events[0].at,
+      consentGranted: batch.consent,
+    });
+  }
+
+  let pageViewCount = session.pageViewCount;
+  let endedAt = session.endedAt;
+  let interacted = false;
+  const interactions = new Set<string>(VISITOR_INTERACTION_EVENTS);
+
+  for (const event of events) {
+    if (event.type === "pageview") {
+      pageViewCount++;
+      await storage.recordPageView({
+        sessionId: session.id,
+        visitorId: batch.visitorId,
+        path: event.path,
+        title: event.title ?? null,
+        timestamp: event.at,
+      });
+    } else if (event.type === "leave") {
+      await storage.setPageViewDuration(session.id, event.path, event.durationSeconds);
+    } else {
+      interacted ||= interactions.has(event.name);
+      await storage.recordAnalyticsCustomEvent({
+        sessionId: session.id,
+        visitorId: batch.visitorId,
+        eventName: event.name,
+        properties: event.properties ?? null,
+        timestamp: event.at,
+      });
+    }
+
+    // A leave beacon is sent when the page is hidden, so it marks the end of the time spent
+    if (event.at > endedAt) endedAt = event.at;
+  }
+
+  const durationSeconds = Math.max(0, Math.round((endedAt.getTime() - session.startedAt.getTime()) / 1000));
+  const updates: Partial<VisitorSession> = {
+    pageViewCount,
+    endedAt,
+    durationSeconds,
+    isBounce: session.isBounce !== false && !interacted && pageViewCount < 2 && durationSeconds < BOUNCE_SECONDS,
+  };
+  // Consent given mid-session upgrades it; withdrawing stops further identifying data
+  if (batch.consent && !session.consentGranted) {
+    Object.assign(updates, {
+      consentGranted: true,
+      ipHash: context.ip ? hashIp(context.ip, now) : null,
+      userAgent: context.userAgent?.slice(0, 500) ?? null,
+    });
+  } else if (!batch.consent && session.consentGranted) {
+    Object.assign(updates, { consentGranted: false, ipHash: null, userAgent: null });
+  }
+
+  await storage.updateVisitorSession(session.id, updates);
+  return true;
+}
@@ -0,0 +1,281 @@
+import { createHmac, randomBytes, randomUUID } from "crypto";
+import { storage } from "../storage/index.js";
+import { errorLogBus, recordError } from "../error-log-service.js";
+import { logger } from "../lib/logger.js";
+import type {
+  Channel,
+  ChannelRecommendation,
+  ScrapeJob,
+  Video,
+  WebhookDelivery,
+  WebhookEvent,
+  WebhookSubscription,
+} from "../../shared/schema.js";
+
+const BACKOFF_BASE_MS = 30 * 1000;
+const BACKOFF_MAX_MS = 12 * 60 * 60 * 1000;
+const DELIVERY_BATCH_SIZE = 20;
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+// Matches the email_settings.error_alert_threshold default, used until email settings exist
+const DEFAULT_ERROR_THRESHOLD = 25;
+
+type DeliverySummary = { delivered: number; retried: number; dead: number };
+
+let inFlight: Promise<DeliverySummary> | null = null;
+// Set when a caller joins a run that may already have claimed its batch
+let claimAgain = false;
+
+function siteUrl(path: string): string {
+  return `${process.env.PUBLIC_BASE_URL || "https://nisam.video"}${path}`;
+}
+
+/**
+ * Exponential backoff: 30s, 1m, 2m, ... capped at 12h. With the default eight
+ * attempts a delivery is dead about an hour after the event.
+ */
+export function computeWebhookBackoffMs(attempts: number): number {
+  return Math.min(BACKOFF_BASE_MS * 2 ** Math.max(0, attempts - 1), BACKOFF_MAX_MS);
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Hex HMAC-SHA256 of "<timestamp>.<body>". Receivers recompute it from the
+ * X-Nisam-Timestamp header and the raw body, and reject old timestamps.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+export function videoPayload(video: Video) {
+  return {
+    id: video.id,
+    videoId: video.videoId,
+    slug: video.slug,
+    title: video.title,
+    description: video.description,
+    url: siteUrl(`/video/${video.slug || video.id}`),
+    thumbnailUrl: video.thumbnailUrl,
+    embedUrl: video.embedUrl,
+    videoType: video.videoType,
+    channelId: video.channelId,
+    publishDate: video.publishDate,
+  };
+}
+
+export function channelPayload(channel: Channel) {
+  return {
+    id: channel.id,
+    name: channel.name,
+    url: channel.url,
+    platform: channel.platform,
+    channelId: channel.channelId,
+    thumbnailUrl: channel.thumbnailUrl,
+  };
+}
+
+export function scrapeJobPayload(job: ScrapeJob) {
+  return {
+    id: job.id,
+    type: job.type,
+    targetId: job.targetId,
+    status: job.status,
+    totalItems: job.totalItems,
+    processedItems: job.processedItems,
+    failedItems: job.failedItems,
+    errorMessage: job.errorMessage,
+    startedAt: job.startedAt,
+    completedAt: job.completedAt,
+  };
+}
+
+/**
+ * scrape_job.completed / scrape_job.failed for a job that just finished, from
+ * whichever runner finished it. The payload carries the stored row, with its
+ * final counts.
+ */
+export async function emitScrapeJobEvent(jobId: string, event: "scrape_job.completed" | "scrape_job.failed"): Promise<void> {
+  const finished = await storage.getScrapeJob(jobId);
+  if (finished) await emitWebhookEvent(event, { job: scrapeJobPayload(finished) });
+}
+
+export function recommendationPayload(recommendation: ChannelRecommendation) {
+  return {
+    id: recommendation.id,
+    url: recommendation.url,
+    platform: recommendation.platform,
+    description: recommendation.description,
+  };
+}
+
+/**
+ * Queues one delivery per enabled subscription that selected the event and
+ * starts sending. Never throws: webhooks must not break the work that
+ * triggered them.
+ */
+export async function emitWebhookEvent(event: WebhookEvent, data: Record<string, unknown>): Promise<void> {
+  try {
+    const subscriptions = (await storage.getWebhookSubscriptions()).filter(
+      (subscription) => subscription.enabled && subscription.events.includes(event),
+    );
+    if (subscriptions.length === 0) return;
+
+    // Shared by every subscription and kept on replays, so receivers can dedupe
+    const payload = { id: randomUUID(), event, occurredAt: new Date().toISOString(), data };
+    for (const subscription of subscriptions) {
+      await storage.enqueueWebhookDelivery({ subscriptionId: subscription.id, event, payload });
+    }
+    processWebhookDeliveries().catch((error) => logger.error("Webhook delivery processing failed", error));
+  } catch (error) {
+    logger.error(`Failed to queue ${event} webhooks`, error);
+  }
+}
+
+/**
+ * Queues the delivery's payload again as a new delivery, so the log keeps the
+ * original attempt.
+ */
+export async function replayWebhookDelivery(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const replayed = await storage.enqueueWebhookDelivery({
+    subscriptionId: delivery.subscriptionId,
+    event: delivery.event,
+    payload: delivery.payload,
+  });
+  processWebhookDeliveries().catch((error) => logger.error("Webhook delivery processing failed", error));
+  return replayed;
+}
+
+/**
+ * Claims due deliveries and POSTs them. Anything but a 2xx answer is retried
+ * with exponential backoff until maxAttempts, after which the delivery is
+ * "dead" until an admin replays it. Concurrent callers share the run that is
+ * already in progress, which claims once more before finishing so whatever
+ * they queued is sent too.
+ */
+export function processWebhookDeliveries(): Promise<DeliverySummary> {
+  if (inFlight) {
+    claimAgain = true;
+    return inFlight;
+  }
+  inFlight = drainDeliveries().finally(() => {
+    inFlight = null;
+  });
+  return inFlight;
+}
+
+async function send(subscription: WebhookSubscription, delivery: WebhookDelivery): Promise<number> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const res = await fetch(subscription.url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "User-Agent": "nisam.video-webhooks",
+      "X-Nisam-Event": delivery.event,
+      "X-Nisam-Delivery": delivery.id,
+      "X-Nisam-Timestamp": String(timestamp),
+      "X-Nisam-Signature": `sha256=${signWebhookPayload(subscription.secret, timestamp, body)}`,
+    },
+    body,
+    redirect: "manual",
+    signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    const text = await res.text().catch(() => "");
+    throw Object.assign(new Error(`HTTP ${res.status}${text ? `: ${text.slice(0, 500)}` : ""}`), {
+      statusCode: res.status,
+    });
+  }
+  return res.status;
+}
+
+/** Claims and sends batches until nothing is due and no caller asked for another pass. */
+async function drainDeliveries(): Promise<DeliverySummary> {
+  const summary = { delivered: 0, retried: 0, dead: 0 };
+  for (;;) {
+    claimAgain = false;
+    const due = await storage.claimDueWebhookDeliveries(DELIVERY_BATCH_SIZE);
+    if (due.length === 0 && !claimAgain) return summary;
+    await sendBatch(due, summary);
+  }
+}
+
+async function sendBatch(due: WebhookDelivery[], summary: DeliverySummary): Promise<void> {
+  const subscriptions = new Map<string, WebhookSubscription | undefined>();
+
+  for (const delivery of due) {
+    if (!subscriptions.has(delivery.subscriptionId)) {
+      subscriptions.set(delivery.subscriptionId, await storage.getWebhookSubscription(delivery.subscriptionId));
+    }
+    const subscription = subscriptions.get(delivery.subscriptionId);
+    const attempts = delivery.attempts + 1;
+
+    if (!subscription?.enabled) {
+      await storage.updateWebhookDelivery(delivery.id, { status: "dead", lastError: "The subscription is disabled" });
+      summary.dead++;
+      continue;
+    }
+
+    try {
+      const statusCode = await send(subscription, delivery);
+      await storage.updateWebhookDelivery(delivery.id, {
+        status: "delivered",
+        attempts,
+        lastStatusCode: statusCode,
+        lastError: null,
+        deliveredAt: new Date(),
+      });
+      summary.delivered++;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const exhausted = attempts >= delivery.maxAttempts;
+      await storage.updateWebhookDelivery(delivery.id, {
+        status: exhausted ? "dead" : "pending",
+        attempts,
+        lastStatusCode: (error as { statusCode?: number }).statusCode ?? null,
+        lastError: message.slice(0, 2000),
+        nextAttemptAt: new Date(Date.now() + computeWebhookBackoffMs(attempts)),
+      });
+      if (exhausted) {
+        summary.dead++;
+        await recordError({
+          level: "warn",
+          type: "webhook_delivery_failed",
+          message,
+          module: "webhooks",
+          context: { deliveryId: delivery.id, subscriptionId: subscription.id, event: delivery.event, attempts },
+        });
+      } else {
+        summary.retried++;
+      }
+    }
+  }
+}
+
+/**
+ * Sends error.threshold once when an error fingerprint reaches the alert
+ * threshold from email settings. Webhook delivery failures are excluded so a
+ * broken receiver can't alert about itself.
+ */
+export function registerWebhookEvents() {
+  errorLogBus.on("error_event", async (event: { fingerprint: string; level: string; type: string; message: string; module?: string; count: number }) => {
+    if (event.type === "webhook_delivery_failed") return;
+    try {
+      const settings = await storage.getEmailSettings();
+      const threshold = settings?.errorAlertThreshold ?? DEFAULT_ERROR_THRESHOLD;
+      if (event.count !== threshold) return;
+      await emitWebhookEvent("error.threshold", {
+        fingerprint: event.fingerprint,
+        level: event.level,
+        type: event.type,
+        message: event.message,
+        module: event.module ?? null,
+        count: event.count,
+      });
+    } catch (error) {
+      logger.error("Failed to evaluate the webhook error threshold", error);
+    }
+  });
+}
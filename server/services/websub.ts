@@ -0,0 +1,287 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { storage } from "../storage/index.js";
+import { logger } from "../lib/logger.js";
+import { BusinessLogicError } from "../errors/custom-errors.js";
+import { parseFeed, requirePlatformAdapter, type PlatformVideo } from "../platforms/index.js";
+import { processScrapedVideos } from "../video-ingestion.js";
+import type { Channel, WebSubSubscription } from "../../shared/schema.js";
+
+export const YOUTUBE_HUB_URL = "https://pubsubhubbub.appspot.com/subscribe";
+
+// The hub grants at most 10 days; we ask for 5 and renew a day ahead
+const LEASE_SECONDS = 5 * 24 * 60 * 60;
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+// Pending/failed requests are re-sent after this; denials wait a day
+const RETRY_AFTER_MS = 60 * 60 * 1000;
+const DENIED_RETRY_AFTER_MS = 24 * 60 * 60 * 1000;
+
+/** Channels with a live push lease are still polled, but only this often. */
+export const WEBSUB_POLL_FALLBACK_HOURS = 24;
+
+const YOUTUBE_CHANNEL_ID_RE = /^UC[A-Za-z0-9_-]{22}$/;
+
+export type WebSubRenewalSummary = {
+  skipped: boolean;
+  requested: number;
+  failed: number;
+};
+
+export type WebSubVerification =
+  | { ok: true; body: string }
+  | { ok: false };
+
+export type WebSubNotification = {
+  accepted: boolean;
+  channelId?: string;
+  videoIds: string[];
+};
+
+/**
+ * The hub has to reach the callback from the internet, so push is off until
+ * WEBSUB_CALLBACK_BASE_URL (or PUBLIC_BASE_URL) points at a public host.
+ */
+export function getWebSubCallbackBase(): string | null {
+  const base = (process.env.WEBSUB_CALLBACK_BASE_URL || process.env.PUBLIC_BASE_URL || "").trim().replace(/\/+$/, "");
+  if (!base) return null;
+  try {
+    const host = new URL(base).hostname;
+    if (host === "localhost" || host === "[::1]" || host.startsWith("127.")) return null;
+  } catch {
+    return null;
+  }
+  return base;
+}
+
+export function isWebSubEnabled(): boolean {
+  return getWebSubCallbackBase() !== null;
+}
+
+export function youtubeTopicUrl(youtubeChannelId: string): string {
+  return `https://www.youtube.com/xml/feeds/videos.xml?channel_id=${youtubeChannelId}`;
+}
+
+/** YouTube channels we can subscribe: the topic needs the UC… channel id, known after the first scrape. */
+export function canSubscribe(channel: Channel): boolean {
+  return (channel.platform || "youtube") === "youtube" && YOUTUBE_CHANNEL_ID_RE.test(channel.channelId || "");
+}
+
+export function isPushActive(subscription: WebSubSubscription | undefined, now = new Date()): boolean {
+  return (
+    subscription?.status === "subscribed" &&
+    subscription.leaseExpiresAt != null &&
+    new Date(subscription.leaseExpiresAt).getTime() > now.getTime()
+  );
+}
+
+/** Channel ids whose videos currently arrive by push, for the pollers to throttle. */
+export async function getPushActiveChannelIds(now = new Date()): Promise<Set<string>> {
+  if (!isWebSubEnabled()) return new Set();
+  const subscriptions = await storage.getWebSubSubscriptions();
+  return new Set(subscriptions.filter((s) => isPushActive(s, now)).map((s) => s.channelId));
+}
+
+/**
+ * Asks the hub to (re)subscribe the channel. The hub confirms asynchronously
+ * by calling the callback, which is what flips the row to "subscribed"; an
+ * active lease stays "subscribed" while its renewal is in flight.
+ */
+export async function requestSubscription(channel: Channel): Promise<WebSubSubscription> {
+  const base = getWebSubCallbackBase();
+  if (!base) throw new BusinessLogicError("WebSub needs a public WEBSUB_CALLBACK_BASE_URL or PUBLIC_BASE_URL");
+  if (!canSubscribe(channel)) {
+    throw new BusinessLogicError(`Channel ${channel.name} has no YouTube channel id yet; scrape it first`);
+  }
+
+  const existing = await storage.getWebSubSubscriptionByChannel(channel.id);
+  const subscription = await storage.saveWebSubSubscription({
+    channelId: channel.id,
+    topicUrl: youtubeTopicUrl(channel.channelId!),
+    hubUrl: YOUTUBE_HUB_URL,
+    secret: existing?.secret || randomBytes(24).toString("hex"),
+    status: isPushActive(existing) ? "subscribed" : "pending",
+    lastRequestedAt: new Date(),
+  });
+
+  const form = new URLSearchParams({
+    "hub.callback": `${base}/api/websub/youtube/${subscription.id}`,
+    "hub.mode": "subscribe",
+    "hub.topic": subscription.topicUrl,
+    "hub.verify": "async",
+    "hub.secret": subscription.secret,
+    "hub.lease_seconds": String(LEASE_SECONDS),
+  });
+
+  let error: string | null = null;
+  try {
+    const response = await fetch(subscription.hubUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/x-www-form-urlencoded" },
+      body: form.toString(),
+      signal: AbortSignal.timeout(15000),
+    });
+    if (!response.ok) {
+      const detail = (await response.text().catch(() => "")).trim().slice(0, 200);
+      error = `Hub responded ${response.status}${detail ? `: ${detail}` : ""}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  if (error) {
+    logger.warn(`[websub] Subscribe request for ${channel.name} failed: ${error}`);
+    return (await storage.updateWebSubSubscription(subscription.id, {
+      status: isPushActive(existing) ? "subscribed" : "error",
+      lastError: error,
+    }))!;
+  }
+  return (await storage.updateWebSubSubscription(subscription.id, { lastError: null }))!;
+}
+
+/**
+ * Handles the hub's intent verification (GET on the callback). Only
+ * subscriptions we asked for are confirmed: the topic has to match the row
+ * the callback id points at.
+ */
+export async function verifyIntent(subscriptionId: string, query: Record<string, unknown>): Promise<WebSubVerification> {
+  const subscription = await storage.getWebSubSubscription(subscriptionId);
+  const mode = String(query["hub.mode"] || "");
+  if (!subscription || String(query["hub.topic"] || "") !== subscription.topicUrl) return { ok: false };
+
+  if (mode === "denied") {
+    await storage.updateWebSubSubscription(subscription.id, {
+      status: "denied",
+      lastError: String(query["hub.reason"] || "Denied by hub"),
+    });
+    return { ok: true, body: "" };
+  }
+
+  const challenge = String(query["hub.challenge"] || "");
+  if (mode !== "subscribe" || !challenge) return { ok: false };
+
+  const leaseSeconds = Number.parseInt(String(query["hub.lease_seconds"] || ""), 10) || LEASE_SECONDS;
+  const now = new Date();
+  await storage.updateWebSubSubscription(subscription.id, {
+    status: "subscribed",
+    leaseSeconds,
+    leaseExpiresAt: new Date(now.getTime() + leaseSeconds * 1000),
+    verifiedAt: now,
+    lastError: null,
+  });
+  logger.info(`[websub] Subscription ${subscription.id} verified for ${leaseSeconds}s`);
+  return { ok: true, body: challenge };
+}
+
+/** Checks X-Hub-Signature ("sha1=<hex>", or a stronger algorithm) against the raw body. */
+export function verifySignature(secret: string, body: Buffer, header: string | undefined): boolean {
+  const match = header?.trim().match(/^(sha1|sha256|sha384|sha512)=([a-f0-9]+)$/i);
+  if (!match) return false;
+  const expected = createHmac(match[1].toLowerCase(), secret).update(body).digest();
+  const given = Buffer.from(match[2], "hex");
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+/**
+ * Authenticates a content distribution and pulls the video ids out of the
+ * Atom payload. Unsigned or mis-signed bodies are dropped quietly; the hub
+ * still gets a 2xx so it doesn't retry forged messages.
+ */
+export async function receiveNotification(
+  subscriptionId: string,
+  body: Buffer,
+  signature: string | undefined,
+): Promise<WebSubNotification | undefined> {
+  const subscription = await storage.getWebSubSubscription(subscriptionId);
+  if (!subscription) return undefined;
+
+  if (!verifySignature(subscription.secret, body, signature)) {
+    logger.warn(`[websub] Ignoring notification with a bad signature for subscription ${subscription.id}`);
+    return { accepted: false, videoIds: [] };
+  }
+
+  await storage.recordWebSubNotification(subscription.id);
+
+  let videoIds: string[] = [];
+  try {
+    // Deletions arrive as at:deleted-entry, which parseFeed doesn't treat as entries
+    videoIds = parseFeed(body.toString("utf8"))
+      .entries.map((entry) => entry.youtubeVideoId)
+      .filter((id): id is string => !!id);
+  } catch (error) {
+    logger.warn(`[websub] Unparseable notification for subscription ${subscription.id}: ${(error as Error).message}`);
+  }
+  return { accepted: true, channelId: subscription.channelId, videoIds: Array.from(new Set(videoIds)) };
+}
+
+/**
+ * Fetches each pushed video's watch page (the YouTube adapter's resolveVideo
+ * wraps scrapeYouTubeVideoPage) and stores it like a scraped one. Updates to
+ * videos we already have are ignored.
+ */
+export async function ingestPushedVideos(channelId: string, videoIds: string[]): Promise<number> {
+  const channel = await storage.getChannel(channelId);
+  if (!channel) return 0;
+
+  const adapter = requirePlatformAdapter("youtube");
+  const videos: PlatformVideo[] = [];
+  for (const videoId of videoIds) {
+    if (await storage.getVideoByVideoId(videoId)) continue;
+    try {
+      videos.push(await adapter.resolveVideo!(`https://www.youtube.com/watch?v=${videoId}`));
+    } catch (error) {
+      logger.warn(`[websub] Could not resolve pushed video ${videoId}: ${(error as Error).message}`);
+    }
+  }
+  if (videos.length === 0) return 0;
+
+  const result = await processScrapedVideos(videos, {
+    channelId,
+    platform: "youtube",
+    runCategorization: true,
+  });
+  if (result.savedCount > 0) {
+    await storage.updateChannel(channelId, { videoCount: (channel.videoCount || 0) + result.savedCount });
+    logger.info(`[websub] Added ${result.savedCount} pushed videos for ${channel.name}`);
+  }
+  return result.savedCount;
+}
+
+function needsRequest(subscription: WebSubSubscription | undefined, now: Date): boolean {
+  if (!subscription) return true;
+  const sinceRequest = subscription.lastRequestedAt
+    ? now.getTime() - new Date(subscription.lastRequestedAt).getTime()
+    : Infinity;
+
+  switch (subscription.status) {
+    case "subscribed": {
+      const expiresAt = subscription.leaseExpiresAt ? new Date(subscription.leaseExpiresAt).getTime() : 0;
+      return expiresAt - now.getTime() < RENEW_BEFORE_MS && sinceRequest > RETRY_AFTER_MS;
+    }
+    case "denied":
+      return sinceRequest > DENIED_RETRY_AFTER_MS;
+    default:
+      return sinceRequest > RETRY_AFTER_MS;
+  }
+}
+
+/**
+ * Subscribes new YouTube channels and renews leases that expire within a
+ * day. Runs hourly; channels are handled one at a time.
+ */
+export async function renewWebSubSubscriptions(now = new Date()): Promise<WebSubRenewalSummary> {
+  if (!isWebSubEnabled()) return { skipped: true, requested: 0, failed: 0 };
+
+  const [channels, subscriptions] = await Promise.all([
+    storage.getAllChannels(),
+    storage.getWebSubSubscriptions(),
+  ]);
+  const byChannel = new Map(subscriptions.map((s) => [s.channelId, s]));
+
+  const summary: WebSubRenewalSummary = { skipped: false, requested: 0, failed: 0 };
+  for (const channel of channels) {
+    if (!canSubscribe(channel) || !needsRequest(byChannel.get(channel.id), now)) continue;
+    const result = await requestSubscription(channel);
+    summary.requested++;
+    if (result.lastError) summary.failed++;
+  }
+  return summary;
+}
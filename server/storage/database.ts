@@ -6,11 +6,29 @@ import {
   tags,
   videoCategories,
   playlists,
+  videoLikes,
+  watchHistory,
+  channelSubscriptions,
+  notifications,
+  websubSubscriptions,
+  videoViewSnapshots,
+  visitorSessions,
+  pageViews,
+  analyticsCustomEvents,
+  ENGAGED_WATCH_SECONDS,
+  VISITOR_INTERACTION_EVENTS,
   playlistVideos,
   seoSettings,
+  seoMetaTags,
+  seoABTests,
+  seoAbTestCounts,
+  seoRedirects,
+  tagMergeProposals,
+  aiUsageEvents,
   scrapeJobs,
   schedulerSettings,
   systemSettings,
+  youtubeApiQuota,
   tagImages,
   heroVideos,
   heroImages,
@@ -35,11 +53,32 @@ import {
   type InsertPlaylist,
   type PlaylistWithVideos,
   type PlaylistVideo,
+  type WatchHistoryEntry,
+  type WatchHistoryItem,
+  type EngagementSignal,
+  type WatchProgress,
   type SeoSettings,
+  type SeoMetaTag,
+  type SeoAbTest,
+  type SeoAbTestStatus,
+  type SeoAbTestCount,
+  type SeoAbTestVariant,
+  type AiPromptKey,
+  type AiPromptTemplate,
+  type AiPromptTemplateVersion,
+  type SeoRedirect,
+  type TagMerge,
+  type InsertAiUsageEvent,
+  type AiUsageReport,
+  type TagMergeProposal,
+  type TagMergeResult,
+  type TagMergeStatus,
+  type InsertTagMergeProposal,
   type ScrapeJob,
   type InsertScrapeJob,
   type SchedulerSettings,
   type SystemSettings,
+  type YouTubeApiQuota,
   type TagImage,
   type InsertTagImage,
   type HeroVideo,
@@ -52,36 +91,99 @@ import {
   type InsertChannelRecommendation,
   type EmailSettings,
   type InsertEmailSettings,
+  type EmailOutboxEntry,
+  type InsertEmailOutboxEntry,
+  type InboxMessage,
+  type InsertInboxMessage,
+  type InboxMessageStatus,
+  type InboxThreadSummary,
   type HeroImage,
   type InsertHeroImage,
   type HeroSettings,
   type InsertHeroSettings,
   channelRecommendations,
   emailSettings,
+  emailOutbox,
+  inboxMessages,
   analyticsEvents,
   users,
   type User,
   type InsertUser,
   type Tag,
   supportedLanguages,
+  aiPromptTemplates,
   uiTranslations,
   type SupportedLanguage,
   type InsertSupportedLanguage,
   type UiTranslation,
-  type InsertUiTranslation
+  type InsertUiTranslation,
+  videoSearchIndex,
+  videoEmbeddings,
+  videoTranscripts,
+  type VideoTranscript,
+  type InsertVideoTranscript,
+  videoChapters,
+  type VideoChapter,
+  type InsertVideoChapter,
+  moderationRules,
+  type ModerationStatus,
+  type ModerationRule,
+  type InsertModerationRule,
+  rolePermissions,
+  type RolePermissions,
+  type Permission,
+  apiTokens,
+  type ApiToken,
+  type InsertApiToken,
+  oidcProviders,
+  type OidcProvider,
+  type InsertOidcProvider,
+  userIdentities,
+  type UserIdentity,
+  type InsertUserIdentity,
+  webhookSubscriptions,
+  type WebhookSubscription,
+  type InsertWebhookSubscription,
+  webhookDeliveries,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type VideoEmbedding,
+  type InsertVideoEmbedding,
+  type VideoSearchQuery,
+  type VideoSearchResult,
+  type SearchFacetBucket,
+  type ChannelSubscription,
+  type NotificationWithVideo,
+  type WebSubSubscription,
+  type VideoViewSnapshot,
+  type VisitorSession,
+  type PageView,
+  type AnalyticsCustomEvent,
+  type VisitorAnalyticsReport,
+  type InsertWebSubSubscription,
 } from "../../shared/schema.js";
 import { db } from "../db.js";
-import { eq, like, and, or, isNull, lte, gte, inArray, notInArray, sql, desc, asc } from "drizzle-orm";
+import { buildRetentionCohorts } from "./visitor-report.js";
+import { eq, like, and, or, isNull, isNotNull, lt, lte, gt, gte, inArray, notInArray, sql, desc, asc, getTableColumns, cosineDistance, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { cache } from "../cache.js";
 import { invalidateChannelCaches, invalidateVideoContentCaches } from "../cache-invalidation.js";
 import { IStorage } from "./types.js";
 import { isDbReady } from "../db.js";
 import { isEligibleShortsVideo, isShortsChannelUrl } from "../shorts-validation.js";
+import { buildPrefixTsQuery, buildSnippet, highlightText, tokenizeSearchQuery } from "../search-text.js";
+import { rankTrending } from "../trending-rank.js";
 
 // Cache settings helper
 let cachedSettings: any = null;
 let settingsLastFetched = 0;
 const SETTINGS_CACHE_TTL = 60000; // 1 minute
+// Trending ranks this many candidates per requested video from each of its two queries
+const TRENDING_POOL_FACTOR = 4;
+
+// Rows of the raw funnel and retention queries behind the visitor analytics report
+type FunnelRow = { visit: number; video_view: number; engaged_watch: number; interaction: number };
+type RetentionRow = { cohort: string; week: number; visitors: number };
 
 // We need a way to access storage instance for getCacheSettings, 
 // but circular dependency prevents direct import. 
@@ -172,6 +274,16 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    try {
+      const [user] = await db.select().from(users).where(sql`lower(${users.email}) = ${email.toLowerCase()}`).limit(1);
+      return user || undefined;
+    } catch (error) {
+      console.error("[storage] getUserByEmail failed:", error);
+      return undefined;
+    }
+  }
+
   async getAllUsers(): Promise<User[]> {
     try {
       return await db.select().from(users);
@@ -195,6 +307,30 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async updateUser(id: string, data: Partial<Omit<User, "id" | "username" | "createdAt">>): Promise<User | undefined> {
+    const [user] = await db.update(users).set(data).where(eq(users.id, id)).returning();
+    return user || undefined;
+  }
+
+  async consumeTotpStep(id: string, step: number): Promise<boolean> {
+    // One conditional update, so two requests with the same code can't both pass
+    const updated = await db
+      .update(users)
+      .set({ totpLastStep: step })
+      .where(and(eq(users.id, id), or(isNull(users.totpLastStep), lt(users.totpLastStep, step))))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
+  async consumeRecoveryCode(id: string, hash: string): Promise<boolean> {
+    const updated = await db
+      .update(users)
+      .set({ recoveryCodes: sql`${users.recoveryCodes} - ${hash}::text` })
+      .where(and(eq(users.id, id), sql`${users.recoveryCodes} @> ${JSON.stringify([hash])}::jsonb`))
+      .returning({ id: users.id });
+    return updated.length > 0;
+  }
+
   async deleteUser(id: string): Promise<void> {
     try {
       await db.delete(users).where(eq(users.id, id));
@@ -203,6 +339,146 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getRolePermissions(): Promise<RolePermissions[]> {
+    try {
+      return await db.select().from(rolePermissions);
+    } catch (error) {
+      console.error("[storage] getRolePermissions failed:", error);
+      return [];
+    }
+  }
+
+  async setRolePermissions(role: string, permissions: Permission[]): Promise<RolePermissions> {
+    const [saved] = await db
+      .insert(rolePermissions)
+      .values({ role, permissions, updatedAt: new Date() })
+      .onConflictDoUpdate({ target: rolePermissions.role, set: { permissions, updatedAt: new Date() } })
+      .returning();
+    return saved;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const [created] = await db.insert(apiTokens).values(token).returning();
+    return created;
+  }
+
+  async getApiTokensByUser(userId: string): Promise<ApiToken[]> {
+    try {
+      return await db.select().from(apiTokens).where(eq(apiTokens.userId, userId)).orderBy(desc(apiTokens.createdAt));
+    } catch (error) {
+      console.error("[storage] getApiTokensByUser failed:", error);
+      return [];
+    }
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    try {
+      const [token] = await db.select().from(apiTokens).where(eq(apiTokens.tokenHash, tokenHash));
+      return token;
+    } catch (error) {
+      console.error("[storage] getApiTokenByHash failed:", error);
+      return undefined;
+    }
+  }
+
+  async updateApiToken(
+    id: string,
+    data: Partial<Pick<ApiToken, "name" | "lastUsedAt" | "revokedAt">>,
+  ): Promise<ApiToken | undefined> {
+    const [updated] = await db.update(apiTokens).set(data).where(eq(apiTokens.id, id)).returning();
+    return updated;
+  }
+
+  async getOidcProviders(): Promise<OidcProvider[]> {
+    try {
+      return await db.select().from(oidcProviders).orderBy(asc(oidcProviders.name));
+    } catch (error) {
+      console.error("[storage] getOidcProviders failed:", error);
+      return [];
+    }
+  }
+
+  async getOidcProvider(id: string): Promise<OidcProvider | undefined> {
+    try {
+      const [provider] = await db.select().from(oidcProviders).where(eq(oidcProviders.id, id));
+      return provider;
+    } catch (error) {
+      console.error("[storage] getOidcProvider failed:", error);
+      return undefined;
+    }
+  }
+
+  async getOidcProviderBySlug(slug: string): Promise<OidcProvider | undefined> {
+    try {
+      const [provider] = await db.select().from(oidcProviders).where(eq(oidcProviders.slug, slug));
+      return provider;
+    } catch (error) {
+      console.error("[storage] getOidcProviderBySlug failed:", error);
+      return undefined;
+    }
+  }
+
+  async createOidcProvider(provider: InsertOidcProvider): Promise<OidcProvider> {
+    const [created] = await db.insert(oidcProviders).values(provider).returning();
+    return created;
+  }
+
+  async updateOidcProvider(id: string, data: Partial<InsertOidcProvider>): Promise<OidcProvider | undefined> {
+    const [updated] = await db
+      .update(oidcProviders)
+      .set({ ...data, updatedAt: new Date() })
+      .where(eq(oidcProviders.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteOidcProvider(id: string): Promise<void> {
+    await db.delete(oidcProviders).where(eq(oidcProviders.id, id));
+  }
+
+  async getUserIdentity(providerId: string, subject: string): Promise<UserIdentity | undefined> {
+    try {
+      const [identity] = await db
+        .select()
+        .from(userIdentities)
+        .where(and(eq(userIdentities.providerId, providerId), eq(userIdentities.subject, subject)));
+      return identity;
+    } catch (error) {
+      console.error("[storage] getUserIdentity failed:", error);
+      return undefined;
+    }
+  }
+
+  async getUserIdentitiesByUser(userId: string): Promise<UserIdentity[]> {
+    try {
+      return await db
+        .select()
+        .from(userIdentities)
+        .where(eq(userIdentities.userId, userId))
+        .orderBy(asc(userIdentities.createdAt));
+    } catch (error) {
+      console.error("[storage] getUserIdentitiesByUser failed:", error);
+      return [];
+    }
+  }
+
+  async createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity> {
+    const [created] = await db.insert(userIdentities).values(identity).returning();
+    return created;
+  }
+
+  async updateUserIdentity(
+    id: string,
+    data: Partial<Pick<UserIdentity, "email" | "lastLoginAt">>,
+  ): Promise<UserIdentity | undefined> {
+    const [updated] = await db.update(userIdentities).set(data).where(eq(userIdentities.id, id)).returning();
+    return updated;
+  }
+
+  async deleteUserIdentity(id: string): Promise<void> {
+    await db.delete(userIdentities).where(eq(userIdentities.id, id));
+  }
+
   /**
    * Creates a new channel in the database
    */
@@ -429,6 +705,337 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // Email Outbox
+  async enqueueEmail(entry: InsertEmailOutboxEntry): Promise<EmailOutboxEntry> {
+    try {
+      const [created] = await db.insert(emailOutbox).values(entry).returning();
+      return created;
+    } catch (error) {
+      console.error("[storage] enqueueEmail failed:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Atomically moves due entries to "sending". Rows stuck in "sending" for more
+   * than 10 minutes (e.g. the process died mid-send) are picked up again.
+   */
+  async claimDueEmails(limit: number): Promise<EmailOutboxEntry[]> {
+    try {
+      const now = new Date();
+      const staleBefore = new Date(now.getTime() - 10 * 60 * 1000);
+      const due = db
+        .select({ id: emailOutbox.id })
+        .from(emailOutbox)
+        .where(
+          or(
+            and(eq(emailOutbox.status, "pending"), lte(emailOutbox.nextAttemptAt, now)),
+            and(eq(emailOutbox.status, "sending"), lte(emailOutbox.nextAttemptAt, staleBefore)),
+          ),
+        )
+        .orderBy(asc(emailOutbox.nextAttemptAt))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+
+      return await db
+        .update(emailOutbox)
+        .set({ status: "sending", nextAttemptAt: now })
+        .where(inArray(emailOutbox.id, due))
+        .returning();
+    } catch (error) {
+      console.error("[storage] claimDueEmails failed:", error);
+      return [];
+    }
+  }
+
+  async updateEmailOutboxEntry(id: string, data: Partial<EmailOutboxEntry>): Promise<EmailOutboxEntry | undefined> {
+    try {
+      const [updated] = await db
+        .update(emailOutbox)
+        .set(data)
+        .where(eq(emailOutbox.id, id))
+        .returning();
+      return updated || undefined;
+    } catch (error) {
+      console.error("[storage] updateEmailOutboxEntry failed:", error);
+      throw error;
+    }
+  }
+
+  async getEmailOutbox(filters?: { status?: string; limit?: number }): Promise<EmailOutboxEntry[]> {
+    try {
+      return await db
+        .select()
+        .from(emailOutbox)
+        .where(filters?.status ? eq(emailOutbox.status, filters.status) : undefined)
+        .orderBy(desc(emailOutbox.createdAt))
+        .limit(filters?.limit ?? 50);
+    } catch (error) {
+      console.error("[storage] getEmailOutbox failed:", error);
+      return [];
+    }
+  }
+
+  // Webhooks
+  async getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+    try {
+      return await db.select().from(webhookSubscriptions).orderBy(asc(webhookSubscriptions.name));
+    } catch (error) {
+      console.error("[storage] getWebhookSubscriptions failed:", error);
+      return [];
+    }
+  }
+
+  async getWebhookSubscription(id: string): Promise<WebhookSubscription | undefined> {
+    try {
+      const [subscription] = await db.select().from(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+      return subscription || undefined;
+    } catch (error) {
+      console.error("[storage] getWebhookSubscription failed:", error);
+      return undefined;
+    }
+  }
+
+  async createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    try {
+      const [created] = await db.insert(webhookSubscriptions).values(subscription).returning();
+      return created;
+    } catch (error) {
+      console.error("[storage] createWebhookSubscription failed:", error);
+      throw error;
+    }
+  }
+
+  async updateWebhookSubscription(
+    id: string,
+    data: Partial<InsertWebhookSubscription>,
+  ): Promise<WebhookSubscription | undefined> {
+    try {
+      const [updated] = await db
+        .update(webhookSubscriptions)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(webhookSubscriptions.id, id))
+        .returning();
+      return updated || undefined;
+    } catch (error) {
+      console.error("[storage] updateWebhookSubscription failed:", error);
+      throw error;
+    }
+  }
+
+  async deleteWebhookSubscription(id: string): Promise<void> {
+    try {
+      await db.delete(webhookSubscriptions).where(eq(webhookSubscriptions.id, id));
+    } catch (error) {
+      console.error("[storage] deleteWebhookSubscription failed:", error);
+      throw error;
+    }
+  }
+
+  async enqueueWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    try {
+      const [created] = await db.insert(webhookDeliveries).values(delivery).returning();
+      return created;
+    } catch (error) {
+      console.error("[storage] enqueueWebhookDelivery failed:", error);
+      throw error;
+    }
+  }
+
+  /** Same claim as claimDueEmails: due rows move to "sending", stale "sending" rows are picked up again. */
+  async claimDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+    try {
+      const now = new Date();
+      const staleBefore = new Date(now.getTime() - 10 * 60 * 1000);
+      const due = db
+        .select({ id: webhookDeliveries.id })
+        .from(webhookDeliveries)
+        .where(
+          or(
+            and(eq(webhookDeliveries.status, "pending"), lte(webhookDeliveries.nextAttemptAt, now)),
+            and(eq(webhookDeliveries.status, "sending"), lte(webhookDeliveries.nextAttemptAt, staleBefore)),
+          ),
+        )
+        .orderBy(asc(webhookDeliveries.nextAttemptAt))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+
+      return await db
+        .update(webhookDeliveries)
+        .set({ status: "sending", nextAttemptAt: now })
+        .where(inArray(webhookDeliveries.id, due))
+        .returning();
+    } catch (error) {
+      console.error("[storage] claimDueWebhookDeliveries failed:", error);
+      return [];
+    }
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    try {
+      const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+      return delivery || undefined;
+    } catch (error) {
+      console.error("[storage] getWebhookDelivery failed:", error);
+      return undefined;
+    }
+  }
+
+  async updateWebhookDelivery(id: string, data: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    try {
+      const [updated] = await db
+        .update(webhookDeliveries)
+        .set(data)
+        .where(eq(webhookDeliveries.id, id))
+        .returning();
+      return updated || undefined;
+    } catch (error) {
+      console.error("[storage] updateWebhookDelivery failed:", error);
+      throw error;
+    }
+  }
+
+  async getWebhookDeliveries(
+    filters?: { subscriptionId?: string; status?: string; event?: string; limit?: number },
+  ): Promise<WebhookDelivery[]> {
+    try {
+      const conditions: SQL[] = [];
+      if (filters?.subscriptionId) conditions.push(eq(webhookDeliveries.subscriptionId, filters.subscriptionId));
+      if (filters?.status) conditions.push(eq(webhookDeliveries.status, filters.status));
+      if (filters?.event) conditions.push(eq(webhookDeliveries.event, filters.event));
+      return await db
+        .select()
+        .from(webhookDeliveries)
+        .where(conditions.length > 0 ? and(...conditions) : undefined)
+        .orderBy(desc(webhookDeliveries.createdAt))
+        .limit(filters?.limit ?? 50);
+    } catch (error) {
+      console.error("[storage] getWebhookDeliveries failed:", error);
+      return [];
+    }
+  }
+
+  // IMAP Inbox
+  async updateImapSyncState(
+    state: Partial<Pick<EmailSettings, "imapLastUid" | "imapUidValidity" | "imapLastPolledAt" | "imapLastError">>,
+  ): Promise<void> {
+    try {
+      await db.update(emailSettings).set(state);
+    } catch (error) {
+      console.error("[storage] updateImapSyncState failed:", error);
+      throw error;
+    }
+  }
+
+  async createInboxMessage(message: InsertInboxMessage): Promise<InboxMessage | undefined> {
+    try {
+      const [created] = await db
+        .insert(inboxMessages)
+        .values(message)
+        .onConflictDoNothing({ target: inboxMessages.messageId })
+        .returning();
+      return created || undefined;
+    } catch (error) {
+      console.error("[storage] createInboxMessage failed:", error);
+      throw error;
+    }
+  }
+
+  async getInboxMessagesByMessageIds(messageIds: string[]): Promise<InboxMessage[]> {
+    if (messageIds.length === 0) return [];
+    try {
+      return await db.select().from(inboxMessages).where(inArray(inboxMessages.messageId, messageIds));
+    } catch (error) {
+      console.error("[storage] getInboxMessagesByMessageIds failed:", error);
+      return [];
+    }
+  }
+
+  async findInboxThreadBySubject(threadSubject: string, since: Date): Promise<string | undefined> {
+    try {
+      const [row] = await db
+        .select({ threadId: inboxMessages.threadId })
+        .from(inboxMessages)
+        .where(and(eq(inboxMessages.threadSubject, threadSubject), gte(inboxMessages.receivedAt, since)))
+        .orderBy(desc(inboxMessages.receivedAt))
+        .limit(1);
+      return row?.threadId;
+    } catch (error) {
+      console.error("[storage] findInboxThreadBySubject failed:", error);
+      return undefined;
+    }
+  }
+
+  /**
+   * One row per thread: the subject of the first message, sender and snippet of
+   * the latest one. A thread counts as archived only when every message is.
+   */
+  async getInboxThreads(filters?: { status?: InboxMessageStatus; limit?: number }): Promise<InboxThreadSummary[]> {
+    try {
+      const archived = sql<boolean>`bool_and(${inboxMessages.status} = 'archived')`;
+      const unreadCount = sql<number>`(count(*) filter (where ${inboxMessages.status} = 'unread'))::int`;
+      const lastReceivedAt = sql<Date>`max(${inboxMessages.receivedAt})`;
+      const fromMessage = (column: string, order: "asc" | "desc") =>
+        sql.raw(`(select m2.${column} from inbox_messages m2 where m2.thread_id = "inbox_messages"."thread_id" order by m2.received_at ${order} limit 1)`);
+
+      const having =
+        filters?.status === "archived" ? archived
+        : filters?.status === "unread" ? and(sql`not ${archived}`, sql`${unreadCount} > 0`)
+        : filters?.status === "read" ? and(sql`not ${archived}`, sql`${unreadCount} = 0`)
+        : sql`not ${archived}`;
+
+      const rows = await db
+        .select({
+          threadId: inboxMessages.threadId,
+          subject: sql<string>`${fromMessage("subject", "asc")}`,
+          fromAddress: sql<string>`${fromMessage("from_address", "desc")}`,
+          fromName: sql<string | null>`${fromMessage("from_name", "desc")}`,
+          snippet: sql<string>`left(regexp_replace(${fromMessage("text_body", "desc")}, '\\s+', ' ', 'g'), 200)`,
+          messageCount: sql<number>`count(*)::int`,
+          unreadCount,
+          archived,
+          lastReceivedAt,
+        })
+        .from(inboxMessages)
+        .groupBy(inboxMessages.threadId)
+        .having(having)
+        .orderBy(desc(lastReceivedAt))
+        .limit(filters?.limit ?? 50);
+
+      return rows.map((r) => ({ ...r, snippet: (r.snippet || "").trim(), lastReceivedAt: new Date(r.lastReceivedAt) }));
+    } catch (error) {
+      console.error("[storage] getInboxThreads failed:", error);
+      return [];
+    }
+  }
+
+  async getInboxThreadMessages(threadId: string): Promise<InboxMessage[]> {
+    try {
+      return await db
+        .select()
+        .from(inboxMessages)
+        .where(eq(inboxMessages.threadId, threadId))
+        .orderBy(asc(inboxMessages.receivedAt));
+    } catch (error) {
+      console.error("[storage] getInboxThreadMessages failed:", error);
+      return [];
+    }
+  }
+
+  async updateInboxThreadStatus(threadId: string, status: InboxMessageStatus): Promise<number> {
+    try {
+      const updated = await db
+        .update(inboxMessages)
+        .set({ status })
+        .where(eq(inboxMessages.threadId, threadId))
+        .returning({ id: inboxMessages.id });
+      return updated.length;
+    } catch (error) {
+      console.error("[storage] updateInboxThreadStatus failed:", error);
+      throw error;
+    }
+  }
+
   // Videos
   /**
    * Creates a new video in the database
@@ -548,8 +1155,21 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
-  /**
-   * Retrieves all videos with optional filtering and localization support
+  async getVideosWithRelationsByIds(ids: string[], lang: string = 'en'): Promise<VideoWithLocalizedRelations[]> {
+    if (ids.length === 0) return [];
+    try {
+      const rows = await db.select().from(videos).where(inArray(videos.id, ids));
+      const hydrated = await this.hydrateVideosWithRelations(rows, lang);
+      const byId = new Map(hydrated.map((video) => [video.id, video]));
+      return ids.map((id) => byId.get(id)).filter((video): video is VideoWithLocalizedRelations => !!video);
+    } catch (error) {
+      console.error("[storage] getVideosWithRelationsByIds failed:", error);
+      return [];
+    }
+  }
+
+  /**
+   * Retrieves all videos with optional filtering and localization support
    */
   async getAllVideos(filters?: {
     channelId?: string;
@@ -560,7 +1180,8 @@ export class DatabaseStorage implements IStorage {
     limit?: number;
     offset?: number;
     minViews?: number;
-    sort?: "publishDate" | "createdAt" | "views" | "popularity" | "oldest";
+    sort?: "publishDate" | "createdAt" | "views" | "popularity" | "oldest" | "relevance";
+    includeHidden?: boolean;
   }): Promise<VideoWithLocalizedRelations[]> {
     const lang = filters?.lang || 'en';
     const cacheKey = `videos:all:${JSON.stringify(filters || {})}`;
@@ -571,13 +1192,14 @@ export class DatabaseStorage implements IStorage {
       let query = db.select().from(videos).$dynamic();
 
       const conditions: any[] = [];
+      if (!filters?.includeHidden) {
+        conditions.push(isNull(videos.hiddenAt));
+      }
       if (filters?.channelId) {
         conditions.push(eq(videos.channelId, filters.channelId));
       }
       if (filters?.search) {
-        conditions.push(
-          sql`${videos.title} ILIKE ${`%${filters.search}%`} OR ${videos.description} ILIKE ${`%${filters.search}%`}`,
-        );
+        conditions.push(this.searchMatchCondition(filters.search));
       }
       if (filters?.categoryId) {
         const sub = db.select({ videoId: videoCategories.videoId })
@@ -620,6 +1242,8 @@ export class DatabaseStorage implements IStorage {
         );
       } else if (sort === "oldest") {
         query = query.orderBy(asc(videos.publishDate), asc(videos.createdAt));
+      } else if (sort === "relevance" && filters?.search) {
+        query = query.orderBy(desc(this.searchRankExpression(filters.search)), desc(videos.publishDate));
       } else {
         query = query.orderBy(desc(videos.publishDate), desc(videos.createdAt));
       }
@@ -650,6 +1274,168 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  /**
+   * Matches the weighted tsvector (prefix, accent-insensitive) or, for typos,
+   * a pg_trgm word similarity against the title
+   */
+  private searchMatchCondition(term: string): SQL {
+    const tsQuery = buildPrefixTsQuery(term);
+    if (!tsQuery) {
+      return sql`${videos.title} ILIKE ${`%${term}%`}`;
+    }
+    return sql`(
+      EXISTS (
+        SELECT 1 FROM ${videoSearchIndex}
+        WHERE ${videoSearchIndex.videoId} = ${videos.id}
+          AND ${videoSearchIndex.document} @@ to_tsquery('simple', ${tsQuery}::text)
+      )
+      OR immutable_unaccent(lower(${term}::text)) <% immutable_unaccent(lower(${videos.title}))
+    )`;
+  }
+
+  private searchRankExpression(term: string): SQL<number> {
+    const tsQuery = buildPrefixTsQuery(term);
+    if (!tsQuery) return sql<number>`0`;
+    return sql<number>`(
+      COALESCE((
+        SELECT ts_rank_cd(${videoSearchIndex.document}, to_tsquery('simple', ${tsQuery}::text))
+        FROM ${videoSearchIndex}
+        WHERE ${videoSearchIndex.videoId} = ${videos.id}
+      ), 0)
+      + word_similarity(immutable_unaccent(lower(${term}::text)), immutable_unaccent(lower(${videos.title}))) * 0.5
+    )`;
+  }
+
+  /**
+   * Ranked full-text search with highlighted snippets and facet counts.
+   * Each facet is counted with every filter applied except its own, so
+   * selecting a platform still shows the counts for the other platforms.
+   */
+  async searchVideos(query: VideoSearchQuery): Promise<VideoSearchResult> {
+    const empty: VideoSearchResult = {
+      items: [],
+      total: 0,
+      facets: { platform: [], videoType: [], category: [], channel: [] },
+    };
+    const tokens = tokenizeSearchQuery(query.q);
+    if (tokens.length === 0) return empty;
+
+    const cacheKey = `videos:search:${JSON.stringify(query)}`;
+    const cached = cache.get<VideoSearchResult>(cacheKey);
+    if (cached) return cached;
+
+    try {
+      type FacetKey = "platform" | "videoType" | "categoryId" | "channelId";
+      const where = (exclude?: FacetKey) => {
+        const conditions: SQL[] = [this.searchMatchCondition(query.q), isNull(videos.hiddenAt)];
+        if (query.platform && exclude !== "platform") {
+          const sub = db.select({ id: channels.id }).from(channels).where(eq(channels.platform, query.platform));
+          conditions.push(inArray(videos.channelId, sub));
+        }
+        if (query.videoType && exclude !== "videoType") {
+          conditions.push(eq(videos.videoType, query.videoType));
+        }
+        if (query.channelId && exclude !== "channelId") {
+          conditions.push(eq(videos.channelId, query.channelId));
+        }
+        if (query.categoryId && exclude !== "categoryId") {
+          const sub = db.select({ videoId: videoCategories.videoId })
+            .from(videoCategories)
+            .where(eq(videoCategories.categoryId, query.categoryId));
+          conditions.push(inArray(videos.id, sub));
+        }
+        return and(...conditions);
+      };
+
+      const rank = this.searchRankExpression(query.q);
+      const orderBy =
+        query.sort === "publishDate"
+          ? [desc(videos.publishDate), desc(videos.createdAt)]
+          : query.sort === "views"
+            ? [sql`CAST(NULLIF(REGEXP_REPLACE(${videos.viewCount}, '[^0-9]', '', 'g'), '') AS INTEGER) DESC NULLS LAST`]
+            : [desc(rank), desc(videos.publishDate)];
+
+      const count = sql<number>`count(*)`;
+      const ctLang = alias(categoryTranslations, "ct_lang");
+      const ctEn = alias(categoryTranslations, "ct_en");
+
+      const [rows, totalRows, platformRows, typeRows, channelRows, categoryRows] = await Promise.all([
+        db.select({ ...getTableColumns(videos), score: rank })
+          .from(videos)
+          .where(where())
+          .orderBy(...orderBy)
+          .limit(query.limit)
+          .offset(query.offset),
+        db.select({ count }).from(videos).where(where()),
+        db.select({ value: channels.platform, count })
+          .from(videos)
+          .innerJoin(channels, eq(channels.id, videos.channelId))
+          .where(where("platform"))
+          .groupBy(channels.platform),
+        db.select({ value: videos.videoType, count })
+          .from(videos)
+          .where(where("videoType"))
+          .groupBy(videos.videoType),
+        db.select({ value: channels.id, label: channels.name, count })
+          .from(videos)
+          .innerJoin(channels, eq(channels.id, videos.channelId))
+          .where(where("channelId"))
+          .groupBy(channels.id, channels.name)
+          .orderBy(desc(count))
+          .limit(20),
+        db.select({
+            value: videoCategories.categoryId,
+            label: sql<string>`COALESCE(${ctLang.name}, ${ctEn.name}, ${videoCategories.categoryId})`,
+            count,
+          })
+          .from(videos)
+          .innerJoin(videoCategories, eq(videoCategories.videoId, videos.id))
+          .leftJoin(ctLang, and(eq(ctLang.categoryId, videoCategories.categoryId), eq(ctLang.languageCode, query.lang)))
+          .leftJoin(ctEn, and(eq(ctEn.categoryId, videoCategories.categoryId), eq(ctEn.languageCode, "en")))
+          .where(where("categoryId"))
+          .groupBy(videoCategories.categoryId, ctLang.name, ctEn.name)
+          .orderBy(desc(count))
+          .limit(20),
+      ]);
+
+      const scores = new Map<string, number>(rows.map((r: { id: string; score: number }) => [r.id, Number(r.score) || 0]));
+      const hydrated = await this.hydrateVideosWithRelations(
+        rows.map(({ score: _score, ...video }: Video & { score: number }) => video),
+        query.lang,
+      );
+
+      const toBuckets = (list: { value: string; label?: string; count: number }[]): SearchFacetBucket[] =>
+        list.map((r) => ({ value: r.value, label: r.label ?? r.value, count: Number(r.count) }));
+
+      const result: VideoSearchResult = {
+        items: hydrated.map((video) => ({
+          video,
+          score: scores.get(video.id) ?? 0,
+          highlights: {
+            title: highlightText(video.title, tokens),
+            snippet: buildSnippet(video.description, tokens),
+          },
+        })),
+        total: Number(totalRows[0]?.count || 0),
+        facets: {
+          platform: toBuckets(platformRows),
+          videoType: toBuckets(typeRows),
+          category: toBuckets(categoryRows),
+          channel: toBuckets(channelRows),
+        },
+      };
+
+      const settings = await this.getCacheSettings();
+      if (settings.enabled) {
+        cache.set(cacheKey, result, settings.apiTTL);
+      }
+      return result;
+    } catch (error) {
+      console.error(`[storage] searchVideos failed for "${query.q}":`, error);
+      return empty;
+    }
+  }
+
   /**
    * Updates an existing video with new data
    */
@@ -761,6 +1547,537 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  /**
+   * Priority: ln(external views) minus a point per week since ingestion, so a
+   * fresh upload outranks an old one unless the old one is far more popular
+   */
+  async getVideosDueForRefresh(videoTypes: readonly string[], limit: number, now: Date = new Date()): Promise<Video[]> {
+    if (videoTypes.length === 0) return [];
+    try {
+      return await db
+        .select()
+        .from(videos)
+        .where(
+          and(
+            isNull(videos.hiddenAt),
+            inArray(videos.videoType, [...videoTypes]),
+            or(isNull(videos.nextRefreshAt), lte(videos.nextRefreshAt, now)),
+          ),
+        )
+        .orderBy(
+          sql`(
+            LN(COALESCE(CAST(NULLIF(REGEXP_REPLACE(${videos.viewCount}, '[^0-9]', '', 'g'), '') AS BIGINT), 0) + 10) -
+            EXTRACT(EPOCH FROM (${now}::timestamp - ${videos.createdAt})) / 604800.0
+          ) DESC`,
+        )
+        .limit(limit);
+    } catch (error) {
+      console.error("[storage] getVideosDueForRefresh failed:", error);
+      return [];
+    }
+  }
+
+  async getVideosDueForAvailabilityCheck(videoTypes: readonly string[], limit: number, checkedBefore: Date): Promise<Video[]> {
+    if (videoTypes.length === 0) return [];
+    try {
+      return await db
+        .select()
+        .from(videos)
+        .where(
+          and(
+            inArray(videos.videoType, [...videoTypes]),
+            or(isNull(videos.availabilityCheckedAt), lt(videos.availabilityCheckedAt, checkedBefore)),
+          ),
+        )
+        .orderBy(sql`${videos.availabilityCheckedAt} ASC NULLS FIRST`)
+        .limit(limit);
+    } catch (error) {
+      console.error("[storage] getVideosDueForAvailabilityCheck failed:", error);
+      return [];
+    }
+  }
+
+  async getHiddenVideos(): Promise<Video[]> {
+    try {
+      return await db.select().from(videos).where(isNotNull(videos.hiddenAt)).orderBy(desc(videos.hiddenAt));
+    } catch (error) {
+      console.error("[storage] getHiddenVideos failed:", error);
+      return [];
+    }
+  }
+
+  async getVideoPage(options: {
+    channelId?: string;
+    categoryId?: string;
+    after?: { createdAt: Date; id: string };
+    limit: number;
+  }): Promise<Video[]> {
+    try {
+      const conditions: SQL[] = [isNull(videos.hiddenAt)];
+      if (options.channelId) conditions.push(eq(videos.channelId, options.channelId));
+      if (options.categoryId) {
+        const sub = db.select({ videoId: videoCategories.videoId })
+          .from(videoCategories)
+          .where(eq(videoCategories.categoryId, options.categoryId));
+        conditions.push(inArray(videos.id, sub));
+      }
+      // Postgres keeps microseconds but the cursor's Date only milliseconds, so
+      // both the order and the comparison go by the millisecond; otherwise rows
+      // sharing the cursor's millisecond would be skipped
+      const createdAtMs = sql`date_trunc('milliseconds', ${videos.createdAt})`;
+      if (options.after) {
+        const { createdAt, id } = options.after;
+        conditions.push(sql`(${createdAtMs}, ${videos.id}) < (${createdAt}, ${id})`);
+      }
+      return await db
+        .select()
+        .from(videos)
+        .where(and(...conditions))
+        .orderBy(desc(createdAtMs), desc(videos.id))
+        .limit(options.limit);
+    } catch (error) {
+      console.error("[storage] getVideoPage failed:", error);
+      return [];
+    }
+  }
+
+  async getVideoIdsForEmbedding(
+    model: string,
+    options: { missingOnly: boolean; afterId?: string; limit: number },
+  ): Promise<string[]> {
+    try {
+      const conditions: SQL[] = [isNull(videos.hiddenAt)];
+      if (options.afterId) conditions.push(gt(videos.id, options.afterId));
+      if (options.missingOnly) {
+        const embedded = db.select({ videoId: videoEmbeddings.videoId })
+          .from(videoEmbeddings)
+          .where(eq(videoEmbeddings.model, model));
+        conditions.push(notInArray(videos.id, embedded));
+      }
+      const rows = await db
+        .select({ id: videos.id })
+        .from(videos)
+        .where(and(...conditions))
+        .orderBy(asc(videos.id))
+        .limit(options.limit);
+      return rows.map((row: { id: string }) => row.id);
+    } catch (error) {
+      console.error("[storage] getVideoIdsForEmbedding failed:", error);
+      return [];
+    }
+  }
+
+  async getVideoEmbeddings(videoIds: string[]): Promise<VideoEmbedding[]> {
+    if (videoIds.length === 0) return [];
+    try {
+      return await db.select().from(videoEmbeddings).where(inArray(videoEmbeddings.videoId, videoIds));
+    } catch (error) {
+      console.error("[storage] getVideoEmbeddings failed:", error);
+      return [];
+    }
+  }
+
+  async upsertVideoEmbedding(embedding: InsertVideoEmbedding): Promise<void> {
+    const values = { ...embedding, updatedAt: new Date() };
+    await db
+      .insert(videoEmbeddings)
+      .values(values)
+      .onConflictDoUpdate({ target: videoEmbeddings.videoId, set: values });
+  }
+
+  async findNearestVideoEmbeddings(
+    embedding: number[],
+    model: string,
+    options: { limit: number; excludeIds?: string[] },
+  ): Promise<{ videoId: string; similarity: number }[]> {
+    try {
+      const distance = cosineDistance(videoEmbeddings.embedding, embedding);
+      const conditions: SQL[] = [eq(videoEmbeddings.model, model), isNull(videos.hiddenAt)];
+      if (options.excludeIds?.length) conditions.push(notInArray(videoEmbeddings.videoId, options.excludeIds));
+      const rows = await db
+        .select({ videoId: videoEmbeddings.videoId, distance })
+        .from(videoEmbeddings)
+        .innerJoin(videos, eq(videos.id, videoEmbeddings.videoId))
+        .where(and(...conditions))
+        .orderBy(distance)
+        .limit(options.limit);
+      return rows.map((row: { videoId: string; distance: number }) => ({
+        videoId: row.videoId,
+        similarity: 1 - Number(row.distance),
+      }));
+    } catch (error) {
+      console.error("[storage] findNearestVideoEmbeddings failed:", error);
+      return [];
+    }
+  }
+
+  async getVideoEmbeddingStats(model: string): Promise<{ embedded: number; total: number }> {
+    try {
+      const [[embedded], [total]] = await Promise.all([
+        db.select({ count: sql<number>`count(*)` })
+          .from(videoEmbeddings)
+          .innerJoin(videos, eq(videos.id, videoEmbeddings.videoId))
+          .where(and(eq(videoEmbeddings.model, model), isNull(videos.hiddenAt))),
+        db.select({ count: sql<number>`count(*)` }).from(videos).where(isNull(videos.hiddenAt)),
+      ]);
+      return { embedded: Number(embedded?.count || 0), total: Number(total?.count || 0) };
+    } catch (error) {
+      console.error("[storage] getVideoEmbeddingStats failed:", error);
+      return { embedded: 0, total: 0 };
+    }
+  }
+
+  async getVideosDueForTranscripts(videoTypes: readonly string[], limit: number): Promise<Video[]> {
+    if (videoTypes.length === 0) return [];
+    try {
+      return await db
+        .select()
+        .from(videos)
+        .where(
+          and(
+            inArray(videos.videoType, [...videoTypes]),
+            isNull(videos.transcriptCheckedAt),
+            isNull(videos.hiddenAt),
+          ),
+        )
+        .orderBy(desc(videos.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error("[storage] getVideosDueForTranscripts failed:", error);
+      return [];
+    }
+  }
+
+  async getVideoTranscripts(videoId: string): Promise<VideoTranscript[]> {
+    try {
+      return await db
+        .select()
+        .from(videoTranscripts)
+        .where(eq(videoTranscripts.videoId, videoId))
+        .orderBy(asc(videoTranscripts.languageCode));
+    } catch (error) {
+      console.error("[storage] getVideoTranscripts failed:", error);
+      return [];
+    }
+  }
+
+  async upsertVideoTranscript(transcript: InsertVideoTranscript): Promise<VideoTranscript> {
+    const [saved] = await db
+      .insert(videoTranscripts)
+      .values(transcript)
+      .onConflictDoUpdate({
+        target: [videoTranscripts.videoId, videoTranscripts.languageCode],
+        set: { source: transcript.source, segments: transcript.segments, text: transcript.text, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async getVideosDueForChapters(limit: number): Promise<Video[]> {
+    try {
+      return await db
+        .select()
+        .from(videos)
+        .where(
+          and(
+            isNull(videos.hiddenAt),
+            or(
+              isNull(videos.chaptersCheckedAt),
+              lt(videos.chaptersCheckedAt, videos.transcriptCheckedAt),
+            ),
+          ),
+        )
+        .orderBy(desc(videos.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error("[storage] getVideosDueForChapters failed:", error);
+      return [];
+    }
+  }
+
+  async getVideoChapters(videoId: string): Promise<VideoChapter[]> {
+    try {
+      return await db
+        .select()
+        .from(videoChapters)
+        .where(eq(videoChapters.videoId, videoId))
+        .orderBy(asc(videoChapters.startSeconds));
+    } catch (error) {
+      console.error("[storage] getVideoChapters failed:", error);
+      return [];
+    }
+  }
+
+  async replaceVideoChapters(videoId: string, chapters: InsertVideoChapter[]): Promise<VideoChapter[]> {
+    return await db.transaction(async (tx: typeof db) => {
+      await tx.delete(videoChapters).where(eq(videoChapters.videoId, videoId));
+      if (chapters.length === 0) return [];
+      const saved = await tx
+        .insert(videoChapters)
+        .values(chapters.map((chapter) => ({ ...chapter, videoId })))
+        .returning();
+      return saved.sort((a: VideoChapter, b: VideoChapter) => a.startSeconds - b.startSeconds);
+    });
+  }
+
+  async getVideosByModerationStatus(status: ModerationStatus, limit: number): Promise<Video[]> {
+    try {
+      return await db
+        .select()
+        .from(videos)
+        .where(eq(videos.moderationStatus, status))
+        .orderBy(desc(videos.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error("[storage] getVideosByModerationStatus failed:", error);
+      return [];
+    }
+  }
+
+  async getModerationCounts(): Promise<Record<ModerationStatus, number>> {
+    const counts: Record<ModerationStatus, number> = { approved: 0, pending_review: 0, rejected: 0 };
+    try {
+      const rows = await db
+        .select({ status: videos.moderationStatus, count: sql<number>`count(*)::int` })
+        .from(videos)
+        .groupBy(videos.moderationStatus);
+      for (const row of rows) {
+        counts[row.status as ModerationStatus] = row.count;
+      }
+    } catch (error) {
+      console.error("[storage] getModerationCounts failed:", error);
+    }
+    return counts;
+  }
+
+  async getVideosAwaitingModeration(limit: number): Promise<Video[]> {
+    try {
+      return await db
+        .select()
+        .from(videos)
+        .where(and(eq(videos.moderationStatus, "pending_review"), isNull(videos.moderatedAt)))
+        .orderBy(asc(videos.createdAt))
+        .limit(limit);
+    } catch (error) {
+      console.error("[storage] getVideosAwaitingModeration failed:", error);
+      return [];
+    }
+  }
+
+  async getModerationRules(): Promise<ModerationRule[]> {
+    try {
+      return await db.select().from(moderationRules).orderBy(asc(moderationRules.createdAt));
+    } catch (error) {
+      console.error("[storage] getModerationRules failed:", error);
+      return [];
+    }
+  }
+
+  async createModerationRule(rule: InsertModerationRule): Promise<ModerationRule> {
+    const [created] = await db.insert(moderationRules).values(rule).returning();
+    return created;
+  }
+
+  async updateModerationRule(id: string, data: Partial<InsertModerationRule>): Promise<ModerationRule | undefined> {
+    const [updated] = await db.update(moderationRules).set(data).where(eq(moderationRules.id, id)).returning();
+    return updated;
+  }
+
+  async deleteModerationRule(id: string): Promise<void> {
+    await db.delete(moderationRules).where(eq(moderationRules.id, id));
+  }
+
+  async getVisitorSession(id: string): Promise<VisitorSession | undefined> {
+    try {
+      const [session] = await db.select().from(visitorSessions).where(eq(visitorSessions.id, id));
+      return session;
+    } catch (error) {
+      console.error("[storage] getVisitorSession failed:", error);
+      return undefined;
+    }
+  }
+
+  async createVisitorSession(session: Partial<VisitorSession> & Pick<VisitorSession, "id" | "visitorId">): Promise<VisitorSession> {
+    const [created] = await db.insert(visitorSessions).values(session).returning();
+    return created;
+  }
+
+  async updateVisitorSession(id: string, data: Partial<VisitorSession>): Promise<VisitorSession | undefined> {
+    const [updated] = await db.update(visitorSessions).set(data).where(eq(visitorSessions.id, id)).returning();
+    return updated;
+  }
+
+  async recordPageView(view: Pick<PageView, "sessionId" | "visitorId" | "path" | "title" | "timestamp">): Promise<PageView> {
+    const [created] = await db.insert(pageViews).values(view).returning();
+    return created;
+  }
+
+  async setPageViewDuration(sessionId: string, path: string, durationSeconds: number): Promise<void> {
+    await db.execute(sql`
+      UPDATE ${pageViews} SET duration_seconds = ${durationSeconds}
+      WHERE id = (
+        SELECT id FROM ${pageViews}
+        WHERE session_id = ${sessionId} AND path = ${path}
+        ORDER BY timestamp DESC
+        LIMIT 1
+      )
+    `);
+  }
+
+  async recordAnalyticsCustomEvent(
+    event: Pick<AnalyticsCustomEvent, "sessionId" | "visitorId" | "eventName" | "properties" | "timestamp">,
+  ): Promise<AnalyticsCustomEvent> {
+    const [created] = await db.insert(analyticsCustomEvents).values(event).returning();
+    return created;
+  }
+
+  async getVisitorAnalyticsReport(since: Date, until: Date): Promise<VisitorAnalyticsReport> {
+    const inRange = and(gte(visitorSessions.startedAt, since), lt(visitorSessions.startedAt, until));
+    const sessionCount = sql<number>`count(*)::int`;
+    const interactionEvents = sql.join(VISITOR_INTERACTION_EVENTS.map((name) => sql`${name}`), sql`, `);
+
+    const [totalsRows, daily, sources, devices, browsers, topPaths, funnelResult, retentionResult] = await Promise.all([
+      db
+        .select({
+          sessions: sessionCount,
+          visitors: sql<number>`count(DISTINCT ${visitorSessions.visitorId})::int`,
+          pageViews: sql<number>`COALESCE(SUM(${visitorSessions.pageViewCount}), 0)::int`,
+          bounceRate: sql<number>`COALESCE(AVG(CASE WHEN ${visitorSessions.isBounce} THEN 1 ELSE 0 END), 0)::float`,
+          avgSessionSeconds: sql<number>`COALESCE(AVG(${visitorSessions.durationSeconds}), 0)::float`,
+          consentRate: sql<number>`COALESCE(AVG(CASE WHEN ${visitorSessions.consentGranted} THEN 1 ELSE 0 END), 0)::float`,
+        })
+        .from(visitorSessions)
+        .where(inRange),
+      db
+        .select({
+          day: sql<string>`to_char(date_trunc('day', ${visitorSessions.startedAt}), 'YYYY-MM-DD')`,
+          sessions: sessionCount,
+          pageViews: sql<number>`COALESCE(SUM(${visitorSessions.pageViewCount}), 0)::int`,
+        })
+        .from(visitorSessions)
+        .where(inRange)
+        .groupBy(sql`1`)
+        .orderBy(sql`1`),
+      db
+        .select({
+          source: sql<string>`COALESCE(
+            NULLIF(${visitorSessions.utmSource}, ''),
+            substring(${visitorSessions.referrer} from '^(?:[a-zA-Z][a-zA-Z0-9+.-]*://)?([^/:?#]+)'),
+            'direct'
+          )`,
+          sessions: sessionCount,
+        })
+        .from(visitorSessions)
+        .where(inRange)
+        .groupBy(sql`1`)
+        .orderBy(sql`2 DESC`)
+        .limit(10),
+      db
+        .select({ device: sql<string>`COALESCE(${visitorSessions.device}, 'unknown')`, sessions: sessionCount })
+        .from(visitorSessions)
+        .where(inRange)
+        .groupBy(sql`1`)
+        .orderBy(sql`2 DESC`),
+      db
+        .select({ browser: sql<string>`COALESCE(${visitorSessions.browser}, 'unknown')`, sessions: sessionCount })
+        .from(visitorSessions)
+        .where(inRange)
+        .groupBy(sql`1`)
+        .orderBy(sql`2 DESC`)
+        .limit(8),
+      db
+        .select({
+          path: pageViews.path,
+          views: sql<number>`count(*)::int`,
+          avgSeconds: sql<number>`COALESCE(AVG(${pageViews.durationSeconds}), 0)::float`,
+        })
+        .from(pageViews)
+        .where(and(gte(pageViews.timestamp, since), lt(pageViews.timestamp, until)))
+        .groupBy(pageViews.path)
+        .orderBy(sql`2 DESC`)
+        .limit(10),
+      db.execute(sql`
+        SELECT
+          count(*)::int AS visit,
+          count(*) FILTER (WHERE EXISTS (
+            SELECT 1 FROM ${pageViews} pv WHERE pv.session_id = s.id AND pv.path LIKE '%/video/%'
+          ))::int AS video_view,
+          count(*) FILTER (WHERE EXISTS (
+            SELECT 1 FROM ${pageViews} pv
+            WHERE pv.session_id = s.id AND pv.path LIKE '%/video/%' AND pv.duration_seconds >= ${ENGAGED_WATCH_SECONDS}
+          ))::int AS engaged_watch,
+          count(*) FILTER (WHERE EXISTS (
+            SELECT 1 FROM ${analyticsCustomEvents} e WHERE e.session_id = s.id AND e.event_name IN (${interactionEvents})
+          ))::int AS interaction
+        FROM ${visitorSessions} s
+        WHERE s.started_at >= ${since} AND s.started_at < ${until}
+      `),
+      // Only consenting visitors keep their id across visits
+      db.execute(sql`
+        WITH firsts AS (
+          SELECT visitor_id, date_trunc('week', MIN(started_at)) AS cohort
+          FROM ${visitorSessions}
+          WHERE consent_granted
+          GROUP BY visitor_id
+          HAVING MIN(started_at) >= ${since} AND MIN(started_at) < ${until}
+        )
+        SELECT
+          to_char(f.cohort, 'YYYY-MM-DD') AS cohort,
+          floor(extract(epoch FROM (s.started_at - f.cohort)) / 604800)::int AS week,
+          count(DISTINCT f.visitor_id)::int AS visitors
+        FROM firsts f
+        JOIN ${visitorSessions} s ON s.visitor_id = f.visitor_id AND s.consent_granted AND s.started_at < ${until}
+        GROUP BY 1, 2
+        ORDER BY 1, 2
+      `),
+    ]);
+
+    const funnel: FunnelRow | undefined = funnelResult.rows[0];
+    const retention: RetentionRow[] = retentionResult.rows;
+    return {
+      since: since.toISOString(),
+      until: until.toISOString(),
+      totals: totalsRows[0],
+      daily,
+      sources,
+      devices,
+      browsers,
+      topPaths,
+      funnel: [
+        { step: "visit", sessions: funnel?.visit ?? 0 },
+        { step: "video_view", sessions: funnel?.video_view ?? 0 },
+        { step: "engaged_watch", sessions: funnel?.engaged_watch ?? 0 },
+        { step: "interaction", sessions: funnel?.interaction ?? 0 },
+      ],
+      retention: buildRetentionCohorts(retention, until),
+    };
+  }
+
+  async recordVideoViewSnapshot(videoId: string, viewCount: number, capturedAt: Date = new Date()): Promise<VideoViewSnapshot> {
+    const [snapshot] = await db
+      .insert(videoViewSnapshots)
+      .values({ videoId, viewCount, capturedAt })
+      .returning();
+    return snapshot;
+  }
+
+  async getVideoViewSnapshots(videoId: string, since?: Date): Promise<VideoViewSnapshot[]> {
+    try {
+      return await db
+        .select()
+        .from(videoViewSnapshots)
+        .where(
+          since
+            ? and(eq(videoViewSnapshots.videoId, videoId), gte(videoViewSnapshots.capturedAt, since))
+            : eq(videoViewSnapshots.videoId, videoId),
+        )
+        .orderBy(asc(videoViewSnapshots.capturedAt));
+    } catch (error) {
+      console.error(`[storage] getVideoViewSnapshots failed for videoId ${videoId}:`, error);
+      return [];
+    }
+  }
+
   /**
    * Helper method to hydrate videos with their related data efficiently
    */
@@ -889,6 +2206,7 @@ export class DatabaseStorage implements IStorage {
       const [video] = await db
         .select()
         .from(videos)
+        .where(isNull(videos.hiddenAt))
         .orderBy(desc(videos.publishDate))
         .limit(1);
 
@@ -922,6 +2240,7 @@ export class DatabaseStorage implements IStorage {
       const recentVideos = await db
         .select()
         .from(videos)
+        .where(isNull(videos.hiddenAt))
         .orderBy(desc(videos.publishDate))
         .limit(limit);
 
@@ -957,7 +2276,7 @@ export class DatabaseStorage implements IStorage {
         .select({ videoId: videoCategories.videoId })
         .from(videoCategories)
         .innerJoin(videos, eq(videos.id, videoCategories.videoId))
-        .where(eq(videoCategories.categoryId, categoryId))
+        .where(and(eq(videoCategories.categoryId, categoryId), isNull(videos.hiddenAt)))
         .orderBy(desc(videos.publishDate), desc(videos.createdAt))
         .limit(limit) as { videoId: string }[];
 
@@ -995,44 +2314,46 @@ export class DatabaseStorage implements IStorage {
     if (cached) return cached;
 
     try {
-      // Use SQL to calculate popularity and sort at database level
-      // Popularity formula: externalViews * 0.3 + internalViews * 50 + likes * 100
-      // viewCount is a string like "1,234 views" - extract numeric part with REGEXP_REPLACE
-      let trendingVideos: Video[] = [];
-      
+      // Candidates are the most popular videos overall (view growth measured
+      // across metadata refreshes, then externalViews * 0.3 + internalViews * 50
+      // + likes * 100; viewCount is a string like "1,234 views") plus the newest
+      // ones, ranked together with rankTrending so popularity decays with age.
+      const notShortOrHidden = and(sql`${videos.videoType} NOT IN ('youtube_short', 'tiktok')`, isNull(videos.hiddenAt));
+      const poolSize = limit * TRENDING_POOL_FACTOR;
+      let candidates: Video[] = [];
+
       try {
-        trendingVideos = await db
-          .select()
-          .from(videos)
-          .where(sql`${videos.videoType} NOT IN ('youtube_short', 'tiktok')`)
-          .orderBy(
-            sql<number>`(
-              COALESCE(CAST(NULLIF(REGEXP_REPLACE(${videos.viewCount}, '[^0-9]', '', 'g'), '') AS INTEGER), 0) * 0.3 +
-              COALESCE(${videos.internalViewsCount}, 0) * 50 +
-              COALESCE(${videos.likesCount}, 0) * 100
-            ) DESC`,
-            desc(videos.publishDate)
-          )
-          .limit(limit);
-      } catch (sqlError) {
-        console.warn(`[storage] Advanced trending query failed, falling back to simple recent videos:`, sqlError);
+        const [popular, newest] = await Promise.all([
+          db
+            .select()
+            .from(videos)
+            .where(notShortOrHidden)
+            .orderBy(
+              desc(videos.trendingScore),
+              sql<number>`(
+                COALESCE(CAST(NULLIF(REGEXP_REPLACE(${videos.viewCount}, '[^0-9]', '', 'g'), '') AS INTEGER), 0) * 0.3 +
+                COALESCE(${videos.internalViewsCount}, 0) * 50 +
+                COALESCE(${videos.likesCount}, 0) * 100
+              ) DESC`,
+              desc(videos.publishDate)
+            )
+            .limit(poolSize),
+          db.select().from(videos).where(notShortOrHidden).orderBy(desc(videos.createdAt)).limit(poolSize),
+        ]);
+        const byId = new Map<string, Video>([...popular, ...newest].map((video) => [video.id, video]));
+        candidates = rankTrending(Array.from(byId.values())).slice(0, limit);
+      } catch (sqlError) {
+        console.warn(`[storage] Advanced trending query failed, falling back to simple recent videos:`, sqlError);
         // Fallback: just get recent non-short videos
-        trendingVideos = await db
+        candidates = await db
           .select()
           .from(videos)
-          .where(sql`${videos.videoType} NOT IN ('youtube_short', 'tiktok')`)
+          .where(notShortOrHidden)
           .orderBy(desc(videos.publishDate))
           .limit(limit);
       }
 
-      const hydrated = await this.hydrateVideosWithRelations(trendingVideos, lang);
-      
-      // Ensure all carousel videos are sorted strictly by upload date
-      hydrated.sort((a, b) => {
-        const dateA = a.publishDate || (a.createdAt instanceof Date ? a.createdAt.toISOString() : String(a.createdAt));
-        const dateB = b.publishDate || (b.createdAt instanceof Date ? b.createdAt.toISOString() : String(b.createdAt));
-        return dateB.localeCompare(dateA);
-      });
+      const hydrated = await this.hydrateVideosWithRelations(candidates, lang);
 
       const settings = await this.getCacheSettings();
       if (settings.enabled) {
@@ -1073,7 +2394,7 @@ export class DatabaseStorage implements IStorage {
         .select({ video: videos })
         .from(videos)
         .innerJoin(channels, eq(videos.channelId, channels.id))
-        .where(whereClause)
+        .where(and(whereClause, isNull(videos.hiddenAt)))
         .orderBy(desc(videos.publishDate))
         .limit(limit)
         .offset(offset);
@@ -1189,7 +2510,8 @@ export class DatabaseStorage implements IStorage {
         ))
         .orderBy(heroVideos.displayOrder);
 
-      let result: HeroVideoWithVideo[] = heroEntries.map(entry => ({
+      // Entries pointing at a quarantined video are skipped; custom slides without a video stay
+      let result: HeroVideoWithVideo[] = heroEntries.filter(entry => !entry.video?.hiddenAt).map(entry => ({
         ...entry,
         video: entry.video ? {
           ...entry.video,
@@ -1205,7 +2527,7 @@ export class DatabaseStorage implements IStorage {
           const candidates = await db
             .select()
             .from(videos)
-            .where(sql`${videos.videoType} NOT IN ('youtube_short', 'tiktok')`)
+            .where(and(sql`${videos.videoType} NOT IN ('youtube_short', 'tiktok')`, isNull(videos.hiddenAt)))
             .orderBy(desc(videos.createdAt))
             .limit(10);
 
@@ -1246,7 +2568,7 @@ export class DatabaseStorage implements IStorage {
             })
             .from(videos)
             .innerJoin(videoViews, eq(videos.id, videoViews.videoId))
-            .where(gte(videoViews.createdAt, sevenDaysAgo))
+            .where(and(gte(videoViews.createdAt, sevenDaysAgo), isNull(videos.hiddenAt)))
             .groupBy(videos.id)
             .orderBy(desc(sql`count(${videoViews.id})`))
             .limit(5);
@@ -1261,6 +2583,7 @@ export class DatabaseStorage implements IStorage {
               .where(
                 and(
                   sql`${videos.videoType} NOT IN ('youtube_short', 'tiktok')`,
+                  isNull(videos.hiddenAt),
                   excludeIds.length > 0 ? notInArray(videos.id, excludeIds) : undefined,
                 ),
               )
@@ -1329,15 +2652,16 @@ export class DatabaseStorage implements IStorage {
               eq(heroVideos.isActive, 1),
               or(isNull(heroVideos.startDate), lte(heroVideos.startDate, now)),
               or(isNull(heroVideos.endDate), gte(heroVideos.endDate, now)),
+              isNull(videos.hiddenAt),
             ),
           )
           .orderBy(heroVideos.displayOrder)
           .limit(limit);
         selectedVideos = configured.map((r) => r.video);
       } else if (mode === 'latest') {
-        selectedVideos = await db.select().from(videos).orderBy(desc(videos.publishDate)).limit(limit);
+        selectedVideos = await db.select().from(videos).where(isNull(videos.hiddenAt)).orderBy(desc(videos.publishDate)).limit(limit);
       } else if (mode === 'popular') {
-        selectedVideos = await db.select().from(videos).orderBy(
+        selectedVideos = await db.select().from(videos).where(isNull(videos.hiddenAt)).orderBy(
           sql`(
             COALESCE(CAST(NULLIF(REGEXP_REPLACE(${videos.viewCount}, '[^0-9]', '', 'g'), '') AS INTEGER), 0) * 0.3 +
             COALESCE(${videos.internalViewsCount}, 0) * 50 +
@@ -1346,9 +2670,9 @@ export class DatabaseStorage implements IStorage {
         ).limit(limit);
       } else if (mode === 'trending') {
         // Simple trending: recent + views
-        selectedVideos = await db.select().from(videos).orderBy(desc(videos.publishDate), desc(videos.viewCount)).limit(limit);
+        selectedVideos = await db.select().from(videos).where(isNull(videos.hiddenAt)).orderBy(desc(videos.trendingScore), desc(videos.publishDate)).limit(limit);
       } else if (mode === 'random') {
-        selectedVideos = await db.select().from(videos).orderBy(sql`RANDOM()`).limit(limit);
+        selectedVideos = await db.select().from(videos).where(isNull(videos.hiddenAt)).orderBy(sql`RANDOM()`).limit(limit);
       }
 
       // Fill with fallbacks if needed (for primary mode or if others fail to return enough)
@@ -1362,6 +2686,7 @@ export class DatabaseStorage implements IStorage {
             .where(
               and(
                 notInArray(videos.videoType, ["youtube_short", "tiktok"]),
+                isNull(videos.hiddenAt),
                 excludeIds.length > 0 ? notInArray(videos.id, excludeIds) : undefined,
               ),
             )
@@ -2199,7 +3524,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   // Playlists
-  async createPlaylist(insertPlaylist: InsertPlaylist): Promise<Playlist> {
+  async createPlaylist(insertPlaylist: InsertPlaylist & { ownerId?: string | null }): Promise<Playlist> {
     try {
       const [playlist] = await db
         .insert(playlists)
@@ -2264,13 +3589,26 @@ export class DatabaseStorage implements IStorage {
 
   async getAllPlaylists(): Promise<Playlist[]> {
     try {
-      return db.select().from(playlists);
+      return await db.select().from(playlists).where(isNull(playlists.ownerId));
     } catch (error) {
       console.error("[storage] getAllPlaylists failed:", error);
       return [];
     }
   }
 
+  async getPlaylistsByOwner(ownerId: string): Promise<Playlist[]> {
+    try {
+      return await db
+        .select()
+        .from(playlists)
+        .where(eq(playlists.ownerId, ownerId))
+        .orderBy(desc(playlists.createdAt));
+    } catch (error) {
+      console.error(`[storage] getPlaylistsByOwner failed for ownerId ${ownerId}:`, error);
+      return [];
+    }
+  }
+
   async updatePlaylist(
     id: string,
     data: Partial<Playlist>,
@@ -2347,6 +3685,499 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // User library
+  async getUserLikedVideos(userId: string, limit: number = 100): Promise<VideoWithLocalizedRelations[]> {
+    try {
+      const liked = await db
+        .select({ video: videos })
+        .from(videoLikes)
+        .innerJoin(videos, eq(videoLikes.videoId, videos.id))
+        .where(eq(videoLikes.userId, userId))
+        .orderBy(desc(videoLikes.createdAt))
+        .limit(limit);
+      return await this.hydrateVideosWithRelations(liked.map((row: { video: Video }) => row.video));
+    } catch (error) {
+      console.error(`[storage] getUserLikedVideos failed for userId ${userId}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Upserts the history row and bumps watched_at. Without a position (a plain
+   * view) the stored resume point is kept.
+   */
+  async recordWatchProgress(
+    userId: string,
+    videoId: string,
+    progress?: Partial<WatchProgress>,
+  ): Promise<WatchHistoryEntry | undefined> {
+    try {
+      const now = new Date();
+      const update: Partial<WatchHistoryEntry> = { watchedAt: now };
+      if (progress?.positionSeconds !== undefined) update.positionSeconds = progress.positionSeconds;
+      if (progress?.durationSeconds !== undefined) update.durationSeconds = progress.durationSeconds;
+
+      const [entry] = await db
+        .insert(watchHistory)
+        .values({
+          userId,
+          videoId,
+          positionSeconds: progress?.positionSeconds ?? 0,
+          durationSeconds: progress?.durationSeconds ?? null,
+          watchedAt: now,
+        })
+        .onConflictDoUpdate({ target: [watchHistory.userId, watchHistory.videoId], set: update })
+        .returning();
+      return entry;
+    } catch (error) {
+      console.error(`[storage] recordWatchProgress failed for userId ${userId}, videoId ${videoId}:`, error);
+      throw error;
+    }
+  }
+
+  async getWatchProgress(userId: string, videoId: string): Promise<WatchHistoryEntry | undefined> {
+    try {
+      const [entry] = await db
+        .select()
+        .from(watchHistory)
+        .where(and(eq(watchHistory.userId, userId), eq(watchHistory.videoId, videoId)))
+        .limit(1);
+      return entry || undefined;
+    } catch (error) {
+      console.error(`[storage] getWatchProgress failed for userId ${userId}, videoId ${videoId}:`, error);
+      return undefined;
+    }
+  }
+
+  async getWatchHistory(userId: string, limit: number = 100): Promise<WatchHistoryItem[]> {
+    try {
+      const rows = await db
+        .select({ entry: watchHistory, video: videos })
+        .from(watchHistory)
+        .innerJoin(videos, eq(watchHistory.videoId, videos.id))
+        .where(eq(watchHistory.userId, userId))
+        .orderBy(desc(watchHistory.watchedAt))
+        .limit(limit);
+      const hydrated = await this.hydrateVideosWithRelations(rows.map((r: { video: Video }) => r.video));
+      const byId = new Map(hydrated.map((v) => [v.id, v]));
+      return rows
+        .filter((r: { entry: WatchHistoryEntry }) => byId.has(r.entry.videoId))
+        .map((r: { entry: WatchHistoryEntry }) => ({ ...r.entry, video: byId.get(r.entry.videoId)! }));
+    } catch (error) {
+      console.error(`[storage] getWatchHistory failed for userId ${userId}:`, error);
+      return [];
+    }
+  }
+
+  async deleteWatchHistory(userId: string, videoId?: string): Promise<void> {
+    try {
+      await db
+        .delete(watchHistory)
+        .where(and(eq(watchHistory.userId, userId), videoId ? eq(watchHistory.videoId, videoId) : undefined));
+    } catch (error) {
+      console.error(`[storage] deleteWatchHistory failed for userId ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  async getEngagementSignals(userIdentifier: string, since: Date, limit: number = 200): Promise<EngagementSignal[]> {
+    try {
+      const [views, likes] = await Promise.all([
+        db
+          .select({
+            videoId: videoViews.videoId,
+            views: sql<number>`count(*)`,
+            lastViewedAt: sql<Date>`max(${videoViews.createdAt})`,
+          })
+          .from(videoViews)
+          .where(and(eq(videoViews.userIdentifier, userIdentifier), gte(videoViews.createdAt, since)))
+          .groupBy(videoViews.videoId)
+          .orderBy(desc(sql`max(${videoViews.createdAt})`))
+          .limit(limit),
+        db
+          .select({ videoId: videoLikes.videoId, createdAt: videoLikes.createdAt })
+          .from(videoLikes)
+          .where(eq(videoLikes.userIdentifier, userIdentifier))
+          .orderBy(desc(videoLikes.createdAt))
+          .limit(limit),
+      ]);
+
+      const signals = new Map<string, EngagementSignal>();
+      for (const row of views) {
+        signals.set(row.videoId, {
+          videoId: row.videoId,
+          views: Number(row.views),
+          liked: false,
+          lastEngagedAt: new Date(row.lastViewedAt),
+        });
+      }
+      for (const like of likes) {
+        const signal = signals.get(like.videoId);
+        if (signal) {
+          signal.liked = true;
+          if (like.createdAt > signal.lastEngagedAt) signal.lastEngagedAt = like.createdAt;
+        } else {
+          signals.set(like.videoId, { videoId: like.videoId, views: 0, liked: true, lastEngagedAt: like.createdAt });
+        }
+      }
+      return Array.from(signals.values())
+        .sort((a, b) => b.lastEngagedAt.getTime() - a.lastEngagedAt.getTime())
+        .slice(0, limit);
+    } catch (error) {
+      console.error(`[storage] getEngagementSignals failed for ${userIdentifier}:`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Moves likes recorded under an anonymous fingerprint onto the account and
+   * imports the anonymous history (most recent first). Likes the account
+   * already had are dropped from the anonymous side and the video's like
+   * count is corrected so nothing is counted twice.
+   */
+  async mergeAnonymousActivity(
+    userId: string,
+    anonymousIdentifier: string,
+    historyVideoIds: string[],
+  ): Promise<{ likes: number; history: number; subscriptions: number }> {
+    try {
+      const userIdentifier = `user:${userId}`;
+      return await db.transaction(async (tx: typeof db) => {
+        const alreadyLiked = tx
+          .select({ videoId: videoLikes.videoId })
+          .from(videoLikes)
+          .where(eq(videoLikes.userIdentifier, userIdentifier));
+
+        const duplicates = await tx
+          .delete(videoLikes)
+          .where(and(eq(videoLikes.userIdentifier, anonymousIdentifier), inArray(videoLikes.videoId, alreadyLiked)))
+          .returning({ videoId: videoLikes.videoId });
+        if (duplicates.length > 0) {
+          await tx
+            .update(videos)
+            .set({ likesCount: sql`GREATEST(${videos.likesCount} - 1, 0)` })
+            .where(inArray(videos.id, duplicates.map((d: { videoId: string }) => d.videoId)));
+        }
+
+        const moved = await tx
+          .update(videoLikes)
+          .set({ userIdentifier, userId })
+          .where(eq(videoLikes.userIdentifier, anonymousIdentifier))
+          .returning({ videoId: videoLikes.videoId });
+
+        let history = 0;
+        if (historyVideoIds.length > 0) {
+          const existingVideos = await tx
+            .select({ id: videos.id })
+            .from(videos)
+            .where(inArray(videos.id, historyVideoIds));
+          const valid = new Set(existingVideos.map((v: { id: string }) => v.id));
+          const now = Date.now();
+          const rows = historyVideoIds
+            .filter((id) => valid.has(id))
+            // KV history is newest-first; keep that order in watched_at
+            .map((videoId, index) => ({ userId, videoId, watchedAt: new Date(now - index * 1000) }));
+          if (rows.length > 0) {
+            const inserted = await tx
+              .insert(watchHistory)
+              .values(rows)
+              .onConflictDoNothing({ target: [watchHistory.userId, watchHistory.videoId] })
+              .returning({ id: watchHistory.id });
+            history = inserted.length;
+          }
+        }
+
+        // Subscriptions and their notifications follow the same pattern as likes
+        const alreadySubscribed = tx
+          .select({ channelId: channelSubscriptions.channelId })
+          .from(channelSubscriptions)
+          .where(eq(channelSubscriptions.subscriberKey, userIdentifier));
+        await tx
+          .delete(channelSubscriptions)
+          .where(and(
+            eq(channelSubscriptions.subscriberKey, anonymousIdentifier),
+            inArray(channelSubscriptions.channelId, alreadySubscribed),
+          ));
+        const subscriptions = await tx
+          .update(channelSubscriptions)
+          .set({ subscriberKey: userIdentifier, userId })
+          .where(eq(channelSubscriptions.subscriberKey, anonymousIdentifier))
+          .returning({ id: channelSubscriptions.id });
+
+        const alreadyNotified = tx
+          .select({ videoId: notifications.videoId })
+          .from(notifications)
+          .where(eq(notifications.subscriberKey, userIdentifier));
+        await tx
+          .delete(notifications)
+          .where(and(eq(notifications.subscriberKey, anonymousIdentifier), inArray(notifications.videoId, alreadyNotified)));
+        await tx
+          .update(notifications)
+          .set({ subscriberKey: userIdentifier })
+          .where(eq(notifications.subscriberKey, anonymousIdentifier));
+
+        return { likes: moved.length, history, subscriptions: subscriptions.length };
+      });
+    } catch (error) {
+      console.error(`[storage] mergeAnonymousActivity failed for userId ${userId}:`, error);
+      throw error;
+    }
+  }
+
+  async subscribeToChannel(subscriberKey: string, channelId: string, userId?: string | null): Promise<ChannelSubscription> {
+    try {
+      const [created] = await db
+        .insert(channelSubscriptions)
+        .values({ subscriberKey, channelId, userId: userId || null })
+        .onConflictDoNothing({ target: [channelSubscriptions.subscriberKey, channelSubscriptions.channelId] })
+        .returning();
+      if (created) return created;
+      const [existing] = await db
+        .select()
+        .from(channelSubscriptions)
+        .where(and(eq(channelSubscriptions.subscriberKey, subscriberKey), eq(channelSubscriptions.channelId, channelId)))
+        .limit(1);
+      return existing;
+    } catch (error) {
+      console.error(`[storage] subscribeToChannel failed for channel ${channelId}:`, error);
+      throw error;
+    }
+  }
+
+  async unsubscribeFromChannel(subscriberKey: string, channelId: string): Promise<void> {
+    try {
+      await db
+        .delete(channelSubscriptions)
+        .where(and(eq(channelSubscriptions.subscriberKey, subscriberKey), eq(channelSubscriptions.channelId, channelId)));
+    } catch (error) {
+      console.error(`[storage] unsubscribeFromChannel failed for channel ${channelId}:`, error);
+      throw error;
+    }
+  }
+
+  async getSubscriptions(subscriberKey: string): Promise<ChannelSubscription[]> {
+    try {
+      return await db
+        .select()
+        .from(channelSubscriptions)
+        .where(eq(channelSubscriptions.subscriberKey, subscriberKey))
+        .orderBy(desc(channelSubscriptions.createdAt));
+    } catch (error) {
+      console.error("[storage] getSubscriptions failed:", error);
+      return [];
+    }
+  }
+
+  async getChannelSubscriberCount(channelId: string): Promise<number> {
+    try {
+      const [row] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(channelSubscriptions)
+        .where(eq(channelSubscriptions.channelId, channelId));
+      return row?.count || 0;
+    } catch (error) {
+      console.error(`[storage] getChannelSubscriberCount failed for channel ${channelId}:`, error);
+      return 0;
+    }
+  }
+
+  async getFollowingFeed(
+    subscriberKey: string,
+    options: { limit: number; offset: number },
+    lang: string = 'en',
+  ): Promise<{ videos: VideoWithLocalizedRelations[]; total: number }> {
+    try {
+      const followed = db
+        .select({ channelId: channelSubscriptions.channelId })
+        .from(channelSubscriptions)
+        .where(eq(channelSubscriptions.subscriberKey, subscriberKey));
+
+      const [{ total }] = await db
+        .select({ total: sql<number>`count(*)::int` })
+        .from(videos)
+        .where(inArray(videos.channelId, followed));
+
+      const page = await db
+        .select()
+        .from(videos)
+        .where(inArray(videos.channelId, followed))
+        .orderBy(sql`${videos.publishDate} DESC NULLS LAST`, desc(videos.createdAt), asc(videos.id))
+        .limit(options.limit)
+        .offset(options.offset);
+
+      return { videos: await this.hydrateVideosWithRelations(page, lang), total };
+    } catch (error) {
+      console.error("[storage] getFollowingFeed failed:", error);
+      return { videos: [], total: 0 };
+    }
+  }
+
+  async createNewVideoNotifications(channelId: string, videoIds: string[]): Promise<number> {
+    if (videoIds.length === 0) return 0;
+    try {
+      const subscribers = await db
+        .select({ subscriberKey: channelSubscriptions.subscriberKey })
+        .from(channelSubscriptions)
+        .where(eq(channelSubscriptions.channelId, channelId));
+      if (subscribers.length === 0) return 0;
+
+      const rows = subscribers.flatMap(({ subscriberKey }: { subscriberKey: string }) =>
+        videoIds.map((videoId) => ({ subscriberKey, channelId, videoId, type: "new_video" })),
+      );
+      const inserted = await db
+        .insert(notifications)
+        .values(rows)
+        .onConflictDoNothing({ target: [notifications.subscriberKey, notifications.type, notifications.videoId] })
+        .returning({ id: notifications.id });
+      return inserted.length;
+    } catch (error) {
+      console.error(`[storage] createNewVideoNotifications failed for channel ${channelId}:`, error);
+      throw error;
+    }
+  }
+
+  async getNotifications(
+    subscriberKey: string,
+    options: { limit?: number; unreadOnly?: boolean } = {},
+  ): Promise<NotificationWithVideo[]> {
+    try {
+      const conditions = [eq(notifications.subscriberKey, subscriberKey)];
+      if (options.unreadOnly) conditions.push(isNull(notifications.readAt));
+
+      const rows = await db
+        .select({
+          notification: notifications,
+          video: {
+            id: videos.id,
+            slug: videos.slug,
+            title: videos.title,
+            thumbnailUrl: videos.thumbnailUrl,
+            publishDate: videos.publishDate,
+          },
+          channel: { id: channels.id, name: channels.name, thumbnailUrl: channels.thumbnailUrl },
+        })
+        .from(notifications)
+        .innerJoin(videos, eq(notifications.videoId, videos.id))
+        .innerJoin(channels, eq(notifications.channelId, channels.id))
+        .where(and(...conditions))
+        .orderBy(desc(notifications.createdAt))
+        .limit(options.limit || 20);
+
+      return rows.map((row: any) => ({ ...row.notification, video: row.video, channel: row.channel }));
+    } catch (error) {
+      console.error("[storage] getNotifications failed:", error);
+      return [];
+    }
+  }
+
+  async getUnreadNotificationCount(subscriberKey: string): Promise<number> {
+    try {
+      const [row] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(notifications)
+        .where(and(eq(notifications.subscriberKey, subscriberKey), isNull(notifications.readAt)));
+      return row?.count || 0;
+    } catch (error) {
+      console.error("[storage] getUnreadNotificationCount failed:", error);
+      return 0;
+    }
+  }
+
+  async markNotificationsRead(subscriberKey: string, ids?: string[]): Promise<number> {
+    try {
+      const conditions = [eq(notifications.subscriberKey, subscriberKey), isNull(notifications.readAt)];
+      if (ids) {
+        if (ids.length === 0) return 0;
+        conditions.push(inArray(notifications.id, ids));
+      }
+      const updated = await db
+        .update(notifications)
+        .set({ readAt: new Date() })
+        .where(and(...conditions))
+        .returning({ id: notifications.id });
+      return updated.length;
+    } catch (error) {
+      console.error("[storage] markNotificationsRead failed:", error);
+      throw error;
+    }
+  }
+
+  // WebSub push subscriptions
+  async getWebSubSubscription(id: string): Promise<WebSubSubscription | undefined> {
+    try {
+      const [row] = await db.select().from(websubSubscriptions).where(eq(websubSubscriptions.id, id));
+      return row || undefined;
+    } catch (error) {
+      console.error(`[storage] getWebSubSubscription failed for id ${id}:`, error);
+      return undefined;
+    }
+  }
+
+  async getWebSubSubscriptionByChannel(channelId: string): Promise<WebSubSubscription | undefined> {
+    try {
+      const [row] = await db.select().from(websubSubscriptions).where(eq(websubSubscriptions.channelId, channelId));
+      return row || undefined;
+    } catch (error) {
+      console.error(`[storage] getWebSubSubscriptionByChannel failed for channelId ${channelId}:`, error);
+      return undefined;
+    }
+  }
+
+  async getWebSubSubscriptions(): Promise<WebSubSubscription[]> {
+    try {
+      return await db.select().from(websubSubscriptions);
+    } catch (error) {
+      console.error("[storage] getWebSubSubscriptions failed:", error);
+      return [];
+    }
+  }
+
+  async saveWebSubSubscription(data: InsertWebSubSubscription): Promise<WebSubSubscription> {
+    try {
+      const [row] = await db
+        .insert(websubSubscriptions)
+        .values(data)
+        .onConflictDoUpdate({
+          target: websubSubscriptions.channelId,
+          set: { ...data, updatedAt: new Date() },
+        })
+        .returning();
+      return row;
+    } catch (error) {
+      console.error("[storage] saveWebSubSubscription failed:", error);
+      throw error;
+    }
+  }
+
+  async updateWebSubSubscription(id: string, data: Partial<WebSubSubscription>): Promise<WebSubSubscription | undefined> {
+    try {
+      const [row] = await db
+        .update(websubSubscriptions)
+        .set({ ...data, updatedAt: new Date() })
+        .where(eq(websubSubscriptions.id, id))
+        .returning();
+      return row || undefined;
+    } catch (error) {
+      console.error(`[storage] updateWebSubSubscription failed for id ${id}:`, error);
+      throw error;
+    }
+  }
+
+  async recordWebSubNotification(id: string): Promise<void> {
+    try {
+      await db
+        .update(websubSubscriptions)
+        .set({
+          lastNotificationAt: new Date(),
+          notificationCount: sql`${websubSubscriptions.notificationCount} + 1`,
+        })
+        .where(eq(websubSubscriptions.id, id));
+    } catch (error) {
+      console.error(`[storage] recordWebSubNotification failed for id ${id}:`, error);
+      throw error;
+    }
+  }
+
   async getPlaylistVideos(playlistId: string): Promise<PlaylistVideo[]> {
     try {
       return db
@@ -2412,6 +4243,96 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getSeoMetaTag(pageUrl: string): Promise<SeoMetaTag | undefined> {
+    try {
+      const [tag] = await db
+        .select()
+        .from(seoMetaTags)
+        .where(and(eq(seoMetaTags.pageUrl, pageUrl), eq(seoMetaTags.isActive, true)))
+        .limit(1);
+      return tag;
+    } catch (error) {
+      console.error("[storage] getSeoMetaTag failed:", error);
+      return undefined;
+    }
+  }
+
+  async upsertSeoMetaTag(
+    pageUrl: string,
+    data: Partial<Omit<SeoMetaTag, "id" | "pageUrl" | "createdAt" | "updatedAt">> & Pick<SeoMetaTag, "pageType">,
+  ): Promise<SeoMetaTag> {
+    const { pageType, ...fields } = data;
+    const [tag] = await db
+      .insert(seoMetaTags)
+      .values({ ...data, pageUrl })
+      .onConflictDoUpdate({
+        target: seoMetaTags.pageUrl,
+        set: { ...fields, updatedAt: sql`now()` },
+      })
+      .returning();
+    return tag;
+  }
+
+  async getSeoAbTests(statuses?: readonly SeoAbTestStatus[]): Promise<SeoAbTest[]> {
+    try {
+      const query = db.select().from(seoABTests);
+      return await (statuses ? query.where(inArray(seoABTests.status, [...statuses])) : query).orderBy(
+        desc(seoABTests.createdAt),
+      );
+    } catch (error) {
+      console.error("[storage] getSeoAbTests failed:", error);
+      return [];
+    }
+  }
+
+  async getSeoAbTest(id: string): Promise<SeoAbTest | undefined> {
+    try {
+      const [test] = await db.select().from(seoABTests).where(eq(seoABTests.id, id));
+      return test;
+    } catch (error) {
+      console.error("[storage] getSeoAbTest failed:", error);
+      return undefined;
+    }
+  }
+
+  async createSeoAbTest(
+    test: Omit<SeoAbTest, "id" | "status" | "results" | "createdAt" | "updatedAt"> & Partial<Pick<SeoAbTest, "status" | "results">>,
+  ): Promise<SeoAbTest> {
+    const [created] = await db.insert(seoABTests).values(test).returning();
+    return created;
+  }
+
+  async updateSeoAbTest(id: string, data: Partial<SeoAbTest>): Promise<SeoAbTest | undefined> {
+    const [updated] = await db
+      .update(seoABTests)
+      .set({ ...data, updatedAt: sql`now()` })
+      .where(eq(seoABTests.id, id))
+      .returning();
+    return updated;
+  }
+
+  async incrementSeoAbTestCounts(
+    testId: string,
+    variant: SeoAbTestVariant,
+    counts: { impressions: number; clicks: number },
+  ): Promise<void> {
+    await db
+      .insert(seoAbTestCounts)
+      .values({ testId, variant, ...counts })
+      .onConflictDoUpdate({
+        target: [seoAbTestCounts.testId, seoAbTestCounts.variant],
+        set: {
+          impressions: sql`${seoAbTestCounts.impressions} + ${counts.impressions}`,
+          clicks: sql`${seoAbTestCounts.clicks} + ${counts.clicks}`,
+          updatedAt: new Date(),
+        },
+      });
+  }
+
+  async getSeoAbTestCounts(testId: string): Promise<SeoAbTestCount[]> {
+    return await db.select().from(seoAbTestCounts).where(eq(seoAbTestCounts.testId, testId));
+  }
+
   async updateAllVideoThumbnails(): Promise<number> {
     try {
       const result = await db
@@ -2569,6 +4490,64 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // YouTube Data API quota
+  async getYouTubeQuota(day: string): Promise<YouTubeApiQuota | undefined> {
+    try {
+      const [row] = await db.select().from(youtubeApiQuota).where(eq(youtubeApiQuota.day, day));
+      return row || undefined;
+    } catch (error) {
+      console.error(`[storage] getYouTubeQuota failed for day ${day}:`, error);
+      return undefined;
+    }
+  }
+
+  async recordYouTubeQuotaUsage(day: string, method: string, units: number): Promise<YouTubeApiQuota> {
+    try {
+      // jsonb_build_object || merges the per-method counter in one statement
+      const [row] = await db
+        .insert(youtubeApiQuota)
+        .values({ day, units, calls: 1, byMethod: { [method]: units } })
+        .onConflictDoUpdate({
+          target: youtubeApiQuota.day,
+          set: {
+            units: sql`${youtubeApiQuota.units} + ${units}`,
+            calls: sql`${youtubeApiQuota.calls} + 1`,
+            byMethod: sql`${youtubeApiQuota.byMethod} || jsonb_build_object(${method}::text, coalesce((${youtubeApiQuota.byMethod}->>${method}::text)::int, 0) + ${units})`,
+            updatedAt: new Date(),
+          },
+        })
+        .returning();
+      return row;
+    } catch (error) {
+      console.error("[storage] recordYouTubeQuotaUsage failed:", error);
+      throw error;
+    }
+  }
+
+  async markYouTubeQuotaExhausted(day: string): Promise<void> {
+    try {
+      await db
+        .insert(youtubeApiQuota)
+        .values({ day, exhaustedAt: new Date() })
+        .onConflictDoUpdate({
+          target: youtubeApiQuota.day,
+          set: { exhaustedAt: new Date(), updatedAt: new Date() },
+        });
+    } catch (error) {
+      console.error("[storage] markYouTubeQuotaExhausted failed:", error);
+      throw error;
+    }
+  }
+
+  async getYouTubeQuotaHistory(days: number): Promise<YouTubeApiQuota[]> {
+    try {
+      return await db.select().from(youtubeApiQuota).orderBy(desc(youtubeApiQuota.day)).limit(days);
+    } catch (error) {
+      console.error("[storage] getYouTubeQuotaHistory failed:", error);
+      return [];
+    }
+  }
+
   // Tag Images
   async getTagImage(tagName: string): Promise<TagImage | undefined> {
     try {
@@ -2635,6 +4614,306 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  // AI prompt templates
+  async getPromptTemplateVersions(key: AiPromptKey): Promise<AiPromptTemplateVersion[]> {
+    try {
+      const rows = await db
+        .select({
+          template: aiPromptTemplates,
+          videoCount: sql<number>`(select count(*) from ${videos} where ${videos.categorizationPromptId} = ${aiPromptTemplates.id})`,
+        })
+        .from(aiPromptTemplates)
+        .where(eq(aiPromptTemplates.key, key))
+        .orderBy(desc(aiPromptTemplates.version));
+      return rows.map((row: { template: AiPromptTemplate; videoCount: number }) => ({
+        ...row.template,
+        videoCount: Number(row.videoCount),
+      }));
+    } catch (error) {
+      console.error(`[storage] getPromptTemplateVersions failed for ${key}:`, error);
+      return [];
+    }
+  }
+
+  async getPromptTemplate(id: string): Promise<AiPromptTemplate | undefined> {
+    try {
+      const [template] = await db.select().from(aiPromptTemplates).where(eq(aiPromptTemplates.id, id));
+      return template;
+    } catch (error) {
+      console.error("[storage] getPromptTemplate failed:", error);
+      return undefined;
+    }
+  }
+
+  async getActivePromptTemplate(key: AiPromptKey): Promise<AiPromptTemplate | undefined> {
+    try {
+      const [template] = await db
+        .select()
+        .from(aiPromptTemplates)
+        .where(and(eq(aiPromptTemplates.key, key), eq(aiPromptTemplates.isActive, true)))
+        .limit(1);
+      return template;
+    } catch (error) {
+      console.error(`[storage] getActivePromptTemplate failed for ${key}:`, error);
+      return undefined;
+    }
+  }
+
+  async createPromptTemplateVersion(
+    key: AiPromptKey,
+    data: { body: string; note?: string | null; createdBy?: string | null },
+    activate: boolean,
+  ): Promise<AiPromptTemplate> {
+    return await db.transaction(async (tx: typeof db) => {
+      const [latest] = await tx
+        .select({ version: sql<number>`coalesce(max(${aiPromptTemplates.version}), 0)` })
+        .from(aiPromptTemplates)
+        .where(eq(aiPromptTemplates.key, key));
+      if (activate) {
+        await tx.update(aiPromptTemplates).set({ isActive: false }).where(eq(aiPromptTemplates.key, key));
+      }
+      const [created] = await tx
+        .insert(aiPromptTemplates)
+        .values({
+          key,
+          version: Number(latest?.version ?? 0) + 1,
+          body: data.body,
+          note: data.note ?? null,
+          createdBy: data.createdBy ?? null,
+          isActive: activate,
+        })
+        .returning();
+      return created;
+    });
+  }
+
+  async activatePromptTemplate(id: string): Promise<AiPromptTemplate | undefined> {
+    return await db.transaction(async (tx: typeof db) => {
+      const [template] = await tx.select().from(aiPromptTemplates).where(eq(aiPromptTemplates.id, id));
+      if (!template) return undefined;
+      await tx.update(aiPromptTemplates).set({ isActive: false }).where(eq(aiPromptTemplates.key, template.key));
+      const [activated] = await tx
+        .update(aiPromptTemplates)
+        .set({ isActive: true })
+        .where(eq(aiPromptTemplates.id, id))
+        .returning();
+      return activated;
+    });
+  }
+
+  async deactivatePromptTemplates(key: AiPromptKey): Promise<void> {
+    await db.update(aiPromptTemplates).set({ isActive: false }).where(eq(aiPromptTemplates.key, key));
+  }
+
+  // AI usage metering
+  async recordAiUsageEvent(event: InsertAiUsageEvent): Promise<void> {
+    await db.insert(aiUsageEvents).values(event);
+  }
+
+  async getAiSpend(since: Date): Promise<number> {
+    try {
+      const [row] = await db
+        .select({ cost: sql<number>`COALESCE(SUM(${aiUsageEvents.costUsd}), 0)::float` })
+        .from(aiUsageEvents)
+        .where(gte(aiUsageEvents.createdAt, since));
+      return row?.cost ?? 0;
+    } catch (error) {
+      console.error("[storage] getAiSpend failed:", error);
+      return 0;
+    }
+  }
+
+  async getAiUsageReport(since: Date, until: Date): Promise<AiUsageReport> {
+    const inRange = and(gte(aiUsageEvents.createdAt, since), lte(aiUsageEvents.createdAt, until));
+    const totals = {
+      calls: sql<number>`count(*)::int`,
+      errors: sql<number>`count(*) FILTER (WHERE ${aiUsageEvents.outcome} = 'error')::int`,
+      promptTokens: sql<number>`COALESCE(SUM(${aiUsageEvents.promptTokens}), 0)::int`,
+      completionTokens: sql<number>`COALESCE(SUM(${aiUsageEvents.completionTokens}), 0)::int`,
+      costUsd: sql<number>`COALESCE(SUM(${aiUsageEvents.costUsd}), 0)::float`,
+    };
+    const avgLatencyMs = sql<number>`COALESCE(ROUND(AVG(${aiUsageEvents.latencyMs})), 0)::int`;
+
+    const [totalRows, daily, byFeature, byModel] = await Promise.all([
+      db.select({ ...totals, avgLatencyMs }).from(aiUsageEvents).where(inRange),
+      db
+        .select({ day: sql<string>`to_char(date_trunc('day', ${aiUsageEvents.createdAt}), 'YYYY-MM-DD')`, ...totals })
+        .from(aiUsageEvents)
+        .where(inRange)
+        .groupBy(sql`1`)
+        .orderBy(sql`1`),
+      db
+        .select({ feature: aiUsageEvents.feature, ...totals })
+        .from(aiUsageEvents)
+        .where(inRange)
+        .groupBy(aiUsageEvents.feature)
+        .orderBy(sql`6 DESC`, sql`2 DESC`),
+      db
+        .select({ provider: aiUsageEvents.provider, model: aiUsageEvents.model, ...totals, avgLatencyMs })
+        .from(aiUsageEvents)
+        .where(inRange)
+        .groupBy(aiUsageEvents.provider, aiUsageEvents.model)
+        .orderBy(sql`7 DESC`, sql`3 DESC`),
+    ]);
+
+    return {
+      since: since.toISOString(),
+      until: until.toISOString(),
+      totals: totalRows[0] ?? { calls: 0, errors: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, avgLatencyMs: 0 },
+      daily,
+      byFeature,
+      byModel,
+    };
+  }
+
+  // Tag merge proposals
+  async getTagMergeProposals(status?: TagMergeStatus): Promise<TagMergeProposal[]> {
+    try {
+      return await db
+        .select()
+        .from(tagMergeProposals)
+        .where(status ? eq(tagMergeProposals.status, status) : undefined)
+        .orderBy(desc(tagMergeProposals.createdAt), desc(tagMergeProposals.videoCount));
+    } catch (error) {
+      console.error("[storage] getTagMergeProposals failed:", error);
+      return [];
+    }
+  }
+
+  async getTagMergeProposal(id: string): Promise<TagMergeProposal | undefined> {
+    try {
+      const [proposal] = await db.select().from(tagMergeProposals).where(eq(tagMergeProposals.id, id));
+      return proposal;
+    } catch (error) {
+      console.error("[storage] getTagMergeProposal failed:", error);
+      return undefined;
+    }
+  }
+
+  async replacePendingTagMergeProposals(proposals: InsertTagMergeProposal[]): Promise<TagMergeProposal[]> {
+    return await db.transaction(async (tx: typeof db) => {
+      await tx.delete(tagMergeProposals).where(eq(tagMergeProposals.status, "pending"));
+      if (proposals.length === 0) return [];
+      return await tx.insert(tagMergeProposals).values(proposals).returning();
+    });
+  }
+
+  async resolveTagMergeProposal(
+    id: string,
+    status: Exclude<TagMergeStatus, "pending">,
+    resolvedBy: string | null,
+  ): Promise<TagMergeProposal | undefined> {
+    const [proposal] = await db
+      .update(tagMergeProposals)
+      .set({ status, resolvedBy, resolvedAt: new Date() })
+      .where(eq(tagMergeProposals.id, id))
+      .returning();
+    return proposal;
+  }
+
+  async mergeTags(merge: TagMerge): Promise<TagMergeResult> {
+    const targetName = merge.target.find((t) => t.languageCode === "en")?.tagName;
+    if (!targetName || merge.sourceTagIds.length === 0) {
+      return { videosRetagged: 0, duplicatesRemoved: 0, imageMoved: false, redirects: 0 };
+    }
+
+    const result = await db.transaction(async (tx: typeof db) => {
+      const sources: { id: string; videoId: string }[] = await tx
+        .select({ id: tags.id, videoId: tags.videoId })
+        .from(tags)
+        .where(inArray(tags.id, merge.sourceTagIds));
+      const tagged: { videoId: string }[] = sources.length
+        ? await tx
+            .select({ videoId: tags.videoId })
+            .from(tags)
+            .innerJoin(tagTranslations, eq(tagTranslations.tagId, tags.id))
+            .where(
+              and(
+                eq(tagTranslations.languageCode, "en"),
+                sql`lower(${tagTranslations.tagName}) = lower(${targetName})`,
+                inArray(tags.videoId, sources.map((source) => source.videoId)),
+                notInArray(tags.id, merge.sourceTagIds),
+              ),
+            )
+        : [];
+      const hasTarget = new Set(tagged.map((row) => row.videoId));
+
+      let videosRetagged = 0;
+      let duplicatesRemoved = 0;
+      for (const source of sources) {
+        if (hasTarget.has(source.videoId)) {
+          await tx.delete(tags).where(eq(tags.id, source.id));
+          duplicatesRemoved++;
+          continue;
+        }
+        await tx.delete(tagTranslations).where(eq(tagTranslations.tagId, source.id));
+        await tx.insert(tagTranslations).values(merge.target.map((t) => ({ ...t, tagId: source.id })));
+        hasTarget.add(source.videoId);
+        videosRetagged++;
+      }
+
+      let imageMoved = false;
+      const sourceImageNames = merge.sourceImageNames.filter((name) => name !== targetName);
+      if (sourceImageNames.length > 0) {
+        const [targetImage] = await tx.select().from(tagImages).where(eq(tagImages.tagName, targetName));
+        const [sourceImage] = targetImage
+          ? []
+          : await tx.select().from(tagImages).where(inArray(tagImages.tagName, sourceImageNames)).limit(1);
+        if (sourceImage) {
+          await tx.update(tagImages).set({ tagName: targetName }).where(eq(tagImages.id, sourceImage.id));
+          imageMoved = true;
+        }
+        await tx.delete(tagImages).where(inArray(tagImages.tagName, sourceImageNames));
+      }
+
+      for (const redirect of merge.redirects) {
+        // Earlier redirects to an old URL skip straight to the new one; a
+        // redirect away from the new URL would loop
+        await tx
+          .update(seoRedirects)
+          .set({ toUrl: redirect.toUrl, updatedAt: new Date() })
+          .where(eq(seoRedirects.toUrl, redirect.fromUrl));
+        await tx.delete(seoRedirects).where(eq(seoRedirects.fromUrl, redirect.toUrl));
+        const [existing] = await tx.select().from(seoRedirects).where(eq(seoRedirects.fromUrl, redirect.fromUrl));
+        if (existing) {
+          await tx
+            .update(seoRedirects)
+            .set({ toUrl: redirect.toUrl, type: "permanent", isActive: true, updatedAt: new Date() })
+            .where(eq(seoRedirects.id, existing.id));
+        } else {
+          await tx.insert(seoRedirects).values({ fromUrl: redirect.fromUrl, toUrl: redirect.toUrl, type: "permanent" });
+        }
+      }
+
+      return { videosRetagged, duplicatesRemoved, imageMoved, redirects: merge.redirects.length };
+    });
+    invalidateVideoContentCaches();
+    return result;
+  }
+
+  // SEO redirects
+  async getActiveSeoRedirect(fromUrl: string): Promise<SeoRedirect | undefined> {
+    try {
+      const [redirect] = await db
+        .select()
+        .from(seoRedirects)
+        .where(and(eq(seoRedirects.fromUrl, fromUrl), eq(seoRedirects.isActive, true)))
+        .limit(1);
+      return redirect;
+    } catch (error) {
+      console.error(`[storage] getActiveSeoRedirect failed for ${fromUrl}:`, error);
+      return undefined;
+    }
+  }
+
+  async recordSeoRedirectHit(id: string): Promise<void> {
+    try {
+      await db.update(seoRedirects).set({ hits: sql`${seoRedirects.hits} + 1` }).where(eq(seoRedirects.id, id));
+    } catch (error) {
+      console.error(`[storage] recordSeoRedirectHit failed for ${id}:`, error);
+    }
+  }
+
   // Supported Languages
   async getSupportedLanguages(): Promise<SupportedLanguage[]> {
     try {
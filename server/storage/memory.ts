@@ -19,11 +19,44 @@ import {
   type InsertPlaylist,
   type PlaylistWithVideos,
   type PlaylistVideo,
+  type WatchHistoryEntry,
+  type ChannelSubscription,
+  type Notification,
+  type WebSubSubscription,
+  type VideoViewSnapshot,
+  type VisitorSession,
+  type PageView,
+  type AnalyticsCustomEvent,
+  type VisitorAnalyticsReport,
+  type InsertWebSubSubscription,
+  type NotificationWithVideo,
+  type WatchHistoryItem,
+  type EngagementSignal,
+  type WatchProgress,
   type SeoSettings,
+  type SeoMetaTag,
+  type SeoAbTest,
+  type SeoAbTestStatus,
+  type SeoAbTestCount,
+  type SeoAbTestVariant,
+  type AiPromptKey,
+  type AiPromptTemplate,
+  type AiPromptTemplateVersion,
+  type SeoRedirect,
+  type TagMerge,
+  type AiUsageEvent,
+  type InsertAiUsageEvent,
+  type AiUsageReport,
+  type AiUsageTotals,
+  type TagMergeProposal,
+  type TagMergeResult,
+  type TagMergeStatus,
+  type InsertTagMergeProposal,
   type ScrapeJob,
   type InsertScrapeJob,
   type SchedulerSettings,
   type SystemSettings,
+  type YouTubeApiQuota,
   type TagImage,
   type InsertTagImage,
   type HeroVideo,
@@ -39,20 +72,76 @@ import {
   type InsertChannelRecommendation,
   type EmailSettings,
   type InsertEmailSettings,
+  type EmailOutboxEntry,
+  type InsertEmailOutboxEntry,
+  type InboxMessage,
+  type InsertInboxMessage,
+  type InboxMessageStatus,
+  type InboxThreadSummary,
   type Tag,
   type SupportedLanguage,
   type InsertSupportedLanguage,
   type UiTranslation,
-  type InsertUiTranslation
+  type InsertUiTranslation,
+  type VideoSearchQuery,
+  type VideoSearchResult,
+  type SearchFacetBucket,
+  type VideoEmbedding,
+  type VideoTranscript,
+  type InsertVideoTranscript,
+  type VideoChapter,
+  type InsertVideoChapter,
+  type ModerationStatus,
+  type ModerationRule,
+  type InsertModerationRule,
+  type RolePermissions,
+  type Permission,
+  type ApiToken,
+  type InsertApiToken,
+  type OidcProvider,
+  type InsertOidcProvider,
+  type UserIdentity,
+  type InsertUserIdentity,
+  type WebhookSubscription,
+  type InsertWebhookSubscription,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
+  type InsertVideoEmbedding,
+  ENGAGED_WATCH_SECONDS,
+  VISITOR_INTERACTION_EVENTS,
 } from "../../shared/schema.js";
 import { IStorage } from "./types.js";
+import { buildRetentionCohorts, startOfWeek } from "./visitor-report.js";
 import { isEligibleShortsVideo } from "../shorts-validation.js";
+import { rankTrending } from "../trending-rank.js";
+import { buildSnippet, highlightText, scoreSearchDocument, tokenizeSearchQuery } from "../search-text.js";
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
 
 export class MemStorage implements IStorage {
   private analyticsEvents: Map<string, AnalyticsEvent> = new Map();
   private users: Map<string, User> = new Map();
   private channels: Map<string, Channel> = new Map();
   private videos: Map<string, Video> = new Map();
+  private videoEmbeddings: Map<string, VideoEmbedding> = new Map();
+  private videoTranscripts: Map<string, VideoTranscript> = new Map();
+  private videoChapters: Map<string, VideoChapter[]> = new Map();
+  private moderationRules: Map<string, ModerationRule> = new Map();
+  private rolePermissions: Map<string, RolePermissions> = new Map();
+  private apiTokens: Map<string, ApiToken> = new Map();
+  private oidcProviders: Map<string, OidcProvider> = new Map();
+  private userIdentities: Map<string, UserIdentity> = new Map();
   private categories: Map<string, Category> = new Map();
   private categoryTranslationsByCategoryId: Map<string, CategoryTranslation[]> =
     new Map();
@@ -62,15 +151,35 @@ export class MemStorage implements IStorage {
   private playlists: Map<string, Playlist> = new Map();
   private playlistVideos: Map<string, PlaylistVideo> = new Map();
   private seoSettings: SeoSettings | undefined;
+  private seoMetaTags: Map<string, SeoMetaTag> = new Map();
+  private seoAbTests: Map<string, SeoAbTest> = new Map();
+  private seoAbTestCounts: Map<string, SeoAbTestCount> = new Map();
   private scrapeJobs: Map<string, ScrapeJob> = new Map();
   private schedulerSettings: SchedulerSettings | undefined;
   private systemSettings: SystemSettings | undefined;
+  private youtubeQuota: Map<string, YouTubeApiQuota> = new Map();
   private tagImages: Map<string, TagImage> = new Map();
   private heroVideos: Map<string, HeroVideo> = new Map();
   private channelRecommendations: Map<string, ChannelRecommendation> = new Map();
   private emailSettings: EmailSettings | undefined;
+  private emailOutbox: Map<string, EmailOutboxEntry> = new Map();
+  private webhookSubscriptions: Map<string, WebhookSubscription> = new Map();
+  private webhookDeliveries: Map<string, WebhookDelivery> = new Map();
+  private inboxMessages: Map<string, InboxMessage> = new Map();
+  private watchHistory: Map<string, WatchHistoryEntry> = new Map();
+  private channelSubscriptions: Map<string, ChannelSubscription> = new Map();
+  private notifications: Map<string, Notification> = new Map();
+  private videoViewSnapshots: Map<string, VideoViewSnapshot> = new Map();
+  private visitorSessions: Map<string, VisitorSession> = new Map();
+  private pageViews: PageView[] = [];
+  private analyticsCustomEvents: AnalyticsCustomEvent[] = [];
+  private websubSubscriptions: Map<string, WebSubSubscription> = new Map();
   private supportedLanguages: Map<string, SupportedLanguage> = new Map();
   private uiTranslations: Map<string, UiTranslation> = new Map();
+  private promptTemplates: Map<string, AiPromptTemplate> = new Map();
+  private tagMergeProposals: Map<string, TagMergeProposal> = new Map();
+  private seoRedirects: Map<string, SeoRedirect> = new Map();
+  private aiUsageEvents: AiUsageEvent[] = [];
 
   constructor() {
     const now = new Date();
@@ -143,6 +252,8 @@ export class MemStorage implements IStorage {
         bannerUrl: null,
         videoCount: 1,
         platform: "youtube",
+        ingestionMode: "api",
+        trustLevel: "standard",
         lastScraped: now,
         createdAt: now
     });
@@ -165,6 +276,20 @@ export class MemStorage implements IStorage {
         publishDate: now.toISOString(),
         videoType: "regular",
         embedUrl: null,
+        metadataRefreshedAt: null,
+        nextRefreshAt: null,
+        trendingScore: 0,
+        hiddenAt: null,
+        hiddenReason: null,
+        availability: "available",
+        availabilityCheckedAt: null,
+        availabilityReviewedAt: null,
+        categorizationPromptId: null,
+        transcriptCheckedAt: null,
+        chaptersCheckedAt: null,
+        moderationStatus: "approved",
+        moderationReason: null,
+        moderatedAt: null,
         createdAt: now
     });
 
@@ -197,6 +322,13 @@ export class MemStorage implements IStorage {
         id,
         role: user.role || "user",
         email: user.email || null,
+        emailVerifiedAt: user.emailVerifiedAt || null,
+        totpSecret: user.totpSecret || null,
+        totpEnabledAt: user.totpEnabledAt || null,
+        totpLastStep: user.totpLastStep ?? null,
+        recoveryCodes: user.recoveryCodes || [],
+        sessionsRevokedAt: user.sessionsRevokedAt || null,
+        passwordSet: user.passwordSet ?? true,
         createdAt: new Date()
     };
     this.users.set(id, newUser);
@@ -211,10 +343,37 @@ export class MemStorage implements IStorage {
     return Array.from(this.users.values()).find(u => u.username === username);
   }
 
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const wanted = email.toLowerCase();
+    return Array.from(this.users.values()).find(u => u.email?.toLowerCase() === wanted);
+  }
+
   async getAllUsers(): Promise<User[]> {
     return Array.from(this.users.values());
   }
 
+  async updateUser(id: string, data: Partial<Omit<User, "id" | "username" | "createdAt">>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+    const updated = { ...user, ...data };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  async consumeTotpStep(id: string, step: number): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user || (user.totpLastStep !== null && user.totpLastStep >= step)) return false;
+    this.users.set(id, { ...user, totpLastStep: step });
+    return true;
+  }
+
+  async consumeRecoveryCode(id: string, hash: string): Promise<boolean> {
+    const user = this.users.get(id);
+    if (!user || !user.recoveryCodes.includes(hash)) return false;
+    this.users.set(id, { ...user, recoveryCodes: user.recoveryCodes.filter((h) => h !== hash) });
+    return true;
+  }
+
   async updateUserRole(id: string, role: string): Promise<User | undefined> {
     const user = this.users.get(id);
     if (!user) return undefined;
@@ -225,6 +384,122 @@ export class MemStorage implements IStorage {
 
   async deleteUser(id: string): Promise<void> {
     this.users.delete(id);
+    for (const identity of Array.from(this.userIdentities.values())) {
+      if (identity.userId === id) this.userIdentities.delete(identity.id);
+    }
+  }
+
+  async getRolePermissions(): Promise<RolePermissions[]> {
+    return Array.from(this.rolePermissions.values());
+  }
+
+  async setRolePermissions(role: string, permissions: Permission[]): Promise<RolePermissions> {
+    const saved: RolePermissions = { role, permissions, updatedAt: new Date() };
+    this.rolePermissions.set(role, saved);
+    return saved;
+  }
+
+  async createApiToken(token: InsertApiToken): Promise<ApiToken> {
+    const created: ApiToken = {
+      ...token,
+      id: Math.random().toString(36).substr(2, 9),
+      lastUsedAt: null,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.apiTokens.set(created.id, created);
+    return created;
+  }
+
+  async getApiTokensByUser(userId: string): Promise<ApiToken[]> {
+    return Array.from(this.apiTokens.values())
+      .filter((token) => token.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined> {
+    return Array.from(this.apiTokens.values()).find((token) => token.tokenHash === tokenHash);
+  }
+
+  async updateApiToken(
+    id: string,
+    data: Partial<Pick<ApiToken, "name" | "lastUsedAt" | "revokedAt">>,
+  ): Promise<ApiToken | undefined> {
+    const token = this.apiTokens.get(id);
+    if (!token) return undefined;
+    const updated = { ...token, ...data };
+    this.apiTokens.set(id, updated);
+    return updated;
+  }
+
+  async getOidcProviders(): Promise<OidcProvider[]> {
+    return Array.from(this.oidcProviders.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getOidcProvider(id: string): Promise<OidcProvider | undefined> {
+    return this.oidcProviders.get(id);
+  }
+
+  async getOidcProviderBySlug(slug: string): Promise<OidcProvider | undefined> {
+    return Array.from(this.oidcProviders.values()).find((provider) => provider.slug === slug);
+  }
+
+  async createOidcProvider(provider: InsertOidcProvider): Promise<OidcProvider> {
+    const now = new Date();
+    const created: OidcProvider = { ...provider, id: Math.random().toString(36).substr(2, 9), createdAt: now, updatedAt: now };
+    this.oidcProviders.set(created.id, created);
+    return created;
+  }
+
+  async updateOidcProvider(id: string, data: Partial<InsertOidcProvider>): Promise<OidcProvider | undefined> {
+    const provider = this.oidcProviders.get(id);
+    if (!provider) return undefined;
+    const updated = { ...provider, ...data, updatedAt: new Date() };
+    this.oidcProviders.set(id, updated);
+    return updated;
+  }
+
+  async deleteOidcProvider(id: string): Promise<void> {
+    this.oidcProviders.delete(id);
+    for (const identity of Array.from(this.userIdentities.values())) {
+      if (identity.providerId === id) this.userIdentities.delete(identity.id);
+    }
+  }
+
+  async getUserIdentity(providerId: string, subject: string): Promise<UserIdentity | undefined> {
+    return Array.from(this.userIdentities.values()).find(
+      (identity) => identity.providerId === providerId && identity.subject === subject,
+    );
+  }
+
+  async getUserIdentitiesByUser(userId: string): Promise<UserIdentity[]> {
+    return Array.from(this.userIdentities.values())
+      .filter((identity) => identity.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity> {
+    if (await this.getUserIdentity(identity.providerId, identity.subject)) {
+      throw new Error("Identity is already linked");
+    }
+    const created: UserIdentity = { ...identity, id: Math.random().toString(36).substr(2, 9), createdAt: new Date() };
+    this.userIdentities.set(created.id, created);
+    return created;
+  }
+
+  async updateUserIdentity(
+    id: string,
+    data: Partial<Pick<UserIdentity, "email" | "lastLoginAt">>,
+  ): Promise<UserIdentity | undefined> {
+    const identity = this.userIdentities.get(id);
+    if (!identity) return undefined;
+    const updated = { ...identity, ...data };
+    this.userIdentities.set(id, updated);
+    return updated;
+  }
+
+  async deleteUserIdentity(id: string): Promise<void> {
+    this.userIdentities.delete(id);
   }
 
   // Channels
@@ -238,7 +513,9 @@ export class MemStorage implements IStorage {
         createdAt: new Date(),
         channelId: channel.channelId || null,
         thumbnailUrl: channel.thumbnailUrl || null,
-        bannerUrl: channel.bannerUrl || null
+        bannerUrl: channel.bannerUrl || null,
+        ingestionMode: channel.ingestionMode || "api",
+        trustLevel: channel.trustLevel || "standard"
     };
     this.channels.set(id, newChannel);
     return newChannel;
@@ -349,6 +626,13 @@ export class MemStorage implements IStorage {
         imapPassword: (data as any).imapPassword || null,
         imapSecure: (data as any).imapSecure ?? 1,
         imapMailbox: (data as any).imapMailbox || null,
+        notificationRecipients: data.notificationRecipients || null,
+        notificationLocale: data.notificationLocale || "en",
+        errorAlertThreshold: data.errorAlertThreshold ?? 25,
+        imapLastUid: 0,
+        imapUidValidity: null,
+        imapLastPolledAt: null,
+        imapLastError: null,
         updatedAt: new Date(),
       };
       return this.emailSettings;
@@ -362,6 +646,234 @@ export class MemStorage implements IStorage {
     return this.emailSettings!;
   }
 
+  // Email Outbox
+  async enqueueEmail(entry: InsertEmailOutboxEntry): Promise<EmailOutboxEntry> {
+    const id = Math.random().toString(36).substr(2, 9);
+    const created: EmailOutboxEntry = {
+      id,
+      template: entry.template,
+      locale: entry.locale || "en",
+      toAddress: entry.toAddress,
+      subject: entry.subject,
+      textBody: entry.textBody,
+      htmlBody: entry.htmlBody,
+      status: "pending",
+      attempts: 0,
+      maxAttempts: entry.maxAttempts ?? 6,
+      nextAttemptAt: entry.nextAttemptAt || new Date(),
+      lastError: null,
+      sentAt: null,
+      createdAt: new Date(),
+    };
+    this.emailOutbox.set(id, created);
+    return created;
+  }
+
+  async claimDueEmails(limit: number): Promise<EmailOutboxEntry[]> {
+    const now = new Date();
+    const staleBefore = now.getTime() - 10 * 60 * 1000;
+    const due = Array.from(this.emailOutbox.values())
+      .filter((e) =>
+        (e.status === "pending" && e.nextAttemptAt.getTime() <= now.getTime()) ||
+        (e.status === "sending" && e.nextAttemptAt.getTime() <= staleBefore),
+      )
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+    return due.map((e) => {
+      const claimed = { ...e, status: "sending", nextAttemptAt: now };
+      this.emailOutbox.set(e.id, claimed);
+      return claimed;
+    });
+  }
+
+  async updateEmailOutboxEntry(id: string, data: Partial<EmailOutboxEntry>): Promise<EmailOutboxEntry | undefined> {
+    const existing = this.emailOutbox.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...data };
+    this.emailOutbox.set(id, updated);
+    return updated;
+  }
+
+  async getEmailOutbox(filters?: { status?: string; limit?: number }): Promise<EmailOutboxEntry[]> {
+    return Array.from(this.emailOutbox.values())
+      .filter((e) => !filters?.status || e.status === filters.status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, filters?.limit ?? 50);
+  }
+
+  // Webhooks
+  async getWebhookSubscriptions(): Promise<WebhookSubscription[]> {
+    return Array.from(this.webhookSubscriptions.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getWebhookSubscription(id: string): Promise<WebhookSubscription | undefined> {
+    return this.webhookSubscriptions.get(id);
+  }
+
+  async createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription> {
+    const now = new Date();
+    const created: WebhookSubscription = {
+      ...subscription,
+      id: Math.random().toString(36).substr(2, 9),
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.webhookSubscriptions.set(created.id, created);
+    return created;
+  }
+
+  async updateWebhookSubscription(
+    id: string,
+    data: Partial<InsertWebhookSubscription>,
+  ): Promise<WebhookSubscription | undefined> {
+    const existing = this.webhookSubscriptions.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...data, updatedAt: new Date() };
+    this.webhookSubscriptions.set(id, updated);
+    return updated;
+  }
+
+  async deleteWebhookSubscription(id: string): Promise<void> {
+    this.webhookSubscriptions.delete(id);
+    for (const [deliveryId, delivery] of Array.from(this.webhookDeliveries.entries())) {
+      if (delivery.subscriptionId === id) this.webhookDeliveries.delete(deliveryId);
+    }
+  }
+
+  async enqueueWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const id = Math.random().toString(36).substr(2, 9);
+    const created: WebhookDelivery = {
+      ...delivery,
+      id,
+      status: "pending",
+      attempts: 0,
+      maxAttempts: 8,
+      nextAttemptAt: new Date(),
+      lastStatusCode: null,
+      lastError: null,
+      deliveredAt: null,
+      createdAt: new Date(),
+    };
+    this.webhookDeliveries.set(id, created);
+    return created;
+  }
+
+  async claimDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]> {
+    const now = new Date();
+    const staleBefore = now.getTime() - 10 * 60 * 1000;
+    const due = Array.from(this.webhookDeliveries.values())
+      .filter((d) =>
+        (d.status === "pending" && d.nextAttemptAt.getTime() <= now.getTime()) ||
+        (d.status === "sending" && d.nextAttemptAt.getTime() <= staleBefore),
+      )
+      .sort((a, b) => a.nextAttemptAt.getTime() - b.nextAttemptAt.getTime())
+      .slice(0, limit);
+    return due.map((d) => {
+      const claimed = { ...d, status: "sending", nextAttemptAt: now };
+      this.webhookDeliveries.set(d.id, claimed);
+      return claimed;
+    });
+  }
+
+  async getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined> {
+    return this.webhookDeliveries.get(id);
+  }
+
+  async updateWebhookDelivery(id: string, data: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined> {
+    const existing = this.webhookDeliveries.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...data };
+    this.webhookDeliveries.set(id, updated);
+    return updated;
+  }
+
+  async getWebhookDeliveries(
+    filters?: { subscriptionId?: string; status?: string; event?: string; limit?: number },
+  ): Promise<WebhookDelivery[]> {
+    return Array.from(this.webhookDeliveries.values())
+      .filter((d) => !filters?.subscriptionId || d.subscriptionId === filters.subscriptionId)
+      .filter((d) => !filters?.status || d.status === filters.status)
+      .filter((d) => !filters?.event || d.event === filters.event)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, filters?.limit ?? 50);
+  }
+
+  // IMAP Inbox
+  async updateImapSyncState(
+    state: Partial<Pick<EmailSettings, "imapLastUid" | "imapUidValidity" | "imapLastPolledAt" | "imapLastError">>,
+  ): Promise<void> {
+    if (!this.emailSettings) return;
+    this.emailSettings = { ...this.emailSettings, ...state };
+  }
+
+  async createInboxMessage(message: InsertInboxMessage): Promise<InboxMessage | undefined> {
+    const duplicate = Array.from(this.inboxMessages.values()).some((m) => m.messageId === message.messageId);
+    if (duplicate) return undefined;
+
+    const id = Math.random().toString(36).substr(2, 9);
+    const created: InboxMessage = {
+      id,
+      messageId: message.messageId,
+      threadId: message.threadId,
+      threadSubject: message.threadSubject || "",
+      inReplyTo: message.inReplyTo || null,
+      references: message.references || null,
+      fromAddress: message.fromAddress,
+      fromName: message.fromName || null,
+      toAddress: message.toAddress || null,
+      subject: message.subject || "",
+      textBody: message.textBody || "",
+      status: message.status || "unread",
+      mailbox: message.mailbox || null,
+      imapUid: message.imapUid ?? null,
+      detectedUrls: message.detectedUrls || [],
+      receivedAt: message.receivedAt || new Date(),
+      createdAt: new Date(),
+    };
+    this.inboxMessages.set(id, created);
+    return created;
+  }
+
+  async getInboxMessagesByMessageIds(messageIds: string[]): Promise<InboxMessage[]> {
+    const wanted = new Set(messageIds);
+    return Array.from(this.inboxMessages.values()).filter((m) => wanted.has(m.messageId));
+  }
+
+  async findInboxThreadBySubject(threadSubject: string, since: Date): Promise<string | undefined> {
+    const match = Array.from(this.inboxMessages.values())
+      .filter((m) => m.threadSubject === threadSubject && m.receivedAt.getTime() >= since.getTime())
+      .sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime())[0];
+    return match?.threadId;
+  }
+
+  async getInboxThreads(filters?: { status?: InboxMessageStatus; limit?: number }): Promise<InboxThreadSummary[]> {
+    const threads = new Map<string, InboxMessage[]>();
+    for (const m of Array.from(this.inboxMessages.values())) {
+      threads.set(m.threadId, [...(threads.get(m.threadId) || []), m]);
+    }
+    return Array.from(threads.entries())
+      .map(([threadId, messages]) => summarizeInboxThread(threadId, messages))
+      .filter((t) => matchesInboxStatus(t, filters?.status))
+      .sort((a, b) => b.lastReceivedAt.getTime() - a.lastReceivedAt.getTime())
+      .slice(0, filters?.limit ?? 50);
+  }
+
+  async getInboxThreadMessages(threadId: string): Promise<InboxMessage[]> {
+    return Array.from(this.inboxMessages.values())
+      .filter((m) => m.threadId === threadId)
+      .sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+  }
+
+  async updateInboxThreadStatus(threadId: string, status: InboxMessageStatus): Promise<number> {
+    let updated = 0;
+    for (const m of Array.from(this.inboxMessages.values())) {
+      if (m.threadId !== threadId) continue;
+      this.inboxMessages.set(m.id, { ...m, status });
+      updated++;
+    }
+    return updated;
+  }
+
   // Videos
   async createVideo(video: InsertVideo): Promise<Video> {
     const id = Math.random().toString(36).substr(2, 9);
@@ -377,6 +889,20 @@ export class MemStorage implements IStorage {
         publishDate: video.publishDate || null,
         videoType: video.videoType || "regular",
         embedUrl: video.embedUrl || null,
+        metadataRefreshedAt: video.metadataRefreshedAt || null,
+        nextRefreshAt: video.nextRefreshAt || null,
+        trendingScore: video.trendingScore ?? 0,
+        hiddenAt: video.hiddenAt || null,
+        hiddenReason: video.hiddenReason || null,
+        availability: video.availability || "available",
+        availabilityCheckedAt: video.availabilityCheckedAt || null,
+        availabilityReviewedAt: video.availabilityReviewedAt || null,
+        categorizationPromptId: video.categorizationPromptId || null,
+        transcriptCheckedAt: video.transcriptCheckedAt || null,
+        chaptersCheckedAt: video.chaptersCheckedAt || null,
+        moderationStatus: video.moderationStatus || "approved",
+        moderationReason: video.moderationReason || null,
+        moderatedAt: video.moderatedAt || null,
         createdAt: new Date()
     };
     this.videos.set(id, newVideo);
@@ -419,6 +945,11 @@ export class MemStorage implements IStorage {
     return this.getVideoWithRelations(video.id, lang);
   }
 
+  async getVideosWithRelationsByIds(ids: string[], lang: string = 'en'): Promise<VideoWithLocalizedRelations[]> {
+    const hydrated = await Promise.all(ids.map((id) => this.getVideoWithRelations(id, lang)));
+    return hydrated.filter((video): video is VideoWithLocalizedRelations => !!video);
+  }
+
   async getAllVideos(filters?: {
     channelId?: string;
     categoryId?: string;
@@ -427,21 +958,26 @@ export class MemStorage implements IStorage {
     lang?: string;
     limit?: number;
     offset?: number;
-    sort?: "publishDate" | "createdAt" | "views" | "popularity";
+    sort?: "publishDate" | "createdAt" | "views" | "popularity" | "relevance";
     minViews?: number;
+    includeHidden?: boolean;
   }): Promise<VideoWithLocalizedRelations[]> {
     let videos = Array.from(this.videos.values());
+    if (!filters?.includeHidden) {
+        videos = videos.filter(v => !v.hiddenAt);
+    }
     const lang = filters?.lang || 'en';
+    const searchScores = new Map<string, number>();
     
     if (filters?.channelId) {
         videos = videos.filter(v => v.channelId === filters.channelId);
     }
     if (filters?.search) {
-        const search = filters.search.toLowerCase();
-        videos = videos.filter(v => 
-            v.title.toLowerCase().includes(search) || 
-            (v.description && v.description.toLowerCase().includes(search))
-        );
+        for (const v of videos) {
+            const score = this.scoreVideoForSearch(v, filters.search);
+            if (score > 0) searchScores.set(v.id, score);
+        }
+        videos = videos.filter(v => searchScores.has(v.id));
     }
     if (filters?.categoryId) {
         const videoIdsWithCategory = Array.from(this.videoCategories.values())
@@ -473,6 +1009,9 @@ export class MemStorage implements IStorage {
         };
         return getScore(b) - getScore(a);
       }
+      if (sort === "relevance" && searchScores.size > 0) {
+        return (searchScores.get(b.id) || 0) - (searchScores.get(a.id) || 0);
+      }
       return new Date(b.publishDate || 0).getTime() - new Date(a.publishDate || 0).getTime();
     });
 
@@ -486,6 +1025,106 @@ export class MemStorage implements IStorage {
     return Promise.all(videos.map(v => this.getVideoWithRelations(v.id, lang) as Promise<VideoWithLocalizedRelations>));
   }
 
+  private scoreVideoForSearch(video: Video, query: string): number {
+    const tagNames = Array.from(this.tags.values())
+      .filter((t) => t.videoId === video.id)
+      .flatMap((t) => (this.tagTranslationsByTagId.get(t.id) || []).map((tr) => tr.tagName));
+    const categoryNames = Array.from(this.videoCategories.values())
+      .filter((vc) => vc.videoId === video.id)
+      .flatMap((vc) => (this.categoryTranslationsByCategoryId.get(vc.categoryId) || []).map((tr) => tr.name));
+
+    return scoreSearchDocument(
+      {
+        title: video.title,
+        tags: tagNames,
+        channel: this.channels.get(video.channelId)?.name || "",
+        categories: categoryNames,
+        description: video.description,
+      },
+      query,
+    );
+  }
+
+  async searchVideos(query: VideoSearchQuery): Promise<VideoSearchResult> {
+    const tokens = tokenizeSearchQuery(query.q);
+    const matches = Array.from(this.videos.values())
+      .map((video) => ({ video, score: this.scoreVideoForSearch(video, query.q) }))
+      .filter((m) => m.score > 0 && !m.video.hiddenAt && this.channels.has(m.video.channelId));
+
+    type FacetKey = "platform" | "videoType" | "categoryId" | "channelId";
+    const categoryIdsOf = (videoId: string) =>
+      Array.from(this.videoCategories.values())
+        .filter((vc) => vc.videoId === videoId)
+        .map((vc) => vc.categoryId);
+    const passes = (video: Video, exclude?: FacetKey) =>
+      (!query.platform || exclude === "platform" || this.channels.get(video.channelId)?.platform === query.platform) &&
+      (!query.videoType || exclude === "videoType" || video.videoType === query.videoType) &&
+      (!query.channelId || exclude === "channelId" || video.channelId === query.channelId) &&
+      (!query.categoryId || exclude === "categoryId" || categoryIdsOf(video.id).includes(query.categoryId));
+
+    const countBy = (exclude: FacetKey, keysOf: (video: Video) => { value: string; label: string }[]) => {
+      const buckets = new Map<string, SearchFacetBucket>();
+      for (const { video } of matches) {
+        if (!passes(video, exclude)) continue;
+        for (const key of keysOf(video)) {
+          const bucket = buckets.get(key.value) || { ...key, count: 0 };
+          bucket.count++;
+          buckets.set(key.value, bucket);
+        }
+      }
+      return Array.from(buckets.values()).sort((a, b) => b.count - a.count).slice(0, 20);
+    };
+
+    const filtered = matches.filter((m) => passes(m.video));
+    filtered.sort((a, b) => {
+      if (query.sort === "publishDate") {
+        return new Date(b.video.publishDate || 0).getTime() - new Date(a.video.publishDate || 0).getTime();
+      }
+      if (query.sort === "views") {
+        const views = (v: Video) => parseInt(v.viewCount?.replace(/[^0-9]/g, '') || '0', 10);
+        return views(b.video) - views(a.video);
+      }
+      return b.score - a.score;
+    });
+
+    const page = filtered.slice(query.offset, query.offset + query.limit);
+    const items = await Promise.all(
+      page.map(async ({ video, score }) => {
+        const hydrated = (await this.getVideoWithRelations(video.id, query.lang))!;
+        return {
+          video: hydrated,
+          score,
+          highlights: {
+            title: highlightText(video.title, tokens),
+            snippet: buildSnippet(video.description, tokens),
+          },
+        };
+      }),
+    );
+
+    return {
+      items,
+      total: filtered.length,
+      facets: {
+        platform: countBy("platform", (v) => {
+          const platform = this.channels.get(v.channelId)?.platform || "youtube";
+          return [{ value: platform, label: platform }];
+        }),
+        videoType: countBy("videoType", (v) => [{ value: v.videoType, label: v.videoType }]),
+        category: countBy("categoryId", (v) =>
+          categoryIdsOf(v.id).map((id) => {
+            const translations = this.categoryTranslationsByCategoryId.get(id) || [];
+            const name = (translations.find((t) => t.languageCode === query.lang) || translations[0])?.name || id;
+            return { value: id, label: name };
+          }),
+        ),
+        channel: countBy("channelId", (v) => [
+          { value: v.channelId, label: this.channels.get(v.channelId)?.name || v.channelId },
+        ]),
+      },
+    };
+  }
+
   async updateVideo(id: string, data: Partial<Video>): Promise<Video | undefined> {
     const video = this.videos.get(id);
     if (!video) return undefined;
@@ -512,6 +1151,353 @@ export class MemStorage implements IStorage {
     return Array.from(this.videos.values()).filter(v => v.channelId === channelId).length;
   }
 
+  async getVideosDueForRefresh(videoTypes: readonly string[], limit: number, now: Date = new Date()): Promise<Video[]> {
+    const priority = (v: Video) =>
+      Math.log(parseInt(v.viewCount?.replace(/[^0-9]/g, '') || '0', 10) + 10) -
+      (now.getTime() - new Date(v.createdAt).getTime()) / (7 * 24 * 60 * 60 * 1000);
+    return Array.from(this.videos.values())
+      .filter(v => !v.hiddenAt && videoTypes.includes(v.videoType) && (!v.nextRefreshAt || v.nextRefreshAt <= now))
+      .sort((a, b) => priority(b) - priority(a))
+      .slice(0, limit);
+  }
+
+  async getVideosDueForAvailabilityCheck(videoTypes: readonly string[], limit: number, checkedBefore: Date): Promise<Video[]> {
+    return Array.from(this.videos.values())
+      .filter(v => videoTypes.includes(v.videoType) && (!v.availabilityCheckedAt || v.availabilityCheckedAt < checkedBefore))
+      .sort((a, b) => (a.availabilityCheckedAt?.getTime() ?? 0) - (b.availabilityCheckedAt?.getTime() ?? 0))
+      .slice(0, limit);
+  }
+
+  async getHiddenVideos(): Promise<Video[]> {
+    return Array.from(this.videos.values())
+      .filter(v => v.hiddenAt)
+      .sort((a, b) => b.hiddenAt!.getTime() - a.hiddenAt!.getTime());
+  }
+
+  async getVideoPage(options: {
+    channelId?: string;
+    categoryId?: string;
+    after?: { createdAt: Date; id: string };
+    limit: number;
+  }): Promise<Video[]> {
+    const inCategory = options.categoryId
+      ? new Set(
+          Array.from(this.videoCategories.values())
+            .filter((vc) => vc.categoryId === options.categoryId)
+            .map((vc) => vc.videoId),
+        )
+      : undefined;
+    const newerFirst = (a: Pick<Video, "createdAt" | "id">, b: Pick<Video, "createdAt" | "id">) =>
+      b.createdAt.getTime() - a.createdAt.getTime() || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+    return Array.from(this.videos.values())
+      .filter((v) => !v.hiddenAt)
+      .filter((v) => !options.channelId || v.channelId === options.channelId)
+      .filter((v) => !inCategory || inCategory.has(v.id))
+      .filter((v) => !options.after || newerFirst(options.after, v) < 0)
+      .sort(newerFirst)
+      .slice(0, options.limit);
+  }
+
+  async getVideoIdsForEmbedding(
+    model: string,
+    options: { missingOnly: boolean; afterId?: string; limit: number },
+  ): Promise<string[]> {
+    return Array.from(this.videos.values())
+      .filter((v) => !v.hiddenAt && (!options.afterId || v.id > options.afterId))
+      .filter((v) => !options.missingOnly || this.videoEmbeddings.get(v.id)?.model !== model)
+      .map((v) => v.id)
+      .sort()
+      .slice(0, options.limit);
+  }
+
+  async getVideoEmbeddings(videoIds: string[]): Promise<VideoEmbedding[]> {
+    return videoIds.map((id) => this.videoEmbeddings.get(id)).filter((e): e is VideoEmbedding => !!e);
+  }
+
+  async upsertVideoEmbedding(embedding: InsertVideoEmbedding): Promise<void> {
+    this.videoEmbeddings.set(embedding.videoId, { ...embedding, updatedAt: new Date() });
+  }
+
+  // Brute force over every stored vector; fine for the in-memory data set
+  async findNearestVideoEmbeddings(
+    embedding: number[],
+    model: string,
+    options: { limit: number; excludeIds?: string[] },
+  ): Promise<{ videoId: string; similarity: number }[]> {
+    const excluded = new Set(options.excludeIds || []);
+    return Array.from(this.videoEmbeddings.values())
+      .filter((e) => e.model === model && !excluded.has(e.videoId))
+      .filter((e) => {
+        const video = this.videos.get(e.videoId);
+        return video && !video.hiddenAt;
+      })
+      .map((e) => ({ videoId: e.videoId, similarity: cosineSimilarity(embedding, e.embedding) }))
+      .sort((a, b) => b.similarity - a.similarity)
+      .slice(0, options.limit);
+  }
+
+  async getVideoEmbeddingStats(model: string): Promise<{ embedded: number; total: number }> {
+    const visible = Array.from(this.videos.values()).filter((v) => !v.hiddenAt);
+    return {
+      embedded: visible.filter((v) => this.videoEmbeddings.get(v.id)?.model === model).length,
+      total: visible.length,
+    };
+  }
+
+  async getVideosDueForTranscripts(videoTypes: readonly string[], limit: number): Promise<Video[]> {
+    return Array.from(this.videos.values())
+      .filter((v) => videoTypes.includes(v.videoType) && !v.transcriptCheckedAt && !v.hiddenAt)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getVideoTranscripts(videoId: string): Promise<VideoTranscript[]> {
+    return Array.from(this.videoTranscripts.values())
+      .filter((transcript) => transcript.videoId === videoId)
+      .sort((a, b) => a.languageCode.localeCompare(b.languageCode));
+  }
+
+  async upsertVideoTranscript(transcript: InsertVideoTranscript): Promise<VideoTranscript> {
+    const key = `${transcript.videoId}:${transcript.languageCode}`;
+    const existing = this.videoTranscripts.get(key);
+    const now = new Date();
+    const saved: VideoTranscript = {
+      ...transcript,
+      id: existing?.id ?? Math.random().toString(36).substr(2, 9),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    this.videoTranscripts.set(key, saved);
+    return saved;
+  }
+
+  async getVideosDueForChapters(limit: number): Promise<Video[]> {
+    return Array.from(this.videos.values())
+      .filter(
+        (v) =>
+          !v.hiddenAt &&
+          (!v.chaptersCheckedAt ||
+            (!!v.transcriptCheckedAt && v.chaptersCheckedAt.getTime() < v.transcriptCheckedAt.getTime())),
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getVideoChapters(videoId: string): Promise<VideoChapter[]> {
+    return [...(this.videoChapters.get(videoId) ?? [])];
+  }
+
+  async replaceVideoChapters(videoId: string, chapters: InsertVideoChapter[]): Promise<VideoChapter[]> {
+    const now = new Date();
+    const saved = chapters
+      .map((chapter) => ({ ...chapter, videoId, id: Math.random().toString(36).substr(2, 9), createdAt: now }))
+      .sort((a, b) => a.startSeconds - b.startSeconds);
+    this.videoChapters.set(videoId, saved);
+    return [...saved];
+  }
+
+  async getVideosByModerationStatus(status: ModerationStatus, limit: number): Promise<Video[]> {
+    return Array.from(this.videos.values())
+      .filter((v) => v.moderationStatus === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getModerationCounts(): Promise<Record<ModerationStatus, number>> {
+    const counts: Record<ModerationStatus, number> = { approved: 0, pending_review: 0, rejected: 0 };
+    for (const video of Array.from(this.videos.values())) {
+      counts[video.moderationStatus as ModerationStatus]++;
+    }
+    return counts;
+  }
+
+  async getVideosAwaitingModeration(limit: number): Promise<Video[]> {
+    return Array.from(this.videos.values())
+      .filter((v) => v.moderationStatus === "pending_review" && !v.moderatedAt)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getModerationRules(): Promise<ModerationRule[]> {
+    return Array.from(this.moderationRules.values()).sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async createModerationRule(rule: InsertModerationRule): Promise<ModerationRule> {
+    const created: ModerationRule = { ...rule, id: Math.random().toString(36).substr(2, 9), createdAt: new Date() };
+    this.moderationRules.set(created.id, created);
+    return created;
+  }
+
+  async updateModerationRule(id: string, data: Partial<InsertModerationRule>): Promise<ModerationRule | undefined> {
+    const rule = this.moderationRules.get(id);
+    if (!rule) return undefined;
+    const updated = { ...rule, ...data };
+    this.moderationRules.set(id, updated);
+    return updated;
+  }
+
+  async deleteModerationRule(id: string): Promise<void> {
+    this.moderationRules.delete(id);
+  }
+
+  async getVisitorSession(id: string): Promise<VisitorSession | undefined> {
+    return this.visitorSessions.get(id);
+  }
+
+  async createVisitorSession(session: Partial<VisitorSession> & Pick<VisitorSession, "id" | "visitorId">): Promise<VisitorSession> {
+    const now = new Date();
+    const created: VisitorSession = {
+      ipHash: null,
+      userAgent: null,
+      browser: null,
+      os: null,
+      device: null,
+      country: null,
+      city: null,
+      referrer: null,
+      utmSource: null,
+      utmMedium: null,
+      utmCampaign: null,
+      startedAt: now,
+      endedAt: now,
+      durationSeconds: 0,
+      isBounce: true,
+      consentGranted: false,
+      landingPath: null,
+      pageViewCount: 0,
+      ...session,
+    };
+    this.visitorSessions.set(created.id, created);
+    return created;
+  }
+
+  async updateVisitorSession(id: string, data: Partial<VisitorSession>): Promise<VisitorSession | undefined> {
+    const session = this.visitorSessions.get(id);
+    if (!session) return undefined;
+    const updated = { ...session, ...data };
+    this.visitorSessions.set(id, updated);
+    return updated;
+  }
+
+  async recordPageView(view: Pick<PageView, "sessionId" | "visitorId" | "path" | "title" | "timestamp">): Promise<PageView> {
+    const created: PageView = { id: Math.random().toString(36).substr(2, 9), durationSeconds: 0, ...view };
+    this.pageViews.push(created);
+    return created;
+  }
+
+  async setPageViewDuration(sessionId: string, path: string, durationSeconds: number): Promise<void> {
+    const latest = this.pageViews
+      .filter(v => v.sessionId === sessionId && v.path === path)
+      .sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime())[0];
+    if (latest) latest.durationSeconds = durationSeconds;
+  }
+
+  async recordAnalyticsCustomEvent(
+    event: Pick<AnalyticsCustomEvent, "sessionId" | "visitorId" | "eventName" | "properties" | "timestamp">,
+  ): Promise<AnalyticsCustomEvent> {
+    const created: AnalyticsCustomEvent = { id: Math.random().toString(36).substr(2, 9), ...event };
+    this.analyticsCustomEvents.push(created);
+    return created;
+  }
+
+  async getVisitorAnalyticsReport(since: Date, until: Date): Promise<VisitorAnalyticsReport> {
+    const sessions = Array.from(this.visitorSessions.values()).filter(s => s.startedAt >= since && s.startedAt < until);
+    const views = this.pageViews.filter(v => v.timestamp >= since && v.timestamp < until);
+    const average = (values: number[]) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+    const countBy = <K extends string>(key: K, pick: (s: VisitorSession) => string) => {
+      const counts = new Map<string, number>();
+      for (const s of sessions) counts.set(pick(s), (counts.get(pick(s)) || 0) + 1);
+      return Array.from(counts.entries())
+        .map(([value, count]) => ({ [key]: value, sessions: count }) as { [P in K]: string } & { sessions: number })
+        .sort((a, b) => b.sessions - a.sessions);
+    };
+
+    const daily = new Map<string, { day: string; sessions: number; pageViews: number }>();
+    for (const s of sessions) {
+      const day = s.startedAt.toISOString().slice(0, 10);
+      const entry = daily.get(day) ?? { day, sessions: 0, pageViews: 0 };
+      entry.sessions++;
+      entry.pageViews += s.pageViewCount;
+      daily.set(day, entry);
+    }
+
+    const paths = new Map<string, number[]>();
+    for (const v of views) paths.set(v.path, [...(paths.get(v.path) || []), v.durationSeconds ?? 0]);
+
+    const sessionViews = (s: VisitorSession) => this.pageViews.filter(v => v.sessionId === s.id && v.path.includes("/video/"));
+    const interactions = new Set<string>(VISITOR_INTERACTION_EVENTS);
+
+    const firstVisits = new Map<string, Date>();
+    for (const s of this.visitorSessions.values()) {
+      if (!s.consentGranted) continue;
+      const first = firstVisits.get(s.visitorId);
+      if (!first || s.startedAt < first) firstVisits.set(s.visitorId, s.startedAt);
+    }
+    const active = new Map<string, { cohort: string; week: number; visitors: Set<string> }>();
+    for (const s of this.visitorSessions.values()) {
+      const first = firstVisits.get(s.visitorId);
+      if (!s.consentGranted || !first || first < since || first >= until || s.startedAt >= until) continue;
+      const cohortStart = startOfWeek(first);
+      const week = Math.floor((s.startedAt.getTime() - cohortStart.getTime()) / (7 * 24 * 60 * 60 * 1000));
+      const key = `${cohortStart.toISOString()}:${week}`;
+      const entry = active.get(key) ?? { cohort: cohortStart.toISOString().slice(0, 10), week, visitors: new Set<string>() };
+      entry.visitors.add(s.visitorId);
+      active.set(key, entry);
+    }
+
+    return {
+      since: since.toISOString(),
+      until: until.toISOString(),
+      totals: {
+        sessions: sessions.length,
+        visitors: new Set(sessions.map(s => s.visitorId)).size,
+        pageViews: sessions.reduce((sum, s) => sum + s.pageViewCount, 0),
+        bounceRate: average(sessions.map(s => (s.isBounce ? 1 : 0))),
+        avgSessionSeconds: average(sessions.map(s => s.durationSeconds ?? 0)),
+        consentRate: average(sessions.map(s => (s.consentGranted ? 1 : 0))),
+      },
+      daily: Array.from(daily.values()).sort((a, b) => a.day.localeCompare(b.day)),
+      sources: countBy("source", s => s.utmSource || (s.referrer ? s.referrer.replace(/^[a-z][a-z0-9+.-]*:\/\//i, "").split(/[/:?#]/)[0] : "direct")).slice(0, 10),
+      devices: countBy("device", s => s.device || "unknown"),
+      browsers: countBy("browser", s => s.browser || "unknown").slice(0, 8),
+      topPaths: Array.from(paths.entries())
+        .map(([path, durations]) => ({ path, views: durations.length, avgSeconds: average(durations) }))
+        .sort((a, b) => b.views - a.views)
+        .slice(0, 10),
+      funnel: [
+        { step: "visit", sessions: sessions.length },
+        { step: "video_view", sessions: sessions.filter(s => sessionViews(s).length > 0).length },
+        {
+          step: "engaged_watch",
+          sessions: sessions.filter(s => sessionViews(s).some(v => (v.durationSeconds ?? 0) >= ENGAGED_WATCH_SECONDS)).length,
+        },
+        {
+          step: "interaction",
+          sessions: sessions.filter(s => this.analyticsCustomEvents.some(e => e.sessionId === s.id && interactions.has(e.eventName))).length,
+        },
+      ],
+      retention: buildRetentionCohorts(
+        Array.from(active.values())
+          .map(({ cohort, week, visitors }) => ({ cohort, week, visitors: visitors.size }))
+          .sort((a, b) => a.cohort.localeCompare(b.cohort) || a.week - b.week),
+        until,
+      ),
+    };
+  }
+
+  async recordVideoViewSnapshot(videoId: string, viewCount: number, capturedAt: Date = new Date()): Promise<VideoViewSnapshot> {
+    const snapshot: VideoViewSnapshot = { id: Math.random().toString(36).substr(2, 9), videoId, viewCount, capturedAt };
+    this.videoViewSnapshots.set(snapshot.id, snapshot);
+    return snapshot;
+  }
+
+  async getVideoViewSnapshots(videoId: string, since?: Date): Promise<VideoViewSnapshot[]> {
+    return Array.from(this.videoViewSnapshots.values())
+      .filter(s => s.videoId === videoId && (!since || s.capturedAt >= since))
+      .sort((a, b) => a.capturedAt.getTime() - b.capturedAt.getTime());
+  }
+
   async getVideoByVideoId(videoId: string): Promise<Video | undefined> {
     return Array.from(this.videos.values()).find(v => v.videoId === videoId);
   }
@@ -533,10 +1519,9 @@ export class MemStorage implements IStorage {
   }
 
   async getTrendingVideos(limit: number, lang: string = 'en'): Promise<VideoWithLocalizedRelations[]> {
-    // Simple sort by likes for demo
     const videos = await this.getAllVideos({ lang });
-    videos.sort((a, b) => (b.likesCount || 0) - (a.likesCount || 0));
-    return videos.slice(0, limit);
+    const candidates = videos.filter((v) => v.videoType !== "youtube_short" && v.videoType !== "tiktok");
+    return rankTrending(candidates).slice(0, limit);
   }
 
   async getHomeHeroVideos(limit: number, lang: string = "en"): Promise<VideoWithLocalizedRelations[]> {
@@ -586,7 +1571,7 @@ export class MemStorage implements IStorage {
       .flatMap((hero) => {
         if (!hero.videoId) return [];
         const video = this.videos.get(hero.videoId);
-        if (!video) return [];
+        if (!video || video.hiddenAt) return [];
         return [{ ...hero, video }];
       });
 
@@ -1031,11 +2016,11 @@ export class MemStorage implements IStorage {
   async getTagWithAllTranslations(id: string): Promise<(Tag & { translations: TagTranslation[] }) | undefined> {
       const tag = this.tags.get(id);
       if (!tag) return undefined;
-      return { ...tag, translations: [] };
+      return { ...tag, translations: this.tagTranslationsByTagId.get(id) || [] };
   }
 
   async getAllTagsWithTranslations(): Promise<(Tag & { translations: TagTranslation[] })[]> {
-      return Array.from(this.tags.values()).map(t => ({ ...t, translations: [] }));
+      return Array.from(this.tags.values()).map(t => ({ ...t, translations: this.tagTranslationsByTagId.get(t.id) || [] }));
   }
 
   // Video-Category
@@ -1053,13 +2038,15 @@ export class MemStorage implements IStorage {
   }
 
   // Playlists
-  async createPlaylist(playlist: InsertPlaylist): Promise<Playlist> {
+  async createPlaylist(playlist: InsertPlaylist & { ownerId?: string | null }): Promise<Playlist> {
     const id = Math.random().toString(36).substr(2, 9);
     const newPlaylist: Playlist = {
         ...playlist,
         id,
         description: playlist.description || null,
         videoCount: 0,
+        ownerId: playlist.ownerId || null,
+        visibility: playlist.visibility || "public",
         createdAt: new Date()
     };
     this.playlists.set(id, newPlaylist);
@@ -1079,7 +2066,13 @@ export class MemStorage implements IStorage {
   }
 
   async getAllPlaylists(): Promise<Playlist[]> {
-    return Array.from(this.playlists.values());
+    return Array.from(this.playlists.values()).filter(p => !p.ownerId);
+  }
+
+  async getPlaylistsByOwner(ownerId: string): Promise<Playlist[]> {
+    return Array.from(this.playlists.values())
+        .filter(p => p.ownerId === ownerId)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
   async updatePlaylist(id: string, data: Partial<Playlist>): Promise<Playlist | undefined> {
@@ -1096,7 +2089,9 @@ export class MemStorage implements IStorage {
 
   async addVideoToPlaylist(playlistId: string, videoId: string, position?: number): Promise<void> {
     const key = `${playlistId}-${videoId}`;
-    this.playlistVideos.set(key, { playlistId, videoId, position: position || 0, addedAt: new Date() });
+    if (this.playlistVideos.has(key)) return;
+    const nextPosition = position ?? (await this.getPlaylistVideos(playlistId)).length;
+    this.playlistVideos.set(key, { playlistId, videoId, position: nextPosition, addedAt: new Date() });
     const playlist = this.playlists.get(playlistId);
     if (playlist) {
         playlist.videoCount++;
@@ -1122,6 +2117,268 @@ export class MemStorage implements IStorage {
         .sort((a, b) => a.position - b.position);
   }
 
+  // User library
+  async getUserLikedVideos(_userId: string, _limit?: number): Promise<VideoWithLocalizedRelations[]> {
+    // Likes are only persisted in the database
+    return [];
+  }
+
+  async recordWatchProgress(
+    userId: string,
+    videoId: string,
+    progress?: Partial<WatchProgress>,
+  ): Promise<WatchHistoryEntry | undefined> {
+    const key = `${userId}-${videoId}`;
+    const existing = this.watchHistory.get(key);
+    const entry: WatchHistoryEntry = {
+        id: existing?.id || Math.random().toString(36).substr(2, 9),
+        userId,
+        videoId,
+        positionSeconds: progress?.positionSeconds ?? existing?.positionSeconds ?? 0,
+        durationSeconds: progress?.durationSeconds !== undefined ? progress.durationSeconds : existing?.durationSeconds ?? null,
+        watchedAt: new Date(),
+    };
+    this.watchHistory.set(key, entry);
+    return entry;
+  }
+
+  async getWatchProgress(userId: string, videoId: string): Promise<WatchHistoryEntry | undefined> {
+    return this.watchHistory.get(`${userId}-${videoId}`);
+  }
+
+  async getWatchHistory(userId: string, limit: number = 100): Promise<WatchHistoryItem[]> {
+    const entries = Array.from(this.watchHistory.values())
+        .filter(e => e.userId === userId)
+        .sort((a, b) => b.watchedAt.getTime() - a.watchedAt.getTime())
+        .slice(0, limit);
+    const items: WatchHistoryItem[] = [];
+    for (const entry of entries) {
+        const video = await this.getVideoWithRelations(entry.videoId);
+        if (video) items.push({ ...entry, video });
+    }
+    return items;
+  }
+
+  async deleteWatchHistory(userId: string, videoId?: string): Promise<void> {
+    for (const [key, entry] of Array.from(this.watchHistory.entries())) {
+        if (entry.userId === userId && (!videoId || entry.videoId === videoId)) {
+            this.watchHistory.delete(key);
+        }
+    }
+  }
+
+  async getEngagementSignals(_userIdentifier: string, _since: Date, _limit?: number): Promise<EngagementSignal[]> {
+    // Views and likes are only persisted in the database
+    return [];
+  }
+
+  async mergeAnonymousActivity(
+    userId: string,
+    anonymousIdentifier: string,
+    historyVideoIds: string[],
+  ): Promise<{ likes: number; history: number; subscriptions: number }> {
+    let history = 0;
+    const now = Date.now();
+    historyVideoIds.forEach((videoId, index) => {
+        const key = `${userId}-${videoId}`;
+        if (this.watchHistory.has(key) || !this.videos.has(videoId)) return;
+        this.watchHistory.set(key, {
+            id: Math.random().toString(36).substr(2, 9),
+            userId,
+            videoId,
+            positionSeconds: 0,
+            durationSeconds: null,
+            watchedAt: new Date(now - index * 1000),
+        });
+        history++;
+    });
+
+    const userKey = `user:${userId}`;
+    let subscriptions = 0;
+    for (const [key, sub] of Array.from(this.channelSubscriptions.entries())) {
+        if (sub.subscriberKey !== anonymousIdentifier) continue;
+        this.channelSubscriptions.delete(key);
+        const targetKey = `${userKey}-${sub.channelId}`;
+        if (this.channelSubscriptions.has(targetKey)) continue;
+        this.channelSubscriptions.set(targetKey, { ...sub, subscriberKey: userKey, userId });
+        subscriptions++;
+    }
+    for (const [id, notification] of Array.from(this.notifications.entries())) {
+        if (notification.subscriberKey !== anonymousIdentifier) continue;
+        const duplicate = Array.from(this.notifications.values()).some(
+            n => n.subscriberKey === userKey && n.type === notification.type && n.videoId === notification.videoId,
+        );
+        if (duplicate) this.notifications.delete(id);
+        else this.notifications.set(id, { ...notification, subscriberKey: userKey });
+    }
+
+    return { likes: 0, history, subscriptions };
+  }
+
+  // Channel subscriptions
+  async subscribeToChannel(subscriberKey: string, channelId: string, userId?: string | null): Promise<ChannelSubscription> {
+    const key = `${subscriberKey}-${channelId}`;
+    const existing = this.channelSubscriptions.get(key);
+    if (existing) return existing;
+    const subscription: ChannelSubscription = {
+        id: Math.random().toString(36).substr(2, 9),
+        subscriberKey,
+        userId: userId || null,
+        channelId,
+        createdAt: new Date(),
+    };
+    this.channelSubscriptions.set(key, subscription);
+    return subscription;
+  }
+
+  async unsubscribeFromChannel(subscriberKey: string, channelId: string): Promise<void> {
+    this.channelSubscriptions.delete(`${subscriberKey}-${channelId}`);
+  }
+
+  async getSubscriptions(subscriberKey: string): Promise<ChannelSubscription[]> {
+    return Array.from(this.channelSubscriptions.values())
+        .filter(s => s.subscriberKey === subscriberKey)
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getChannelSubscriberCount(channelId: string): Promise<number> {
+    return Array.from(this.channelSubscriptions.values()).filter(s => s.channelId === channelId).length;
+  }
+
+  async getFollowingFeed(
+    subscriberKey: string,
+    options: { limit: number; offset: number },
+    lang: string = 'en',
+  ): Promise<{ videos: VideoWithLocalizedRelations[]; total: number }> {
+    const followed = new Set((await this.getSubscriptions(subscriberKey)).map(s => s.channelId));
+    const matching = Array.from(this.videos.values())
+        .filter(v => followed.has(v.channelId))
+        .sort((a, b) =>
+            (b.publishDate || "").localeCompare(a.publishDate || "") ||
+            b.createdAt.getTime() - a.createdAt.getTime() ||
+            a.id.localeCompare(b.id));
+    const page = matching.slice(options.offset, options.offset + options.limit);
+    const hydrated: VideoWithLocalizedRelations[] = [];
+    for (const video of page) {
+        const full = await this.getVideoWithRelations(video.id, lang);
+        if (full) hydrated.push(full);
+    }
+    return { videos: hydrated, total: matching.length };
+  }
+
+  // Notifications
+  async createNewVideoNotifications(channelId: string, videoIds: string[]): Promise<number> {
+    const subscribers = Array.from(this.channelSubscriptions.values()).filter(s => s.channelId === channelId);
+    let created = 0;
+    for (const { subscriberKey } of subscribers) {
+        for (const videoId of videoIds) {
+            const exists = Array.from(this.notifications.values()).some(
+                n => n.subscriberKey === subscriberKey && n.type === "new_video" && n.videoId === videoId,
+            );
+            if (exists) continue;
+            const id = Math.random().toString(36).substr(2, 9);
+            this.notifications.set(id, {
+                id,
+                subscriberKey,
+                type: "new_video",
+                channelId,
+                videoId,
+                readAt: null,
+                createdAt: new Date(),
+            });
+            created++;
+        }
+    }
+    return created;
+  }
+
+  async getNotifications(
+    subscriberKey: string,
+    options: { limit?: number; unreadOnly?: boolean } = {},
+  ): Promise<NotificationWithVideo[]> {
+    const results: NotificationWithVideo[] = [];
+    const rows = Array.from(this.notifications.values())
+        .filter(n => n.subscriberKey === subscriberKey && (!options.unreadOnly || !n.readAt))
+        .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+    for (const notification of rows) {
+        const video = this.videos.get(notification.videoId);
+        const channel = this.channels.get(notification.channelId);
+        if (!video || !channel) continue;
+        results.push({
+            ...notification,
+            video: { id: video.id, slug: video.slug, title: video.title, thumbnailUrl: video.thumbnailUrl, publishDate: video.publishDate },
+            channel: { id: channel.id, name: channel.name, thumbnailUrl: channel.thumbnailUrl },
+        });
+        if (results.length >= (options.limit || 20)) break;
+    }
+    return results;
+  }
+
+  async getUnreadNotificationCount(subscriberKey: string): Promise<number> {
+    return Array.from(this.notifications.values()).filter(n => n.subscriberKey === subscriberKey && !n.readAt).length;
+  }
+
+  async markNotificationsRead(subscriberKey: string, ids?: string[]): Promise<number> {
+    let updated = 0;
+    for (const notification of Array.from(this.notifications.values())) {
+        if (notification.subscriberKey !== subscriberKey || notification.readAt) continue;
+        if (ids && !ids.includes(notification.id)) continue;
+        notification.readAt = new Date();
+        updated++;
+    }
+    return updated;
+  }
+
+  // WebSub push subscriptions
+  async getWebSubSubscription(id: string): Promise<WebSubSubscription | undefined> {
+    return this.websubSubscriptions.get(id);
+  }
+
+  async getWebSubSubscriptionByChannel(channelId: string): Promise<WebSubSubscription | undefined> {
+    return Array.from(this.websubSubscriptions.values()).find(s => s.channelId === channelId);
+  }
+
+  async getWebSubSubscriptions(): Promise<WebSubSubscription[]> {
+    return Array.from(this.websubSubscriptions.values());
+  }
+
+  async saveWebSubSubscription(data: InsertWebSubSubscription): Promise<WebSubSubscription> {
+    const existing = await this.getWebSubSubscriptionByChannel(data.channelId);
+    const now = new Date();
+    const row: WebSubSubscription = {
+      id: existing?.id ?? Math.random().toString(36).substr(2, 9),
+      status: "pending",
+      leaseSeconds: null,
+      leaseExpiresAt: null,
+      lastRequestedAt: null,
+      verifiedAt: null,
+      lastNotificationAt: null,
+      notificationCount: 0,
+      lastError: null,
+      createdAt: existing?.createdAt ?? now,
+      ...existing,
+      ...data,
+      updatedAt: now,
+    };
+    this.websubSubscriptions.set(row.id, row);
+    return row;
+  }
+
+  async updateWebSubSubscription(id: string, data: Partial<WebSubSubscription>): Promise<WebSubSubscription | undefined> {
+    const existing = this.websubSubscriptions.get(id);
+    if (!existing) return undefined;
+    const updated = { ...existing, ...data, id, updatedAt: new Date() };
+    this.websubSubscriptions.set(id, updated);
+    return updated;
+  }
+
+  async recordWebSubNotification(id: string): Promise<void> {
+    const existing = this.websubSubscriptions.get(id);
+    if (!existing) return;
+    existing.lastNotificationAt = new Date();
+    existing.notificationCount++;
+  }
+
   // SEO
   async getSeoSettings(): Promise<SeoSettings | undefined> {
     if (!this.seoSettings) {
@@ -1167,6 +2424,98 @@ export class MemStorage implements IStorage {
     return this.seoSettings;
   }
 
+  async getSeoMetaTag(pageUrl: string): Promise<SeoMetaTag | undefined> {
+    const tag = this.seoMetaTags.get(pageUrl);
+    return tag?.isActive ? tag : undefined;
+  }
+
+  async upsertSeoMetaTag(
+    pageUrl: string,
+    data: Partial<Omit<SeoMetaTag, "id" | "pageUrl" | "createdAt" | "updatedAt">> & Pick<SeoMetaTag, "pageType">,
+  ): Promise<SeoMetaTag> {
+    const existing = this.seoMetaTags.get(pageUrl);
+    const now = new Date();
+    const { pageType, ...fields } = data;
+    const tag: SeoMetaTag = existing
+      ? { ...existing, ...fields, updatedAt: now }
+      : {
+          id: Math.random().toString(36).substr(2, 9),
+          pageUrl,
+          pageType,
+          title: null,
+          description: null,
+          keywords: null,
+          ogTitle: null,
+          ogDescription: null,
+          ogImage: null,
+          twitterTitle: null,
+          twitterDescription: null,
+          twitterImage: null,
+          canonicalUrl: null,
+          schemaMarkup: null,
+          isActive: true,
+          seoScore: 0,
+          ...fields,
+          createdAt: now,
+          updatedAt: now,
+        };
+    this.seoMetaTags.set(pageUrl, tag);
+    return tag;
+  }
+
+  async getSeoAbTests(statuses?: readonly SeoAbTestStatus[]): Promise<SeoAbTest[]> {
+    return Array.from(this.seoAbTests.values())
+      .filter((test) => !statuses || statuses.includes(test.status as SeoAbTestStatus))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getSeoAbTest(id: string): Promise<SeoAbTest | undefined> {
+    return this.seoAbTests.get(id);
+  }
+
+  async createSeoAbTest(
+    test: Omit<SeoAbTest, "id" | "status" | "results" | "createdAt" | "updatedAt"> & Partial<Pick<SeoAbTest, "status" | "results">>,
+  ): Promise<SeoAbTest> {
+    const now = new Date();
+    const created: SeoAbTest = {
+      id: Math.random().toString(36).substr(2, 9),
+      status: "draft",
+      results: null,
+      ...test,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.seoAbTests.set(created.id, created);
+    return created;
+  }
+
+  async updateSeoAbTest(id: string, data: Partial<SeoAbTest>): Promise<SeoAbTest | undefined> {
+    const test = this.seoAbTests.get(id);
+    if (!test) return undefined;
+    const updated = { ...test, ...data, updatedAt: new Date() };
+    this.seoAbTests.set(id, updated);
+    return updated;
+  }
+
+  async incrementSeoAbTestCounts(
+    testId: string,
+    variant: SeoAbTestVariant,
+    counts: { impressions: number; clicks: number },
+  ): Promise<void> {
+    const key = `${testId}:${variant}`;
+    const row = this.seoAbTestCounts.get(key) ?? { testId, variant, impressions: 0, clicks: 0, updatedAt: new Date() };
+    this.seoAbTestCounts.set(key, {
+      ...row,
+      impressions: row.impressions + counts.impressions,
+      clicks: row.clicks + counts.clicks,
+      updatedAt: new Date(),
+    });
+  }
+
+  async getSeoAbTestCounts(testId: string): Promise<SeoAbTestCount[]> {
+    return Array.from(this.seoAbTestCounts.values()).filter((row) => row.testId === testId);
+  }
+
   // Scrape Jobs
   async createScrapeJob(job: InsertScrapeJob): Promise<ScrapeJob> {
     const id = Math.random().toString(36).substr(2, 9);
@@ -1275,12 +2624,223 @@ export class MemStorage implements IStorage {
             customBodyStartCode: null,
             customBodyEndCode: null,
             youtubeApiKey: null,
+            youtubeQuotaDailyLimit: 10000,
             updatedAt: new Date()
         };
     }
     return this.systemSettings;
   }
 
+  async getPromptTemplateVersions(key: AiPromptKey): Promise<AiPromptTemplateVersion[]> {
+    const videos = Array.from(this.videos.values());
+    return Array.from(this.promptTemplates.values())
+        .filter(t => t.key === key)
+        .sort((a, b) => b.version - a.version)
+        .map(t => ({ ...t, videoCount: videos.filter(v => v.categorizationPromptId === t.id).length }));
+  }
+
+  async getPromptTemplate(id: string): Promise<AiPromptTemplate | undefined> {
+    return this.promptTemplates.get(id);
+  }
+
+  async getActivePromptTemplate(key: AiPromptKey): Promise<AiPromptTemplate | undefined> {
+    return Array.from(this.promptTemplates.values()).find(t => t.key === key && t.isActive);
+  }
+
+  async createPromptTemplateVersion(
+    key: AiPromptKey,
+    data: { body: string; note?: string | null; createdBy?: string | null },
+    activate: boolean,
+  ): Promise<AiPromptTemplate> {
+    const versions = Array.from(this.promptTemplates.values()).filter(t => t.key === key);
+    if (activate) await this.deactivatePromptTemplates(key);
+    const template: AiPromptTemplate = {
+        id: Math.random().toString(36).substr(2, 9),
+        key,
+        version: Math.max(0, ...versions.map(t => t.version)) + 1,
+        body: data.body,
+        note: data.note ?? null,
+        isActive: activate,
+        createdBy: data.createdBy ?? null,
+        createdAt: new Date(),
+    };
+    this.promptTemplates.set(template.id, template);
+    return template;
+  }
+
+  async activatePromptTemplate(id: string): Promise<AiPromptTemplate | undefined> {
+    const template = this.promptTemplates.get(id);
+    if (!template) return undefined;
+    await this.deactivatePromptTemplates(template.key as AiPromptKey);
+    const activated = { ...template, isActive: true };
+    this.promptTemplates.set(id, activated);
+    return activated;
+  }
+
+  async deactivatePromptTemplates(key: AiPromptKey): Promise<void> {
+    for (const [id, template] of Array.from(this.promptTemplates.entries())) {
+        if (template.key === key && template.isActive) this.promptTemplates.set(id, { ...template, isActive: false });
+    }
+  }
+
+  async recordAiUsageEvent(event: InsertAiUsageEvent): Promise<void> {
+    this.aiUsageEvents.push({
+      ...event,
+      error: event.error ?? null,
+      id: Math.random().toString(36).substr(2, 9),
+      createdAt: new Date(),
+    });
+  }
+
+  async getAiSpend(since: Date): Promise<number> {
+    return this.aiUsageEvents
+      .filter((event) => event.createdAt >= since)
+      .reduce((sum, event) => sum + event.costUsd, 0);
+  }
+
+  async getAiUsageReport(since: Date, until: Date): Promise<AiUsageReport> {
+    const events = this.aiUsageEvents.filter((event) => event.createdAt >= since && event.createdAt <= until);
+    const sum = (rows: AiUsageEvent[]): AiUsageTotals => ({
+      calls: rows.length,
+      errors: rows.filter((event) => event.outcome === "error").length,
+      promptTokens: rows.reduce((total, event) => total + event.promptTokens, 0),
+      completionTokens: rows.reduce((total, event) => total + event.completionTokens, 0),
+      costUsd: rows.reduce((total, event) => total + event.costUsd, 0),
+    });
+    const avgLatencyMs = (rows: AiUsageEvent[]) =>
+      rows.length ? Math.round(rows.reduce((total, event) => total + event.latencyMs, 0) / rows.length) : 0;
+    const groupBy = (key: (event: AiUsageEvent) => string) => {
+      const groups = new Map<string, AiUsageEvent[]>();
+      for (const event of events) groups.set(key(event), [...(groups.get(key(event)) ?? []), event]);
+      return Array.from(groups.entries());
+    };
+
+    return {
+      since: since.toISOString(),
+      until: until.toISOString(),
+      totals: { ...sum(events), avgLatencyMs: avgLatencyMs(events) },
+      daily: groupBy((event) => event.createdAt.toISOString().slice(0, 10))
+        .map(([day, rows]) => ({ day, ...sum(rows) }))
+        .sort((a, b) => a.day.localeCompare(b.day)),
+      byFeature: groupBy((event) => event.feature)
+        .map(([feature, rows]) => ({ feature, ...sum(rows) }))
+        .sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls),
+      byModel: groupBy((event) => `${event.provider}:${event.model}`)
+        .map(([, rows]) => ({ provider: rows[0].provider, model: rows[0].model, ...sum(rows), avgLatencyMs: avgLatencyMs(rows) }))
+        .sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls),
+    };
+  }
+
+  async getTagMergeProposals(status?: TagMergeStatus): Promise<TagMergeProposal[]> {
+    return Array.from(this.tagMergeProposals.values())
+      .filter((proposal) => !status || proposal.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.videoCount - a.videoCount);
+  }
+
+  async getTagMergeProposal(id: string): Promise<TagMergeProposal | undefined> {
+    return this.tagMergeProposals.get(id);
+  }
+
+  async replacePendingTagMergeProposals(proposals: InsertTagMergeProposal[]): Promise<TagMergeProposal[]> {
+    for (const [id, proposal] of Array.from(this.tagMergeProposals.entries())) {
+      if (proposal.status === "pending") this.tagMergeProposals.delete(id);
+    }
+    return proposals.map((data) => {
+      const proposal: TagMergeProposal = {
+        ...data,
+        id: Math.random().toString(36).substr(2, 9),
+        status: "pending",
+        resolvedBy: null,
+        resolvedAt: null,
+        createdAt: new Date(),
+      };
+      this.tagMergeProposals.set(proposal.id, proposal);
+      return proposal;
+    });
+  }
+
+  async resolveTagMergeProposal(
+    id: string,
+    status: Exclude<TagMergeStatus, "pending">,
+    resolvedBy: string | null,
+  ): Promise<TagMergeProposal | undefined> {
+    const proposal = this.tagMergeProposals.get(id);
+    if (!proposal) return undefined;
+    const resolved = { ...proposal, status, resolvedBy, resolvedAt: new Date() };
+    this.tagMergeProposals.set(id, resolved);
+    return resolved;
+  }
+
+  async mergeTags(merge: TagMerge): Promise<TagMergeResult> {
+    const targetName = merge.target.find((t) => t.languageCode === "en")?.tagName;
+    const result: TagMergeResult = { videosRetagged: 0, duplicatesRemoved: 0, imageMoved: false, redirects: 0 };
+    if (!targetName) return result;
+
+    const isTarget = (tagId: string) =>
+      (this.tagTranslationsByTagId.get(tagId) || []).some(
+        (t) => t.languageCode === "en" && t.tagName.toLowerCase() === targetName.toLowerCase(),
+      );
+    const hasTarget = new Set(
+      Array.from(this.tags.values())
+        .filter((tag) => !merge.sourceTagIds.includes(tag.id) && isTarget(tag.id))
+        .map((tag) => tag.videoId),
+    );
+    for (const id of merge.sourceTagIds) {
+      const tag = this.tags.get(id);
+      if (!tag) continue;
+      if (hasTarget.has(tag.videoId)) {
+        await this.deleteTag(id);
+        result.duplicatesRemoved++;
+        continue;
+      }
+      this.tagTranslationsByTagId.set(
+        id,
+        merge.target.map((t) => ({ ...t, id: "mock-trans-id", tagId: id, createdAt: new Date(), updatedAt: new Date() })),
+      );
+      hasTarget.add(tag.videoId);
+      result.videosRetagged++;
+    }
+
+    const sourceImage = merge.sourceImageNames.map((name) => this.tagImages.get(name)).find(Boolean);
+    if (sourceImage && !this.tagImages.has(targetName)) {
+      this.tagImages.set(targetName, { ...sourceImage, tagName: targetName });
+      result.imageMoved = true;
+    }
+    for (const name of merge.sourceImageNames) {
+      if (name !== targetName) this.tagImages.delete(name);
+    }
+
+    for (const redirect of merge.redirects) {
+      for (const [id, existing] of Array.from(this.seoRedirects.entries())) {
+        if (existing.fromUrl === redirect.toUrl) this.seoRedirects.delete(id);
+        else if (existing.toUrl === redirect.fromUrl) this.seoRedirects.set(id, { ...existing, toUrl: redirect.toUrl });
+      }
+      const existing = Array.from(this.seoRedirects.values()).find((r) => r.fromUrl === redirect.fromUrl);
+      const id = existing?.id ?? Math.random().toString(36).substr(2, 9);
+      this.seoRedirects.set(id, {
+        id,
+        fromUrl: redirect.fromUrl,
+        toUrl: redirect.toUrl,
+        type: "permanent",
+        isActive: true,
+        hits: existing?.hits ?? 0,
+        createdAt: existing?.createdAt ?? new Date(),
+        updatedAt: new Date(),
+      });
+      result.redirects++;
+    }
+    return result;
+  }
+
+  async getActiveSeoRedirect(fromUrl: string): Promise<SeoRedirect | undefined> {
+    return Array.from(this.seoRedirects.values()).find((r) => r.fromUrl === fromUrl && r.isActive);
+  }
+
+  async recordSeoRedirectHit(id: string): Promise<void> {
+    const redirect = this.seoRedirects.get(id);
+    if (redirect) this.seoRedirects.set(id, { ...redirect, hits: redirect.hits + 1 });
+  }
+
   async getSupportedLanguages(): Promise<SupportedLanguage[]> {
     return Array.from(this.supportedLanguages.values());
   }
@@ -1344,6 +2904,38 @@ export class MemStorage implements IStorage {
     return this.systemSettings;
   }
 
+  // YouTube Data API quota
+  async getYouTubeQuota(day: string): Promise<YouTubeApiQuota | undefined> {
+    return this.youtubeQuota.get(day);
+  }
+
+  private youtubeQuotaRow(day: string): YouTubeApiQuota {
+    return this.youtubeQuota.get(day) ?? { day, units: 0, calls: 0, byMethod: {}, exhaustedAt: null, updatedAt: new Date() };
+  }
+
+  async recordYouTubeQuotaUsage(day: string, method: string, units: number): Promise<YouTubeApiQuota> {
+    const row = this.youtubeQuotaRow(day);
+    const next: YouTubeApiQuota = {
+      ...row,
+      units: row.units + units,
+      calls: row.calls + 1,
+      byMethod: { ...row.byMethod, [method]: (row.byMethod[method] || 0) + units },
+      updatedAt: new Date(),
+    };
+    this.youtubeQuota.set(day, next);
+    return next;
+  }
+
+  async markYouTubeQuotaExhausted(day: string): Promise<void> {
+    this.youtubeQuota.set(day, { ...this.youtubeQuotaRow(day), exhaustedAt: new Date(), updatedAt: new Date() });
+  }
+
+  async getYouTubeQuotaHistory(days: number): Promise<YouTubeApiQuota[]> {
+    return Array.from(this.youtubeQuota.values())
+      .sort((a, b) => b.day.localeCompare(a.day))
+      .slice(0, days);
+  }
+
   // Tag Images
   async getTagImage(tagName: string): Promise<TagImage | undefined> {
     return this.tagImages.get(tagName);
@@ -1371,3 +2963,27 @@ export class MemStorage implements IStorage {
     this.tagImages.delete(tagName);
   }
 }
+
+function summarizeInboxThread(threadId: string, messages: InboxMessage[]): InboxThreadSummary {
+  const sorted = [...messages].sort((a, b) => a.receivedAt.getTime() - b.receivedAt.getTime());
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  return {
+    threadId,
+    subject: first.subject,
+    fromAddress: last.fromAddress,
+    fromName: last.fromName,
+    snippet: last.textBody.replace(/\s+/g, " ").trim().slice(0, 200),
+    messageCount: sorted.length,
+    unreadCount: sorted.filter((m) => m.status === "unread").length,
+    archived: sorted.every((m) => m.status === "archived"),
+    lastReceivedAt: last.receivedAt,
+  };
+}
+
+function matchesInboxStatus(thread: InboxThreadSummary, status?: InboxMessageStatus): boolean {
+  if (status === "archived") return thread.archived;
+  if (status === "unread") return !thread.archived && thread.unreadCount > 0;
+  if (status === "read") return !thread.archived && thread.unreadCount === 0;
+  return !thread.archived;
+}
@@ -25,11 +25,41 @@ import {
   type InsertPlaylist,
   type PlaylistWithVideos,
   type PlaylistVideo,
+  type WatchHistoryEntry,
+  type ChannelSubscription,
+  type WebSubSubscription,
+  type VideoViewSnapshot,
+  type VisitorSession,
+  type PageView,
+  type AnalyticsCustomEvent,
+  type VisitorAnalyticsReport,
+  type InsertWebSubSubscription,
+  type NotificationWithVideo,
+  type WatchHistoryItem,
+  type EngagementSignal,
+  type WatchProgress,
   type SeoSettings,
+  type SeoMetaTag,
+  type SeoAbTest,
+  type SeoAbTestStatus,
+  type SeoAbTestCount,
+  type SeoAbTestVariant,
+  type AiPromptKey,
+  type AiPromptTemplate,
+  type AiPromptTemplateVersion,
+  type SeoRedirect,
+  type TagMerge,
+  type InsertAiUsageEvent,
+  type AiUsageReport,
+  type TagMergeProposal,
+  type TagMergeResult,
+  type TagMergeStatus,
+  type InsertTagMergeProposal,
   type ScrapeJob,
   type InsertScrapeJob,
   type SchedulerSettings,
   type SystemSettings,
+  type YouTubeApiQuota,
   type TagImage,
   type InsertTagImage,
   type AnalyticsEvent,
@@ -38,10 +68,39 @@ import {
   type InsertChannelRecommendation,
   type EmailSettings,
   type InsertEmailSettings,
+  type EmailOutboxEntry,
+  type InsertEmailOutboxEntry,
+  type InboxMessage,
+  type InsertInboxMessage,
+  type InboxMessageStatus,
+  type InboxThreadSummary,
   type SupportedLanguage,
   type InsertSupportedLanguage,
   type UiTranslation,
-  type InsertUiTranslation
+  type InsertUiTranslation,
+  type VideoSearchQuery,
+  type VideoSearchResult,
+  type VideoEmbedding,
+  type InsertVideoEmbedding,
+  type VideoTranscript,
+  type InsertVideoTranscript,
+  type VideoChapter,
+  type InsertVideoChapter,
+  type ModerationStatus,
+  type ModerationRule,
+  type InsertModerationRule,
+  type RolePermissions,
+  type Permission,
+  type ApiToken,
+  type InsertApiToken,
+  type OidcProvider,
+  type InsertOidcProvider,
+  type UserIdentity,
+  type InsertUserIdentity,
+  type WebhookSubscription,
+  type InsertWebhookSubscription,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
 } from "../../shared/schema.js";
 
 export interface IStorage {
@@ -49,9 +108,39 @@ export interface IStorage {
   createUser(user: InsertUser): Promise<User>;
   getUser(id: string): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  /** Case-insensitive */
+  getUserByEmail(email: string): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
   updateUserRole(id: string, role: string): Promise<User | undefined>;
+  updateUser(id: string, data: Partial<Omit<User, "id" | "username" | "createdAt">>): Promise<User | undefined>;
+  /** Records an accepted TOTP step unless the same or a later one was already used; false when it was. */
+  consumeTotpStep(id: string, step: number): Promise<boolean>;
+  /** Removes the recovery code hash if it is still unused; false when it isn't. */
+  consumeRecoveryCode(id: string, hash: string): Promise<boolean>;
   deleteUser(id: string): Promise<void>;
+  /** Saved overrides only; roles without a row use DEFAULT_ROLE_PERMISSIONS. */
+  getRolePermissions(): Promise<RolePermissions[]>;
+  setRolePermissions(role: string, permissions: Permission[]): Promise<RolePermissions>;
+
+  // API tokens
+  createApiToken(token: InsertApiToken): Promise<ApiToken>;
+  /** Newest first, revoked ones included. */
+  getApiTokensByUser(userId: string): Promise<ApiToken[]>;
+  getApiTokenByHash(tokenHash: string): Promise<ApiToken | undefined>;
+  updateApiToken(id: string, data: Partial<Pick<ApiToken, "name" | "lastUsedAt" | "revokedAt">>): Promise<ApiToken | undefined>;
+
+  // OIDC providers and linked identities
+  getOidcProviders(): Promise<OidcProvider[]>;
+  getOidcProvider(id: string): Promise<OidcProvider | undefined>;
+  getOidcProviderBySlug(slug: string): Promise<OidcProvider | undefined>;
+  createOidcProvider(provider: InsertOidcProvider): Promise<OidcProvider>;
+  updateOidcProvider(id: string, data: Partial<InsertOidcProvider>): Promise<OidcProvider | undefined>;
+  deleteOidcProvider(id: string): Promise<void>;
+  getUserIdentity(providerId: string, subject: string): Promise<UserIdentity | undefined>;
+  getUserIdentitiesByUser(userId: string): Promise<UserIdentity[]>;
+  createUserIdentity(identity: InsertUserIdentity): Promise<UserIdentity>;
+  updateUserIdentity(id: string, data: Partial<Pick<UserIdentity, "email" | "lastLoginAt">>): Promise<UserIdentity | undefined>;
+  deleteUserIdentity(id: string): Promise<void>;
 
   // Channels
   createChannel(channel: InsertChannel): Promise<Channel>;
@@ -72,6 +161,8 @@ export interface IStorage {
   getVideoWithRelationsBySlug(
     slug: string, lang?: string
   ): Promise<VideoWithLocalizedRelations | undefined>;
+  /** In the order of `ids`; unknown ids are skipped. */
+  getVideosWithRelationsByIds(ids: string[], lang?: string): Promise<VideoWithLocalizedRelations[]>;
   getAllVideos(filters?: {
     channelId?: string;
     categoryId?: string;
@@ -80,15 +171,94 @@ export interface IStorage {
     lang?: string;
     limit?: number;
     offset?: number;
-    sort?: "publishDate" | "createdAt" | "views" | "popularity";
+    sort?: "publishDate" | "createdAt" | "views" | "popularity" | "relevance";
     minViews?: number;
+    /** Hidden (deleted/private at the source) videos are left out unless set. */
+    includeHidden?: boolean;
   }): Promise<VideoWithLocalizedRelations[]>;
+  searchVideos(query: VideoSearchQuery): Promise<VideoSearchResult>;
   updateVideo(id: string, data: Partial<Video>): Promise<Video | undefined>;
   deleteVideo(id: string): Promise<void>;
   deleteVideosBulk(ids: string[]): Promise<void>;
   getVideoByVideoId(videoId: string): Promise<Video | undefined>;
+  /**
+   * Visible videos newest first (by createdAt, then id), starting after
+   * `after`; keyset pagination for the public API.
+   */
+  getVideoPage(options: {
+    channelId?: string;
+    categoryId?: string;
+    after?: { createdAt: Date; id: string };
+    limit: number;
+  }): Promise<Video[]>;
   getVideoIdsByChannel(channelId: string): Promise<string[]>;
   countVideosByChannel(channelId: string): Promise<number>;
+
+  // Metadata refresh
+  /** Visible videos of the given types whose nextRefreshAt has passed (or was never set), recent and popular first. */
+  getVideosDueForRefresh(videoTypes: readonly string[], limit: number, now?: Date): Promise<Video[]>;
+  recordVideoViewSnapshot(videoId: string, viewCount: number, capturedAt?: Date): Promise<VideoViewSnapshot>;
+  /** Oldest first. */
+  getVideoViewSnapshots(videoId: string, since?: Date): Promise<VideoViewSnapshot[]>;
+
+  // Availability checks
+  /** Videos of the given types (hidden ones included) not checked since `checkedBefore`, never-checked first. */
+  getVideosDueForAvailabilityCheck(videoTypes: readonly string[], limit: number, checkedBefore: Date): Promise<Video[]>;
+  /** Hidden videos, most recently hidden first. */
+  getHiddenVideos(): Promise<Video[]>;
+
+  // Embeddings
+  /** Visible video ids after `afterId`, in id order; with `missingOnly`, only those without an embedding from `model`. */
+  getVideoIdsForEmbedding(model: string, options: { missingOnly: boolean; afterId?: string; limit: number }): Promise<string[]>;
+  getVideoEmbeddings(videoIds: string[]): Promise<VideoEmbedding[]>;
+  upsertVideoEmbedding(embedding: InsertVideoEmbedding): Promise<void>;
+  /** Visible videos embedded with `model`, most similar to `embedding` first. */
+  findNearestVideoEmbeddings(
+    embedding: number[],
+    model: string,
+    options: { limit: number; excludeIds?: string[] },
+  ): Promise<{ videoId: string; similarity: number }[]>;
+  getVideoEmbeddingStats(model: string): Promise<{ embedded: number; total: number }>;
+
+  // Transcripts
+  /** Visible videos of the given types whose caption tracks were never looked up, newest first. */
+  getVideosDueForTranscripts(videoTypes: readonly string[], limit: number): Promise<Video[]>;
+  /** By language code. */
+  getVideoTranscripts(videoId: string): Promise<VideoTranscript[]>;
+  upsertVideoTranscript(transcript: InsertVideoTranscript): Promise<VideoTranscript>;
+
+  // Chapters
+  /** Visible videos never checked for chapters, or whose transcripts were looked up since; newest first. */
+  getVideosDueForChapters(limit: number): Promise<Video[]>;
+  /** By start time. */
+  getVideoChapters(videoId: string): Promise<VideoChapter[]>;
+  /** Replaces all of the video's chapters. */
+  replaceVideoChapters(videoId: string, chapters: InsertVideoChapter[]): Promise<VideoChapter[]>;
+
+  // Moderation
+  /** Newest first. */
+  getVideosByModerationStatus(status: ModerationStatus, limit: number): Promise<Video[]>;
+  getModerationCounts(): Promise<Record<ModerationStatus, number>>;
+  /** Held videos whose automatic check hasn't run yet, oldest first. */
+  getVideosAwaitingModeration(limit: number): Promise<Video[]>;
+  /** Oldest first. */
+  getModerationRules(): Promise<ModerationRule[]>;
+  createModerationRule(rule: InsertModerationRule): Promise<ModerationRule>;
+  updateModerationRule(id: string, data: Partial<InsertModerationRule>): Promise<ModerationRule | undefined>;
+  deleteModerationRule(id: string): Promise<void>;
+
+  // First-party visitor analytics
+  getVisitorSession(id: string): Promise<VisitorSession | undefined>;
+  createVisitorSession(session: Partial<VisitorSession> & Pick<VisitorSession, "id" | "visitorId">): Promise<VisitorSession>;
+  updateVisitorSession(id: string, data: Partial<VisitorSession>): Promise<VisitorSession | undefined>;
+  recordPageView(view: Pick<PageView, "sessionId" | "visitorId" | "path" | "title" | "timestamp">): Promise<PageView>;
+  /** Sets the time spent on the session's most recent view of `path`. */
+  setPageViewDuration(sessionId: string, path: string, durationSeconds: number): Promise<void>;
+  recordAnalyticsCustomEvent(
+    event: Pick<AnalyticsCustomEvent, "sessionId" | "visitorId" | "eventName" | "properties" | "timestamp">,
+  ): Promise<AnalyticsCustomEvent>;
+  /** Sessions started in [since, until), with their page views and events. */
+  getVisitorAnalyticsReport(since: Date, until: Date): Promise<VisitorAnalyticsReport>;
   
   // Optimized limited queries (database-level LIMIT)
   getHeroVideo(lang?: string): Promise<VideoWithLocalizedRelations | null>;
@@ -141,10 +311,12 @@ export interface IStorage {
   removeVideoCategories(videoId: string): Promise<void>;
 
   // Playlists
-  createPlaylist(playlist: InsertPlaylist): Promise<Playlist>;
+  createPlaylist(playlist: InsertPlaylist & { ownerId?: string | null }): Promise<Playlist>;
   getPlaylist(id: string): Promise<Playlist | undefined>;
   getPlaylistWithVideos(id: string): Promise<PlaylistWithVideos | undefined>;
+  /** Editorial playlists only; user-owned playlists come from getPlaylistsByOwner */
   getAllPlaylists(): Promise<Playlist[]>;
+  getPlaylistsByOwner(ownerId: string): Promise<Playlist[]>;
   updatePlaylist(
     id: string,
     data: Partial<Playlist>,
@@ -158,9 +330,63 @@ export interface IStorage {
   removeVideoFromPlaylist(playlistId: string, videoId: string): Promise<void>;
   getPlaylistVideos(playlistId: string): Promise<PlaylistVideo[]>;
 
+  // User library (likes and watch history of signed-in users)
+  getUserLikedVideos(userId: string, limit?: number): Promise<VideoWithLocalizedRelations[]>;
+  recordWatchProgress(userId: string, videoId: string, progress?: Partial<WatchProgress>): Promise<WatchHistoryEntry | undefined>;
+  getWatchProgress(userId: string, videoId: string): Promise<WatchHistoryEntry | undefined>;
+  getWatchHistory(userId: string, limit?: number): Promise<WatchHistoryItem[]>;
+  deleteWatchHistory(userId: string, videoId?: string): Promise<void>;
+  /** Videos the identifier viewed since `since` or liked at any time, most recent first */
+  getEngagementSignals(userIdentifier: string, since: Date, limit?: number): Promise<EngagementSignal[]>;
+  /** Moves likes, subscriptions and the given history recorded anonymously onto the account */
+  mergeAnonymousActivity(userId: string, anonymousIdentifier: string, historyVideoIds: string[]): Promise<{ likes: number; history: number; subscriptions: number }>;
+
+  // Channel subscriptions; subscriberKey is "user:<id>" or an anonymous identifier
+  subscribeToChannel(subscriberKey: string, channelId: string, userId?: string | null): Promise<ChannelSubscription>;
+  unsubscribeFromChannel(subscriberKey: string, channelId: string): Promise<void>;
+  getSubscriptions(subscriberKey: string): Promise<ChannelSubscription[]>;
+  getChannelSubscriberCount(channelId: string): Promise<number>;
+  getFollowingFeed(
+    subscriberKey: string,
+    options: { limit: number; offset: number },
+    lang?: string,
+  ): Promise<{ videos: VideoWithLocalizedRelations[]; total: number }>;
+
+  // Notifications
+  /** Notifies every subscriber of the channel; repeated calls for the same video are ignored. Returns rows created. */
+  createNewVideoNotifications(channelId: string, videoIds: string[]): Promise<number>;
+  getNotifications(subscriberKey: string, options?: { limit?: number; unreadOnly?: boolean }): Promise<NotificationWithVideo[]>;
+  getUnreadNotificationCount(subscriberKey: string): Promise<number>;
+  /** Marks the given notifications (or all of them) as read and returns how many changed */
+  markNotificationsRead(subscriberKey: string, ids?: string[]): Promise<number>;
+
+  // WebSub push subscriptions
+  getWebSubSubscription(id: string): Promise<WebSubSubscription | undefined>;
+  getWebSubSubscriptionByChannel(channelId: string): Promise<WebSubSubscription | undefined>;
+  getWebSubSubscriptions(): Promise<WebSubSubscription[]>;
+  /** Creates the channel's subscription or overwrites it (one per channel) */
+  saveWebSubSubscription(data: InsertWebSubSubscription): Promise<WebSubSubscription>;
+  updateWebSubSubscription(id: string, data: Partial<WebSubSubscription>): Promise<WebSubSubscription | undefined>;
+  recordWebSubNotification(id: string): Promise<void>;
+
   // SEO Settings
   getSeoSettings(): Promise<SeoSettings | undefined>;
   updateSeoSettings(data: Partial<SeoSettings>): Promise<SeoSettings>;
+  // Active override for a page path, if any
+  getSeoMetaTag(pageUrl: string): Promise<SeoMetaTag | undefined>;
+  upsertSeoMetaTag(
+    pageUrl: string,
+    data: Partial<Omit<SeoMetaTag, "id" | "pageUrl" | "createdAt" | "updatedAt">> & Pick<SeoMetaTag, "pageType">,
+  ): Promise<SeoMetaTag>;
+
+  // SEO A/B tests
+  getSeoAbTests(statuses?: readonly SeoAbTestStatus[]): Promise<SeoAbTest[]>;
+  getSeoAbTest(id: string): Promise<SeoAbTest | undefined>;
+  createSeoAbTest(test: Omit<SeoAbTest, "id" | "status" | "results" | "createdAt" | "updatedAt"> & Partial<Pick<SeoAbTest, "status" | "results">>): Promise<SeoAbTest>;
+  updateSeoAbTest(id: string, data: Partial<SeoAbTest>): Promise<SeoAbTest | undefined>;
+  // Adds to a variant's counters in one atomic statement
+  incrementSeoAbTestCounts(testId: string, variant: SeoAbTestVariant, counts: { impressions: number; clicks: number }): Promise<void>;
+  getSeoAbTestCounts(testId: string): Promise<SeoAbTestCount[]>;
 
   // Scrape Jobs
   createScrapeJob(job: InsertScrapeJob): Promise<ScrapeJob>;
@@ -180,6 +406,13 @@ export interface IStorage {
   getSystemSettings(): Promise<SystemSettings | undefined>;
   updateSystemSettings(data: Partial<SystemSettings>): Promise<SystemSettings>;
 
+  // YouTube Data API quota (day is YYYY-MM-DD in Pacific time)
+  getYouTubeQuota(day: string): Promise<YouTubeApiQuota | undefined>;
+  recordYouTubeQuotaUsage(day: string, method: string, units: number): Promise<YouTubeApiQuota>;
+  markYouTubeQuotaExhausted(day: string): Promise<void>;
+  /** Most recent days first */
+  getYouTubeQuotaHistory(days: number): Promise<YouTubeApiQuota[]>;
+
   // Tag Images
   getTagImage(tagName: string): Promise<TagImage | undefined>;
   updateTagImage(data: InsertTagImage): Promise<TagImage>;
@@ -200,10 +433,74 @@ export interface IStorage {
   getEmailSettings(): Promise<EmailSettings | undefined>;
   updateEmailSettings(data: Partial<InsertEmailSettings>): Promise<EmailSettings>;
 
+  // Email Outbox
+  enqueueEmail(entry: InsertEmailOutboxEntry): Promise<EmailOutboxEntry>;
+  claimDueEmails(limit: number): Promise<EmailOutboxEntry[]>;
+  updateEmailOutboxEntry(id: string, data: Partial<EmailOutboxEntry>): Promise<EmailOutboxEntry | undefined>;
+  getEmailOutbox(filters?: { status?: string; limit?: number }): Promise<EmailOutboxEntry[]>;
+
+  // Webhooks
+  getWebhookSubscriptions(): Promise<WebhookSubscription[]>;
+  getWebhookSubscription(id: string): Promise<WebhookSubscription | undefined>;
+  createWebhookSubscription(subscription: InsertWebhookSubscription): Promise<WebhookSubscription>;
+  updateWebhookSubscription(id: string, data: Partial<InsertWebhookSubscription>): Promise<WebhookSubscription | undefined>;
+  deleteWebhookSubscription(id: string): Promise<void>;
+  enqueueWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  claimDueWebhookDeliveries(limit: number): Promise<WebhookDelivery[]>;
+  getWebhookDelivery(id: string): Promise<WebhookDelivery | undefined>;
+  updateWebhookDelivery(id: string, data: Partial<WebhookDelivery>): Promise<WebhookDelivery | undefined>;
+  getWebhookDeliveries(filters?: { subscriptionId?: string; status?: string; event?: string; limit?: number }): Promise<WebhookDelivery[]>;
+
+  // IMAP Inbox
+  updateImapSyncState(state: Partial<Pick<EmailSettings, "imapLastUid" | "imapUidValidity" | "imapLastPolledAt" | "imapLastError">>): Promise<void>;
+  createInboxMessage(message: InsertInboxMessage): Promise<InboxMessage | undefined>;
+  getInboxMessagesByMessageIds(messageIds: string[]): Promise<InboxMessage[]>;
+  findInboxThreadBySubject(threadSubject: string, since: Date): Promise<string | undefined>;
+  getInboxThreads(filters?: { status?: InboxMessageStatus; limit?: number }): Promise<InboxThreadSummary[]>;
+  getInboxThreadMessages(threadId: string): Promise<InboxMessage[]>;
+  updateInboxThreadStatus(threadId: string, status: InboxMessageStatus): Promise<number>;
+
   // Utilities
   updateAllVideoThumbnails(): Promise<number>;
   incrementVideoViews(videoId: string, count: number): Promise<void>;
 
+  // AI prompt templates; without an active version the built-in prompt is used
+  getPromptTemplateVersions(key: AiPromptKey): Promise<AiPromptTemplateVersion[]>;
+  getPromptTemplate(id: string): Promise<AiPromptTemplate | undefined>;
+  getActivePromptTemplate(key: AiPromptKey): Promise<AiPromptTemplate | undefined>;
+  /** Saves the body as the key's next version, and makes it the active one when `activate` is set */
+  createPromptTemplateVersion(
+    key: AiPromptKey,
+    data: { body: string; note?: string | null; createdBy?: string | null },
+    activate: boolean,
+  ): Promise<AiPromptTemplate>;
+  activatePromptTemplate(id: string): Promise<AiPromptTemplate | undefined>;
+  /** Deactivates every version of the key, going back to the built-in prompt */
+  deactivatePromptTemplates(key: AiPromptKey): Promise<void>;
+
+  // AI usage metering
+  recordAiUsageEvent(event: InsertAiUsageEvent): Promise<void>;
+  /** Estimated USD spent on AI calls since the given time */
+  getAiSpend(since: Date): Promise<number>;
+  getAiUsageReport(since: Date, until: Date): Promise<AiUsageReport>;
+
+  // Tag merge proposals, newest first
+  getTagMergeProposals(status?: TagMergeStatus): Promise<TagMergeProposal[]>;
+  getTagMergeProposal(id: string): Promise<TagMergeProposal | undefined>;
+  /** Swaps the pending proposals for a new scan's; applied and dismissed ones are kept */
+  replacePendingTagMergeProposals(proposals: InsertTagMergeProposal[]): Promise<TagMergeProposal[]>;
+  resolveTagMergeProposal(
+    id: string,
+    status: Exclude<TagMergeStatus, "pending">,
+    resolvedBy: string | null,
+  ): Promise<TagMergeProposal | undefined>;
+  /** Retags the source rows, moves a tag image and writes the redirects in one transaction */
+  mergeTags(merge: TagMerge): Promise<TagMergeResult>;
+
+  // SEO redirects
+  getActiveSeoRedirect(fromUrl: string): Promise<SeoRedirect | undefined>;
+  recordSeoRedirectHit(id: string): Promise<void>;
+
   // Supported Languages
   getSupportedLanguages(): Promise<SupportedLanguage[]>;
   upsertSupportedLanguage(lang: InsertSupportedLanguage): Promise<SupportedLanguage>;
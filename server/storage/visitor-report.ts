@@ -0,0 +1,35 @@
+import type { VisitorAnalyticsReport } from "../../shared/schema.js";
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+/** Monday 00:00 UTC of the week `date` falls in, like Postgres date_trunc('week'). */
+export function startOfWeek(date: Date): Date {
+  const day = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  const sinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - sinceMonday * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Turns (cohort week, weeks since, active visitors) counts into retention
+ * shares. Week 0 is the cohort itself; later weeks stop at `until`.
+ */
+export function buildRetentionCohorts(
+  rows: Array<{ cohort: string; week: number; visitors: number }>,
+  until: Date,
+): VisitorAnalyticsReport["retention"] {
+  const cohorts = new Map<string, Map<number, number>>();
+  for (const row of rows) {
+    if (!cohorts.has(row.cohort)) cohorts.set(row.cohort, new Map());
+    cohorts.get(row.cohort)!.set(row.week, row.visitors);
+  }
+
+  return Array.from(cohorts.entries()).map(([cohort, weeks]) => {
+    const size = weeks.get(0) ?? 0;
+    const elapsed = Math.max(0, Math.floor((until.getTime() - Date.parse(`${cohort}T00:00:00Z`)) / WEEK_MS));
+    return {
+      cohort,
+      visitors: size,
+      weeks: Array.from({ length: elapsed + 1 }, (_, week) => (size ? (weeks.get(week) ?? 0) / size : 0)),
+    };
+  });
+}
@@ -0,0 +1,43 @@
+import type { Video } from "../shared/schema.js";
+
+const HOUR_MS = 60 * 60 * 1000;
+// Keeps videos from the last couple of hours from dividing by almost nothing
+const AGE_OFFSET_HOURS = 2;
+// How fast older videos sink; 1.5 lets a strong video stay up for a few days
+const GRAVITY = 1.5;
+
+function parseViews(viewCount: string | null | undefined): number {
+  return parseInt((viewCount || "").replace(/[^0-9]/g, ""), 10) || 0;
+}
+
+/** Hours since the video was published, or added here when the publish date isn't a date. */
+export function videoAgeHours(video: Pick<Video, "publishDate" | "createdAt">, now: Date = new Date()): number {
+  const published = Date.parse(video.publishDate || "");
+  const since = Number.isFinite(published) ? published : new Date(video.createdAt).getTime();
+  return Math.max(0, now.getTime() - since) / HOUR_MS;
+}
+
+/**
+ * Popularity divided by age: view growth per day (trendingScore) plus the
+ * lifetime formula externalViews * 0.3 + internalViews * 50 + likes * 100,
+ * over (ageHours + 2) ^ 1.5. A week-old hit ranks below a fresh video with a
+ * fraction of its views.
+ */
+export function trendingRankScore(
+  video: Pick<Video, "trendingScore" | "viewCount" | "internalViewsCount" | "likesCount" | "publishDate" | "createdAt">,
+  now: Date = new Date(),
+): number {
+  const popularity =
+    1 +
+    (video.trendingScore || 0) * 24 +
+    parseViews(video.viewCount) * 0.3 +
+    (video.internalViewsCount || 0) * 50 +
+    (video.likesCount || 0) * 100;
+  return popularity / Math.pow(videoAgeHours(video, now) + AGE_OFFSET_HOURS, GRAVITY);
+}
+
+/** Highest decayed trending score first. */
+export function rankTrending<T extends Parameters<typeof trendingRankScore>[0]>(videos: T[], now: Date = new Date()): T[] {
+  const scores = new Map(videos.map((video) => [video, trendingRankScore(video, now)]));
+  return [...videos].sort((a, b) => scores.get(b)! - scores.get(a)!);
+}
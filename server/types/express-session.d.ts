@@ -6,5 +6,24 @@ declare module "express-session" {
     username?: string;
     userId?: string;
     role?: string;
+    /** When the user signed in (ms); sessions older than the user's sessionsRevokedAt are dropped */
+    authenticatedAt?: number;
+    /** Set after a correct password while the second factor is still owed */
+    pendingTwoFactor?: { userId?: string; configuredAdmin?: boolean; expiresAt: number; attempts: number };
+    /** Secret shown during two-factor enrollment; saved to the user once a code confirms it */
+    pendingTotpSecret?: string;
+    /** An account whose role requires two-factor auth but hasn't enrolled yet */
+    twoFactorSetupRequired?: boolean;
+    /** An OpenID Connect sign-in or account link waiting for the provider's callback */
+    oidcFlow?: {
+      providerId: string;
+      state: string;
+      nonce: string;
+      codeVerifier: string;
+      redirectUri: string;
+      linkUserId?: string;
+      returnTo: string;
+      expiresAt: number;
+    };
   }
 }
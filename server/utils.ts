@@ -5,10 +5,18 @@ import slugify from "slugify";
  * Get a unique identifier for the user (user ID or IP address)
  */
 export function getUserIdentifier(req: Request): string {
-  const user = (req as any).user;
-  if (user) {
-    return `user:${user.id}`;
+  const userId = req.session?.userId || (req as any).user?.id;
+  if (userId) {
+    return `user:${userId}`;
   }
+  return getAnonymousIdentifier(req);
+}
+
+/**
+ * Identifier used for visitors who are not logged in. Activity recorded under
+ * it is moved to the account on login.
+ */
+export function getAnonymousIdentifier(req: Request): string {
   return `ip:${req.ip}`;
 }
 
@@ -1,10 +1,18 @@
-import { videos, type InsertVideo, type Video } from "../shared/schema.js";
+import {
+  videos,
+  SUPPORTED_VIDEO_TYPES,
+  type InsertVideo,
+  type SupportedPlatform,
+  type SupportedVideoType,
+  type Video,
+} from "../shared/schema.js";
 import { storage } from "./storage.js";
 import { generateSlug } from "./utils.js";
 import { categorizeVideo as aiCategorizeVideo } from "./ai-service.js";
+import { applyCategorization } from "./services/categorization.js";
 import { logger } from "./lib/logger.js";
-import { notifyVideoChange, submitUrls } from "./services/indexnow.js";
 import { scrapeYouTubeVideoPage } from "./video-scraper.js";
+import { moderateNewVideos, moderationHold, publishVideos } from "./services/moderation.js";
 
 interface ScrapedVideo {
   videoId: string;
@@ -16,11 +24,14 @@ interface ScrapedVideo {
   publishDate?: string | null;
   videoType?: string;
   embedUrl?: string | null;
+  tags?: string[];
+  descriptionComplete?: boolean;
 }
 
 interface VideoIngestionOptions {
   channelId: string;
-  platform: "youtube" | "tiktok";
+  /** channel.platform; decides the videoType for single-format platforms. */
+  platform: string;
   runCategorization?: boolean;
 }
 
@@ -65,9 +76,27 @@ export async function createVideoWithSlug(
   return created;
 }
 
+// Platforms whose videos all render the same way, whatever the scraper reported
+const PLATFORM_VIDEO_TYPES: Partial<Record<SupportedPlatform | string, SupportedVideoType>> = {
+  tiktok: "tiktok",
+  x: "x",
+  instagram: "instagram_reel",
+  vimeo: "vimeo",
+  dailymotion: "dailymotion",
+};
+
+function resolveVideoType(platform: string, reported: string | undefined): SupportedVideoType {
+  const fixed = PLATFORM_VIDEO_TYPES[platform];
+  if (fixed) return fixed;
+  return (SUPPORTED_VIDEO_TYPES as readonly string[]).includes(reported || "")
+    ? (reported as SupportedVideoType)
+    : "regular";
+}
+
 /**
- * Process an array of scraped videos: dedupe, create with slugs, optionally categorize
+ * Process an array of scraped videos: dedupe, create with slugs, moderate, optionally categorize
  * This is the shared logic used by both scheduler and manual scrape endpoints
+ * New videos stay hidden until moderation approves them (see services/moderation.ts).
  */
 export async function processScrapedVideos(
   scrapedVideos: ScrapedVideo[],
@@ -79,6 +108,10 @@ export async function processScrapedVideos(
     newVideoIds: [],
     errors: [],
   };
+  // Videos whose listing only carried a description snippet
+  const needsEnrichment: string[] = [];
+  const tagHints = new Map<string, string[]>();
+  const channel = await storage.getChannel(channelId);
 
   for (const scrapedVideo of scrapedVideos) {
     try {
@@ -87,12 +120,7 @@ export async function processScrapedVideos(
 
       const slug = await generateUniqueSlug(scrapedVideo.title);
 
-      const videoType: "regular" | "youtube_short" | "tiktok" =
-        platform === "tiktok"
-          ? "tiktok"
-          : scrapedVideo.videoType === "youtube_short"
-            ? "youtube_short"
-            : "regular";
+      const videoType = resolveVideoType(platform, scrapedVideo.videoType);
 
       // Convert viewCount to string if it's a number
       const viewCountStr =
@@ -111,11 +139,14 @@ export async function processScrapedVideos(
         viewCount: viewCountStr,
         publishDate: scrapedVideo.publishDate || null,
         videoType,
-        embedUrl: platform === "tiktok" ? scrapedVideo.embedUrl : null,
+        embedUrl: scrapedVideo.embedUrl || null,
+        ...moderationHold(channel),
       });
 
       result.savedCount++;
       result.newVideoIds.push(created.id);
+      if (!scrapedVideo.descriptionComplete) needsEnrichment.push(created.id);
+      if (scrapedVideo.tags?.length) tagHints.set(created.id, scrapedVideo.tags);
     } catch (error) {
       const errorMessage =
         error instanceof Error ? error.message : "Unknown error";
@@ -129,13 +160,20 @@ export async function processScrapedVideos(
     }
   }
 
+  try {
+    // Followers and IndexNow only hear about videos that went live
+    await publishVideos(channelId, await moderateNewVideos(result.newVideoIds, channel));
+  } catch (err) {
+    logger.error("[video-ingestion] Moderation failed:", err);
+  }
+
   if (runCategorization && result.newVideoIds.length > 0) {
-    await categorizeNewVideos(result.newVideoIds);
+    await categorizeNewVideos(result.newVideoIds, tagHints);
   }
 
   // Enrich descriptions by scraping individual video pages (runs in background)
-  if (result.newVideoIds.length > 0 && platform === "youtube") {
-    enrichVideoDescriptions(result.newVideoIds).then(({ enriched, failed }) => {
+  if (needsEnrichment.length > 0 && platform === "youtube") {
+    enrichVideoDescriptions(needsEnrichment).then(({ enriched, failed }) => {
       if (enriched > 0) {
         logger.info(`[video-ingestion] Description enrichment complete: ${enriched} enriched, ${failed} failed`);
       }
@@ -144,130 +182,28 @@ export async function processScrapedVideos(
     });
   }
 
-  // Notify IndexNow about newly created videos
-  if (result.newVideoIds.length > 0) {
-    try {
-      const baseUrl = process.env.PUBLIC_BASE_URL || "https://nisam.video";
-      const urls: string[] = [];
-      for (const id of result.newVideoIds) {
-        const video = await storage.getVideo(id);
-        if (video) {
-          urls.push(`${baseUrl}/video/${video.slug || video.id}`);
-        }
-      }
-      if (urls.length > 0) {
-        submitUrls(urls);
-      }
-    } catch (err) {
-      logger.error("[video-ingestion] IndexNow notification failed:", err);
-    }
-  }
-
   return result;
 }
 
 /**
  * Run AI categorization on newly created videos
- * Uses the same pattern as routes.ts for consistency
+ * Creator tags (from the YouTube API) are appended to the description as hints.
  */
-async function categorizeNewVideos(videoIds: string[]): Promise<void> {
+async function categorizeNewVideos(videoIds: string[], tagHints: Map<string, string[]> = new Map()): Promise<void> {
   for (const videoId of videoIds) {
     try {
       const video = await storage.getVideo(videoId);
       if (!video) continue;
 
+      const hints = tagHints.get(videoId);
       const categorizationResult = await aiCategorizeVideo(
         video.title,
-        video.description || ""
-      );
-
-      // Process Categories
-      // We attempt to match English and Serbian categories by index
-      const maxCategories = Math.max(
-        categorizationResult.categories.en.length,
-        categorizationResult.categories.sr.length
-      );
-
-      for (let i = 0; i < maxCategories; i++) {
-        const nameEn = categorizationResult.categories.en[i];
-        const nameSr = categorizationResult.categories.sr[i];
-
-        // Skip if no English name (we use it as primary identifier for slug)
-        if (!nameEn) continue;
-
-        const categorySlug = nameEn
-          .toLowerCase()
-          .replace(/[^a-z0-9]+/g, "-");
-        
-        let category = await storage.getLocalizedCategoryBySlug(categorySlug, 'en');
-
-        if (!category) {
-          const translations: { languageCode: string; name: string; slug: string; description: string | null }[] = [];
-          translations.push({
-            languageCode: 'en',
-            name: nameEn,
-            slug: categorySlug,
-            description: null
-          });
-
-          if (nameSr) {
-            translations.push({
-              languageCode: 'sr-Latn',
-              name: nameSr,
-              slug: categorySlug, // Share slug or generate new? Using same slug for simplicity
-              description: null
-            });
-          }
-
-          category = await storage.createCategory({}, translations);
-        } else if (nameSr) {
-          // If category exists but might miss Serbian translation, try to add it
-          try {
-             // Check if translation exists (this logic would be in storage but we can try adding)
-             // For now, we assume if it exists we use it. 
-             // Ideally we'd update it, but let's keep it simple.
-             await storage.addCategoryTranslation(category.id, {
-                categoryId: category.id,
-                languageCode: 'sr-Latn',
-                name: nameSr,
-                slug: categorySlug,
-                description: null
-             }).catch(() => {}); // Ignore if exists
-          } catch (e) {
-            // Ignore unique constraint errors
-          }
-        }
-
-        await storage.addVideoCategory(video.id, category.id);
-      }
-
-      // Process Tags
-      // We match English and Serbian tags by index
-      const maxTags = Math.max(
-        categorizationResult.tags.en.length,
-        categorizationResult.tags.sr.length
+        hints?.length
+          ? `${video.description || ""}\n\nCreator tags: ${hints.slice(0, 20).join(", ")}`
+          : video.description || ""
       );
 
-      for (let i = 0; i < maxTags; i++) {
-        const tagEn = categorizationResult.tags.en[i];
-        const tagSr = categorizationResult.tags.sr[i];
-
-        if (!tagEn) continue;
-
-        const translations = [{
-          languageCode: 'en',
-          tagName: tagEn
-        }];
-
-        if (tagSr) {
-          translations.push({
-            languageCode: 'sr-Latn',
-            tagName: tagSr
-          });
-        }
-
-        await storage.createTag({ videoId: video.id }, translations);
-      }
+      await applyCategorization(video.id, categorizationResult);
 
       logger.info(`[video-ingestion] Categorized: ${video.title}`);
     } catch (error) {
@@ -1,5 +1,6 @@
 import * as cheerio from "cheerio";
 import { recordError } from "./error-log-service.js";
+import type { TranscriptSegment } from "../shared/schema.js";
 
 const logger = {
   info: (msg: string, ...args: any[]) => console.log(`[video-scraper] ${msg}`, ...args),
@@ -23,6 +24,28 @@ export interface ScrapedVideoDetails {
   thumbnailUrl?: string;
   isLive?: boolean;
   isShort?: boolean;
+  captionTracks?: CaptionTrack[];
+}
+
+/** A caption track listed in the player response; `auto` tracks are speech recognition. */
+export interface CaptionTrack {
+  languageCode: string;
+  name: string;
+  auto: boolean;
+  baseUrl: string;
+}
+
+/** A caption track as the player response lists it, before it's checked. */
+interface PlayerCaptionTrack {
+  baseUrl?: unknown;
+  languageCode?: unknown;
+  name?: unknown;
+  kind?: unknown;
+}
+
+/** A json3 timedtext response: timed events, each with runs of text. */
+interface TimedTextJson {
+  events?: { tStartMs?: number; dDurationMs?: number; segs?: { utf8?: string }[] }[];
 }
 
 export interface ScrapeVideoResult {
@@ -328,6 +351,19 @@ export async function scrapeYouTubeVideoPage(videoUrl: string): Promise<ScrapeVi
         }
       }
       
+      const captionTracks: unknown = microformat.captions?.playerCaptionsTracklistRenderer?.captionTracks;
+      if (Array.isArray(captionTracks)) {
+        result.captionTracks = captionTracks.flatMap((track: PlayerCaptionTrack | null): CaptionTrack[] => {
+          if (typeof track?.baseUrl !== "string" || typeof track.languageCode !== "string" || !track.languageCode) return [];
+          return [{
+            languageCode: track.languageCode,
+            name: extractRichText(track.name) || track.languageCode,
+            auto: track.kind === "asr",
+            baseUrl: track.baseUrl,
+          }];
+        });
+      }
+
       const streamingData = microformat.streamingData;
       if (streamingData) {
         result.isShort = streamingData.formats?.some((f: any) => 
@@ -416,6 +452,75 @@ export async function scrapeYouTubeVideoPage(videoUrl: string): Promise<ScrapeVi
   }
 }
 
+const XML_ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", "#39": "'" };
+
+function decodeXmlEntities(text: string): string {
+  return text
+    .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+    .replace(/&(amp|lt|gt|quot|apos|#39);/g, (_, name) => XML_ENTITIES[name]);
+}
+
+function toSegment(startMs: number, durationMs: number, rawText: string): TranscriptSegment | null {
+  const text = rawText.replace(/<[^>]+>/g, "").replace(/\s+/g, " ").trim();
+  if (!text) return null;
+  return { start: Math.round(startMs) / 1000, duration: Math.round(durationMs) / 1000, text };
+}
+
+/**
+ * Parses a timedtext response: json3 (events with text segments) or the XML
+ * formats (`<text start dur>` in seconds, or srv3 `<p t d>` in milliseconds).
+ */
+export function parseTimedText(body: string): TranscriptSegment[] {
+  const trimmed = body.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith("{")) {
+    const data: TimedTextJson = JSON.parse(trimmed);
+    const segments: TranscriptSegment[] = [];
+    for (const event of data.events ?? []) {
+      if (!Array.isArray(event.segs)) continue;
+      const text = event.segs.map((seg) => seg.utf8 ?? "").join("");
+      const segment = toSegment(event.tStartMs ?? 0, event.dDurationMs ?? 0, text);
+      if (segment) segments.push(segment);
+    }
+    return segments;
+  }
+
+  const segments: TranscriptSegment[] = [];
+  for (const match of Array.from(trimmed.matchAll(/<text\b([^>]*)>([\s\S]*?)<\/text>/g))) {
+    const start = parseFloat(match[1].match(/start="([\d.]+)"/)?.[1] ?? "0");
+    const duration = parseFloat(match[1].match(/dur="([\d.]+)"/)?.[1] ?? "0");
+    const segment = toSegment(start * 1000, duration * 1000, decodeXmlEntities(decodeXmlEntities(match[2])));
+    if (segment) segments.push(segment);
+  }
+  if (segments.length > 0) return segments;
+
+  for (const match of Array.from(trimmed.matchAll(/<p\b([^>]*)>([\s\S]*?)<\/p>/g))) {
+    const start = parseInt(match[1].match(/\bt="(\d+)"/)?.[1] ?? "0", 10);
+    const duration = parseInt(match[1].match(/\bd="(\d+)"/)?.[1] ?? "0", 10);
+    const segment = toSegment(start, duration, decodeXmlEntities(match[2]));
+    if (segment) segments.push(segment);
+  }
+  return segments;
+}
+
+/** Downloads a caption track from the timedtext endpoint. Empty when YouTube withholds it. */
+export async function fetchCaptionTrack(track: CaptionTrack): Promise<TranscriptSegment[]> {
+  const url = new URL(track.baseUrl);
+  url.searchParams.set("fmt", "json3");
+  const response = await fetch(url, {
+    headers: {
+      "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+      "Accept-Language": "en-US,en;q=0.9",
+    },
+    signal: AbortSignal.timeout(30000),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch captions: ${response.status} ${response.statusText}`);
+  }
+  return parseTimedText(await response.text());
+}
+
 export async function scrapeMultipleVideos(videoUrls: string[]): Promise<Map<string, ScrapeVideoResult>> {
   const results = new Map<string, ScrapeVideoResult>();
   
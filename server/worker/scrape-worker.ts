@@ -11,8 +11,7 @@
  */
 
 import "dotenv/config";
-import { scrapeYouTubeChannel } from "../youtube-scraper.js";
-import { scrapeTikTokProfile } from "../tiktok-scraper.js";
+import { collectChannelVideos } from "../platforms/index.js";
 import { processScrapedVideos } from "../video-ingestion.js";
 import { storage } from "../storage/index.js";
 import { logger } from "../lib/logger.js";
@@ -29,13 +28,13 @@ async function handleScrape(payload: {
     name: string;
     url: string;
     platform: string;
+    ingestionMode?: string;
     videoCount: number;
   };
   incremental: boolean;
   jobId: string;
 }) {
   const { channel, incremental, jobId } = payload;
-  const platform = channel.platform === "tiktok" ? "tiktok" : "youtube";
 
   try {
     send({ type: "log", payload: { jobId, message: `Fetching videos from ${channel.url}...`, level: "info" } });
@@ -43,26 +42,18 @@ async function handleScrape(payload: {
     const existingVideoIdsList = await storage.getVideoIdsByChannel(channel.id);
     const existingIds = new Set(existingVideoIdsList);
 
-    let scrapedVideos: any[];
-
-    if (platform === "tiktok") {
-      const result = await scrapeTikTokProfile(channel.url);
-      scrapedVideos = result.videos;
-    } else {
-      const { videos: ytVideos } = await scrapeYouTubeChannel(channel.url, {
-        existingVideoIds: existingIds,
-        incremental,
-        maxItems: 60,
-      });
-      scrapedVideos = ytVideos;
-    }
+    const { videos: scrapedVideos } = await collectChannelVideos(channel, {
+      existingVideoIds: existingIds,
+      incremental,
+      maxItems: 60,
+    });
 
     send({ type: "log", payload: { jobId, message: `Found ${scrapedVideos.length} new videos.`, level: "info" } });
     send({ type: "progress", payload: { jobId, videosFound: scrapedVideos.length } });
 
     const result = await processScrapedVideos(scrapedVideos, {
       channelId: channel.id,
-      platform,
+      platform: channel.platform,
       runCategorization: true,
     });
 
@@ -39,7 +39,7 @@ class WorkerManager {
    * when the worker sends back a "result" or "error" for this job.
    */
   async scrapeChannel(
-    channel: { id: string; name: string; url: string; platform: string; videoCount: number },
+    channel: { id: string; name: string; url: string; platform: string; ingestionMode?: string; videoCount: number },
     incremental: boolean,
     jobId: string,
     onMessage?: MessageHandler,
@@ -124,43 +124,32 @@ class WorkerManager {
    * Used on Vercel or when WORKER_MODE=inline.
    */
   private async scrapeInline(
-    channel: { id: string; name: string; url: string; platform: string; videoCount: number },
+    channel: { id: string; name: string; url: string; platform: string; ingestionMode?: string; videoCount: number },
     incremental: boolean,
     jobId: string,
     onMessage?: MessageHandler,
   ): Promise<{ savedCount: number; errors: string[]; existingVideoCount: number }> {
     // Dynamic import to keep the worker module optional at load time
-    const { scrapeYouTubeChannel } = await import("../youtube-scraper.js");
-    const { scrapeTikTokProfile } = await import("../tiktok-scraper.js");
+    const { collectChannelVideos } = await import("../platforms/index.js");
     const { processScrapedVideos } = await import("../video-ingestion.js");
     const { storage } = await import("../storage/index.js");
 
-    const platform = channel.platform === "tiktok" ? "tiktok" : "youtube";
-
     const existingVideoIdsList = await storage.getVideoIdsByChannel(channel.id);
     const existingIds = new Set(existingVideoIdsList);
 
     onMessage?.({ type: "log", payload: { jobId, message: `Fetching videos from ${channel.url}...`, level: "info" } });
 
-    let scrapedVideos: any[];
-
-    if (platform === "tiktok") {
-      const result = await scrapeTikTokProfile(channel.url);
-      scrapedVideos = result.videos;
-    } else {
-      const { videos: ytVideos } = await scrapeYouTubeChannel(channel.url, {
-        existingVideoIds: existingIds,
-        incremental,
-        maxItems: 60,
-      });
-      scrapedVideos = ytVideos;
-    }
+    const { videos: scrapedVideos } = await collectChannelVideos(channel, {
+      existingVideoIds: existingIds,
+      incremental,
+      maxItems: 60,
+    });
 
     onMessage?.({ type: "log", payload: { jobId, message: `Found ${scrapedVideos.length} new videos.`, level: "info" } });
 
     const result = await processScrapedVideos(scrapedVideos, {
       channelId: channel.id,
-      platform,
+      platform: channel.platform,
       runCategorization: true,
     });
 
@@ -13,7 +13,9 @@ import {
   boolean,
   uuid,
   uniqueIndex,
-  doublePrecision
+  doublePrecision,
+  bigint,
+  customType
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -28,13 +30,177 @@ export const users = pgTable("users", {
     .default(sql`gen_random_uuid()`),
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
-  role: text("role").notNull().default("user"), // "admin" or "user"
+  passwordSet: boolean("password_set").notNull().default(true), // false until a provider-created account sets one
+  role: text("role").notNull().default("user"), // see USER_ROLES
   email: text("email"),
+  emailVerifiedAt: timestamp("email_verified_at"),
+  // Two-factor auth (see server/services/two-factor.ts)
+  totpSecret: text("totp_secret"), // base32; set once enrollment is confirmed
+  totpEnabledAt: timestamp("totp_enabled_at"),
+  totpLastStep: integer("totp_last_step"), // last accepted 30-second step, so a code can't be replayed
+  recoveryCodes: jsonb("recovery_codes").$type<string[]>().notNull().default([]), // SHA-256 hashes of unused codes
+  sessionsRevokedAt: timestamp("sessions_revoked_at"), // sessions signed in before this are logged out
   createdAt: timestamp("created_at")
     .notNull()
     .default(sql`now()`),
 });
 
+// Staff roles get admin panel access through their permissions; "user" is a regular account
+export const USER_ROLES = ["admin", "editor", "moderator", "analyst", "viewer", "user"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const PERMISSIONS = [
+  "dashboard.view",
+  "videos.manage",
+  "videos.moderate",
+  "channels.manage",
+  "taxonomy.manage",
+  "appearance.manage",
+  "seo.manage",
+  "inbox.manage",
+  "analytics.view",
+  "analytics.manage",
+  "logs.view",
+  "data.export",
+  "automation.manage",
+  "ai.manage",
+  "settings.manage",
+  "users.manage",
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+// Used until an admin edits a role; admin always has every permission
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, readonly Permission[]> = {
+  admin: PERMISSIONS,
+  editor: [
+    "dashboard.view",
+    "videos.manage",
+    "videos.moderate",
+    "channels.manage",
+    "taxonomy.manage",
+    "appearance.manage",
+    "seo.manage",
+    "inbox.manage",
+    "analytics.view",
+  ],
+  moderator: ["dashboard.view", "videos.moderate", "inbox.manage"],
+  analyst: ["dashboard.view", "analytics.view", "logs.view", "data.export"],
+  viewer: ["dashboard.view", "analytics.view"],
+  user: [],
+};
+
+// Role permissions - Overrides of DEFAULT_ROLE_PERMISSIONS saved from the admin panel
+export const rolePermissions = pgTable("role_permissions", {
+  role: text("role").primaryKey(), // see USER_ROLES, never "admin"
+  permissions: jsonb("permissions").$type<Permission[]>().notNull().default([]),
+  updatedAt: timestamp("updated_at")
+    .notNull()
+    .default(sql`now()`),
+});
+
+export type RolePermissions = typeof rolePermissions.$inferSelect;
+
+export const API_TOKEN_SCOPES = ["videos:read", "categories:read", "playlists:read", "channels:read"] as const;
+export type ApiTokenScope = (typeof API_TOKEN_SCOPES)[number];
+
+// API tokens - Personal tokens for the /api/v1 read API; only a SHA-256 hash of the secret is stored
+export const apiTokens = pgTable("api_tokens", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  tokenPrefix: text("token_prefix").notNull(), // start of the secret, shown to tell tokens apart
+  tokenHash: text("token_hash").notNull().unique(),
+  scopes: jsonb("scopes").$type<ApiTokenScope[]>().notNull().default([]), // see API_TOKEN_SCOPES
+  lastUsedAt: timestamp("last_used_at"),
+  expiresAt: timestamp("expires_at"),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  userIdIdx: index("api_tokens_user_id_idx").on(table.userId),
+}));
+
+export type ApiToken = typeof apiTokens.$inferSelect;
+export type InsertApiToken = Omit<ApiToken, "id" | "createdAt" | "lastUsedAt" | "revokedAt">;
+
+// OIDC providers - Sign-in with Google, GitHub, Keycloak or any OpenID Connect issuer, configured in admin settings
+export const oidcProviders = pgTable("oidc_providers", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  slug: text("slug").notNull().unique(), // used in the callback URL: /api/auth/oidc/:slug/callback
+  name: text("name").notNull(), // shown on the sign-in button
+  issuer: text("issuer"), // discovery runs against <issuer>/.well-known/openid-configuration
+  clientId: text("client_id").notNull(),
+  clientSecret: text("client_secret"),
+  scopes: text("scopes").notNull().default("openid email profile"),
+  // Set these for plain OAuth 2.0 providers without discovery (GitHub); they override discovered values
+  authorizationEndpoint: text("authorization_endpoint"),
+  tokenEndpoint: text("token_endpoint"),
+  userinfoEndpoint: text("userinfo_endpoint"),
+  enabled: boolean("enabled").notNull().default(true),
+  allowSignup: boolean("allow_signup").notNull().default(true), // create an account for unknown identities
+  linkByEmail: boolean("link_by_email").notNull().default(true), // attach to the user with the same verified email
+  roleClaim: text("role_claim"), // dot path into the claims, e.g. "groups" or "realm_access.roles"
+  roleMappings: jsonb("role_mappings").$type<Record<string, UserRole>>().notNull().default({}), // claim value -> role
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+  updatedAt: timestamp("updated_at")
+    .notNull()
+    .default(sql`now()`),
+});
+
+export type OidcProvider = typeof oidcProviders.$inferSelect;
+export type InsertOidcProvider = Omit<OidcProvider, "id" | "createdAt" | "updatedAt">;
+
+export const oidcProviderSchema = z.object({
+  slug: z.string().trim().toLowerCase().regex(/^[a-z0-9-]{2,40}$/, "Use 2-40 lowercase letters, digits or dashes"),
+  name: z.string().trim().min(1).max(60),
+  issuer: z.string().trim().url().nullable().optional(),
+  clientId: z.string().trim().min(1).max(500),
+  clientSecret: z.string().max(2000).nullable().optional(),
+  scopes: z.string().trim().min(1).max(500).default("openid email profile"),
+  authorizationEndpoint: z.string().trim().url().nullable().optional(),
+  tokenEndpoint: z.string().trim().url().nullable().optional(),
+  userinfoEndpoint: z.string().trim().url().nullable().optional(),
+  enabled: z.boolean().default(true),
+  allowSignup: z.boolean().default(true),
+  linkByEmail: z.boolean().default(true),
+  roleClaim: z.string().trim().max(200).nullable().optional(),
+  roleMappings: z.record(z.string(), z.enum(USER_ROLES)).default({}),
+});
+
+// User identities - Links a user to the subject an OIDC provider knows them by
+export const userIdentities = pgTable("user_identities", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  providerId: varchar("provider_id")
+    .notNull()
+    .references(() => oidcProviders.id, { onDelete: "cascade" }),
+  subject: text("subject").notNull(), // the provider's stable user id ("sub")
+  email: text("email"),
+  lastLoginAt: timestamp("last_login_at"),
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  providerSubjectIdx: uniqueIndex("user_identities_provider_subject_idx").on(table.providerId, table.subject),
+  userIdIdx: index("user_identities_user_id_idx").on(table.userId),
+}));
+
+export type UserIdentity = typeof userIdentities.$inferSelect;
+export type InsertUserIdentity = Omit<UserIdentity, "id" | "createdAt">;
+
 // Channels table - YouTube channels and TikTok profiles to scrape
 export const channels = pgTable("channels", {
   id: varchar("id")
@@ -47,6 +213,8 @@ export const channels = pgTable("channels", {
   bannerUrl: text("banner_url"), // Added for storing channel banner/header image
   videoCount: integer("video_count").notNull().default(0),
   platform: text("platform").notNull().default("youtube"), // see SUPPORTED_PLATFORMS
+  ingestionMode: text("ingestion_mode").notNull().default("api"), // YouTube only, see YOUTUBE_INGESTION_MODES
+  trustLevel: text("trust_level").notNull().default("standard"), // see CHANNEL_TRUST_LEVELS
   lastScraped: timestamp("last_scraped"),
   createdAt: timestamp("created_at")
     .notNull()
@@ -95,11 +263,144 @@ export const emailSettings = pgTable("email_settings", {
   imapPassword: text("imap_password"),
   imapSecure: integer("imap_secure").notNull().default(1),
   imapMailbox: text("imap_mailbox"),
+  notificationRecipients: text("notification_recipients"), // Comma-separated admin addresses
+  notificationLocale: text("notification_locale").notNull().default("en"),
+  errorAlertThreshold: integer("error_alert_threshold").notNull().default(25),
+  imapLastUid: integer("imap_last_uid").notNull().default(0), // Highest UID already ingested
+  imapUidValidity: text("imap_uid_validity"), // Resets imapLastUid when the server renumbers the mailbox
+  imapLastPolledAt: timestamp("imap_last_polled_at"),
+  imapLastError: text("imap_last_error"),
+  updatedAt: timestamp("updated_at")
+    .notNull()
+    .default(sql`now()`),
+});
+
+// Inbox messages - mail pulled from the configured IMAP mailbox, grouped into threads
+export const inboxMessages = pgTable("inbox_messages", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  messageId: text("message_id").notNull().unique(), // RFC 5322 Message-ID, used for dedupe and threading
+  threadId: varchar("thread_id").notNull(),
+  threadSubject: text("thread_subject").notNull().default(""), // Subject without Re:/Fwd: prefixes
+  inReplyTo: text("in_reply_to"),
+  references: text("references"), // Space-separated Message-IDs
+  fromAddress: text("from_address").notNull(),
+  fromName: text("from_name"),
+  toAddress: text("to_address"),
+  subject: text("subject").notNull().default(""),
+  textBody: text("text_body").notNull().default(""),
+  status: text("status").notNull().default("unread"), // "unread", "read", "archived"
+  mailbox: text("mailbox"),
+  imapUid: integer("imap_uid"),
+  detectedUrls: jsonb("detected_urls").$type<string[]>().notNull().default([]),
+  receivedAt: timestamp("received_at")
+    .notNull()
+    .default(sql`now()`),
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  threadIdx: index("inbox_messages_thread_idx").on(table.threadId),
+  statusReceivedIdx: index("inbox_messages_status_received_idx").on(table.status, table.receivedAt),
+  threadSubjectIdx: index("inbox_messages_thread_subject_idx").on(table.threadSubject),
+}));
+
+// Email outbox - every outgoing message is queued here and retried with backoff
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  template: text("template").notNull(),
+  locale: text("locale").notNull().default("en"),
+  toAddress: text("to_address").notNull(),
+  subject: text("subject").notNull(),
+  textBody: text("text_body").notNull(),
+  htmlBody: text("html_body").notNull(),
+  status: text("status").notNull().default("pending"), // "pending", "sending", "sent", "failed"
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(6),
+  nextAttemptAt: timestamp("next_attempt_at")
+    .notNull()
+    .default(sql`now()`),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  statusNextAttemptIdx: index("email_outbox_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+}));
+
+export const WEBHOOK_EVENTS = [
+  "video.created",
+  "video.categorized",
+  "channel.added",
+  "scrape_job.completed",
+  "scrape_job.failed",
+  "recommendation.submitted",
+  "error.threshold",
+] as const;
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// Webhook subscriptions - Downstream endpoints that receive signed event payloads
+export const webhookSubscriptions = pgTable("webhook_subscriptions", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  name: text("name").notNull(),
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC-SHA256 key for the X-Nisam-Signature header
+  events: jsonb("events").$type<WebhookEvent[]>().notNull().default([]),
+  enabled: boolean("enabled").notNull().default(true),
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
   updatedAt: timestamp("updated_at")
     .notNull()
     .default(sql`now()`),
 });
 
+export type WebhookSubscription = typeof webhookSubscriptions.$inferSelect;
+export type InsertWebhookSubscription = Omit<WebhookSubscription, "id" | "createdAt" | "updatedAt">;
+
+export const webhookSubscriptionSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  url: z.string().trim().url().refine((url) => /^https?:\/\//i.test(url), "Use an http or https URL"),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, "Pick at least one event"),
+  enabled: z.boolean().default(true),
+});
+
+// Webhook deliveries - One row per event and subscription, retried with backoff until delivered or dead
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  subscriptionId: varchar("subscription_id")
+    .notNull()
+    .references(() => webhookSubscriptions.id, { onDelete: "cascade" }),
+  event: text("event").notNull(),
+  payload: jsonb("payload").$type<Record<string, unknown>>().notNull(),
+  status: text("status").notNull().default("pending"), // "pending", "sending", "delivered", "dead"
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(8),
+  nextAttemptAt: timestamp("next_attempt_at")
+    .notNull()
+    .default(sql`now()`),
+  lastStatusCode: integer("last_status_code"),
+  lastError: text("last_error"),
+  deliveredAt: timestamp("delivered_at"),
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  statusNextAttemptIdx: index("webhook_deliveries_status_next_attempt_idx").on(table.status, table.nextAttemptAt),
+  subscriptionCreatedIdx: index("webhook_deliveries_subscription_created_idx").on(table.subscriptionId, table.createdAt),
+}));
+
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = Pick<WebhookDelivery, "subscriptionId" | "event" | "payload">;
+
 // Videos table - Aggregated video content
 export const videos = pgTable("videos", {
   id: varchar("id")
@@ -121,6 +422,23 @@ export const videos = pgTable("videos", {
   publishDate: text("publish_date"),
   videoType: text("video_type").notNull().default("regular"), // see SUPPORTED_VIDEO_TYPES
   embedUrl: text("embed_url"), // TikTok embed URL (optional, for TikTok videos)
+  // Metadata refresh (see server/services/video-refresh.ts)
+  metadataRefreshedAt: timestamp("metadata_refreshed_at"),
+  nextRefreshAt: timestamp("next_refresh_at"),
+  trendingScore: doublePrecision("trending_score").notNull().default(0), // external views gained per hour
+  hiddenAt: timestamp("hidden_at"), // set when the source video is gone; hidden videos stay out of public lists
+  hiddenReason: text("hidden_reason"), // see VIDEO_HIDDEN_REASONS
+  // Embed availability (see server/services/availability.ts)
+  availability: text("availability").notNull().default("available"), // see VIDEO_AVAILABILITY_STATUSES
+  availabilityCheckedAt: timestamp("availability_checked_at"),
+  availabilityReviewedAt: timestamp("availability_reviewed_at"), // restored by an admin; the checker no longer quarantines it
+  categorizationPromptId: varchar("categorization_prompt_id"), // ai_prompt_templates version that produced the categories and tags; null for the built-in prompt
+  transcriptCheckedAt: timestamp("transcript_checked_at"), // caption tracks looked up, whether or not there were any (see server/services/transcripts.ts)
+  chaptersCheckedAt: timestamp("chapters_checked_at"), // chapters extracted; cleared when the description changes (see server/services/chapters.ts)
+  // Moderation (see server/services/moderation.ts); held videos are also hidden
+  moderationStatus: text("moderation_status").notNull().default("approved"), // see MODERATION_STATUSES
+  moderationReason: text("moderation_reason"), // matched rule or classifier verdict, shown in the admin queue
+  moderatedAt: timestamp("moderated_at"), // automatic check done or admin decision; null while a new video waits for its check
   createdAt: timestamp("created_at")
     .notNull()
     .default(sql`now()`),
@@ -132,8 +450,168 @@ export const videos = pgTable("videos", {
   slugIdx: index("videos_slug_idx").on(table.slug),
   internalViewsIdx: index("videos_internal_views_idx").on(table.internalViewsCount),
   likesIdx: index("videos_likes_count_idx").on(table.likesCount),
+  nextRefreshIdx: index("videos_next_refresh_at_idx").on(table.nextRefreshAt),
+  trendingScoreIdx: index("videos_trending_score_idx").on(table.trendingScore),
+  availabilityCheckedIdx: index("videos_availability_checked_at_idx").on(table.availabilityCheckedAt),
+  moderationStatusIdx: index("videos_moderation_status_idx").on(table.moderationStatus),
+}));
+
+export const VIDEO_AVAILABILITY_STATUSES = ["available", "unavailable", "region_blocked", "age_restricted"] as const;
+export type VideoAvailability = (typeof VIDEO_AVAILABILITY_STATUSES)[number];
+
+// Videos that can't be played are quarantined with the availability status as the reason;
+// videos held by moderation carry their moderation status
+export const VIDEO_HIDDEN_REASONS = [
+  "deleted",
+  "private",
+  "unavailable",
+  "region_blocked",
+  "age_restricted",
+  "pending_review",
+  "rejected",
+] as const;
+export type VideoHiddenReason = (typeof VIDEO_HIDDEN_REASONS)[number];
+
+// Only approved videos are public
+export const MODERATION_STATUSES = ["approved", "pending_review", "rejected"] as const;
+export type ModerationStatus = (typeof MODERATION_STATUSES)[number];
+
+// trusted: published without checks; standard: checked by rules and the AI; untrusted: every video waits for an admin
+export const CHANNEL_TRUST_LEVELS = ["trusted", "standard", "untrusted"] as const;
+export type ChannelTrustLevel = (typeof CHANNEL_TRUST_LEVELS)[number];
+
+export const MODERATION_RULE_ACTIONS = ["reject", "review"] as const;
+export type ModerationRuleAction = (typeof MODERATION_RULE_ACTIONS)[number];
+
+// Moderation rules - Keywords or patterns matched against the title and description of new videos
+export const moderationRules = pgTable("moderation_rules", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  pattern: text("pattern").notNull(), // a word or phrase, or a regular expression when isRegex
+  isRegex: boolean("is_regex").notNull().default(false),
+  action: text("action").notNull().default("review"), // see MODERATION_RULE_ACTIONS
+  note: text("note"),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+});
+
+export type ModerationRule = typeof moderationRules.$inferSelect;
+export type InsertModerationRule = Omit<ModerationRule, "id" | "createdAt">;
+
+// Postgres tsvector, only ever written by the search triggers (see migrations/0016_video_search.sql)
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+// Video search index - Weighted full-text document per video (title > tags > channel > description)
+export const videoSearchIndex = pgTable("video_search_index", {
+  videoId: varchar("video_id")
+    .primaryKey()
+    .references(() => videos.id, { onDelete: "cascade" }),
+  document: tsvector("document").notNull(),
+  updatedAt: timestamp("updated_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  documentIdx: index("video_search_index_document_idx").using("gin", table.document),
+}));
+
+// pgvector column without a fixed dimension, so switching embedding models needs no migration
+const vector = customType<{ data: number[]; driverData: string }>({
+  dataType() {
+    return "vector";
+  },
+  toDriver(value) {
+    return JSON.stringify(value);
+  },
+  fromDriver(value) {
+    return JSON.parse(value);
+  },
+});
+
+// Video embeddings - One vector per video for related videos and semantic search (see server/services/embeddings.ts)
+export const videoEmbeddings = pgTable("video_embeddings", {
+  videoId: varchar("video_id")
+    .primaryKey()
+    .references(() => videos.id, { onDelete: "cascade" }),
+  model: text("model").notNull(), // vectors are only ever compared within one model
+  dimensions: integer("dimensions").notNull(),
+  contentHash: varchar("content_hash", { length: 64 }).notNull(), // sha256 of the embedded text; unchanged text isn't re-embedded
+  embedding: vector("embedding").notNull(),
+  updatedAt: timestamp("updated_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  modelIdx: index("video_embeddings_model_idx").on(table.model),
+}));
+
+export type VideoEmbedding = typeof videoEmbeddings.$inferSelect;
+export type InsertVideoEmbedding = Omit<VideoEmbedding, "updatedAt">;
+
+export const TRANSCRIPT_SOURCES = ["manual", "auto"] as const;
+export type TranscriptSource = (typeof TRANSCRIPT_SOURCES)[number];
+
+export interface TranscriptSegment {
+  start: number; // seconds from the start of the video
+  duration: number;
+  text: string;
+}
+
+// Video transcripts - Caption tracks per language, fed to the AI and shown on the video page (see server/services/transcripts.ts)
+export const videoTranscripts = pgTable("video_transcripts", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  videoId: varchar("video_id")
+    .notNull()
+    .references(() => videos.id, { onDelete: "cascade" }),
+  languageCode: text("language_code").notNull(), // as the platform names the track, e.g. "en" or "sr"
+  source: text("source").notNull(), // see TRANSCRIPT_SOURCES; "auto" is speech recognition
+  segments: jsonb("segments").$type<TranscriptSegment[]>().notNull(),
+  text: text("text").notNull(), // segments joined, for prompts and structured data
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+  updatedAt: timestamp("updated_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  videoLanguageUnique: uniqueIndex("video_transcripts_video_language_idx").on(table.videoId, table.languageCode),
+}));
+
+export type VideoTranscript = typeof videoTranscripts.$inferSelect;
+export type InsertVideoTranscript = Omit<VideoTranscript, "id" | "createdAt" | "updatedAt">;
+
+// description: timestamps the uploader wrote; ai: segmented from the transcript
+export const CHAPTER_SOURCES = ["description", "ai"] as const;
+export type ChapterSource = (typeof CHAPTER_SOURCES)[number];
+
+// Video chapters - Key moments shown on the video page and as Clip markup (see server/services/chapters.ts)
+export const videoChapters = pgTable("video_chapters", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  videoId: varchar("video_id")
+    .notNull()
+    .references(() => videos.id, { onDelete: "cascade" }),
+  startSeconds: integer("start_seconds").notNull(),
+  title: text("title").notNull(),
+  source: text("source").notNull(), // see CHAPTER_SOURCES
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  videoStartIdx: index("video_chapters_video_start_idx").on(table.videoId, table.startSeconds),
 }));
 
+export type VideoChapter = typeof videoChapters.$inferSelect;
+export type InsertVideoChapter = Omit<VideoChapter, "id" | "createdAt">;
+
 // Base Categories table (multilingual support)
 export const categories = pgTable("categories", {
   id: varchar("id")
@@ -221,7 +699,8 @@ export const tagTranslations = pgTable("tag_translations", {
     .default(sql`now()`),
 }, (table) => ({
   tagLangUnique: unique("tag_translations_tag_lang_unique").on(table.tagId, table.languageCode),
-  tagNameUnique: unique("tag_translations_name_lang_unique").on(table.tagName, table.languageCode),
+  // Not unique: every video has its own tag row, so one name appears once per video
+  tagNameLangIdx: index("tag_translations_name_lang_idx").on(table.tagName, table.languageCode),
   tagIdIdx: index("tag_translations_tag_id_idx").on(table.tagId),
   languageCodeIdx: index("tag_translations_language_idx").on(table.languageCode),
 }));
@@ -241,6 +720,18 @@ export const schedulerSettings = pgTable("scheduler_settings", {
     .default(sql`now()`),
 });
 
+// YouTube Data API quota usage - one row per quota day (YouTube resets at midnight Pacific)
+export const youtubeApiQuota = pgTable("youtube_api_quota", {
+  day: text("day").primaryKey(), // YYYY-MM-DD in America/Los_Angeles
+  units: integer("units").notNull().default(0),
+  calls: integer("calls").notNull().default(0),
+  byMethod: jsonb("by_method").$type<Record<string, number>>().notNull().default(sql`'{}'::jsonb`),
+  exhaustedAt: timestamp("exhausted_at"), // set when the API answered quotaExceeded
+  updatedAt: timestamp("updated_at")
+    .notNull()
+    .default(sql`now()`),
+});
+
 // Scrape jobs table - Track scraping progress
 export const scrapeJobs = pgTable("scrape_jobs", {
   id: varchar("id")
@@ -279,10 +770,14 @@ export const playlists = pgTable("playlists", {
   name: text("name").notNull(),
   description: text("description"),
   videoCount: integer("video_count").notNull().default(0),
+  ownerId: varchar("owner_id").references(() => users.id, { onDelete: "cascade" }), // null = editorial playlist managed by admins
+  visibility: text("visibility").notNull().default("public"), // "public", "unlisted", "private"
   createdAt: timestamp("created_at")
     .notNull()
     .default(sql`now()`),
-});
+}, (table) => ({
+  ownerIdx: index("playlists_owner_idx").on(table.ownerId),
+}));
 
 // Playlist-Video junction table (many-to-many with ordering)
 export const playlistVideos = pgTable(
@@ -472,6 +967,25 @@ export const seoABTests = pgTable("seo_ab_tests", {
     .default(sql`now()`),
 });
 
+// Per-variant counters of an SEO A/B test, incremented in place on every counted page view
+export const seoAbTestCounts = pgTable(
+  "seo_ab_test_counts",
+  {
+    testId: varchar("test_id")
+      .notNull()
+      .references(() => seoABTests.id, { onDelete: "cascade" }),
+    variant: text("variant").notNull(), // "A" | "B"
+    impressions: integer("impressions").notNull().default(0),
+    clicks: integer("clicks").notNull().default(0),
+    updatedAt: timestamp("updated_at")
+      .notNull()
+      .default(sql`now()`),
+  },
+  (table) => ({
+    pk: primaryKey({ columns: [table.testId, table.variant] }),
+  }),
+);
+
 // SEO Competitors table
 export const seoCompetitors = pgTable("seo_competitors", {
   id: varchar("id")
@@ -499,16 +1013,133 @@ export const videoLikes = pgTable(
     videoId: varchar("video_id")
       .notNull()
       .references(() => videos.id, { onDelete: "cascade" }),
-    userIdentifier: text("user_identifier").notNull(), // IP address or session ID
+    userIdentifier: text("user_identifier").notNull(), // "user:<id>" when signed in, otherwise the anonymous fingerprint
+    userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
     createdAt: timestamp("created_at")
       .notNull()
       .default(sql`now()`),
   },
   (table) => ({
     pk: primaryKey({ columns: [table.videoId, table.userIdentifier] }),
+    userIdx: index("video_likes_user_idx").on(table.userId),
   }),
 );
 
+// Watch history - one row per signed-in user and video, with the last playback position
+export const watchHistory = pgTable("watch_history", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  userId: varchar("user_id")
+    .notNull()
+    .references(() => users.id, { onDelete: "cascade" }),
+  videoId: varchar("video_id")
+    .notNull()
+    .references(() => videos.id, { onDelete: "cascade" }),
+  positionSeconds: integer("position_seconds").notNull().default(0),
+  durationSeconds: integer("duration_seconds"),
+  watchedAt: timestamp("watched_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  userVideoIdx: uniqueIndex("watch_history_user_video_idx").on(table.userId, table.videoId),
+  userWatchedIdx: index("watch_history_user_watched_idx").on(table.userId, table.watchedAt),
+}));
+
+// Channel subscriptions - "user:<id>" for accounts, otherwise the anonymous identifier
+export const channelSubscriptions = pgTable("channel_subscriptions", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  subscriberKey: text("subscriber_key").notNull(),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  channelId: varchar("channel_id")
+    .notNull()
+    .references(() => channels.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  subscriberChannelIdx: uniqueIndex("channel_subscriptions_subscriber_channel_idx").on(table.subscriberKey, table.channelId),
+  channelIdx: index("channel_subscriptions_channel_idx").on(table.channelId),
+}));
+
+export const NOTIFICATION_TYPES = ["new_video"] as const;
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+// Notifications for subscribers, one row per recipient and video
+export const notifications = pgTable("notifications", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  subscriberKey: text("subscriber_key").notNull(),
+  type: text("type").notNull().default("new_video"), // see NOTIFICATION_TYPES
+  channelId: varchar("channel_id")
+    .notNull()
+    .references(() => channels.id, { onDelete: "cascade" }),
+  videoId: varchar("video_id")
+    .notNull()
+    .references(() => videos.id, { onDelete: "cascade" }),
+  readAt: timestamp("read_at"),
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  subscriberVideoIdx: uniqueIndex("notifications_subscriber_video_idx").on(table.subscriberKey, table.type, table.videoId),
+  subscriberCreatedIdx: index("notifications_subscriber_created_idx").on(table.subscriberKey, table.createdAt),
+}));
+
+export const WEBSUB_STATUSES = ["pending", "subscribed", "denied", "error"] as const;
+export type WebSubStatus = (typeof WEBSUB_STATUSES)[number];
+
+// WebSub (PubSubHubbub) push subscriptions - one per YouTube channel
+export const websubSubscriptions = pgTable("websub_subscriptions", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  channelId: varchar("channel_id")
+    .notNull()
+    .unique()
+    .references(() => channels.id, { onDelete: "cascade" }),
+  topicUrl: text("topic_url").notNull(),
+  hubUrl: text("hub_url").notNull(),
+  secret: text("secret").notNull(), // HMAC key shared with the hub
+  status: text("status").notNull().default("pending"), // see WEBSUB_STATUSES
+  leaseSeconds: integer("lease_seconds"),
+  leaseExpiresAt: timestamp("lease_expires_at"),
+  lastRequestedAt: timestamp("last_requested_at"),
+  verifiedAt: timestamp("verified_at"),
+  lastNotificationAt: timestamp("last_notification_at"),
+  notificationCount: integer("notification_count").notNull().default(0),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+  updatedAt: timestamp("updated_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  leaseExpiresIdx: index("websub_subscriptions_lease_expires_idx").on(table.leaseExpiresAt),
+}));
+
+// View-count snapshots - External view counts captured on every metadata refresh
+export const videoViewSnapshots = pgTable("video_view_snapshots", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  videoId: varchar("video_id")
+    .notNull()
+    .references(() => videos.id, { onDelete: "cascade" }),
+  viewCount: bigint("view_count", { mode: "number" }).notNull(),
+  capturedAt: timestamp("captured_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  videoCapturedIdx: index("video_view_snapshots_video_captured_idx").on(table.videoId, table.capturedAt),
+}));
+
+export type VideoViewSnapshot = typeof videoViewSnapshots.$inferSelect;
+
 // Video views table - Track internal video views
 export const videoViews = pgTable("video_views", {
   id: varchar("id")
@@ -696,9 +1327,14 @@ export const insertUserSchema = createInsertSchemaAny(users).omit({
 
 // Centralized list of supported video sources. Keep in sync with both
 // channel.platform (where a video came from) and video.videoType (how to render it).
-export const SUPPORTED_PLATFORMS = ["youtube", "tiktok", "x", "instagram"] as const;
+export const SUPPORTED_PLATFORMS = ["youtube", "tiktok", "x", "instagram", "vimeo", "dailymotion", "rss"] as const;
 export type SupportedPlatform = (typeof SUPPORTED_PLATFORMS)[number];
 
+// How YouTube channels are listed: "api" uses the Data API while a key and
+// quota are available and falls back to HTML scraping; "html" never uses the API.
+export const YOUTUBE_INGESTION_MODES = ["api", "html"] as const;
+export type YouTubeIngestionMode = (typeof YOUTUBE_INGESTION_MODES)[number];
+
 export const insertChannelSchema = createInsertSchemaAny(channels).omit({
   id: true,
   createdAt: true,
@@ -706,6 +1342,8 @@ export const insertChannelSchema = createInsertSchemaAny(channels).omit({
   lastScraped: true,
 }).extend({
   platform: z.enum(SUPPORTED_PLATFORMS).optional().default("youtube"),
+  ingestionMode: z.enum(YOUTUBE_INGESTION_MODES).optional(),
+  trustLevel: z.enum(CHANNEL_TRUST_LEVELS).optional(),
 });
 
 export const insertChannelRecommendationSchema = createInsertSchemaAny(
@@ -727,12 +1365,27 @@ export const insertChannelRecommendationSchema = createInsertSchemaAny(
 export const insertEmailSettingsSchema = createInsertSchemaAny(emailSettings).omit({
   id: true,
   updatedAt: true,
+  imapLastUid: true,
+  imapUidValidity: true,
+  imapLastPolledAt: true,
+  imapLastError: true,
 }).extend({
   mode: z.enum(["smtp", "imap"]).optional().default("smtp"),
+  notificationLocale: z.enum(["en", "sr-Latn"]).optional(),
+  errorAlertThreshold: z.number().int().min(1).max(100000).optional(),
 });
 
 // videoType is broader than platform: YouTube has both "regular" and "youtube_short"
-export const SUPPORTED_VIDEO_TYPES = ["regular", "youtube_short", "tiktok", "x", "instagram_reel"] as const;
+export const SUPPORTED_VIDEO_TYPES = [
+  "regular",
+  "youtube_short",
+  "tiktok",
+  "x",
+  "instagram_reel",
+  "vimeo",
+  "dailymotion",
+  "rss",
+] as const;
 export type SupportedVideoType = (typeof SUPPORTED_VIDEO_TYPES)[number];
 
 export const insertVideoSchema = createInsertSchemaAny(videos).omit({
@@ -782,6 +1435,45 @@ export type InsertChannelRecommendation = z.infer<
 export type EmailSettings = typeof emailSettings.$inferSelect;
 export type InsertEmailSettings = z.infer<typeof insertEmailSettingsSchema>;
 
+export const EMAIL_LOCALES = ["en", "sr-Latn"] as const;
+export type EmailLocale = (typeof EMAIL_LOCALES)[number];
+
+export const EMAIL_TEMPLATES = [
+  "test",
+  "channel_recommendation",
+  "suggestion_submitted",
+  "scrape_job_failed",
+  "error_threshold",
+  "password_reset",
+  "email_verification",
+  "email_changed",
+] as const;
+export type EmailTemplate = (typeof EMAIL_TEMPLATES)[number];
+
+export const INBOX_MESSAGE_STATUSES = ["unread", "read", "archived"] as const;
+export type InboxMessageStatus = (typeof INBOX_MESSAGE_STATUSES)[number];
+
+export type InboxMessage = typeof inboxMessages.$inferSelect;
+export type InsertInboxMessage = Omit<typeof inboxMessages.$inferInsert, "id" | "createdAt">;
+
+export type InboxThreadSummary = {
+  threadId: string;
+  subject: string;
+  fromAddress: string;
+  fromName: string | null;
+  snippet: string;
+  messageCount: number;
+  unreadCount: number;
+  archived: boolean;
+  lastReceivedAt: Date;
+};
+
+export type EmailOutboxEntry = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutboxEntry = Omit<
+  typeof emailOutbox.$inferInsert,
+  "id" | "createdAt" | "status" | "attempts" | "sentAt" | "lastError"
+>;
+
 export type Video = typeof videos.$inferSelect;
 export type InsertVideo = z.infer<typeof insertVideoSchema>;
 
@@ -810,15 +1502,71 @@ export type InsertSchedulerSettings = z.infer<
   typeof insertSchedulerSettingsSchema
 >;
 
+export const PLAYLIST_VISIBILITIES = ["public", "unlisted", "private"] as const;
+export type PlaylistVisibility = (typeof PLAYLIST_VISIBILITIES)[number];
+
 export const insertPlaylistSchema = createInsertSchemaAny(playlists).omit({
   id: true,
   createdAt: true,
   videoCount: true,
+  ownerId: true,
+}).extend({
+  name: z.string().trim().min(1).max(120),
+  description: z.string().max(1000).nullable().optional(),
+  visibility: z.enum(PLAYLIST_VISIBILITIES).optional(),
 });
 
 export type Playlist = typeof playlists.$inferSelect;
 export type InsertPlaylist = z.infer<typeof insertPlaylistSchema>;
 
+export type WatchHistoryEntry = typeof watchHistory.$inferSelect;
+
+export type WatchHistoryItem = WatchHistoryEntry & {
+  video: VideoWithRelations;
+};
+
+export const watchProgressSchema = z.object({
+  positionSeconds: z.number().int().min(0).max(24 * 60 * 60),
+  durationSeconds: z.number().int().min(1).max(24 * 60 * 60).nullable().optional(),
+});
+export type WatchProgress = z.infer<typeof watchProgressSchema>;
+
+/** One visitor's views and like of a video, from video_views and video_likes */
+export type EngagementSignal = {
+  videoId: string;
+  views: number;
+  liked: boolean;
+  lastEngagedAt: Date;
+};
+
+export type ContinueWatchingVideo = VideoWithLocalizedRelations & { resumeSeconds: number };
+
+/**
+ * Home page rows built from one visitor's history. Empty, with
+ * `personalized: false`, for visitors without any.
+ */
+export type PersonalizedHomeRows = {
+  personalized: boolean;
+  continueWatching: ContinueWatchingVideo[];
+  becauseYouWatched: {
+    seed: Pick<VideoWithLocalizedRelations, "id" | "title" | "slug">;
+    videos: VideoWithLocalizedRelations[];
+  } | null;
+  fromChannelsYouLike: VideoWithLocalizedRelations[];
+  /** Trending re-ranked by the visitor's affinity, with one slot kept for something new to them */
+  trending: VideoWithLocalizedRelations[];
+};
+
+export type ChannelSubscription = typeof channelSubscriptions.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type WebSubSubscription = typeof websubSubscriptions.$inferSelect;
+export type InsertWebSubSubscription = Omit<typeof websubSubscriptions.$inferInsert, "id" | "createdAt" | "updatedAt">;
+
+export type NotificationWithVideo = Notification & {
+  video: Pick<Video, "id" | "slug" | "title" | "thumbnailUrl" | "publishDate">;
+  channel: Pick<Channel, "id" | "name" | "thumbnailUrl">;
+};
+
 export type PlaylistVideo = typeof playlistVideos.$inferSelect;
 
 // Extended types for localized data
@@ -850,6 +1598,56 @@ export type PlaylistWithVideos = Playlist & {
   videos: VideoWithRelations[];
 };
 
+// Search API (GET /api/search)
+export const VIDEO_SEARCH_SORTS = ["relevance", "publishDate", "views"] as const;
+export type VideoSearchSort = (typeof VIDEO_SEARCH_SORTS)[number];
+
+// "semantic" ranks by embedding similarity to the query instead of matching its words
+export const VIDEO_SEARCH_MODES = ["keyword", "semantic"] as const;
+export type VideoSearchMode = (typeof VIDEO_SEARCH_MODES)[number];
+
+export const videoSearchQuerySchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  lang: z.string().max(10).optional().default("en"),
+  platform: z.enum(SUPPORTED_PLATFORMS).optional(),
+  videoType: z.enum(SUPPORTED_VIDEO_TYPES).optional(),
+  categoryId: z.string().optional(),
+  channelId: z.string().optional(),
+  sort: z.enum(VIDEO_SEARCH_SORTS).optional().default("relevance"),
+  mode: z.enum(VIDEO_SEARCH_MODES).optional().default("keyword"),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(24),
+  offset: z.coerce.number().int().min(0).optional().default(0),
+});
+
+export type VideoSearchQuery = z.infer<typeof videoSearchQuerySchema>;
+
+// Highlighted text is returned as segments so clients never render raw HTML
+export type HighlightSegment = { text: string; match: boolean };
+
+export type VideoSearchHit = {
+  video: VideoWithRelations;
+  score: number;
+  highlights: {
+    title: HighlightSegment[];
+    snippet: HighlightSegment[];
+  };
+};
+
+export type SearchFacetBucket = { value: string; label: string; count: number };
+
+export type VideoSearchResult = {
+  items: VideoSearchHit[];
+  total: number;
+  /** The mode that produced the results; semantic searches fall back to keyword when embeddings are unavailable. */
+  mode?: VideoSearchMode;
+  facets: {
+    platform: SearchFacetBucket[];
+    videoType: SearchFacetBucket[];
+    category: SearchFacetBucket[];
+    channel: SearchFacetBucket[];
+  };
+};
+
 export const insertSeoSettingsSchema = createInsertSchemaAny(seoSettings).omit({
   id: true,
   updatedAt: true,
@@ -857,6 +1655,40 @@ export const insertSeoSettingsSchema = createInsertSchemaAny(seoSettings).omit({
 
 export type SeoSettings = typeof seoSettings.$inferSelect;
 export type InsertSeoSettings = z.infer<typeof insertSeoSettingsSchema>;
+export type SeoMetaTag = typeof seoMetaTags.$inferSelect;
+export type SeoAbTest = typeof seoABTests.$inferSelect;
+export type SeoRedirect = typeof seoRedirects.$inferSelect;
+
+// Drafts start on their startDate (or when an admin starts them) and complete on endDate
+export const SEO_AB_TEST_STATUSES = ["draft", "running", "paused", "completed"] as const;
+export type SeoAbTestStatus = (typeof SEO_AB_TEST_STATUSES)[number];
+export const SEO_AB_TEST_ELEMENTS = ["title", "description", "og_title", "og_description"] as const;
+export type SeoAbTestElement = (typeof SEO_AB_TEST_ELEMENTS)[number];
+export type SeoAbTestVariant = "A" | "B";
+
+export type SeoAbTestCount = typeof seoAbTestCounts.$inferSelect;
+
+export interface SeoAbVariantStats {
+  /** People's page views of the variant */
+  impressions: number;
+  /** Of those, visitors who came from a search engine or social site showing this variant */
+  clicks: number;
+  ctr: number;
+}
+
+// Stored in seo_ab_tests.results; significance is a two-proportion z-test of B's CTR against A's
+export interface SeoAbTestResults {
+  variantA: SeoAbVariantStats;
+  variantB: SeoAbVariantStats;
+  zScore?: number | null;
+  pValue?: number | null;
+  significant?: boolean;
+  winner?: SeoAbTestVariant | null;
+  /** The variant each search engine and social site is served, e.g. { google: "A" } */
+  sources?: Record<string, SeoAbTestVariant>;
+  updatedAt?: string;
+  promoted?: { variant: SeoAbTestVariant; at: string };
+}
 
 export const insertScrapeJobSchema = createInsertSchemaAny(scrapeJobs).omit({
   id: true,
@@ -864,6 +1696,7 @@ export const insertScrapeJobSchema = createInsertSchemaAny(scrapeJobs).omit({
 });
 
 export type ScrapeJob = typeof scrapeJobs.$inferSelect;
+export type YouTubeApiQuota = typeof youtubeApiQuota.$inferSelect;
 export type InsertScrapeJob = z.infer<typeof insertScrapeJobSchema>;
 
 export type VideoLike = typeof videoLikes.$inferSelect;
@@ -909,6 +1742,7 @@ export const systemSettings = pgTable("system_settings", {
   
   // YouTube API
   youtubeApiKey: text("youtube_api_key"),
+  youtubeQuotaDailyLimit: integer("youtube_quota_daily_limit").notNull().default(10000), // units per Pacific-time day
 
   updatedAt: timestamp("updated_at")
     .notNull()
@@ -1037,6 +1871,8 @@ export const visitorSessions = pgTable("visitor_sessions", {
   durationSeconds: integer("duration_seconds").default(0),
   isBounce: boolean("is_bounce").default(true),
   consentGranted: boolean("consent_granted").default(false),
+  landingPath: text("landing_path"),
+  pageViewCount: integer("page_view_count").notNull().default(0),
 }, (table) => ({
   startedAtIdx: index("visitor_sessions_started_at_idx").on(table.startedAt),
   visitorIdIdx: index("visitor_sessions_visitor_id_idx").on(table.visitorId),
@@ -1143,6 +1979,35 @@ export const insertPageViewSchema = createInsertSchemaAny(pageViews).omit({
 export type PageView = typeof pageViews.$inferSelect;
 export type InsertPageView = z.infer<typeof insertPageViewSchema>;
 
+// First-party visitor analytics report (see server/services/visitor-analytics.ts)
+export const VISITOR_FUNNEL_STEPS = ["visit", "video_view", "engaged_watch", "interaction"] as const;
+export type VisitorFunnelStep = (typeof VISITOR_FUNNEL_STEPS)[number];
+// A video page viewed this long counts as an engaged watch
+export const ENGAGED_WATCH_SECONDS = 30;
+// Custom events that count as interacting with the content
+export const VISITOR_INTERACTION_EVENTS = ["video_like", "channel_follow"] as const;
+
+export interface VisitorAnalyticsReport {
+  since: string;
+  until: string;
+  totals: {
+    sessions: number;
+    visitors: number;
+    pageViews: number;
+    bounceRate: number; // 0..1
+    avgSessionSeconds: number;
+    consentRate: number; // share of sessions with analytics consent, 0..1
+  };
+  daily: Array<{ day: string; sessions: number; pageViews: number }>;
+  sources: Array<{ source: string; sessions: number }>;
+  devices: Array<{ device: string; sessions: number }>;
+  browsers: Array<{ browser: string; sessions: number }>;
+  topPaths: Array<{ path: string; views: number; avgSeconds: number }>;
+  funnel: Array<{ step: VisitorFunnelStep; sessions: number }>;
+  // Weekly cohorts of consenting visitors; weeks[i] is the share active i weeks after their first visit
+  retention: Array<{ cohort: string; visitors: number; weeks: number[] }>;
+}
+
 // Tag Images table - Store images for unique tag names
 export const tagImages = pgTable("tag_images", {
   id: varchar("id")
@@ -1156,6 +2021,26 @@ export const tagImages = pgTable("tag_images", {
     .default(sql`now()`),
 });
 
+// Tag merge proposals - clusters of near-duplicate tag names for admin review
+export const tagMergeProposals = pgTable("tag_merge_proposals", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  targetName: text("target_name").notNull(), // English name the sources are merged into
+  sourceNames: jsonb("source_names").$type<string[]>().notNull(),
+  reason: text("reason").notNull(), // see TAG_MERGE_REASONS
+  score: doublePrecision("score").notNull(), // 0..1, lowest similarity within the cluster
+  videoCount: integer("video_count").notNull().default(0), // videos tagged with a source name
+  status: text("status").notNull().default("pending"), // see TAG_MERGE_STATUSES
+  resolvedBy: varchar("resolved_by").references(() => users.id, { onDelete: "set null" }),
+  resolvedAt: timestamp("resolved_at"),
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  statusIdx: index("tag_merge_proposals_status_idx").on(table.status),
+}));
+
 // Session table for connect-pg-simple
 export const session = pgTable("session", {
   sid: varchar("sid").primaryKey(),
@@ -1173,6 +2058,36 @@ export const insertTagImageSchema = createInsertSchemaAny(tagImages).omit({
 export type TagImage = typeof tagImages.$inferSelect;
 export type InsertTagImage = z.infer<typeof insertTagImageSchema>;
 
+// same_name: equal after case, accents and plurals; translation: one is the
+// other's name in another language; similar: close spelling or a prefix
+export const TAG_MERGE_REASONS = ["same_name", "translation", "similar"] as const;
+export type TagMergeReason = (typeof TAG_MERGE_REASONS)[number];
+export const TAG_MERGE_STATUSES = ["pending", "applied", "dismissed"] as const;
+export type TagMergeStatus = (typeof TAG_MERGE_STATUSES)[number];
+
+export type TagMergeProposal = typeof tagMergeProposals.$inferSelect;
+export type InsertTagMergeProposal = Pick<TagMergeProposal, "targetName" | "sourceNames" | "reason" | "score" | "videoCount">;
+
+/** What mergeTags rewrites, worked out from the current tags by the tag normalization service */
+export type TagMerge = {
+  /** Tag rows (one per video) folded into the target */
+  sourceTagIds: string[];
+  /** The target's name per language; the English one identifies it */
+  target: { languageCode: string; tagName: string }[];
+  /** Tag images of the source names; one moves to the target when it has none */
+  sourceImageNames: string[];
+  /** Old tag page URLs to the target's */
+  redirects: { fromUrl: string; toUrl: string }[];
+};
+
+export type TagMergeResult = {
+  videosRetagged: number;
+  /** Source rows dropped because the video already had the target tag */
+  duplicatesRemoved: number;
+  imageMoved: boolean;
+  redirects: number;
+};
+
 // Hero Videos insert schema
 export const insertHeroVideoSchema = createInsertSchemaAny(heroVideos).omit({
   id: true,
@@ -1231,9 +2146,98 @@ export const aiSettings = pgTable("ai_settings", {
   ollamaApiKey: text("ollama_api_key"), // Optional API Key for remote Ollama
   openrouterApiKey: text("openrouter_api_key"),
   openrouterModel: text("openrouter_model").default("openai/gpt-4o"),
+  embeddingModel: text("embedding_model"), // empty uses the provider's default embedding model
+  taxonomyMode: text("taxonomy_mode").notNull().default("open"), // see TAXONOMY_MODES
+  failoverProviders: jsonb("failover_providers").$type<AiProvider[]>().notNull().default([]), // tried in order after provider
+  dailyBudgetUsd: doublePrecision("daily_budget_usd"), // null: no limit; UTC day
+  monthlyBudgetUsd: doublePrecision("monthly_budget_usd"), // null: no limit; UTC month
+  aiChapters: boolean("ai_chapters").notNull().default(false), // segment long videos without description chapters from their transcript
+  aiModeration: boolean("ai_moderation").notNull().default(false), // classify new videos of standard channels for unsafe or off-topic content
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
 });
 
+export const AI_PROVIDERS = ["openai", "ollama", "openrouter"] as const;
+export type AiProvider = (typeof AI_PROVIDERS)[number];
+
+// open: the AI names categories freely and new ones are created;
+// controlled: it may only pick from the existing categories
+export const TAXONOMY_MODES = ["open", "controlled"] as const;
+export type TaxonomyMode = (typeof TAXONOMY_MODES)[number];
+
+// AI prompt templates - Every saved edit is a new version; one version per key is active
+export const aiPromptTemplates = pgTable("ai_prompt_templates", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  key: text("key").notNull(), // see AI_PROMPT_KEYS
+  version: integer("version").notNull(),
+  body: text("body").notNull(), // {{variable}} placeholders, see server/services/prompt-templates.ts
+  note: text("note"),
+  isActive: boolean("is_active").notNull().default(false),
+  createdBy: varchar("created_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  keyVersionUnique: uniqueIndex("ai_prompt_templates_key_version_idx").on(table.key, table.version),
+}));
+
+export const AI_PROMPT_KEYS = ["categorization"] as const;
+export type AiPromptKey = (typeof AI_PROMPT_KEYS)[number];
+
+// AI usage events - One row per provider call, including failed ones
+export const aiUsageEvents = pgTable("ai_usage_events", {
+  id: varchar("id")
+    .primaryKey()
+    .default(sql`gen_random_uuid()`),
+  feature: text("feature").notNull(), // see AI_FEATURES
+  provider: text("provider").notNull(), // see AI_PROVIDERS
+  model: text("model").notNull(),
+  promptTokens: integer("prompt_tokens").notNull().default(0),
+  completionTokens: integer("completion_tokens").notNull().default(0),
+  latencyMs: integer("latency_ms").notNull().default(0),
+  costUsd: doublePrecision("cost_usd").notNull().default(0), // estimated, see server/services/ai-usage.ts
+  outcome: text("outcome").notNull(), // "success" | "error"
+  error: text("error"),
+  createdAt: timestamp("created_at")
+    .notNull()
+    .default(sql`now()`),
+}, (table) => ({
+  createdAtIdx: index("ai_usage_events_created_at_idx").on(table.createdAt),
+}));
+
+export const AI_FEATURES = ["categorization", "prompt_test", "summary", "seo", "translation", "embedding", "chapters", "moderation"] as const;
+export type AiFeature = (typeof AI_FEATURES)[number];
+
+export type AiUsageEvent = typeof aiUsageEvents.$inferSelect;
+export type InsertAiUsageEvent = Omit<AiUsageEvent, "id" | "createdAt" | "error"> & { error?: string | null };
+
+export interface AiUsageTotals {
+  calls: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  costUsd: number;
+}
+
+export interface AiBudgetStatus {
+  dailyBudgetUsd: number | null;
+  monthlyBudgetUsd: number | null;
+  spentTodayUsd: number;
+  spentMonthUsd: number;
+  // The budget that is used up; AI calls and jobs are paused while set
+  exceeded: "daily" | "monthly" | null;
+}
+
+export interface AiUsageReport {
+  since: string;
+  until: string;
+  totals: AiUsageTotals & { avgLatencyMs: number };
+  daily: Array<AiUsageTotals & { day: string }>;
+  byFeature: Array<AiUsageTotals & { feature: string }>;
+  byModel: Array<AiUsageTotals & { provider: string; model: string; avgLatencyMs: number }>;
+}
+
 // AI Models table - Cache of available models
 export const aiModels = pgTable("ai_models", {
   id: varchar("id")
@@ -1304,6 +2308,28 @@ export const insertAiModelSchema = createInsertSchemaAny(aiModels).omit({
 export type AiModel = typeof aiModels.$inferSelect;
 export type InsertAiModel = z.infer<typeof insertAiModelSchema>;
 
+export type AiPromptTemplate = typeof aiPromptTemplates.$inferSelect;
+
+export const insertAiPromptTemplateSchema = z.object({
+  body: z.string().trim().min(1).max(20000),
+  note: z.string().trim().max(500).nullable().optional(),
+  activate: z.boolean().default(true),
+});
+export type InsertAiPromptTemplate = z.infer<typeof insertAiPromptTemplateSchema>;
+
+/** A template version with how many videos it categorized */
+export type AiPromptTemplateVersion = AiPromptTemplate & { videoCount: number };
+
+/** One sample video run through a draft prompt; nothing is saved */
+export type AiPromptTestResult = {
+  videoId: string;
+  title: string;
+  prompt: string;
+  categories?: Record<string, string[]>;
+  tags?: Record<string, string[]>;
+  error?: string;
+};
+
 export const insertSupportedLanguageSchema = createInsertSchemaAny(supportedLanguages);
 export type InsertSupportedLanguage = z.infer<typeof insertSupportedLanguageSchema>;
 export type SupportedLanguage = typeof supportedLanguages.$inferSelect;
@@ -1314,3 +2340,77 @@ export const insertUiTranslationSchema = createInsertSchemaAny(uiTranslations).o
 });
 export type InsertUiTranslation = z.infer<typeof insertUiTranslationSchema>;
 export type UiTranslation = typeof uiTranslations.$inferSelect;
+
+// Public read API (/api/v1). These shapes are what API token holders receive,
+// and the OpenAPI document at /api/v1/openapi.json is generated from them.
+export const apiV1ChannelSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  platform: z.enum(SUPPORTED_PLATFORMS),
+  url: z.string(),
+  thumbnailUrl: z.string().nullable(),
+  videoCount: z.number().int(),
+});
+export type ApiV1Channel = z.infer<typeof apiV1ChannelSchema>;
+
+export const apiV1CategorySchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  slug: z.string(),
+  description: z.string().nullable(),
+  videoCount: z.number().int(),
+});
+export type ApiV1Category = z.infer<typeof apiV1CategorySchema>;
+
+export const apiV1VideoSchema = z.object({
+  id: z.string(),
+  slug: z.string().nullable(),
+  title: z.string(),
+  description: z.string().nullable(),
+  url: z.string(),
+  thumbnailUrl: z.string(),
+  duration: z.string().nullable(),
+  publishDate: z.string().nullable(),
+  videoType: z.enum(SUPPORTED_VIDEO_TYPES),
+  channel: z.object({ id: z.string(), name: z.string(), platform: z.enum(SUPPORTED_PLATFORMS) }),
+  categories: z.array(z.object({ id: z.string(), name: z.string(), slug: z.string() })),
+  tags: z.array(z.string()),
+  createdAt: z.string().datetime(),
+});
+export type ApiV1Video = z.infer<typeof apiV1VideoSchema>;
+
+export const apiV1PlaylistSchema = z.object({
+  id: z.string(),
+  name: z.string(),
+  description: z.string().nullable(),
+  videoCount: z.number().int(),
+  createdAt: z.string().datetime(),
+});
+export type ApiV1Playlist = z.infer<typeof apiV1PlaylistSchema>;
+
+export const apiV1PlaylistDetailSchema = apiV1PlaylistSchema.extend({
+  videos: z.array(apiV1VideoSchema),
+});
+export type ApiV1PlaylistDetail = z.infer<typeof apiV1PlaylistDetailSchema>;
+
+export const apiV1ListQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(100).optional().default(24),
+  // Comma-separated top-level fields to return; id is always included
+  fields: z.string().optional(),
+  lang: z.string().max(10).optional().default("en"),
+});
+export type ApiV1ListQuery = z.infer<typeof apiV1ListQuerySchema>;
+
+export const apiV1VideoListQuerySchema = apiV1ListQuerySchema.extend({
+  channelId: z.string().optional(),
+  categoryId: z.string().optional(),
+});
+export type ApiV1VideoListQuery = z.infer<typeof apiV1VideoListQuerySchema>;
+
+export const createApiTokenSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  scopes: z.array(z.enum(API_TOKEN_SCOPES)).min(1),
+  expiresInDays: z.number().int().min(1).max(365).nullable().optional(),
+});
+export type CreateApiToken = z.infer<typeof createApiTokenSchema>;
@@ -0,0 +1,334 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import bcrypt from "bcrypt";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import { recordAuditLog } from "./helpers/error-log";
+
+const { session, queueEmail } = vi.hoisted(() => ({
+  session: { current: {} as Record<string, any> },
+  queueEmail: vi.fn(),
+}));
+
+vi.mock("../server/services/mailer.js", () => ({
+  isSmtpConfigured: () => true,
+  queueEmail,
+}));
+
+vi.mock("../server/services/user-library.js", () => ({
+  mergeAnonymousActivity: vi.fn(),
+}));
+
+import authRouter from "../server/routes/auth";
+import { dropRevokedSessions, requirePermission } from "../server/middleware/auth";
+import { sessionHasPermission } from "../server/services/permissions";
+import { createAccountToken, TOKEN_TTL_MS, verifyAccountToken } from "../server/services/account-tokens";
+import {
+  base32Decode,
+  base32Encode,
+  currentStep,
+  enableTwoFactor,
+  matchTotp,
+  totpCode,
+  verifySecondFactor,
+} from "../server/services/two-factor";
+import { encodeQrCode } from "../server/lib/qr-code";
+
+// A stand-in for express-session: one client whose session can be regenerated and destroyed
+function createSession() {
+  const current: Record<string, any> = {};
+  const clear = () => {
+    for (const key of Object.keys(current)) {
+      if (typeof current[key] !== "function") delete current[key];
+    }
+  };
+  Object.assign(current, {
+    regenerate: (cb: (err?: Error) => void) => { clear(); cb(); },
+    save: (cb?: (err?: Error) => void) => cb?.(),
+    destroy: (cb: (err?: Error) => void) => { clear(); cb(); },
+  });
+  return current;
+}
+
+const app = express();
+app.use(express.json());
+app.use((req: any, _res, next) => {
+  req.session = session.current;
+  next();
+});
+app.use("/api", dropRevokedSessions);
+app.use("/api/auth", authRouter);
+app.get("/api/admin/thing", requirePermission("dashboard.view"), (_req, res) => res.json({ ok: true }));
+
+const PASSWORD = "Secret123";
+
+async function createUser(overrides: Record<string, unknown> = {}) {
+  return memStorage.current.createUser({
+    username: "ana",
+    password: await bcrypt.hash(PASSWORD, 4),
+    email: "ana@example.com",
+    role: "user",
+    ...overrides,
+  });
+}
+
+function auditActions() {
+  return recordAuditLog.mock.calls.map(([entry]) => entry.action);
+}
+
+function lastEmailToken(template: string): string {
+  const call = [...queueEmail.mock.calls].reverse().find(([name]) => name === template);
+  return call![1].token;
+}
+
+describe("TOTP and QR helpers", () => {
+  // RFC 6238 appendix B, SHA-1, truncated to six digits
+  const rfcSecret = base32Encode(Buffer.from("12345678901234567890"));
+
+  it("matches the RFC test vectors", () => {
+    expect(rfcSecret).toBe("GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ");
+    expect(base32Decode(rfcSecret).toString()).toBe("12345678901234567890");
+    expect(totpCode(rfcSecret, currentStep(59 * 1000))).toBe("287082");
+    expect(totpCode(rfcSecret, currentStep(1111111109 * 1000))).toBe("081804");
+  });
+
+  it("allows one step of drift and refuses replays", () => {
+    const now = 1111111109 * 1000;
+    const step = currentStep(now);
+    expect(matchTotp(rfcSecret, totpCode(rfcSecret, step - 1), null, now)).toBe(step - 1);
+    expect(matchTotp(rfcSecret, totpCode(rfcSecret, step - 2), null, now)).toBeNull();
+    expect(matchTotp(rfcSecret, totpCode(rfcSecret, step), step, now)).toBeNull();
+    expect(matchTotp(rfcSecret, "12345", null, now)).toBeNull();
+  });
+
+  it("encodes a version 1 QR code module for module", () => {
+    const expected = [
+      "111111101001001111111",
+      "100000101111001000001",
+      "101110100010101011101",
+      "101110101010101011101",
+      "101110100001001011101",
+      "100000100001101000001",
+      "111111101010101111111",
+      "000000001001100000000",
+      "101101110101101001011",
+      "011011010111111001100",
+      "100010100101000000011",
+      "101100010001001111010",
+      "010111111000100100101",
+      "000000001111001000101",
+      "111111101001100100000",
+      "100000101010000111110",
+      "101110100000111111011",
+      "101110101011001011110",
+      "101110101100101100100",
+      "100000100010010110001",
+      "111111101010010100000",
+    ];
+    const matrix = encodeQrCode("HELLO", { mask: 3 });
+    expect(matrix.map((row) => row.map((dark) => (dark ? "1" : "0")).join(""))).toEqual(expected);
+  });
+});
+
+describe("account security routes", () => {
+  beforeEach(async () => {
+    await resetMemStorage();
+    session.current = createSession();
+    queueEmail.mockReset();
+    recordAuditLog.mockReset();
+  });
+
+  it("resets a password once with an emailed link", async () => {
+    const user = await createUser();
+
+    await request(app).post("/api/auth/password/forgot").send({ identifier: "nobody@example.com" }).expect(200);
+    expect(queueEmail).not.toHaveBeenCalled();
+
+    await request(app).post("/api/auth/password/forgot").send({ identifier: "ANA@example.com" }).expect(200);
+    expect(queueEmail).toHaveBeenCalledWith("password_reset", expect.objectContaining({ username: "ana" }), {
+      to: ["ana@example.com"],
+      locale: undefined,
+    });
+    const token = lastEmailToken("password_reset");
+
+    await request(app).post("/api/auth/password/reset").send({ token, password: "weak" }).expect(400);
+    await request(app).post("/api/auth/password/reset").send({ token, password: "Brand-New1" }).expect(200);
+    // The password changed, so the same link no longer works
+    await request(app).post("/api/auth/password/reset").send({ token, password: "Another-1" }).expect(400);
+
+    await request(app).post("/api/auth/login").send({ username: "ana", password: PASSWORD }).expect(401);
+    await request(app).post("/api/auth/login").send({ username: "ana", password: "Brand-New1" }).expect(200);
+    expect((await memStorage.current.getUser(user.id)).emailVerifiedAt).toBeInstanceOf(Date);
+    expect(auditActions()).toEqual(expect.arrayContaining([
+      "auth.password_reset.requested",
+      "auth.password_reset.completed",
+      "auth.password_reset.failure",
+      "auth.login.failure",
+      "auth.login.success",
+    ]));
+  });
+
+  it("logs out every other session after a password reset", async () => {
+    const user = await createUser();
+    await request(app).post("/api/auth/login").send({ username: "ana", password: PASSWORD }).expect(200);
+    const stolen = session.current;
+
+    // The reset happens from another browser
+    session.current = createSession();
+    const token = createAccountToken("password_reset", user);
+    await request(app).post("/api/auth/password/reset").send({ token, password: "Brand-New1" }).expect(200);
+
+    session.current = stolen;
+    await request(app).get("/api/auth/account").expect(401);
+    expect(session.current.isAuthenticated).toBeUndefined();
+
+    await request(app).post("/api/auth/login").send({ username: "ana", password: "Brand-New1" }).expect(200);
+    await request(app).get("/api/auth/account").expect(200);
+  });
+
+  it("asks for the password to change the email and tells the old address", async () => {
+    await createUser();
+    await request(app).post("/api/auth/login").send({ username: "ana", password: PASSWORD }).expect(200);
+
+    await request(app).put("/api/auth/email").send({ email: "new@example.com" }).expect(400);
+    await request(app).put("/api/auth/email").send({ email: "new@example.com", currentPassword: "wrong" }).expect(400);
+    expect((await request(app).get("/api/auth/account").expect(200)).body.email).toBe("ana@example.com");
+
+    // Resending the verification for the same address needs no password
+    await request(app).put("/api/auth/email").send({ email: "ana@example.com" }).expect(200);
+
+    await request(app).put("/api/auth/email").send({ email: "new@example.com", currentPassword: PASSWORD }).expect(200);
+    expect(queueEmail).toHaveBeenCalledWith("email_changed", { username: "ana", newEmail: "new@example.com" }, {
+      to: ["ana@example.com"],
+      locale: undefined,
+    });
+    expect(queueEmail).toHaveBeenCalledWith("email_verification", expect.anything(), expect.objectContaining({ to: ["new@example.com"] }));
+  });
+
+  it("accepts a code or recovery code only once when replayed in parallel", async () => {
+    const user = await createUser();
+    const secret = base32Encode(Buffer.from("abcdefghijklmnopqrst"));
+    const [recoveryCode] = (await enableTwoFactor(user, secret, totpCode(secret, currentStep() - 1)))!;
+    const enrolled = await memStorage.current.getUser(user.id);
+
+    const code = totpCode(secret, currentStep());
+    const codeResults = await Promise.all([
+      verifySecondFactor(enrolled, { code }),
+      verifySecondFactor(enrolled, { code }),
+    ]);
+    expect(codeResults.filter(Boolean)).toEqual(["totp"]);
+
+    const recoveryResults = await Promise.all([
+      verifySecondFactor(enrolled, { recoveryCode }),
+      verifySecondFactor(enrolled, { recoveryCode }),
+    ]);
+    expect(recoveryResults.filter(Boolean)).toEqual(["recovery"]);
+    expect((await memStorage.current.getUser(user.id)).recoveryCodes).toHaveLength(9);
+  });
+
+  it("rejects tampered, expired and misused tokens", async () => {
+    const user = await createUser();
+    const token = createAccountToken("password_reset", user);
+    const [body, signature] = token.split(".");
+
+    expect(await verifyAccountToken("password_reset", token)).toMatchObject({ id: user.id });
+    expect(await verifyAccountToken("email_verification", token)).toBeUndefined();
+    expect(await verifyAccountToken("password_reset", `${body}x.${signature}`)).toBeUndefined();
+    expect(await verifyAccountToken("password_reset", token, Date.now() + TOKEN_TTL_MS.password_reset + 1000)).toBeUndefined();
+  });
+
+  it("verifies the email given at registration", async () => {
+    const res = await request(app)
+      .post("/api/auth/register")
+      .send({ username: "bob", password: PASSWORD, email: "bob@example.com" })
+      .expect(200);
+    expect(res.body.verificationSent).toBe(true);
+
+    await request(app)
+      .post("/api/auth/register")
+      .send({ username: "bobby", password: PASSWORD, email: "BOB@example.com" })
+      .expect(400);
+
+    const token = lastEmailToken("email_verification");
+    await request(app).post("/api/auth/email/verify").send({ token: `${token}x` }).expect(400);
+    await request(app).post("/api/auth/email/verify").send({ token }).expect(200);
+
+    const bob = await memStorage.current.getUserByUsername("bob");
+    expect(bob.emailVerifiedAt).toBeInstanceOf(Date);
+    expect(auditActions()).toEqual(expect.arrayContaining(["user.register", "auth.email.verified"]));
+  });
+
+  it("enrolls TOTP and asks for a code or recovery code at login", async () => {
+    await createUser();
+    await request(app).post("/api/auth/login").send({ username: "ana", password: PASSWORD }).expect(200);
+
+    const setup = await request(app).post("/api/auth/2fa/setup").expect(200);
+    expect(setup.body.otpauthUrl).toContain("otpauth://totp/");
+    expect(setup.body.qrCode).toMatch(/^data:image\/svg\+xml;base64,/);
+    const secret = setup.body.secret;
+
+    await request(app).post("/api/auth/2fa/enable").send({ code: "000000" }).expect(400);
+    const enabled = await request(app)
+      .post("/api/auth/2fa/enable")
+      .send({ code: totpCode(secret, currentStep()) })
+      .expect(200);
+    expect(enabled.body.recoveryCodes).toHaveLength(10);
+
+    await request(app).post("/api/auth/logout").expect(200);
+    const login = await request(app).post("/api/auth/login").send({ username: "ana", password: PASSWORD }).expect(200);
+    expect(login.body).toEqual({ twoFactorRequired: true });
+    expect(session.current.isAuthenticated).toBeUndefined();
+
+    // The code used to enroll can't be replayed
+    await request(app).post("/api/auth/login/2fa").send({ code: totpCode(secret, currentStep()) }).expect(401);
+    const recoveryCode = enabled.body.recoveryCodes[0];
+    await request(app).post("/api/auth/login/2fa").send({ recoveryCode }).expect(200);
+    expect(session.current.isAuthenticated).toBe(true);
+
+    const account = await request(app).get("/api/auth/account").expect(200);
+    expect(account.body).toMatchObject({ twoFactorEnabled: true, recoveryCodesLeft: 9 });
+
+    await request(app).post("/api/auth/logout").expect(200);
+    await request(app).post("/api/auth/login").send({ username: "ana", password: PASSWORD }).expect(200);
+    await request(app).post("/api/auth/login/2fa").send({ recoveryCode }).expect(401);
+    await request(app).post("/api/auth/login/2fa").send({ code: totpCode(secret, currentStep() + 1) }).expect(200);
+
+    expect(auditActions()).toEqual(expect.arrayContaining([
+      "auth.2fa.setup_started",
+      "auth.2fa.enabled",
+      "auth.login.2fa_required",
+      "auth.2fa.failure",
+      "auth.logout",
+    ]));
+  });
+
+  it("ends the sign-in after too many wrong codes", async () => {
+    const secret = base32Encode(Buffer.from("abcdefghijklmnopqrst"));
+    await createUser({ totpSecret: secret, totpEnabledAt: new Date() });
+    await request(app).post("/api/auth/login").send({ username: "ana", password: PASSWORD }).expect(200);
+
+    for (let i = 0; i < 4; i++) {
+      await request(app).post("/api/auth/login/2fa").send({ code: "000000" }).expect(401);
+    }
+    const last = await request(app).post("/api/auth/login/2fa").send({ code: "000000" }).expect(401);
+    expect(last.body.restart).toBe(true);
+    await request(app).post("/api/auth/login/2fa").send({ code: totpCode(secret, currentStep()) }).expect(401);
+  });
+
+  it("keeps admins without two-factor auth out of the admin panel", async () => {
+    await createUser({ role: "admin" });
+    await request(app).post("/api/auth/login").send({ username: "ana", password: PASSWORD }).expect(200);
+
+    const blocked = await request(app).get("/api/admin/thing").expect(403);
+    expect(blocked.body.code).toBe("TWO_FACTOR_SETUP_REQUIRED");
+    const sessionInfo = await request(app).get("/api/auth/session").expect(200);
+    expect(sessionInfo.body.twoFactorSetupRequired).toBe(true);
+    // Routes that show staff extra details apply the same gate
+    expect(await sessionHasPermission(session.current, "settings.manage")).toBe(false);
+
+    const { body } = await request(app).post("/api/auth/2fa/setup").expect(200);
+    await request(app).post("/api/auth/2fa/enable").send({ code: totpCode(body.secret, currentStep()) }).expect(200);
+    await request(app).get("/api/admin/thing").expect(200);
+    expect(await sessionHasPermission(session.current, "settings.manage")).toBe(true);
+  });
+});
@@ -32,7 +32,7 @@ vi.mock("../server/middleware/auth.js", () => ({
     req.user = { id: "admin", role: "admin" };
     next();
   },
-  requireAdmin: (req: any, res: any, next: any) => {
+  requirePermission: () => (req: any, res: any, next: any) => {
     req.user = { id: "admin", role: "admin" };
     next();
   },
@@ -45,6 +45,14 @@ vi.mock("../server/ai-service.js", () => ({
   generateSeoMetadata: vi.fn(),
 }));
 
+vi.mock("../server/services/categorization.js", () => ({
+  applyCategorization: vi.fn(),
+}));
+
+vi.mock("../server/services/transcripts.js", () => ({
+  getTranscriptExcerpt: vi.fn(),
+}));
+
 vi.mock("../server/kv-service.js", () => ({
   kvService: {
     getStats: vi.fn(),
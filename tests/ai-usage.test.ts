@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import { aiConfig } from "./helpers/ai-config";
+import "./helpers/open-auth";
+import "./helpers/error-log";
+
+import aiSettingsRouter from "../server/routes/ai-settings";
+import { categorizeVideo, generateText } from "../server/ai-service";
+import { estimateAiCost } from "../server/services/ai-usage";
+import { AiBudgetExceededError } from "../server/errors/custom-errors";
+
+const app = express();
+app.use(express.json());
+app.use("/api/ai", aiSettingsRouter);
+
+const originalFetch = global.fetch;
+
+function openaiReply(content: string, usage: Record<string, number>) {
+  return { ok: true, json: async () => ({ choices: [{ message: { content } }], usage }) };
+}
+
+async function report(days = 30) {
+  return (await request(app).get(`/api/ai/usage?days=${days}`)).body;
+}
+
+beforeEach(async () => {
+  await resetMemStorage();
+  aiConfig.current = {
+    provider: "openai",
+    openaiApiKey: "sk-test",
+    openaiModel: "gpt-4o-mini",
+    ollamaUrl: "http://ollama.test",
+    ollamaModel: "llama3",
+  };
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe("AI usage metering", () => {
+  it("records tokens, latency and cost of each call", async () => {
+    global.fetch = vi.fn(async () => openaiReply("A short summary.", { prompt_tokens: 1000, completion_tokens: 500 })) as any;
+
+    const result = await generateText("summary", "Summarize this");
+    expect(result).toEqual({ content: "A short summary.", provider: "openai", model: "gpt-4o-mini" });
+
+    const usage = await report();
+    expect(usage.totals).toMatchObject({ calls: 1, errors: 0, promptTokens: 1000, completionTokens: 500 });
+    // gpt-4o-mini: $0.15 in, $0.60 out per million tokens
+    expect(usage.totals.costUsd).toBeCloseTo(0.00045, 8);
+    expect(usage.byFeature).toEqual([expect.objectContaining({ feature: "summary", calls: 1 })]);
+  });
+
+  it("prices dated snapshots and prefers the cost a provider reports", () => {
+    const usage = { promptTokens: 1_000_000, completionTokens: 0 };
+    expect(estimateAiCost("openai", "gpt-4o-mini-2024-07-18", usage)).toBeCloseTo(0.15);
+    expect(estimateAiCost("openai", "gpt-4o", usage)).toBeCloseTo(2.5);
+    expect(estimateAiCost("openrouter", "openai/gpt-4o", { ...usage, costUsd: 0.01 })).toBe(0.01);
+    expect(estimateAiCost("ollama", "llama3", usage)).toBe(0);
+    expect(estimateAiCost("openai", "some-unknown-model", usage)).toBe(0);
+  });
+});
+
+describe("provider failover", () => {
+  it("falls back along the configured chain and meters every attempt", async () => {
+    aiConfig.current = { ...aiConfig.current, failoverProviders: ["ollama"] };
+    const urls: string[] = [];
+    global.fetch = vi.fn(async (url: any) => {
+      urls.push(String(url));
+      if (String(url).includes("ollama.test")) {
+        return { ok: true, json: async () => ({ message: { content: "From Ollama" }, prompt_eval_count: 12, eval_count: 3 }) };
+      }
+      return { ok: false, status: 503, statusText: "Service Unavailable", text: async () => "overloaded", json: async () => ({}) };
+    }) as any;
+
+    const result = await generateText("summary", "Summarize this");
+    expect(result).toMatchObject({ content: "From Ollama", provider: "ollama", model: "llama3" });
+    expect(urls[0]).toContain("api.openai.com");
+
+    const usage = await report();
+    expect(usage.totals).toMatchObject({ calls: 2, errors: 1 });
+    expect(usage.byModel).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ provider: "openai", model: "gpt-4o-mini", errors: 1, costUsd: 0 }),
+        expect.objectContaining({ provider: "ollama", model: "llama3", promptTokens: 12, completionTokens: 3 }),
+      ]),
+    );
+  });
+
+  it("reports every provider's error when the whole chain fails", async () => {
+    aiConfig.current = { ...aiConfig.current, failoverProviders: ["ollama"] };
+    global.fetch = vi.fn(async () => ({ ok: false, status: 500, statusText: "Error", text: async () => "down", json: async () => ({}) })) as any;
+
+    await expect(generateText("summary", "Summarize this")).rejects.toThrow(/All AI providers failed.*openai: .*ollama: /);
+  });
+});
+
+describe("budgets", () => {
+  it("pauses AI calls once the daily budget is spent", async () => {
+    aiConfig.current = { ...aiConfig.current, dailyBudgetUsd: 0.001 };
+    await memStorage.current.recordAiUsageEvent({
+      feature: "categorization",
+      provider: "openai",
+      model: "gpt-4o-mini",
+      promptTokens: 5000,
+      completionTokens: 1000,
+      latencyMs: 800,
+      costUsd: 0.002,
+      outcome: "success",
+    });
+    global.fetch = vi.fn() as any;
+
+    const error = await categorizeVideo("Bean soup", "").catch((e) => e);
+    expect(error).toBeInstanceOf(AiBudgetExceededError);
+    expect(error).toMatchObject({ code: "AI_BUDGET_EXCEEDED", statusCode: 429 });
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    const usage = await report(7);
+    expect(usage.budget).toMatchObject({ dailyBudgetUsd: 0.001, monthlyBudgetUsd: null, exceeded: "daily" });
+    expect(usage.budget.spentTodayUsd).toBeCloseTo(0.002);
+  });
+
+  it("ignores budgets that are not set", async () => {
+    aiConfig.current = { ...aiConfig.current, dailyBudgetUsd: null, monthlyBudgetUsd: 0 };
+    global.fetch = vi.fn(async () => openaiReply("ok", { prompt_tokens: 1, completion_tokens: 1 })) as any;
+
+    await expect(generateText("seo", "Describe this")).resolves.toMatchObject({ content: "ok" });
+    expect((await report()).budget.exceeded).toBeNull();
+  });
+});
+
+describe("usage route", () => {
+  it("only accepts the supported periods", async () => {
+    await request(app).get("/api/ai/usage?days=5").expect(400);
+    await request(app).get("/api/ai/usage?days=90").expect(200);
+  });
+});
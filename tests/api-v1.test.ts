@@ -0,0 +1,179 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+
+const { rateCounts } = vi.hoisted(() => {
+  process.env.API_RATE_LIMIT_PER_MINUTE = "5";
+  return {
+      rateCounts: new Map<string, number>(),
+  };
+});
+
+vi.mock("../server/kv-service.js", () => ({
+  kvService: {
+    checkRateLimit: async (id: string, action: string, { max }: { max: number }) => {
+      const key = `${action}:${id}`;
+      const count = (rateCounts.get(key) || 0) + 1;
+      rateCounts.set(key, count);
+      return count <= max;
+    },
+  },
+}));
+
+import apiV1Router, { buildOpenApiDocument } from "../server/routes/api-v1";
+import userRouter from "../server/routes/user";
+import { hashToken } from "../server/services/api-tokens";
+
+function buildApp() {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    (req as any).session = req.get("x-test-user")
+      ? { isAuthenticated: true, userId: req.get("x-test-user"), role: "user" }
+      : {};
+    next();
+  });
+  app.use("/api/user", userRouter);
+  app.use("/api/v1", apiV1Router);
+  return app;
+}
+
+describe("API tokens and /api/v1", () => {
+  let storage: any;
+  let app: express.Express;
+  let channelId: string;
+  let videoIds: string[];
+
+  async function createToken(scopes = ["videos:read", "categories:read", "playlists:read", "channels:read"], user = "user-ana") {
+    const res = await request(app).post("/api/user/tokens").set("x-test-user", user).send({ name: "Partner", scopes }).expect(201);
+    return res.body as { secret: string; token: { id: string; tokenPrefix: string } };
+  }
+
+  beforeEach(async () => {
+    await resetMemStorage();
+    storage = memStorage.current;
+    rateCounts.clear();
+
+    const channel = await storage.createChannel({ name: "Kanal", url: "https://youtube.com/@k", channelId: "yt1", platform: "youtube" } as any);
+    channelId = channel.id;
+    videoIds = [];
+    for (let i = 0; i < 5; i++) {
+      const video = await storage.createVideo({
+        channelId: channel.id,
+        videoId: `v${i}`,
+        title: `Video ${i}`,
+        thumbnailUrl: `https://img/${i}.jpg`,
+        videoType: "regular",
+      } as any);
+      await storage.updateVideo(video.id, { createdAt: new Date(Date.UTC(2026, 0, 1 + i)) } as any);
+      videoIds.push(video.id);
+    }
+    await storage.updateVideo(videoIds[4], { hiddenAt: new Date(), hiddenReason: "deleted" } as any);
+
+    app = buildApp();
+  });
+
+  it("stores only a hash and shows the secret once", async () => {
+    const { secret, token } = await createToken();
+    expect(secret.startsWith("nsv_")).toBe(true);
+    expect(secret.startsWith(token.tokenPrefix)).toBe(true);
+
+    const [stored] = await storage.getApiTokensByUser("user-ana");
+    expect(stored.tokenHash).toBe(hashToken(secret));
+
+    const list = await request(app).get("/api/user/tokens").set("x-test-user", "user-ana").expect(200);
+    expect(list.body).toHaveLength(1);
+    expect(list.body[0]).not.toHaveProperty("tokenHash");
+    expect(JSON.stringify(list.body)).not.toContain(secret);
+
+    await request(app).post("/api/user/tokens").set("x-test-user", "user-ana").send({ name: "x", scopes: ["admin"] }).expect(400);
+    await request(app).get("/api/user/tokens").expect(401);
+  });
+
+  it("rejects missing, unknown and revoked tokens and enforces scopes", async () => {
+    await request(app).get("/api/v1/videos").expect(401);
+    await request(app).get("/api/v1/videos").set("Authorization", "Bearer nsv_nope").expect(401);
+
+    const { secret, token } = await createToken(["categories:read"]);
+    await request(app).get("/api/v1/videos").set("Authorization", `Bearer ${secret}`).expect(403);
+    await request(app).get("/api/v1/categories").set("Authorization", `Bearer ${secret}`).expect(200);
+
+    // Another user can't revoke it
+    await request(app).delete(`/api/user/tokens/${token.id}`).set("x-test-user", "user-bob").expect(404);
+    await request(app).delete(`/api/user/tokens/${token.id}`).set("x-test-user", "user-ana").expect(200);
+    await request(app).get("/api/v1/categories").set("Authorization", `Bearer ${secret}`).expect(401);
+  });
+
+  it("pages visible videos newest first with a cursor", async () => {
+    const { secret } = await createToken();
+    const auth = `Bearer ${secret}`;
+
+    const first = await request(app).get(`/api/v1/videos?limit=2&channelId=${channelId}`).set("Authorization", auth).expect(200);
+    expect(first.body.data.map((v: any) => v.id)).toEqual([videoIds[3], videoIds[2]]);
+    expect(first.body.data[0].channel).toEqual({ id: channelId, name: "Kanal", platform: "youtube" });
+    expect(first.body.nextCursor).toEqual(expect.any(String));
+
+    const second = await request(app)
+      .get(`/api/v1/videos?limit=2&channelId=${channelId}&cursor=${first.body.nextCursor}`)
+      .set("Authorization", auth)
+      .expect(200);
+    expect(second.body.data.map((v: any) => v.id)).toEqual([videoIds[1], videoIds[0]]);
+    expect(second.body.nextCursor).toBeNull();
+
+    await request(app).get("/api/v1/videos?cursor=garbage").set("Authorization", auth).expect(400);
+    await request(app).get(`/api/v1/videos/${videoIds[4]}`).set("Authorization", auth).expect(404);
+  });
+
+  it("returns only the requested fields", async () => {
+    const { secret } = await createToken();
+    const res = await request(app).get("/api/v1/videos?fields=title,url").set("Authorization", `Bearer ${secret}`).expect(200);
+    expect(Object.keys(res.body.data[0]).sort()).toEqual(["id", "title", "url"]);
+
+    const bad = await request(app).get("/api/v1/videos?fields=title,tokenHash").set("Authorization", `Bearer ${secret}`).expect(400);
+    expect(bad.body.field).toBe("fields");
+  });
+
+  it("serves only curated public playlists", async () => {
+    const { secret } = await createToken();
+    const curated = await storage.createPlaylist({ name: "Izbor", visibility: "public", ownerId: null });
+    await storage.addVideoToPlaylist(curated.id, videoIds[1]);
+    const personal = await storage.createPlaylist({ name: "Moja", visibility: "public", ownerId: "user-ana" });
+
+    const list = await request(app).get("/api/v1/playlists").set("Authorization", `Bearer ${secret}`).expect(200);
+    expect(list.body.data.map((p: any) => p.id)).toEqual([curated.id]);
+
+    const detail = await request(app).get(`/api/v1/playlists/${curated.id}`).set("Authorization", `Bearer ${secret}`).expect(200);
+    expect(detail.body.data.videos.map((v: any) => v.id)).toEqual([videoIds[1]]);
+    await request(app).get(`/api/v1/playlists/${personal.id}`).set("Authorization", `Bearer ${secret}`).expect(404);
+  });
+
+  it("rate limits per token and records last use", async () => {
+    const { secret, token } = await createToken();
+    for (let i = 0; i < 5; i++) {
+      await request(app).get("/api/v1/channels").set("Authorization", `Bearer ${secret}`).expect(200);
+    }
+    const limited = await request(app).get("/api/v1/channels").set("Authorization", `Bearer ${secret}`).expect(429);
+    expect(limited.headers["retry-after"]).toBe("60");
+
+    // A second token has its own budget
+    const other = await createToken();
+    await request(app).get("/api/v1/channels").set("Authorization", `Bearer ${other.secret}`).expect(200);
+
+    const [stored] = (await storage.getApiTokensByUser("user-ana")).filter((t: any) => t.id === token.id);
+    expect(stored.lastUsedAt).toBeInstanceOf(Date);
+  });
+
+  it("documents every route in the OpenAPI document", async () => {
+    const res = await request(app).get("/api/v1/openapi.json").expect(200);
+    expect(res.body).toEqual(buildOpenApiDocument());
+    expect(Object.keys(res.body.paths).sort()).toEqual(
+      ["/categories", "/channels", "/playlists", "/playlists/{id}", "/videos", "/videos/{id}"],
+    );
+    const video = res.body.components.schemas.Video;
+    expect(video.properties.createdAt).toEqual({ type: "string", format: "date-time" });
+    expect(video.properties.slug.type).toEqual(["string", "null"]);
+    const limit = res.body.paths["/videos"].get.parameters.find((p: any) => p.name === "limit");
+    expect(limit).toMatchObject({ in: "query", required: false, schema: { type: "integer", minimum: 1, maximum: 100, default: 24 } });
+  });
+});
@@ -0,0 +1,248 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import "./helpers/open-auth";
+
+vi.mock("../server/services/job-queue.js", () => ({
+  jobQueue: {
+    hasActiveJob: vi.fn().mockResolvedValue(false),
+    createJob: vi.fn().mockResolvedValue("job-1"),
+  },
+}));
+
+import { checkVideoAvailability, classifyYouTubeStatus } from "../server/services/availability";
+import { applyModerationDecision } from "../server/services/moderation";
+import availabilityRouter from "../server/routes/availability";
+import adminRouter from "../server/routes/admin";
+
+const HOUR = 60 * 60 * 1000;
+
+const app = express();
+app.use(express.json());
+app.use("/api/admin/availability", availabilityRouter);
+app.use("/api/admin", adminRouter);
+
+type ApiStatus = { privacyStatus?: string; embeddable?: boolean; ytRating?: string; blocked?: string[] };
+
+/**
+ * Answers videos.list with the given statuses (ids left out no longer exist)
+ * and every oEmbed/mp4 probe with the status listed for its host.
+ */
+function stubSources(youtube: Record<string, ApiStatus>, hosts: Record<string, number> = {}) {
+  const requested: string[] = [];
+  global.fetch = vi.fn(async (input: any) => {
+    const url = new URL(String(input));
+    requested.push(url.toString());
+    if (url.hostname === "www.googleapis.com") {
+      const ids = url.searchParams.get("id")!.split(",");
+      const items = ids
+        .filter((id) => youtube[id])
+        .map((id) => ({
+          id,
+          status: { uploadStatus: "processed", privacyStatus: youtube[id].privacyStatus ?? "public", embeddable: youtube[id].embeddable ?? true },
+          contentDetails: {
+            contentRating: youtube[id].ytRating ? { ytRating: youtube[id].ytRating } : {},
+            regionRestriction: youtube[id].blocked ? { blocked: youtube[id].blocked } : undefined,
+          },
+        }));
+      return new Response(JSON.stringify({ items }), { status: 200 });
+    }
+    return new Response("", { status: hosts[url.hostname] ?? 200 });
+  }) as any;
+  return requested;
+}
+
+async function seed() {
+  const youtube = await memStorage.current.createChannel({ name: "Kuhinja", url: "https://www.youtube.com/@kuhinja", platform: "youtube" });
+  const tiktok = await memStorage.current.createChannel({
+    name: "Recepti",
+    url: "https://www.tiktok.com/@recepti",
+    channelId: "recepti",
+    platform: "tiktok",
+  });
+  const make = (channelId: string, videoId: string, videoType: string, extra: Record<string, unknown> = {}) =>
+    memStorage.current.createVideo({ channelId, videoId, videoType, title: videoId, thumbnailUrl: "https://img/t.jpg", ...extra } as any);
+
+  return {
+    playing: await make(youtube.id, "aB3dE5fG7hJ", "regular"),
+    ageRestricted: await make(youtube.id, "kL9mN1pQ3rS", "regular"),
+    blocked: await make(youtube.id, "bC2dE4fG6hI", "youtube_short"),
+    removed: await make(youtube.id, "zZ9yY8xX7wV", "regular"),
+    tiktok: await make(tiktok.id, "7301234567890123456", "tiktok", {
+      embedUrl: "https://v16-webapp.tiktok.com/expired.mp4?x-expires=1",
+    }),
+    rss: await make(youtube.id, "rss_1", "rss"),
+  };
+}
+
+const YOUTUBE_OK: Record<string, ApiStatus> = {
+  aB3dE5fG7hJ: {},
+  kL9mN1pQ3rS: { ytRating: "ytAgeRestricted" },
+  bC2dE4fG6hI: { blocked: ["RS", "HR"] },
+};
+
+beforeEach(async () => {
+  await resetMemStorage({ sampleVideo: false });
+  await memStorage.current.updateSystemSettings({ youtubeApiKey: "test-key", youtubeQuotaDailyLimit: 10000 });
+});
+
+describe("video availability checker", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("classifies Data API statuses for the configured region", () => {
+    expect(classifyYouTubeStatus(undefined, "RS")).toBe("unavailable");
+    expect(classifyYouTubeStatus({ privacyStatus: "private", ageRestricted: false }, "RS")).toBe("unavailable");
+    expect(classifyYouTubeStatus({ embeddable: false, ageRestricted: false }, "RS")).toBe("unavailable");
+    expect(classifyYouTubeStatus({ ageRestricted: false, regionRestriction: { allowed: ["US"] } }, "RS")).toBe("region_blocked");
+    expect(classifyYouTubeStatus({ ageRestricted: false, regionRestriction: { blocked: ["US"] } }, "RS")).toBe("available");
+    expect(classifyYouTubeStatus({ ageRestricted: true }, "RS")).toBe("age_restricted");
+  });
+
+  it("quarantines videos whose embeds no longer play", async () => {
+    const videos = await seed();
+    const requested = stubSources(YOUTUBE_OK);
+    const now = new Date("2026-10-15T12:00:00Z");
+
+    const summary = await checkVideoAvailability({ now });
+
+    expect(summary).toMatchObject({ checked: 5, available: 2, quarantined: 3, restored: 0, failed: 0 });
+    // All four YouTube videos go in one videos.list call; RSS items aren't probed
+    expect(requested.filter((url) => url.includes("googleapis"))).toHaveLength(1);
+    expect(requested.some((url) => url.includes("rss_1"))).toBe(false);
+
+    const get = (id: string) => memStorage.current.getVideo(id);
+    expect(await get(videos.playing.id)).toMatchObject({ availability: "available", hiddenAt: null, availabilityCheckedAt: now });
+    expect(await get(videos.ageRestricted.id)).toMatchObject({ availability: "age_restricted", hiddenReason: "age_restricted" });
+    expect(await get(videos.blocked.id)).toMatchObject({ availability: "region_blocked", hiddenReason: "region_blocked" });
+    expect(await get(videos.removed.id)).toMatchObject({ availability: "unavailable", hiddenAt: now });
+    // The expired CDN URL is swapped for the stable embed
+    expect((await get(videos.tiktok.id)).embedUrl).toBe("https://www.tiktok.com/embed/v2/7301234567890123456");
+
+    const listed = (await memStorage.current.getAllVideos()).map((v: any) => v.id);
+    expect(listed).toContain(videos.playing.id);
+    expect(listed).not.toContain(videos.removed.id);
+    expect(listed).not.toContain(videos.ageRestricted.id);
+
+    // Nothing is due again until three days later
+    expect((await checkVideoAvailability({ now: new Date(now.getTime() + HOUR) })).checked).toBe(0);
+  });
+
+  it("restores quarantined videos that play again", async () => {
+    const videos = await seed();
+    const now = new Date("2026-10-15T12:00:00Z");
+    stubSources({}, { "www.tiktok.com": 404 });
+    await checkVideoAvailability({ now });
+    expect((await memStorage.current.getVideo(videos.tiktok.id)).hiddenReason).toBe("unavailable");
+
+    stubSources(YOUTUBE_OK);
+    const summary = await checkVideoAvailability({ now: new Date(now.getTime() + 73 * HOUR) });
+
+    expect(summary.restored).toBe(2);
+    expect(await memStorage.current.getVideo(videos.tiktok.id)).toMatchObject({ availability: "available", hiddenAt: null });
+    expect((await memStorage.current.getVideo(videos.playing.id)).hiddenAt).toBeNull();
+  });
+
+  it("keeps a video rejected while quarantined hidden once it plays again", async () => {
+    const videos = await seed();
+    const now = new Date("2026-10-15T12:00:00Z");
+    stubSources({}, { "www.tiktok.com": 404 });
+    await checkVideoAvailability({ now });
+
+    const quarantined = await memStorage.current.getVideo(videos.tiktok.id);
+    await applyModerationDecision(quarantined, { status: "rejected", reason: "Off-topic" });
+    expect(await memStorage.current.getVideo(videos.tiktok.id)).toMatchObject({ moderationStatus: "rejected", hiddenReason: "unavailable" });
+
+    stubSources(YOUTUBE_OK);
+    const summary = await checkVideoAvailability({ now: new Date(now.getTime() + 73 * HOUR) });
+
+    expect(summary.restored).toBe(1);
+    expect(await memStorage.current.getVideo(videos.tiktok.id)).toMatchObject({ availability: "available", hiddenAt: expect.any(Date) });
+    await request(app).post(`/api/admin/availability/videos/${videos.tiktok.id}/restore`).expect(409);
+    expect((await memStorage.current.getVideo(videos.tiktok.id)).hiddenAt).not.toBeNull();
+    const queue = await request(app).get("/api/admin/availability").expect(200);
+    expect(queue.body.videos.map((v: any) => v.id)).not.toContain(videos.tiktok.id);
+  });
+
+  it("keeps the video unknown when the source can't be reached", async () => {
+    const videos = await seed();
+    await memStorage.current.updateSystemSettings({ youtubeApiKey: null });
+    stubSources({}, { "www.youtube.com": 503, "www.tiktok.com": 503 });
+
+    const summary = await checkVideoAvailability({ now: new Date() });
+
+    expect(summary).toMatchObject({ checked: 5, failed: 5, quarantined: 0 });
+    expect((await memStorage.current.getVideo(videos.removed.id)).hiddenAt).toBeNull();
+  });
+});
+
+describe("availability review queue", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("lists quarantined videos and restores or deletes them", async () => {
+    const videos = await seed();
+    const now = new Date("2026-10-15T12:00:00Z");
+    stubSources(YOUTUBE_OK);
+    await checkVideoAvailability({ now });
+
+    const queue = await request(app).get("/api/admin/availability");
+    expect(queue.status).toBe(200);
+    expect(queue.body.region).toBe("RS");
+    expect(queue.body.byReason).toEqual({ age_restricted: 1, region_blocked: 1, unavailable: 1 });
+    expect(queue.body.videos.find((v: any) => v.id === videos.removed.id)).toMatchObject({
+      channelName: "Kuhinja",
+      hiddenReason: "unavailable",
+    });
+
+    expect((await request(app).post(`/api/admin/availability/videos/${videos.ageRestricted.id}/restore`)).status).toBe(200);
+    expect((await request(app).delete(`/api/admin/availability/videos/${videos.removed.id}`)).status).toBe(200);
+    expect(await memStorage.current.getVideo(videos.removed.id)).toBeUndefined();
+    expect((await request(app).post("/api/admin/availability/videos/missing/restore")).status).toBe(404);
+
+    // A restored video keeps its status but the checker leaves it up
+    await checkVideoAvailability({ now: new Date(now.getTime() + 73 * HOUR) });
+    expect(await memStorage.current.getVideo(videos.ageRestricted.id)).toMatchObject({
+      availability: "age_restricted",
+      hiddenAt: null,
+    });
+
+    const after = await request(app).get("/api/admin/availability");
+    expect(after.body.videos.map((v: any) => v.id)).toEqual([videos.blocked.id]);
+  });
+
+  it("starts a check job unless one is running", async () => {
+    const { jobQueue } = await import("../server/services/job-queue.js");
+    expect((await request(app).post("/api/admin/availability/check")).body).toMatchObject({ jobId: "job-1" });
+    expect(jobQueue.createJob).toHaveBeenCalledWith("availability_check");
+
+    vi.mocked(jobQueue.hasActiveJob).mockResolvedValueOnce(true);
+    expect((await request(app).post("/api/admin/availability/check")).status).toBe(409);
+  });
+});
+
+describe("maintenance of hidden videos", () => {
+  it("keeps regenerated slugs clear of hidden videos' slugs", async () => {
+    const videos = await seed();
+    await memStorage.current.updateVideo(videos.removed.id, {
+      title: "Sarma recept",
+      slug: "sarma-recept",
+      hiddenAt: new Date(),
+      hiddenReason: "unavailable",
+    });
+    await memStorage.current.updateVideo(videos.playing.id, { title: "Sarma recept", slug: null });
+
+    const res = await request(app).post("/api/admin/regenerate-slugs?mode=missing");
+    expect(res.status).toBe(200);
+    const slug = (await memStorage.current.getVideo(videos.playing.id)).slug;
+    expect(slug).toMatch(/^sarma-recept-/);
+    expect((await memStorage.current.getVideo(videos.removed.id)).slug).toBe("sarma-recept");
+  });
+});
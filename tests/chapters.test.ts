@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll, afterEach } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import { aiConfig } from "./helpers/ai-config";
+import "./helpers/open-auth";
+import "./helpers/error-log";
+
+import videosRouter from "../server/routes/videos";
+import { backfillChapters, extractVideoChapters, parseDescriptionChapters } from "../server/services/chapters";
+import { seoMiddleware } from "../server/seo-middleware";
+
+let dir: string;
+const app = express();
+app.use(express.json());
+app.use("/api/videos", videosRouter);
+app.get("*", (req, res, next) => seoMiddleware(req, res, next, join(dir, "index.html")));
+
+const originalFetch = global.fetch;
+
+const DESCRIPTION = `Everything about bean soup.
+
+Chapters:
+0:00 Intro
+(1:05) - Soaking the beans
+Smoked meat: 4:30
+12:10 Serving
+
+Recorded 2024-03-01 at 20:00.`;
+
+let channelId: string;
+
+async function createVideo(overrides: Record<string, unknown> = {}) {
+  return memStorage.current.createVideo({
+    channelId,
+    videoId: "abcdefghijk",
+    title: "Bean soup",
+    description: DESCRIPTION,
+    thumbnailUrl: "https://img/x.jpg",
+    duration: "15:00",
+    ...overrides,
+  });
+}
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "chapters-"));
+  writeFileSync(join(dir, "index.html"), "<html><head><title>app</title></head><body></body></html>");
+});
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+beforeEach(async () => {
+  await resetMemStorage({ sampleVideo: false });
+  aiConfig.current = { provider: "openai", openaiApiKey: "sk-test", openaiModel: "gpt-4o-mini", aiChapters: true };
+  channelId = (await memStorage.current.createChannel({ name: "Kitchen", url: "https://youtube.com/@kitchen", channelId: "kitchen", platform: "youtube" })).id;
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe("parseDescriptionChapters", () => {
+  it("reads timestamps before or after the title", () => {
+    expect(parseDescriptionChapters(DESCRIPTION)).toEqual([
+      { startSeconds: 0, title: "Intro" },
+      { startSeconds: 65, title: "Soaking the beans" },
+      { startSeconds: 270, title: "Smoked meat" },
+      { startSeconds: 730, title: "Serving" },
+    ]);
+  });
+
+  it("follows YouTube's rules for chapter lists", () => {
+    // Not starting at 0:00
+    expect(parseDescriptionChapters("1:00 A\n2:00 B\n3:00 C")).toEqual([]);
+    // Fewer than three
+    expect(parseDescriptionChapters("0:00 A\n2:00 B")).toEqual([]);
+    // Past the end of the video
+    expect(parseDescriptionChapters("0:00 A\n2:00 B\n3:00 C\n1:00:00 D", 600).map((c) => c.title)).toEqual(["A", "B", "C"]);
+  });
+});
+
+describe("chapter extraction", () => {
+  it("stores description chapters and serves them", async () => {
+    const video = await createVideo();
+    global.fetch = vi.fn() as any;
+
+    expect(await backfillChapters()).toEqual({ checked: 1, chaptered: 1, failed: 0 });
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    const res = await request(app).get(`/api/videos/${video.id}/chapters`).expect(200);
+    expect(res.body.map((c: any) => [c.startSeconds, c.title, c.source])).toEqual([
+      [0, "Intro", "description"],
+      [65, "Soaking the beans", "description"],
+      [270, "Smoked meat", "description"],
+      [730, "Serving", "description"],
+    ]);
+    expect(await backfillChapters()).toEqual({ checked: 0, chaptered: 0, failed: 0 });
+  });
+
+  it("segments long videos from their transcript with the AI", async () => {
+    const video = await createVideo({ description: "No timestamps here" });
+    await memStorage.current.upsertVideoTranscript({
+      videoId: video.id,
+      languageCode: "en",
+      source: "manual",
+      segments: [
+        { start: 0, duration: 5, text: "Welcome" },
+        { start: 120, duration: 5, text: "First soak the beans" },
+        { start: 600, duration: 5, text: "Now serve it" },
+      ],
+      text: "Welcome First soak the beans Now serve it",
+    });
+    let prompt = "";
+    global.fetch = vi.fn(async (_url: any, init: any) => {
+      prompt = JSON.parse(init.body).messages.map((m: any) => m.content).join("\n");
+      const chapters = [
+        { start: 0, title: "Welcome" },
+        { start: 120, title: "Soaking" },
+        { start: 90, title: "Out of order" },
+        { start: 600, title: "Serving" },
+      ];
+      return {
+        ok: true,
+        json: async () => ({ choices: [{ message: { content: JSON.stringify({ chapters }) } }], usage: { prompt_tokens: 10, completion_tokens: 5 } }),
+      };
+    }) as any;
+
+    const saved = await extractVideoChapters(video);
+    expect(prompt).toContain("[2:00] First soak the beans");
+    expect(saved.map((c) => [c.startSeconds, c.title, c.source])).toEqual([
+      [0, "Welcome", "ai"],
+      [120, "Soaking", "ai"],
+      [600, "Serving", "ai"],
+    ]);
+  });
+
+  it("leaves the AI alone when the setting is off or the video is short", async () => {
+    aiConfig.current = { ...aiConfig.current, aiChapters: false };
+    const video = await createVideo({ description: "" });
+    await memStorage.current.upsertVideoTranscript({
+      videoId: video.id,
+      languageCode: "en",
+      source: "auto",
+      segments: [{ start: 0, duration: 5, text: "Hi" }],
+      text: "Hi",
+    });
+    global.fetch = vi.fn() as any;
+
+    expect(await extractVideoChapters(video)).toEqual([]);
+    expect(await extractVideoChapters({ ...video, duration: "4:00" }, { ai: true })).toEqual([]);
+    expect(global.fetch).not.toHaveBeenCalled();
+    expect((await memStorage.current.getVideo(video.id)).chaptersCheckedAt).toBeInstanceOf(Date);
+  });
+
+  it("checks a video again once its transcripts are looked up", async () => {
+    const video = await createVideo({ description: "" });
+    await backfillChapters();
+    expect(await memStorage.current.getVideosDueForChapters(10)).toEqual([]);
+
+    await memStorage.current.updateVideo(video.id, { transcriptCheckedAt: new Date(Date.now() + 1000) });
+    expect((await memStorage.current.getVideosDueForChapters(10)).map((v: any) => v.id)).toEqual([video.id]);
+  });
+});
+
+describe("key moments markup", () => {
+  it("adds Clips for chapters, or a SeekToAction without them", async () => {
+    const chaptered = await createVideo({ slug: "bean-soup" });
+    await extractVideoChapters(chaptered);
+    const plain = await createVideo({ videoId: "zyxwvutsrqp", slug: "plain", description: "" });
+
+    const html = (await request(app).get("/video/bean-soup").set("Accept", "text/html").expect(200)).text;
+    const graph = JSON.parse(html.match(/<script type="application\/ld\+json">([\s\S]*?)<\/script>/)![1])["@graph"];
+    expect(graph[0].hasPart).toHaveLength(4);
+    expect(graph[0].hasPart[1]).toEqual({
+      "@type": "Clip",
+      name: "Soaking the beans",
+      startOffset: 65,
+      endOffset: 270,
+      url: "https://nisam.video/video/bean-soup?t=65",
+    });
+    expect(graph[0].hasPart[3].endOffset).toBe(900);
+
+    const plainHtml = (await request(app).get(`/video/${plain.slug}`).set("Accept", "text/html").expect(200)).text;
+    expect(plainHtml).toContain('"@type":"SeekToAction"');
+    expect(plainHtml).toContain("https://nisam.video/video/plain?t={seek_to_second_number}");
+  });
+});
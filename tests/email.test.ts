@@ -0,0 +1,278 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import net from "net";
+import express from "express";
+import request from "supertest";
+import { memStorage } from "./helpers/storage";
+import "./helpers/open-auth";
+
+import { createSmtpTransport, SmtpError, type EmailTransport, type OutgoingEmail } from "../server/services/smtp-transport";
+import { renderEmailTemplate } from "../server/services/email-templates";
+import {
+  computeBackoffMs,
+  parseRecipients,
+  processEmailOutbox,
+  queueEmail,
+  setEmailTransportFactory,
+} from "../server/services/mailer";
+import emailSettingsRouter from "../server/routes/email-settings";
+
+type ReceivedMail = { from: string; to: string[]; auth: string | null; data: string };
+
+/**
+ * Tiny SMTP stand-in: accepts EHLO/AUTH/MAIL/RCPT/DATA and records messages.
+ * `rejectRcpt` makes it answer RCPT with a permanent failure.
+ */
+function startSmtpStandIn(options: { rejectRcpt?: boolean } = {}) {
+  const received: ReceivedMail[] = [];
+  const server = net.createServer((socket) => {
+    socket.setEncoding("utf8");
+    let buffer = "";
+    let inData = false;
+    let current: ReceivedMail = { from: "", to: [], auth: null, data: "" };
+    socket.write("220 localhost ESMTP stand-in\r\n");
+    socket.on("data", (chunk: string) => {
+      buffer += chunk;
+      if (inData) {
+        const end = buffer.indexOf("\r\n.\r\n");
+        if (end === -1) return;
+        current.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        received.push(current);
+        current = { from: "", to: [], auth: current.auth, data: "" };
+        socket.write("250 OK queued\r\n");
+      }
+      let idx: number;
+      while (!inData && (idx = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, idx);
+        buffer = buffer.slice(idx + 2);
+        const verb = line.split(" ")[0].toUpperCase();
+        if (verb === "EHLO") socket.write("250-localhost\r\n250 AUTH PLAIN\r\n");
+        else if (verb === "AUTH") {
+          current.auth = Buffer.from(line.split(" ")[2], "base64").toString("utf8");
+          socket.write("235 Authenticated\r\n");
+        } else if (verb === "MAIL") {
+          current.from = line.slice(line.indexOf("<") + 1, line.indexOf(">"));
+          socket.write("250 OK\r\n");
+        } else if (verb === "RCPT") {
+          if (options.rejectRcpt) socket.write("550 No such user\r\n");
+          else {
+            current.to.push(line.slice(line.indexOf("<") + 1, line.indexOf(">")));
+            socket.write("250 OK\r\n");
+          }
+        } else if (verb === "DATA") {
+          inData = true;
+          socket.write("354 End data with <CR><LF>.<CR><LF>\r\n");
+        } else if (verb === "QUIT") {
+          socket.end("221 Bye\r\n");
+        } else socket.write("502 Unknown command\r\n");
+      }
+    });
+  });
+  return new Promise<{ port: number; received: ReceivedMail[]; close: () => Promise<void> }>((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const port = (server.address() as net.AddressInfo).port;
+      resolve({ port, received, close: () => new Promise((r) => server.close(() => r())) });
+    });
+  });
+}
+
+function decodeBase64Part(data: string, contentType: string): string {
+  const part = data.split(`Content-Type: ${contentType}; charset=utf-8`)[1];
+  const body = part.split("\r\n\r\n")[1].split("\r\n--")[0];
+  return Buffer.from(body.replace(/\r\n/g, ""), "base64").toString("utf8");
+}
+
+const message: OutgoingEmail = {
+  from: { email: "no-reply@nisam.video", name: "nisam.video" },
+  to: ["admin@example.com"],
+  subject: "Nova preporuka kanala: šđčćž",
+  text: "Zdravo",
+  html: "<p>Zdravo</p>",
+};
+
+describe("SMTP transport", () => {
+  let standIn: Awaited<ReturnType<typeof startSmtpStandIn>>;
+
+  afterEach(async () => {
+    await standIn?.close();
+  });
+
+  it("delivers a multipart message with auth", async () => {
+    standIn = await startSmtpStandIn();
+    const transport = createSmtpTransport({
+      host: "127.0.0.1",
+      port: standIn.port,
+      secure: false,
+      username: "mailer",
+      password: "secret",
+    });
+
+    await transport.send(message);
+
+    expect(standIn.received).toHaveLength(1);
+    const mail = standIn.received[0];
+    expect(mail.auth).toBe("\0mailer\0secret");
+    expect(mail.from).toBe("no-reply@nisam.video");
+    expect(mail.to).toEqual(["admin@example.com"]);
+    const encodedSubject = mail.data.match(/^Subject: =\?UTF-8\?B\?(.+)\?=$/m)?.[1];
+    expect(Buffer.from(encodedSubject!, "base64").toString("utf8")).toBe(message.subject);
+    expect(decodeBase64Part(mail.data, "text/html")).toBe("<p>Zdravo</p>");
+  });
+
+  it("surfaces server rejections as SmtpError", async () => {
+    standIn = await startSmtpStandIn({ rejectRcpt: true });
+    const transport = createSmtpTransport({ host: "127.0.0.1", port: standIn.port, secure: false });
+
+    const error = await transport.send(message).catch((e) => e);
+    expect(error).toBeInstanceOf(SmtpError);
+    expect(error.code).toBe(550);
+    expect(standIn.received).toHaveLength(0);
+  });
+});
+
+describe("email templates", () => {
+  it("renders localized copy and escapes user input", () => {
+    const rendered = renderEmailTemplate("suggestion_submitted", "sr-Latn", {
+      type: "bug",
+      subject: "Ne radi\r\nBcc: evil@example.com",
+      message: "<script>alert(1)</script>",
+    });
+    expect(rendered.subject).toBe("[Prijava greške] Ne radi Bcc: evil@example.com");
+    expect(rendered.html).toContain("&lt;script&gt;alert(1)&lt;/script&gt;");
+    expect(rendered.html).not.toContain("<script>");
+    expect(rendered.text).toContain("Od: anonimno");
+  });
+
+  it("parses and de-duplicates recipient lists", () => {
+    expect(parseRecipients("a@example.com, b@example.com;a@example.com not-an-email")).toEqual([
+      "a@example.com",
+      "b@example.com",
+    ]);
+  });
+});
+
+describe("email outbox", () => {
+  const sent: OutgoingEmail[] = [];
+  let failNext = 0;
+  let onSend: (() => void) | null = null;
+  const fakeTransport: EmailTransport = {
+    async send(msg) {
+      onSend?.();
+      if (failNext > 0) {
+        failNext--;
+        throw new Error("451 Try again later");
+      }
+      sent.push(msg);
+    },
+  };
+
+  beforeEach(async () => {
+    sent.length = 0;
+    failNext = 0;
+    onSend = null;
+    setEmailTransportFactory(() => fakeTransport);
+    await memStorage.current.updateEmailSettings({
+      smtpHost: "smtp.example.com",
+      smtpFromEmail: "no-reply@nisam.video",
+      notificationRecipients: "admin@example.com",
+    });
+  });
+
+  afterEach(() => {
+    setEmailTransportFactory(null);
+  });
+
+  it("backs off exponentially up to a cap", () => {
+    expect(computeBackoffMs(1)).toBe(60_000);
+    expect(computeBackoffMs(3)).toBe(240_000);
+    expect(computeBackoffMs(20)).toBe(6 * 60 * 60 * 1000);
+  });
+
+  it("retries a failed delivery after the backoff window", async () => {
+    failNext = 1;
+    const [entry] = await queueEmail("scrape_job_failed", { jobId: "j1", jobType: "full_sync", error: "boom" }, {
+      to: ["admin@example.com"],
+      locale: "en",
+    });
+    // queueEmail kicks off processing in the background; run it explicitly to be deterministic
+    await processEmailOutbox();
+
+    let [row] = await memStorage.current.getEmailOutbox();
+    expect(row.id).toBe(entry.id);
+    expect(row.status).toBe("pending");
+    expect(row.attempts).toBe(1);
+    expect(row.lastError).toContain("451");
+    expect(row.nextAttemptAt.getTime()).toBeGreaterThan(Date.now());
+
+    // Not due yet
+    expect((await processEmailOutbox()).sent).toBe(0);
+
+    await memStorage.current.updateEmailOutboxEntry(entry.id, { nextAttemptAt: new Date(Date.now() - 1000) });
+    expect((await processEmailOutbox()).sent).toBe(1);
+
+    [row] = await memStorage.current.getEmailOutbox();
+    expect(row.status).toBe("sent");
+    expect(row.attempts).toBe(2);
+    expect(sent[0].subject).toBe("Scrape job failed (full_sync)");
+  });
+
+  it("keeps claiming until nothing is due, including mail queued mid-run", async () => {
+    const recipients = Array.from({ length: 25 }, (_, i) => `reader${i}@example.com`);
+    // Queued after the run claimed its first batch
+    let joined: Promise<unknown> | null = null;
+    onSend = () => {
+      onSend = null;
+      joined = queueEmail("test", {}, { to: ["late@example.com"] }).then(() => processEmailOutbox());
+    };
+    await queueEmail("test", {}, { to: recipients });
+    await processEmailOutbox();
+    await joined;
+
+    expect(sent.flatMap((msg) => msg.to).sort()).toEqual([...recipients, "late@example.com"].sort());
+  });
+
+  it("marks entries failed once attempts are exhausted", async () => {
+    failNext = 10;
+    const [entry] = await queueEmail("test", {}, { to: ["admin@example.com"] });
+    await processEmailOutbox();
+    await memStorage.current.updateEmailOutboxEntry(entry.id, { maxAttempts: 2, nextAttemptAt: new Date(0) });
+    expect((await processEmailOutbox()).failed).toBe(1);
+
+    const row = (await memStorage.current.getEmailOutbox()).find((e: { id: string }) => e.id === entry.id);
+    expect(row.status).toBe("failed");
+  });
+});
+
+describe("POST /api/admin/email-settings/test", () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/admin/email-settings", emailSettingsRouter);
+
+  afterEach(() => {
+    setEmailTransportFactory(null);
+  });
+
+  it("sends through the configured transport", async () => {
+    const sent: OutgoingEmail[] = [];
+    setEmailTransportFactory(() => ({ send: async (msg) => void sent.push(msg) }));
+    await memStorage.current.updateEmailSettings({ smtpHost: "smtp.example.com", smtpFromEmail: "no-reply@nisam.video" });
+
+    const res = await request(app).post("/api/admin/email-settings/test").send({ to: "me@example.com", locale: "sr-Latn" });
+    expect(res.status).toBe(200);
+    expect(sent[0].to).toEqual(["me@example.com"]);
+    expect(sent[0].subject).toBe("Probna poruka sa nisam.video");
+  });
+
+  it("reports transport errors", async () => {
+    setEmailTransportFactory(() => ({ send: async () => { throw new SmtpError("SMTP AUTH failed: 535 Bad credentials", 535); } }));
+    const res = await request(app).post("/api/admin/email-settings/test").send({ to: "me@example.com" });
+    expect(res.status).toBe(502);
+    expect(res.body.details).toContain("535");
+  });
+
+  it("validates the recipient", async () => {
+    const res = await request(app).post("/api/admin/email-settings/test").send({ to: "nope" });
+    expect(res.status).toBe(400);
+  });
+});
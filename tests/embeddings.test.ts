@@ -0,0 +1,204 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+
+const { embedder, rateCounts } = vi.hoisted(() => ({
+  embedder: { model: "fake-embed", calls: 0, fail: false, dailyBudgetUsd: null as number | null },
+  rateCounts: new Map<string, number>(),
+}));
+
+vi.mock("../server/kv-service.js", () => ({
+  kvService: {
+    checkRateLimit: async (id: string, action: string, { max }: { max: number }) => {
+      const key = `${action}:${id}`;
+      const count = (rateCounts.get(key) || 0) + 1;
+      rateCounts.set(key, count);
+      return count <= max;
+    },
+  },
+}));
+
+// Deterministic stand-in for an embedding model: words are mapped to a few
+// topics, so texts about the same topic are close even without shared words.
+vi.mock("../server/ai-service.js", () => {
+  const TOPICS: Record<string, number> = {
+    cake: 0, torta: 0, dessert: 0, sweet: 0, baking: 0, chocolate: 0,
+    football: 1, goal: 1, match: 1, sport: 1, league: 1,
+    guitar: 2, song: 2, music: 2, concert: 2,
+  };
+  const embed = (text: string) => {
+    const vector = new Array(4).fill(0);
+    for (const word of text.toLowerCase().split(/[^a-z]+/).filter(Boolean)) {
+      vector[TOPICS[word] ?? 3] += 1;
+    }
+    return vector;
+  };
+  return {
+    getAiConfig: async () => ({ embeddingModel: embedder.model, dailyBudgetUsd: embedder.dailyBudgetUsd, monthlyBudgetUsd: null }),
+    generateEmbeddings: async (texts: string[]) => {
+      embedder.calls++;
+      if (embedder.fail) throw new Error("connect ECONNREFUSED 127.0.0.1:11434");
+      return { model: embedder.model, embeddings: texts.map(embed) };
+    },
+  };
+});
+
+import {
+  backfillVideoEmbeddings,
+  buildEmbeddingText,
+  clearQueryEmbeddingCache,
+  SEMANTIC_SEARCH_RATE_LIMIT,
+} from "../server/services/embeddings";
+import videosRouter from "../server/routes/videos";
+import searchRouter from "../server/routes/search";
+
+const app = express();
+app.use("/api/videos", videosRouter);
+app.use("/api/search", searchRouter);
+
+let ids: Record<string, string>;
+
+beforeEach(async () => {
+  await resetMemStorage({ sampleVideo: false });
+  Object.assign(embedder, { model: "fake-embed", calls: 0, fail: false, dailyBudgetUsd: null });
+  rateCounts.clear();
+  clearQueryEmbeddingCache();
+
+  const storage = memStorage.current;
+  const channel = await storage.createChannel({ name: "Mix", url: "https://youtube.com/@mix", channelId: "mix", platform: "youtube" });
+  const video = async (videoId: string, title: string, description: string) =>
+    (await storage.createVideo({ channelId: channel.id, videoId, title, description, thumbnailUrl: "https://img/x.jpg" })).id;
+
+  ids = {
+    cake: await video("v1", "Chocolate cake", "Baking a sweet torta"),
+    dessert: await video("v2", "Dessert ideas", "Three sweet things to make"),
+    football: await video("v3", "Football highlights", "Every goal of the match"),
+    league: await video("v4", "League recap", "Sport news of the week"),
+    guitar: await video("v5", "Guitar lesson", "Learn a song"),
+  };
+  await storage.createTag({ videoId: ids.dessert }, [{ languageCode: "en", tagName: "baking" }]);
+});
+
+describe("embedding backfill", () => {
+  it("builds the text from title, description and tags", async () => {
+    const video = await memStorage.current.getVideoWithRelations(ids.dessert, "en");
+    expect(buildEmbeddingText(video)).toBe("Dessert ideas\n\nThree sweet things to make\n\nTags: baking");
+  });
+
+  it("embeds missing videos and skips unchanged text", async () => {
+    const first = await backfillVideoEmbeddings();
+    expect(first).toMatchObject({ checked: 5, embedded: 5, failed: 0 });
+    expect(await memStorage.current.getVideoEmbeddingStats("fake-embed")).toEqual({ embedded: 5, total: 5 });
+
+    expect(await backfillVideoEmbeddings()).toMatchObject({ checked: 0, embedded: 0 });
+
+    await memStorage.current.updateVideo(ids.guitar, { title: "Guitar concert" });
+    expect(await backfillVideoEmbeddings({ missingOnly: false })).toMatchObject({ checked: 5, embedded: 1, unchanged: 4 });
+
+    // A new model needs every video embedded again
+    embedder.model = "fake-embed-v2";
+    expect(await backfillVideoEmbeddings()).toMatchObject({ embedded: 5 });
+  });
+
+  it("stops at the first provider error", async () => {
+    embedder.fail = true;
+    const summary = await backfillVideoEmbeddings();
+    expect(summary).toMatchObject({ embedded: 0, failed: 5 });
+    expect(summary.error).toContain("ECONNREFUSED");
+    expect(embedder.calls).toBe(1);
+  });
+});
+
+describe("similar videos and semantic search", () => {
+  it("returns nearest neighbours and leaves hidden videos out", async () => {
+    await backfillVideoEmbeddings();
+    await memStorage.current.updateVideo(ids.dessert, { hiddenAt: new Date(), hiddenReason: "deleted" });
+
+    const res = await request(app).get(`/api/videos/${ids.football}/similar`);
+    expect(res.status).toBe(200);
+    expect(res.body[0].id).toBe(ids.league);
+    expect(res.body.map((v: any) => v.id)).not.toContain(ids.football);
+    expect(res.body.map((v: any) => v.id)).not.toContain(ids.dessert);
+  });
+
+  it("embeds a video on the spot when it has no embedding yet", async () => {
+    await backfillVideoEmbeddings();
+    const late = (await memStorage.current.createVideo({
+      channelId: (await memStorage.current.getVideo(ids.cake)).channelId,
+      videoId: "v6",
+      title: "Concert live",
+      description: "Music all night",
+      thumbnailUrl: "https://img/x.jpg",
+    })).id;
+
+    const res = await request(app).get(`/api/videos/${late}/similar`);
+    expect(res.body[0].id).toBe(ids.guitar);
+    expect((await memStorage.current.getVideoEmbeddings([late]))[0]).toMatchObject({ model: "fake-embed", dimensions: 4 });
+  });
+
+  it("finds videos by meaning rather than words", async () => {
+    await backfillVideoEmbeddings();
+
+    const res = await request(app).get("/api/search?q=dessert&mode=semantic&limit=2");
+    expect(res.status).toBe(200);
+    expect(res.body.mode).toBe("semantic");
+    expect(res.body.items.map((hit: any) => hit.video.id).sort()).toEqual([ids.cake, ids.dessert].sort());
+    expect(res.body.items[0].score).toBeGreaterThan(0.9);
+    expect(res.body.facets.platform).toEqual([{ value: "youtube", label: "youtube", count: 5 }]);
+
+    const keyword = await request(app).get("/api/search?q=dessert");
+    expect(keyword.body.mode).toBe("keyword");
+    expect(keyword.body.items.map((hit: any) => hit.video.id)).toEqual([ids.dessert]);
+  });
+
+  it("caches query embeddings and rate-limits new queries per visitor", async () => {
+    await backfillVideoEmbeddings();
+    embedder.calls = 0;
+
+    await request(app).get("/api/search?q=dessert&mode=semantic").expect(200);
+    const again = await request(app).get("/api/search?q=%20Dessert%20%20&mode=semantic").expect(200);
+    expect(again.body.mode).toBe("semantic");
+    expect(embedder.calls).toBe(1);
+
+    for (let i = 1; i < SEMANTIC_SEARCH_RATE_LIMIT; i++) {
+      await request(app).get(`/api/search?q=sweet+${"a".repeat(i)}&mode=semantic`).expect(200);
+    }
+    expect(embedder.calls).toBe(SEMANTIC_SEARCH_RATE_LIMIT);
+
+    const limited = await request(app).get("/api/search?q=football&mode=semantic").expect(200);
+    expect(limited.body.mode).toBe("keyword");
+    expect(embedder.calls).toBe(SEMANTIC_SEARCH_RATE_LIMIT);
+    // Cached queries still work past the limit
+    expect((await request(app).get("/api/search?q=dessert&mode=semantic")).body.mode).toBe("semantic");
+  });
+
+  it("leaves the rest of a nearly spent AI budget to the jobs", async () => {
+    embedder.dailyBudgetUsd = 1;
+    await memStorage.current.recordAiUsageEvent({
+      feature: "categorization",
+      provider: "openai",
+      model: "gpt-4o-mini",
+      costUsd: 0.85,
+      outcome: "success",
+    });
+
+    const res = await request(app).get("/api/search?q=guitar&mode=semantic").expect(200);
+    expect(res.body.mode).toBe("keyword");
+    expect(embedder.calls).toBe(0);
+  });
+
+  // Runs last: a provider failure pauses request-time embedding for a few minutes
+  it("falls back to keyword search and category scoring when the provider is down", async () => {
+    embedder.fail = true;
+
+    const search = await request(app).get("/api/search?q=football&mode=semantic");
+    expect(search.status).toBe(200);
+    expect(search.body.mode).toBe("keyword");
+    expect(search.body.items[0].video.id).toBe(ids.football);
+
+    const similar = await request(app).get(`/api/videos/${ids.football}/similar`);
+    expect(similar.status).toBe(200);
+    expect(similar.body.length).toBeGreaterThan(0);
+  });
+});
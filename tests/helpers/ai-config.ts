@@ -0,0 +1,14 @@
+import { vi } from "vitest";
+
+/** The ai_config row the AI service reads; tests set the provider they need. */
+export const aiConfig = { current: {} as Record<string, unknown> };
+
+vi.mock("../../server/db.js", () => ({
+  db: {
+    select: () => ({
+      from: () => ({
+        limit: () => Promise.resolve([aiConfig.current]),
+      }),
+    }),
+  },
+}));
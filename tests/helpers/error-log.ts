@@ -0,0 +1,9 @@
+import { EventEmitter } from "events";
+import { vi } from "vitest";
+
+/** Stand-ins for the error log, so tests can check what was recorded. */
+export const recordError = vi.fn();
+export const recordAuditLog = vi.fn();
+export const errorLogBus = new EventEmitter();
+
+vi.mock("../../server/error-log-service.js", () => ({ errorLogBus, recordError, recordAuditLog }));
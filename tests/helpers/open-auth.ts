@@ -0,0 +1,7 @@
+import { vi } from "vitest";
+
+// Lets every request through the auth and permission guards
+vi.mock("../../server/middleware/auth.js", () => ({
+  requireAuth: (_req: any, _res: any, next: any) => next(),
+  requirePermission: () => (_req: any, _res: any, next: any) => next(),
+}));
@@ -0,0 +1,23 @@
+import { vi } from "vitest";
+
+/**
+ * Swaps the storage singleton for a MemStorage. Import this ahead of any
+ * server module so they all get the in-memory storage.
+ */
+export const memStorage = { current: null as any };
+
+vi.mock("../../server/storage/index.js", async () => {
+  const { MemStorage } = await import("../../server/storage/memory");
+  memStorage.current = new MemStorage();
+  return { storage: memStorage.current };
+});
+
+/**
+ * Empties the storage for the next test. MemStorage seeds a sample video;
+ * `sampleVideo: false` drops it so a test only sees the videos it creates.
+ */
+export async function resetMemStorage(options: { sampleVideo?: boolean } = {}): Promise<void> {
+  const { MemStorage } = await import("../../server/storage/memory");
+  Object.assign(memStorage.current, new MemStorage());
+  if (options.sampleVideo === false) memStorage.current.videos.clear();
+}
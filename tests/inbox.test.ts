@@ -0,0 +1,321 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import net from "net";
+import express from "express";
+import request from "supertest";
+import { memStorage } from "./helpers/storage";
+import "./helpers/open-auth";
+
+const { notifyAdmins, emitWebhookEvent } = vi.hoisted(() => ({
+  notifyAdmins: vi.fn(),
+  emitWebhookEvent: vi.fn(),
+}));
+
+vi.mock("../server/services/mailer.js", () => ({ notifyAdmins }));
+vi.mock("../server/services/webhooks.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../server/services/webhooks.js")>()),
+  emitWebhookEvent,
+}));
+
+import { extractChannelUrls, normalizeChannelUrl } from "../server/channel-urls";
+import { normalizeThreadSubject, parseEmail } from "../server/services/mail-parser";
+import { createImapSource, selectUidsToFetch, type MailboxSource } from "../server/services/imap-client";
+import { pollImapInbox, setMailboxSourceFactory } from "../server/services/inbox-poller";
+import inboxRouter from "../server/routes/inbox";
+
+function rawEmail(options: {
+  messageId?: string;
+  from?: string;
+  subject: string;
+  body: string;
+  inReplyTo?: string;
+  date?: string;
+}): string {
+  return [
+    `From: ${options.from || "Marko Markovic <marko@example.com>"}`,
+    "To: inbox@nisam.video",
+    `Subject: ${options.subject}`,
+    `Date: ${options.date || "Mon, 12 Oct 2026 10:00:00 +0000"}`,
+    ...(options.messageId ? [`Message-ID: ${options.messageId}`] : []),
+    ...(options.inReplyTo ? [`In-Reply-To: ${options.inReplyTo}`, `References: ${options.inReplyTo}`] : []),
+    "Content-Type: text/plain; charset=utf-8",
+    "",
+    options.body,
+    "",
+  ].join("\r\n");
+}
+
+describe("mail parser", () => {
+  it("decodes encoded headers and prefers the plain-text part", () => {
+    const raw = [
+      "From: =?UTF-8?B?xJBvcsSRZSBQZXRyb3ZpxIc=?= <Djordje@Example.com>",
+      "Subject: =?UTF-8?Q?Predlog_kanala_=C5=A1?=",
+      "Message-ID: <abc@example.com>",
+      'Content-Type: multipart/alternative; boundary="b1"',
+      "",
+      "--b1",
+      "Content-Type: text/plain; charset=utf-8",
+      "Content-Transfer-Encoding: quoted-printable",
+      "",
+      "Pogledajte ovaj kanal: https://www.youtube.com/@kanal =C5=BEivo",
+      "--b1",
+      "Content-Type: text/html; charset=utf-8",
+      "",
+      "<p>HTML version</p>",
+      "--b1--",
+      "",
+    ].join("\r\n");
+
+    const parsed = parseEmail(raw);
+    expect(parsed.from).toEqual({ address: "djordje@example.com", name: "Đorđe Petrović" });
+    expect(parsed.subject).toBe("Predlog kanala š");
+    expect(parsed.messageId).toBe("<abc@example.com>");
+    expect(parsed.text).toBe("Pogledajte ovaj kanal: https://www.youtube.com/@kanal živo");
+  });
+
+  it("falls back to stripped HTML and decodes legacy charsets", () => {
+    const raw = [
+      "From: sender@example.com",
+      "Subject: Test",
+      "Content-Type: text/html; charset=windows-1250",
+      "Content-Transfer-Encoding: base64",
+      "",
+      Buffer.from([0x3c, 0x70, 0x3e, 0x9a, 0x75, 0x6d, 0x61, 0x3c, 0x2f, 0x70, 0x3e]).toString("base64"),
+      "",
+    ].join("\r\n");
+    expect(parseEmail(raw).text).toBe("šuma");
+  });
+
+  it("normalizes reply subjects for threading", () => {
+    expect(normalizeThreadSubject("Re: Odg: FWD:  Predlog  kanala")).toBe("predlog kanala");
+  });
+});
+
+describe("channel URL detection", () => {
+  it("finds YouTube, TikTok and X channels in free text", () => {
+    const found = extractChannelUrls(
+      "Kanali: youtube.com/@nauka, https://www.tiktok.com/@kuvar/video/123, " +
+        "https://twitter.com/vesti/status/9 i opet https://x.com/vesti. Video: https://www.youtube.com/watch?v=x",
+    );
+    expect(found).toEqual([
+      { platform: "youtube", url: "https://www.youtube.com/@nauka" },
+      { platform: "tiktok", url: "https://www.tiktok.com/@kuvar" },
+      { platform: "x", url: "https://x.com/vesti" },
+    ]);
+  });
+
+  it("ignores non-profile pages", () => {
+    expect(normalizeChannelUrl("https://x.com/home")).toBeNull();
+    expect(normalizeChannelUrl("https://www.tiktok.com/explore")).toBeNull();
+    expect(normalizeChannelUrl("https://example.com/@someone")).toBeNull();
+  });
+});
+
+/**
+ * Tiny IMAP stand-in: LOGIN, EXAMINE, UID SEARCH, UID FETCH and LOGOUT over a
+ * fixed set of messages.
+ */
+function startImapStandIn(messages: Array<{ uid: number; raw: string }>, uidValidity = "42") {
+  const commands: string[] = [];
+  const server = net.createServer((socket) => {
+    let buffer = "";
+    socket.write("* OK IMAP4rev1 stand-in ready\r\n");
+    socket.on("data", (chunk) => {
+      buffer += chunk.toString("utf8");
+      let idx: number;
+      while ((idx = buffer.indexOf("\r\n")) !== -1) {
+        const line = buffer.slice(0, idx);
+        buffer = buffer.slice(idx + 2);
+        commands.push(line);
+        const [tag, verb, ...rest] = line.split(" ");
+        const args = rest.join(" ");
+        if (verb === "LOGIN") {
+          if (args === '"reader" "p\\"ss"') socket.write(`${tag} OK LOGIN completed\r\n`);
+          else socket.write(`${tag} NO [AUTHENTICATIONFAILED] Invalid credentials\r\n`);
+        } else if (verb === "EXAMINE") {
+          socket.write(`* ${messages.length} EXISTS\r\n* OK [UIDVALIDITY ${uidValidity}] UIDs valid\r\n${tag} OK [READ-ONLY] EXAMINE completed\r\n`);
+        } else if (verb === "UID" && rest[0] === "SEARCH") {
+          const from = Number(rest[2].split(":")[0]);
+          const max = Math.max(...messages.map((m) => m.uid));
+          const uids = messages.map((m) => m.uid).filter((uid) => uid >= from || uid === max);
+          socket.write(`* SEARCH ${uids.join(" ")}\r\n${tag} OK SEARCH completed\r\n`);
+        } else if (verb === "UID" && rest[0] === "FETCH") {
+          const wanted = rest[1].split(",").map(Number);
+          messages
+            .filter((m) => wanted.includes(m.uid))
+            .forEach((m, i) => {
+              const body = Buffer.from(m.raw, "utf8");
+              socket.write(`* ${i + 1} FETCH (UID ${m.uid} BODY[] {${body.length}}\r\n`);
+              socket.write(body);
+              socket.write(")\r\n");
+            });
+          socket.write(`${tag} OK FETCH completed\r\n`);
+        } else if (verb === "LOGOUT") {
+          socket.end(`* BYE\r\n${tag} OK LOGOUT completed\r\n`);
+        } else {
+          socket.write(`${tag} BAD Unknown command\r\n`);
+        }
+      }
+    });
+  });
+  return new Promise<{ port: number; commands: string[]; close: () => Promise<void> }>((resolve) => {
+    server.listen(0, "127.0.0.1", () => {
+      const port = (server.address() as net.AddressInfo).port;
+      resolve({ port, commands, close: () => new Promise((r) => server.close(() => r())) });
+    });
+  });
+}
+
+describe("IMAP source", () => {
+  let standIn: Awaited<ReturnType<typeof startImapStandIn>>;
+
+  afterEach(async () => {
+    await standIn?.close();
+  });
+
+  it("fetches only messages above the last seen UID", async () => {
+    standIn = await startImapStandIn([
+      { uid: 3, raw: rawEmail({ messageId: "<m3@example.com>", subject: "Stara", body: "stara" }) },
+      { uid: 7, raw: rawEmail({ messageId: "<m7@example.com>", subject: "Nova š", body: "nova" }) },
+    ]);
+    const source = createImapSource({ host: "127.0.0.1", port: standIn.port, secure: false, username: "reader", password: 'p"ss' });
+
+    const result = await source.fetchNew({ mailbox: "INBOX", lastUid: 3, uidValidity: "42", limit: 50 });
+    expect(result.uidValidity).toBe("42");
+    expect(result.messages.map((m) => m.uid)).toEqual([7]);
+    expect(parseEmail(result.messages[0].raw).subject).toBe("Nova š");
+    expect(standIn.commands).toContain('A3 UID SEARCH UID 4:*');
+    expect(standIn.commands.some((c) => c.includes("BODY.PEEK[]"))).toBe(true);
+  });
+
+  it("starts over when UIDVALIDITY changes", async () => {
+    standIn = await startImapStandIn([{ uid: 1, raw: rawEmail({ subject: "A", body: "a" }) }], "99");
+    const source = createImapSource({ host: "127.0.0.1", port: standIn.port, secure: false, username: "reader", password: 'p"ss' });
+
+    const result = await source.fetchNew({ mailbox: "INBOX", lastUid: 500, uidValidity: "42", limit: 50 });
+    expect(result.uidValidity).toBe("99");
+    expect(result.messages.map((m) => m.uid)).toEqual([1]);
+  });
+
+  it("reports rejected logins", async () => {
+    standIn = await startImapStandIn([]);
+    const source = createImapSource({ host: "127.0.0.1", port: standIn.port, secure: false, username: "reader", password: "wrong" });
+    await expect(source.fetchNew({ mailbox: "INBOX", lastUid: 0, uidValidity: null, limit: 50 })).rejects.toThrow(
+      /LOGIN failed: NO/,
+    );
+  });
+
+  it("imports the newest messages first, then catches up oldest-first", () => {
+    expect(selectUidsToFetch([1, 2, 3, 4], 0, 2)).toEqual([3, 4]);
+    expect(selectUidsToFetch([4, 5, 6, 7], 4, 2)).toEqual([5, 6]);
+  });
+});
+
+describe("inbox poller", () => {
+  let mailbox: Array<{ uid: number; raw: string }> = [];
+  const fakeSource: MailboxSource = {
+    async fetchNew({ lastUid, uidValidity }) {
+      const since = uidValidity === "1" ? lastUid : 0;
+      return {
+        uidValidity: "1",
+        messages: mailbox.filter((m) => m.uid > since).map((m) => ({ uid: m.uid, raw: Buffer.from(m.raw) })),
+      };
+    },
+  };
+
+  beforeEach(async () => {
+    mailbox = [];
+    setMailboxSourceFactory(() => fakeSource);
+    await memStorage.current.updateEmailSettings({
+      imapHost: "imap.example.com",
+      imapUsername: "inbox@nisam.video",
+      smtpFromEmail: "no-reply@nisam.video",
+    });
+  });
+
+  afterEach(() => {
+    setMailboxSourceFactory(null);
+  });
+
+  it("threads replies and files channel recommendations once", async () => {
+    mailbox.push(
+      { uid: 1, raw: rawEmail({ messageId: "<t1@example.com>", subject: "Predlog kanala", body: "Dodajte https://www.youtube.com/@nauka" }) },
+      {
+        uid: 2,
+        raw: rawEmail({
+          messageId: "<t2@example.com>",
+          inReplyTo: "<t1@example.com>",
+          subject: "Re: Predlog kanala",
+          body: "I ovaj: https://www.tiktok.com/@kuvar, i opet youtube.com/@nauka",
+          date: "Mon, 12 Oct 2026 11:00:00 +0000",
+        }),
+      },
+      // No threading headers, grouped by subject
+      { uid: 3, raw: rawEmail({ messageId: "<t3@example.com>", subject: "Odg: predlog kanala", body: "Hvala!", date: "Mon, 12 Oct 2026 12:00:00 +0000" }) },
+      { uid: 4, raw: rawEmail({ messageId: "<n1@nisam.video>", from: "no-reply@nisam.video", subject: "Notification", body: "x.com/ignored" }) },
+    );
+
+    const summary = await pollImapInbox();
+    expect(summary).toEqual({ skipped: false, fetched: 4, stored: 3, recommendations: 2 });
+
+    const threads = await memStorage.current.getInboxThreads();
+    const thread = threads.find((t: { subject: string }) => t.subject === "Predlog kanala");
+    expect(thread.messageCount).toBe(3);
+    expect(thread.unreadCount).toBe(3);
+
+    const recs = await memStorage.current.getChannelRecommendations({});
+    expect(recs.map((r: { url: string; platform: string }) => [r.platform, r.url]).sort()).toEqual([
+      ["tiktok", "https://www.tiktok.com/@kuvar"],
+      ["youtube", "https://www.youtube.com/@nauka"],
+    ]);
+    // Same announcements as a recommendation from the site form
+    expect(notifyAdmins).toHaveBeenCalledTimes(2);
+    expect(notifyAdmins).toHaveBeenCalledWith("channel_recommendation", expect.objectContaining({ platform: "tiktok" }));
+    expect(emitWebhookEvent).toHaveBeenCalledWith("recommendation.submitted", {
+      recommendation: expect.objectContaining({ url: "https://www.youtube.com/@nauka" }),
+    });
+
+    const settings = await memStorage.current.getEmailSettings();
+    expect(settings.imapLastUid).toBe(4);
+    expect(settings.imapUidValidity).toBe("1");
+
+    // Nothing new on the next poll
+    expect((await pollImapInbox()).fetched).toBe(0);
+  });
+});
+
+describe("inbox thread routes", () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/admin/inbox", inboxRouter);
+
+  it("archives a thread and hides it from the default feed", async () => {
+    const created = await memStorage.current.createInboxMessage({
+      messageId: "<route@example.com>",
+      threadId: "thread-route",
+      threadSubject: "pitanje",
+      fromAddress: "ana@example.com",
+      subject: "Pitanje",
+      textBody: "Zdravo",
+      receivedAt: new Date(),
+    });
+    expect(created).toBeDefined();
+
+    const detail = await request(app).get("/api/admin/inbox/threads/thread-route");
+    expect(detail.status).toBe(200);
+    expect(detail.body.messages).toHaveLength(1);
+
+    const archived = await request(app).patch("/api/admin/inbox/threads/thread-route").send({ status: "archived" });
+    expect(archived.status).toBe(200);
+
+    const feed = await request(app).get("/api/admin/inbox?tab=emails");
+    expect(feed.body.items.some((i: { id: string }) => i.id === "thread-route")).toBe(false);
+
+    const archivedFeed = await request(app).get("/api/admin/inbox?tab=emails&status=archived");
+    expect(archivedFeed.body.items.find((i: { id: string }) => i.id === "thread-route")?.status).toBe("archived");
+  });
+
+  it("validates the status and unknown threads", async () => {
+    expect((await request(app).patch("/api/admin/inbox/threads/thread-route").send({ status: "deleted" })).status).toBe(400);
+    expect((await request(app).patch("/api/admin/inbox/threads/missing").send({ status: "read" })).status).toBe(404);
+  });
+});
@@ -0,0 +1,183 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+
+const { kvHistory } = vi.hoisted(() => ({
+  kvHistory: new Map<string, string[]>(),
+}));
+
+vi.mock("../server/kv-service.js", () => ({
+  kvService: {
+    getViewingHistory: async (id: string) => kvHistory.get(id) || [],
+    clearViewingHistory: async (id: string) => {
+      kvHistory.delete(id);
+    },
+  },
+}));
+
+import playlistsRouter from "../server/routes/playlists";
+import userRouter from "../server/routes/user";
+import { computeResumeSeconds, mergeAnonymousActivity } from "../server/services/user-library";
+
+type TestSession = { isAuthenticated?: boolean; userId?: string; role?: string };
+
+// Sessions are picked per request via a header so one app can act as several users
+function buildApp(sessions: Record<string, TestSession>) {
+  const app = express();
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    (req as any).session = { ...(sessions[req.get("x-test-user") || ""] || {}) };
+    next();
+  });
+  app.use("/api/playlists", playlistsRouter);
+  app.use("/api/user", userRouter);
+  return app;
+}
+
+describe("user library", () => {
+  let storage: any;
+  let app: express.Express;
+  let videoId: string;
+
+  beforeEach(async () => {
+    await resetMemStorage();
+    storage = memStorage.current;
+    kvHistory.clear();
+
+    const channel = await storage.createChannel({ name: "Kanal", url: "https://youtube.com/@k", channelId: "yt1", platform: "youtube" } as any);
+    const video = await storage.createVideo({ channelId: channel.id, videoId: "abc", title: "Prvi", thumbnailUrl: "https://img/1.jpg", videoType: "regular" } as any);
+    videoId = video.id;
+    const admin = await storage.createUser({ username: "root", password: "x", role: "admin" });
+
+    app = buildApp({
+      ana: { isAuthenticated: true, userId: "user-ana", role: "user" },
+      bob: { isAuthenticated: true, userId: "user-bob", role: "user" },
+      admin: { isAuthenticated: true, username: "admin", role: "admin" } as TestSession,
+      unenrolled: { isAuthenticated: true, userId: admin.id, role: "admin" },
+    });
+  });
+
+  it("requires a user account for library routes", async () => {
+    await request(app).get("/api/user/library/history").expect(401);
+    await request(app).get("/api/user/library/history").set("x-test-user", "admin").expect(401);
+  });
+
+  it("stores watch progress and offers a resume position", async () => {
+    await request(app)
+      .put(`/api/user/library/progress/${videoId}`)
+      .set("x-test-user", "ana")
+      .send({ positionSeconds: 125, durationSeconds: 600 })
+      .expect(200);
+
+    const progress = await request(app)
+      .get(`/api/user/library/progress/${videoId}`)
+      .set("x-test-user", "ana")
+      .expect(200);
+    expect(progress.body).toEqual({ positionSeconds: 125, durationSeconds: 600, resumeSeconds: 125 });
+
+    const history = await request(app).get("/api/user/library/history").set("x-test-user", "ana").expect(200);
+    expect(history.body).toHaveLength(1);
+    expect(history.body[0].video.id).toBe(videoId);
+
+    const other = await request(app).get("/api/user/library/history").set("x-test-user", "bob").expect(200);
+    expect(other.body).toEqual([]);
+  });
+
+  it("rejects invalid progress and unknown videos", async () => {
+    await request(app)
+      .put(`/api/user/library/progress/${videoId}`)
+      .set("x-test-user", "ana")
+      .send({ positionSeconds: -5 })
+      .expect(400);
+    await request(app)
+      .put("/api/user/library/progress/missing")
+      .set("x-test-user", "ana")
+      .send({ positionSeconds: 5 })
+      .expect(404);
+  });
+
+  it("removes history entries", async () => {
+    await storage.recordWatchProgress("user-ana", videoId, { positionSeconds: 30 });
+    await request(app).delete(`/api/user/library/history/${videoId}`).set("x-test-user", "ana").expect(200);
+    expect(await storage.getWatchHistory("user-ana")).toEqual([]);
+  });
+
+  it("skips resuming near the start or the end", () => {
+    const entry = { id: "1", userId: "u", videoId: "v", watchedAt: new Date() };
+    expect(computeResumeSeconds({ ...entry, positionSeconds: 5, durationSeconds: 600 })).toBe(0);
+    expect(computeResumeSeconds({ ...entry, positionSeconds: 590, durationSeconds: 600 })).toBe(0);
+    expect(computeResumeSeconds({ ...entry, positionSeconds: 300, durationSeconds: null })).toBe(300);
+  });
+
+  it("hides private playlists from everyone but the owner and admins", async () => {
+    const created = await request(app)
+      .post("/api/user/library/playlists")
+      .set("x-test-user", "ana")
+      .send({ name: "Za kasnije", visibility: "private" })
+      .expect(201);
+    const id = created.body.id;
+    expect(created.body.ownerId).toBe("user-ana");
+
+    await request(app).get(`/api/playlists/${id}`).expect(404);
+    await request(app).get(`/api/playlists/${id}`).set("x-test-user", "bob").expect(404);
+    await request(app).get(`/api/playlists/${id}`).set("x-test-user", "ana").expect(200);
+    await request(app).get(`/api/playlists/${id}`).set("x-test-user", "admin").expect(200);
+    // An admin account that hasn't set up two-factor auth gets no staff access
+    await request(app).get(`/api/playlists/${id}`).set("x-test-user", "unenrolled").expect(404);
+
+    // User playlists never appear in the editorial list
+    const list = await request(app).get("/api/playlists").expect(200);
+    expect(list.body).toEqual([]);
+
+    await request(app).patch(`/api/playlists/${id}`).set("x-test-user", "ana").send({ visibility: "unlisted" }).expect(200);
+    await request(app).get(`/api/playlists/${id}`).expect(200);
+  });
+
+  it("only lets the owner change a user playlist", async () => {
+    const playlist = await storage.createPlaylist({ name: "Ana", visibility: "public", ownerId: "user-ana" });
+
+    await request(app)
+      .post(`/api/playlists/${playlist.id}/videos`)
+      .set("x-test-user", "bob")
+      .send({ videoId })
+      .expect(403);
+    await request(app).delete(`/api/playlists/${playlist.id}`).set("x-test-user", "bob").expect(403);
+
+    await request(app)
+      .post(`/api/playlists/${playlist.id}/videos`)
+      .set("x-test-user", "ana")
+      .send({ videoId })
+      .expect(200);
+    const full = await request(app).get(`/api/playlists/${playlist.id}`).expect(200);
+    expect(full.body.videos).toHaveLength(1);
+  });
+
+  it("doesn't reveal someone else's private playlist to edits", async () => {
+    const playlist = await storage.createPlaylist({ name: "Ana's", visibility: "private", ownerId: "user-ana" });
+    await storage.addVideoToPlaylist(playlist.id, videoId);
+
+    await request(app)
+      .post(`/api/playlists/${playlist.id}/videos`)
+      .set("x-test-user", "bob")
+      .send({ videoId })
+      .expect(404);
+    await request(app).delete(`/api/playlists/${playlist.id}/videos/${videoId}`).set("x-test-user", "bob").expect(404);
+    await request(app).delete(`/api/playlists/${playlist.id}`).set("x-test-user", "bob").expect(200);
+
+    expect(await storage.getPlaylist(playlist.id)).toBeDefined();
+    const full = await request(app).get(`/api/playlists/${playlist.id}`).set("x-test-user", "ana").expect(200);
+    expect(full.body.videos).toHaveLength(1);
+  });
+
+  it("merges the anonymous viewing history on login", async () => {
+    kvHistory.set("ip:1.2.3.4", [videoId, "gone"]);
+
+    const merged = await mergeAnonymousActivity("user-ana", "ip:1.2.3.4");
+    expect(merged).toEqual({ likes: 0, history: 1, subscriptions: 0 });
+    expect(kvHistory.has("ip:1.2.3.4")).toBe(false);
+
+    const history = await storage.getWatchHistory("user-ana");
+    expect(history.map((h: any) => h.videoId)).toEqual([videoId]);
+  });
+});
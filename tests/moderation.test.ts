@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import { aiConfig } from "./helpers/ai-config";
+import "./helpers/open-auth";
+import "./helpers/error-log";
+
+const { submitUrls } = vi.hoisted(() => ({
+  submitUrls: vi.fn(),
+}));
+
+vi.mock("../server/services/indexnow.js", () => ({ submitUrls }));
+
+vi.mock("../server/services/job-queue.js", () => ({
+  jobQueue: { hasActiveJob: vi.fn().mockResolvedValue(false), createJob: vi.fn() },
+}));
+
+import videosRouter from "../server/routes/videos";
+import moderationRouter from "../server/routes/moderation";
+import { processScrapedVideos } from "../server/video-ingestion";
+import { matchRules, moderatePendingVideos } from "../server/services/moderation";
+
+const app = express();
+app.use(express.json());
+app.use("/api/videos", videosRouter);
+app.use("/api/admin/moderation", moderationRouter);
+
+const originalFetch = global.fetch;
+
+function scraped(videoId: string, title: string, description = "") {
+  return { videoId, title, description, thumbnailUrl: "https://img/x.jpg", descriptionComplete: true };
+}
+
+function aiAnswer(answer: unknown) {
+  return vi.fn(async () => ({
+    ok: true,
+    json: async () => ({ choices: [{ message: { content: JSON.stringify(answer) } }], usage: { prompt_tokens: 10, completion_tokens: 5 } }),
+  })) as any;
+}
+
+async function createChannel(trustLevel: string) {
+  return memStorage.current.createChannel({
+    name: `${trustLevel} channel`,
+    url: `https://youtube.com/@${trustLevel}`,
+    channelId: trustLevel,
+    platform: "youtube",
+    trustLevel,
+  });
+}
+
+async function ingest(channelId: string, videos: ReturnType<typeof scraped>[]) {
+  const result = await processScrapedVideos(videos, { channelId, platform: "youtube" });
+  return Promise.all(result.newVideoIds.map((id) => memStorage.current.getVideo(id)));
+}
+
+beforeEach(async () => {
+  await resetMemStorage({ sampleVideo: false });
+  aiConfig.current = { provider: "openai", openaiApiKey: "sk-test", openaiModel: "gpt-4o-mini", aiModeration: false };
+  submitUrls.mockClear();
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe("keyword rules", () => {
+  const rule = (pattern: string, extra: Record<string, unknown> = {}) =>
+    ({ id: pattern, pattern, isRegex: false, action: "review", note: null, isActive: true, createdAt: new Date(), ...extra }) as any;
+
+  it("matches whole words and phrases, or regular expressions", () => {
+    expect(matchRules("Street FIGHT compilation", [rule("fight")])?.pattern).toBe("fight");
+    expect(matchRules("Firefighter training", [rule("fight")])).toBeUndefined();
+    expect(matchRules("Top 10 crazy   pranks", [rule("crazy pranks")])?.pattern).toBe("crazy pranks");
+    expect(matchRules("Free V-Bucks!!", [rule("free\\s+v-?bucks", { isRegex: true })])).toBeDefined();
+    expect(matchRules("fight", [rule("fight", { isActive: false })])).toBeUndefined();
+  });
+
+  it("lets reject rules win over review rules", () => {
+    const rules = [rule("fight"), rule("gore", { action: "reject" })];
+    expect(matchRules("fight with gore", rules)?.action).toBe("reject");
+  });
+});
+
+describe("moderation at ingestion", () => {
+  it("publishes clean videos and holds or rejects the ones matching rules", async () => {
+    const channel = await createChannel("standard");
+    await memStorage.current.createModerationRule({ pattern: "fight", isRegex: false, action: "review", note: null, isActive: true });
+    await memStorage.current.createModerationRule({ pattern: "gore", isRegex: false, action: "reject", note: "Graphic", isActive: true });
+
+    const [clean, held, rejected] = await ingest(channel.id, [
+      scraped("aaaaaaaaaaa", "Bean soup"),
+      scraped("bbbbbbbbbbb", "Street fight"),
+      scraped("ccccccccccc", "Cooking", "Lots of gore"),
+    ]);
+
+    expect(clean).toMatchObject({ moderationStatus: "approved", hiddenAt: null });
+    expect(held).toMatchObject({ moderationStatus: "pending_review", hiddenReason: "pending_review", moderationReason: 'Matched rule "fight"' });
+    expect(rejected).toMatchObject({ moderationStatus: "rejected", hiddenReason: "rejected", moderationReason: 'Matched rule "gore" (Graphic)' });
+    // Only the published video is announced
+    expect(submitUrls).toHaveBeenCalledWith([`https://nisam.video/video/${clean.slug}`]);
+
+    await request(app).get(`/api/videos/${clean.id}`).expect(200);
+    await request(app).get(`/api/videos/${held.id}`).expect(404);
+    const list = await request(app).get("/api/videos").expect(200);
+    expect(list.body.map((v: any) => v.id)).toEqual([clean.id]);
+  });
+
+  it("skips checks for trusted channels and holds everything from untrusted ones", async () => {
+    await memStorage.current.createModerationRule({ pattern: "fight", isRegex: false, action: "reject", note: null, isActive: true });
+    const trusted = await createChannel("trusted");
+    const untrusted = await createChannel("untrusted");
+
+    const [fromTrusted] = await ingest(trusted.id, [scraped("ddddddddddd", "Pillow fight")]);
+    const [fromUntrusted] = await ingest(untrusted.id, [scraped("eeeeeeeeeee", "Bean soup")]);
+
+    expect(fromTrusted).toMatchObject({ moderationStatus: "approved", hiddenAt: null });
+    expect(fromUntrusted).toMatchObject({ moderationStatus: "pending_review", moderationReason: "Untrusted channel" });
+  });
+
+  it("holds videos the AI classifier flags", async () => {
+    aiConfig.current = { ...aiConfig.current, aiModeration: true };
+    const channel = await createChannel("standard");
+    let prompt = "";
+    global.fetch = vi.fn(async (_url: any, init: any) => {
+      prompt = JSON.parse(init.body).messages.map((m: any) => m.content).join("\n");
+      return aiAnswer({ safe: false, labels: ["violence", "made_up"], reason: "Shows a fight." })();
+    }) as any;
+
+    const [video] = await ingest(channel.id, [scraped("fffffffffff", "Road rage", "Caught on camera")]);
+    expect(prompt).toContain("Title: Road rage");
+    expect(video).toMatchObject({ moderationStatus: "pending_review", moderationReason: "AI: violence - Shows a fight." });
+
+    global.fetch = aiAnswer({ safe: true, labels: [], reason: "" });
+    const [safe] = await ingest(channel.id, [scraped("ggggggggggg", "Bean soup")]);
+    expect(safe).toMatchObject({ moderationStatus: "approved", hiddenAt: null });
+  });
+
+  it("holds a video for an admin when the classifier fails", async () => {
+    aiConfig.current = { ...aiConfig.current, aiModeration: true };
+    const channel = await createChannel("standard");
+    global.fetch = vi.fn(async () => ({ ok: false, status: 500, statusText: "Server Error", text: async () => "" })) as any;
+
+    const [video] = await ingest(channel.id, [scraped("hhhhhhhhhhh", "Bean soup")]);
+    expect(video.moderationStatus).toBe("pending_review");
+    expect(video.moderationReason).toMatch(/^AI check failed/);
+    expect(video.moderatedAt).toBeInstanceOf(Date);
+  });
+});
+
+describe("moderation queue", () => {
+  it("lists held videos and publishes or rejects them in bulk", async () => {
+    const channel = await createChannel("untrusted");
+    const [first, second] = await ingest(channel.id, [scraped("iiiiiiiiiii", "First"), scraped("jjjjjjjjjjj", "Second")]);
+    submitUrls.mockClear();
+
+    const queue = await request(app).get("/api/admin/moderation").expect(200);
+    expect(queue.body.counts).toMatchObject({ pending_review: 2, approved: 0 });
+    expect(queue.body.videos.map((v: any) => [v.title, v.channelTrustLevel])).toEqual(
+      expect.arrayContaining([["First", "untrusted"], ["Second", "untrusted"]]),
+    );
+
+    await request(app)
+      .post("/api/admin/moderation/bulk")
+      .send({ videoIds: [first.id], action: "approve" })
+      .expect(200, { success: true, updated: 1 });
+    await request(app)
+      .post("/api/admin/moderation/bulk")
+      .send({ videoIds: [second.id], action: "reject" })
+      .expect(200);
+
+    expect(await memStorage.current.getVideo(first.id)).toMatchObject({ moderationStatus: "approved", hiddenAt: null });
+    expect(await memStorage.current.getVideo(second.id)).toMatchObject({ moderationStatus: "rejected", hiddenReason: "rejected" });
+    expect(submitUrls).toHaveBeenCalledTimes(1);
+
+    const rejected = await request(app).get("/api/admin/moderation?status=rejected").expect(200);
+    expect(rejected.body.videos.map((v: any) => v.id)).toEqual([second.id]);
+  });
+
+  it("validates and stores keyword rules", async () => {
+    await request(app).post("/api/admin/moderation/rules").send({ pattern: "(", isRegex: true }).expect(400);
+    const created = await request(app).post("/api/admin/moderation/rules").send({ pattern: "gore", action: "reject" }).expect(201);
+    expect(created.body).toMatchObject({ pattern: "gore", action: "reject", isRegex: false, isActive: true });
+
+    await request(app).patch(`/api/admin/moderation/rules/${created.body.id}`).send({ isActive: false }).expect(200);
+    const rules = await request(app).get("/api/admin/moderation/rules").expect(200);
+    expect(rules.body).toEqual([expect.objectContaining({ pattern: "gore", isActive: false })]);
+  });
+
+  it("finishes checks the AI budget interrupted", async () => {
+    const channel = await createChannel("standard");
+    const video = await memStorage.current.createVideo({
+      channelId: channel.id,
+      videoId: "kkkkkkkkkkk",
+      slug: "waiting",
+      title: "Waiting",
+      thumbnailUrl: "https://img/x.jpg",
+      moderationStatus: "pending_review",
+      hiddenAt: new Date(),
+      hiddenReason: "pending_review",
+    });
+
+    expect(await moderatePendingVideos()).toEqual({ checked: 1, approved: 1, held: 0, failed: 0 });
+    expect(await memStorage.current.getVideo(video.id)).toMatchObject({ moderationStatus: "approved", hiddenAt: null });
+    expect(submitUrls).toHaveBeenCalledWith(["https://nisam.video/video/waiting"]);
+    expect(await moderatePendingVideos()).toEqual({ checked: 0, approved: 0, held: 0, failed: 0 });
+  });
+});
@@ -0,0 +1,465 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import crypto from "crypto";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import { recordAuditLog } from "./helpers/error-log";
+
+const { session } = vi.hoisted(() => ({
+  session: { current: {} as Record<string, any> },
+}));
+
+vi.mock("../server/services/user-library.js", () => ({
+  mergeAnonymousActivity: vi.fn(),
+}));
+
+import authRouter from "../server/routes/auth";
+import oidcProvidersRouter from "../server/routes/oidc-providers";
+import { clearOidcCache, mapRoleFromClaims, pkceChallenge } from "../server/services/oidc";
+import { base32Encode } from "../server/services/two-factor";
+
+// ---------------------------------------------------------------------------
+// A local OpenID Connect issuer: discovery, JWKS, authorize (auto-consent),
+// token with PKCE checks, and userinfo. A GitHub-like plain OAuth 2.0 flavour
+// lives under /gh.
+// ---------------------------------------------------------------------------
+
+type IssuedCode = {
+  clientId: string;
+  redirectUri: string;
+  challenge: string | null;
+  nonce: string | null;
+  claims: Record<string, unknown>;
+};
+
+const signingKey = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const rogueKey = crypto.generateKeyPairSync("rsa", { modulusLength: 2048 });
+const KID = "test-key";
+
+const issuerState = {
+  url: "",
+  codes: new Map<string, IssuedCode>(),
+  accessTokens: new Map<string, Record<string, unknown>>(),
+  nextUser: {} as Record<string, unknown>,
+  // Lets a test break the ID token in a specific way
+  tamper: null as null | "nonce" | "audience" | "signature" | "expiry",
+};
+
+function signJwt(claims: Record<string, unknown>, key: crypto.KeyObject) {
+  const header = Buffer.from(JSON.stringify({ alg: "RS256", kid: KID, typ: "JWT" })).toString("base64url");
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  const signature = crypto.sign("sha256", Buffer.from(`${header}.${payload}`), key).toString("base64url");
+  return `${header}.${payload}.${signature}`;
+}
+
+const issuerApp = express();
+issuerApp.use(express.urlencoded({ extended: false }));
+
+issuerApp.get("/.well-known/openid-configuration", (_req, res) => {
+  res.json({
+    issuer: issuerState.url,
+    authorization_endpoint: `${issuerState.url}/authorize`,
+    token_endpoint: `${issuerState.url}/token`,
+    userinfo_endpoint: `${issuerState.url}/userinfo`,
+    jwks_uri: `${issuerState.url}/jwks`,
+  });
+});
+
+issuerApp.get("/jwks", (_req, res) => {
+  res.json({ keys: [{ ...signingKey.publicKey.export({ format: "jwk" }), kid: KID, use: "sig", alg: "RS256" }] });
+});
+
+function authorize(req: express.Request, res: express.Response) {
+  const code = crypto.randomBytes(8).toString("hex");
+  issuerState.codes.set(code, {
+    clientId: String(req.query.client_id),
+    redirectUri: String(req.query.redirect_uri),
+    challenge: req.query.code_challenge_method === "S256" ? String(req.query.code_challenge) : null,
+    nonce: typeof req.query.nonce === "string" ? req.query.nonce : null,
+    claims: issuerState.nextUser,
+  });
+  const target = new URL(String(req.query.redirect_uri));
+  target.searchParams.set("code", code);
+  target.searchParams.set("state", String(req.query.state));
+  res.redirect(target.toString());
+}
+
+function redeemCode(req: express.Request, res: express.Response): IssuedCode | null {
+  const issued = issuerState.codes.get(req.body.code);
+  issuerState.codes.delete(req.body.code);
+  if (
+    !issued ||
+    req.body.grant_type !== "authorization_code" ||
+    req.body.client_id !== issued.clientId ||
+    req.body.client_secret !== "s3cret" ||
+    req.body.redirect_uri !== issued.redirectUri ||
+    !issued.challenge ||
+    pkceChallenge(String(req.body.code_verifier || "")) !== issued.challenge
+  ) {
+    res.status(400).json({ error: "invalid_grant" });
+    return null;
+  }
+  return issued;
+}
+
+issuerApp.get("/authorize", authorize);
+
+issuerApp.post("/token", (req, res) => {
+  const issued = redeemCode(req, res);
+  if (!issued) return;
+  const now = Math.floor(Date.now() / 1000);
+  const tamper = issuerState.tamper;
+  const claims = {
+    ...issued.claims,
+    iss: issuerState.url,
+    aud: tamper === "audience" ? "someone-else" : issued.clientId,
+    nonce: tamper === "nonce" ? "replayed-nonce" : issued.nonce,
+    iat: now,
+    exp: tamper === "expiry" ? now - 3600 : now + 300,
+  };
+  const accessToken = crypto.randomBytes(8).toString("hex");
+  issuerState.accessTokens.set(accessToken, issued.claims);
+  res.json({
+    access_token: accessToken,
+    token_type: "Bearer",
+    id_token: signJwt(claims, tamper === "signature" ? rogueKey.privateKey : signingKey.privateKey),
+  });
+});
+
+issuerApp.get("/userinfo", (req, res) => {
+  const claims = issuerState.accessTokens.get(String(req.get("authorization")).replace("Bearer ", ""));
+  if (!claims) return res.status(401).json({ error: "invalid_token" });
+  res.json({ sub: claims.sub, email: claims.email, email_verified: claims.email_verified, name: claims.name });
+});
+
+// GitHub-style OAuth 2.0: no discovery, no ID token, numeric id and login in the user endpoint
+issuerApp.get("/gh/authorize", authorize);
+issuerApp.post("/gh/token", (req, res) => {
+  const issued = redeemCode(req, res);
+  if (!issued) return;
+  const accessToken = crypto.randomBytes(8).toString("hex");
+  issuerState.accessTokens.set(accessToken, issued.claims);
+  res.json({ access_token: accessToken, token_type: "bearer" });
+});
+issuerApp.get("/gh/user", (req, res) => {
+  const claims = issuerState.accessTokens.get(String(req.get("authorization")).replace("Bearer ", ""));
+  if (!claims) return res.status(401).json({ message: "Bad credentials" });
+  res.json(claims);
+});
+
+let issuerServer: Server;
+
+// ---------------------------------------------------------------------------
+// The app under test, with a stand-in for express-session
+// ---------------------------------------------------------------------------
+
+function createSession() {
+  const current: Record<string, any> = {};
+  const clear = () => {
+    for (const key of Object.keys(current)) {
+      if (typeof current[key] !== "function") delete current[key];
+    }
+  };
+  Object.assign(current, {
+    regenerate: (cb: (err?: Error) => void) => { clear(); cb(); },
+    save: (cb?: (err?: Error) => void) => cb?.(),
+    destroy: (cb: (err?: Error) => void) => { clear(); cb(); },
+  });
+  return current;
+}
+
+const app = express();
+app.use(express.json());
+app.use((req: any, _res, next) => {
+  req.session = session.current;
+  next();
+});
+app.use("/api/auth", authRouter);
+app.use("/api/admin/oidc-providers", oidcProvidersRouter);
+
+async function createProvider(overrides: Record<string, unknown> = {}) {
+  return memStorage.current.createOidcProvider({
+    slug: "keycloak",
+    name: "Keycloak",
+    issuer: issuerState.url,
+    clientId: "nisam",
+    clientSecret: "s3cret",
+    scopes: "openid email profile",
+    authorizationEndpoint: null,
+    tokenEndpoint: null,
+    userinfoEndpoint: null,
+    enabled: true,
+    allowSignup: true,
+    linkByEmail: true,
+    roleClaim: "groups",
+    roleMappings: { "video-editors": "editor", staff: "viewer" },
+    ...overrides,
+  });
+}
+
+/** Follows start -> provider -> callback the way a browser would and returns the callback response. */
+async function signIn(slug: string, options: { link?: boolean; beforeCallback?: (url: URL) => void } = {}) {
+  const start = await request(app).get(`/api/auth/oidc/${slug}/start${options.link ? "?link=1" : ""}`).expect(302);
+  const consent = await fetch(start.headers.location, { redirect: "manual" });
+  const callback = new URL(consent.headers.get("location")!);
+  options.beforeCallback?.(callback);
+  return request(app).get(`${callback.pathname}${callback.search}`).expect(302);
+}
+
+function oidcError(res: { headers: Record<string, string> }) {
+  return new URL(res.headers.location, "http://localhost").searchParams.get("oidcError");
+}
+
+function auditActions() {
+  return recordAuditLog.mock.calls.map(([entry]) => entry.action);
+}
+
+beforeAll(async () => {
+  issuerServer = issuerApp.listen(0, "127.0.0.1");
+  await new Promise<void>((resolve) => issuerServer.once("listening", () => resolve()));
+  issuerState.url = `http://127.0.0.1:${(issuerServer.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => issuerServer.close(() => resolve()));
+});
+
+beforeEach(async () => {
+  await resetMemStorage();
+  session.current = createSession();
+  recordAuditLog.mockReset();
+  clearOidcCache();
+  issuerState.tamper = null;
+  issuerState.nextUser = {
+    sub: "kc-123",
+    email: "mira@example.com",
+    email_verified: true,
+    preferred_username: "mira",
+    groups: ["staff", "video-editors"],
+  };
+});
+
+describe("OIDC provider settings", () => {
+  it("creates providers with a masked secret and checks their endpoints", async () => {
+    session.current.isAuthenticated = true;
+    session.current.role = "admin";
+
+    const created = await request(app)
+      .post("/api/admin/oidc-providers")
+      .send({ slug: "Keycloak", name: "Keycloak", issuer: issuerState.url, clientId: "nisam", clientSecret: "s3cret" })
+      .expect(201);
+    expect(created.body).toMatchObject({ slug: "keycloak", clientSecret: "********", scopes: "openid email profile" });
+    expect(created.body.redirectUri).toMatch(/\/api\/auth\/oidc\/keycloak\/callback$/);
+
+    await request(app)
+      .post("/api/admin/oidc-providers")
+      .send({ slug: "keycloak", name: "Again", issuer: issuerState.url, clientId: "x" })
+      .expect(400);
+    await request(app)
+      .post("/api/admin/oidc-providers")
+      .send({ slug: "github", name: "GitHub", clientId: "x" })
+      .expect(400);
+
+    // The masked value keeps the stored secret
+    await request(app).patch(`/api/admin/oidc-providers/${created.body.id}`).send({ clientSecret: "********", name: "Company SSO" }).expect(200);
+    const stored = await memStorage.current.getOidcProvider(created.body.id);
+    expect(stored).toMatchObject({ name: "Company SSO", clientSecret: "s3cret" });
+
+    const test = await request(app).post(`/api/admin/oidc-providers/${created.body.id}/test`).expect(200);
+    expect(test.body.endpoints.tokenEndpoint).toBe(`${issuerState.url}/token`);
+
+    const publicList = await request(app).get("/api/auth/oidc/providers").expect(200);
+    expect(publicList.body).toEqual([{ slug: "keycloak", name: "Company SSO" }]);
+  });
+
+  it("maps the most privileged matching claim value to a role", () => {
+    const provider = { roleClaim: "realm_access.roles", roleMappings: { staff: "viewer" as const, ops: "admin" as const } };
+    expect(mapRoleFromClaims(provider, { realm_access: { roles: ["staff", "ops"] } })).toBe("admin");
+    expect(mapRoleFromClaims(provider, { realm_access: { roles: ["other"] } })).toBeNull();
+    expect(mapRoleFromClaims({ ...provider, roleClaim: null }, { realm_access: { roles: ["ops"] } })).toBeNull();
+  });
+});
+
+describe("OIDC sign-in", () => {
+  it("signs up a new user with discovery, PKCE and a verified ID token", async () => {
+    await createProvider();
+
+    const res = await signIn("keycloak");
+    expect(res.headers.location).toBe("/");
+    expect(session.current).toMatchObject({ isAuthenticated: true, username: "mira", role: "editor" });
+
+    const user = await memStorage.current.getUserByUsername("mira");
+    expect(user).toMatchObject({ email: "mira@example.com", role: "editor" });
+    expect(user.emailVerifiedAt).toBeInstanceOf(Date);
+    expect(auditActions()).toEqual(["user.register", "auth.login.success"]);
+
+    // The same identity signs in to the same account
+    session.current = createSession();
+    await signIn("keycloak");
+    expect(session.current.userId).toBe(user.id);
+    expect((await memStorage.current.getAllUsers()).filter((u: any) => u.username.startsWith("mira"))).toHaveLength(1);
+  });
+
+  it("links to an existing user only through a verified email", async () => {
+    await createProvider({ roleClaim: null });
+    const existing = await memStorage.current.createUser({
+      username: "mira_old",
+      password: "x",
+      email: "MIRA@example.com",
+      role: "moderator",
+    });
+    await memStorage.current.updateUser(existing.id, { emailVerifiedAt: new Date() });
+
+    issuerState.nextUser = { ...issuerState.nextUser, email_verified: false };
+    await signIn("keycloak");
+    expect(session.current.userId).not.toBe(existing.id);
+    // The address belongs to someone else, so the new account goes without it
+    expect((await memStorage.current.getUser(session.current.userId)).email).toBeNull();
+
+    session.current = createSession();
+    issuerState.nextUser = { ...issuerState.nextUser, sub: "kc-456", email_verified: true };
+    await signIn("keycloak");
+    expect(session.current).toMatchObject({ userId: existing.id, role: "moderator" });
+    expect(auditActions()).toContain("auth.oidc.linked");
+  });
+
+  it("lets a provider-created account add and change its email without a password", async () => {
+    await createProvider({ roleClaim: null });
+    const { email: _email, email_verified: _verified, ...claims } = issuerState.nextUser;
+    issuerState.nextUser = claims;
+
+    await signIn("keycloak");
+    const user = await memStorage.current.getUser(session.current.userId);
+    expect(user).toMatchObject({ email: null, passwordSet: false });
+
+    await request(app).put("/api/auth/email").send({ email: "mira@example.net" }).expect(200);
+    await request(app).put("/api/auth/email").send({ email: "mira@example.org" }).expect(200);
+    expect((await memStorage.current.getUser(user.id)).email).toBe("mira@example.org");
+  });
+
+  it("won't link by email to a local account that never verified the address", async () => {
+    await createProvider({ roleClaim: null });
+    const squatter = await memStorage.current.createUser({
+      username: "mira_squat",
+      password: "x",
+      email: "mira@example.com",
+      role: "user",
+    });
+
+    const res = await signIn("keycloak");
+    expect(oidcError(res)).toContain("link Keycloak in Settings");
+    expect(session.current.isAuthenticated).toBeUndefined();
+    const provider = await memStorage.current.getOidcProviderBySlug("keycloak");
+    expect(await memStorage.current.getUserIdentity(provider.id, "kc-123")).toBeUndefined();
+    expect(await memStorage.current.getUserIdentitiesByUser(squatter.id)).toHaveLength(0);
+  });
+
+  it.each([
+    ["nonce", "doesn't match this sign-in"],
+    ["audience", "different client"],
+    ["signature", "signature is invalid"],
+    ["expiry", "has expired"],
+  ] as const)("rejects an ID token with a wrong %s", async (tamper, message) => {
+    await createProvider();
+    issuerState.tamper = tamper;
+
+    const res = await signIn("keycloak");
+    expect(res.headers.location).toMatch(/^\/login\?/);
+    expect(oidcError(res)).toContain(message);
+    expect(session.current.isAuthenticated).toBeUndefined();
+    expect(auditActions()).toEqual(["auth.oidc.failure"]);
+  });
+
+  it("rejects a callback with the wrong state or a swapped PKCE verifier", async () => {
+    await createProvider();
+
+    const badState = await signIn("keycloak", {
+      beforeCallback: (url) => url.searchParams.set("state", "forged"),
+    });
+    expect(oidcError(badState)).toContain("expired");
+
+    const badVerifier = await signIn("keycloak", {
+      beforeCallback: () => {
+        session.current.oidcFlow.codeVerifier = "another-verifier-of-the-right-length-0123456789abcdef";
+      },
+    });
+    expect(oidcError(badVerifier)).toContain("Could not complete the sign-in");
+    expect(session.current.isAuthenticated).toBeUndefined();
+
+    // A callback can't be replayed: the flow is gone from the session
+    await request(app).get("/api/auth/oidc/keycloak/callback?code=x&state=y").expect(302);
+    expect(session.current.isAuthenticated).toBeUndefined();
+  });
+
+  it("refuses unknown identities when sign-up is off", async () => {
+    await createProvider({ allowSignup: false, linkByEmail: false });
+
+    const res = await signIn("keycloak");
+    expect(oidcError(res)).toContain("No account is linked");
+    expect(await memStorage.current.getUserByUsername("mira")).toBeUndefined();
+  });
+
+  it("signs in through a plain OAuth 2.0 provider with a userinfo endpoint", async () => {
+    await createProvider({
+      slug: "github",
+      name: "GitHub",
+      issuer: null,
+      authorizationEndpoint: `${issuerState.url}/gh/authorize`,
+      tokenEndpoint: `${issuerState.url}/gh/token`,
+      userinfoEndpoint: `${issuerState.url}/gh/user`,
+      scopes: "read:user user:email",
+      roleClaim: null,
+    });
+    issuerState.nextUser = { id: 42, login: "octo", email: "octo@example.com" };
+
+    await signIn("github");
+    expect(session.current).toMatchObject({ isAuthenticated: true, username: "octo", role: "user" });
+    const user = await memStorage.current.getUserByUsername("octo");
+    // GitHub doesn't say whether the address is verified
+    expect(user.emailVerifiedAt).toBeNull();
+    expect(await memStorage.current.getUserIdentity((await memStorage.current.getOidcProviderBySlug("github")).id, "42")).toBeTruthy();
+  });
+
+  it("still asks for the second factor when the user has one", async () => {
+    await createProvider({ roleClaim: null });
+    const user = await memStorage.current.createUser({ username: "mira", password: "x", email: "mira@example.com", role: "user" });
+    await memStorage.current.updateUser(user.id, {
+      emailVerifiedAt: new Date(),
+      totpSecret: base32Encode(Buffer.from("abcdefghijklmnopqrst")),
+      totpEnabledAt: new Date(),
+    });
+
+    const res = await signIn("keycloak");
+    expect(res.headers.location).toBe("/login?twoFactor=1");
+    expect(session.current.isAuthenticated).toBeUndefined();
+    expect(session.current.pendingTwoFactor).toMatchObject({ userId: user.id });
+  });
+});
+
+describe("linked accounts", () => {
+  it("links a provider from settings and unlinks it again", async () => {
+    await createProvider({ roleClaim: null, linkByEmail: false });
+    const user = await memStorage.current.createUser({ username: "ana", password: "x", email: "ana@example.com", role: "user" });
+    Object.assign(session.current, { isAuthenticated: true, userId: user.id, username: "ana", role: "user" });
+
+    const res = await signIn("keycloak", { link: true });
+    expect(res.headers.location).toBe("/settings?linked=keycloak");
+    expect(session.current.userId).toBe(user.id);
+
+    const list = await request(app).get("/api/auth/identities").expect(200);
+    expect(list.body).toEqual([expect.objectContaining({ providerSlug: "keycloak", email: "mira@example.com" })]);
+
+    // Another user can't claim the same identity
+    const other = await memStorage.current.createUser({ username: "bo", password: "x", email: null, role: "user" });
+    Object.assign(session.current, { userId: other.id, username: "bo" });
+    const conflict = await signIn("keycloak", { link: true });
+    expect(oidcError(conflict)).toContain("already linked to another user");
+
+    Object.assign(session.current, { userId: user.id, username: "ana" });
+    await request(app).delete(`/api/auth/identities/${list.body[0].id}`).expect(200);
+    expect(await memStorage.current.getUserIdentitiesByUser(user.id)).toEqual([]);
+    expect(auditActions()).toEqual(expect.arrayContaining(["auth.oidc.linked", "auth.oidc.failure", "auth.oidc.unlinked"]));
+  });
+});
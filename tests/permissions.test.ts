@@ -0,0 +1,392 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import "./helpers/ai-config";
+import "./helpers/error-log";
+
+const { session } = vi.hoisted(() => ({
+  session: { current: {} as Record<string, unknown> },
+}));
+
+vi.mock("../server/services/job-queue.js", () => ({
+  jobQueue: { hasActiveJob: vi.fn().mockResolvedValue(false), createJob: vi.fn() },
+}));
+
+import { registerFeatureRoutes } from "../server/routes/index";
+import { getPermissionsForRole, updateRolePermissions } from "../server/services/permissions";
+import { DEFAULT_ROLE_PERMISSIONS, PERMISSIONS } from "../shared/schema";
+
+const app = express();
+app.use(express.json());
+app.use((req: any, _res, next) => {
+  req.session = session.current;
+  next();
+});
+registerFeatureRoutes(app);
+
+// Routers reachable only by staff; every route below these must declare a permission
+const ADMIN_PREFIXES = ["/api/admin/", "/api/automation/", "/api/scheduler/", "/api/export/", "/api/ai/", "/api/users/"];
+
+const EXPECTED: Record<string, string> = {
+  "GET /api/activity-logs": "logs.view",
+  "GET /api/admin/ai-status": "videos.manage",
+  "GET /api/admin/analytics/events": "analytics.view",
+  "POST /api/admin/analytics/events": "analytics.manage",
+  "PUT /api/admin/analytics/events/:id": "analytics.manage",
+  "DELETE /api/admin/analytics/events/:id": "analytics.manage",
+  "GET /api/admin/analytics/settings": "analytics.view",
+  "PUT /api/admin/analytics/settings": "analytics.manage",
+  "GET /api/admin/analytics/visitors": "analytics.view",
+  "GET /api/admin/availability": "videos.moderate",
+  "POST /api/admin/availability/check": "videos.moderate",
+  "DELETE /api/admin/availability/videos/:id": "videos.moderate",
+  "POST /api/admin/availability/videos/:id/restore": "videos.moderate",
+  "POST /api/admin/cache/clear": "settings.manage",
+  "POST /api/admin/cache/redis/connect": "settings.manage",
+  "GET /api/admin/cache/settings": "settings.manage",
+  "PUT /api/admin/cache/settings": "settings.manage",
+  "GET /api/admin/cache/stats": "settings.manage",
+  "GET /api/admin/categories": "taxonomy.manage",
+  "GET /api/admin/channel-recommendations": "channels.manage",
+  "POST /api/admin/channel-recommendations/:id/approve": "channels.manage",
+  "POST /api/admin/channel-recommendations/:id/reject": "channels.manage",
+  "GET /api/admin/dashboard": "dashboard.view",
+  "GET /api/admin/debug/system-health": "settings.manage",
+  "GET /api/admin/email-settings": "settings.manage",
+  "PATCH /api/admin/email-settings": "settings.manage",
+  "GET /api/admin/email-settings/outbox": "settings.manage",
+  "POST /api/admin/email-settings/outbox/:id/retry": "settings.manage",
+  "POST /api/admin/email-settings/test": "settings.manage",
+  "GET /api/admin/oidc-providers": "settings.manage",
+  "POST /api/admin/oidc-providers": "settings.manage",
+  "PATCH /api/admin/oidc-providers/:id": "settings.manage",
+  "DELETE /api/admin/oidc-providers/:id": "settings.manage",
+  "POST /api/admin/oidc-providers/:id/test": "settings.manage",
+  "GET /api/admin/webhooks/subscriptions": "settings.manage",
+  "POST /api/admin/webhooks/subscriptions": "settings.manage",
+  "PATCH /api/admin/webhooks/subscriptions/:id": "settings.manage",
+  "DELETE /api/admin/webhooks/subscriptions/:id": "settings.manage",
+  "POST /api/admin/webhooks/subscriptions/:id/rotate-secret": "settings.manage",
+  "GET /api/admin/webhooks/deliveries": "settings.manage",
+  "POST /api/admin/webhooks/deliveries/:id/replay": "settings.manage",
+  "GET /api/admin/error-logs": "logs.view",
+  "GET /api/admin/error-logs/bookmarks": "logs.view",
+  "POST /api/admin/error-logs/bookmarks": "logs.view",
+  "GET /api/admin/error-logs/export": "logs.view",
+  "GET /api/admin/error-logs/stream": "logs.view",
+  "GET /api/admin/hero": "appearance.manage",
+  "POST /api/admin/hero": "appearance.manage",
+  "GET /api/admin/hero/config": "appearance.manage",
+  "POST /api/admin/hero/config": "appearance.manage",
+  "GET /api/admin/hero/images": "appearance.manage",
+  "POST /api/admin/hero/images": "appearance.manage",
+  "GET /api/admin/inbox": "inbox.manage",
+  "POST /api/admin/inbox/poll": "inbox.manage",
+  "DELETE /api/admin/inbox/suggestions/:id": "inbox.manage",
+  "GET /api/admin/inbox/threads/:threadId": "inbox.manage",
+  "PATCH /api/admin/inbox/threads/:threadId": "inbox.manage",
+  "POST /api/admin/kv/cleanup": "settings.manage",
+  "POST /api/admin/kv/flush-buffers": "settings.manage",
+  "GET /api/admin/kv/stats": "settings.manage",
+  "GET /api/admin/moderation": "videos.moderate",
+  "POST /api/admin/moderation/bulk": "videos.moderate",
+  "POST /api/admin/moderation/check": "videos.moderate",
+  "GET /api/admin/moderation/rules": "videos.moderate",
+  "POST /api/admin/moderation/rules": "videos.moderate",
+  "PATCH /api/admin/moderation/rules/:id": "videos.moderate",
+  "DELETE /api/admin/moderation/rules/:id": "videos.moderate",
+  "GET /api/admin/performance/summary": "settings.manage",
+  "POST /api/admin/regenerate": "videos.manage",
+  "POST /api/admin/regenerate-slugs": "videos.manage",
+  "POST /api/admin/run-migration": "settings.manage",
+  "GET /api/admin/sources/adapters": "channels.manage",
+  "POST /api/admin/sources/channels": "channels.manage",
+  "PATCH /api/admin/sources/channels/:id": "channels.manage",
+  "POST /api/admin/sources/channels/:id/websub": "channels.manage",
+  "GET /api/admin/sources/stats": "channels.manage",
+  "GET /api/admin/sources/websub": "channels.manage",
+  "GET /api/admin/sources/youtube-quota": "channels.manage",
+  "GET /api/admin/tag-merges": "taxonomy.manage",
+  "POST /api/admin/tag-merges/:id/apply": "taxonomy.manage",
+  "POST /api/admin/tag-merges/:id/dismiss": "taxonomy.manage",
+  "POST /api/admin/tag-merges/scan": "taxonomy.manage",
+  "GET /api/admin/tags": "taxonomy.manage",
+  "POST /api/admin/tags/:tagName/generate-image": "taxonomy.manage",
+  "POST /api/admin/tags/:tagName/image": "taxonomy.manage",
+  "DELETE /api/admin/tags/:tagName/image": "taxonomy.manage",
+  "POST /api/admin/videos/:id/generate-seo": "videos.manage",
+  "POST /api/admin/videos/:id/generate-summary": "videos.manage",
+  "GET /api/admin/videos/:id/view-history": "analytics.view",
+  "POST /api/admin/x/preview": "channels.manage",
+  "POST /api/admin/x/validate-url": "channels.manage",
+  "POST /api/admin/x/videos": "channels.manage",
+  "GET /api/ai/config": "ai.manage",
+  "PATCH /api/ai/config": "ai.manage",
+  "GET /api/ai/embeddings": "ai.manage",
+  "POST /api/ai/embeddings/backfill": "ai.manage",
+  "GET /api/ai/models": "ai.manage",
+  "PATCH /api/ai/models/:id/toggle": "ai.manage",
+  "POST /api/ai/ollama/sync": "ai.manage",
+  "GET /api/ai/prompts/:key": "ai.manage",
+  "POST /api/ai/prompts/:key": "ai.manage",
+  "POST /api/ai/prompts/:key/:id/activate": "ai.manage",
+  "POST /api/ai/prompts/:key/reset": "ai.manage",
+  "POST /api/ai/prompts/:key/test": "ai.manage",
+  "POST /api/ai/test": "ai.manage",
+  "GET /api/ai/usage": "ai.manage",
+  "GET /api/automation/activity": "automation.manage",
+  "GET /api/automation/analytics": "automation.manage",
+  "GET /api/automation/export": "data.export",
+  "GET /api/automation/health": "automation.manage",
+  "GET /api/automation/jobs": "automation.manage",
+  "DELETE /api/automation/jobs/:id": "automation.manage",
+  "POST /api/automation/jobs/:id/pause": "automation.manage",
+  "POST /api/automation/jobs/:id/retry": "automation.manage",
+  "GET /api/automation/jobs/:id/stream": "automation.manage",
+  "GET /api/automation/jobs/active": "automation.manage",
+  "GET /api/automation/jobs/active/stream": "automation.manage",
+  "DELETE /api/automation/jobs/bulk": "automation.manage",
+  "POST /api/automation/jobs/bulk/retry": "automation.manage",
+  "POST /api/automation/jobs/start": "automation.manage",
+  "GET /api/automation/scheduler": "automation.manage",
+  "POST /api/automation/scheduler/config": "automation.manage",
+  "GET /api/automation/stats": "automation.manage",
+  "POST /api/categories": "taxonomy.manage",
+  "PUT /api/categories/:id": "taxonomy.manage",
+  "DELETE /api/categories/:id": "taxonomy.manage",
+  "GET /api/categories/admin/all": "taxonomy.manage",
+  "POST /api/categories/admin/translate-missing": "taxonomy.manage",
+  "POST /api/channels": "channels.manage",
+  "DELETE /api/channels/:id": "channels.manage",
+  "POST /api/channels/:id/scrape": "channels.manage",
+  "GET /api/export/:type": "data.export",
+  "GET /api/scheduler": "automation.manage",
+  "PATCH /api/scheduler": "automation.manage",
+  "GET /api/scheduler/jobs": "automation.manage",
+  "POST /api/scheduler/run-now": "automation.manage",
+  "POST /api/scheduler/start": "automation.manage",
+  "POST /api/scheduler/stop": "automation.manage",
+  "POST /api/seo/enhanced/ab-tests": "seo.manage",
+  "POST /api/seo/enhanced/ab-tests/:id/:action(start|pause|stop|promote)": "seo.manage",
+  "POST /api/seo/enhanced/audits": "seo.manage",
+  "POST /api/seo/enhanced/competitors": "seo.manage",
+  "POST /api/seo/enhanced/keywords": "seo.manage",
+  "PATCH /api/seo/enhanced/keywords/:id": "seo.manage",
+  "DELETE /api/seo/enhanced/keywords/:id": "seo.manage",
+  "POST /api/seo/enhanced/meta-tags": "seo.manage",
+  "PATCH /api/seo/enhanced/meta-tags/:id": "seo.manage",
+  "DELETE /api/seo/enhanced/meta-tags/:id": "seo.manage",
+  "PATCH /api/seo/enhanced/meta-tags/bulk/update": "seo.manage",
+  "POST /api/seo/enhanced/meta-tags/suggest": "seo.manage",
+  "POST /api/seo/enhanced/redirects": "seo.manage",
+  "PATCH /api/seo/enhanced/redirects/:id": "seo.manage",
+  "DELETE /api/seo/enhanced/redirects/:id": "seo.manage",
+  "PATCH /api/seo/enhanced/robots-txt": "seo.manage",
+  "PATCH /api/seo/enhanced/settings": "seo.manage",
+  "POST /api/seo/enhanced/sitemap/regenerate": "seo.manage",
+  "PATCH /api/seo/settings": "seo.manage",
+  "PATCH /api/system/settings": "settings.manage",
+  "POST /api/tags": "taxonomy.manage",
+  "DELETE /api/tags/:tagName": "taxonomy.manage",
+  "POST /api/tags/:tagName/generate-image": "taxonomy.manage",
+  "POST /api/tags/:tagName/image": "taxonomy.manage",
+  "DELETE /api/tags/:tagName/image": "taxonomy.manage",
+  "PUT /api/tags/:tagName/translate": "taxonomy.manage",
+  "POST /api/tiktok-profiles": "channels.manage",
+  "DELETE /api/tiktok-profiles/:id": "channels.manage",
+  "POST /api/tiktok-profiles/:id/scrape": "channels.manage",
+  "POST /api/uploads/blob": "seo.manage|taxonomy.manage|appearance.manage",
+  "GET /api/users": "users.manage",
+  "DELETE /api/users/:id": "users.manage",
+  "PATCH /api/users/:id/role": "users.manage",
+  "GET /api/users/roles": "users.manage",
+  "PUT /api/users/roles/:role": "users.manage",
+  "POST /api/utils/update-thumbnails": "videos.manage",
+  "PATCH /api/videos/:id": "videos.manage",
+  "DELETE /api/videos/:id": "videos.manage",
+  "POST /api/videos/:id/categorize": "videos.manage",
+  "POST /api/videos/:id/chapters/extract": "videos.manage",
+  "POST /api/videos/:id/transcripts/fetch": "videos.manage",
+  "DELETE /api/videos/bulk": "videos.manage",
+  "POST /api/videos/bulk/categorize": "videos.manage",
+  "POST /api/videos/bulk/categorize-missing": "videos.manage",
+  "POST /api/videos/bulk/tag": "videos.manage",
+  "POST /api/videos/enrich-descriptions": "videos.manage",
+  "POST /api/videos/scrape": "videos.manage",
+  "POST /api/videos/scrape-batch": "videos.manage",
+};
+
+/** "METHOD /full/path" → the permissions its guard accepts, joined with "|" (or "" when unguarded). */
+function routeTable(): Record<string, string> {
+  const table: Record<string, string> = {};
+  for (const layer of (app as any)._router.stack) {
+    if (!layer.handle?.stack) continue;
+    const prefix = layer.regexp.source
+      .replace("\\/?(?=\\/|$)", "")
+      .replace(/^\^/, "")
+      .replace(/\\\//g, "/");
+    for (const inner of layer.handle.stack) {
+      if (!inner.route) continue;
+      const guard = inner.route.stack.find((entry: any) => entry.handle.permissions);
+      const permissions = guard ? guard.handle.permissions.join("|") : "";
+      for (const method of Object.keys(inner.route.methods)) {
+        const path = inner.route.path === "/" ? prefix : `${prefix}${inner.route.path}`;
+        table[`${method.toUpperCase()} ${path}`] = permissions;
+      }
+    }
+  }
+  return table;
+}
+
+beforeEach(async () => {
+  await resetMemStorage();
+  session.current = {};
+});
+
+describe("route permissions", () => {
+  it("declares the expected permission on every guarded route", () => {
+    const guarded = Object.fromEntries(Object.entries(routeTable()).filter(([, permissions]) => permissions));
+    expect(guarded).toEqual(EXPECTED);
+  });
+
+  it("leaves no admin route unguarded", () => {
+    const unguarded = Object.entries(routeTable())
+      .filter(([route, permissions]) => !permissions && ADMIN_PREFIXES.some((prefix) => `${route.split(" ")[1]}/`.startsWith(prefix)))
+      .map(([route]) => route);
+    expect(unguarded).toEqual([]);
+  });
+});
+
+async function signIn(role: string) {
+  const user = await memStorage.current.createUser({ username: `${role}-${Math.random()}`, password: "x", role });
+  session.current = { isAuthenticated: true, username: user.username, userId: user.id, role };
+  return user;
+}
+
+describe("permission checks", () => {
+  it("requires a session, then a role with the permission", async () => {
+    await request(app).get("/api/admin/moderation").expect(401);
+
+    await signIn("user");
+    await request(app).get("/api/admin/moderation").expect(403);
+    await request(app).delete("/api/videos/bulk").send({ videoIds: ["a"] }).expect(403);
+
+    await signIn("moderator");
+    await request(app).get("/api/admin/moderation").expect(200);
+    await request(app).get("/api/users").expect(403);
+  });
+
+  it("applies a role change on the next request", async () => {
+    const editor = await signIn("editor");
+    const before = await request(app).get("/api/auth/session").expect(200);
+    expect(before.body.permissions).toEqual(DEFAULT_ROLE_PERMISSIONS.editor);
+
+    await memStorage.current.updateUserRole(editor.id, "user");
+    await request(app).get("/api/admin/moderation").expect(403);
+    const after = await request(app).get("/api/auth/session").expect(200);
+    expect(after.body).toMatchObject({ role: "user", permissions: [] });
+  });
+
+  it("lets admins edit what a role may do, except the admin role", async () => {
+    session.current = { isAuthenticated: true, username: "admin", role: "admin" };
+    const roles = await request(app).get("/api/users/roles").expect(200);
+    expect(roles.body.roles.find((r: any) => r.role === "admin")).toMatchObject({ editable: false });
+
+    await request(app).put("/api/users/roles/admin").send({ permissions: [] }).expect(400);
+    await request(app).put("/api/users/roles/moderator").send({ permissions: ["made.up"] }).expect(400);
+    await request(app)
+      .put("/api/users/roles/moderator")
+      .send({ permissions: ["users.manage", "dashboard.view"] })
+      .expect(200, { role: "moderator", permissions: ["dashboard.view", "users.manage"] });
+
+    await signIn("moderator");
+    await request(app).get("/api/admin/moderation").expect(403);
+    await request(app).get("/api/users").expect(200);
+
+    session.current = { isAuthenticated: true, username: "admin", role: "admin" };
+    await request(app)
+      .put("/api/users/roles/moderator")
+      .send({ permissions: DEFAULT_ROLE_PERMISSIONS.moderator })
+      .expect(200);
+  });
+
+  it("checks role names when assigning them", async () => {
+    session.current = { isAuthenticated: true, username: "admin", role: "admin" };
+    const user = await memStorage.current.createUser({ username: "sam", password: "x", role: "user" });
+    await request(app).patch(`/api/users/${user.id}/role`).send({ role: "owner" }).expect(400);
+    await request(app).patch(`/api/users/${user.id}/role`).send({ role: "analyst" }).expect(200);
+    expect((await memStorage.current.getUser(user.id)).role).toBe("analyst");
+  });
+
+  describe("with users.manage but not admin", () => {
+    beforeEach(async () => {
+      await updateRolePermissions("moderator", [...DEFAULT_ROLE_PERMISSIONS.moderator, "users.manage"]);
+    });
+
+    afterEach(async () => {
+      await updateRolePermissions("moderator", DEFAULT_ROLE_PERMISSIONS.moderator);
+      await updateRolePermissions("viewer", DEFAULT_ROLE_PERMISSIONS.viewer);
+    });
+
+    it("can't edit the permissions of its own role", async () => {
+      await signIn("moderator");
+      await request(app).put("/api/users/roles/moderator").send({ permissions: ["users.manage", "settings.manage"] }).expect(403);
+      await request(app).put("/api/users/roles/viewer").send({ permissions: ["dashboard.view"] }).expect(200);
+    });
+
+    it("can't grant or remove the admin role", async () => {
+      const moderator = await signIn("moderator");
+      const admin = await memStorage.current.createUser({ username: "root", password: "x", role: "admin" });
+      const user = await memStorage.current.createUser({ username: "sam", password: "x", role: "user" });
+
+      await request(app).patch(`/api/users/${user.id}/role`).send({ role: "admin" }).expect(403);
+      await request(app).patch(`/api/users/${admin.id}/role`).send({ role: "user" }).expect(403);
+      await request(app).patch(`/api/users/${user.id}/role`).send({ role: "moderator" }).expect(200);
+      expect((await memStorage.current.getUser(admin.id)).role).toBe("admin");
+      expect((await memStorage.current.getUser(moderator.id)).role).toBe("moderator");
+    });
+
+    it("can't grant another role permissions it lacks and move an account into it", async () => {
+      await signIn("moderator");
+      const accomplice = await memStorage.current.createUser({ username: "sam", password: "x", role: "user" });
+
+      await request(app)
+        .put("/api/users/roles/viewer")
+        .send({ permissions: [...PERMISSIONS] })
+        .expect(403);
+      expect(await getPermissionsForRole("viewer")).toEqual(DEFAULT_ROLE_PERMISSIONS.viewer);
+      // Its own permissions are fine to hand out, and removing some is too
+      await request(app).put("/api/users/roles/viewer").send({ permissions: ["dashboard.view", "users.manage"] }).expect(200);
+
+      // A role that already has more than the caller is out of reach either way
+      await request(app).patch(`/api/users/${accomplice.id}/role`).send({ role: "editor" }).expect(403);
+      expect((await memStorage.current.getUser(accomplice.id)).role).toBe("user");
+      await request(app).patch(`/api/users/${accomplice.id}/role`).send({ role: "viewer" }).expect(200);
+    });
+
+    it("can't delete admins", async () => {
+      await signIn("moderator");
+      const admin = await memStorage.current.createUser({ username: "root", password: "x", role: "admin" });
+      await request(app).delete(`/api/users/${admin.id}`).expect(403);
+      expect(await memStorage.current.getUser(admin.id)).toBeTruthy();
+    });
+  });
+
+  it("keeps at least one admin", async () => {
+    const first = await memStorage.current.createUser({ username: "root", password: "x", role: "admin" });
+    const second = await signIn("admin");
+    // Admins must have two-factor auth before they can use admin routes
+    await memStorage.current.updateUser(second.id, { totpSecret: "JBSWY3DPEHPK3PXP", totpEnabledAt: new Date() });
+
+    await request(app).patch(`/api/users/${first.id}/role`).send({ role: "editor" }).expect(200);
+    await memStorage.current.updateUserRole(first.id, "admin");
+    await request(app).delete(`/api/users/${first.id}`).expect(200);
+
+    // The environment-configured admin has no user record and can't lock the last one out
+    session.current = { isAuthenticated: true, username: "admin", role: "admin" };
+    await request(app).patch(`/api/users/${second.id}/role`).send({ role: "user" }).expect(400);
+    await request(app).delete(`/api/users/${second.id}`).expect(400);
+    expect((await memStorage.current.getUser(second.id)).role).toBe("admin");
+  });
+});
@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+
+const { kvHistory } = vi.hoisted(() => ({
+  kvHistory: new Map<string, string[]>(),
+}));
+
+vi.mock("../server/kv-service.js", () => ({
+  kvService: {
+    getViewingHistory: async (userIdentifier: string) => kvHistory.get(userIdentifier) || [],
+  },
+}));
+
+// No embedding provider: "Because you watched" ranks the seed's category instead
+vi.mock("../server/services/embeddings.js", () => ({
+  findSimilarVideoIds: async () => null,
+}));
+
+import videosRouter from "../server/routes/videos";
+import { cacheMiddleware } from "../server/cache-middleware";
+import { rankTrending } from "../server/trending-rank";
+
+let session: { userId?: string; isAuthenticated?: boolean } = {};
+
+const app = express();
+app.set("trust proxy", true);
+app.use((req, _res, next) => {
+  (req as any).session = session;
+  next();
+});
+app.use(cacheMiddleware({ scope: "public" }));
+app.use("/api/videos", videosRouter);
+
+let ids: Record<string, string>;
+const HOUR = 60 * 60 * 1000;
+
+beforeEach(async () => {
+  await resetMemStorage({ sampleVideo: false });
+  kvHistory.clear();
+  session = {};
+
+  const storage = memStorage.current;
+  const category = async (name: string) =>
+    (await storage.createCategory({ slug: name.toLowerCase() }, [{ languageCode: "en", name }])).id;
+  const channel = async (name: string) =>
+    (await storage.createChannel({ name, url: `https://youtube.com/@${name}`, channelId: name, platform: "youtube" })).id;
+  const [cooking, sport, music] = [await category("Cooking"), await category("Sport"), await category("Music")];
+  const [kitchen, bakery, stadium, stage] = [
+    await channel("kitchen"),
+    await channel("bakery"),
+    await channel("stadium"),
+    await channel("stage"),
+  ];
+
+  let n = 0;
+  const video = async (channelId: string, categoryId: string, title: string, hoursAgo: number, likesCount = 0) => {
+    const created = await storage.createVideo({
+      channelId,
+      videoId: `v${++n}`,
+      title,
+      thumbnailUrl: "https://img/x.jpg",
+      publishDate: new Date(Date.now() - hoursAgo * HOUR).toISOString(),
+    });
+    await storage.updateVideo(created.id, { likesCount });
+    await storage.addVideoCategory(created.id, categoryId);
+    return created.id;
+  };
+
+  ids = {
+    soup: await video(kitchen, cooking, "Bean soup", 10, 5),
+    stew: await video(kitchen, cooking, "Beef stew", 20, 4),
+    pie: await video(bakery, cooking, "Apple pie", 30, 3),
+    bread: await video(kitchen, cooking, "Bread at home", 40, 2),
+    pasta: await video(kitchen, cooking, "Fresh pasta", 50, 1),
+    derby: await video(stadium, sport, "Derby highlights", 5, 50),
+    final: await video(stadium, sport, "Cup final", 15, 40),
+    concert: await video(stage, music, "Live concert", 60, 1),
+  };
+});
+
+describe("trending time decay", () => {
+  it("ranks a fresh video above an older one with more likes", () => {
+    const now = new Date();
+    const video = (id: string, hoursAgo: number, likesCount: number) =>
+      ({ id, trendingScore: 0, viewCount: null, internalViewsCount: 0, likesCount, publishDate: new Date(now.getTime() - hoursAgo * HOUR).toISOString(), createdAt: now });
+    const ranked = rankTrending([video("old", 24 * 14, 100), video("new", 3, 20)], now);
+    expect(ranked.map((v) => v.id)).toEqual(["new", "old"]);
+  });
+});
+
+describe("GET /api/videos/for-you", () => {
+  it("returns empty rows for a first-time visitor and is never publicly cached", async () => {
+    const res = await request(app).get("/api/videos/for-you");
+    expect(res.status).toBe(200);
+    expect(res.body).toEqual({
+      personalized: false,
+      continueWatching: [],
+      becauseYouWatched: null,
+      fromChannelsYouLike: [],
+      trending: [],
+    });
+    expect(res.headers["cache-control"]).toBe("private, no-store");
+    expect(res.headers["x-cache"]).toBe("BYPASS");
+
+    const carousels = await request(app).get("/api/videos/carousels?sections=trending");
+    expect(carousels.headers["x-cache"]).toBe("MISS");
+    expect(carousels.headers["cache-control"]).toContain("public");
+  });
+
+  it("builds rows from an anonymous visitor's viewing history", async () => {
+    kvHistory.set("ip:203.0.113.9", [ids.soup, ids.stew, ids.derby]);
+
+    const res = await request(app).get("/api/videos/for-you").set("X-Forwarded-For", "203.0.113.9");
+    expect(res.body.personalized).toBe(true);
+    expect(res.body.continueWatching).toEqual([]);
+
+    // The seed's category, the seed's channel first
+    expect(res.body.becauseYouWatched.seed).toMatchObject({ id: ids.soup, title: "Bean soup" });
+    const similar = res.body.becauseYouWatched.videos.map((v: any) => v.id);
+    expect(similar.slice(0, 2).sort()).toEqual([ids.bread, ids.pasta].sort());
+    expect(similar).toEqual(expect.arrayContaining([ids.pie]));
+    expect(similar).not.toContain(ids.stew);
+
+    // Newest unseen videos, taking turns between the two watched channels
+    expect(res.body.fromChannelsYouLike.map((v: any) => v.id)).toEqual([ids.bread, ids.final, ids.pasta]);
+
+    // Watched videos leave trending and the visitor's channels move up; the
+    // least trending video takes the exploration slot as the only one from a
+    // channel and category they haven't watched
+    expect(res.body.trending.map((v: any) => v.id)).toEqual([ids.bread, ids.final, ids.pasta, ids.concert, ids.pie]);
+  });
+
+  it("offers to continue videos a signed-in user left halfway", async () => {
+    const user = await memStorage.current.createUser({ username: "viewer", password: "x" });
+    session = { userId: user.id, isAuthenticated: true };
+    await memStorage.current.recordWatchProgress(user.id, ids.final, { positionSeconds: 300, durationSeconds: 1200 });
+    await memStorage.current.recordWatchProgress(user.id, ids.derby, { positionSeconds: 1190, durationSeconds: 1200 });
+
+    const res = await request(app).get("/api/videos/for-you");
+    expect(res.body.personalized).toBe(true);
+    expect(res.body.continueWatching).toHaveLength(1);
+    expect(res.body.continueWatching[0]).toMatchObject({ id: ids.final, resumeSeconds: 300 });
+    expect(res.body.becauseYouWatched).toBeNull();
+  });
+});
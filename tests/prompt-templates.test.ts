@@ -0,0 +1,151 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import "./helpers/open-auth";
+import "./helpers/error-log";
+import { aiConfig } from "./helpers/ai-config";
+
+const { model } = vi.hoisted(() => ({
+  model: { prompts: [] as string[], answer: {} as Record<string, unknown> },
+}));
+
+// Languages the model leaves out are machine-translated
+vi.mock("../server/services/translation-service.js", () => ({
+  translateContent: async (languageCode: string, fields: Record<string, string>) =>
+    Object.fromEntries(Object.entries(fields).map(([key, value]) => [key, `${value} [${languageCode}]`])),
+}));
+
+import aiSettingsRouter from "../server/routes/ai-settings";
+import { categorizeVideo } from "../server/ai-service";
+import { applyCategorization } from "../server/services/categorization";
+
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  (req as any).session = {};
+  next();
+});
+app.use("/api/ai", aiSettingsRouter);
+
+const originalFetch = global.fetch;
+let videoId: string;
+
+beforeEach(async () => {
+  aiConfig.current = { provider: "ollama", ollamaUrl: "http://ollama.test" };
+  await resetMemStorage({ sampleVideo: false });
+  await memStorage.current.upsertSupportedLanguage({ code: "de", name: "Deutsch", isActive: true });
+
+  const channel = await memStorage.current.createChannel({
+    name: "Kitchen",
+    url: "https://youtube.com/@kitchen",
+    channelId: "kitchen",
+    platform: "youtube",
+  });
+  videoId = (
+    await memStorage.current.createVideo({
+      channelId: channel.id,
+      videoId: "v1",
+      title: "Bean soup",
+      description: "A winter classic",
+      thumbnailUrl: "https://img/x.jpg",
+    })
+  ).id;
+
+  model.prompts = [];
+  model.answer = {
+    categories_en: ["Cooking"],
+    tags_en: ["Soup", "Beans"],
+    categories_sr_latn: ["Kuvanje"],
+    tags_sr_latn: ["Supa", "Pasulj"],
+  };
+  global.fetch = vi.fn(async (_url: any, init: any) => {
+    model.prompts.push(JSON.parse(init.body).messages[0].content);
+    return { ok: true, json: async () => ({ message: { content: JSON.stringify(model.answer) } }) };
+  }) as any;
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe("categorization output", () => {
+  it("asks for every enabled language and translates the ones the model left out", async () => {
+    const result = await categorizeVideo("Bean soup", "A winter classic");
+
+    expect(model.prompts[0]).toContain("Title: Bean soup");
+    expect(model.prompts[0]).toContain("English (en), Srpski (sr-Latn), Deutsch (de)");
+    expect(model.prompts[0]).toContain("categories_de");
+    expect(result).toEqual({
+      categories: { en: ["Cooking"], "sr-Latn": ["Kuvanje"], de: ["Cooking [de]"] },
+      tags: { en: ["Soup", "Beans"], "sr-Latn": ["Supa", "Pasulj"], de: ["Soup [de]", "Beans [de]"] },
+      promptTemplateId: null,
+    });
+  });
+
+  it("saves categories and tags in every language", async () => {
+    await applyCategorization(videoId, await categorizeVideo("Bean soup", ""));
+
+    const german = await memStorage.current.getVideoWithRelations(videoId, "de");
+    expect(german.categories.map((category: any) => category.name)).toEqual(["Cooking [de]"]);
+    const serbian = await memStorage.current.getVideoWithRelations(videoId, "sr-Latn");
+    expect(serbian.categories.map((category: any) => category.name)).toEqual(["Kuvanje"]);
+    expect(serbian.tags.map((tag: any) => tag.tagName)).toEqual(["Supa", "Pasulj"]);
+  });
+});
+
+describe("prompt template versions", () => {
+  const custom = "Sort this video: {{title}}\n{{output_format}}";
+
+  it("rejects templates with unknown or missing variables", async () => {
+    const unknown = await request(app).post("/api/ai/prompts/categorization").send({ body: `${custom} {{channel}}` });
+    expect(unknown.status).toBe(400);
+    expect(unknown.body.error).toContain("{{channel}}");
+
+    const missing = await request(app).post("/api/ai/prompts/categorization").send({ body: "Sort: {{title}}" });
+    expect(missing.status).toBe(400);
+    expect(missing.body.error).toContain("{{output_format}}");
+  });
+
+  it("uses the active version and records it on the videos it categorized", async () => {
+    const v1 = await request(app).post("/api/ai/prompts/categorization").send({ body: custom, note: "shorter" });
+    expect(v1.status).toBe(201);
+    expect(v1.body).toMatchObject({ version: 1, isActive: true });
+
+    const result = await categorizeVideo("Bean soup", "");
+    expect(model.prompts[0].startsWith("Sort this video: Bean soup")).toBe(true);
+    expect(result.promptTemplateId).toBe(v1.body.id);
+    await applyCategorization(videoId, result);
+    expect((await memStorage.current.getVideo(videoId)).categorizationPromptId).toBe(v1.body.id);
+
+    const v2 = await request(app).post("/api/ai/prompts/categorization").send({ body: `${custom}\nBe brief.` });
+    expect(v2.body.version).toBe(2);
+
+    const list = await request(app).get("/api/ai/prompts/categorization");
+    expect(list.body.activeId).toBe(v2.body.id);
+    expect(list.body.versions.map((v: any) => [v.version, v.videoCount])).toEqual([[2, 0], [1, 1]]);
+
+    await request(app).post(`/api/ai/prompts/categorization/${v1.body.id}/activate`).expect(200);
+    expect((await request(app).get("/api/ai/prompts/categorization")).body.activeId).toBe(v1.body.id);
+
+    await request(app).post("/api/ai/prompts/categorization/reset").expect(200);
+    const reset = await request(app).get("/api/ai/prompts/categorization");
+    expect(reset.body.activeId).toBeNull();
+    expect(reset.body.versions).toHaveLength(2);
+  });
+
+  it("tests a draft on sample videos without saving it", async () => {
+    const res = await request(app).post("/api/ai/prompts/categorization/test").send({ body: custom });
+
+    expect(res.status).toBe(200);
+    expect(res.body.results).toHaveLength(1);
+    expect(res.body.results[0]).toMatchObject({
+      videoId,
+      categories: { en: ["Cooking"], "sr-Latn": ["Kuvanje"], de: ["Cooking [de]"] },
+    });
+    expect(res.body.results[0].prompt.startsWith("Sort this video: Bean soup")).toBe(true);
+
+    expect((await memStorage.current.getVideoWithRelations(videoId)).categories).toEqual([]);
+    expect(await memStorage.current.getPromptTemplateVersions("categorization")).toEqual([]);
+  });
+});
@@ -1,6 +1,15 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { readFileSync } from "fs";
+import { join } from "path";
 import { categorizeVideo } from "../server/ai-service";
 import { scrapeYouTubeChannel } from "../server/youtube-scraper";
+import {
+  buildVideoEmbedUrl,
+  collectChannelVideos,
+  detectPlatformAdapter,
+  getPlatformAdapter,
+  parseFeed,
+} from "../server/platforms";
 
 // Mock database
 vi.mock("../server/db.js", () => ({
@@ -13,6 +22,12 @@ vi.mock("../server/db.js", () => ({
   },
 }));
 
+// No YouTube API key is configured, so YouTube listing uses the HTML scraper
+vi.mock("../server/storage/index.js", async () => {
+  const { MemStorage } = await import("../server/storage/memory");
+  return { storage: new MemStorage() };
+});
+
 vi.mock("../server/error-log-service.js", () => ({
   recordError: vi.fn(),
 }));
@@ -42,8 +57,8 @@ describe("AI Service Validation", () => {
     });
 
     const result = await categorizeVideo("Test Video", "Description");
-    expect(result.categories).toEqual({ en: ["Technology"], sr: [] });
-    expect(result.tags).toEqual({ en: ["AI", "Coding"], sr: [] });
+    expect(result.categories).toEqual({ en: ["Technology"], "sr-Latn": [] });
+    expect(result.tags).toEqual({ en: ["AI", "Coding"], "sr-Latn": [] });
   });
 
   it("should clean up and parse markdown-wrapped JSON", async () => {
@@ -57,8 +72,8 @@ describe("AI Service Validation", () => {
     });
 
     const result = await categorizeVideo("Test Video", "Description");
-    expect(result.categories).toEqual({ en: ["Tech"], sr: [] });
-    expect(result.tags).toEqual({ en: ["Code"], sr: [] });
+    expect(result.categories).toEqual({ en: ["Tech"], "sr-Latn": [] });
+    expect(result.tags).toEqual({ en: ["Code"], "sr-Latn": [] });
   });
 
   it("should throw error for invalid schema types", async () => {
@@ -156,3 +171,227 @@ describe("YouTube Scraper", () => {
         expect(result.videos).toEqual([]);
     });
 });
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, "fixtures", "platforms", name), "utf8");
+}
+
+// Serves fixtures by URL prefix and records what was requested
+function stubFetch(routes: Record<string, string>) {
+  const requested: string[] = [];
+  global.fetch = vi.fn(async (input: any) => {
+    const url = String(input);
+    requested.push(url);
+    const match = Object.keys(routes)
+      .sort((a, b) => b.length - a.length)
+      .find((prefix) => url.startsWith(prefix));
+    if (!match) return new Response("not found", { status: 404 });
+    return new Response(fixture(routes[match]), { status: 200 });
+  }) as any;
+  return requested;
+}
+
+describe("Platform registry", () => {
+  it("detects adapters by URL, asking RSS last", () => {
+    expect(detectPlatformAdapter("https://www.youtube.com/@kuhinja")?.platform).toBe("youtube");
+    expect(detectPlatformAdapter("https://vimeo.com/channels/staffpicks")?.platform).toBe("vimeo");
+    expect(detectPlatformAdapter("https://dai.ly/x8zz001")?.platform).toBe("dailymotion");
+    expect(detectPlatformAdapter("https://www.instagram.com/gradskatv/")?.platform).toBe("instagram");
+    expect(detectPlatformAdapter("https://tv.example.org/feed.xml")?.platform).toBe("rss");
+    expect(detectPlatformAdapter("https://example.org/about")).toBeUndefined();
+  });
+
+  it("builds embed URLs from the video type", () => {
+    expect(buildVideoEmbedUrl({ videoId: "dQw4w9WgXcQ", videoType: "regular" })).toBe(
+      "https://www.youtube.com/embed/dQw4w9WgXcQ",
+    );
+    expect(buildVideoEmbedUrl({ videoId: "vimeo_912345678", videoType: "vimeo" })).toBe(
+      "https://player.vimeo.com/video/912345678",
+    );
+    expect(buildVideoEmbedUrl({ videoId: "dailymotion_x8zz001", videoType: "dailymotion" })).toBe(
+      "https://www.dailymotion.com/embed/video/x8zz001",
+    );
+    expect(buildVideoEmbedUrl({ videoId: "rss_abc", videoType: "rss", embedUrl: null })).toBeNull();
+  });
+
+  it("refuses to list channels for single-post platforms", async () => {
+    expect(getPlatformAdapter("x")?.listsChannels).toBe(false);
+    await expect(collectChannelVideos({ url: "https://x.com/jack", platform: "x" })).rejects.toThrow(
+      "can't be scraped",
+    );
+    await expect(collectChannelVideos({ url: "https://example.org", platform: "myspace" })).rejects.toThrow(
+      "No scraper is registered",
+    );
+  });
+});
+
+describe("Platform adapters", () => {
+  const originalFetch = global.fetch;
+  const originalEnv = { ...process.env };
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    process.env = { ...originalEnv };
+  });
+
+  it("lists Vimeo uploads from the user feed", async () => {
+    const requested = stubFetch({ "https://vimeo.com/kuhinjastudio/videos/rss": "vimeo-videos.rss" });
+    const vimeo = getPlatformAdapter("vimeo")!;
+
+    expect(vimeo.normalizeChannelUrl("vimeo.com/kuhinjastudio/videos")).toBe("https://vimeo.com/kuhinjastudio");
+    expect(vimeo.normalizeChannelUrl("https://vimeo.com/912345678")).toBeNull();
+
+    const page = await vimeo.listVideos("https://vimeo.com/kuhinjastudio");
+    expect(requested).toEqual(["https://vimeo.com/kuhinjastudio/videos/rss"]);
+    expect(page.channelInfo).toMatchObject({
+      name: "Kuhinja Studio",
+      channelId: "kuhinjastudio",
+      thumbnailUrl: "https://i.vimeocdn.com/portrait/1234_300x300.jpg",
+    });
+    expect(page.videos).toHaveLength(2);
+    expect(page.videos[0]).toMatchObject({
+      videoId: "vimeo_912345678",
+      title: "Sarma za početnike",
+      description: "Korak po korak recept.",
+      thumbnailUrl: "https://i.vimeocdn.com/video/912345678-d_960",
+      videoType: "vimeo",
+      embedUrl: "https://player.vimeo.com/video/912345678",
+      publishDate: "2026-03-03T23:30:00.000Z",
+    });
+    expect(page.nextCursor).toBeUndefined();
+  });
+
+  it("pages through Dailymotion videos with a page cursor", async () => {
+    stubFetch({
+      "https://api.dailymotion.com/user/sportklub?": "dailymotion-user.json",
+      "https://api.dailymotion.com/user/sportklub/videos": "dailymotion-videos-1.json",
+    });
+    const dailymotion = getPlatformAdapter("dailymotion")!;
+
+    const info = await dailymotion.fetchChannelInfo("https://www.dailymotion.com/sportklub");
+    expect(info).toMatchObject({ name: "Sport Klub", channelId: "x2abcd" });
+
+    const first = await dailymotion.listVideos("https://www.dailymotion.com/sportklub", { maxItems: 2 });
+    expect(first.nextCursor).toBe("2");
+    expect(first.videos[0]).toMatchObject({
+      videoId: "dailymotion_x8zz001",
+      duration: "12:34",
+      viewCount: "15230",
+      videoType: "dailymotion",
+      embedUrl: "https://www.dailymotion.com/embed/video/x8zz001",
+    });
+    expect(first.videos[1].duration).toBe("1:02:05");
+
+    const requested = stubFetch({ "https://api.dailymotion.com/user/sportklub/videos": "dailymotion-videos-2.json" });
+    const second = await dailymotion.listVideos("https://www.dailymotion.com/sportklub", { cursor: first.nextCursor });
+    expect(requested[0]).toContain("&page=2");
+    expect(second.videos.map((v) => v.videoId)).toEqual(["dailymotion_x8zz003"]);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it("collects new videos across pages and stops at known ones", async () => {
+    const requested: string[] = [];
+    global.fetch = vi.fn(async (input: any) => {
+      const url = String(input);
+      requested.push(url);
+      return new Response(fixture(url.includes("page=2") ? "dailymotion-videos-2.json" : "dailymotion-videos-1.json"));
+    }) as any;
+    const channel = { url: "https://www.dailymotion.com/sportklub", platform: "dailymotion" };
+
+    const all = await collectChannelVideos(channel);
+    expect(all.videos.map((v) => v.videoId)).toEqual([
+      "dailymotion_x8zz001",
+      "dailymotion_x8zz002",
+      "dailymotion_x8zz003",
+    ]);
+
+    requested.length = 0;
+    const incremental = await collectChannelVideos(channel, {
+      existingVideoIds: new Set(["dailymotion_x8zz002"]),
+      incremental: true,
+    });
+    expect(incremental.videos.map((v) => v.videoId)).toEqual(["dailymotion_x8zz001"]);
+    expect(requested).toHaveLength(1);
+  });
+
+  it("parses MRSS enclosures, players and RFC 5005 paging", async () => {
+    stubFetch({
+      "https://tv.example.org/feed.xml?page=2": "mrss-feed-2.xml",
+      "https://tv.example.org/feed.xml": "mrss-feed-1.xml",
+    });
+    const rss = getPlatformAdapter("rss")!;
+
+    const first = await rss.listVideos("https://tv.example.org/feed.xml");
+    expect(first.channelInfo).toMatchObject({
+      name: "Gradska TV",
+      description: "Lokalne vesti & reportaže",
+      thumbnailUrl: "https://tv.example.org/logo.png",
+    });
+    // The text-only item is skipped
+    expect(first.videos).toHaveLength(2);
+    expect(first.videos[0]).toMatchObject({
+      title: "Dnevnik 19. oktobar",
+      thumbnailUrl: "https://cdn.tv.example.org/1001.jpg",
+      duration: "30:30",
+      videoType: "rss",
+      embedUrl: "https://cdn.tv.example.org/1001.mp4",
+    });
+    expect(first.videos[0].videoId).toMatch(/^rss_[0-9a-f]{16}$/);
+    expect(first.videos[1]).toMatchObject({
+      description: "Reka i ljudi.",
+      thumbnailUrl: "https://tv.example.org/logo.png",
+      duration: "12:05",
+      embedUrl: "https://cdn.tv.example.org/1000.webm",
+    });
+    expect(first.nextCursor).toBe("https://tv.example.org/feed.xml?page=2");
+
+    const second = await rss.listVideos("https://tv.example.org/feed.xml", { cursor: first.nextCursor });
+    expect(second.videos[0]).toMatchObject({
+      title: "Sednica skupštine",
+      description: "Prenos sednice.",
+      embedUrl: "https://player.tv.example.org/embed/999",
+    });
+
+    // Ids are stable between runs so re-scrapes dedupe
+    const again = await rss.listVideos("https://tv.example.org/feed.xml");
+    expect(again.videos[0].videoId).toBe(first.videos[0].videoId);
+  });
+
+  it("keeps YouTube ids from YouTube Atom feeds", () => {
+    const feed = parseFeed(fixture("youtube-channel.atom"));
+    expect(feed.title).toBe("Kuhinja");
+    expect(feed.link).toBe("https://www.youtube.com/channel/UC123");
+    expect(feed.entries[0]).toMatchObject({
+      youtubeVideoId: "dQw4w9WgXcQ",
+      description: "Bakin recept.",
+      publishDate: "2026-10-01T08:00:00.000Z",
+    });
+  });
+
+  it("rejects documents that aren't feeds", () => {
+    expect(() => parseFeed("<html><body>hi</body></html>")).toThrow("Not an RSS or Atom feed");
+  });
+
+  it("lists Instagram reels through Business Discovery", async () => {
+    const instagram = getPlatformAdapter("instagram")!;
+    await expect(instagram.listVideos("https://www.instagram.com/gradskatv/")).rejects.toThrow(
+      "INSTAGRAM_ACCESS_TOKEN",
+    );
+
+    process.env.INSTAGRAM_ACCESS_TOKEN = "token";
+    process.env.INSTAGRAM_BUSINESS_ACCOUNT_ID = "1784";
+    const requested = stubFetch({ "https://graph.facebook.com/v19.0/1784": "instagram-discovery.json" });
+
+    const page = await instagram.listVideos("https://www.instagram.com/gradskatv/");
+    expect(decodeURIComponent(requested[0])).toContain("business_discovery.username(gradskatv)");
+    // Photos are skipped
+    expect(page.videos).toHaveLength(1);
+    expect(page.videos[0]).toMatchObject({
+      videoId: "instagram_18000000000000001",
+      title: "Most u izgradnji",
+      videoType: "instagram_reel",
+      embedUrl: "https://www.instagram.com/reel/C1abcDEF/embed",
+    });
+    expect(page.nextCursor).toBe("QVFIUmFf");
+  });
+});
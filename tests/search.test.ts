@@ -0,0 +1,110 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import request from "supertest";
+import express from "express";
+import { videoSearchQuerySchema } from "../shared/schema";
+import { highlightText, scoreSearchDocument } from "../server/search-text";
+import { MemStorage } from "../server/storage/memory";
+
+const mockStorage = vi.hoisted(() => ({
+  searchVideos: vi.fn(),
+}));
+
+vi.mock("../server/storage/index.js", () => ({
+  storage: mockStorage,
+}));
+
+import searchRouter from "../server/routes/search";
+
+const doc = (title: string, extra: Partial<Parameters<typeof scoreSearchDocument>[0]> = {}) => ({
+  title,
+  tags: [],
+  channel: "",
+  categories: [],
+  description: null,
+  ...extra,
+});
+
+describe("search text helpers", () => {
+  it("matches regardless of diacritics", () => {
+    expect(scoreSearchDocument(doc("Šestra i brat"), "sestra")).toBeGreaterThan(0);
+    expect(scoreSearchDocument(doc("Đorđe uživo"), "djordje")).toBe(0);
+    expect(scoreSearchDocument(doc("Đorđe uživo"), "dorde")).toBeGreaterThan(0);
+  });
+
+  it("tolerates typos in the title", () => {
+    expect(scoreSearchDocument(doc("Šestra i brat"), "sesstra")).toBeGreaterThan(0);
+    expect(scoreSearchDocument(doc("Šestra i brat"), "kuhinja")).toBe(0);
+  });
+
+  it("ranks title hits above description hits", () => {
+    const inTitle = scoreSearchDocument(doc("Kuvanje sa bakom"), "kuvanje");
+    const inDescription = scoreSearchDocument(doc("Nedeljni ručak", { description: "kuvanje" }), "kuvanje");
+    expect(inTitle).toBeGreaterThan(inDescription);
+  });
+
+  it("highlights the original characters", () => {
+    expect(highlightText("Šestra i brat", ["sestra"])).toEqual([
+      { text: "Šestra", match: true },
+      { text: " i brat", match: false },
+    ]);
+  });
+});
+
+describe("MemStorage.searchVideos", () => {
+  let storage: MemStorage;
+
+  beforeEach(async () => {
+    storage = new MemStorage();
+    const yt = await storage.createChannel({ name: "Kuhinja", url: "https://youtube.com/@k", channelId: "yt1", platform: "youtube" } as any);
+    const tt = await storage.createChannel({ name: "Plesači", url: "https://tiktok.com/@p", channelId: "tt1", platform: "tiktok" } as any);
+    const base = { thumbnailUrl: "https://img/1.jpg", videoType: "regular" };
+    const soup = await storage.createVideo({ ...base, channelId: yt.id, videoId: "a", title: "Čorba od pasulja", description: "Recept za čorbu" } as any);
+    await storage.createVideo({ ...base, channelId: yt.id, videoId: "b", title: "Pita", description: "Bakina čorba posle" } as any);
+    await storage.createVideo({ ...base, channelId: tt.id, videoId: "c", title: "Čorba ples", videoType: "tiktok" } as any);
+    await storage.addVideoCategory(soup.id, "1");
+  });
+
+  it("returns scored hits with highlights and facets", async () => {
+    const result = await storage.searchVideos(videoSearchQuerySchema.parse({ q: "corba" }));
+    expect(result.total).toBe(3);
+    expect(result.items[0].highlights.title.some((s) => s.match)).toBe(true);
+    expect(result.facets.platform).toEqual(
+      expect.arrayContaining([
+        { value: "youtube", label: "youtube", count: 2 },
+        { value: "tiktok", label: "tiktok", count: 1 },
+      ]),
+    );
+    expect(result.facets.category).toEqual([{ value: "1", label: "Music", count: 1 }]);
+  });
+
+  it("keeps the selected facet's own counts disjunctive", async () => {
+    const result = await storage.searchVideos(videoSearchQuerySchema.parse({ q: "corba", platform: "tiktok" }));
+    expect(result.total).toBe(1);
+    expect(result.facets.platform).toHaveLength(2);
+    expect(result.facets.videoType).toEqual([{ value: "tiktok", label: "tiktok", count: 1 }]);
+  });
+});
+
+describe("GET /api/search", () => {
+  const app = express();
+  app.use("/api/search", searchRouter);
+
+  beforeEach(() => {
+    mockStorage.searchVideos.mockReset();
+  });
+
+  it("rejects an empty query", async () => {
+    const res = await request(app).get("/api/search");
+    expect(res.status).toBe(400);
+    expect(mockStorage.searchVideos).not.toHaveBeenCalled();
+  });
+
+  it("passes parsed filters to storage", async () => {
+    mockStorage.searchVideos.mockResolvedValue({ items: [], total: 0, facets: { platform: [], videoType: [], category: [], channel: [] } });
+    const res = await request(app).get("/api/search?q=corba&platform=tiktok&limit=5");
+    expect(res.status).toBe(200);
+    expect(mockStorage.searchVideos).toHaveBeenCalledWith(
+      expect.objectContaining({ q: "corba", platform: "tiktok", limit: 5, offset: 0, sort: "relevance", lang: "en" }),
+    );
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, vi, beforeEach, beforeAll, afterAll } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "fs";
+import { tmpdir } from "os";
+import { join } from "path";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import "./helpers/open-auth";
+
+import {
+  applySeoAbTestSchedule,
+  assignSeoAbVariant,
+  computeSeoAbResults,
+  invalidateRunningSeoAbTests,
+  refreshSeoAbTestResults,
+  seoAbSourceVariants,
+} from "../server/services/seo-ab-tests";
+import { seoMiddleware } from "../server/seo-middleware";
+import seoRouter from "../server/routes/seo";
+
+const CHROME = "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0.0.0 Safari/537.36";
+const GOOGLEBOT = "Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)";
+const DAY = 24 * 60 * 60 * 1000;
+
+let dir: string;
+const app = express();
+app.set("trust proxy", true);
+app.use(express.json());
+app.use("/api/seo", seoRouter);
+app.get("*", (req, res, next) => seoMiddleware(req, res, next, join(dir, "index.html")));
+
+beforeAll(() => {
+  dir = mkdtempSync(join(tmpdir(), "seo-ab-"));
+  writeFileSync(join(dir, "index.html"), "<html><head><title>app</title></head><body></body></html>");
+});
+
+afterAll(() => rmSync(dir, { recursive: true, force: true }));
+
+beforeEach(async () => {
+  await resetMemStorage();
+  await memStorage.current.updateSeoSettings({ enableABTesting: true });
+  invalidateRunningSeoAbTests();
+});
+
+function createTest(overrides: Record<string, unknown> = {}) {
+  return memStorage.current.createSeoAbTest({
+    name: "About title",
+    description: null,
+    elementType: "title",
+    pageUrl: "/about",
+    variantA: "About nisam.video",
+    variantB: "Who curates nisam.video?",
+    trafficSplit: 50,
+    startDate: null,
+    endDate: null,
+    status: "running",
+    ...overrides,
+  });
+}
+
+const titleOf = (html: string) => html.match(/<title>(.*?)<\/title>/)?.[1];
+
+describe("SEO A/B test bucketing and significance", () => {
+  it("assigns variants deterministically in the configured split", () => {
+    const test = { id: "test-1", trafficSplit: 30 };
+    expect(assignSeoAbVariant(test, "visitor-x")).toBe(assignSeoAbVariant(test, "visitor-x"));
+
+    const shownA = Array.from({ length: 2000 }, (_, i) => assignSeoAbVariant(test, `visitor-${i}`)).filter((v) => v === "A").length;
+    expect(shownA / 2000).toBeGreaterThan(0.26);
+    expect(shownA / 2000).toBeLessThan(0.34);
+  });
+
+  it("calls a winner only with a significant difference and enough impressions", () => {
+    const clear = computeSeoAbResults({ impressions: 1000, clicks: 50 }, { impressions: 1000, clicks: 85 });
+    expect(clear).toMatchObject({ significant: true, winner: "B" });
+    expect(clear.pValue).toBeLessThan(0.01);
+    expect(clear.variantB.ctr).toBeCloseTo(0.085);
+
+    expect(computeSeoAbResults({ impressions: 1000, clicks: 50 }, { impressions: 1000, clicks: 55 })).toMatchObject({
+      significant: false,
+      winner: null,
+    });
+    // Same rates, too few impressions to trust
+    expect(computeSeoAbResults({ impressions: 40, clicks: 2 }, { impressions: 40, clicks: 12 }).significant).toBe(false);
+  });
+});
+
+describe("seoMiddleware with running tests", () => {
+  const visit = (headers: Record<string, string>) => request(app).get("/about").set("Accept", "text/html").set(headers);
+
+  it("keeps each visitor on a variant in the configured split", async () => {
+    const test = await createTest();
+
+    const first = await visit({ "User-Agent": CHROME, "X-Forwarded-For": "198.51.100.1" });
+    const again = await visit({ "User-Agent": CHROME, "X-Forwarded-For": "198.51.100.1" });
+    expect([test.variantA, test.variantB]).toContain(titleOf(first.text));
+    expect(titleOf(again.text)).toBe(titleOf(first.text));
+    expect(first.headers["cache-control"]).toBe("private, no-cache");
+
+    const seen = new Set<string>();
+    for (let i = 2; i < 40; i++) seen.add(titleOf((await visit({ "User-Agent": CHROME, "X-Forwarded-For": `198.51.100.${i}` })).text)!);
+    expect(seen).toEqual(new Set([test.variantA, test.variantB]));
+  });
+
+  it("serves people arriving from a search engine what its crawler indexed and counts them as clicks", async () => {
+    const test = await createTest();
+    const googleVariant = seoAbSourceVariants(test).google;
+    const googleTitle = googleVariant === "A" ? test.variantA : test.variantB;
+
+    const crawl = await visit({ "User-Agent": GOOGLEBOT, "X-Forwarded-For": "66.249.66.1" });
+    const recrawl = await visit({ "User-Agent": GOOGLEBOT, "X-Forwarded-For": "66.249.66.9" });
+    expect(titleOf(crawl.text)).toBe(googleTitle);
+    expect(titleOf(recrawl.text)).toBe(googleTitle);
+
+    for (let i = 1; i <= 3; i++) {
+      const arrival = await visit({ "User-Agent": CHROME, "X-Forwarded-For": `203.0.113.${i}`, Referer: "https://www.google.co.uk/search?q=nisam" });
+      expect(titleOf(arrival.text)).toBe(googleTitle);
+    }
+    // Neither a search nor a social site: only an impression
+    await visit({ "User-Agent": CHROME, "X-Forwarded-For": "203.0.113.9", Referer: "https://example.org/links" });
+
+    const counts = await memStorage.current.getSeoAbTestCounts(test.id);
+    const of = (variant: string) => counts.find((row: { variant: string }) => row.variant === variant) ?? { impressions: 0, clicks: 0 };
+    expect(of(googleVariant).clicks).toBe(3);
+    expect(of(googleVariant === "A" ? "B" : "A").clicks).toBe(0);
+    expect(of("A").impressions + of("B").impressions).toBe(4);
+
+    const results = (await refreshSeoAbTestResults(test)).results;
+    expect(results[`variant${googleVariant}`]).toMatchObject({ clicks: 3 });
+    expect(results.sources.google).toBe(googleVariant);
+  });
+
+  it("leaves pages alone while A/B testing is disabled", async () => {
+    await createTest();
+    await memStorage.current.updateSeoSettings({ enableABTesting: false });
+    const res = await request(app).get("/about").set("Accept", "text/html").set("User-Agent", CHROME);
+    expect(titleOf(res.text)).toBe("About nisam.video - AI-Powered Video Hub");
+  });
+});
+
+describe("SEO A/B test lifecycle", () => {
+  it("starts and completes tests on their dates", async () => {
+    const now = new Date("2026-10-15T12:00:00Z");
+    const due = await createTest({ status: "draft", startDate: new Date(now.getTime() - DAY) });
+    const future = await createTest({ status: "draft", pageUrl: "/faq", startDate: new Date(now.getTime() + DAY) });
+    const over = await createTest({ pageUrl: "/terms", endDate: new Date(now.getTime() - 1000) });
+    const paused = await createTest({ status: "paused", pageUrl: "/privacy", startDate: new Date(now.getTime() - DAY) });
+
+    expect(await applySeoAbTestSchedule(now)).toEqual({ started: 1, completed: 1 });
+    const status = async (id: string) => (await memStorage.current.getSeoAbTest(id)).status;
+    expect(await status(due.id)).toBe("running");
+    expect(await status(future.id)).toBe("draft");
+    expect(await status(over.id)).toBe("completed");
+    expect(await status(paused.id)).toBe("paused");
+  });
+
+  it("refuses a second running test on the same page element", async () => {
+    await createTest();
+    const other = await createTest({ status: "draft" });
+    const res = await request(app).post(`/api/seo/enhanced/ab-tests/${other.id}/start`);
+    expect(res.status).toBe(400);
+    expect(res.body.error).toContain("already running");
+  });
+
+  it("promotes the winner into the page's meta tags", async () => {
+    const test = await createTest({
+      results: {
+        variantA: { impressions: 400, clicks: 20, ctr: 0.05 },
+        variantB: { impressions: 410, clicks: 22, ctr: 0.054 },
+        significant: false,
+        winner: null,
+      },
+    });
+    await memStorage.current.incrementSeoAbTestCounts(test.id, "A", { impressions: 400, clicks: 20 });
+    await memStorage.current.incrementSeoAbTestCounts(test.id, "B", { impressions: 410, clicks: 22 });
+
+    const undecided = await request(app).post(`/api/seo/enhanced/ab-tests/${test.id}/promote`);
+    expect(undecided.status).toBe(400);
+
+    const res = await request(app).post(`/api/seo/enhanced/ab-tests/${test.id}/promote`).send({ variant: "B" });
+    expect(res.status).toBe(200);
+    expect(res.body.test).toMatchObject({
+      status: "completed",
+      results: { variantB: { impressions: 410, clicks: 22 }, promoted: { variant: "B" } },
+    });
+    expect(await memStorage.current.getSeoMetaTag("/about")).toMatchObject({ pageType: "custom", title: test.variantB });
+
+    const page = await request(app).get("/about").set("Accept", "text/html").set("User-Agent", CHROME);
+    expect(titleOf(page.text)).toBe(test.variantB);
+    expect(page.headers["cache-control"]).toBeUndefined();
+
+    expect((await request(app).post("/api/seo/enhanced/ab-tests/missing/promote")).status).toBe(404);
+  });
+});
@@ -40,7 +40,7 @@ vi.mock("../server/db.js", () => ({
 // Mock auth middleware
 vi.mock("../server/middleware/auth.js", () => ({
   requireAuth: (_req: any, _res: any, next: any) => next(),
-  requireAdmin: (_req: any, _res: any, next: any) => next(),
+  requirePermission: () => (_req: any, _res: any, next: any) => next(),
 }));
 
 // Import router POSLE mockova
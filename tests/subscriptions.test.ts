@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+
+vi.mock("../server/kv-service.js", () => ({
+  kvService: {
+    checkRateLimit: async () => true,
+    getViewingHistory: async () => [],
+    clearViewingHistory: async () => {},
+  },
+}));
+
+import channelsRouter from "../server/routes/channels";
+import feedRouter from "../server/routes/feed";
+import notificationsRouter from "../server/routes/notifications";
+import { notifyFollowers } from "../server/services/subscriptions";
+import { mergeAnonymousActivity } from "../server/services/user-library";
+
+// Visitors are told apart by IP; "x-test-user" logs the request in as that user id
+function buildApp() {
+  const app = express();
+  app.set("trust proxy", true);
+  app.use(express.json());
+  app.use((req, _res, next) => {
+    const userId = req.get("x-test-user");
+    (req as any).session = userId ? { isAuthenticated: true, userId, role: "user" } : {};
+    next();
+  });
+  app.use("/api/channels", channelsRouter);
+  app.use("/api/feed", feedRouter);
+  app.use("/api/notifications", notificationsRouter);
+  return app;
+}
+
+describe("channel subscriptions", () => {
+  let storage: any;
+  let app: express.Express;
+  let channelA: any;
+  let channelB: any;
+
+  beforeEach(async () => {
+    await resetMemStorage();
+    storage = memStorage.current;
+    app = buildApp();
+
+    channelA = await storage.createChannel({ name: "Kuhinja", url: "https://youtube.com/@k", channelId: "yt1", platform: "youtube" } as any);
+    channelB = await storage.createChannel({ name: "Sport", url: "https://youtube.com/@s", channelId: "yt2", platform: "youtube" } as any);
+    const base = { thumbnailUrl: "https://img/1.jpg", videoType: "regular" };
+    await storage.createVideo({ ...base, channelId: channelA.id, videoId: "a1", title: "Pasulj", publishDate: "2026-01-01" } as any);
+    await storage.createVideo({ ...base, channelId: channelA.id, videoId: "a2", title: "Sarma", publishDate: "2026-03-01" } as any);
+    await storage.createVideo({ ...base, channelId: channelB.id, videoId: "b1", title: "Utakmica", publishDate: "2026-02-01" } as any);
+  });
+
+  it("follows and unfollows a channel", async () => {
+    const followed = await request(app).post(`/api/channels/${channelA.id}/subscription`).set("x-test-user", "u1").expect(200);
+    expect(followed.body).toEqual({ subscribed: true, subscriberCount: 1 });
+
+    // Following twice is a no-op
+    await request(app).post(`/api/channels/${channelA.id}/subscription`).set("x-test-user", "u1").expect(200);
+    const status = await request(app).get(`/api/channels/${channelA.id}/subscription`).set("x-test-user", "u1").expect(200);
+    expect(status.body).toEqual({ subscribed: true, subscriberCount: 1 });
+
+    const other = await request(app).get(`/api/channels/${channelA.id}/subscription`).set("x-test-user", "u2").expect(200);
+    expect(other.body.subscribed).toBe(false);
+
+    const unfollowed = await request(app).delete(`/api/channels/${channelA.id}/subscription`).set("x-test-user", "u1").expect(200);
+    expect(unfollowed.body).toEqual({ subscribed: false, subscriberCount: 0 });
+  });
+
+  it("returns 404 when following an unknown channel", async () => {
+    await request(app).post("/api/channels/missing/subscription").expect(404);
+  });
+
+  it("pages the following feed by publish date", async () => {
+    await request(app).post(`/api/channels/${channelA.id}/subscription`).set("x-test-user", "u1").expect(200);
+
+    const first = await request(app).get("/api/feed/following?limit=1").set("x-test-user", "u1").expect(200);
+    expect(first.body.videos.map((v: any) => v.title)).toEqual(["Sarma"]);
+    expect(first.body).toMatchObject({ total: 2, hasMore: true, channelCount: 1 });
+
+    const second = await request(app).get("/api/feed/following?limit=1&offset=1").set("x-test-user", "u1").expect(200);
+    expect(second.body.videos.map((v: any) => v.title)).toEqual(["Pasulj"]);
+    expect(second.body.hasMore).toBe(false);
+
+    await request(app).get("/api/feed/following?limit=0").expect(400);
+  });
+
+  it("notifies followers of new videos and tracks unread counts", async () => {
+    await request(app).post(`/api/channels/${channelA.id}/subscription`).set("x-test-user", "u1").expect(200);
+    await request(app).post(`/api/channels/${channelB.id}/subscription`).set("x-test-user", "u2").expect(200);
+
+    const video = await storage.createVideo({ channelId: channelA.id, videoId: "a3", title: "Gibanica", thumbnailUrl: "https://img/3.jpg" } as any);
+    expect(await notifyFollowers(channelA.id, [video.id])).toBe(1);
+    // Re-running ingestion for the same video doesn't notify twice
+    expect(await notifyFollowers(channelA.id, [video.id])).toBe(0);
+
+    const list = await request(app).get("/api/notifications").set("x-test-user", "u1").expect(200);
+    expect(list.body.unreadCount).toBe(1);
+    expect(list.body.notifications[0]).toMatchObject({
+      type: "new_video",
+      video: { id: video.id, title: "Gibanica" },
+      channel: { id: channelA.id, name: "Kuhinja" },
+    });
+
+    const none = await request(app).get("/api/notifications/unread-count").set("x-test-user", "u2").expect(200);
+    expect(none.body.unreadCount).toBe(0);
+
+    const read = await request(app)
+      .post("/api/notifications/read")
+      .set("x-test-user", "u1")
+      .send({ ids: [list.body.notifications[0].id] })
+      .expect(200);
+    expect(read.body).toEqual({ updated: 1, unreadCount: 0 });
+  });
+
+  it("moves anonymous subscriptions to the account on login", async () => {
+    await request(app).post(`/api/channels/${channelA.id}/subscription`).set("X-Forwarded-For", "10.0.0.1").expect(200);
+
+    const merged = await mergeAnonymousActivity("u1", "ip:10.0.0.1");
+    expect(merged.subscriptions).toBe(1);
+
+    const status = await request(app).get(`/api/channels/${channelA.id}/subscription`).set("x-test-user", "u1").expect(200);
+    expect(status.body).toEqual({ subscribed: true, subscriberCount: 1 });
+  });
+});
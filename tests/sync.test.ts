@@ -13,6 +13,7 @@ vi.mock("../server/storage", () => ({
     getLocalizedCategoryBySlug: vi.fn(),
     createTag: vi.fn(),
     getVideo: vi.fn(),
+    getChannel: vi.fn(),
   },
 }));
 
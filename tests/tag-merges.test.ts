@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import { aiConfig } from "./helpers/ai-config";
+import "./helpers/open-auth";
+import "./helpers/error-log";
+
+import tagMergesRouter from "../server/routes/tag-merges";
+import { seoMiddleware } from "../server/seo-middleware";
+import { findTagClusters, type TagEntry } from "../server/services/tag-normalization";
+import { categorizeVideo } from "../server/ai-service";
+import { applyCategorization } from "../server/services/categorization";
+
+const app = express();
+app.use(express.json());
+app.use((req, _res, next) => {
+  (req as any).session = { userId: "admin-1" };
+  next();
+});
+app.use("/api/admin/tag-merges", tagMergesRouter);
+app.use((req, res, next) => seoMiddleware(req, res, next, "/nonexistent/index.html"));
+app.use((_req, res) => res.status(404).end());
+
+const originalFetch = global.fetch;
+let videoIds: string[];
+
+const entry = (name: string, videoCount = 1, names: Record<string, string> = {}): TagEntry => ({
+  name,
+  names: { en: name, ...names },
+  tagIds: [],
+  videoCount,
+});
+
+async function tag(videoId: string, en: string, sr?: string) {
+  await memStorage.current.createTag({ videoId }, [
+    { languageCode: "en", tagName: en },
+    ...(sr ? [{ languageCode: "sr-Latn", tagName: sr }] : []),
+  ]);
+}
+
+async function englishTags(videoId: string) {
+  const video = await memStorage.current.getVideoWithRelations(videoId, "en");
+  return video.tags.map((t: any) => t.tagName).sort();
+}
+
+beforeEach(async () => {
+  await resetMemStorage({ sampleVideo: false });
+  aiConfig.current = { provider: "ollama", ollamaUrl: "http://ollama.test" };
+
+  const channel = await memStorage.current.createChannel({
+    name: "Lab",
+    url: "https://youtube.com/@lab",
+    channelId: "lab",
+    platform: "youtube",
+  });
+  videoIds = [];
+  for (const id of ["v1", "v2", "v3"]) {
+    const video = await memStorage.current.createVideo({
+      channelId: channel.id,
+      videoId: id,
+      title: `Video ${id}`,
+      description: "",
+      thumbnailUrl: "https://img/x.jpg",
+    });
+    videoIds.push(video.id);
+  }
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe("finding near-duplicate tags", () => {
+  it("clusters plurals, spelling variants and translations into the most used tag", () => {
+    const proposals = findTagClusters([
+      entry("Technology", 5, { "sr-Latn": "Tehnologija" }),
+      entry("Tehnologija", 1),
+      entry("Tech", 2),
+      entry("Recipes", 1),
+      entry("Recipe", 3),
+      entry("Cooking", 4),
+    ]);
+
+    expect(proposals).toEqual([
+      expect.objectContaining({
+        targetName: "Technology",
+        sourceNames: ["Tech", "Tehnologija"],
+        reason: "translation",
+        videoCount: 3,
+      }),
+      expect.objectContaining({ targetName: "Recipe", sourceNames: ["Recipes"], reason: "same_name", score: 1 }),
+    ]);
+  });
+
+  it("does not propose a dismissed merge again", async () => {
+    await tag(videoIds[0], "Recipe");
+    await tag(videoIds[1], "Recipes");
+
+    await request(app).post("/api/admin/tag-merges/scan").expect(200);
+    const [proposal] = (await request(app).get("/api/admin/tag-merges")).body.pending;
+    await request(app).post(`/api/admin/tag-merges/${proposal.id}/dismiss`).expect(200);
+
+    const rescan = await request(app).post("/api/admin/tag-merges/scan");
+    expect(rescan.body.proposed).toBe(0);
+    const queue = (await request(app).get("/api/admin/tag-merges")).body;
+    expect(queue.resolved).toEqual([expect.objectContaining({ status: "dismissed", resolvedBy: "admin-1" })]);
+  });
+});
+
+describe("applying a merge", () => {
+  beforeEach(async () => {
+    await tag(videoIds[0], "Technology", "Tehnologija");
+    await tag(videoIds[1], "Technology", "Tehnologija");
+    await tag(videoIds[1], "Tech");
+    await tag(videoIds[2], "Tech", "Tek");
+    await memStorage.current.updateTagImage({ tagName: "Tech", imageUrl: "https://img/tech.png" });
+    // An older redirect that pointed at the tag being merged away
+    memStorage.current.seoRedirects.set("old", {
+      id: "old",
+      fromUrl: "/tag/Technik",
+      toUrl: "/tag/Tech",
+      type: "permanent",
+      isActive: true,
+      hits: 4,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    });
+  });
+
+  it("retags videos, drops duplicates, moves the image and redirects the old tag pages", async () => {
+    await request(app).post("/api/admin/tag-merges/scan").expect(200);
+    const [proposal] = (await request(app).get("/api/admin/tag-merges")).body.pending;
+    expect(proposal).toMatchObject({
+      target: { name: "Technology", videoCount: 2, exists: true },
+      sources: [{ name: "Tech", videoCount: 2 }],
+    });
+
+    const res = await request(app).post(`/api/admin/tag-merges/${proposal.id}/apply`).send({});
+    expect(res.status).toBe(200);
+    expect(res.body.result).toEqual({ videosRetagged: 1, duplicatesRemoved: 1, imageMoved: true, redirects: 2 });
+    expect(res.body.proposal).toMatchObject({ status: "applied", resolvedBy: "admin-1" });
+
+    for (const id of videoIds) expect(await englishTags(id)).toEqual(["Technology"]);
+    const serbian = await memStorage.current.getVideoWithRelations(videoIds[2], "sr-Latn");
+    expect(serbian.tags.map((t: any) => t.tagName)).toEqual(["Tehnologija"]);
+    expect(await memStorage.current.getTagImage("Technology")).toMatchObject({ imageUrl: "https://img/tech.png" });
+    expect(await memStorage.current.getTagImage("Tech")).toBeUndefined();
+
+    const page = await request(app).get("/tag/Tech?page=2").set("Accept", "text/html");
+    expect(page.status).toBe(301);
+    expect(page.headers.location).toBe("/tag/Technology?page=2");
+    expect((await request(app).get("/tag/Tek").set("Accept", "text/html")).headers.location).toBe("/tag/Tehnologija");
+    // No redirect chains
+    expect((await request(app).get("/tag/Technik").set("Accept", "text/html")).headers.location).toBe("/tag/Technology");
+    expect((await memStorage.current.getActiveSeoRedirect("/tag/Tech")).hits).toBe(1);
+  });
+
+  it("rejects a merge that was already reviewed", async () => {
+    await request(app).post("/api/admin/tag-merges/scan").expect(200);
+    const [proposal] = (await request(app).get("/api/admin/tag-merges")).body.pending;
+    await request(app).post(`/api/admin/tag-merges/${proposal.id}/apply`).send({}).expect(200);
+
+    const again = await request(app).post(`/api/admin/tag-merges/${proposal.id}/apply`).send({});
+    expect(again.status).toBe(400);
+    expect(again.body.error).toContain("already applied");
+    await request(app).post("/api/admin/tag-merges/missing/apply").send({}).expect(404);
+  });
+});
+
+describe("controlled taxonomy mode", () => {
+  it("only assigns existing categories and never creates new ones", async () => {
+    aiConfig.current = { ...aiConfig.current, taxonomyMode: "controlled" };
+    const science = await memStorage.current.createCategory({}, [
+      { languageCode: "en", name: "Science", slug: "science", description: null },
+      { languageCode: "sr-Latn", name: "Nauka", slug: "science", description: null },
+    ]);
+    await memStorage.current.createCategory({}, [
+      { languageCode: "en", name: "Music", slug: "music", description: null },
+    ]);
+
+    const prompts: string[] = [];
+    global.fetch = vi.fn(async (_url: any, init: any) => {
+      prompts.push(JSON.parse(init.body).messages[0].content);
+      const answer = { categories_en: ["science", "Space Exploration"], tags_en: ["Mars"], tags_sr_latn: ["Mars"] };
+      return { ok: true, json: async () => ({ message: { content: JSON.stringify(answer) } }) };
+    }) as any;
+
+    const result = await categorizeVideo("Landing on Mars", "");
+    expect(prompts[0]).toContain('"Science", "Music"');
+    expect(prompts[0]).not.toContain("categories_sr_latn");
+    expect(result.categoryIds).toEqual([science.id]);
+
+    const before = (await memStorage.current.getAllCategoriesWithTranslations()).length;
+    await applyCategorization(videoIds[0], result);
+    expect((await memStorage.current.getAllCategoriesWithTranslations()).length).toBe(before);
+    const serbian = await memStorage.current.getVideoWithRelations(videoIds[0], "sr-Latn");
+    expect(serbian.categories.map((c: any) => c.name)).toEqual(["Nauka"]);
+  });
+});
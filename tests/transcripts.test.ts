@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import { aiConfig } from "./helpers/ai-config";
+import "./helpers/open-auth";
+import "./helpers/error-log";
+
+import videosRouter from "../server/routes/videos";
+import { parseTimedText } from "../server/video-scraper";
+import { backfillTranscripts, selectCaptionTracks } from "../server/services/transcripts";
+import { categorizeVideo } from "../server/ai-service";
+
+const app = express();
+app.use(express.json());
+app.use("/api/videos", videosRouter);
+
+const originalFetch = global.fetch;
+
+const playerResponse = {
+  videoDetails: { videoId: "abcdefghijk", title: "Bean soup" },
+  captions: {
+    playerCaptionsTracklistRenderer: {
+      captionTracks: [
+        { baseUrl: "https://www.youtube.com/api/timedtext?v=abcdefghijk&lang=en&kind=asr", languageCode: "en", kind: "asr", name: { simpleText: "English (auto-generated)" } },
+        { baseUrl: "https://www.youtube.com/api/timedtext?v=abcdefghijk&lang=en", languageCode: "en", name: { simpleText: "English" } },
+      ],
+    },
+  },
+};
+
+const watchPage = `<html><head><title>Bean soup</title></head><body><script>
+var ytInitialPlayerResponse = ${JSON.stringify(playerResponse)};
+</script></body></html>`;
+
+const json3 = JSON.stringify({
+  events: [
+    { tStartMs: 0, dDurationMs: 2500, segs: [{ utf8: "Today we cook" }, { utf8: " bean soup" }] },
+    { tStartMs: 2500, dDurationMs: 1000, segs: [{ utf8: "\n" }] },
+    { tStartMs: 62000, dDurationMs: 3000, segs: [{ utf8: "Add smoked paprika" }] },
+  ],
+});
+
+let videoId: string;
+
+beforeEach(async () => {
+  await resetMemStorage({ sampleVideo: false });
+  aiConfig.current = { provider: "openai", openaiApiKey: "sk-test", openaiModel: "gpt-4o-mini" };
+
+  const storage = memStorage.current;
+  const channel = await storage.createChannel({ name: "Kitchen", url: "https://youtube.com/@kitchen", channelId: "kitchen", platform: "youtube" });
+  videoId = (await storage.createVideo({ channelId: channel.id, videoId: "abcdefghijk", title: "Bean soup", description: "", thumbnailUrl: "https://img/x.jpg" })).id;
+});
+
+afterEach(() => {
+  global.fetch = originalFetch;
+});
+
+describe("parseTimedText", () => {
+  it("reads json3 events and skips empty lines", () => {
+    expect(parseTimedText(json3)).toEqual([
+      { start: 0, duration: 2.5, text: "Today we cook bean soup" },
+      { start: 62, duration: 3, text: "Add smoked paprika" },
+    ]);
+  });
+
+  it("reads the XML format and decodes entities", () => {
+    const xml = `<?xml version="1.0"?><transcript><text start="1.5" dur="2">Salt &amp;amp; pepper</text><text start="4" dur="1.2">it&amp;#39;s done</text></transcript>`;
+    expect(parseTimedText(xml)).toEqual([
+      { start: 1.5, duration: 2, text: "Salt & pepper" },
+      { start: 4, duration: 1.2, text: "it's done" },
+    ]);
+  });
+});
+
+describe("transcript ingestion", () => {
+  it("prefers uploaded captions over speech recognition", () => {
+    const tracks = [
+      { languageCode: "en", name: "English (auto)", auto: true, baseUrl: "https://t/asr" },
+      { languageCode: "en-GB", name: "English", auto: false, baseUrl: "https://t/manual" },
+      { languageCode: "de", name: "Deutsch", auto: false, baseUrl: "https://t/de" },
+    ];
+    expect(selectCaptionTracks(tracks, ["en", "sr"]).map((t) => t.baseUrl)).toEqual(["https://t/manual"]);
+    // No wanted language: fall back to the spoken one
+    expect(selectCaptionTracks(tracks, ["sr"]).map((t) => t.baseUrl)).toEqual(["https://t/asr"]);
+  });
+
+  it("stores transcripts of due videos and serves them", async () => {
+    const urls: string[] = [];
+    global.fetch = vi.fn(async (url: any) => {
+      urls.push(String(url));
+      if (String(url).includes("/watch")) return { ok: true, text: async () => watchPage };
+      return { ok: true, text: async () => json3 };
+    }) as any;
+
+    const summary = await backfillTranscripts();
+    expect(summary).toEqual({ checked: 1, transcribed: 1, failed: 0 });
+    // The uploaded track, fetched as json3
+    expect(urls.find((u) => u.includes("timedtext"))).toBe("https://www.youtube.com/api/timedtext?v=abcdefghijk&lang=en&fmt=json3");
+
+    const res = await request(app).get(`/api/videos/${videoId}/transcripts`).expect(200);
+    expect(res.body).toEqual([
+      expect.objectContaining({ languageCode: "en", source: "manual", text: "Today we cook bean soup Add smoked paprika" }),
+    ]);
+
+    // Checked videos are not looked up again
+    expect(await backfillTranscripts()).toEqual({ checked: 0, transcribed: 0, failed: 0 });
+  });
+
+  it("marks videos without captions as checked", async () => {
+    global.fetch = vi.fn(async () => ({ ok: true, text: async () => "<html><body>No player</body></html>" })) as any;
+
+    await backfillTranscripts();
+    expect((await memStorage.current.getVideo(videoId)).transcriptCheckedAt).toBeInstanceOf(Date);
+    await request(app).get(`/api/videos/${videoId}/transcripts`).expect(200, []);
+  });
+});
+
+describe("transcripts in AI prompts", () => {
+  it("categorizes from what is said in the video", async () => {
+    await memStorage.current.upsertVideoTranscript({
+      videoId,
+      languageCode: "en",
+      source: "manual",
+      segments: [{ start: 0, duration: 2, text: "Add smoked paprika" }],
+      text: "Add smoked paprika",
+    });
+    const prompts: string[] = [];
+    global.fetch = vi.fn(async (_url: any, init: any) => {
+      prompts.push(JSON.parse(init.body).messages.map((m: any) => m.content).join("\n"));
+      return {
+        ok: true,
+        json: async () => ({
+          choices: [{ message: { content: JSON.stringify({ categories_en: ["Cooking"], tags_en: ["soup"] }) } }],
+          usage: { prompt_tokens: 10, completion_tokens: 5 },
+        }),
+      };
+    }) as any;
+
+    await request(app).post(`/api/videos/${videoId}/categorize`).expect(200);
+    expect(prompts[0]).toContain("Transcript: Add smoked paprika");
+
+    prompts.length = 0;
+    await categorizeVideo("Bean soup", "");
+    expect(prompts[0]).toContain("Transcript: No transcript");
+  });
+});
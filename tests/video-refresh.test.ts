@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { readFileSync } from "fs";
+import { join } from "path";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import "./helpers/open-auth";
+
+import { computeTrendingScore, nextRefreshAt, refreshStaleVideos } from "../server/services/video-refresh";
+import videosRouter from "../server/routes/videos";
+
+const HOUR = 60 * 60 * 1000;
+const videosList = readFileSync(join(__dirname, "fixtures", "youtube-api", "videos-1.json"), "utf8");
+
+const app = express();
+app.use(express.json());
+app.use("/api/videos", videosRouter);
+
+/**
+ * Serves videos.list from the recorded fixture with the view count swapped
+ * for `views`; oEmbed reports anything not in the fixture as removed.
+ */
+function stubYouTube(views: number) {
+  const requested: string[] = [];
+  global.fetch = vi.fn(async (input: any) => {
+    const url = new URL(String(input));
+    requested.push(url.toString());
+    if (url.pathname === "/oembed") {
+      return new Response("Not Found", { status: 404 });
+    }
+    const body = JSON.parse(videosList);
+    const ids = url.searchParams.get("id")!.split(",");
+    body.items = body.items.filter((item: any) => ids.includes(item.id));
+    for (const item of body.items) item.statistics.viewCount = String(views);
+    return new Response(JSON.stringify(body), { status: 200 });
+  }) as any;
+  return requested;
+}
+
+async function seedVideos() {
+  const channel = await memStorage.current.createChannel({ name: "Kuhinja", url: "https://www.youtube.com/@kuhinja", platform: "youtube" });
+  const base = { channelId: channel.id, thumbnailUrl: "https://img/old.jpg", videoType: "regular", publishDate: "2026-10-14T16:00:08Z" };
+  const live = await memStorage.current.createVideo({ ...base, videoId: "aB3dE5fG7hJ", title: "Stari naslov", viewCount: "40000" } as any);
+  const removed = await memStorage.current.createVideo({ ...base, videoId: "zZ9yY8xX7wV", title: "Obrisan", slug: "obrisan" } as any);
+  return { live, removed };
+}
+
+beforeEach(async () => {
+  // Leave only the videos each test seeds
+  await resetMemStorage({ sampleVideo: false });
+  await memStorage.current.updateSystemSettings({ youtubeApiKey: "test-key", youtubeQuotaDailyLimit: 10000 });
+});
+
+describe("video metadata refresh", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("schedules younger videos more often", () => {
+    const now = new Date("2026-10-15T12:00:00Z");
+    const createdAt = new Date("2020-01-01T00:00:00Z");
+    const fresh = nextRefreshAt({ publishDate: "2026-10-15T00:00:00Z", createdAt }, now);
+    const month = nextRefreshAt({ publishDate: "2026-09-20T00:00:00Z", createdAt }, now);
+    const old = nextRefreshAt({ publishDate: null, createdAt }, now);
+    expect(fresh.getTime() - now.getTime()).toBe(3 * HOUR);
+    expect(month.getTime() - now.getTime()).toBe(48 * HOUR);
+    expect(old.getTime() - now.getTime()).toBe(7 * 24 * HOUR);
+  });
+
+  it("scores views gained per hour over the last two days", () => {
+    const at = (hours: number) => new Date(Date.UTC(2026, 9, 15) + hours * HOUR);
+    expect(computeTrendingScore([{ viewCount: 100, capturedAt: at(0) }])).toBe(0);
+    expect(
+      computeTrendingScore([
+        { viewCount: 0, capturedAt: at(-100) },
+        { viewCount: 1000, capturedAt: at(0) },
+        { viewCount: 1600, capturedAt: at(12) },
+        { viewCount: 2200, capturedAt: at(24) },
+      ]),
+    ).toBe(50);
+    // Too far apart to say anything about the current rate
+    expect(
+      computeTrendingScore([
+        { viewCount: 0, capturedAt: at(0) },
+        { viewCount: 9000, capturedAt: at(24 * 10) },
+      ]),
+    ).toBe(0);
+  });
+
+  it("updates metadata, records snapshots and hides removed videos", async () => {
+    const { live, removed } = await seedVideos();
+    const start = new Date("2026-10-15T12:00:00Z");
+
+    const requested = stubYouTube(48000);
+    const first = await refreshStaleVideos({ now: start });
+    expect(first).toMatchObject({ hidden: 1, failed: 0 });
+    expect(requested.filter((url) => url.includes("/youtube/v3/videos"))).toHaveLength(1);
+
+    const refreshed = await memStorage.current.getVideo(live.id);
+    expect(refreshed).toMatchObject({
+      title: "Domaća pita sa sirom - recept korak po korak",
+      thumbnailUrl: "https://i.ytimg.com/vi/aB3dE5fG7hJ/maxresdefault.jpg",
+      duration: "12:34",
+      viewCount: "48000",
+      trendingScore: 0,
+      metadataRefreshedAt: start,
+    });
+    expect(refreshed.nextRefreshAt.getTime() - start.getTime()).toBe(3 * HOUR);
+
+    const gone = await memStorage.current.getVideo(removed.id);
+    expect(gone).toMatchObject({ hiddenAt: start, hiddenReason: "deleted", nextRefreshAt: null });
+
+    // Nothing is due until the next refresh time comes around
+    stubYouTube(48000);
+    expect((await refreshStaleVideos({ now: new Date(start.getTime() + HOUR) })).checked).toBe(0);
+
+    stubYouTube(54000);
+    await refreshStaleVideos({ now: new Date(start.getTime() + 4 * HOUR) });
+    const snapshots = await memStorage.current.getVideoViewSnapshots(live.id);
+    expect(snapshots.map((s: any) => s.viewCount)).toEqual([48000, 54000]);
+    expect((await memStorage.current.getVideo(live.id)).trendingScore).toBe(1500);
+  });
+
+  it("keeps hidden videos out of listings and answers 410 for them", async () => {
+    const { live, removed } = await seedVideos();
+    stubYouTube(48000);
+    await refreshStaleVideos({ now: new Date() });
+
+    const listed = await memStorage.current.getAllVideos();
+    expect(listed.some((v: any) => v.id === live.id)).toBe(true);
+    expect(listed.some((v: any) => v.id === removed.id)).toBe(false);
+    const all = await memStorage.current.getAllVideos({ includeHidden: true });
+    expect(all.some((v: any) => v.id === removed.id)).toBe(true);
+
+    const res = await request(app).get("/api/videos/obrisan");
+    expect(res.status).toBe(410);
+    expect(res.body.reason).toBe("deleted");
+  });
+
+  it("backs off instead of hiding when the source can't be reached", async () => {
+    const { live } = await seedVideos();
+    global.fetch = vi.fn(async () => new Response("Backend Error", { status: 500 })) as any;
+    const now = new Date("2026-10-15T12:00:00Z");
+
+    const summary = await refreshStaleVideos({ now });
+
+    expect(summary.failed).toBe(2);
+    expect(summary.hidden).toBe(0);
+    const video = await memStorage.current.getVideo(live.id);
+    expect(video.hiddenAt).toBeNull();
+    expect(video.nextRefreshAt.getTime() - now.getTime()).toBe(6 * HOUR);
+  });
+});
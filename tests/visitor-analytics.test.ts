@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import "./helpers/open-auth";
+
+import { hashIp, ingestBeaconBatch, parseUserAgent } from "../server/services/visitor-analytics";
+import analyticsRouter from "../server/routes/analytics";
+import adminRouter from "../server/routes/admin";
+
+const CHROME_DESKTOP =
+  "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0.0.0 Safari/537.36";
+const SAFARI_IPHONE =
+  "Mozilla/5.0 (iPhone; CPU iPhone OS 18_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/18.0 Mobile/15E148 Safari/604.1";
+
+const app = express();
+app.set("trust proxy", true);
+app.use("/api/analytics", analyticsRouter);
+app.use("/api/admin", adminRouter);
+
+beforeEach(async () => {
+  await resetMemStorage();
+});
+
+describe("visitor beacon ingestion", () => {
+  it("parses browsers, devices and bots", () => {
+    expect(parseUserAgent(CHROME_DESKTOP)).toEqual({ browser: "Chrome", os: "Windows", device: "desktop", bot: false });
+    expect(parseUserAgent(SAFARI_IPHONE)).toMatchObject({ browser: "Safari", os: "iOS", device: "mobile" });
+    expect(parseUserAgent("Mozilla/5.0 (Linux; Android 14; SM-X710) AppleWebKit/537.36 Chrome/130.0 Safari/537.36")).toMatchObject({
+      os: "Android",
+      device: "tablet",
+    });
+    expect(parseUserAgent("Mozilla/5.0 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)").bot).toBe(true);
+  });
+
+  it("salts IP hashes per day", () => {
+    const day = new Date("2026-10-15T12:00:00Z");
+    expect(hashIp("203.0.113.7", day)).toBe(hashIp("203.0.113.7", new Date("2026-10-15T23:00:00Z")));
+    expect(hashIp("203.0.113.7", day)).not.toBe(hashIp("203.0.113.7", new Date("2026-10-16T01:00:00Z")));
+    expect(hashIp("203.0.113.7", day)).not.toContain("203");
+  });
+
+  it("stitches batches into one session with duration and bounce", async () => {
+    const start = Date.parse("2026-10-15T12:00:00Z");
+    const now = new Date(start + 5 * 60 * 1000);
+    const base = { visitorId: "visitor-0001", sessionId: "session-0001", consent: true };
+
+    await ingestBeaconBatch(
+      {
+        ...base,
+        events: [
+          {
+            type: "pageview",
+            path: "/",
+            referrer: "https://www.google.com/search?q=recepti",
+            utm: { source: "newsletter", medium: "email" },
+            ts: start,
+          },
+        ],
+      },
+      { ip: "203.0.113.7", userAgent: CHROME_DESKTOP, country: "RS", host: "nisam.video", now },
+    );
+    let session = await memStorage.current.getVisitorSession("session-0001");
+    expect(session).toMatchObject({ landingPath: "/", utmSource: "newsletter", device: "desktop", isBounce: true, pageViewCount: 1 });
+    expect(session.ipHash).toHaveLength(32);
+
+    await ingestBeaconBatch(
+      {
+        ...base,
+        events: [
+          { type: "leave", path: "/", durationSeconds: 20, ts: start + 20_000 },
+          { type: "pageview", path: "/video/pita", referrer: "https://nisam.video/", ts: start + 20_000 },
+          { type: "leave", path: "/video/pita", durationSeconds: 95, ts: start + 115_000 },
+        ],
+      },
+      { ip: "203.0.113.7", userAgent: CHROME_DESKTOP, host: "nisam.video", now },
+    );
+
+    session = await memStorage.current.getVisitorSession("session-0001");
+    expect(session).toMatchObject({ pageViewCount: 2, durationSeconds: 115, isBounce: false });
+    expect(session.referrer).toBe("https://www.google.com/search?q=recepti");
+  });
+
+  it("keeps sessions without consent free of identifying data", async () => {
+    const now = new Date();
+    await ingestBeaconBatch(
+      {
+        visitorId: "anon-000001",
+        sessionId: "anon-session-1",
+        consent: false,
+        events: [{ type: "pageview", path: "/", referrer: "https://www.facebook.com/groups/kuvari?ref=share" }],
+      },
+      { ip: "203.0.113.7", userAgent: SAFARI_IPHONE, host: "nisam.video", now },
+    );
+
+    const session = await memStorage.current.getVisitorSession("anon-session-1");
+    expect(session).toMatchObject({
+      consentGranted: false,
+      ipHash: null,
+      userAgent: null,
+      referrer: "https://www.facebook.com/",
+      browser: "Safari",
+    });
+  });
+
+  it("accepts beacons over HTTP and drops bots and malformed batches", async () => {
+    const batch = {
+      visitorId: "visitor-0002",
+      sessionId: "session-0002",
+      consent: true,
+      events: [{ type: "pageview", path: "/shorts" }, { type: "event", name: "video_like", properties: { videoId: "v1" } }],
+    };
+
+    const res = await request(app).post("/api/analytics/collect").set("User-Agent", SAFARI_IPHONE).send(batch);
+    expect(res.status).toBe(204);
+    expect(await memStorage.current.getVisitorSession("session-0002")).toMatchObject({ isBounce: false, device: "mobile" });
+
+    await request(app)
+      .post("/api/analytics/collect")
+      .set("User-Agent", "Googlebot/2.1")
+      .send({ ...batch, sessionId: "session-bot1" });
+    expect(await memStorage.current.getVisitorSession("session-bot1")).toBeUndefined();
+
+    expect((await request(app).post("/api/analytics/collect").send({ ...batch, events: [] })).status).toBe(400);
+    expect((await request(app).post("/api/analytics/collect").send({ ...batch, visitorId: "x" })).status).toBe(400);
+  });
+});
+
+describe("visitor analytics report", () => {
+  it("reports funnel, top paths and retention from stored sessions", async () => {
+    const now = Date.now();
+    const visit = async (visitorId: string, sessionId: string, daysAgo: number, events: any[]) => {
+      const at = now - daysAgo * 24 * 60 * 60 * 1000;
+      await ingestBeaconBatch(
+        { visitorId, sessionId, consent: true, events: events.map((e, i) => ({ ...e, ts: at + i * 1000 })) },
+        { userAgent: CHROME_DESKTOP, host: "nisam.video", now: new Date(at + 60 * 60 * 1000) },
+      );
+    };
+
+    await visit("visitor-aaaa", "session-aaa1", 14, [{ type: "pageview", path: "/" }]);
+    await visit("visitor-aaaa", "session-aaa2", 2, [
+      { type: "pageview", path: "/video/pita" },
+      { type: "leave", path: "/video/pita", durationSeconds: 45 },
+      { type: "event", name: "channel_follow" },
+    ]);
+    await visit("visitor-bbbb", "session-bbb1", 1, [
+      { type: "pageview", path: "/video/pita" },
+      { type: "leave", path: "/video/pita", durationSeconds: 5 },
+    ]);
+
+    const res = await request(app).get("/api/admin/analytics/visitors?days=30");
+    expect(res.status).toBe(200);
+    expect(res.body.totals).toMatchObject({ sessions: 3, visitors: 2, pageViews: 3, consentRate: 1 });
+    expect(res.body.funnel).toEqual([
+      { step: "visit", sessions: 3 },
+      { step: "video_view", sessions: 2 },
+      { step: "engaged_watch", sessions: 1 },
+      { step: "interaction", sessions: 1 },
+    ]);
+    expect(res.body.topPaths[0]).toEqual({ path: "/video/pita", views: 2, avgSeconds: 25 });
+    expect(res.body.devices).toEqual([{ device: "desktop", sessions: 3 }]);
+
+    const first = res.body.retention[0];
+    expect(first.visitors).toBe(1);
+    expect(first.weeks[0]).toBe(1);
+    expect(Math.max(...first.weeks.slice(1))).toBe(1);
+  });
+});
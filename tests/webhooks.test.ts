@@ -0,0 +1,305 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from "vitest";
+import express from "express";
+import request from "supertest";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import { errorLogBus, recordAuditLog, recordError } from "./helpers/error-log";
+import "./helpers/open-auth";
+
+const { notifyFollowers, collectChannelVideos } = vi.hoisted(() => ({
+  notifyFollowers: vi.fn(),
+  collectChannelVideos: vi.fn(),
+}));
+
+vi.mock("../server/services/mailer.js", () => ({ notifyAdmins: vi.fn() }));
+vi.mock("../server/services/subscriptions.js", () => ({ notifyFollowers }));
+vi.mock("../server/services/indexnow.js", () => ({ submitUrls: vi.fn() }));
+vi.mock("../server/platforms/index.js", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../server/platforms/index.js")>()),
+  collectChannelVideos,
+}));
+
+import webhooksRouter from "../server/routes/webhooks";
+import channelRecommendationsRouter from "../server/routes/channel-recommendations";
+import { publishVideos } from "../server/services/moderation";
+import { scheduler } from "../server/scheduler";
+import {
+  emitWebhookEvent,
+  processWebhookDeliveries,
+  registerWebhookEvents,
+  signWebhookPayload,
+} from "../server/services/webhooks";
+
+// ---------------------------------------------------------------------------
+// A receiver that records what it gets and answers with queued status codes
+// ---------------------------------------------------------------------------
+
+type Received = { headers: Record<string, string | string[] | undefined>; body: string };
+
+const receiver = {
+  url: "",
+  received: [] as Received[],
+  statuses: [] as number[],
+  onReceive: null as (() => void) | null,
+};
+
+const receiverApp = express();
+receiverApp.post("/hook", express.text({ type: "*/*" }), (req, res) => {
+  receiver.received.push({ headers: req.headers, body: req.body });
+  receiver.onReceive?.();
+  res.status(receiver.statuses.shift() ?? 200).send("ok");
+});
+
+let receiverServer: Server;
+
+const app = express();
+app.use(express.json());
+app.use((req: any, _res, next) => {
+  req.session = { userId: "admin-1", username: "admin" };
+  next();
+});
+app.use("/api/admin/webhooks", webhooksRouter);
+app.use("/api", channelRecommendationsRouter);
+
+async function createSubscription(overrides: Record<string, unknown> = {}) {
+  return memStorage.current.createWebhookSubscription({
+    name: "Discord bot",
+    url: `${receiver.url}/hook`,
+    secret: "whsec_test",
+    events: ["video.created", "recommendation.submitted"],
+    enabled: true,
+    ...overrides,
+  });
+}
+
+async function deliveries() {
+  return memStorage.current.getWebhookDeliveries({});
+}
+
+beforeAll(async () => {
+  receiverServer = receiverApp.listen(0, "127.0.0.1");
+  await new Promise<void>((resolve) => receiverServer.once("listening", () => resolve()));
+  receiver.url = `http://127.0.0.1:${(receiverServer.address() as AddressInfo).port}`;
+  registerWebhookEvents();
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => receiverServer.close(() => resolve()));
+});
+
+beforeEach(async () => {
+  await resetMemStorage();
+  receiver.received = [];
+  receiver.statuses = [];
+  receiver.onReceive = null;
+  recordError.mockReset();
+  recordAuditLog.mockReset();
+});
+
+describe("webhook subscriptions", () => {
+  it("shows the secret on creation and masks it afterwards", async () => {
+    const created = await request(app)
+      .post("/api/admin/webhooks/subscriptions")
+      .send({ name: "Newsletter", url: "https://example.com/hooks/nisam", events: ["video.created"] })
+      .expect(201);
+    expect(created.body.secret).toMatch(/^whsec_/);
+
+    const list = await request(app).get("/api/admin/webhooks/subscriptions").expect(200);
+    expect(list.body).toEqual([expect.objectContaining({ name: "Newsletter", secret: "********", enabled: true })]);
+
+    const updated = await request(app)
+      .patch(`/api/admin/webhooks/subscriptions/${created.body.id}`)
+      .send({ events: ["channel.added", "error.threshold"], enabled: false })
+      .expect(200);
+    expect(updated.body).toMatchObject({ events: ["channel.added", "error.threshold"], enabled: false, secret: "********" });
+
+    const rotated = await request(app).post(`/api/admin/webhooks/subscriptions/${created.body.id}/rotate-secret`).expect(200);
+    expect(rotated.body.secret).toMatch(/^whsec_/);
+    expect(rotated.body.secret).not.toBe(created.body.secret);
+
+    expect(recordAuditLog.mock.calls.map(([entry]) => entry.metadata.operation)).toEqual([
+      "webhook.create",
+      "webhook.update",
+      "webhook.rotate_secret",
+    ]);
+  });
+
+  it("rejects unknown events and non-http URLs", async () => {
+    await request(app)
+      .post("/api/admin/webhooks/subscriptions")
+      .send({ name: "Bot", url: "https://example.com/hook", events: ["video.deleted"] })
+      .expect(400);
+    const res = await request(app)
+      .post("/api/admin/webhooks/subscriptions")
+      .send({ name: "Bot", url: "ftp://example.com/hook", events: ["video.created"] })
+      .expect(400);
+    expect(res.body.error).toBe("Use an http or https URL");
+  });
+});
+
+describe("webhook delivery", () => {
+  it("signs the payload and only sends to enabled subscriptions that picked the event", async () => {
+    const subscription = await createSubscription();
+    await createSubscription({ name: "Telegram", events: ["channel.added"] });
+    await createSubscription({ name: "Paused", enabled: false });
+
+    await emitWebhookEvent("video.created", { video: { id: "v1", title: "Hello" } });
+    await processWebhookDeliveries();
+
+    expect(receiver.received).toHaveLength(1);
+    const [{ headers, body }] = receiver.received;
+    expect(headers["x-nisam-event"]).toBe("video.created");
+    const timestamp = Number(headers["x-nisam-timestamp"]);
+    expect(headers["x-nisam-signature"]).toBe(`sha256=${signWebhookPayload("whsec_test", timestamp, body)}`);
+    expect(JSON.parse(body)).toMatchObject({ event: "video.created", data: { video: { id: "v1", title: "Hello" } } });
+
+    const [delivery] = await deliveries();
+    expect(headers["x-nisam-delivery"]).toBe(delivery.id);
+    expect(delivery).toMatchObject({ subscriptionId: subscription.id, status: "delivered", attempts: 1, lastStatusCode: 200 });
+  });
+
+  it("keeps claiming until nothing is due, including deliveries queued mid-run", async () => {
+    for (let i = 0; i < 25; i++) await createSubscription({ name: `Bot ${i}` });
+    await emitWebhookEvent("video.created", { video: { id: "v1" } });
+
+    // Queued after the run claimed its first batch
+    let joined: Promise<unknown> | null = null;
+    receiver.onReceive = () => {
+      receiver.onReceive = null;
+      joined = emitWebhookEvent("video.created", { video: { id: "v2" } }).then(() => processWebhookDeliveries());
+    };
+    await processWebhookDeliveries();
+    await joined;
+
+    expect(receiver.received).toHaveLength(50);
+    expect((await deliveries()).every((delivery: any) => delivery.status === "delivered")).toBe(true);
+  });
+
+  it("backs off after failures and dead-letters the delivery after the last attempt", async () => {
+    await createSubscription();
+    receiver.statuses = [503];
+
+    await emitWebhookEvent("video.created", { video: { id: "v1" } });
+    await processWebhookDeliveries();
+
+    let [delivery] = await deliveries();
+    expect(delivery).toMatchObject({ status: "pending", attempts: 1, lastStatusCode: 503 });
+    expect(delivery.lastError).toBe("HTTP 503: ok");
+    const delay = delivery.nextAttemptAt.getTime() - Date.now();
+    expect(delay).toBeGreaterThan(25_000);
+    expect(delay).toBeLessThanOrEqual(30_000);
+
+    // Not due yet
+    await processWebhookDeliveries();
+    expect(receiver.received).toHaveLength(1);
+
+    // Fast-forward to the last attempt
+    await memStorage.current.updateWebhookDelivery(delivery.id, { attempts: 7, nextAttemptAt: new Date() });
+    receiver.statuses = [500];
+    await processWebhookDeliveries();
+
+    [delivery] = await deliveries();
+    expect(delivery).toMatchObject({ status: "dead", attempts: 8, lastStatusCode: 500 });
+    expect(recordError).toHaveBeenCalledWith(
+      expect.objectContaining({ type: "webhook_delivery_failed", module: "webhooks" }),
+    );
+  });
+
+  it("replays a dead delivery as a new one with the same event id", async () => {
+    await createSubscription();
+    receiver.statuses = [500];
+    await emitWebhookEvent("video.created", { video: { id: "v1" } });
+    await processWebhookDeliveries();
+    const [original] = await deliveries();
+    await memStorage.current.updateWebhookDelivery(original.id, { status: "dead" });
+
+    const replay = await request(app).post(`/api/admin/webhooks/deliveries/${original.id}/replay`).expect(201);
+    await processWebhookDeliveries();
+
+    const sent = receiver.received.map((entry) => JSON.parse(entry.body));
+    expect(sent).toHaveLength(2);
+    expect(sent[1].id).toBe(sent[0].id);
+    expect(await memStorage.current.getWebhookDelivery(replay.body.id)).toMatchObject({ status: "delivered" });
+    expect(await memStorage.current.getWebhookDelivery(original.id)).toMatchObject({ status: "dead" });
+
+    const log = await request(app).get("/api/admin/webhooks/deliveries?status=dead").expect(200);
+    expect(log.body).toEqual([expect.objectContaining({ id: original.id, subscriptionName: "Discord bot" })]);
+  });
+
+  it("drops queued deliveries of a disabled subscription into the dead state", async () => {
+    const subscription = await createSubscription();
+    await memStorage.current.enqueueWebhookDelivery({
+      subscriptionId: subscription.id,
+      event: "video.created",
+      payload: { id: "e1", event: "video.created", data: {} },
+    });
+    await memStorage.current.updateWebhookSubscription(subscription.id, { enabled: false });
+
+    await processWebhookDeliveries();
+
+    expect(receiver.received).toHaveLength(0);
+    expect((await deliveries())[0]).toMatchObject({ status: "dead", lastError: "The subscription is disabled" });
+  });
+});
+
+describe("webhook events", () => {
+  it("announces videos when they go public", async () => {
+    await createSubscription();
+    await publishVideos("c1", [
+      { id: "v1", videoId: "abc", slug: "first-video", title: "First video", channelId: "c1" } as any,
+    ]);
+    await processWebhookDeliveries();
+
+    expect(notifyFollowers).toHaveBeenCalled();
+    const payload = JSON.parse(receiver.received[0].body);
+    expect(payload.data.video).toMatchObject({ id: "v1", title: "First video", url: expect.stringMatching(/\/video\/first-video$/) });
+  });
+
+  it("sends recommendation.submitted for a new channel recommendation", async () => {
+    await createSubscription();
+    await request(app)
+      .post("/api/channel-recommendations")
+      .send({ url: "https://www.youtube.com/@somechannel", description: "Great science videos" })
+      .expect(200);
+    await processWebhookDeliveries();
+
+    const payload = JSON.parse(receiver.received[0].body);
+    expect(payload).toMatchObject({
+      event: "recommendation.submitted",
+      data: { recommendation: { platform: "youtube", description: "Great science videos" } },
+    });
+  });
+
+  it("reports the outcome of scheduled scrapes", async () => {
+    await createSubscription({ events: ["scrape_job.completed", "scrape_job.failed"] });
+    process.env.SCRAPE_DELAY_MS = "0";
+
+    await scheduler.runScrapeJob({ retries: 0 });
+    await memStorage.current.createChannel({ name: "Broken", url: "https://www.youtube.com/@broken", platform: "youtube", channelId: "UCbroken" });
+    collectChannelVideos.mockRejectedValueOnce(new Error("quota exceeded"));
+    await scheduler.runScrapeJob({ retries: 0 });
+    await processWebhookDeliveries();
+
+    const events = receiver.received.map(({ body }) => JSON.parse(body));
+    expect(events.map((event) => [event.event, event.data.job.status])).toEqual([
+      ["scrape_job.completed", "completed"],
+      ["scrape_job.failed", "failed"],
+    ]);
+    expect(events[1].data.job).toMatchObject({ type: "scheduler_incremental", failedItems: 1 });
+    delete process.env.SCRAPE_DELAY_MS;
+  });
+
+  it("sends error.threshold once an error fingerprint reaches the alert threshold", async () => {
+    await createSubscription({ events: ["error.threshold"] });
+    const event = { fingerprint: "fp1", level: "error", type: "job_failed", message: "boom", module: "jobs" };
+
+    errorLogBus.emit("error_event", { ...event, count: 24 });
+    errorLogBus.emit("error_event", { ...event, type: "webhook_delivery_failed", count: 25 });
+    errorLogBus.emit("error_event", { ...event, count: 25 });
+    await vi.waitFor(async () => expect(await deliveries()).toHaveLength(1));
+
+    const [delivery] = await deliveries();
+    expect(delivery.payload).toMatchObject({ event: "error.threshold", data: { fingerprint: "fp1", count: 25 } });
+  });
+});
@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { createHmac } from "crypto";
+import { readFileSync } from "fs";
+import { join } from "path";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import "./helpers/open-auth";
+
+vi.mock("../server/ai-service", () => ({
+  categorizeVideo: vi.fn().mockResolvedValue({
+    categories: { en: [], sr: [] },
+    tags: { en: [], sr: [] },
+  }),
+}));
+
+import { getPlatformAdapter } from "../server/platforms";
+import { getPushActiveChannelIds, renewWebSubSubscriptions, ingestPushedVideos } from "../server/services/websub";
+import websubRouter from "../server/routes/websub";
+import sourcesRouter from "../server/routes/sources";
+
+const YOUTUBE_CHANNEL_ID = "UCkXb9uN3aQw1ZcF5pV8rT2g";
+const TOPIC = `https://www.youtube.com/xml/feeds/videos.xml?channel_id=${YOUTUBE_CHANNEL_ID}`;
+const notification = readFileSync(join(__dirname, "fixtures", "websub", "notification.atom"));
+
+const app = express();
+app.use("/api/websub", websubRouter);
+app.use(express.json());
+app.use("/api/admin/sources", sourcesRouter);
+
+/** Answers subscribe requests the way the hub does and records what was sent. */
+function stubHub(status = 202) {
+  const requests: URLSearchParams[] = [];
+  global.fetch = vi.fn(async (_input: any, init?: any) => {
+    requests.push(new URLSearchParams(String(init?.body ?? "")));
+    return new Response(status === 202 ? "" : "Invalid topic", { status });
+  }) as any;
+  return requests;
+}
+
+async function createChannel(overrides: Record<string, unknown> = {}) {
+  return memStorage.current.createChannel({
+    name: "Kuhinja sa Anom",
+    url: "https://www.youtube.com/@kuhinjasaanom",
+    channelId: YOUTUBE_CHANNEL_ID,
+    platform: "youtube",
+    ...overrides,
+  });
+}
+
+async function subscribeAndVerify(channelId: string) {
+  const res = await request(app).post(`/api/admin/sources/channels/${channelId}/websub`);
+  expect(res.status).toBe(200);
+  const verify = await request(app).get(`/api/websub/youtube/${res.body.id}`).query({
+    "hub.mode": "subscribe",
+    "hub.topic": TOPIC,
+    "hub.challenge": "c-123",
+    "hub.lease_seconds": "432000",
+  });
+  expect(verify.status).toBe(200);
+  expect(verify.text).toBe("c-123");
+  return memStorage.current.getWebSubSubscription(res.body.id);
+}
+
+function sign(secret: string, body: Buffer) {
+  return `sha1=${createHmac("sha1", secret).update(body).digest("hex")}`;
+}
+
+describe("WebSub push subscriptions", () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(async () => {
+    await resetMemStorage();
+    process.env.WEBSUB_CALLBACK_BASE_URL = "https://push.nisam.video";
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    delete process.env.WEBSUB_CALLBACK_BASE_URL;
+    vi.restoreAllMocks();
+  });
+
+  it("requests a subscription and confirms the hub's verification challenge", async () => {
+    const requests = stubHub();
+    const channel = await createChannel();
+
+    const subscription = await subscribeAndVerify(channel.id);
+
+    expect(requests).toHaveLength(1);
+    expect(Object.fromEntries(requests[0])).toMatchObject({
+      "hub.callback": `https://push.nisam.video/api/websub/youtube/${subscription.id}`,
+      "hub.mode": "subscribe",
+      "hub.topic": TOPIC,
+      "hub.verify": "async",
+      "hub.secret": subscription.secret,
+    });
+    expect(subscription).toMatchObject({ status: "subscribed", leaseSeconds: 432000, lastError: null });
+    expect(subscription.leaseExpiresAt.getTime()).toBeGreaterThan(Date.now() + 4 * 24 * 3600 * 1000);
+    expect(await getPushActiveChannelIds()).toEqual(new Set([channel.id]));
+
+    // The admin listing never exposes the signing secret
+    const listing = await request(app).get("/api/admin/sources/websub");
+    expect(listing.body.enabled).toBe(true);
+    expect(listing.body.subscriptions[0]).not.toHaveProperty("secret");
+  });
+
+  it("rejects verification for a topic it did not subscribe to", async () => {
+    stubHub();
+    const channel = await createChannel();
+    const res = await request(app).post(`/api/admin/sources/channels/${channel.id}/websub`);
+
+    const verify = await request(app).get(`/api/websub/youtube/${res.body.id}`).query({
+      "hub.mode": "subscribe",
+      "hub.topic": "https://www.youtube.com/xml/feeds/videos.xml?channel_id=UCsomeoneElse000000000000",
+      "hub.challenge": "c-123",
+    });
+    expect(verify.status).toBe(404);
+    expect((await memStorage.current.getWebSubSubscription(res.body.id)).status).toBe("pending");
+  });
+
+  it("ingests videos from a signed notification and ignores forged ones", async () => {
+    stubHub();
+    const channel = await createChannel();
+    const subscription = await subscribeAndVerify(channel.id);
+    const resolveVideo = vi.spyOn(getPlatformAdapter("youtube")!, "resolveVideo").mockResolvedValue({
+      videoId: "zQ4wE6rT8yU",
+      title: "Sarma kao kod bake",
+      description: "Recept za sarmu.",
+      thumbnailUrl: "https://i.ytimg.com/vi/zQ4wE6rT8yU/hqdefault.jpg",
+      duration: "18:20",
+      videoType: "regular",
+    });
+
+    const forged = await request(app)
+      .post(`/api/websub/youtube/${subscription.id}`)
+      .set("Content-Type", "application/atom+xml")
+      .set("X-Hub-Signature", sign("not-the-secret", notification))
+      .send(notification);
+    expect(forged.status).toBe(204);
+    expect(resolveVideo).not.toHaveBeenCalled();
+
+    const res = await request(app)
+      .post(`/api/websub/youtube/${subscription.id}`)
+      .set("Content-Type", "application/atom+xml")
+      .set("X-Hub-Signature", sign(subscription.secret, notification))
+      .send(notification);
+    expect(res.status).toBe(204);
+
+    await vi.waitFor(async () => {
+      expect(await memStorage.current.getVideoByVideoId("zQ4wE6rT8yU")).toMatchObject({
+        channelId: channel.id,
+        title: "Sarma kao kod bake",
+      });
+    });
+    expect(resolveVideo).toHaveBeenCalledWith("https://www.youtube.com/watch?v=zQ4wE6rT8yU");
+    expect(await memStorage.current.getWebSubSubscription(subscription.id)).toMatchObject({ notificationCount: 1 });
+
+    // A repeat notification (e.g. a title edit) doesn't refetch known videos
+    expect(await ingestPushedVideos(channel.id, ["zQ4wE6rT8yU"])).toBe(0);
+    expect(resolveVideo).toHaveBeenCalledTimes(1);
+  });
+
+  it("subscribes new channels and renews leases close to expiry", async () => {
+    const requests = stubHub();
+    const fresh = await createChannel();
+    const expiring = await createChannel({ name: "Expiring", channelId: "UCaaaaaaaaaaaaaaaaaaaaaa" });
+    const settled = await createChannel({ name: "Settled", channelId: "UCbbbbbbbbbbbbbbbbbbbbbb" });
+    await createChannel({ name: "No id yet", channelId: null });
+    await createChannel({ name: "Vimeo", url: "https://vimeo.com/k", platform: "vimeo", channelId: "k" });
+
+    const hourAgo = new Date(Date.now() - 2 * 3600 * 1000);
+    const base = { hubUrl: "https://pubsubhubbub.appspot.com/subscribe", secret: "s", status: "subscribed", lastRequestedAt: hourAgo };
+    await memStorage.current.saveWebSubSubscription({
+      ...base,
+      channelId: expiring.id,
+      topicUrl: "t1",
+      leaseExpiresAt: new Date(Date.now() + 6 * 3600 * 1000),
+    });
+    await memStorage.current.saveWebSubSubscription({
+      ...base,
+      channelId: settled.id,
+      topicUrl: "t2",
+      leaseExpiresAt: new Date(Date.now() + 3 * 24 * 3600 * 1000),
+    });
+
+    const summary = await renewWebSubSubscriptions();
+
+    expect(summary).toEqual({ skipped: false, requested: 2, failed: 0 });
+    expect(requests.map((r) => r.get("hub.topic")).sort()).toEqual([
+      "https://www.youtube.com/xml/feeds/videos.xml?channel_id=UCaaaaaaaaaaaaaaaaaaaaaa",
+      TOPIC,
+    ]);
+    // A renewal keeps the live lease marked subscribed; a first request is pending
+    expect((await memStorage.current.getWebSubSubscriptionByChannel(expiring.id)).status).toBe("subscribed");
+    expect((await memStorage.current.getWebSubSubscriptionByChannel(fresh.id)).status).toBe("pending");
+
+    // Nothing is due again straight away
+    expect((await renewWebSubSubscriptions()).requested).toBe(0);
+  });
+
+  it("records hub errors and stays off without a public callback URL", async () => {
+    stubHub(400);
+    const channel = await createChannel();
+
+    const res = await request(app).post(`/api/admin/sources/channels/${channel.id}/websub`);
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ status: "error", lastError: "Hub responded 400: Invalid topic" });
+
+    process.env.WEBSUB_CALLBACK_BASE_URL = "http://localhost:5001";
+    expect(await renewWebSubSubscriptions()).toEqual({ skipped: true, requested: 0, failed: 0 });
+    expect((await request(app).post(`/api/admin/sources/channels/${channel.id}/websub`)).status).toBe(400);
+  });
+});
@@ -38,7 +38,7 @@ vi.mock("../server/ai-service.js", () => ({
 
 vi.mock("../server/middleware/auth.js", () => ({
   requireAuth: (_req: any, _res: any, next: any) => next(),
-  requireAdmin: (_req: any, _res: any, next: any) => next(),
+  requirePermission: () => (_req: any, _res: any, next: any) => next(),
 }));
 
 vi.mock("../server/x-resolver.js", async () => {
@@ -0,0 +1,227 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { readFileSync } from "fs";
+import { join } from "path";
+import express from "express";
+import request from "supertest";
+import { memStorage, resetMemStorage } from "./helpers/storage";
+import "./helpers/open-auth";
+
+import { collectChannelVideos, getPlatformAdapter } from "../server/platforms";
+import { parseIsoDuration, youtubeQuotaDay } from "../server/platforms/youtube-api";
+import sourcesRouter from "../server/routes/sources";
+
+const CHANNEL_URL = "https://www.youtube.com/@kuhinjasaanom";
+const API_BASE = "https://www.googleapis.com/youtube/v3";
+
+function fixture(name: string): string {
+  return readFileSync(join(__dirname, "fixtures", "youtube-api", name), "utf8");
+}
+
+const CHANNEL_HTML = `<html><body><script>var ytInitialData = { "header": { "c4TabbedHeaderRenderer": { "title": "Kuhinja (HTML)", "channelId": "UCkXb9uN3aQw1ZcF5pV8rT2g" } } };</script></body></html>`;
+
+/**
+ * Replays recorded Data API responses. Pages and video batches are told
+ * apart by their query parameters, the way the real API would.
+ */
+function stubYouTube(options: { quotaExceeded?: boolean } = {}) {
+  const requested: string[] = [];
+  global.fetch = vi.fn(async (input: any) => {
+    const url = new URL(String(input));
+    requested.push(url.toString());
+
+    if (url.hostname === "www.youtube.com") {
+      return new Response(CHANNEL_HTML, { status: 200 });
+    }
+    if (options.quotaExceeded) {
+      return new Response(fixture("quota-exceeded.json"), { status: 403 });
+    }
+
+    const path = url.pathname.replace("/youtube/v3/", "");
+    let body: string | undefined;
+    if (path === "channels" && url.searchParams.get("forHandle") === "kuhinjasaanom") {
+      body = fixture("channels.json");
+    } else if (path === "playlistItems") {
+      body = fixture(url.searchParams.get("pageToken") ? "playlistItems-2.json" : "playlistItems-1.json");
+    } else if (path === "videos") {
+      body = fixture(url.searchParams.get("id")!.startsWith("aB3") ? "videos-1.json" : "videos-2.json");
+    }
+    return body ? new Response(body, { status: 200 }) : new Response("{}", { status: 404 });
+  }) as any;
+  return requested;
+}
+
+const apiCalls = (requested: string[]) => requested.filter((url) => url.startsWith(API_BASE));
+
+beforeEach(async () => {
+  await resetMemStorage();
+  await memStorage.current.updateSystemSettings({ youtubeApiKey: "test-key", youtubeQuotaDailyLimit: 10000 });
+});
+
+describe("YouTube Data API ingestion", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it("parses ISO 8601 durations", () => {
+    expect(parseIsoDuration("PT12M34S")).toBe(754);
+    expect(parseIsoDuration("PT1H2M3S")).toBe(3723);
+    expect(parseIsoDuration("P1DT2H")).toBe(93600);
+    expect(parseIsoDuration("P0D")).toBeUndefined();
+    expect(parseIsoDuration("12:34")).toBeUndefined();
+  });
+
+  it("lists the uploads playlist with batched video details and channel branding", async () => {
+    const requested = stubYouTube();
+
+    const { videos, channelInfo } = await collectChannelVideos({ url: CHANNEL_URL, platform: "youtube" });
+
+    expect(channelInfo).toEqual({
+      name: "Kuhinja sa Anom",
+      channelId: "UCkXb9uN3aQw1ZcF5pV8rT2g",
+      description: "Recepti za svaki dan, bez komplikacija.",
+      thumbnailUrl: "https://yt3.ggpht.com/kuhinja-avatar=s800-c-k-c0x00ffffff-no-rj",
+      bannerUrl: "https://yt3.googleusercontent.com/kuhinja-banner",
+    });
+
+    // The private upload (tU5vW7xY9zA) is missing from videos.list and skipped
+    expect(videos.map((v) => v.videoId)).toEqual(["aB3dE5fG7hJ", "kL9mN1pQ3rS", "bC2dE4fG6hI", "jK8lM0nO2pQ"]);
+    expect(videos[0]).toMatchObject({
+      title: "Domaća pita sa sirom - recept korak po korak",
+      thumbnailUrl: "https://i.ytimg.com/vi/aB3dE5fG7hJ/maxresdefault.jpg",
+      duration: "12:34",
+      viewCount: "48213",
+      publishDate: "2026-10-14T16:00:08.000Z",
+      videoType: "regular",
+      tags: ["pita", "recept", "domaća kuhinja"],
+      descriptionComplete: true,
+    });
+    expect(videos[0].description).toContain("6:45 Pečenje");
+    expect(videos.map((v) => v.videoType)).toEqual(["regular", "youtube_short", "youtube_short", "regular"]);
+    expect(videos[3].duration).toBe("1:02:03");
+
+    // One channel lookup, then a playlist page and a videos batch per page
+    const calls = apiCalls(requested);
+    expect(calls.map((url) => new URL(url).pathname.split("/").pop())).toEqual([
+      "channels",
+      "playlistItems",
+      "videos",
+      "playlistItems",
+      "videos",
+    ]);
+    expect(new URL(calls[1]).searchParams.get("playlistId")).toBe("UUkXb9uN3aQw1ZcF5pV8rT2g");
+    expect(new URL(calls[2]).searchParams.get("id")).toBe("aB3dE5fG7hJ,kL9mN1pQ3rS,tU5vW7xY9zA");
+    expect(calls.every((url) => new URL(url).searchParams.get("key") === "test-key")).toBe(true);
+    expect(requested.some((url) => url.startsWith("https://www.youtube.com"))).toBe(false);
+
+    const usage = await memStorage.current.getYouTubeQuota(youtubeQuotaDay());
+    expect(usage).toMatchObject({
+      units: 5,
+      calls: 5,
+      byMethod: { "channels.list": 1, "playlistItems.list": 2, "videos.list": 2 },
+      exhaustedAt: null,
+    });
+  });
+
+  it("stops at the first known upload without looking it up", async () => {
+    const requested = stubYouTube();
+
+    const { videos } = await collectChannelVideos(
+      { url: CHANNEL_URL, platform: "youtube" },
+      { existingVideoIds: new Set(["kL9mN1pQ3rS"]), incremental: true },
+    );
+
+    expect(videos.map((v) => v.videoId)).toEqual(["aB3dE5fG7hJ"]);
+    const calls = apiCalls(requested);
+    expect(calls).toHaveLength(3);
+    expect(new URL(calls[2]).searchParams.get("id")).toBe("aB3dE5fG7hJ");
+  });
+
+  it("marks the day exhausted on quotaExceeded and falls back to HTML scraping", async () => {
+    const requested = stubYouTube({ quotaExceeded: true });
+
+    const { channelInfo } = await collectChannelVideos({ url: CHANNEL_URL, platform: "youtube" });
+
+    expect(channelInfo?.name).toBe("Kuhinja (HTML)");
+    expect(requested.some((url) => url.startsWith(`${CHANNEL_URL}/videos`))).toBe(true);
+    const usage = await memStorage.current.getYouTubeQuota(youtubeQuotaDay());
+    expect(usage.units).toBe(1);
+    expect(usage.exhaustedAt).toBeInstanceOf(Date);
+
+    // Later scrapes that day go straight to HTML without spending anything
+    const again = stubYouTube();
+    await collectChannelVideos({ url: CHANNEL_URL, platform: "youtube" });
+    expect(apiCalls(again)).toHaveLength(0);
+  });
+
+  it("does not call the API once the configured daily limit is spent", async () => {
+    await memStorage.current.updateSystemSettings({ youtubeQuotaDailyLimit: 2 });
+    const requested = stubYouTube();
+
+    const { videos } = await collectChannelVideos({ url: CHANNEL_URL, platform: "youtube" });
+
+    // channels.list and the first playlist page fit; the videos batch doesn't
+    expect(apiCalls(requested)).toHaveLength(2);
+    expect(requested.some((url) => url.startsWith(`${CHANNEL_URL}/videos`))).toBe(true);
+    expect(videos).toEqual([]);
+  });
+
+  it("scrapes HTML for channels set to html mode or when no key is configured", async () => {
+    let requested = stubYouTube();
+    await collectChannelVideos({ url: CHANNEL_URL, platform: "youtube", ingestionMode: "html" });
+    expect(apiCalls(requested)).toHaveLength(0);
+
+    await memStorage.current.updateSystemSettings({ youtubeApiKey: null });
+    requested = stubYouTube();
+    await collectChannelVideos({ url: CHANNEL_URL, platform: "youtube" });
+    expect(apiCalls(requested)).toHaveLength(0);
+  });
+
+  it("fetches channel info through the API when adding a channel", async () => {
+    stubYouTube();
+    const info = await getPlatformAdapter("youtube")!.fetchChannelInfo(CHANNEL_URL);
+    expect(info.bannerUrl).toBe("https://yt3.googleusercontent.com/kuhinja-banner");
+  });
+});
+
+describe("YouTube ingestion admin routes", () => {
+  const app = express();
+  app.use(express.json());
+  app.use("/api/admin/sources", sourcesRouter);
+
+  it("reports today's quota usage", async () => {
+    await memStorage.current.updateSystemSettings({ youtubeQuotaDailyLimit: 500 });
+    const day = youtubeQuotaDay();
+    await memStorage.current.recordYouTubeQuotaUsage(day, "videos.list", 1);
+    await memStorage.current.recordYouTubeQuotaUsage(day, "channels.list", 1);
+
+    const res = await request(app).get("/api/admin/sources/youtube-quota");
+
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({
+      day,
+      keyConfigured: true,
+      dailyLimit: 500,
+      units: 2,
+      remaining: 498,
+      exhausted: false,
+      byMethod: { "videos.list": 1, "channels.list": 1 },
+    });
+    expect(res.body.history[0]).toMatchObject({ day, units: 2, calls: 2 });
+  });
+
+  it("switches a YouTube channel's ingestion mode", async () => {
+    const youtube = await memStorage.current.createChannel({ name: "Kuhinja", url: CHANNEL_URL, platform: "youtube" });
+    const vimeo = await memStorage.current.createChannel({ name: "Vimeo", url: "https://vimeo.com/k", platform: "vimeo" });
+    expect(youtube.ingestionMode).toBe("api");
+
+    const res = await request(app).patch(`/api/admin/sources/channels/${youtube.id}`).send({ ingestionMode: "html" });
+    expect(res.status).toBe(200);
+    expect((await memStorage.current.getChannel(youtube.id)).ingestionMode).toBe("html");
+
+    expect((await request(app).patch(`/api/admin/sources/channels/${youtube.id}`).send({ ingestionMode: "rss" })).status).toBe(400);
+    expect((await request(app).patch(`/api/admin/sources/channels/${vimeo.id}`).send({ ingestionMode: "html" })).status).toBe(400);
+    expect((await request(app).patch("/api/admin/sources/channels/missing").send({ ingestionMode: "html" })).status).toBe(404);
+  });
+});